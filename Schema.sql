@@ -28,6 +28,7 @@ CREATE TABLE users (
     role TEXT NOT NULL CHECK (role IN ('athlete', 'trainer', 'admin', 'rekabytes-admin')),
     avatar_url TEXT,
     is_verified BOOLEAN DEFAULT FALSE,
+    deactivated_at TIMESTAMP WITH TIME ZONE, -- Set while an account deletion is pending
     created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
 );
@@ -57,7 +58,25 @@ CREATE TABLE trainers (
     certification_id TEXT,
     specialization TEXT,
     verification_status TEXT DEFAULT 'pending' CHECK (verification_status IN ('pending', 'approved', 'rejected')),
-    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    verification_submitted_at TIMESTAMP WITH TIME ZONE, -- When documents were last submitted for review
+    verification_reviewed_at TIMESTAMP WITH TIME ZONE,
+    verification_reviewed_by UUID, -- Admin who made the last decision
+    verification_reason TEXT, -- Reason given with the last decision; shown to the trainer on rejection
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (verification_reviewed_by) REFERENCES users (id) ON DELETE SET NULL
+);
+
+-- Certification documents uploaded by trainers for verification
+-- Files live in the private 'trainer-documents' bucket under {trainer_id}/
+CREATE TABLE trainer_documents (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    trainer_id UUID NOT NULL,
+    certification_id TEXT, -- Trainer's certification ID when the document was uploaded
+    file_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    FOREIGN KEY (trainer_id) REFERENCES trainers (user_id) ON DELETE CASCADE
 );
 
 -- Extended athlete profiles
@@ -93,6 +112,26 @@ CREATE TABLE tests (
     UNIQUE(component_id, name)
 );
 
+-- Normative values for tests, banded by population
+-- NULL band columns apply to everyone; the most specific matching row is used
+CREATE TABLE test_norms (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    test_id INTEGER NOT NULL,
+    gender TEXT CHECK (gender IN ('male', 'female')),
+    sport TEXT,
+    level TEXT CHECK (level IN ('beginner', 'intermediate', 'advanced', 'elite')),
+    age_min INTEGER,
+    age_max INTEGER,
+    p10 REAL NOT NULL, -- Result value at the 10th percentile
+    p25 REAL NOT NULL,
+    p50 REAL NOT NULL,
+    p75 REAL NOT NULL,
+    p90 REAL NOT NULL, -- Result value at the 90th percentile
+    source TEXT, -- Reference for the norm data
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (test_id) REFERENCES tests (id) ON DELETE CASCADE
+);
+
 -- =============================================
 -- RELATIONSHIP AND DATA TABLES
 -- =============================================
@@ -124,9 +163,11 @@ CREATE TABLE test_results (
     test_date DATE NOT NULL,
     input_unit TEXT,
     is_best_record BOOLEAN DEFAULT FALSE,
+    recorded_by_user_id UUID, -- Athlete or trainer who recorded the result
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
-    FOREIGN KEY (test_id) REFERENCES tests (id) ON DELETE CASCADE
+    FOREIGN KEY (test_id) REFERENCES tests (id) ON DELETE CASCADE,
+    FOREIGN KEY (recorded_by_user_id) REFERENCES users (id) ON DELETE SET NULL
 );
 
 -- Athlete body metrics tracking
@@ -145,6 +186,47 @@ CREATE TABLE athlete_body_metrics (
     FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE
 );
 
+-- Athlete goals: a target for a test result, a body metric or the number of
+-- completed workouts, to reach by a deadline. Progress is computed from
+-- test_results, athlete_body_metrics and workout_assignments.
+CREATE TABLE athlete_goals (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    athlete_id UUID NOT NULL,
+    set_by_user_id UUID, -- Athlete or trainer who set the goal
+    goal_type TEXT NOT NULL CHECK (goal_type IN ('test', 'body_metric', 'workout_count')),
+    title TEXT,
+    test_id INTEGER,
+    metric TEXT CHECK (metric IN ('weight', 'body_fat_percentage', 'muscle_mass', 'bmi')),
+    target_value REAL NOT NULL,
+    baseline_value REAL, -- Value when the goal was set
+    direction TEXT NOT NULL DEFAULT 'higher' CHECK (direction IN ('higher', 'lower')),
+    start_date DATE NOT NULL,
+    deadline DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'achieved', 'missed', 'cancelled')),
+    achieved_at TIMESTAMP WITH TIME ZONE,
+    at_risk_notified_at TIMESTAMP WITH TIME ZONE, -- Set once the at-risk notification is sent
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (set_by_user_id) REFERENCES users (id) ON DELETE SET NULL,
+    FOREIGN KEY (test_id) REFERENCES tests (id) ON DELETE CASCADE,
+    CHECK (goal_type <> 'test' OR test_id IS NOT NULL),
+    CHECK (goal_type <> 'body_metric' OR metric IS NOT NULL),
+    CHECK (deadline >= start_date)
+);
+
+-- Achievement badges awarded to athletes. The badges themselves are rules
+-- defined by the server; achievement_key names the rule.
+CREATE TABLE athlete_achievements (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    athlete_id UUID NOT NULL,
+    achievement_key TEXT NOT NULL,
+    value REAL, -- Metric value when awarded
+    awarded_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
+    UNIQUE (athlete_id, achievement_key)
+);
+
 -- User notifications
 CREATE TABLE notifications (
     id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
@@ -156,24 +238,54 @@ CREATE TABLE notifications (
     is_read BOOLEAN DEFAULT FALSE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     read_at TIMESTAMP,
+    push_status TEXT NOT NULL DEFAULT 'pending' CHECK (push_status IN ('pending', 'processing', 'sent', 'failed', 'skipped')),
+    pushed_at TIMESTAMP WITH TIME ZONE, -- When push delivery finished (sent, failed or skipped)
     FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
 );
 
+-- Devices registered for push notifications with their Expo push token
+-- A token belongs to one user at a time; it's removed when the user signs out
+CREATE TABLE push_devices (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    user_id UUID NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    platform TEXT NOT NULL CHECK (platform IN ('ios', 'android', 'web')),
+    device_name TEXT,
+    app_version TEXT,
+    last_registered_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- One row per push message sent for a notification
+CREATE TABLE push_deliveries (
+    id BIGINT PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    notification_id INTEGER NOT NULL,
+    device_id INTEGER, -- NULL once the device is removed
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'invalid_token')),
+    ticket_id TEXT, -- Push service ticket for sent messages
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    FOREIGN KEY (notification_id) REFERENCES notifications (id) ON DELETE CASCADE,
+    FOREIGN KEY (device_id) REFERENCES push_devices (id) ON DELETE SET NULL
+);
+
 -- =============================================
 -- WORKOUT MANAGEMENT TABLES
 -- =============================================
 
 -- Workout templates created by trainers (MVP - simplified)
+-- trainer_id is NULL once the trainer's account is deleted and athletes' history still uses it
 CREATE TABLE workout_templates (
     id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
-    trainer_id UUID NOT NULL,
+    trainer_id UUID,
     name TEXT NOT NULL,
     description TEXT,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     synced_at TIMESTAMP,
     is_dirty BOOLEAN DEFAULT FALSE,
-    FOREIGN KEY (trainer_id) REFERENCES users (id) ON DELETE CASCADE
+    FOREIGN KEY (trainer_id) REFERENCES users (id) ON DELETE SET NULL
 );
 
 -- Exercise library (MVP - system exercises only)
@@ -196,6 +308,13 @@ CREATE TABLE workout_exercises (
     sets INTEGER NOT NULL,
     reps INTEGER NOT NULL,
     rest_time INTEGER NOT NULL,
+    -- Progressive overload rule; reps is the bottom of the range for double progression
+    target_weight NUMERIC,
+    progression_type TEXT DEFAULT 'none' CHECK (progression_type IN ('none', 'linear', 'double')),
+    weight_increment NUMERIC,
+    rep_range_max INTEGER,
+    deload_after_misses INTEGER,
+    deload_percent NUMERIC DEFAULT 10,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     synced_at TIMESTAMP,
@@ -204,23 +323,72 @@ CREATE TABLE workout_exercises (
     FOREIGN KEY (exercise_id) REFERENCES exercises (id) ON DELETE CASCADE
 );
 
+-- Multi-week training programs built from workout templates
+CREATE TABLE training_programs (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    trainer_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    duration_weeks INTEGER NOT NULL CHECK (duration_weeks BETWEEN 1 AND 52),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (trainer_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- Workouts in a program's grid, by week and weekday (1 = Monday ... 7 = Sunday)
+CREATE TABLE program_workouts (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    program_id INTEGER NOT NULL,
+    workout_template_id INTEGER NOT NULL,
+    week_number INTEGER NOT NULL CHECK (week_number >= 1),
+    day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 1 AND 7),
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (program_id) REFERENCES training_programs (id) ON DELETE CASCADE,
+    FOREIGN KEY (workout_template_id) REFERENCES workout_templates (id) ON DELETE CASCADE
+);
+
+-- Programs assigned to athletes
+-- offset_days accumulates shifts and pauses since start_date
+CREATE TABLE program_assignments (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    program_id INTEGER NOT NULL,
+    athlete_id UUID NOT NULL,
+    trainer_id UUID NOT NULL,
+    start_date DATE NOT NULL,
+    offset_days INTEGER NOT NULL DEFAULT 0,
+    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'ended')),
+    paused_on DATE,
+    ended_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (program_id) REFERENCES training_programs (id) ON DELETE CASCADE,
+    FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (trainer_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
 -- Workout assignments to athletes
 CREATE TABLE workout_assignments (
     id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
     workout_template_id INTEGER NOT NULL,
     athlete_id UUID NOT NULL,
-    trainer_id UUID NOT NULL,
+    trainer_id UUID, -- NULL once the trainer's account is deleted
     scheduled_date DATE NOT NULL,
     status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'skipped', 'cancelled')),
     started_at TIMESTAMP,
     completed_at TIMESTAMP,
+    -- Set when generated from a program; history is kept if the program goes
+    program_assignment_id INTEGER,
+    program_workout_id INTEGER,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     synced_at TIMESTAMP,
     is_dirty BOOLEAN DEFAULT FALSE,
     FOREIGN KEY (workout_template_id) REFERENCES workout_templates (id) ON DELETE CASCADE,
     FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
-    FOREIGN KEY (trainer_id) REFERENCES users (id) ON DELETE CASCADE
+    FOREIGN KEY (trainer_id) REFERENCES users (id) ON DELETE SET NULL,
+    FOREIGN KEY (program_assignment_id) REFERENCES program_assignments (id) ON DELETE SET NULL,
+    FOREIGN KEY (program_workout_id) REFERENCES program_workouts (id) ON DELETE SET NULL
 );
 
 -- Athlete's progress through a workout session (MVP - simplified)
@@ -230,6 +398,9 @@ CREATE TABLE workout_session_progress (
     workout_exercise_id INTEGER NOT NULL,
     set_number INTEGER NOT NULL,
     completed BOOLEAN DEFAULT FALSE,
+    reps_completed INTEGER,
+    weight_used NUMERIC,
+    notes TEXT,
     completed_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -239,6 +410,26 @@ CREATE TABLE workout_session_progress (
     FOREIGN KEY (workout_exercise_id) REFERENCES workout_exercises (id) ON DELETE CASCADE
 );
 
+-- Per-athlete exercise targets set by progression rules when a workout is
+-- finished; used for the athlete's next assignment of the template
+CREATE TABLE athlete_exercise_targets (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    athlete_id UUID NOT NULL,
+    workout_template_id INTEGER NOT NULL,
+    exercise_id INTEGER NOT NULL,
+    target_weight NUMERIC,
+    target_reps INTEGER NOT NULL,
+    consecutive_misses INTEGER NOT NULL DEFAULT 0,
+    last_outcome TEXT CHECK (last_outcome IN ('increased', 'reps_increased', 'held', 'deloaded', 'manual')),
+    last_assignment_id INTEGER,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (workout_template_id) REFERENCES workout_templates (id) ON DELETE CASCADE,
+    FOREIGN KEY (exercise_id) REFERENCES exercises (id) ON DELETE CASCADE,
+    FOREIGN KEY (last_assignment_id) REFERENCES workout_assignments (id) ON DELETE SET NULL,
+    UNIQUE (athlete_id, workout_template_id, exercise_id)
+);
+
 -- =============================================
 -- CALENDAR EVENT SYSTEM TABLES
 -- =============================================
@@ -260,7 +451,7 @@ CREATE TABLE events (
     title TEXT NOT NULL,
     description TEXT,
     event_type_id INTEGER NOT NULL,
-    created_by_user_id UUID NOT NULL, -- Trainer who created the event
+    created_by_user_id UUID, -- Trainer who created the event; NULL once their account is deleted
     start_date TIMESTAMP NOT NULL,
     end_date TIMESTAMP NOT NULL,
     location TEXT,
@@ -273,10 +464,17 @@ CREATE TABLE events (
     is_public BOOLEAN DEFAULT FALSE, -- Public events visible to all athletes
     requires_approval BOOLEAN DEFAULT FALSE, -- Athletes need approval to join
     notes TEXT,
+    recurrence_rule TEXT, -- RRULE subset (FREQ, INTERVAL, BYDAY, UNTIL, COUNT); NULL for one-off events
+    recurrence_exdates JSONB DEFAULT '[]', -- Occurrence start times removed from the series
+    recurrence_parent_id INTEGER, -- Series this event overrides a single occurrence of
+    recurrence_id TIMESTAMP, -- Original start time of the overridden occurrence
+    reminder_offsets JSONB DEFAULT '[]', -- Minutes before start to remind participants, e.g. [1440, 120]
+    results_auto_ranked BOOLEAN DEFAULT TRUE, -- Results are ranked automatically; manual placings are kept when FALSE
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (event_type_id) REFERENCES event_types (id),
-    FOREIGN KEY (created_by_user_id) REFERENCES users (id) ON DELETE CASCADE
+    FOREIGN KEY (created_by_user_id) REFERENCES users (id) ON DELETE SET NULL,
+    FOREIGN KEY (recurrence_parent_id) REFERENCES events (id) ON DELETE CASCADE
 );
 
 -- Event participants (athletes assigned to events)
@@ -284,25 +482,70 @@ CREATE TABLE event_participants (
     id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
     event_id INTEGER NOT NULL,
     athlete_id UUID NOT NULL,
-    assigned_by_user_id UUID NOT NULL, -- Trainer who assigned the athlete
-    status TEXT DEFAULT 'registered' CHECK (status IN ('invited', 'registered', 'confirmed', 'declined', 'attended', 'no_show', 'withdrawn')),
-    registration_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    assigned_by_user_id UUID, -- Trainer who assigned the athlete
+    status TEXT DEFAULT 'registered' CHECK (status IN ('invited', 'pending', 'registered', 'waitlisted', 'confirmed', 'declined', 'attended', 'no_show', 'withdrawn')),
+    registration_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Also orders the waitlist
     response_date TIMESTAMP,
     notes TEXT,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (event_id) REFERENCES events (id) ON DELETE CASCADE,
     FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
-    FOREIGN KEY (assigned_by_user_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (assigned_by_user_id) REFERENCES users (id) ON DELETE SET NULL,
     UNIQUE(event_id, athlete_id) -- Prevent duplicate assignments
 );
 
+-- Reject registrations past max_participants with SQLSTATE EF001
+-- Locks the event row so concurrent registrations are counted one at a time.
+-- Invitations are not limited; athletes joining from a status that holds no
+-- spot are. The spot-holding statuses match SPOT_HOLDING_STATUSES in
+-- utils/eventRegistration.ts.
+CREATE OR REPLACE FUNCTION enforce_event_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    capacity INTEGER;
+    taken INTEGER;
+BEGIN
+    IF NEW.status NOT IN ('registered', 'confirmed') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.event_id = NEW.event_id
+        AND OLD.status IN ('invited', 'registered', 'confirmed', 'attended') THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT max_participants INTO capacity FROM events WHERE id = NEW.event_id FOR UPDATE;
+
+    IF capacity IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COUNT(*) INTO taken FROM event_participants
+    WHERE event_id = NEW.event_id
+        AND id <> NEW.id
+        AND status IN ('invited', 'registered', 'confirmed', 'attended');
+
+    IF taken >= capacity THEN
+        RAISE EXCEPTION 'event % is full', NEW.event_id USING ERRCODE = 'EF001';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER event_participants_capacity
+    BEFORE INSERT OR UPDATE OF status, event_id ON event_participants
+    FOR EACH ROW EXECUTE FUNCTION enforce_event_capacity();
+
 -- Event reminders/notifications
 CREATE TABLE event_reminders (
     id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
     event_id INTEGER NOT NULL,
     user_id UUID NOT NULL, -- Who will receive the reminder
-    reminder_time TIMESTAMP NOT NULL, -- When to send the reminder
+    reminder_time TIMESTAMP NOT NULL, -- When to send the reminder (UTC)
+    offset_minutes INTEGER, -- Minutes before the occurrence start
+    occurrence_start TIMESTAMP, -- Occurrence the reminder is for (event start for one-off events)
     message TEXT,
     is_sent BOOLEAN DEFAULT FALSE,
     sent_at TIMESTAMP,
@@ -322,15 +565,225 @@ CREATE TABLE event_results (
     rank_position INTEGER,
     score REAL,
     notes TEXT,
-    recorded_by_user_id UUID NOT NULL, -- Who recorded the result
+    test_result_id INTEGER, -- Matching entry in the athlete's test history when test_id is set
+    recorded_by_user_id UUID, -- Who recorded the result
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (event_id) REFERENCES events (id) ON DELETE CASCADE,
     FOREIGN KEY (athlete_id) REFERENCES users (id) ON DELETE CASCADE,
     FOREIGN KEY (test_id) REFERENCES tests (id),
-    FOREIGN KEY (recorded_by_user_id) REFERENCES users (id) ON DELETE CASCADE
+    FOREIGN KEY (test_result_id) REFERENCES test_results (id) ON DELETE SET NULL,
+    FOREIGN KEY (recorded_by_user_id) REFERENCES users (id) ON DELETE SET NULL,
+    UNIQUE(event_id, athlete_id) -- One result per participant
 );
 
+-- Calendar subscription feeds (secret iCalendar URL per user)
+CREATE TABLE calendar_feeds (
+    user_id UUID PRIMARY KEY,
+    token TEXT NOT NULL UNIQUE, -- Secret token in the feed URL; regenerate to revoke
+    timezone TEXT NOT NULL DEFAULT 'Asia/Kuala_Lumpur', -- IANA time zone the feed shows event times in; stored times stay in the default zone
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- =============================================
+-- DATA EXPORTS
+-- =============================================
+
+-- Personal data exports requested by users, built by the server
+-- The zip archive lives in the private 'data-exports' bucket under {user_id}/
+-- and is deleted when the export expires
+CREATE TABLE data_exports (
+    id INTEGER PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    user_id UUID NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'ready', 'failed', 'expired')),
+    file_path TEXT, -- Set while the archive is ready
+    file_size INTEGER, -- Archive size in bytes
+    error TEXT, -- Why the export failed
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- =============================================
+-- ACCOUNT DELETIONS
+-- =============================================
+
+-- Self-service account deletion requests. The user is deactivated while a
+-- request is pending and can cancel until scheduled_for; after that the
+-- server deletes the auth user and everything cascades.
+-- user_id has no foreign key so completed requests outlive the account
+CREATE TABLE account_deletions (
+    id BIGINT PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    user_id UUID NOT NULL,
+    user_name TEXT, -- Name and role when requested, shown to admins after deletion
+    user_role TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cancelled', 'completed')),
+    reason TEXT,
+    -- Trainer whose content athletes still use moves to this trainer; NULL anonymises it
+    transfer_to_user_id UUID,
+    error TEXT, -- Last failed deletion attempt; retried on the next run
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    FOREIGN KEY (transfer_to_user_id) REFERENCES users (id) ON DELETE SET NULL
+);
+
+-- deactivated_at is set by the server (service role) only, so users can't
+-- reactivate themselves through the "update own profile" policy
+CREATE OR REPLACE FUNCTION protect_user_deactivation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.deactivated_at := NULL;
+    ELSE
+        NEW.deactivated_at := OLD.deactivated_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER users_protect_deactivation
+    BEFORE INSERT OR UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION protect_user_deactivation();
+
+-- =============================================
+-- AUDIT LOG
+-- =============================================
+
+-- Append-only record of admin and other privileged actions
+-- actor_id has no foreign key so entries outlive the users they mention
+CREATE TABLE audit_logs (
+    id BIGINT PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    actor_id UUID, -- NULL for system actions
+    actor_name TEXT, -- Actor's name when the action was taken
+    actor_role TEXT,
+    action TEXT NOT NULL, -- e.g. 'user.role_changed', 'trainer.updated'
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('user', 'user_profiling', 'trainer', 'athlete', 'enrollment')),
+    entity_id TEXT NOT NULL,
+    before_values JSONB, -- Changed fields before the action (NULL on create)
+    after_values JSONB, -- Changed fields after the action (NULL on delete)
+    ip_address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+-- Reject updates and deletes, including from the service role
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_logs entries are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_logs_immutable
+    BEFORE UPDATE OR DELETE ON audit_logs
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER audit_logs_no_truncate
+    BEFORE TRUNCATE ON audit_logs
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Verification fields are set by the server (service role) only, so trainers
+-- can't approve themselves through the "update own profile" policy
+CREATE OR REPLACE FUNCTION protect_trainer_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.verification_status := 'pending';
+        NEW.verification_submitted_at := NULL;
+        NEW.verification_reviewed_at := NULL;
+        NEW.verification_reviewed_by := NULL;
+        NEW.verification_reason := NULL;
+    ELSE
+        NEW.verification_status := OLD.verification_status;
+        NEW.verification_submitted_at := OLD.verification_submitted_at;
+        NEW.verification_reviewed_at := OLD.verification_reviewed_at;
+        NEW.verification_reviewed_by := OLD.verification_reviewed_by;
+        NEW.verification_reason := OLD.verification_reason;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trainers_protect_verification
+    BEFORE INSERT OR UPDATE ON trainers
+    FOR EACH ROW EXECUTE FUNCTION protect_trainer_verification();
+
+-- =============================================
+-- REAL-TIME EVENTS
+-- =============================================
+
+-- Changes streamed to connected clients, one row per recipient
+-- The id is the stream cursor clients resume from. user_id has no foreign key
+-- so rows written while a user is being deleted don't block the delete;
+-- old rows are pruned by a scheduled job.
+CREATE TABLE realtime_events (
+    id BIGINT PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY,
+    user_id UUID NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('notification', 'enrollment', 'workout_assignment')),
+    entity_id INTEGER NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+-- Record a change for each user named in the trigger arguments
+-- TG_ARGV[0] is the event kind; the rest are columns holding recipient ids
+CREATE OR REPLACE FUNCTION emit_realtime_event()
+RETURNS TRIGGER AS $$
+DECLARE
+    row_data JSONB;
+    recipient UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        row_data := to_jsonb(OLD);
+    ELSE
+        row_data := to_jsonb(NEW);
+    END IF;
+
+    FOR i IN 1 .. TG_NARGS - 1 LOOP
+        recipient := (row_data ->> TG_ARGV[i])::UUID;
+
+        IF recipient IS NOT NULL THEN
+            INSERT INTO realtime_events (user_id, kind, entity_id, action)
+            VALUES (
+                recipient,
+                TG_ARGV[0],
+                (row_data ->> 'id')::INTEGER,
+                CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notifications_realtime
+    AFTER INSERT OR UPDATE OF is_read OR DELETE ON notifications
+    FOR EACH ROW EXECUTE FUNCTION emit_realtime_event('notification', 'user_id');
+
+CREATE TRIGGER enrollments_realtime
+    AFTER INSERT OR UPDATE OF status OR DELETE ON enrollments
+    FOR EACH ROW EXECUTE FUNCTION emit_realtime_event('enrollment', 'athlete_id', 'trainer_id');
+
+CREATE TRIGGER workout_assignments_realtime
+    AFTER INSERT OR UPDATE OF status, scheduled_date OR DELETE ON workout_assignments
+    FOR EACH ROW EXECUTE FUNCTION emit_realtime_event('workout_assignment', 'athlete_id', 'trainer_id');
+
 -- =============================================
 -- INDEXES FOR PERFORMANCE OPTIMIZATION
 -- =============================================
@@ -342,6 +795,7 @@ CREATE INDEX idx_users_created_at ON users (created_at);
 -- Trainer indexes
 CREATE INDEX idx_trainers_code ON trainers (trainer_code);
 CREATE INDEX idx_trainers_verification ON trainers (verification_status);
+CREATE INDEX idx_trainer_documents_trainer ON trainer_documents (trainer_id);
 
 -- Athlete indexes
 CREATE INDEX idx_athletes_sport ON athletes (sport);
@@ -350,6 +804,7 @@ CREATE INDEX idx_athletes_level ON athletes (level);
 -- Fitness framework indexes
 CREATE INDEX idx_tests_component ON tests (component_id);
 CREATE INDEX idx_tests_name ON tests (name);
+CREATE INDEX idx_test_norms_test ON test_norms (test_id);
 
 -- Enrollment indexes
 CREATE INDEX idx_enrollments_athlete ON enrollments (athlete_id);
@@ -364,16 +819,27 @@ CREATE INDEX idx_test_results_date ON test_results (test_date);
 CREATE INDEX idx_test_results_athlete_test ON test_results (athlete_id, test_id);
 CREATE INDEX idx_test_results_best_record ON test_results (is_best_record) WHERE is_best_record = TRUE;
 CREATE INDEX idx_test_results_created_at ON test_results (created_at);
+CREATE INDEX idx_test_results_recorded_by ON test_results (recorded_by_user_id);
 
 -- Body metrics indexes
 CREATE INDEX idx_athlete_body_metrics_athlete ON athlete_body_metrics (athlete_id);
 CREATE INDEX idx_athlete_body_metrics_date ON athlete_body_metrics (measurement_date);
 
+-- Goal indexes
+CREATE INDEX idx_athlete_goals_athlete ON athlete_goals (athlete_id, status);
+CREATE INDEX idx_athlete_goals_active_deadline ON athlete_goals (deadline) WHERE status = 'active';
+
+-- Achievement indexes
+CREATE INDEX idx_athlete_achievements_athlete ON athlete_achievements (athlete_id);
+
 -- Notification indexes
 CREATE INDEX idx_notifications_user ON notifications (user_id);
 CREATE INDEX idx_notifications_type ON notifications (type);
 CREATE INDEX idx_notifications_read ON notifications (is_read);
 CREATE INDEX idx_notifications_created_at ON notifications (created_at);
+CREATE INDEX idx_notifications_push_pending ON notifications (created_at) WHERE push_status = 'pending';
+CREATE INDEX idx_push_devices_user ON push_devices (user_id);
+CREATE INDEX idx_push_deliveries_notification ON push_deliveries (notification_id);
 
 -- Workout indexes
 CREATE INDEX idx_workout_templates_trainer ON workout_templates (trainer_id);
@@ -385,6 +851,15 @@ CREATE INDEX idx_workout_assignments_trainer ON workout_assignments (trainer_id)
 CREATE INDEX idx_workout_assignments_status ON workout_assignments (status);
 CREATE INDEX idx_workout_assignments_date ON workout_assignments (scheduled_date);
 CREATE INDEX idx_workout_session_progress_assignment ON workout_session_progress (workout_assignment_id);
+CREATE INDEX idx_athlete_exercise_targets_athlete ON athlete_exercise_targets (athlete_id, workout_template_id);
+
+-- Training program indexes
+CREATE INDEX idx_training_programs_trainer ON training_programs (trainer_id);
+CREATE INDEX idx_program_workouts_program ON program_workouts (program_id, week_number, day_of_week);
+CREATE INDEX idx_program_assignments_program ON program_assignments (program_id);
+CREATE INDEX idx_program_assignments_athlete ON program_assignments (athlete_id);
+CREATE INDEX idx_program_assignments_trainer ON program_assignments (trainer_id, status);
+CREATE INDEX idx_workout_assignments_program ON workout_assignments (program_assignment_id, scheduled_date);
 
 -- Calendar event system indexes
 CREATE INDEX idx_events_creator ON events (created_by_user_id);
@@ -393,6 +868,7 @@ CREATE INDEX idx_events_dates ON events (start_date, end_date);
 CREATE INDEX idx_events_status ON events (status);
 CREATE INDEX idx_events_public ON events (is_public);
 CREATE INDEX idx_events_location ON events (location);
+CREATE INDEX idx_events_recurrence_parent ON events (recurrence_parent_id);
 
 -- Event participants indexes
 CREATE INDEX idx_event_participants_event ON event_participants (event_id);
@@ -406,12 +882,31 @@ CREATE INDEX idx_event_reminders_event ON event_reminders (event_id);
 CREATE INDEX idx_event_reminders_user ON event_reminders (user_id);
 CREATE INDEX idx_event_reminders_time ON event_reminders (reminder_time);
 CREATE INDEX idx_event_reminders_sent ON event_reminders (is_sent);
+CREATE INDEX idx_event_reminders_due ON event_reminders (reminder_time) WHERE is_sent = FALSE;
 
 -- Event results indexes
 CREATE INDEX idx_event_results_event ON event_results (event_id);
 CREATE INDEX idx_event_results_athlete ON event_results (athlete_id);
 CREATE INDEX idx_event_results_rank ON event_results (rank_position);
 
+-- Audit log indexes
+CREATE INDEX idx_audit_logs_created_at ON audit_logs (created_at);
+CREATE INDEX idx_audit_logs_actor ON audit_logs (actor_id, created_at);
+CREATE INDEX idx_audit_logs_entity ON audit_logs (entity_type, entity_id, created_at);
+CREATE INDEX idx_audit_logs_action ON audit_logs (action);
+
+-- Data export indexes
+CREATE INDEX idx_data_exports_user ON data_exports (user_id, requested_at DESC);
+CREATE INDEX idx_data_exports_status ON data_exports (status);
+
+-- Account deletion indexes
+CREATE UNIQUE INDEX idx_account_deletions_pending ON account_deletions (user_id) WHERE status = 'pending';
+CREATE INDEX idx_account_deletions_status ON account_deletions (status, scheduled_for);
+
+-- Real-time event indexes
+CREATE INDEX idx_realtime_events_user ON realtime_events (user_id, id);
+CREATE INDEX idx_realtime_events_created_at ON realtime_events (created_at);
+
 -- =============================================
 -- SUPABASE STORAGE & RLS SECURITY
 -- =============================================
@@ -421,6 +916,16 @@ INSERT INTO storage.buckets (id, name, public)
 VALUES ('avatars', 'avatars', true)
 ON CONFLICT (id) DO NOTHING;
 
+-- Create private bucket for trainer certification documents
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('trainer-documents', 'trainer-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create private bucket for personal data export archives
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('data-exports', 'data-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
 -- Enable RLS on core tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_profiling ENABLE ROW LEVEL SECURITY;
@@ -474,17 +979,32 @@ USING (
 -- Enable RLS on remaining tables
 ALTER TABLE fitness_components ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE test_norms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE athlete_body_metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE athlete_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE athlete_achievements ENABLE ROW LEVEL SECURITY;
 ALTER TABLE workout_templates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE exercises ENABLE ROW LEVEL SECURITY;
 ALTER TABLE workout_exercises ENABLE ROW LEVEL SECURITY;
 ALTER TABLE workout_assignments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE workout_session_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE athlete_exercise_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE training_programs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE program_workouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE program_assignments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE event_types ENABLE ROW LEVEL SECURITY;
 ALTER TABLE events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE event_participants ENABLE ROW LEVEL SECURITY;
 ALTER TABLE event_reminders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE event_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trainer_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE realtime_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_exports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_deletions ENABLE ROW LEVEL SECURITY;
 
 -- Trainers & Athletes
 CREATE POLICY "Trainers are viewable by everyone" ON trainers FOR SELECT USING (true);
@@ -505,9 +1025,18 @@ USING (auth.uid() = trainer_id);
 -- Notifications
 CREATE POLICY "Users view own notifications" ON notifications FOR SELECT USING (auth.uid() = user_id);
 
+-- Push devices are registered through the API (service role); users can see
+-- and remove their own. Deliveries are only written and read by the server.
+CREATE POLICY "Users view own push devices" ON push_devices FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users delete own push devices" ON push_devices FOR DELETE USING (auth.uid() = user_id);
+
+-- Real-time events are written by triggers; users read their own stream
+CREATE POLICY "Users view own realtime events" ON realtime_events FOR SELECT USING (auth.uid() = user_id);
+
 -- Static Data (Read Only Public)
 CREATE POLICY "Public view fitness components" ON fitness_components FOR SELECT USING (true);
 CREATE POLICY "Public view tests" ON tests FOR SELECT USING (true);
+CREATE POLICY "Public view test norms" ON test_norms FOR SELECT USING (true);
 CREATE POLICY "Public view exercises" ON exercises FOR SELECT USING (true);
 CREATE POLICY "Public view event types" ON event_types FOR SELECT USING (true);
 
@@ -523,6 +1052,74 @@ USING (
   )
 );
 CREATE POLICY "Athlete record own result" ON test_results FOR INSERT WITH CHECK (auth.uid() = athlete_id);
+CREATE POLICY "Trainer record student result" ON test_results FOR INSERT 
+WITH CHECK (
+  recorded_by_user_id = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM enrollments 
+    WHERE status = 'approved' 
+    AND trainer_id = auth.uid() 
+    AND athlete_id = test_results.athlete_id
+  )
+);
+CREATE POLICY "Trainer update student records" ON test_results FOR UPDATE 
+USING (
+  EXISTS (
+    SELECT 1 FROM enrollments 
+    WHERE status = 'approved' 
+    AND trainer_id = auth.uid() 
+    AND athlete_id = test_results.athlete_id
+  )
+);
+CREATE POLICY "Trainer delete recorded results" ON test_results FOR DELETE
+USING (recorded_by_user_id = auth.uid());
+
+-- Training Programs
+CREATE POLICY "Trainers manage own programs" ON training_programs FOR ALL USING (auth.uid() = trainer_id);
+
+CREATE POLICY "Trainers manage own program workouts" ON program_workouts FOR ALL
+USING (
+    EXISTS (SELECT 1 FROM training_programs WHERE id = program_workouts.program_id AND trainer_id = auth.uid())
+);
+
+CREATE POLICY "Trainers manage own program assignments" ON program_assignments FOR ALL USING (auth.uid() = trainer_id);
+CREATE POLICY "Athletes view own program assignments" ON program_assignments FOR SELECT USING (auth.uid() = athlete_id);
+
+-- Exercise Targets (written by progression rules with the service role)
+CREATE POLICY "Athletes view own exercise targets" ON athlete_exercise_targets FOR SELECT USING (auth.uid() = athlete_id);
+CREATE POLICY "Trainers manage targets of enrolled athletes" ON athlete_exercise_targets FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE status = 'approved'
+    AND trainer_id = auth.uid()
+    AND athlete_id = athlete_exercise_targets.athlete_id
+  )
+);
+
+-- Goals (status changes from progress are written with the service role)
+CREATE POLICY "Athletes manage own goals" ON athlete_goals FOR ALL USING (auth.uid() = athlete_id);
+CREATE POLICY "Trainers manage goals of enrolled athletes" ON athlete_goals FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE status = 'approved'
+    AND trainer_id = auth.uid()
+    AND athlete_id = athlete_goals.athlete_id
+  )
+);
+
+-- Achievements (awarded by the server with the service role)
+CREATE POLICY "Athletes view own achievements" ON athlete_achievements FOR SELECT USING (auth.uid() = athlete_id);
+CREATE POLICY "Trainers view achievements of enrolled athletes" ON athlete_achievements FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE status = 'approved'
+    AND trainer_id = auth.uid()
+    AND athlete_id = athlete_achievements.athlete_id
+  )
+);
 
 -- Events
 CREATE POLICY "Public events are viewable by everyone" ON events FOR SELECT 
@@ -539,6 +1136,36 @@ USING (
 CREATE POLICY "Trainers manage own events" ON events FOR ALL 
 USING (auth.uid() = created_by_user_id);
 
+-- Event Reminders
+CREATE POLICY "Users view own reminders" ON event_reminders FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Trainers manage reminders for own events" ON event_reminders FOR ALL
+USING (
+    EXISTS (SELECT 1 FROM events WHERE id = event_reminders.event_id AND created_by_user_id = auth.uid())
+);
+
+CREATE POLICY "Participants manage own reminders" ON event_reminders FOR ALL
+USING (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM event_participants WHERE event_id = event_reminders.event_id AND athlete_id = auth.uid())
+);
+
+-- Event Results
+CREATE POLICY "View event results" ON event_results FOR SELECT
+USING (
+    auth.uid() = athlete_id OR
+    EXISTS (SELECT 1 FROM events WHERE id = event_results.event_id AND (created_by_user_id = auth.uid() OR is_public = true)) OR
+    EXISTS (SELECT 1 FROM event_participants WHERE event_id = event_results.event_id AND athlete_id = auth.uid())
+);
+
+CREATE POLICY "Trainers manage results for own events" ON event_results FOR ALL
+USING (
+    EXISTS (SELECT 1 FROM events WHERE id = event_results.event_id AND created_by_user_id = auth.uid())
+);
+
+-- Calendar Feeds
+CREATE POLICY "Users manage own calendar feed" ON calendar_feeds FOR ALL USING (auth.uid() = user_id);
+
 -- Event Participants
 CREATE POLICY "View event participants" ON event_participants FOR SELECT 
 USING (
@@ -546,3 +1173,62 @@ USING (
     EXISTS (SELECT 1 FROM events WHERE id = event_participants.event_id AND created_by_user_id = auth.uid())
 );
 
+-- Athletes' registrations, responses and withdrawals are written by the
+-- server with the service role, which enforces capacity and the waitlist;
+-- no policy lets athletes write their own participant rows
+CREATE POLICY "Trainers manage participants of own events" ON event_participants FOR ALL
+USING (
+    EXISTS (SELECT 1 FROM events WHERE id = event_participants.event_id AND created_by_user_id = auth.uid())
+);
+
+-- Audit log: admins can read; entries are written by the server with the
+-- service role, and no policy allows update or delete
+CREATE POLICY "Admins view audit log" ON audit_logs FOR SELECT
+USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'rekabytes-admin'))
+);
+
+-- Trainer verification documents: trainers manage their own (in folder {user_id}/);
+-- admins read them through the service role
+CREATE POLICY "Trainers manage own documents" ON trainer_documents FOR ALL USING (auth.uid() = trainer_id);
+
+CREATE POLICY "Trainers upload own verification documents"
+ON storage.objects FOR INSERT
+WITH CHECK (
+    bucket_id = 'trainer-documents' AND
+    auth.uid() = (storage.foldername(name))[1]::uuid
+);
+
+CREATE POLICY "Trainers read own verification documents"
+ON storage.objects FOR SELECT
+USING (
+    bucket_id = 'trainer-documents' AND
+    auth.uid() = (storage.foldername(name))[1]::uuid
+);
+
+CREATE POLICY "Trainers delete own verification documents"
+ON storage.objects FOR DELETE
+USING (
+    bucket_id = 'trainer-documents' AND
+    auth.uid() = (storage.foldername(name))[1]::uuid
+);
+
+-- Data exports: created and built by the server with the service role; users
+-- see their own and download archives from their folder through signed URLs
+CREATE POLICY "Users view own data exports" ON data_exports FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users read own data export archives"
+ON storage.objects FOR SELECT
+USING (
+    bucket_id = 'data-exports' AND
+    auth.uid() = (storage.foldername(name))[1]::uuid
+);
+
+-- Account deletions: requested and cancelled through the server with the
+-- service role; users see their own and admins see all
+CREATE POLICY "Users view own account deletions" ON account_deletions FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins view account deletions" ON account_deletions FOR SELECT
+USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'rekabytes-admin'))
+);
@@ -6,9 +6,13 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { KeyboardProvider } from 'react-native-keyboard-controller';
 import { SessionProvider, useSession } from './src/contexts/AuthContext';
 import { ToastProvider, useToast } from './src/contexts/ToastContext';
+import { SyncProvider } from './src/contexts/SyncContext';
+import { RealtimeProvider } from './src/contexts/RealtimeContext';
+import { LanguageProvider } from './src/contexts/LanguageContext';
 import { AuthScreen } from './src/components/auth/AuthScreen';
 import { TrainerHomeScreen } from './src/screens/trainer/TrainerHomeScreen';
 import { AthleteHomeScreen } from './src/screens/athlete/AthleteHomeScreen';
+import { AccountDeletionPendingScreen } from './src/screens/shared/AccountDeletionPendingScreen';
 import { supabase } from './src/lib/supabase';
 import { setToastCallback, clearToastCallback } from './src/lib/api';
 
@@ -55,6 +59,15 @@ function MainContent() {
     );
   }
 
+  // Account is deactivated while its deletion is pending
+  if (user.deactivated_at) {
+    return (
+      <SafeAreaView style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
+        <AccountDeletionPendingScreen />
+      </SafeAreaView>
+    );
+  }
+
   // User is authenticated - show role-specific screen
   if ((user.role as string) === 'trainer') {
     return (
@@ -295,12 +308,18 @@ export default function App() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
         <KeyboardProvider>
-          <SessionProvider>
-            <ToastProvider>
-              <MainContent />
-              <StatusBar style="auto" />
-            </ToastProvider>
-          </SessionProvider>
+          <LanguageProvider>
+            <SessionProvider>
+              <ToastProvider>
+                <SyncProvider>
+                  <RealtimeProvider>
+                    <MainContent />
+                    <StatusBar style="auto" />
+                  </RealtimeProvider>
+                </SyncProvider>
+              </ToastProvider>
+            </SessionProvider>
+          </LanguageProvider>
         </KeyboardProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
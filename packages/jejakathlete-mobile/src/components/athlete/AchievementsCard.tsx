@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ActivityIndicator } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { AchievementProgress } from '@jejakathlete/shared';
+import { trpc } from '../../lib/trpc';
+import { formatDate } from '../../lib/date-utils';
+import { useTranslation } from '../../contexts/LanguageContext';
+
+interface AchievementsCardProps {
+  // Changing the key fetches the badges again, e.g. on pull to refresh
+  refreshKey?: number;
+  fontSize?: number;
+  spacing?: number;
+  cardPadding?: number;
+}
+
+export function AchievementsCard({
+  refreshKey = 0,
+  fontSize = 16,
+  spacing = 16,
+  cardPadding = 20
+}: AchievementsCardProps) {
+  const { t } = useTranslation();
+  const [achievements, setAchievements] = useState<AchievementProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAchievements();
+  }, [refreshKey]);
+
+  const fetchAchievements = async () => {
+    try {
+      const data = await trpc.achievements.getMyAchievements.query();
+      setAchievements(data);
+    } catch (error) {
+      console.error('Error loading achievements:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const earnedCount = achievements.filter((achievement) => achievement.awarded_at).length;
+
+  // Earned badges first, then the ones closest to being earned
+  const sorted = [...achievements].sort((a, b) => {
+    if (!!a.awarded_at !== !!b.awarded_at) return a.awarded_at ? -1 : 1;
+    if (a.awarded_at && b.awarded_at) return b.awarded_at.localeCompare(a.awarded_at);
+    return b.current / (b.target || 1) - a.current / (a.target || 1);
+  });
+
+  const Badge = ({ achievement }: { achievement: AchievementProgress }) => {
+    const earned = !!achievement.awarded_at;
+
+    return (
+      <View style={{ width: '33.33%', alignItems: 'center', paddingHorizontal: 4, marginBottom: spacing }}>
+        <View style={{
+          width: 52,
+          height: 52,
+          borderRadius: 26,
+          backgroundColor: earned ? '#fef3c7' : '#f3f4f6',
+          borderWidth: 2,
+          borderColor: earned ? '#f59e0b' : '#e5e7eb',
+          alignItems: 'center',
+          justifyContent: 'center',
+          marginBottom: 6
+        }}>
+          <Feather name={achievement.icon as any} size={22} color={earned ? '#d97706' : '#9ca3af'} />
+        </View>
+        <Text
+          numberOfLines={2}
+          style={{
+            fontSize: fontSize - 3,
+            fontWeight: '600',
+            color: earned ? '#1f2937' : '#9ca3af',
+            textAlign: 'center'
+          }}
+        >
+          {achievement.title}
+        </Text>
+        <Text style={{ fontSize: fontSize - 5, color: '#9ca3af', marginTop: 2, textAlign: 'center' }}>
+          {earned
+            ? formatDate(achievement.awarded_at as string)
+            : achievement.target > 0
+              ? `${achievement.current}/${achievement.target}`
+              : t('achievements.locked')}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={{
+      backgroundColor: 'white',
+      padding: cardPadding,
+      borderRadius: 12,
+      marginBottom: spacing
+    }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 16 }}>
+        <Feather name="award" size={20} color="#f59e0b" style={{ marginRight: 8 }} />
+        <Text style={{ fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937', flex: 1 }}>
+          {t('achievements.title')}
+        </Text>
+        {!isLoading && achievements.length > 0 && (
+          <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>
+            {t('achievements.earnedOf', { earned: earnedCount, total: achievements.length })}
+          </Text>
+        )}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color="#3b82f6" style={{ paddingVertical: 20 }} />
+      ) : achievements.length === 0 ? (
+        <Text style={{ fontSize: fontSize - 1, color: '#6b7280', textAlign: 'center' }}>
+          {t('achievements.unavailable')}
+        </Text>
+      ) : (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginHorizontal: -4, marginBottom: -spacing }}>
+          {sorted.map((achievement) => (
+            <Badge key={achievement.key} achievement={achievement} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -17,7 +17,7 @@ import { Button } from '../ui/Button';
 import { calculateBMI, getBMICategory } from '../../lib/body-metrics-api';
 
 interface BodyMetric {
-  id: number;
+  id: number | string; // Local id until a measurement recorded offline is synced
   athlete_id: string;
   measurement_date: string;
   weight: number | null;
@@ -2,13 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, Pressable, ScrollView, useWindowDimensions, Alert } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis, VictoryTheme } from 'victory-native';
-import { trpc } from '../../lib/trpc';
+import { offlineStore } from '../../lib/sync-engine';
 import { getBMICategory, calculateBMI } from '../../lib/body-metrics-api';
 import { BodyMetricModal } from './BodyMetricModal';
 import { useToast } from '../../contexts/ToastContext';
+import { useSync } from '../../contexts/SyncContext';
 
 interface BodyMetric {
-  id: number;
+  id: number | string; // Local id until a measurement recorded offline is synced
   athlete_id: string;
   measurement_date: string;
   weight: number | null;
@@ -29,6 +30,7 @@ interface BodyMetricsTabProps {
 export function BodyMetricsTab({ athleteId, athleteName }: BodyMetricsTabProps) {
   const { width } = useWindowDimensions();
   const { showSuccess, showError } = useToast();
+  const { syncNow, lastSyncedAt } = useSync();
   
   const isSmallScreen = width < 380;
   const isTablet = width > 600;
@@ -45,12 +47,12 @@ export function BodyMetricsTab({ athleteId, athleteName }: BodyMetricsTabProps)
 
   useEffect(() => {
     fetchMetrics();
-  }, [athleteId]);
+  }, [athleteId, lastSyncedAt]);
 
   const fetchMetrics = async () => {
     setIsLoading(true);
     try {
-      const metricsData = await trpc.bodyMetrics.getMyMetrics.query();
+      const metricsData = await offlineStore.getMyMetrics();
       setMetrics(metricsData);
       
       // Calculate stats from metrics data
@@ -91,13 +93,14 @@ export function BodyMetricsTab({ athleteId, athleteName }: BodyMetricsTabProps)
           bmi = calculateBMI(data.weight, data.height);
         }
         
-        await trpc.bodyMetrics.updateMetrics.mutate({
+        await offlineStore.updateMetrics({
           id: editingMetric.id,
           ...data,
           bmi,
         });
         showSuccess('Body metrics updated successfully');
         fetchMetrics();
+        syncNow();
       } else {
         // Calculate BMI if weight and height are provided
         let bmi = data.bmi;
@@ -105,12 +108,13 @@ export function BodyMetricsTab({ athleteId, athleteName }: BodyMetricsTabProps)
           bmi = calculateBMI(data.weight, data.height);
         }
         
-        await trpc.bodyMetrics.recordMetrics.mutate({
+        await offlineStore.recordMetrics({
           ...data,
           bmi,
         });
         showSuccess('Body metrics recorded successfully');
         fetchMetrics();
+        syncNow();
       }
     } catch (error: any) {
       console.error('Error saving body metrics:', error);
@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  ScrollView,
+  ActivityIndicator
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { addWeeks, format } from 'date-fns';
+import type { GoalMetric, GoalType } from '@jejakathlete/shared';
+import { trpc } from '../../lib/trpc';
+
+export interface GoalFormRequest {
+  goal_type: GoalType;
+  test_id?: number;
+  metric?: GoalMetric;
+  target_value: number;
+  deadline: string;
+  title?: string;
+}
+
+export interface GoalFormModalProps {
+  visible: boolean;
+  isSubmitting: boolean;
+  onSubmit: (request: GoalFormRequest) => void;
+  onClose: () => void;
+  fontSize?: number;
+  spacing?: number;
+}
+
+interface Option<T> {
+  value: T;
+  label: string;
+}
+
+const GOAL_TYPES: Option<GoalType>[] = [
+  { value: 'test', label: 'Fitness Test' },
+  { value: 'body_metric', label: 'Body Metric' },
+  { value: 'workout_count', label: 'Workouts' },
+];
+
+const METRICS: (Option<GoalMetric> & { unit: string })[] = [
+  { value: 'weight', label: 'Weight', unit: 'kg' },
+  { value: 'body_fat_percentage', label: 'Body Fat', unit: '%' },
+  { value: 'muscle_mass', label: 'Muscle Mass', unit: 'kg' },
+  { value: 'bmi', label: 'BMI', unit: '' },
+];
+
+const DEADLINE_WEEKS = [4, 8, 12];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GoalFormModal: React.FC<GoalFormModalProps> = ({
+  visible,
+  isSubmitting,
+  onSubmit,
+  onClose,
+  fontSize = 16,
+  spacing = 16
+}) => {
+  const [goalType, setGoalType] = useState<GoalType>('test');
+  const [components, setComponents] = useState<{ id: number; name: string }[]>([]);
+  const [componentId, setComponentId] = useState<number | null>(null);
+  const [tests, setTests] = useState<{ id: number; name: string; unit: string | null }[]>([]);
+  const [testId, setTestId] = useState<number | null>(null);
+  const [metric, setMetric] = useState<GoalMetric>('weight');
+  const [targetValue, setTargetValue] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [title, setTitle] = useState('');
+  const [loadingTests, setLoadingTests] = useState(false);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setGoalType('test');
+    setComponentId(null);
+    setTests([]);
+    setTestId(null);
+    setMetric('weight');
+    setTargetValue('');
+    setDeadline(format(addWeeks(new Date(), 8), 'yyyy-MM-dd'));
+    setTitle('');
+
+    trpc.testResults.getFitnessComponents.query()
+      .then((data) => setComponents(data || []))
+      .catch((error) => console.error('Error loading fitness components:', error));
+  }, [visible]);
+
+  useEffect(() => {
+    if (componentId === null) return;
+
+    setLoadingTests(true);
+    setTestId(null);
+    trpc.testResults.getTestsByComponent.query({ fitness_component_id: componentId })
+      .then((data) => setTests(data || []))
+      .catch((error) => console.error('Error loading tests:', error))
+      .finally(() => setLoadingTests(false));
+  }, [componentId]);
+
+  const target = Number(targetValue);
+  const canSubmit =
+    !isSubmitting &&
+    targetValue.trim() !== '' &&
+    target > 0 &&
+    DATE_PATTERN.test(deadline) &&
+    (goalType !== 'test' || testId !== null);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+
+    onSubmit({
+      goal_type: goalType,
+      test_id: goalType === 'test' ? testId ?? undefined : undefined,
+      metric: goalType === 'body_metric' ? metric : undefined,
+      target_value: goalType === 'workout_count' ? Math.round(target) : target,
+      deadline,
+      title: title.trim() || undefined,
+    });
+  };
+
+  const selectedTest = tests.find((test) => test.id === testId);
+  const targetUnit = goalType === 'test'
+    ? selectedTest?.unit || ''
+    : goalType === 'workout_count'
+      ? 'workouts'
+      : METRICS.find((option) => option.value === metric)?.unit || '';
+
+  const labelStyle = {
+    fontSize: fontSize - 1,
+    fontWeight: '600' as const,
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: spacing - 4
+  };
+
+  const inputStyle = {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: fontSize - 1,
+    color: '#111827'
+  };
+
+  const Chip = ({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) => (
+    <Pressable
+      onPress={onPress}
+      disabled={isSubmitting}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 999,
+        marginRight: 8,
+        marginBottom: 8,
+        backgroundColor: selected ? '#3b82f6' : '#f3f4f6'
+      }}
+    >
+      <Text style={{ fontSize: fontSize - 2, fontWeight: '600', color: selected ? 'white' : '#4b5563' }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={{
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        padding: spacing + 8
+      }}>
+        <View style={{
+          backgroundColor: 'white',
+          borderRadius: 16,
+          padding: spacing + 4,
+          maxHeight: '90%'
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
+            <Feather name="target" size={22} color="#3b82f6" style={{ marginRight: 8 }} />
+            <Text style={{ fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937' }}>
+              New Goal
+            </Text>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={labelStyle}>Goal type</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+              {GOAL_TYPES.map((option) => (
+                <Chip
+                  key={option.value}
+                  label={option.label}
+                  selected={goalType === option.value}
+                  onPress={() => setGoalType(option.value)}
+                />
+              ))}
+            </View>
+
+            {goalType === 'test' && (
+              <>
+                <Text style={labelStyle}>Fitness component</Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                  {components.map((component) => (
+                    <Chip
+                      key={component.id}
+                      label={component.name}
+                      selected={componentId === component.id}
+                      onPress={() => setComponentId(component.id)}
+                    />
+                  ))}
+                </View>
+
+                {componentId !== null && (
+                  <>
+                    <Text style={labelStyle}>Test</Text>
+                    {loadingTests ? (
+                      <ActivityIndicator size="small" color="#3b82f6" style={{ alignSelf: 'flex-start' }} />
+                    ) : tests.length === 0 ? (
+                      <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>No tests in this component</Text>
+                    ) : (
+                      <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                        {tests.map((test) => (
+                          <Chip
+                            key={test.id}
+                            label={test.name}
+                            selected={testId === test.id}
+                            onPress={() => setTestId(test.id)}
+                          />
+                        ))}
+                      </View>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+
+            {goalType === 'body_metric' && (
+              <>
+                <Text style={labelStyle}>Metric</Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                  {METRICS.map((option) => (
+                    <Chip
+                      key={option.value}
+                      label={option.label}
+                      selected={metric === option.value}
+                      onPress={() => setMetric(option.value)}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={labelStyle}>
+              {goalType === 'workout_count' ? 'Workouts to complete' : 'Target'}
+              {targetUnit && goalType !== 'workout_count' ? ` (${targetUnit})` : ''}
+            </Text>
+            <TextInput
+              style={inputStyle}
+              placeholder={goalType === 'workout_count' ? 'e.g. 20' : 'Target value'}
+              placeholderTextColor="#9ca3af"
+              value={targetValue}
+              onChangeText={setTargetValue}
+              keyboardType={goalType === 'workout_count' ? 'number-pad' : 'decimal-pad'}
+              editable={!isSubmitting}
+            />
+
+            <Text style={labelStyle}>Deadline</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+              {DEADLINE_WEEKS.map((weeks) => {
+                const date = format(addWeeks(new Date(), weeks), 'yyyy-MM-dd');
+                return (
+                  <Chip
+                    key={weeks}
+                    label={`${weeks} weeks`}
+                    selected={deadline === date}
+                    onPress={() => setDeadline(date)}
+                  />
+                );
+              })}
+            </View>
+            <TextInput
+              style={inputStyle}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#9ca3af"
+              value={deadline}
+              onChangeText={setDeadline}
+              maxLength={10}
+              editable={!isSubmitting}
+            />
+
+            <Text style={labelStyle}>Name (optional)</Text>
+            <TextInput
+              style={inputStyle}
+              placeholder="e.g. Competition ready"
+              placeholderTextColor="#9ca3af"
+              value={title}
+              onChangeText={setTitle}
+              maxLength={100}
+              editable={!isSubmitting}
+            />
+          </ScrollView>
+
+          <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: spacing }}>
+            <Pressable
+              onPress={onClose}
+              disabled={isSubmitting}
+              style={{ paddingHorizontal: 16, paddingVertical: 10, marginRight: 8 }}
+            >
+              <Text style={{ fontSize: fontSize, color: '#6b7280', fontWeight: '600' }}>
+                Cancel
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+              style={{
+                backgroundColor: '#3b82f6',
+                paddingHorizontal: 16,
+                paddingVertical: 10,
+                borderRadius: 8,
+                minWidth: 96,
+                alignItems: 'center',
+                opacity: canSubmit ? 1 : 0.5
+              }}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={{ fontSize: fontSize, color: 'white', fontWeight: '600' }}>
+                  Set Goal
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
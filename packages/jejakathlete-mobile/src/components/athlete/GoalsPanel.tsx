@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Pressable, ActivityIndicator, Alert } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { AthleteGoalWithProgress, GoalStatus } from '@jejakathlete/shared';
+import { trpc } from '../../lib/trpc';
+import { GoalFormModal, type GoalFormRequest } from './GoalFormModal';
+
+interface GoalsPanelProps {
+  // Set when a trainer views an athlete's goals; omitted for the athlete's own
+  athleteId?: string;
+  fontSize?: number;
+  spacing?: number;
+  cardPadding?: number;
+}
+
+const STATUS_STYLES: Record<GoalStatus, { label: string; color: string; background: string; icon: string }> = {
+  active: { label: 'Active', color: '#3b82f6', background: '#eff6ff', icon: 'target' },
+  achieved: { label: 'Achieved', color: '#10b981', background: '#ecfdf5', icon: 'award' },
+  missed: { label: 'Missed', color: '#6b7280', background: '#f3f4f6', icon: 'x-circle' },
+  cancelled: { label: 'Cancelled', color: '#9ca3af', background: '#f9fafb', icon: 'slash' },
+};
+
+/**
+ * Format a goal value with its unit, e.g. "72.5 kg"
+ */
+function formatValue(value: number | null, unit: string | null): string {
+  if (value === null) return '—';
+  const rounded = Number.isInteger(value) ? `${value}` : value.toFixed(1);
+  return unit ? `${rounded} ${unit}` : rounded;
+}
+
+export function GoalsPanel({
+  athleteId,
+  fontSize = 16,
+  spacing = 16,
+  cardPadding = 20
+}: GoalsPanelProps) {
+  const [goals, setGoals] = useState<AthleteGoalWithProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [athleteId]);
+
+  const fetchGoals = async () => {
+    setIsLoading(true);
+    try {
+      const data = athleteId
+        ? await trpc.goals.getAthleteGoals.query({ athlete_id: athleteId })
+        : await trpc.goals.getMyGoals.query();
+      setGoals(data);
+    } catch (error) {
+      console.error('Error loading goals:', error);
+      Alert.alert('Error', 'Failed to load goals');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateGoal = async (request: GoalFormRequest) => {
+    setIsSubmitting(true);
+    try {
+      await trpc.goals.createGoal.mutate({ ...request, athlete_id: athleteId });
+      setShowForm(false);
+      fetchGoals();
+    } catch (error: any) {
+      console.error('Error creating goal:', error);
+      Alert.alert('Error', error?.message || 'Failed to create goal');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelGoal = (goal: AthleteGoalWithProgress) => {
+    Alert.alert(
+      'Cancel Goal',
+      `Stop tracking "${goal.label}"?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Goal',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await trpc.goals.cancelGoal.mutate({ id: goal.id });
+              fetchGoals();
+            } catch (error: any) {
+              console.error('Error cancelling goal:', error);
+              Alert.alert('Error', error?.message || 'Failed to cancel goal');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const GoalCard = ({ goal }: { goal: AthleteGoalWithProgress }) => {
+    const status = STATUS_STYLES[goal.status];
+    const progress = goal.progress ?? 0;
+    const barColor = goal.status === 'achieved' ? '#10b981' : goal.at_risk ? '#f59e0b' : '#3b82f6';
+
+    return (
+      <View style={{
+        backgroundColor: 'white',
+        borderRadius: 16,
+        padding: cardPadding,
+        marginBottom: spacing,
+        opacity: goal.status === 'cancelled' ? 0.7 : 1
+      }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 12 }}>
+          <View style={{
+            width: 40,
+            height: 40,
+            borderRadius: 20,
+            backgroundColor: status.background,
+            alignItems: 'center',
+            justifyContent: 'center',
+            marginRight: 12
+          }}>
+            <Feather name={status.icon as any} size={20} color={status.color} />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+              {goal.label}
+            </Text>
+            <Text style={{ fontSize: fontSize - 3, color: '#6b7280', marginTop: 2 }}>
+              Target {formatValue(goal.target_value, goal.unit)} by {new Date(goal.deadline).toLocaleDateString()}
+            </Text>
+          </View>
+          {goal.status === 'active' && goal.at_risk ? (
+            <View style={{ backgroundColor: '#fffbeb', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 }}>
+              <Text style={{ fontSize: fontSize - 4, fontWeight: '600', color: '#d97706' }}>At Risk</Text>
+            </View>
+          ) : (
+            <View style={{ backgroundColor: status.background, paddingHorizontal: 8, paddingVertical: 4, borderRadius: 999 }}>
+              <Text style={{ fontSize: fontSize - 4, fontWeight: '600', color: status.color }}>{status.label}</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={{ height: 8, backgroundColor: '#f3f4f6', borderRadius: 4, overflow: 'hidden' }}>
+          <View style={{ width: `${Math.round(progress * 100)}%`, height: '100%', backgroundColor: barColor }} />
+        </View>
+
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 8 }}>
+          <Text style={{ fontSize: fontSize - 3, color: '#4b5563' }}>
+            Now {formatValue(goal.current_value, goal.unit)}
+            {goal.baseline_value !== null ? ` · started at ${formatValue(goal.baseline_value, goal.unit)}` : ''}
+          </Text>
+          {goal.status === 'active' && (
+            <Text style={{ fontSize: fontSize - 3, color: goal.at_risk ? '#d97706' : '#6b7280' }}>
+              {goal.days_left === 1 ? '1 day left' : `${goal.days_left} days left`}
+            </Text>
+          )}
+        </View>
+
+        {goal.status === 'active' && (
+          <Pressable
+            onPress={() => handleCancelGoal(goal)}
+            style={{ alignSelf: 'flex-end', marginTop: 8, paddingVertical: 4 }}
+          >
+            <Text style={{ fontSize: fontSize - 3, color: '#ef4444', fontWeight: '600' }}>Cancel Goal</Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  };
+
+  const activeGoals = goals.filter((goal) => goal.status === 'active');
+  const pastGoals = goals.filter((goal) => goal.status !== 'active');
+
+  return (
+    <View>
+      <Pressable
+        onPress={() => setShowForm(true)}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: '#3b82f6',
+          borderRadius: 12,
+          paddingVertical: 12,
+          marginBottom: spacing
+        }}
+      >
+        <Feather name="plus" size={18} color="white" style={{ marginRight: 8 }} />
+        <Text style={{ fontSize: fontSize, fontWeight: '600', color: 'white' }}>
+          {athleteId ? 'Set a Goal' : 'New Goal'}
+        </Text>
+      </Pressable>
+
+      {isLoading ? (
+        <View style={{ paddingVertical: 40, alignItems: 'center' }}>
+          <ActivityIndicator size="large" color="#3b82f6" />
+        </View>
+      ) : goals.length === 0 ? (
+        <View style={{
+          backgroundColor: 'white',
+          borderRadius: 16,
+          padding: cardPadding,
+          alignItems: 'center'
+        }}>
+          <Feather name="target" size={40} color="#9ca3af" style={{ marginBottom: 12 }} />
+          <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937', marginBottom: 4 }}>
+            No goals yet
+          </Text>
+          <Text style={{ fontSize: fontSize - 2, color: '#6b7280', textAlign: 'center' }}>
+            Set a target for a fitness test, a body metric or the number of workouts to complete.
+          </Text>
+        </View>
+      ) : (
+        <>
+          {activeGoals.map((goal) => <GoalCard key={goal.id} goal={goal} />)}
+
+          {pastGoals.length > 0 && (
+            <>
+              <Text style={{
+                fontSize: fontSize - 1,
+                fontWeight: '600',
+                color: '#6b7280',
+                marginTop: activeGoals.length > 0 ? spacing : 0,
+                marginBottom: 8
+              }}>
+                Past Goals
+              </Text>
+              {pastGoals.map((goal) => <GoalCard key={goal.id} goal={goal} />)}
+            </>
+          )}
+        </>
+      )}
+
+      <GoalFormModal
+        visible={showForm}
+        isSubmitting={isSubmitting}
+        onSubmit={handleCreateGoal}
+        onClose={() => setShowForm(false)}
+        fontSize={fontSize}
+        spacing={spacing}
+      />
+    </View>
+  );
+}
@@ -8,7 +8,8 @@ import {
   TextInput,
   Platform,
   Alert,
-  ScrollView
+  ScrollView,
+  Switch
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { KeyboardAwareScrollView } from 'react-native-keyboard-controller';
@@ -17,6 +18,43 @@ import { format } from 'date-fns';
 import { CustomCalendar, CustomCalendarProps } from './CustomCalendar';
 import { CustomTimePicker, CustomTimePickerProps } from './CustomTimePicker';
 import { EventType } from './EventTypesLegend';
+import type { RecurrenceFrequency, RecurrenceRule, RecurrenceWeekday } from '@jejakathlete/shared';
+
+const REPEAT_OPTIONS: Array<{ value: RecurrenceFrequency | null; label: string }> = [
+  { value: null, label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const WEEKDAY_OPTIONS: Array<{ value: RecurrenceWeekday; label: string }> = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+type RecurrenceEnd = 'never' | 'until' | 'count';
+
+// Minutes before the event starts
+const REMINDER_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 15, label: '15 min' },
+  { value: 60, label: '1 hour' },
+  { value: 120, label: '2 hours' },
+  { value: 1440, label: '1 day' },
+  { value: 2880, label: '2 days' },
+];
+
+// Minutes before the event starts that self-registration closes
+const REGISTRATION_DEADLINE_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'At start' },
+  { value: 60, label: '1 hour before' },
+  { value: 1440, label: '1 day before' },
+  { value: 10080, label: '1 week before' },
+];
 
 export interface NewEvent {
   title: string;
@@ -28,7 +66,10 @@ export interface NewEvent {
   max_participants: string;
   is_public: boolean;
   requires_approval: boolean;
+  registration_deadline_offset: number | null;
   participant_ids: number[];
+  recurrence: RecurrenceRule | null;
+  reminder_offsets: number[];
 }
 
 export interface EnrolledAthlete {
@@ -75,14 +116,19 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({
     max_participants: '',
     is_public: false,
     requires_approval: false,
+    registration_deadline_offset: null,
     participant_ids: [],
+    recurrence: null,
+    reminder_offsets: [],
     ...initialEvent
   });
+  const [recurrenceEnd, setRecurrenceEnd] = useState<RecurrenceEnd>('never');
+  const [recurrenceCount, setRecurrenceCount] = useState('10');
 
   // Custom date picker states
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
-  const [pickerMode, setPickerMode] = useState<'start' | 'end'>('start');
+  const [pickerMode, setPickerMode] = useState<'start' | 'end' | 'until'>('start');
   const [tempSelectedDate, setTempSelectedDate] = useState(new Date());
   const [tempSelectedTime, setTempSelectedTime] = useState({ hour: 9, minute: 0 });
 
@@ -111,7 +157,72 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({
       return;
     }
 
-    await onCreateEvent(newEvent);
+    let recurrence: RecurrenceRule | null = null;
+    if (newEvent.recurrence) {
+      const { frequency, interval, by_weekday, until } = newEvent.recurrence;
+      const count = parseInt(recurrenceCount, 10);
+
+      if (frequency === 'weekly' && (!by_weekday || by_weekday.length === 0)) {
+        Alert.alert('Error', 'Please choose at least one day of the week');
+        return;
+      }
+
+      if (recurrenceEnd === 'until' && !until) {
+        Alert.alert('Error', 'Please select when the event stops repeating');
+        return;
+      }
+
+      if (recurrenceEnd === 'count' && (isNaN(count) || count < 1)) {
+        Alert.alert('Error', 'Please enter how many times the event repeats');
+        return;
+      }
+
+      recurrence = {
+        frequency,
+        interval,
+        by_weekday: frequency === 'weekly' ? by_weekday : undefined,
+        until: recurrenceEnd === 'until' ? until : undefined,
+        count: recurrenceEnd === 'count' ? count : undefined,
+      };
+    }
+
+    await onCreateEvent({ ...newEvent, recurrence });
+  };
+
+  const getStartWeekday = (): RecurrenceWeekday => {
+    const start = new Date(newEvent.start_date);
+    const day = isNaN(start.getTime()) ? new Date().getDay() : start.getDay();
+    return WEEKDAY_OPTIONS[(day + 6) % 7].value;
+  };
+
+  const handleRepeatChange = (frequency: RecurrenceFrequency | null) => {
+    setNewEvent(prev => ({
+      ...prev,
+      recurrence: frequency
+        ? {
+            frequency,
+            interval: 1,
+            by_weekday: frequency === 'weekly' ? [getStartWeekday()] : undefined,
+            until: prev.recurrence?.until
+          }
+        : null
+    }));
+  };
+
+  const toggleWeekday = (weekday: RecurrenceWeekday) => {
+    setNewEvent(prev => {
+      if (!prev.recurrence) return prev;
+      const selected = prev.recurrence.by_weekday || [];
+      return {
+        ...prev,
+        recurrence: {
+          ...prev.recurrence,
+          by_weekday: selected.includes(weekday)
+            ? selected.filter(day => day !== weekday)
+            : [...selected, weekday]
+        }
+      };
+    });
   };
 
   const resetForm = () => {
@@ -125,8 +236,13 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({
       max_participants: '',
       is_public: false,
       requires_approval: false,
-      participant_ids: []
+      registration_deadline_offset: null,
+      participant_ids: [],
+      recurrence: null,
+      reminder_offsets: []
     });
+    setRecurrenceEnd('never');
+    setRecurrenceCount('10');
   };
 
   const handleClose = () => {
@@ -137,8 +253,12 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({
   };
 
   // Custom date picker handlers
-  const openCustomDatePicker = (mode: 'start' | 'end') => {
-    const currentDate = mode === 'start' ? new Date(newEvent.start_date) : new Date(newEvent.end_date);
+  const openCustomDatePicker = (mode: 'start' | 'end' | 'until') => {
+    const currentDate = mode === 'start'
+      ? new Date(newEvent.start_date)
+      : mode === 'end'
+        ? new Date(newEvent.end_date)
+        : new Date(newEvent.recurrence?.until || newEvent.start_date);
     setTempSelectedDate(currentDate);
     setTempSelectedTime({ hour: currentDate.getHours(), minute: currentDate.getMinutes() });
     setPickerMode(mode);
@@ -147,6 +267,18 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({
   };
 
   const handleDateSelection = (date: Date) => {
+    // Repeating events stop at the end of the chosen day
+    if (pickerMode === 'until') {
+      setNewEvent(prev => ({
+        ...prev,
+        recurrence: prev.recurrence
+          ? { ...prev.recurrence, until: `${format(date, 'yyyy-MM-dd')}T23:59:59` }
+          : null
+      }));
+      setShowStartDatePicker(false);
+      return;
+    }
+
     setTempSelectedDate(date);
     setShowStartDatePicker(false);
     setShowTimePicker(true);
@@ -523,6 +655,269 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({
               </View>
             </View>
 
+            {/* Repeat */}
+            <View style={{ marginBottom: spacing + 4 }}>
+              <Text style={{
+                fontSize: fontSize - 1,
+                fontWeight: '700',
+                color: '#111827',
+                marginBottom: 10,
+                letterSpacing: -0.3
+              }}>
+                Repeat
+              </Text>
+              <View style={{
+                flexDirection: 'row',
+                flexWrap: 'wrap',
+                gap: 10
+              }}>
+                {REPEAT_OPTIONS.map(option => {
+                  const isSelected = (newEvent.recurrence?.frequency ?? null) === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      onPress={() => handleRepeatChange(option.value)}
+                      disabled={isCreatingEvent}
+                      style={{
+                        paddingHorizontal: 16,
+                        paddingVertical: 10,
+                        borderRadius: 10,
+                        backgroundColor: isSelected ? '#10b981' : 'white',
+                        borderWidth: 1.5,
+                        borderColor: isSelected ? '#10b981' : '#e5e7eb'
+                      }}
+                    >
+                      <Text style={{
+                        fontSize: fontSize - 1,
+                        fontWeight: '600',
+                        color: isSelected ? 'white' : '#374151',
+                        letterSpacing: -0.2
+                      }}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {/* Weekdays */}
+              {newEvent.recurrence?.frequency === 'weekly' && (
+                <View style={{ marginTop: 12 }}>
+                  <Text style={{
+                    fontSize: fontSize - 2,
+                    fontWeight: '600',
+                    color: '#6b7280',
+                    marginBottom: 8
+                  }}>
+                    Repeat On
+                  </Text>
+                  <View style={{ flexDirection: 'row', gap: 6 }}>
+                    {WEEKDAY_OPTIONS.map(weekday => {
+                      const isSelected = newEvent.recurrence?.by_weekday?.includes(weekday.value) ?? false;
+                      return (
+                        <TouchableOpacity
+                          key={weekday.value}
+                          onPress={() => toggleWeekday(weekday.value)}
+                          disabled={isCreatingEvent}
+                          style={{
+                            flex: 1,
+                            paddingVertical: 10,
+                            borderRadius: 8,
+                            alignItems: 'center',
+                            backgroundColor: isSelected ? '#10b981' : 'white',
+                            borderWidth: 1.5,
+                            borderColor: isSelected ? '#10b981' : '#e5e7eb'
+                          }}
+                        >
+                          <Text style={{
+                            fontSize: fontSize - 3,
+                            fontWeight: '600',
+                            color: isSelected ? 'white' : '#374151'
+                          }}>
+                            {weekday.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              {/* End condition */}
+              {newEvent.recurrence && (
+                <View style={{ marginTop: 12 }}>
+                  <Text style={{
+                    fontSize: fontSize - 2,
+                    fontWeight: '600',
+                    color: '#6b7280',
+                    marginBottom: 8
+                  }}>
+                    Ends
+                  </Text>
+                  <View style={{ flexDirection: 'row', gap: 8 }}>
+                    {([
+                      { value: 'never', label: 'Never' },
+                      { value: 'until', label: 'On Date' },
+                      { value: 'count', label: 'After' }
+                    ] as Array<{ value: RecurrenceEnd; label: string }>).map(option => {
+                      const isSelected = recurrenceEnd === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.value}
+                          onPress={() => setRecurrenceEnd(option.value)}
+                          disabled={isCreatingEvent}
+                          style={{
+                            paddingHorizontal: 14,
+                            paddingVertical: 8,
+                            borderRadius: 8,
+                            backgroundColor: isSelected ? '#f0fdf4' : 'white',
+                            borderWidth: 1,
+                            borderColor: isSelected ? '#10b981' : '#e5e7eb'
+                          }}
+                        >
+                          <Text style={{
+                            fontSize: fontSize - 2,
+                            color: isSelected ? '#10b981' : '#6b7280',
+                            fontWeight: '500'
+                          }}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {recurrenceEnd === 'until' && (
+                    <Pressable
+                      onPress={() => openCustomDatePicker('until')}
+                      disabled={isCreatingEvent}
+                      style={{
+                        marginTop: 10,
+                        borderWidth: 1.5,
+                        borderColor: '#e5e7eb',
+                        borderRadius: 12,
+                        padding: 14,
+                        backgroundColor: isCreatingEvent ? '#f9fafb' : 'white',
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        justifyContent: 'space-between'
+                      }}
+                    >
+                      <Text style={{
+                        fontSize: fontSize,
+                        color: newEvent.recurrence.until ? '#111827' : '#9ca3af',
+                        fontWeight: '500'
+                      }}>
+                        {newEvent.recurrence.until
+                          ? format(new Date(newEvent.recurrence.until), 'MMM d, yyyy')
+                          : 'Select end date'}
+                      </Text>
+                      <Feather name="calendar" size={18} color="#6b7280" />
+                    </Pressable>
+                  )}
+
+                  {recurrenceEnd === 'count' && (
+                    <View style={{
+                      marginTop: 10,
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      borderWidth: 1.5,
+                      borderColor: '#e5e7eb',
+                      borderRadius: 12,
+                      backgroundColor: 'white',
+                      paddingLeft: 14
+                    }}>
+                      <Feather name="repeat" size={18} color="#6b7280" style={{ marginRight: 10 }} />
+                      <TextInput
+                        style={{
+                          flex: 1,
+                          padding: 14,
+                          paddingLeft: 0,
+                          fontSize: fontSize,
+                          color: '#111827'
+                        }}
+                        placeholder="Number of occurrences"
+                        placeholderTextColor="#9ca3af"
+                        value={recurrenceCount}
+                        onChangeText={setRecurrenceCount}
+                        keyboardType="numeric"
+                        editable={!isCreatingEvent}
+                      />
+                      <Text style={{ fontSize: fontSize - 1, color: '#6b7280', paddingRight: 14 }}>
+                        times
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              )}
+            </View>
+
+            {/* Reminders */}
+            <View style={{ marginBottom: spacing + 4 }}>
+              <Text style={{
+                fontSize: fontSize - 1,
+                fontWeight: '700',
+                color: '#111827',
+                marginBottom: 10,
+                letterSpacing: -0.3
+              }}>
+                Reminders
+              </Text>
+              <Text style={{
+                fontSize: fontSize - 2,
+                color: '#6b7280',
+                marginBottom: 12,
+                fontWeight: '500'
+              }}>
+                Notify athletes before the event starts
+              </Text>
+              <View style={{
+                flexDirection: 'row',
+                flexWrap: 'wrap',
+                gap: 8
+              }}>
+                {REMINDER_OPTIONS.map(option => {
+                  const isSelected = newEvent.reminder_offsets.includes(option.value);
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      onPress={() => setNewEvent(prev => ({
+                        ...prev,
+                        reminder_offsets: isSelected
+                          ? prev.reminder_offsets.filter(offset => offset !== option.value)
+                          : [...prev.reminder_offsets, option.value]
+                      }))}
+                      disabled={isCreatingEvent}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        paddingHorizontal: 14,
+                        paddingVertical: 8,
+                        borderRadius: 8,
+                        backgroundColor: isSelected ? '#f0fdf4' : 'white',
+                        borderWidth: 1,
+                        borderColor: isSelected ? '#10b981' : '#e5e7eb'
+                      }}
+                    >
+                      <Feather
+                        name={isSelected ? 'bell' : 'bell-off'}
+                        size={14}
+                        color={isSelected ? '#10b981' : '#9ca3af'}
+                        style={{ marginRight: 6 }}
+                      />
+                      <Text style={{
+                        fontSize: fontSize - 2,
+                        color: isSelected ? '#10b981' : '#6b7280',
+                        fontWeight: '500'
+                      }}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
             {/* Location & Max Participants */}
             <View style={{ marginBottom: spacing + 4 }}>
               <Text style={{
@@ -611,6 +1006,129 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({
               </View>
             </View>
 
+            {/* Registration */}
+            <View style={{ marginBottom: spacing + 4 }}>
+              <Text style={{
+                fontSize: fontSize - 1,
+                fontWeight: '700',
+                color: '#111827',
+                marginBottom: 10,
+                letterSpacing: -0.3
+              }}>
+                Registration
+              </Text>
+
+              <View style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                padding: 14,
+                borderWidth: 1.5,
+                borderColor: '#e5e7eb',
+                borderRadius: 12,
+                backgroundColor: 'white',
+                marginBottom: 10
+              }}>
+                <Feather name="globe" size={18} color="#6b7280" style={{ marginRight: 10 }} />
+                <View style={{ flex: 1 }}>
+                  <Text style={{ fontSize: fontSize - 1, fontWeight: '600', color: '#111827' }}>
+                    Public event
+                  </Text>
+                  <Text style={{ fontSize: fontSize - 3, color: '#6b7280', marginTop: 2 }}>
+                    Any athlete can find and join this event
+                  </Text>
+                </View>
+                <Switch
+                  value={newEvent.is_public}
+                  onValueChange={(value) => setNewEvent(prev => ({ ...prev, is_public: value }))}
+                  disabled={isCreatingEvent}
+                  trackColor={{ false: '#d1d5db', true: '#10b981' }}
+                  thumbColor="white"
+                />
+              </View>
+
+              {newEvent.is_public && (
+                <>
+                  <View style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    padding: 14,
+                    borderWidth: 1.5,
+                    borderColor: '#e5e7eb',
+                    borderRadius: 12,
+                    backgroundColor: 'white',
+                    marginBottom: 12
+                  }}>
+                    <Feather name="user-check" size={18} color="#6b7280" style={{ marginRight: 10 }} />
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ fontSize: fontSize - 1, fontWeight: '600', color: '#111827' }}>
+                        Require approval
+                      </Text>
+                      <Text style={{ fontSize: fontSize - 3, color: '#6b7280', marginTop: 2 }}>
+                        Review each registration before the athlete gets a spot
+                      </Text>
+                    </View>
+                    <Switch
+                      value={newEvent.requires_approval}
+                      onValueChange={(value) => setNewEvent(prev => ({ ...prev, requires_approval: value }))}
+                      disabled={isCreatingEvent}
+                      trackColor={{ false: '#d1d5db', true: '#10b981' }}
+                      thumbColor="white"
+                    />
+                  </View>
+
+                  <Text style={{
+                    fontSize: fontSize - 2,
+                    fontWeight: '600',
+                    color: '#6b7280',
+                    marginBottom: 8
+                  }}>
+                    Registration closes
+                  </Text>
+                  <View style={{
+                    flexDirection: 'row',
+                    flexWrap: 'wrap',
+                    gap: 8
+                  }}>
+                    {REGISTRATION_DEADLINE_OPTIONS.map(option => {
+                      const isSelected = newEvent.registration_deadline_offset === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.label}
+                          onPress={() => setNewEvent(prev => ({ ...prev, registration_deadline_offset: option.value }))}
+                          disabled={isCreatingEvent}
+                          style={{
+                            paddingHorizontal: 14,
+                            paddingVertical: 8,
+                            borderRadius: 8,
+                            backgroundColor: isSelected ? '#f0fdf4' : 'white',
+                            borderWidth: 1,
+                            borderColor: isSelected ? '#10b981' : '#e5e7eb'
+                          }}
+                        >
+                          <Text style={{
+                            fontSize: fontSize - 2,
+                            color: isSelected ? '#10b981' : '#6b7280',
+                            fontWeight: '500'
+                          }}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {newEvent.max_participants.trim() !== '' && (
+                    <Text style={{
+                      fontSize: fontSize - 3,
+                      color: '#9ca3af',
+                      marginTop: 8
+                    }}>
+                      Athletes joining after the event is full are added to a waitlist
+                    </Text>
+                  )}
+                </>
+              )}
+            </View>
+
             {/* Athlete Participants */}
             <View style={{ marginBottom: spacing + 4 }}>
               <Text style={{
@@ -19,26 +19,86 @@ export interface Event {
   end_date: string;
   location: string;
   status: string;
-  total_participants: number;
-  confirmed_participants: number;
+  // Participant counts are only loaded for trainers; athletes see their RSVP status instead
+  total_participants?: number;
+  confirmed_participants?: number;
   created_by_name: string;
+  occurrence_start?: string;
+  is_recurring?: boolean;
+  is_public?: boolean;
+  // The viewing athlete's participation status; null for public events they have not joined
+  rsvp_status?: string | null;
+  // Whether the athlete joined by registering rather than being invited
+  rsvp_self_registered?: boolean;
 }
 
+export type RsvpResponse = 'confirmed' | 'declined';
+
 export interface EventCardProps {
   event: Event;
   cardPadding?: number;
   fontSize?: number;
   spacing?: number;
   onPress?: (event: Event) => void;
+  onRespond?: (event: Event, response: RsvpResponse) => void;
+  onRegister?: (event: Event) => void;
+  onWithdraw?: (event: Event) => void;
+}
+
+interface CardAction {
+  label: string;
+  icon: string;
+  color: string;
+  filled: boolean;
+  onPress: () => void;
 }
 
+const RSVP_BADGES: Record<string, { label: string; color: string; icon: string }> = {
+  invited: { label: 'Invited', color: '#f59e0b', icon: 'mail' },
+  pending: { label: 'Awaiting approval', color: '#f59e0b', icon: 'clock' },
+  waitlisted: { label: 'Waitlisted', color: '#8b5cf6', icon: 'list' },
+  registered: { label: 'Registered', color: '#3b82f6', icon: 'user-check' },
+  confirmed: { label: 'Going', color: '#10b981', icon: 'check-circle' },
+  declined: { label: 'Not going', color: '#ef4444', icon: 'x-circle' },
+  attended: { label: 'Attended', color: '#10b981', icon: 'award' },
+  no_show: { label: 'Missed', color: '#6b7280', icon: 'slash' },
+  withdrawn: { label: 'Withdrawn', color: '#6b7280', icon: 'log-out' },
+};
+
+// Invitation statuses the athlete can still change
+const RESPONDABLE_STATUSES = ['invited', 'confirmed', 'declined'];
+
+// Registration statuses the athlete can withdraw from
+const WITHDRAWABLE_STATUSES = ['registered', 'pending', 'waitlisted'];
+
 export const EventCard: React.FC<EventCardProps> = ({
   event,
   cardPadding = 20,
   fontSize = 16,
   spacing = 16,
-  onPress
+  onPress,
+  onRespond,
+  onRegister,
+  onWithdraw
 }) => {
+  const status = event.rsvp_status;
+  const rsvpBadge = status ? RSVP_BADGES[status] : undefined;
+  const isActive = event.status !== 'cancelled' && event.status !== 'completed';
+
+  const actions: CardAction[] = [];
+  if (isActive && status && onWithdraw && WITHDRAWABLE_STATUSES.includes(status)) {
+    actions.push({ label: 'Leave', icon: 'log-out', color: '#ef4444', filled: false, onPress: () => onWithdraw(event) });
+  } else if (isActive && status && onRespond && !event.rsvp_self_registered && RESPONDABLE_STATUSES.includes(status)) {
+    if (status !== 'confirmed') {
+      actions.push({ label: 'Accept', icon: 'check', color: '#10b981', filled: true, onPress: () => onRespond(event, 'confirmed') });
+    }
+    if (status !== 'declined') {
+      actions.push({ label: 'Decline', icon: 'x', color: '#ef4444', filled: false, onPress: () => onRespond(event, 'declined') });
+    }
+  } else if (isActive && event.is_public && onRegister && (!status || status === 'withdrawn' || status === 'declined')) {
+    actions.push({ label: 'Join', icon: 'user-plus', color: '#3b82f6', filled: true, onPress: () => onRegister(event) });
+  }
+
   const handlePress = () => {
     if (onPress) {
       onPress(event);
@@ -62,14 +122,19 @@ export const EventCard: React.FC<EventCardProps> = ({
     >
       <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start' }}>
         <View style={{ flex: 1 }}>
-          <Text style={{
-            fontSize: fontSize,
-            fontWeight: '600',
-            color: '#1f2937',
-            marginBottom: 4
-          }}>
-            {event.title}
-          </Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
+            <Text style={{
+              fontSize: fontSize,
+              fontWeight: '600',
+              color: '#1f2937',
+              flexShrink: 1
+            }}>
+              {event.title}
+            </Text>
+            {event.is_recurring && (
+              <Feather name="repeat" size={12} color="#9ca3af" style={{ marginLeft: 6 }} />
+            )}
+          </View>
 
           <Text style={{
             fontSize: fontSize - 2,
@@ -108,13 +173,64 @@ export const EventCard: React.FC<EventCardProps> = ({
               </Text>
             </View>
 
-            <Text style={{
-              fontSize: fontSize - 3,
-              color: '#9ca3af'
-            }}>
-              {event.confirmed_participants}/{event.total_participants} athletes
-            </Text>
+            {event.rsvp_status !== undefined ? (
+              rsvpBadge && (
+                <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                  <Feather name={rsvpBadge.icon as any} size={12} color={rsvpBadge.color} style={{ marginRight: 4 }} />
+                  <Text style={{
+                    fontSize: fontSize - 3,
+                    color: rsvpBadge.color,
+                    fontWeight: '600'
+                  }}>
+                    {rsvpBadge.label}
+                  </Text>
+                </View>
+              )
+            ) : (
+              <Text style={{
+                fontSize: fontSize - 3,
+                color: '#9ca3af'
+              }}>
+                {event.confirmed_participants}/{event.total_participants} athletes
+              </Text>
+            )}
           </View>
+
+          {actions.length > 0 && (
+            <View style={{ flexDirection: 'row', marginTop: 10 }}>
+              {actions.map(action => (
+                <Pressable
+                  key={action.label}
+                  onPress={action.onPress}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    backgroundColor: action.filled ? action.color : 'white',
+                    borderWidth: 1.5,
+                    borderColor: action.color,
+                    paddingHorizontal: 12,
+                    paddingVertical: 5,
+                    borderRadius: 8,
+                    marginRight: 8
+                  }}
+                >
+                  <Feather
+                    name={action.icon as any}
+                    size={14}
+                    color={action.filled ? 'white' : action.color}
+                    style={{ marginRight: 4 }}
+                  />
+                  <Text style={{
+                    fontSize: fontSize - 2,
+                    color: action.filled ? 'white' : action.color,
+                    fontWeight: '600'
+                  }}>
+                    {action.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
         </View>
 
         <View style={{
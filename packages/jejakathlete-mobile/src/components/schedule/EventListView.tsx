@@ -6,7 +6,7 @@ import {
 } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { format } from 'date-fns';
-import { Event, EventCard } from './EventCard';
+import { Event, EventCard, RsvpResponse } from './EventCard';
 
 export interface EventListViewProps {
   events: Event[];
@@ -17,6 +17,9 @@ export interface EventListViewProps {
   spacing?: number;
   cardPadding?: number;
   onEventPress?: (event: Event) => void;
+  onRespond?: (event: Event, response: RsvpResponse) => void;
+  onRegister?: (event: Event) => void;
+  onWithdraw?: (event: Event) => void;
 }
 
 export const EventListView: React.FC<EventListViewProps> = ({
@@ -27,7 +30,10 @@ export const EventListView: React.FC<EventListViewProps> = ({
   fontSize = 16,
   spacing = 16,
   cardPadding = 20,
-  onEventPress
+  onEventPress,
+  onRespond,
+  onRegister,
+  onWithdraw
 }) => {
   return (
     <View style={{
@@ -62,12 +68,15 @@ export const EventListView: React.FC<EventListViewProps> = ({
       ) : events.length > 0 ? (
         events.map(event => (
           <EventCard
-            key={event.id}
+            key={`${event.id}-${event.occurrence_start ?? event.start_date}`}
             event={event}
             cardPadding={cardPadding}
             fontSize={fontSize}
             spacing={spacing}
             onPress={onEventPress}
+            onRespond={onRespond}
+            onRegister={onRegister}
+            onWithdraw={onWithdraw}
           />
         ))
       ) : (
@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { trpc, type RouterOutputs } from '../../lib/trpc';
+import { Event } from './EventCard';
+
+type RosterParticipant = RouterOutputs['events']['getEventRoster']['participants'][number];
+
+export interface EventRosterModalProps {
+  visible: boolean;
+  event: Event | null;
+  onClose: () => void;
+  titleFontSize?: number;
+  fontSize?: number;
+  spacing?: number;
+  containerPadding?: number;
+}
+
+const STATUS_STYLES: Record<string, { label: string; color: string }> = {
+  confirmed: { label: 'Going', color: '#10b981' },
+  invited: { label: 'Awaiting reply', color: '#f59e0b' },
+  pending: { label: 'Needs approval', color: '#f59e0b' },
+  waitlisted: { label: 'Waitlisted', color: '#8b5cf6' },
+  registered: { label: 'Registered', color: '#3b82f6' },
+  declined: { label: 'Declined', color: '#ef4444' },
+  attended: { label: 'Attended', color: '#10b981' },
+  no_show: { label: 'No show', color: '#6b7280' },
+  withdrawn: { label: 'Withdrawn', color: '#6b7280' },
+};
+
+// Order of the count chips
+const COUNT_ORDER = ['confirmed', 'invited', 'declined', 'registered', 'pending', 'waitlisted', 'attended', 'no_show', 'withdrawn'];
+
+export const EventRosterModal: React.FC<EventRosterModalProps> = ({
+  visible,
+  event,
+  onClose,
+  titleFontSize = 24,
+  fontSize = 16,
+  spacing = 16,
+  containerPadding = 24
+}) => {
+  const [participants, setParticipants] = useState<RosterParticipant[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible && event) {
+      loadRoster(event.id);
+    }
+  }, [visible, event?.id]);
+
+  const loadRoster = async (eventId: number) => {
+    setIsLoading(true);
+    try {
+      const roster = await trpc.events.getEventRoster.query({ event_id: eventId });
+      setParticipants(roster.participants);
+      setCounts(roster.counts);
+    } catch (error) {
+      console.error('❌ Error loading event roster:', error);
+      Alert.alert('Error', 'Failed to load the event roster');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReview = async (participant: RosterParticipant, approve: boolean) => {
+    if (!event) return;
+
+    setReviewingId(participant.athlete_id);
+    try {
+      await trpc.events.reviewRegistration.mutate({
+        event_id: event.id,
+        athlete_id: participant.athlete_id,
+        approve,
+      });
+      await loadRoster(event.id);
+    } catch (error: any) {
+      console.error('❌ Error reviewing registration:', error);
+      Alert.alert('Error', error?.message || 'Failed to update the registration');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={{ flex: 1, backgroundColor: 'white' }}>
+        {/* Header */}
+        <View style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          padding: containerPadding,
+          borderBottomWidth: 1,
+          borderBottomColor: '#e5e7eb'
+        }}>
+          <Pressable onPress={onClose} style={{ marginRight: 12 }}>
+            <Feather name="x" size={24} color="#6b7280" />
+          </Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontSize: titleFontSize, fontWeight: 'bold', color: '#1f2937' }} numberOfLines={1}>
+              {event?.title}
+            </Text>
+            {event && (
+              <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginTop: 2 }}>
+                {format(new Date(event.start_date), 'EEE, MMM d • h:mm a')}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {isLoading ? (
+          <View style={{ paddingVertical: 40, alignItems: 'center' }}>
+            <ActivityIndicator size="large" color="#3b82f6" />
+          </View>
+        ) : (
+          <ScrollView
+            style={{ flex: 1, backgroundColor: '#fafafa' }}
+            contentContainerStyle={{ padding: containerPadding }}
+          >
+            {/* Counts by status */}
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: spacing }}>
+              {COUNT_ORDER.filter((status) => counts[status] > 0 || ['confirmed', 'invited', 'declined'].includes(status)).map((status) => (
+                <View
+                  key={status}
+                  style={{
+                    backgroundColor: STATUS_STYLES[status].color + '20',
+                    paddingHorizontal: 10,
+                    paddingVertical: 6,
+                    borderRadius: 8,
+                    marginRight: 8,
+                    marginBottom: 8
+                  }}
+                >
+                  <Text style={{ fontSize: fontSize - 2, color: STATUS_STYLES[status].color, fontWeight: '600' }}>
+                    {STATUS_STYLES[status].label}: {counts[status] ?? 0}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {participants.length === 0 ? (
+              <View style={{ alignItems: 'center', paddingVertical: 40 }}>
+                <Feather name="users" size={48} color="#d1d5db" />
+                <Text style={{ fontSize: fontSize, color: '#6b7280', marginTop: 12 }}>
+                  No athletes invited yet
+                </Text>
+              </View>
+            ) : (
+              participants.map((participant) => {
+                const statusStyle = STATUS_STYLES[participant.status] || { label: participant.status, color: '#6b7280' };
+                return (
+                  <View
+                    key={participant.id}
+                    style={{
+                      backgroundColor: 'white',
+                      borderRadius: 12,
+                      padding: spacing,
+                      marginBottom: 10
+                    }}
+                  >
+                    <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                      <View style={{
+                        width: 36,
+                        height: 36,
+                        borderRadius: 18,
+                        backgroundColor: '#e5e7eb',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        marginRight: 12
+                      }}>
+                        <Feather name="user" size={18} color="#6b7280" />
+                      </View>
+                      <View style={{ flex: 1 }}>
+                        <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                          {participant.athlete?.full_name || 'Athlete'}
+                        </Text>
+                        {participant.response_date && (
+                          <Text style={{ fontSize: fontSize - 3, color: '#9ca3af' }}>
+                            Responded {format(new Date(participant.response_date), 'MMM d, h:mm a')}
+                          </Text>
+                        )}
+                      </View>
+                      <Text style={{ fontSize: fontSize - 2, color: statusStyle.color, fontWeight: '600' }}>
+                        {participant.waitlist_position
+                          ? `Waitlist #${participant.waitlist_position}`
+                          : statusStyle.label}
+                      </Text>
+                    </View>
+                    {participant.notes && (
+                      <Text style={{
+                        fontSize: fontSize - 2,
+                        color: '#4b5563',
+                        marginTop: 8,
+                        fontStyle: 'italic'
+                      }}>
+                        "{participant.notes}"
+                      </Text>
+                    )}
+                    {participant.status === 'pending' && (
+                      <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 10 }}>
+                        {reviewingId === participant.athlete_id ? (
+                          <ActivityIndicator size="small" color="#3b82f6" />
+                        ) : (
+                          <>
+                            <Pressable
+                              onPress={() => handleReview(participant, false)}
+                              disabled={reviewingId !== null}
+                              style={{
+                                paddingHorizontal: 14,
+                                paddingVertical: 6,
+                                borderRadius: 8,
+                                borderWidth: 1.5,
+                                borderColor: '#ef4444',
+                                marginRight: 8
+                              }}
+                            >
+                              <Text style={{ fontSize: fontSize - 2, color: '#ef4444', fontWeight: '600' }}>
+                                Reject
+                              </Text>
+                            </Pressable>
+                            <Pressable
+                              onPress={() => handleReview(participant, true)}
+                              disabled={reviewingId !== null}
+                              style={{
+                                paddingHorizontal: 14,
+                                paddingVertical: 6,
+                                borderRadius: 8,
+                                borderWidth: 1.5,
+                                borderColor: '#10b981',
+                                backgroundColor: '#10b981'
+                              }}
+                            >
+                              <Text style={{ fontSize: fontSize - 2, color: 'white', fontWeight: '600' }}>
+                                Approve
+                              </Text>
+                            </Pressable>
+                          </>
+                        )}
+                      </View>
+                    )}
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  ActivityIndicator
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Event, RsvpResponse } from './EventCard';
+
+export interface RsvpResponseModalProps {
+  visible: boolean;
+  event: Event | null;
+  response: RsvpResponse;
+  isSubmitting: boolean;
+  onSubmit: (note: string) => void;
+  onClose: () => void;
+  fontSize?: number;
+  spacing?: number;
+}
+
+export const RsvpResponseModal: React.FC<RsvpResponseModalProps> = ({
+  visible,
+  event,
+  response,
+  isSubmitting,
+  onSubmit,
+  onClose,
+  fontSize = 16,
+  spacing = 16
+}) => {
+  const [note, setNote] = useState('');
+  const isAccept = response === 'confirmed';
+  const color = isAccept ? '#10b981' : '#ef4444';
+
+  // Start with an empty note each time the modal opens
+  useEffect(() => {
+    if (visible) setNote('');
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={{
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        padding: spacing + 8
+      }}>
+        <View style={{
+          backgroundColor: 'white',
+          borderRadius: 16,
+          padding: spacing + 4
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+            <Feather
+              name={isAccept ? 'check-circle' : 'x-circle'}
+              size={22}
+              color={color}
+              style={{ marginRight: 8 }}
+            />
+            <Text style={{ fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937' }}>
+              {isAccept ? 'Accept Invitation' : 'Decline Invitation'}
+            </Text>
+          </View>
+
+          {event && (
+            <Text style={{ fontSize: fontSize - 1, color: '#6b7280', marginBottom: spacing }}>
+              {event.title} • {format(new Date(event.start_date), 'MMM d, h:mm a')}
+              {event.is_recurring ? '\nYour response applies to every session in this series.' : ''}
+            </Text>
+          )}
+
+          <Text style={{ fontSize: fontSize - 1, fontWeight: '600', color: '#374151', marginBottom: 6 }}>
+            Note for your trainer (optional)
+          </Text>
+          <TextInput
+            style={{
+              borderWidth: 1.5,
+              borderColor: '#e5e7eb',
+              borderRadius: 12,
+              padding: 12,
+              fontSize: fontSize - 1,
+              color: '#111827',
+              minHeight: 80,
+              textAlignVertical: 'top'
+            }}
+            placeholder={isAccept ? 'e.g. Arriving 10 minutes late' : 'e.g. Recovering from an injury'}
+            placeholderTextColor="#9ca3af"
+            value={note}
+            onChangeText={setNote}
+            maxLength={500}
+            multiline
+            editable={!isSubmitting}
+          />
+
+          <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: spacing }}>
+            <Pressable
+              onPress={onClose}
+              disabled={isSubmitting}
+              style={{ paddingHorizontal: 16, paddingVertical: 10, marginRight: 8 }}
+            >
+              <Text style={{ fontSize: fontSize, color: '#6b7280', fontWeight: '600' }}>
+                Cancel
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={() => onSubmit(note.trim())}
+              disabled={isSubmitting}
+              style={{
+                backgroundColor: color,
+                paddingHorizontal: 16,
+                paddingVertical: 10,
+                borderRadius: 8,
+                minWidth: 96,
+                alignItems: 'center',
+                opacity: isSubmitting ? 0.7 : 1
+              }}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={{ fontSize: fontSize, color: 'white', fontWeight: '600' }}>
+                  {isAccept ? 'Accept' : 'Decline'}
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
@@ -8,4 +8,6 @@ export * from './ViewModeToggle';
 export * from './FloatingActionButton';
 export * from './CalendarView';
 export * from './EventListView';
-export * from './CreateEventModal';
\ No newline at end of file
+export * from './CreateEventModal';
+export * from './RsvpResponseModal';
+export * from './EventRosterModal';
@@ -0,0 +1,138 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, Pressable, Alert, ActivityIndicator } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import * as WebBrowser from 'expo-web-browser';
+import { trpc } from '../../lib/trpc';
+
+const WEB_URL = process.env.EXPO_PUBLIC_WEB_URL || 'https://jejak-athlete.vercel.app';
+
+type Verification = Awaited<ReturnType<typeof trpc.verification.getMyVerification.query>>;
+
+interface TrainerVerificationCardProps {
+  fontSize: number;
+  cardPadding: number;
+  spacing: number;
+}
+
+/**
+ * Shows an unverified trainer's review status
+ * Documents are uploaded on the web, since the app has no file picker;
+ * after a rejection the trainer can resubmit from here.
+ */
+export function TrainerVerificationCard({ fontSize, cardPadding, spacing }: TrainerVerificationCardProps) {
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchVerification = useCallback(async () => {
+    try {
+      setVerification(await trpc.verification.getMyVerification.query());
+    } catch (error) {
+      console.error('Error fetching verification:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVerification();
+  }, [fetchVerification]);
+
+  if (!verification || verification.verification_status === 'approved') {
+    return null;
+  }
+
+  const isRejected = verification.verification_status === 'rejected';
+  const hasDocuments = verification.documents.length > 0;
+
+  const handleManageDocuments = async () => {
+    await WebBrowser.openBrowserAsync(`${WEB_URL}/trainer/verification`);
+    fetchVerification();
+  };
+
+  const handleResubmit = async () => {
+    if (!verification.certification_id) {
+      handleManageDocuments();
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await trpc.verification.submitForVerification.mutate({
+        certification_id: verification.certification_id,
+      });
+      await fetchVerification();
+      Alert.alert('Submitted', 'Your documents have been sent for review.');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to submit for verification');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const color = verification.awaiting_review ? '#f59e0b' : isRejected ? '#ef4444' : '#3b82f6';
+  const title = verification.awaiting_review
+    ? 'Verification under review'
+    : isRejected
+      ? 'Verification rejected'
+      : 'Verify your certification';
+  const message = verification.awaiting_review
+    ? 'An admin is reviewing your documents. You\'ll be notified of the decision.'
+    : isRejected
+      ? verification.verification_reason || 'Your documents were not approved.'
+      : 'Upload your certification documents to get verified.';
+
+  return (
+    <View style={{
+      backgroundColor: 'white',
+      padding: cardPadding,
+      borderRadius: 16,
+      marginBottom: spacing,
+      borderLeftWidth: 4,
+      borderLeftColor: color,
+    }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+        <Feather name={verification.awaiting_review ? 'clock' : isRejected ? 'alert-circle' : 'award'} size={18} color={color} />
+        <Text style={{ fontSize, fontWeight: '600', color: '#1f2937' }}>{title}</Text>
+      </View>
+      <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>{message}</Text>
+
+      {!verification.awaiting_review && (
+        <View style={{ flexDirection: 'row', gap: 8, marginTop: 12 }}>
+          <Pressable
+            onPress={handleManageDocuments}
+            style={{
+              flex: 1,
+              paddingVertical: 10,
+              borderRadius: 8,
+              backgroundColor: '#f3f4f6',
+              alignItems: 'center',
+            }}
+          >
+            <Text style={{ fontSize: fontSize - 2, fontWeight: '600', color: '#374151' }}>
+              Manage documents
+            </Text>
+          </Pressable>
+          {isRejected && hasDocuments && (
+            <Pressable
+              onPress={handleResubmit}
+              disabled={isSubmitting}
+              style={{
+                flex: 1,
+                paddingVertical: 10,
+                borderRadius: 8,
+                backgroundColor: isSubmitting ? '#9ca3af' : '#3b82f6',
+                alignItems: 'center',
+              }}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={{ fontSize: fontSize - 2, fontWeight: '600', color: 'white' }}>
+                  Resubmit
+                </Text>
+              )}
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
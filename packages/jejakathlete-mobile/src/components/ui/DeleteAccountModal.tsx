@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  ActivityIndicator
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+
+export interface DeleteAccountRequest {
+  reason: string;
+  transferToTrainerCode: string;
+}
+
+export interface DeleteAccountModalProps {
+  visible: boolean;
+  isTrainer: boolean;
+  isSubmitting: boolean;
+  onSubmit: (request: DeleteAccountRequest) => void;
+  onClose: () => void;
+  fontSize?: number;
+  spacing?: number;
+}
+
+export const DeleteAccountModal: React.FC<DeleteAccountModalProps> = ({
+  visible,
+  isTrainer,
+  isSubmitting,
+  onSubmit,
+  onClose,
+  fontSize = 16,
+  spacing = 16
+}) => {
+  const [reason, setReason] = useState('');
+  const [trainerCode, setTrainerCode] = useState('');
+
+  // Start empty each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setReason('');
+      setTrainerCode('');
+    }
+  }, [visible]);
+
+  const inputStyle = {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: fontSize - 1,
+    color: '#111827'
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={{
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        padding: spacing + 8
+      }}>
+        <View style={{
+          backgroundColor: 'white',
+          borderRadius: 16,
+          padding: spacing + 4
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+            <Feather name="user-x" size={22} color="#dc2626" style={{ marginRight: 8 }} />
+            <Text style={{ fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937' }}>
+              Delete Account
+            </Text>
+          </View>
+
+          <Text style={{ fontSize: fontSize - 1, color: '#6b7280', lineHeight: (fontSize - 1) * 1.5, marginBottom: spacing }}>
+            Your account will be deactivated now and permanently deleted with all of its data after 30 days.
+            Sign in before then to cancel.
+          </Text>
+
+          {isTrainer && (
+            <>
+              <Text style={{ fontSize: fontSize - 1, fontWeight: '600', color: '#374151', marginBottom: 6 }}>
+                Hand over to another trainer (optional)
+              </Text>
+              <TextInput
+                style={inputStyle}
+                placeholder="Trainer code"
+                placeholderTextColor="#9ca3af"
+                value={trainerCode}
+                onChangeText={setTrainerCode}
+                autoCapitalize="characters"
+                editable={!isSubmitting}
+              />
+              <Text style={{ fontSize: fontSize - 3, color: '#6b7280', marginTop: 6, marginBottom: spacing }}>
+                They take over your athletes, workouts, programs and events. Without a code, upcoming
+                workouts and events are cancelled and your athletes keep their history anonymously.
+              </Text>
+            </>
+          )}
+
+          <Text style={{ fontSize: fontSize - 1, fontWeight: '600', color: '#374151', marginBottom: 6 }}>
+            Why are you leaving? (optional)
+          </Text>
+          <TextInput
+            style={{ ...inputStyle, minHeight: 80, textAlignVertical: 'top' }}
+            placeholder="Tell us what we could do better"
+            placeholderTextColor="#9ca3af"
+            value={reason}
+            onChangeText={setReason}
+            maxLength={1000}
+            multiline
+            editable={!isSubmitting}
+          />
+
+          <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: spacing }}>
+            <Pressable
+              onPress={onClose}
+              disabled={isSubmitting}
+              style={{ paddingHorizontal: 16, paddingVertical: 10, marginRight: 8 }}
+            >
+              <Text style={{ fontSize: fontSize, color: '#6b7280', fontWeight: '600' }}>
+                Cancel
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={() => onSubmit({ reason: reason.trim(), transferToTrainerCode: trainerCode.trim() })}
+              disabled={isSubmitting}
+              style={{
+                backgroundColor: '#dc2626',
+                paddingHorizontal: 16,
+                paddingVertical: 10,
+                borderRadius: 8,
+                minWidth: 96,
+                alignItems: 'center',
+                opacity: isSubmitting ? 0.7 : 1
+              }}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={{ fontSize: fontSize, color: 'white', fontWeight: '600' }}>
+                  Delete Account
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
@@ -1,8 +1,10 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { useRealtime } from '../../contexts/RealtimeContext';
 
 interface NotificationBadgeProps {
-  count: number;
+  // Defaults to the live unread notification count
+  count?: number;
   size?: 'small' | 'medium' | 'large';
   style?: any;
 }
@@ -12,9 +14,12 @@ export const NotificationBadge: React.FC<NotificationBadgeProps> = ({
   size = 'medium',
   style,
 }) => {
-  if (count === 0) return null;
+  const { unreadCount } = useRealtime();
+  const badgeCount = count ?? unreadCount;
 
-  const displayCount = count > 99 ? '99+' : count.toString();
+  if (badgeCount === 0) return null;
+
+  const displayCount = badgeCount > 99 ? '99+' : badgeCount.toString();
 
   const sizeStyles = {
     small: { width: 16, height: 16, fontSize: 10 },
@@ -1,33 +1,26 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, Animated, useWindowDimensions } from 'react-native';
 import { Feather } from '@expo/vector-icons';
-import NetInfo from '@react-native-community/netinfo';
+import { useSync } from '../../contexts/SyncContext';
 
 export function OfflineIndicator() {
   const { width } = useWindowDimensions();
-  const [isOffline, setIsOffline] = useState(false);
+  const { isOnline, pendingCount } = useSync();
   const [slideAnim] = useState(new Animated.Value(-50));
+  const isOffline = !isOnline;
   
   // Responsive design
   const isSmallScreen = width < 380;
   const fontSize = isSmallScreen ? 12 : 14;
   
   useEffect(() => {
-    // Subscribe to network state changes
-    const unsubscribe = NetInfo.addEventListener(state => {
-      const offline = !state.isConnected || !state.isInternetReachable;
-      setIsOffline(offline);
-      
-      // Animate in/out
-      Animated.timing(slideAnim, {
-        toValue: offline ? 0 : -50,
-        duration: 300,
-        useNativeDriver: true,
-      }).start();
-    });
-    
-    return () => unsubscribe();
-  }, []);
+    // Animate in/out
+    Animated.timing(slideAnim, {
+      toValue: isOffline ? 0 : -50,
+      duration: 300,
+      useNativeDriver: true,
+    }).start();
+  }, [isOffline]);
   
   if (!isOffline) {
     return null;
@@ -63,7 +56,9 @@ export function OfflineIndicator() {
           fontWeight: '600',
         }}
       >
-        You're offline. Changes will sync when connected.
+        {pendingCount > 0
+          ? `You're offline. ${pendingCount} change${pendingCount === 1 ? '' : 's'} will sync when connected.`
+          : "You're offline. Changes will sync when connected."}
       </Text>
     </Animated.View>
   );
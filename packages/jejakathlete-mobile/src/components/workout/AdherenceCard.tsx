@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, ActivityIndicator } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { WorkoutAdherence } from '@jejakathlete/shared';
+import { trpc } from '../../lib/trpc';
+import { formatDate } from '../../lib/date-utils';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { t } from '../../i18n';
+
+interface AdherenceCardProps {
+  // Changing the key fetches adherence again, e.g. on pull to refresh
+  refreshKey?: number;
+  // Show the weekly completion chart and the delay under the headline numbers
+  showDetails?: boolean;
+  fontSize?: number;
+  spacing?: number;
+  cardPadding?: number;
+}
+
+const CHART_HEIGHT = 80;
+
+/**
+ * Colour for an adherence percentage
+ */
+export function getAdherenceColor(rate: number | null): string {
+  if (rate === null) return '#9ca3af';
+  if (rate >= 80) return '#10b981';
+  if (rate >= 50) return '#f59e0b';
+  return '#ef4444';
+}
+
+/**
+ * Describe the average completion delay, e.g. "1.5 days late"
+ */
+function formatDelay(days: number | null): string {
+  if (days === null) return '—';
+  if (days === 0) return t('adherence.onTheDay');
+  return t(days > 0 ? 'adherence.daysLate' : 'adherence.daysEarly', { count: Math.abs(days) });
+}
+
+export function AdherenceCard({
+  refreshKey = 0,
+  showDetails = true,
+  fontSize = 16,
+  spacing = 16,
+  cardPadding = 20
+}: AdherenceCardProps) {
+  const { t } = useTranslation();
+  const [adherence, setAdherence] = useState<WorkoutAdherence | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAdherence();
+  }, [refreshKey]);
+
+  const fetchAdherence = async () => {
+    try {
+      const data = await trpc.adherence.getMyAdherence.query();
+      setAdherence(data);
+    } catch (error) {
+      console.error('Error loading workout adherence:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const Stat = ({ value, label, color }: { value: string; label: string; color: string }) => (
+    <View style={{ flex: 1, alignItems: 'center' }}>
+      <Text style={{ fontSize: fontSize + 8, fontWeight: 'bold', color, marginBottom: 2 }}>
+        {value}
+      </Text>
+      <Text style={{ fontSize: fontSize - 3, color: '#6b7280', textAlign: 'center' }}>{label}</Text>
+    </View>
+  );
+
+  if (!isLoading && !adherence) return null;
+
+  return (
+    <View style={{
+      backgroundColor: 'white',
+      padding: cardPadding,
+      borderRadius: 16,
+      marginBottom: spacing
+    }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 16 }}>
+        <Feather name="check-circle" size={20} color="#10b981" style={{ marginRight: 8 }} />
+        <Text style={{ fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937', flex: 1 }}>
+          {t('adherence.title')}
+        </Text>
+        {adherence && (
+          <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>
+            {t('adherence.lastWeeks', { count: adherence.weeks })}
+          </Text>
+        )}
+      </View>
+
+      {isLoading || !adherence ? (
+        <ActivityIndicator size="small" color="#3b82f6" style={{ paddingVertical: 20 }} />
+      ) : (
+        <>
+          <View style={{ flexDirection: 'row' }}>
+            <Stat
+              value={adherence.adherence_rate === null ? '—' : `${adherence.adherence_rate}%`}
+              label={t('adherence.completed')}
+              color={getAdherenceColor(adherence.adherence_rate)}
+            />
+            <Stat
+              value={`${adherence.current_streak_days}`}
+              label={t('adherence.dayStreak')}
+              color="#f59e0b"
+            />
+            <Stat
+              value={`${adherence.longest_streak_days}`}
+              label={t('adherence.bestStreak')}
+              color="#8b5cf6"
+            />
+          </View>
+
+          {showDetails && (
+            <>
+              <View style={{
+                flexDirection: 'row',
+                justifyContent: 'space-between',
+                marginTop: spacing,
+                paddingTop: spacing,
+                borderTopWidth: 1,
+                borderTopColor: '#f3f4f6'
+              }}>
+                <Text style={{ fontSize: fontSize - 2, color: '#4b5563' }}>
+                  {t('adherence.breakdown', {
+                    completed: adherence.completed,
+                    skipped: adherence.skipped,
+                    missed: adherence.missed
+                  })}
+                </Text>
+                <Text style={{ fontSize: fontSize - 2, color: '#4b5563' }}>
+                  {formatDelay(adherence.average_delay_days)}
+                </Text>
+              </View>
+
+              <Text style={{ fontSize: fontSize - 1, fontWeight: '600', color: '#374151', marginTop: spacing, marginBottom: 8 }}>
+                {t('adherence.weeklyCompletion')}
+              </Text>
+              <View style={{ flexDirection: 'row', alignItems: 'flex-end', height: CHART_HEIGHT }}>
+                {adherence.weekly.map((week) => (
+                  <View key={week.week_start} style={{ flex: 1, alignItems: 'center', marginHorizontal: 2 }}>
+                    <View style={{
+                      width: '100%',
+                      height: week.rate === null ? 2 : Math.max(2, (week.rate / 100) * CHART_HEIGHT),
+                      backgroundColor: getAdherenceColor(week.rate),
+                      borderRadius: 3
+                    }} />
+                  </View>
+                ))}
+              </View>
+              <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 4 }}>
+                <Text style={{ fontSize: fontSize - 4, color: '#9ca3af' }}>
+                  {adherence.weekly.length > 0 ? formatDate(adherence.weekly[0].week_start, { year: undefined }) : ''}
+                </Text>
+                <Text style={{ fontSize: fontSize - 4, color: '#9ca3af' }}>{t('adherence.thisWeek')}</Text>
+              </View>
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
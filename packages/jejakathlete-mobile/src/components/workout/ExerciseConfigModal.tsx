@@ -18,12 +18,25 @@ interface Exercise {
   muscle_group: string;
 }
 
-interface ExerciseConfig {
+type ProgressionType = 'none' | 'linear' | 'double';
+
+export interface ExerciseConfig {
   sets: number;
   reps: number;
   rest_time: number;
+  target_weight?: number | null;
+  progression_type?: ProgressionType;
+  weight_increment?: number | null;
+  rep_range_max?: number | null;
+  deload_after_misses?: number | null;
 }
 
+const PROGRESSION_OPTIONS: { value: ProgressionType; label: string; description: string }[] = [
+  { value: 'none', label: 'None', description: 'Keep the same sets and reps' },
+  { value: 'linear', label: 'Linear', description: 'Add weight when every rep is hit' },
+  { value: 'double', label: 'Double', description: 'Add reps up to the top of the range, then add weight' },
+];
+
 interface ExerciseConfigModalProps {
   visible: boolean;
   exercise: Exercise;
@@ -52,11 +65,17 @@ export function ExerciseConfigModal({
   const [sets, setSets] = useState(initialConfig?.sets || 3);
   const [reps, setReps] = useState(initialConfig?.reps || 10);
   const [restTime, setRestTime] = useState(initialConfig?.rest_time || 60);
+  const [progressionType, setProgressionType] = useState<ProgressionType>(initialConfig?.progression_type || 'none');
+  const [targetWeight, setTargetWeight] = useState(initialConfig?.target_weight || 0);
+  const [weightIncrement, setWeightIncrement] = useState(initialConfig?.weight_increment || 2.5);
+  const [repRangeMax, setRepRangeMax] = useState(initialConfig?.rep_range_max || (initialConfig?.reps || 10) + 2);
+  const [deloadAfter, setDeloadAfter] = useState(initialConfig?.deload_after_misses ?? 2);
   
   // Validation errors
   const [setsError, setSetsError] = useState('');
   const [repsError, setRepsError] = useState('');
   const [restTimeError, setRestTimeError] = useState('');
+  const [repRangeError, setRepRangeError] = useState('');
   
   // Reset state when modal opens with new exercise
   useEffect(() => {
@@ -64,9 +83,15 @@ export function ExerciseConfigModal({
       setSets(initialConfig?.sets || 3);
       setReps(initialConfig?.reps || 10);
       setRestTime(initialConfig?.rest_time || 60);
+      setProgressionType(initialConfig?.progression_type || 'none');
+      setTargetWeight(initialConfig?.target_weight || 0);
+      setWeightIncrement(initialConfig?.weight_increment || 2.5);
+      setRepRangeMax(initialConfig?.rep_range_max || (initialConfig?.reps || 10) + 2);
+      setDeloadAfter(initialConfig?.deload_after_misses ?? 2);
       setSetsError('');
       setRepsError('');
       setRestTimeError('');
+      setRepRangeError('');
     }
   }, [visible, initialConfig]);
   
@@ -97,8 +122,26 @@ export function ExerciseConfigModal({
       setRestTimeError('');
     }
     
+    // Validate rep range (double progression only)
+    if (progressionType === 'double' && repRangeMax <= reps) {
+      setRepRangeError('Top of the rep range must be above the starting reps');
+      isValid = false;
+    } else {
+      setRepRangeError('');
+    }
+    
     if (isValid) {
-      onSave({ sets, reps, rest_time: restTime });
+      const hasRule = progressionType !== 'none';
+      onSave({
+        sets,
+        reps,
+        rest_time: restTime,
+        target_weight: targetWeight > 0 ? targetWeight : null,
+        progression_type: progressionType,
+        weight_increment: hasRule ? weightIncrement : null,
+        rep_range_max: progressionType === 'double' ? repRangeMax : null,
+        deload_after_misses: hasRule && deloadAfter > 0 ? deloadAfter : null
+      });
     }
   };
   
@@ -133,7 +176,8 @@ export function ExerciseConfigModal({
     min,
     max,
     unit,
-    error
+    error,
+    decimal
   }: {
     label: string;
     value: number;
@@ -144,6 +188,7 @@ export function ExerciseConfigModal({
     max: number;
     unit?: string;
     error?: string;
+    decimal?: boolean;
   }) => (
     <View style={{ marginBottom: 20 }}>
       <Text style={{
@@ -192,7 +237,7 @@ export function ExerciseConfigModal({
           <TextInput
             value={value.toString()}
             onChangeText={(text) => {
-              const num = parseInt(text) || 0;
+              const num = (decimal ? parseFloat(text) : parseInt(text)) || 0;
               onChange(num);
             }}
             keyboardType="numeric"
@@ -421,6 +466,118 @@ export function ExerciseConfigModal({
                 error={restTimeError}
               />
             </View>
+            
+            {/* Progression Card */}
+            <View style={{
+              backgroundColor: 'white',
+              padding: 20,
+              borderRadius: 12,
+              borderWidth: 1,
+              borderColor: '#e5e7eb',
+              marginTop: 20
+            }}>
+              <Text style={{
+                fontSize: fontSize + 2,
+                fontWeight: 'bold',
+                color: '#1f2937',
+                marginBottom: 12
+              }}>
+                Progression
+              </Text>
+              
+              {PROGRESSION_OPTIONS.map((option) => {
+                const isSelected = progressionType === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    onPress={() => setProgressionType(option.value)}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      padding: 12,
+                      borderRadius: 10,
+                      borderWidth: 1.5,
+                      borderColor: isSelected ? '#3b82f6' : '#e5e7eb',
+                      backgroundColor: isSelected ? '#eff6ff' : 'white',
+                      marginBottom: 8
+                    }}
+                  >
+                    <Feather
+                      name={isSelected ? 'check-circle' : 'circle'}
+                      size={18}
+                      color={isSelected ? '#3b82f6' : '#9ca3af'}
+                      style={{ marginRight: 10 }}
+                    />
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                        {option.label}
+                      </Text>
+                      <Text style={{ fontSize: fontSize - 3, color: '#6b7280', marginTop: 2 }}>
+                        {option.description}
+                      </Text>
+                    </View>
+                  </Pressable>
+                );
+              })}
+              
+              <View style={{ marginTop: 12 }}>
+                {/* Starting Weight Picker */}
+                <NumberPicker
+                  label="Starting Weight"
+                  value={targetWeight}
+                  onIncrement={() => incrementValue(targetWeight, setTargetWeight, 500, 2.5)}
+                  onDecrement={() => decrementValue(targetWeight, setTargetWeight, 0, 2.5)}
+                  onChange={setTargetWeight}
+                  min={0}
+                  max={500}
+                  unit="kg (0 for bodyweight)"
+                  decimal
+                />
+                
+                {progressionType !== 'none' && (
+                  <>
+                    {/* Weight Increment Picker */}
+                    <NumberPicker
+                      label="Weight Increase"
+                      value={weightIncrement}
+                      onIncrement={() => incrementValue(weightIncrement, setWeightIncrement, 20, 0.5)}
+                      onDecrement={() => decrementValue(weightIncrement, setWeightIncrement, 0.5, 0.5)}
+                      onChange={setWeightIncrement}
+                      min={0.5}
+                      max={20}
+                      unit="kg per step"
+                      decimal
+                    />
+                    
+                    {progressionType === 'double' && (
+                      <NumberPicker
+                        label="Top of Rep Range"
+                        value={repRangeMax}
+                        onIncrement={() => incrementValue(repRangeMax, setRepRangeMax, 100)}
+                        onDecrement={() => decrementValue(repRangeMax, setRepRangeMax, reps + 1)}
+                        onChange={setRepRangeMax}
+                        min={reps + 1}
+                        max={100}
+                        unit={`reps (from ${reps})`}
+                        error={repRangeError}
+                      />
+                    )}
+                    
+                    {/* Deload Picker */}
+                    <NumberPicker
+                      label="Deload After Misses"
+                      value={deloadAfter}
+                      onIncrement={() => incrementValue(deloadAfter, setDeloadAfter, 5)}
+                      onDecrement={() => decrementValue(deloadAfter, setDeloadAfter, 0)}
+                      onChange={setDeloadAfter}
+                      min={0}
+                      max={5}
+                      unit="missed sessions in a row (0 = never)"
+                    />
+                  </>
+                )}
+              </View>
+            </View>
           </View>
         </ScrollView>
         
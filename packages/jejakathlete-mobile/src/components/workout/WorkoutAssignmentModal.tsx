@@ -14,6 +14,7 @@ import { Feather } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { trpc } from '../../lib/trpc';
+import { getErrorMessage } from '../../i18n/errors';
 import { Button } from '../ui/Button';
 import { useToast } from '../../contexts/ToastContext';
 
@@ -88,7 +89,7 @@ export function WorkoutAssignmentModal({
       setAthletes(athletesList);
     } catch (error: any) {
       console.error('Error loading enrolled athletes:', error);
-      showError(error.message || 'Failed to load athletes');
+      showError(getErrorMessage(error, 'Failed to load athletes'));
       Alert.alert('Error', 'Failed to load athletes');
     } finally {
       setIsLoading(false);
@@ -173,7 +174,7 @@ export function WorkoutAssignmentModal({
       );
     } catch (error: any) {
       console.error('Error assigning workout:', error);
-      const errorMessage = error.message || 'Failed to assign workout';
+      const errorMessage = getErrorMessage(error, 'Failed to assign workout');
       showError(errorMessage);
       Alert.alert('Error', errorMessage);
     } finally {
@@ -18,7 +18,7 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import { useToast } from '../../contexts/ToastContext';
 
 interface WorkoutProgressDashboardProps {
-  trainerId: number;
+  trainerId: string;
   onBack: () => void;
 }
 
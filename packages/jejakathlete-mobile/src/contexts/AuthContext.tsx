@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import * as Linking from 'expo-linking';
 import { supabase, Profile, TrainerProfile, AthleteProfile, UserRole } from '../lib/supabase';
+import { registerPushDevice, unregisterPushDevice } from '../lib/push-notifications';
 import { Session, AuthError } from '@supabase/supabase-js';
 
 // =============================================
@@ -15,6 +16,8 @@ export interface AuthUser {
   role: UserRole;
   avatar_url: string | null;
   is_verified: boolean;
+  // Set while an account deletion is pending; the app only offers to cancel it
+  deactivated_at: string | null;
   created_at: string;
   // Role-specific data
   trainer_data?: TrainerProfile;
@@ -164,6 +167,7 @@ async function fetchUserProfile(userId: string): Promise<AuthUser | null> {
       role: profile.role,
       avatar_url: profile.avatar_url,
       is_verified: profile.is_verified,
+      deactivated_at: profile.deactivated_at ?? null,
       created_at: profile.created_at,
       trainer_data,
       athlete_data,
@@ -296,6 +300,14 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // Register this device for push notifications once a user is signed in,
+  // and again if they cancel a pending account deletion
+  useEffect(() => {
+    if (user?.id && !user.deactivated_at) {
+      registerPushDevice();
+    }
+  }, [user?.id, user?.deactivated_at]);
+
   // =============================================
   // Auth Methods
   // =============================================
@@ -453,6 +465,8 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
   const logout = async (): Promise<void> => {
     try {
       setIsLoading(true);
+      // Stop push notifications to this device while the session is still valid
+      await unregisterPushDevice();
       await supabase.auth.signOut();
       setUser(null);
       setSession(null);
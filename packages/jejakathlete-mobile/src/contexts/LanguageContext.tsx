@@ -0,0 +1,60 @@
+import React, { createContext, useContext, useCallback, useMemo } from 'react';
+import { useStorageState } from './useStorageState';
+import {
+  getDeviceLanguage,
+  getLocale,
+  isLanguage,
+  setLanguage as setCurrentLanguage,
+  t,
+  type Language,
+} from '../i18n';
+
+const LANGUAGE_STORAGE_KEY = 'app_language';
+
+interface LanguageContextType {
+  language: Language;
+  // BCP 47 locale for Intl and toLocale* formatting
+  locale: string;
+  setLanguage: (language: Language) => void;
+  t: typeof t;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export function LanguageProvider({ children }: { children: React.ReactNode }) {
+  const [[isLoading, storedLanguage], setStoredLanguage] = useStorageState(LANGUAGE_STORAGE_KEY);
+
+  // The saved choice, or the device language until the user picks one
+  const language: Language = isLanguage(storedLanguage) ? storedLanguage : getDeviceLanguage();
+
+  // Sync before the children render so t() and date-utils agree with them
+  setCurrentLanguage(language);
+
+  const setLanguage = useCallback((next: Language) => {
+    setStoredLanguage(next);
+  }, [setStoredLanguage]);
+
+  const value = useMemo(
+    () => ({ language, locale: getLocale(), setLanguage, t }),
+    [language, setLanguage]
+  );
+
+  // Wait for the saved language so the app doesn't flash in another one
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <LanguageContext.Provider value={value}>
+      {children}
+    </LanguageContext.Provider>
+  );
+}
+
+export function useTranslation() {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LanguageProvider');
+  }
+  return context;
+}
@@ -0,0 +1,183 @@
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
+import { AppState } from 'react-native';
+import type { RealtimeChange, RealtimeEventKind } from '@jejakathlete/shared';
+import { useSession } from './AuthContext';
+import { trpc } from '../lib/trpc';
+
+// Delay before resubscribing after the stream fails, doubling up to the max
+const RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Bursts of notification changes (e.g. mark all read) refresh the count once
+const UNREAD_REFRESH_DEBOUNCE_MS = 300;
+
+interface RealtimeListener {
+  kinds: RealtimeEventKind[];
+  onChange: (change: RealtimeChange) => void;
+  // Changes may have been missed (first connect, reconnect or app resumed); refetch
+  onResume?: () => void;
+}
+
+interface RealtimeContextType {
+  isConnected: boolean;
+  // Unread notifications, kept current by the stream
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+  addListener: (listener: RealtimeListener) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useSession();
+  const [isConnected, setIsConnected] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const listeners = useRef(new Set<RealtimeListener>());
+  // Last event received, so a new subscription resumes after it
+  const lastEventId = useRef<string | null>(null);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      const { count } = await trpc.notifications.getUnreadCount.query();
+      setUnreadCount(count);
+    } catch (error) {
+      console.error('❌ [Realtime] Failed to fetch unread count:', error);
+    }
+  }, []);
+
+  // Catch up after a gap in the stream
+  const resume = useCallback(() => {
+    refreshUnreadCount();
+    listeners.current.forEach((listener) => listener.onResume?.());
+  }, [refreshUnreadCount]);
+
+  const addListener = useCallback((listener: RealtimeListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  // One subscription per signed-in user, resubscribing with backoff if it fails
+  useEffect(() => {
+    setIsConnected(false);
+    setUnreadCount(0);
+    lastEventId.current = null;
+    if (!user?.id) return;
+
+    let subscription: { unsubscribe: () => void } | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let unreadTimer: ReturnType<typeof setTimeout> | null = null;
+    let retryDelay = RETRY_DELAY_MS;
+    let stopped = false;
+
+    const retry = () => {
+      subscription?.unsubscribe();
+      subscription = null;
+      setIsConnected(false);
+      if (stopped) return;
+
+      retryTimer = setTimeout(subscribe, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+    };
+
+    const subscribe = () => {
+      // The link reconnects on its own (e.g. when the server ends a stream) and
+      // replays from the last event, so only a new subscription needs to catch up
+      let caughtUp = false;
+
+      subscription = trpc.realtime.onChange.subscribe(
+        { lastEventId: lastEventId.current },
+        {
+          onStarted: () => {
+            retryDelay = RETRY_DELAY_MS;
+            if (!caughtUp) {
+              console.log('✅ [Realtime] Connected');
+              caughtUp = true;
+              resume();
+            }
+          },
+          onConnectionStateChange: (state) => {
+            setIsConnected(state.state === 'pending');
+          },
+          onData: ({ id, data }) => {
+            lastEventId.current = id;
+
+            if (data.kind === 'notification') {
+              if (unreadTimer) clearTimeout(unreadTimer);
+              unreadTimer = setTimeout(refreshUnreadCount, UNREAD_REFRESH_DEBOUNCE_MS);
+            }
+
+            listeners.current.forEach((listener) => {
+              if (listener.kinds.includes(data.kind)) {
+                listener.onChange(data);
+              }
+            });
+          },
+          onError: (error) => {
+            console.error('❌ [Realtime] Stream error:', error.message);
+            retry();
+          },
+          onComplete: retry,
+        }
+      );
+    };
+
+    subscribe();
+
+    // Streams are suspended in the background; catch up when the app returns
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        resume();
+      }
+    });
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (unreadTimer) clearTimeout(unreadTimer);
+      subscription?.unsubscribe();
+      appStateSubscription.remove();
+    };
+  }, [user?.id, resume, refreshUnreadCount]);
+
+  return (
+    <RealtimeContext.Provider value={{ isConnected, unreadCount, refreshUnreadCount, addListener }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+}
+
+/**
+ * Run a callback for live changes of the given kinds
+ * onResume runs when changes may have been missed, so the screen can refetch.
+ * The latest callbacks are always used, so they needn't be memoized.
+ */
+export function useRealtimeChanges(
+  kinds: RealtimeEventKind[],
+  onChange: (change: RealtimeChange) => void,
+  onResume?: () => void
+) {
+  const { addListener } = useRealtime();
+  const callbacks = useRef({ onChange, onResume });
+  callbacks.current = { onChange, onResume };
+
+  const kindsKey = kinds.join(',');
+
+  useEffect(() => {
+    return addListener({
+      kinds: kindsKey.split(',') as RealtimeEventKind[],
+      onChange: (change) => callbacks.current.onChange(change),
+      onResume: () => callbacks.current.onResume?.(),
+    });
+  }, [addListener, kindsKey]);
+}
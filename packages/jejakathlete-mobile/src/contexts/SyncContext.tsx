@@ -0,0 +1,121 @@
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { useSession } from './AuthContext';
+import { useToast } from './ToastContext';
+import {
+  syncNow as runSync,
+  prepareLocalStore,
+  getPendingChangeCount,
+  getLastSyncedAt,
+  type SyncResult,
+} from '../lib/sync-engine';
+
+interface SyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  // Changes saved on this device that haven't reached the server yet
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  // Sync when online; otherwise only refreshes pendingCount
+  syncNow: () => Promise<SyncResult | null>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useSession();
+  const { showError } = useToast();
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  // Refs so syncNow stays stable and overlapping calls share one run
+  const isOnlineRef = useRef(true);
+  const runningSync = useRef<Promise<SyncResult | null> | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    setPendingCount(await getPendingChangeCount());
+    setLastSyncedAt(await getLastSyncedAt());
+  }, []);
+
+  const syncNow = useCallback(async (): Promise<SyncResult | null> => {
+    if (!user?.id) return null;
+
+    if (!isOnlineRef.current) {
+      await refreshStatus();
+      return null;
+    }
+
+    if (runningSync.current) return runningSync.current;
+
+    runningSync.current = (async () => {
+      setIsSyncing(true);
+      try {
+        console.log('🔵 [SyncProvider] Syncing local store');
+        const result = await runSync();
+
+        if (result.rejected.length > 0) {
+          showError(`${result.rejected.length} offline change(s) could not be saved: ${result.rejected[0].message}`);
+        }
+
+        console.log('✅ [SyncProvider] Sync finished:', result);
+        return result;
+      } catch (error) {
+        console.error('❌ [SyncProvider] Sync failed:', error);
+        return null;
+      } finally {
+        await refreshStatus();
+        setIsSyncing(false);
+        runningSync.current = null;
+      }
+    })();
+
+    return runningSync.current;
+  }, [user?.id, refreshStatus, showError]);
+
+  // Switch the store to the signed-in user and sync
+  useEffect(() => {
+    setIsReady(false);
+    if (!user?.id) return;
+
+    prepareLocalStore(user.id)
+      .then(() => {
+        setIsReady(true);
+        return syncNow();
+      })
+      .catch((error) => console.error('❌ [SyncProvider] Failed to open local store:', error));
+  }, [user?.id]);
+
+  // Sync when connectivity returns
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      const cameOnline = online && !isOnlineRef.current;
+
+      isOnlineRef.current = online;
+      setIsOnline(online);
+
+      if (cameOnline && isReady) {
+        syncNow();
+      }
+    });
+
+    return () => unsubscribe();
+  }, [isReady, syncNow]);
+
+  return (
+    <SyncContext.Provider value={{ isOnline, isSyncing, pendingCount, lastSyncedAt, syncNow }}>
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
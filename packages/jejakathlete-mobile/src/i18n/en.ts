@@ -0,0 +1,149 @@
+/**
+ * English messages
+ *
+ * This catalog defines the keys; every other language must provide the same
+ * ones. Placeholders are written {name}. A message that depends on a number
+ * has one form per plural category and is looked up with a `count` param.
+ */
+export const en = {
+  common: {
+    cancel: 'Cancel',
+    error: 'Error',
+    ok: 'OK',
+    success: 'Success',
+    unknown: 'Unknown',
+    noEmail: 'No email',
+    comingSoon: '{feature} coming soon!',
+  },
+
+  language: {
+    title: 'Language',
+    choose: 'Choose the language for the app',
+  },
+
+  time: {
+    justNow: 'Just now',
+    minutesAgo: { one: '{count} minute ago', other: '{count} minutes ago' },
+    hoursAgo: { one: '{count} hour ago', other: '{count} hours ago' },
+    daysAgo: { one: '{count} day ago', other: '{count} days ago' },
+    minutesAgoShort: '{count}m ago',
+    hoursAgoShort: '{count}h ago',
+    daysAgoShort: '{count}d ago',
+  },
+
+  notifications: {
+    title: 'Notifications',
+    unread: '{count} unread',
+    markAllRead: 'Mark All Read',
+    allMarkedRead: 'All notifications marked as read',
+    markReadFailed: 'Failed to mark notifications as read',
+    empty: 'No Notifications',
+    emptyMessage: "You don't have any notifications yet. We'll notify you about important updates!",
+  },
+
+  settings: {
+    title: 'Settings',
+    subtitle: 'Manage your account and app preferences',
+    sections: {
+      account: 'Account',
+      training: 'Training',
+      preferences: 'Preferences',
+      dataProgress: 'Data & Progress',
+      support: 'Support',
+      about: 'About',
+    },
+    profile: 'Profile',
+    goals: 'Goals & Targets',
+    goalsSubtitle: 'Set and track your fitness goals',
+    workoutPreferences: 'Workout Preferences',
+    workoutPreferencesSubtitle: 'Customize your workout experience',
+    trainingSchedule: 'Training Schedule',
+    trainingScheduleSubtitle: 'Manage your training schedule',
+    achievements: 'Achievements',
+    achievementsSubtitle: 'View your fitness achievements',
+    calendarSubscription: 'Calendar Subscription',
+    calendarSubscriptionSubtitle: 'Sync your schedule to your calendar app',
+    notifications: 'Notifications',
+    notificationsSubtitle: "Choose what you're notified about and quiet hours",
+    healthIntegration: 'Health Integration',
+    healthIntegrationSubtitle: 'Connect with health apps',
+    wearables: 'Wearable Devices',
+    wearablesSubtitle: 'Connect fitness trackers',
+    helpSupport: 'Help & Support',
+    helpSupportSubtitle: 'Get help and contact support',
+    feedback: 'Feedback',
+    feedbackSubtitle: 'Share your feedback with us',
+    rateApp: 'Rate App',
+    rateAppSubtitle: 'Help us improve by rating the app',
+    appVersion: 'App Version',
+    termsOfService: 'Terms of Service',
+    termsOfServiceSubtitle: 'Read our terms and conditions',
+    privacyPolicy: 'Privacy Policy',
+    privacyPolicySubtitle: 'Learn how we protect your data',
+    signOut: 'Sign Out',
+    signOutConfirm: 'Are you sure you want to sign out?',
+    signOutFailed: 'Failed to sign out. Please try again.',
+  },
+
+  adherence: {
+    title: 'Workout Adherence',
+    lastWeeks: { one: 'Last week', other: 'Last {count} weeks' },
+    completed: 'Completed',
+    dayStreak: 'Day streak',
+    bestStreak: 'Best streak',
+    breakdown: '{completed} done · {skipped} skipped · {missed} missed',
+    onTheDay: 'On the day',
+    daysLate: { one: '{count} day late', other: '{count} days late' },
+    daysEarly: { one: '{count} day early', other: '{count} days early' },
+    weeklyCompletion: 'Weekly completion',
+    thisWeek: 'This week',
+  },
+
+  achievements: {
+    title: 'Achievements',
+    earnedOf: '{earned} of {total}',
+    locked: 'Locked',
+    unavailable: 'Achievements are unavailable right now',
+  },
+
+  errors: {
+    unexpected: 'An unexpected error occurred',
+    network: 'Could not reach the server. Check your connection and try again.',
+    loadFailed: 'Something went wrong while loading. Please try again.',
+    actionFailed: 'Something went wrong. Please try again.',
+    invalidInput: 'Some of the details entered are not valid',
+    code: {
+      unauthorized: 'Please sign in again to continue',
+      forbidden: "You don't have permission to do that",
+      notFound: "We couldn't find what you were looking for",
+      conflict: 'This has already been done',
+      tooManyRequests: 'Too many attempts. Please wait a moment and try again.',
+      timeout: 'The request took too long. Please try again.',
+    },
+    server: {
+      notLoggedIn: 'You must be logged in to perform this action',
+      accountPendingDeletion: 'This account is scheduled for deletion',
+      trainerOnly: 'This action requires trainer privileges',
+      athleteOnly: 'This action requires athlete privileges',
+      adminOnly: 'This action requires admin privileges',
+      noAthleteAccess: 'You do not have access to this athlete',
+      athleteNotFound: 'Athlete not found',
+      trainerNotFound: 'Trainer not found',
+      trainerCodeNotFound: 'No active trainer found with that code',
+      trainerNotVerified: 'This trainer is not verified',
+      alreadyEnrolled: 'You are already enrolled with this trainer',
+      enrollmentPending: 'You already have a pending enrollment request with this trainer',
+      enrollmentRejected: 'Your previous enrollment request was rejected. Please contact the trainer directly.',
+      eventNotFound: 'Event not found',
+      alreadyRegistered: 'You are already registered for this event',
+      notRegistered: 'You are not registered for this event',
+      eventCompleted: 'This event has been completed',
+      workoutNotFound: 'Workout assignment not found',
+      templateNotFound: 'Workout template not found',
+      workoutAlreadyCompleted: 'Workout has already been completed',
+      usernameTaken: 'Username already taken',
+      deadlineInPast: 'The deadline must be in the future',
+      exportInProgress: 'Your data export is already being prepared',
+    },
+  },
+};
@@ -0,0 +1,83 @@
+import { TRPCClientError } from '@trpc/client';
+import { getLanguage, t, type TranslationKey } from './index';
+
+// Server messages that have their own translation
+const SERVER_MESSAGES: Record<string, TranslationKey> = {
+  'An unexpected error occurred': 'errors.unexpected',
+  'You must be logged in to perform this action': 'errors.server.notLoggedIn',
+  'This account is scheduled for deletion': 'errors.server.accountPendingDeletion',
+  'This action requires trainer privileges': 'errors.server.trainerOnly',
+  'This action requires athlete privileges': 'errors.server.athleteOnly',
+  'This action requires admin privileges': 'errors.server.adminOnly',
+  'You do not have access to this athlete': 'errors.server.noAthleteAccess',
+  'Athlete not found': 'errors.server.athleteNotFound',
+  'Trainer not found': 'errors.server.trainerNotFound',
+  'No active trainer found with that code': 'errors.server.trainerCodeNotFound',
+  'This trainer is not verified': 'errors.server.trainerNotVerified',
+  'You are already enrolled with this trainer': 'errors.server.alreadyEnrolled',
+  'You already have a pending enrollment request with this trainer': 'errors.server.enrollmentPending',
+  'Your previous enrollment request was rejected. Please contact the trainer directly.': 'errors.server.enrollmentRejected',
+  'Event not found': 'errors.server.eventNotFound',
+  'You are already registered for this event': 'errors.server.alreadyRegistered',
+  'You are not registered for this event': 'errors.server.notRegistered',
+  'This event has been completed': 'errors.server.eventCompleted',
+  'Workout assignment not found': 'errors.server.workoutNotFound',
+  'Workout template not found': 'errors.server.templateNotFound',
+  'Workout has already been completed': 'errors.server.workoutAlreadyCompleted',
+  'Username already taken': 'errors.server.usernameTaken',
+  'The deadline must be in the future': 'errors.server.deadlineInPast',
+  'Your data export is already being prepared': 'errors.server.exportInProgress',
+};
+
+// Families of server messages without a translation of their own
+const SERVER_MESSAGE_PATTERNS: [RegExp, TranslationKey][] = [
+  [/^Failed to (fetch|load|get)\b/, 'errors.loadFailed'],
+  [/^Failed to\b/, 'errors.actionFailed'],
+  [/not found\b/i, 'errors.code.notFound'],
+];
+
+const CODE_MESSAGES: Record<string, TranslationKey> = {
+  UNAUTHORIZED: 'errors.code.unauthorized',
+  FORBIDDEN: 'errors.code.forbidden',
+  NOT_FOUND: 'errors.code.notFound',
+  CONFLICT: 'errors.code.conflict',
+  TOO_MANY_REQUESTS: 'errors.code.tooManyRequests',
+  TIMEOUT: 'errors.code.timeout',
+  BAD_REQUEST: 'errors.invalidInput',
+  INTERNAL_SERVER_ERROR: 'errors.unexpected',
+};
+
+/**
+ * Message to show the user for a failed request, in the current language
+ *
+ * Known server messages are translated. Otherwise English users see the
+ * server's own wording, while other languages get a message for the kind of
+ * failure. Input validation details and internal errors are never shown.
+ *
+ * @param error - Whatever the request threw
+ * @param fallback - Message for errors that didn't come from tRPC
+ */
+export function getErrorMessage(error: unknown, fallback: string = t('errors.unexpected')): string {
+  if (!(error instanceof TRPCClientError)) return fallback;
+
+  const known = SERVER_MESSAGES[error.message];
+  if (known) return t(known);
+
+  // No response to read, so the request never reached the server
+  const code: string | undefined = error.data?.code;
+  if (!code) return t('errors.network');
+
+  // Input validation failures carry the raw list of issues as their message
+  const isValidationError = code === 'BAD_REQUEST' && error.message.trim().startsWith('[');
+
+  if (getLanguage() === 'en' && !isValidationError && code !== 'INTERNAL_SERVER_ERROR') {
+    return error.message || fallback;
+  }
+
+  if (!isValidationError) {
+    const pattern = SERVER_MESSAGE_PATTERNS.find(([regex]) => regex.test(error.message));
+    if (pattern) return t(pattern[1]);
+  }
+
+  return CODE_MESSAGES[code] ? t(CODE_MESSAGES[code]) : fallback;
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getLocale, setLanguage, t } from './index';
+
+describe('t', () => {
+  afterEach(() => {
+    setLanguage('en');
+  });
+
+  it('fills in placeholders', () => {
+    setLanguage('en');
+
+    expect(t('adherence.breakdown', { completed: 4, skipped: 1, missed: 0 })).toBe('4 done · 1 skipped · 0 missed');
+  });
+
+  it('picks the English plural form from count', () => {
+    setLanguage('en');
+
+    expect(t('time.hoursAgo', { count: 1 })).toBe('1 hour ago');
+    expect(t('time.hoursAgo', { count: 3 })).toBe('3 hours ago');
+    expect(t('time.hoursAgo', { count: 0 })).toBe('0 hours ago');
+  });
+
+  it('uses the single Malay form for every count', () => {
+    setLanguage('ms');
+
+    expect(t('time.hoursAgo', { count: 1 })).toBe('1 jam yang lalu');
+    expect(t('time.hoursAgo', { count: 3 })).toBe('3 jam yang lalu');
+  });
+
+  it('returns the key when no catalog has it', () => {
+    expect(t('missing.key' as Parameters<typeof t>[0])).toBe('missing.key');
+  });
+});
+
+describe('getLocale', () => {
+  it('follows the current language', () => {
+    setLanguage('ms');
+    expect(getLocale()).toBe('ms-MY');
+
+    setLanguage('en');
+    expect(getLocale()).toBe('en-US');
+  });
+});
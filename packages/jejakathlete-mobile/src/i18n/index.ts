@@ -0,0 +1,120 @@
+/**
+ * Localization
+ *
+ * Messages are looked up by dotted key from the catalog of the current
+ * language, falling back to English:
+ *
+ *   t('settings.title')
+ *   t('adherence.breakdown', { completed: 4, skipped: 1, missed: 0 })
+ *   t('time.hoursAgo', { count: 3 })  // plural form picked from count
+ *
+ * The current language is kept here, not only in React state, so plain
+ * helpers such as date-utils can format for it. LanguageProvider loads and
+ * persists the user's choice and re-renders translated components when it
+ * changes.
+ */
+
+import { en } from './en';
+import { ms } from './ms';
+
+export type Language = 'en' | 'ms';
+
+export interface PluralMessage {
+  one?: string;
+  other: string;
+}
+
+type CatalogShape<T> = {
+  [K in keyof T]: T[K] extends string ? string : T[K] extends PluralMessage ? PluralMessage : CatalogShape<T[K]>;
+};
+
+type KeyPaths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage ? K : `${K}.${KeyPaths<T[K]>}`;
+}[keyof T & string];
+
+// Every language provides the keys of the English catalog
+export type Catalog = CatalogShape<typeof en>;
+export type TranslationKey = KeyPaths<typeof en>;
+export type TranslationParams = Record<string, string | number>;
+
+export const LANGUAGES: { code: Language; name: string; locale: string }[] = [
+  { code: 'en', name: 'English', locale: 'en-US' },
+  { code: 'ms', name: 'Bahasa Melayu', locale: 'ms-MY' },
+];
+
+const CATALOGS: Record<Language, Catalog> = { en, ms };
+
+// Hermes has no Intl.PluralRules, so each language's rule is spelled out
+const PLURAL_RULES: Record<Language, (count: number) => keyof PluralMessage> = {
+  en: (count) => (count === 1 ? 'one' : 'other'),
+  ms: () => 'other',
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.some((language) => language.code === value);
+}
+
+/**
+ * Language of the device, when the app has a catalog for it
+ */
+export function getDeviceLanguage(): Language {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    return locale.toLowerCase().startsWith('ms') ? 'ms' : 'en';
+  } catch {
+    return 'en';
+  }
+}
+
+let currentLanguage: Language = getDeviceLanguage();
+
+export function getLanguage(): Language {
+  return currentLanguage;
+}
+
+/**
+ * BCP 47 locale of the current language, for Intl and toLocale* formatting
+ */
+export function getLocale(): string {
+  return (LANGUAGES.find((language) => language.code === currentLanguage) ?? LANGUAGES[0]).locale;
+}
+
+/**
+ * Switch the language messages and dates are formatted in
+ * Components should change it through useTranslation, which persists the
+ * choice and re-renders them.
+ */
+export function setLanguage(language: Language): void {
+  currentLanguage = language;
+}
+
+function lookup(catalog: Catalog, key: string): string | PluralMessage | undefined {
+  let value: any = catalog;
+  for (const part of key.split('.')) {
+    value = value?.[part];
+  }
+  return typeof value === 'string' || typeof value?.other === 'string' ? value : undefined;
+}
+
+function interpolate(message: string, params?: TranslationParams): string {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Translate a message into the current language
+ *
+ * @param key - Dotted catalog key
+ * @param params - Values for {placeholders}; `count` also picks the plural form
+ * @returns The message, or the key itself when no catalog has it
+ */
+export function t(key: TranslationKey, params?: TranslationParams): string {
+  const message = lookup(CATALOGS[currentLanguage], key) ?? lookup(CATALOGS.en, key);
+  if (message === undefined) return key;
+  if (typeof message === 'string') return interpolate(message, params);
+
+  const category = PLURAL_RULES[currentLanguage](Number(params?.count ?? 0));
+  return interpolate(message[category] ?? message.other, params);
+}
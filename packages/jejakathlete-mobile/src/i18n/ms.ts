@@ -0,0 +1,150 @@
+import type { Catalog } from './index';
+
+/**
+ * Bahasa Melayu messages
+ *
+ * Malay nouns don't change with number, so plural messages only need the
+ * `other` form.
+ */
+export const ms: Catalog = {
+  common: {
+    cancel: 'Batal',
+    error: 'Ralat',
+    ok: 'OK',
+    success: 'Berjaya',
+    unknown: 'Tidak diketahui',
+    noEmail: 'Tiada e-mel',
+    comingSoon: '{feature} akan datang tidak lama lagi!',
+  },
+
+  language: {
+    title: 'Bahasa',
+    choose: 'Pilih bahasa untuk aplikasi',
+  },
+
+  time: {
+    justNow: 'Baru sahaja',
+    minutesAgo: { other: '{count} minit yang lalu' },
+    hoursAgo: { other: '{count} jam yang lalu' },
+    daysAgo: { other: '{count} hari yang lalu' },
+    minutesAgoShort: '{count}m lalu',
+    hoursAgoShort: '{count}j lalu',
+    daysAgoShort: '{count}h lalu',
+  },
+
+  notifications: {
+    title: 'Pemberitahuan',
+    unread: '{count} belum dibaca',
+    markAllRead: 'Tanda Semua Dibaca',
+    allMarkedRead: 'Semua pemberitahuan ditanda sebagai dibaca',
+    markReadFailed: 'Gagal menanda pemberitahuan sebagai dibaca',
+    empty: 'Tiada Pemberitahuan',
+    emptyMessage: 'Anda belum mempunyai sebarang pemberitahuan. Kami akan memaklumkan anda tentang kemas kini penting!',
+  },
+
+  settings: {
+    title: 'Tetapan',
+    subtitle: 'Urus akaun dan keutamaan aplikasi anda',
+    sections: {
+      account: 'Akaun',
+      training: 'Latihan',
+      preferences: 'Keutamaan',
+      dataProgress: 'Data & Kemajuan',
+      support: 'Sokongan',
+      about: 'Perihal',
+    },
+    profile: 'Profil',
+    goals: 'Matlamat & Sasaran',
+    goalsSubtitle: 'Tetapkan dan jejaki matlamat kecergasan anda',
+    workoutPreferences: 'Keutamaan Senaman',
+    workoutPreferencesSubtitle: 'Sesuaikan pengalaman senaman anda',
+    trainingSchedule: 'Jadual Latihan',
+    trainingScheduleSubtitle: 'Urus jadual latihan anda',
+    achievements: 'Pencapaian',
+    achievementsSubtitle: 'Lihat pencapaian kecergasan anda',
+    calendarSubscription: 'Langganan Kalendar',
+    calendarSubscriptionSubtitle: 'Segerakkan jadual anda ke aplikasi kalendar',
+    notifications: 'Pemberitahuan',
+    notificationsSubtitle: 'Pilih pemberitahuan yang anda terima dan waktu senyap',
+    healthIntegration: 'Integrasi Kesihatan',
+    healthIntegrationSubtitle: 'Sambung dengan aplikasi kesihatan',
+    wearables: 'Peranti Boleh Pakai',
+    wearablesSubtitle: 'Sambung penjejak kecergasan',
+    helpSupport: 'Bantuan & Sokongan',
+    helpSupportSubtitle: 'Dapatkan bantuan dan hubungi sokongan',
+    feedback: 'Maklum Balas',
+    feedbackSubtitle: 'Kongsi maklum balas anda dengan kami',
+    rateApp: 'Nilai Aplikasi',
+    rateAppSubtitle: 'Bantu kami menambah baik dengan menilai aplikasi',
+    appVersion: 'Versi Aplikasi',
+    termsOfService: 'Terma Perkhidmatan',
+    termsOfServiceSubtitle: 'Baca terma dan syarat kami',
+    privacyPolicy: 'Dasar Privasi',
+    privacyPolicySubtitle: 'Ketahui cara kami melindungi data anda',
+    signOut: 'Log Keluar',
+    signOutConfirm: 'Adakah anda pasti mahu log keluar?',
+    signOutFailed: 'Gagal log keluar. Sila cuba lagi.',
+  },
+
+  adherence: {
+    title: 'Pematuhan Senaman',
+    lastWeeks: { other: '{count} minggu lepas' },
+    completed: 'Selesai',
+    dayStreak: 'Hari berturut',
+    bestStreak: 'Rekod berturut',
+    breakdown: '{completed} selesai · {skipped} dilangkau · {missed} terlepas',
+    onTheDay: 'Pada hari itu',
+    daysLate: { other: '{count} hari lewat' },
+    daysEarly: { other: '{count} hari awal' },
+    weeklyCompletion: 'Penyelesaian mingguan',
+    thisWeek: 'Minggu ini',
+  },
+
+  achievements: {
+    title: 'Pencapaian',
+    earnedOf: '{earned} daripada {total}',
+    locked: 'Berkunci',
+    unavailable: 'Pencapaian tidak tersedia buat masa ini',
+  },
+
+  errors: {
+    unexpected: 'Ralat yang tidak dijangka telah berlaku',
+    network: 'Tidak dapat menghubungi pelayan. Semak sambungan anda dan cuba lagi.',
+    loadFailed: 'Berlaku masalah semasa memuatkan. Sila cuba lagi.',
+    actionFailed: 'Berlaku masalah. Sila cuba lagi.',
+    invalidInput: 'Sesetengah butiran yang dimasukkan tidak sah',
+    code: {
+      unauthorized: 'Sila log masuk semula untuk meneruskan',
+      forbidden: 'Anda tidak dibenarkan melakukan tindakan itu',
+      notFound: 'Kami tidak menemui apa yang anda cari',
+      conflict: 'Perkara ini telah pun dilakukan',
+      tooManyRequests: 'Terlalu banyak cubaan. Sila tunggu sebentar dan cuba lagi.',
+      timeout: 'Permintaan mengambil masa terlalu lama. Sila cuba lagi.',
+    },
+    server: {
+      notLoggedIn: 'Anda perlu log masuk untuk melakukan tindakan ini',
+      accountPendingDeletion: 'Akaun ini dijadualkan untuk dipadam',
+      trainerOnly: 'Tindakan ini memerlukan keistimewaan jurulatih',
+      athleteOnly: 'Tindakan ini memerlukan keistimewaan atlet',
+      adminOnly: 'Tindakan ini memerlukan keistimewaan pentadbir',
+      noAthleteAccess: 'Anda tidak mempunyai akses kepada atlet ini',
+      athleteNotFound: 'Atlet tidak ditemui',
+      trainerNotFound: 'Jurulatih tidak ditemui',
+      trainerCodeNotFound: 'Tiada jurulatih aktif dengan kod tersebut',
+      trainerNotVerified: 'Jurulatih ini belum disahkan',
+      alreadyEnrolled: 'Anda sudah mendaftar dengan jurulatih ini',
+      enrollmentPending: 'Anda sudah mempunyai permohonan pendaftaran yang belum diproses dengan jurulatih ini',
+      enrollmentRejected: 'Permohonan pendaftaran anda sebelum ini telah ditolak. Sila hubungi jurulatih secara terus.',
+      eventNotFound: 'Acara tidak ditemui',
+      alreadyRegistered: 'Anda sudah mendaftar untuk acara ini',
+      notRegistered: 'Anda tidak berdaftar untuk acara ini',
+      eventCompleted: 'Acara ini telah selesai',
+      workoutNotFound: 'Tugasan senaman tidak ditemui',
+      templateNotFound: 'Templat senaman tidak ditemui',
+      workoutAlreadyCompleted: 'Senaman ini telah pun diselesaikan',
+      usernameTaken: 'Nama pengguna telah digunakan',
+      deadlineInPast: 'Tarikh akhir mestilah pada masa hadapan',
+      exportInProgress: 'Eksport data anda sedang disediakan',
+    },
+  },
+};
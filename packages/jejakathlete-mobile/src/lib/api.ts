@@ -399,66 +399,9 @@ export async function refreshUserData(userId: number): Promise<AuthResponse> {
   }
 }
 
-/**
- * Delete user and all related data (CASCADE)
- * This will automatically delete:
- * - Trainer/Athlete profile
- * - Enrollments
- * - Test results
- * - Body metrics
- * - Notifications
- * - Workout templates and assignments
- * - Events and event participations
- * - Event reminders and results
- */
-export async function deleteUser(userId: number): Promise<{ success: boolean; message: string }> {
-  try {
-    console.log('🗑️ Deleting user:', userId);
-    
-    // Check if user exists
-    const user = await tursoDbHelpers.get(
-      'SELECT id, email, full_name, role FROM users WHERE id = ?',
-      [userId]
-    );
-
-    if (!user) {
-      return {
-        success: false,
-        message: 'User not found'
-      };
-    }
-
-    console.log('👤 Deleting user:', { id: user.id, email: user.email, role: user.role });
-
-    // Delete user (CASCADE will handle all related records)
-    const result = await tursoDbHelpers.run(
-      'DELETE FROM users WHERE id = ?',
-      [userId]
-    );
-
-    if (result.changes > 0) {
-      console.log('✅ User deleted successfully:', userId);
-      return {
-        success: true,
-        message: `User ${user.full_name} and all related data deleted successfully`
-      };
-    } else {
-      return {
-        success: false,
-        message: 'Failed to delete user'
-      };
-    }
-  } catch (error) {
-    console.error('❌ Delete user error:', error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : 'Failed to delete user'
-    };
-  }
-}
-
 /**
  * Create a test result (training log entry)
+ * @deprecated Use trpc.testResults.recordAthleteTestResult.mutate() instead
  */
 export async function createTestResult(data: {
   athlete_id: number;
@@ -1367,7 +1310,7 @@ export async function getWorkoutAssignments(
  * Get workout assignments for a trainer with completion stats
  */
 export async function getTrainerWorkoutAssignments(
-  trainerId: number,
+  trainerId: string,
   options?: {
     athleteId?: number;
     status?: string;
@@ -1437,7 +1380,7 @@ export async function getTrainerWorkoutAssignments(
  */
 export async function rescheduleWorkoutAssignment(
   id: number,
-  trainerId: number,
+  trainerId: string,
   newScheduledDate: string
 ): Promise<{ success: boolean; message: string }> {
   try {
@@ -1508,7 +1451,7 @@ export async function rescheduleWorkoutAssignment(
  */
 export async function cancelWorkoutAssignment(
   id: number,
-  trainerId: number
+  trainerId: string
 ): Promise<{ success: boolean; message: string }> {
   try {
     // Get current assignment
@@ -3,8 +3,11 @@
  * 
  * Handles timezone conversions and date formatting for the Jejak Atlet app.
  * All timestamps in the database are stored in UTC format.
+ * Text and dates are formatted in the app's current language.
  */
 
+import { getLocale, t } from '../i18n';
+
 /**
  * Parse a date string from the database (UTC) to a JavaScript Date object
  * 
@@ -51,13 +54,13 @@ export function formatTimeAgo(dateString: string): string {
   const diffInHours = Math.floor(diffInMs / (1000 * 60 * 60));
   const diffInDays = Math.floor(diffInHours / 24);
   
-  if (diffInMinutes < 1) return 'Just now';
-  if (diffInMinutes < 60) return `${diffInMinutes} minute${diffInMinutes > 1 ? 's' : ''} ago`;
-  if (diffInHours < 24) return `${diffInHours} hour${diffInHours > 1 ? 's' : ''} ago`;
-  if (diffInDays < 7) return `${diffInDays} day${diffInDays > 1 ? 's' : ''} ago`;
+  if (diffInMinutes < 1) return t('time.justNow');
+  if (diffInMinutes < 60) return t('time.minutesAgo', { count: diffInMinutes });
+  if (diffInHours < 24) return t('time.hoursAgo', { count: diffInHours });
+  if (diffInDays < 7) return t('time.daysAgo', { count: diffInDays });
   
   // For older dates, show the actual date
-  return date.toLocaleDateString('en-US', { 
+  return date.toLocaleDateString(getLocale(), { 
     month: 'short', 
     day: 'numeric',
     year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined
@@ -79,12 +82,12 @@ export function formatTimeAgoShort(dateString: string): string {
   const diffInHours = Math.floor(diffInMs / (1000 * 60 * 60));
   const diffInDays = Math.floor(diffInHours / 24);
   
-  if (diffInMinutes < 1) return 'Just now';
-  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-  if (diffInHours < 24) return `${diffInHours}h ago`;
-  if (diffInDays < 7) return `${diffInDays}d ago`;
+  if (diffInMinutes < 1) return t('time.justNow');
+  if (diffInMinutes < 60) return t('time.minutesAgoShort', { count: diffInMinutes });
+  if (diffInHours < 24) return t('time.hoursAgoShort', { count: diffInHours });
+  if (diffInDays < 7) return t('time.daysAgoShort', { count: diffInDays });
   
-  return date.toLocaleDateString();
+  return date.toLocaleDateString(getLocale());
 }
 
 /**
@@ -117,7 +120,7 @@ export function formatDate(
     ...options
   };
   
-  return date.toLocaleDateString('en-US', defaultOptions);
+  return date.toLocaleDateString(getLocale(), defaultOptions);
 }
 
 /**
@@ -129,7 +132,7 @@ export function formatDate(
 export function formatDateTime(dateString: string): string {
   const date = parseDatabaseDate(dateString);
   
-  return date.toLocaleString('en-US', {
+  return date.toLocaleString(getLocale(), {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -0,0 +1,229 @@
+import { open, type DB } from '@op-engineering/op-sqlite';
+
+// Local SQLite mirror of the signed-in user's data
+// Every synced row is stored as JSON in `records`, keyed by collection and id.
+// Writes made in the app are queued in `outbox` and replayed to tRPC by the
+// sync engine (see sync-engine.ts).
+
+export type Collection =
+  | 'workout_templates'
+  | 'workout_assignments'
+  | 'session_progress'
+  | 'test_results'
+  | 'body_metrics';
+
+export interface LocalRecord<T = any> {
+  collection: Collection;
+  id: string;
+  data: T;
+  updated_at: string | null;
+  // Local time of the last edit that has not reached the server yet
+  locally_updated_at: string | null;
+  is_dirty: boolean;
+}
+
+export interface OutboxEntry {
+  id: number;
+  procedure: string;
+  input: any;
+  collection: Collection;
+  record_id: string;
+  queued_at: string;
+  attempts: number;
+  last_error: string | null;
+}
+
+const DB_NAME = 'jejakathlete-local.db';
+
+let db: DB | null = null;
+
+const getDb = (): DB => {
+  if (!db) {
+    db = open({ name: DB_NAME });
+    db.executeSync(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT,
+        locally_updated_at TEXT,
+        is_dirty INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (collection, id)
+      )
+    `);
+    db.executeSync(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        procedure TEXT NOT NULL,
+        input TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        queued_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT
+      )
+    `);
+    db.executeSync(`
+      CREATE TABLE IF NOT EXISTS sync_state (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      )
+    `);
+  }
+  return db;
+};
+
+const toRecord = (row: Record<string, any>): LocalRecord => ({
+  collection: row.collection as Collection,
+  id: String(row.id),
+  data: JSON.parse(String(row.data)),
+  updated_at: (row.updated_at as string) ?? null,
+  locally_updated_at: (row.locally_updated_at as string) ?? null,
+  is_dirty: Number(row.is_dirty) === 1,
+});
+
+const toOutboxEntry = (row: Record<string, any>): OutboxEntry => ({
+  id: Number(row.id),
+  procedure: String(row.procedure),
+  input: JSON.parse(String(row.input)),
+  collection: row.collection as Collection,
+  record_id: String(row.record_id),
+  queued_at: String(row.queued_at),
+  attempts: Number(row.attempts),
+  last_error: (row.last_error as string) ?? null,
+});
+
+export const localDb = {
+  // Get all records of a collection
+  async getAll<T = any>(collection: Collection): Promise<LocalRecord<T>[]> {
+    const result = await getDb().execute('SELECT * FROM records WHERE collection = ?', [collection]);
+    return result.rows.map(toRecord);
+  },
+
+  // Get one record, or null when it isn't stored
+  async get<T = any>(collection: Collection, id: string | number): Promise<LocalRecord<T> | null> {
+    const result = await getDb().execute(
+      'SELECT * FROM records WHERE collection = ? AND id = ?',
+      [collection, String(id)]
+    );
+    return result.rows.length > 0 ? toRecord(result.rows[0]) : null;
+  },
+
+  // Store a record from the server, clearing any local edit flag
+  async putSynced(collection: Collection, id: string | number, data: any): Promise<void> {
+    await getDb().execute(
+      `INSERT OR REPLACE INTO records (collection, id, data, updated_at, locally_updated_at, is_dirty)
+       VALUES (?, ?, ?, ?, NULL, 0)`,
+      [collection, String(id), JSON.stringify(data), data.updated_at ?? data.created_at ?? null]
+    );
+  },
+
+  // Store a local edit and queue the call that sends it to the server
+  // Without a mutation the edit mirrors a change another queued call makes on
+  // the server; the record stays dirty until a pull brings the server copy.
+  async putLocal(
+    collection: Collection,
+    id: string | number,
+    data: any,
+    mutation?: { procedure: string; input: any }
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await getDb().transaction(async (tx) => {
+      await tx.execute(
+        `INSERT INTO records (collection, id, data, updated_at, locally_updated_at, is_dirty)
+         VALUES (?, ?, ?, ?, ?, 1)
+         ON CONFLICT (collection, id) DO UPDATE SET
+           data = excluded.data,
+           locally_updated_at = excluded.locally_updated_at,
+           is_dirty = 1`,
+        [collection, String(id), JSON.stringify(data), data.updated_at ?? null, now]
+      );
+      if (mutation) {
+        await tx.execute(
+          `INSERT INTO outbox (procedure, input, collection, record_id, queued_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [mutation.procedure, JSON.stringify(mutation.input), collection, String(id), now]
+        );
+      }
+    });
+  },
+
+  // Move a record to the id the server gave it
+  async renameRecord(collection: Collection, fromId: string, toId: string, data: any): Promise<void> {
+    await getDb().transaction(async (tx) => {
+      await tx.execute('DELETE FROM records WHERE collection = ? AND id = ?', [collection, fromId]);
+      await tx.execute(
+        `INSERT OR REPLACE INTO records (collection, id, data, updated_at, locally_updated_at, is_dirty)
+         VALUES (?, ?, ?, ?, NULL, 0)`,
+        [collection, toId, JSON.stringify(data), data.updated_at ?? data.created_at ?? null]
+      );
+      await tx.execute(
+        'UPDATE outbox SET record_id = ? WHERE collection = ? AND record_id = ?',
+        [toId, collection, fromId]
+      );
+    });
+  },
+
+  async deleteRecord(collection: Collection, id: string): Promise<void> {
+    await getDb().execute('DELETE FROM records WHERE collection = ? AND id = ?', [collection, id]);
+  },
+
+  // Mark a record as matching the server once its queued calls are sent
+  async markClean(collection: Collection, id: string): Promise<void> {
+    await getDb().execute(
+      `UPDATE records SET is_dirty = 0, locally_updated_at = NULL
+       WHERE collection = ? AND id = ?
+         AND NOT EXISTS (SELECT 1 FROM outbox WHERE collection = ? AND record_id = ?)`,
+      [collection, id, collection, id]
+    );
+  },
+
+  // Queued calls in the order they were made
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const result = await getDb().execute('SELECT * FROM outbox ORDER BY id ASC');
+    return result.rows.map(toOutboxEntry);
+  },
+
+  async countOutbox(): Promise<number> {
+    const result = await getDb().execute('SELECT COUNT(*) AS count FROM outbox');
+    return Number(result.rows[0]?.count ?? 0);
+  },
+
+  async updateOutboxInput(id: number, input: any): Promise<void> {
+    await getDb().execute('UPDATE outbox SET input = ? WHERE id = ?', [JSON.stringify(input), id]);
+  },
+
+  async recordOutboxFailure(id: number, message: string): Promise<void> {
+    await getDb().execute(
+      'UPDATE outbox SET attempts = attempts + 1, last_error = ? WHERE id = ?',
+      [message, id]
+    );
+  },
+
+  async removeOutboxEntry(id: number): Promise<void> {
+    await getDb().execute('DELETE FROM outbox WHERE id = ?', [id]);
+  },
+
+  // Drop queued calls of a record, e.g. when a newer server version wins
+  async removeOutboxFor(collection: Collection, id: string): Promise<void> {
+    await getDb().execute('DELETE FROM outbox WHERE collection = ? AND record_id = ?', [collection, id]);
+  },
+
+  async getState(key: string): Promise<string | null> {
+    const result = await getDb().execute('SELECT value FROM sync_state WHERE key = ?', [key]);
+    return result.rows.length > 0 ? ((result.rows[0].value as string) ?? null) : null;
+  },
+
+  async setState(key: string, value: string): Promise<void> {
+    await getDb().execute('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', [key, value]);
+  },
+
+  // Remove everything, e.g. when a different user signs in
+  async clear(): Promise<void> {
+    await getDb().transaction(async (tx) => {
+      await tx.execute('DELETE FROM records');
+      await tx.execute('DELETE FROM outbox');
+      await tx.execute('DELETE FROM sync_state');
+    });
+  },
+};
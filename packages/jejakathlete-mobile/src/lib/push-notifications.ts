@@ -0,0 +1,96 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import * as SecureStore from 'expo-secure-store';
+import Constants from 'expo-constants';
+import { trpc } from './trpc';
+
+// Expo push token of this device, kept so it can be unregistered on logout
+const PUSH_TOKEN_KEY = 'push_token';
+
+// Must match the channel the server sends Android messages to
+const ANDROID_CHANNEL_ID = 'default';
+
+// Show notifications that arrive while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Ask for permission and get this device's Expo push token
+ * Returns null on simulators or if the user declines.
+ */
+async function getExpoPushToken(): Promise<string | null> {
+  if (!Device.isDevice) {
+    console.log('[Push] Push notifications need a physical device');
+    return null;
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Notifications',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  let status = existingStatus;
+
+  if (status !== 'granted') {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+
+  if (status !== 'granted') {
+    console.log('[Push] Permission not granted');
+    return null;
+  }
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+  const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+  return data;
+}
+
+/**
+ * Register this device for push notifications for the signed-in user
+ * Failures are logged; the app works without push.
+ */
+export async function registerPushDevice(): Promise<void> {
+  try {
+    const token = await getExpoPushToken();
+    if (!token) return;
+
+    await trpc.devices.registerDevice.mutate({
+      token,
+      platform: Platform.OS === 'ios' ? 'ios' : Platform.OS === 'android' ? 'android' : 'web',
+      device_name: Device.deviceName,
+      app_version: Constants.expoConfig?.version ?? null,
+    });
+
+    await SecureStore.setItemAsync(PUSH_TOKEN_KEY, token);
+    console.log('[Push] Device registered');
+  } catch (error) {
+    console.error('[Push] Failed to register device:', error);
+  }
+}
+
+/**
+ * Remove this device from the signed-in user's push devices
+ * Call before signing out, while the session is still valid.
+ */
+export async function unregisterPushDevice(): Promise<void> {
+  try {
+    const token = await SecureStore.getItemAsync(PUSH_TOKEN_KEY);
+    if (!token) return;
+
+    await trpc.devices.unregisterDevice.mutate({ token });
+    await SecureStore.deleteItemAsync(PUSH_TOKEN_KEY);
+    console.log('[Push] Device unregistered');
+  } catch (error) {
+    console.error('[Push] Failed to unregister device:', error);
+  }
+}
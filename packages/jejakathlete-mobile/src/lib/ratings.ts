@@ -0,0 +1,38 @@
+/**
+ * Test Rating Utilities
+ *
+ * Display helpers for normative test ratings returned by
+ * trpc.testResults.getResultRatings.
+ */
+
+import type { RatingCategory } from '@jejakathlete/shared';
+
+const RATING_LABELS: Record<RatingCategory, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  average: 'Average',
+  below_average: 'Below Average',
+  poor: 'Poor',
+};
+
+const RATING_COLORS: Record<RatingCategory, string> = {
+  excellent: '#10b981',
+  good: '#3b82f6',
+  average: '#f59e0b',
+  below_average: '#f97316',
+  poor: '#ef4444',
+};
+
+/**
+ * Get the display label for a rating category
+ */
+export function formatRating(rating: RatingCategory): string {
+  return RATING_LABELS[rating];
+}
+
+/**
+ * Get the display color for a rating category
+ */
+export function getRatingColor(rating: RatingCategory): string {
+  return RATING_COLORS[rating];
+}
@@ -0,0 +1,421 @@
+import { TRPCClientError } from '@trpc/client';
+import type { SyncSnapshot } from '@jejakathlete/shared';
+import { trpc, type AppRouter } from './trpc';
+import { localDb, type Collection, type LocalRecord } from './local-db';
+
+// Offline-first access to the signed-in user's data
+// Screens read from and write to the local store; writes are queued in the
+// outbox and replayed to tRPC by syncNow(). Pulls replace clean records with
+// the server's copy. A record with unsent edits keeps them unless the server
+// copy has a later updated_at, in which case the server wins and the queued
+// edits are dropped.
+
+const LOCAL_ID_PREFIX = 'local:';
+
+// Synced collections, in the order the snapshot is applied
+const COLLECTIONS: Collection[] = [
+  'workout_templates',
+  'workout_assignments',
+  'session_progress',
+  'test_results',
+  'body_metrics',
+];
+
+type Replayer = (input: any) => Promise<any>;
+
+// Procedures the outbox can replay
+const REPLAYERS: Record<string, Replayer> = {
+  'bodyMetrics.recordMetrics': (input) => trpc.bodyMetrics.recordMetrics.mutate(input),
+  'bodyMetrics.updateMetrics': (input) => trpc.bodyMetrics.updateMetrics.mutate(input),
+  'testResults.recordTestResult': (input) => trpc.testResults.recordTestResult.mutate(input),
+  'workouts.startWorkout': (input) => trpc.workouts.startWorkout.mutate(input),
+  'workouts.updateProgress': (input) => trpc.workouts.updateProgress.mutate(input),
+  'workouts.finishWorkout': (input) => trpc.workouts.finishWorkout.mutate(input),
+  'workouts.skipWorkout': (input) => trpc.workouts.skipWorkout.mutate(input),
+};
+
+export interface SyncResult {
+  pushed: number;
+  // Queued changes the server refused; they are dropped from the outbox
+  rejected: { procedure: string; message: string }[];
+  // False when the server couldn't be reached
+  completed: boolean;
+}
+
+export const isLocalId = (id: string | number) => String(id).startsWith(LOCAL_ID_PREFIX);
+
+const newLocalId = () => `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const progressKey = (row: { workout_assignment_id: number; workout_exercise_id: number; set_number: number }) =>
+  `${row.workout_assignment_id}:${row.workout_exercise_id}:${row.set_number}`;
+
+type SyncRow = SyncSnapshot[Collection][number];
+
+const recordKey = (row: SyncRow) =>
+  'set_number' in row ? progressKey(row) : String(row.id);
+
+// Postgres TIMESTAMP values come back without a zone; they are stored in UTC
+const parseServerTime = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const hasZone = /[zZ]$|[+-]\d{2}:?\d{2}$/.test(value);
+  const time = Date.parse(hasZone ? value : `${value.replace(' ', 'T')}Z`);
+  return isNaN(time) ? null : time;
+};
+
+// Errors the server won't accept on retry; anything else is treated as offline
+const isPermanentError = (error: unknown): boolean => {
+  if (!(error instanceof TRPCClientError)) return false;
+  const status = (error as TRPCClientError<AppRouter>).data?.httpStatus;
+  return !!status && status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+};
+
+/**
+ * Merge a server snapshot into the local store
+ * server_time gives the offset between the device and server clocks, so
+ * local edit times can be compared with the server's updated_at.
+ */
+async function applySnapshot(snapshot: SyncSnapshot) {
+  const clockOffset = (parseServerTime(snapshot.server_time) ?? Date.now()) - Date.now();
+
+  for (const collection of COLLECTIONS) {
+    const localRecords = new Map(
+      (await localDb.getAll(collection)).map((record) => [record.id, record])
+    );
+    const serverIds = new Set<string>();
+
+    for (const row of snapshot[collection]) {
+      const id = recordKey(row);
+      serverIds.add(id);
+      const local = localRecords.get(id);
+
+      if (local?.is_dirty) {
+        // Test results are never edited, so they have no updated_at
+        const serverUpdatedAt = parseServerTime('updated_at' in row ? row.updated_at : row.created_at);
+        const localUpdatedAt = local.locally_updated_at
+          ? Date.parse(local.locally_updated_at) + clockOffset
+          : 0;
+
+        if (serverUpdatedAt === null || serverUpdatedAt <= localUpdatedAt) continue;
+
+        console.log('🔵 [sync] Server copy is newer, dropping local changes:', { collection, id });
+        await localDb.removeOutboxFor(collection, id);
+      }
+
+      await localDb.putSynced(collection, id, row);
+    }
+
+    // Records gone from the server are removed unless they have unsent changes
+    for (const [id, local] of localRecords) {
+      if (!serverIds.has(id) && !local.is_dirty) {
+        await localDb.deleteRecord(collection, id);
+      }
+    }
+  }
+
+  await localDb.setState('last_synced_at', new Date().toISOString());
+}
+
+/**
+ * Fetch the user's data from the server into the local store
+ */
+export async function pullSnapshot(): Promise<void> {
+  const snapshot = await trpc.sync.pull.query();
+  await applySnapshot(snapshot);
+}
+
+/**
+ * Replay queued changes to the server in the order they were made
+ * Stops at the first change that fails for a reason other than the server
+ * refusing it, so later changes never overtake earlier ones.
+ */
+export async function pushOutbox(): Promise<SyncResult> {
+  const entries = await localDb.getOutbox();
+  const result: SyncResult = { pushed: 0, rejected: [], completed: true };
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    const replay = REPLAYERS[entry.procedure];
+
+    if (!replay) {
+      console.error('❌ [sync] Unknown outbox procedure:', entry.procedure);
+      await localDb.removeOutboxEntry(entry.id);
+      continue;
+    }
+
+    try {
+      const response = await replay(entry.input);
+      await localDb.removeOutboxEntry(entry.id);
+      result.pushed++;
+
+      if (isLocalId(entry.record_id) && response?.id !== undefined) {
+        // A record created offline now has a server id; point later changes at it
+        const serverId = String(response.id);
+        const local = await localDb.get(entry.collection, entry.record_id);
+        await localDb.renameRecord(entry.collection, entry.record_id, serverId, { ...local?.data, ...response });
+
+        for (const later of entries.slice(index + 1)) {
+          if (later.collection !== entry.collection || later.record_id !== entry.record_id) continue;
+          later.record_id = serverId;
+          if (later.input?.id === entry.record_id) {
+            later.input = { ...later.input, id: response.id };
+            await localDb.updateOutboxInput(later.id, later.input);
+          }
+        }
+      } else {
+        await localDb.markClean(entry.collection, entry.record_id);
+      }
+    } catch (error: any) {
+      if (isPermanentError(error)) {
+        console.error('❌ [sync] Server rejected queued change:', {
+          procedure: entry.procedure,
+          message: error.message,
+        });
+        await localDb.removeOutboxEntry(entry.id);
+        await localDb.markClean(entry.collection, entry.record_id);
+        result.rejected.push({ procedure: entry.procedure, message: error.message });
+        continue;
+      }
+
+      await localDb.recordOutboxFailure(entry.id, error?.message || 'Network error');
+      result.completed = false;
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Bring the local store and the server in line
+ * Pulls first so newer server changes win over stale queued edits, replays
+ * the outbox, then pulls again to pick up what the server made of it.
+ */
+export async function syncNow(): Promise<SyncResult> {
+  try {
+    await pullSnapshot();
+  } catch (error: any) {
+    console.error('❌ [sync] Pull failed:', error?.message);
+    return { pushed: 0, rejected: [], completed: false };
+  }
+
+  const result = await pushOutbox();
+
+  if (result.completed && result.pushed + result.rejected.length > 0) {
+    try {
+      await pullSnapshot();
+    } catch (error: any) {
+      console.error('❌ [sync] Pull after push failed:', error?.message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Prepare the store for a signed-in user
+ * Another user's data and queued changes are discarded.
+ */
+export async function prepareLocalStore(userId: string): Promise<void> {
+  const storedUserId = await localDb.getState('user_id');
+  if (storedUserId !== userId) {
+    await localDb.clear();
+    await localDb.setState('user_id', userId);
+  }
+}
+
+export const getPendingChangeCount = () => localDb.countOutbox();
+
+export const getLastSyncedAt = () => localDb.getState('last_synced_at');
+
+const data = <T>(records: LocalRecord<T>[]) => records.map((record) => record.data);
+
+const byDateDesc = (key: string) => (a: any, b: any) => String(b[key]).localeCompare(String(a[key]));
+
+export const offlineStore = {
+  /**
+   * Trainer's workout templates with exercises
+   */
+  async getMyTemplates() {
+    return data(await localDb.getAll('workout_templates'));
+  },
+
+  /**
+   * Athlete's workout assignments, newest first, with completion_percentage
+   * worked out from local session progress
+   */
+  async getMyWorkouts() {
+    const [assignments, progress] = await Promise.all([
+      localDb.getAll('workout_assignments'),
+      localDb.getAll('session_progress'),
+    ]);
+
+    return data(assignments)
+      .map((assignment: any) => {
+        const exercises = [...(assignment.workout_template?.exercises || [])].sort(
+          (a: any, b: any) => a.order_index - b.order_index
+        );
+        const totalSets = exercises.reduce((sum: number, exercise: any) => sum + exercise.sets, 0);
+        const completedSets = progress.filter(
+          (record) => record.data.workout_assignment_id === assignment.id && record.data.completed
+        ).length;
+
+        return {
+          ...assignment,
+          workout_template: assignment.workout_template && { ...assignment.workout_template, exercises },
+          completion_percentage: totalSets > 0 ? (completedSets / totalSets) * 100 : 0,
+        };
+      })
+      .sort(byDateDesc('scheduled_date'));
+  },
+
+  async getWorkout(assignmentId: number) {
+    const workouts = await offlineStore.getMyWorkouts();
+    return workouts.find((workout: any) => workout.id === assignmentId) || null;
+  },
+
+  async getSessionProgress(assignmentId: number) {
+    return data(await localDb.getAll('session_progress')).filter(
+      (row: any) => row.workout_assignment_id === assignmentId
+    );
+  },
+
+  async startWorkout(assignmentId: number) {
+    const local = await localDb.get('workout_assignments', assignmentId);
+    if (!local) throw new Error('Workout assignment not found');
+    if (local.data.status !== 'pending') return local.data;
+
+    const updated = { ...local.data, status: 'in_progress', started_at: new Date().toISOString() };
+    await localDb.putLocal('workout_assignments', assignmentId, updated, {
+      procedure: 'workouts.startWorkout',
+      input: { assignment_id: assignmentId },
+    });
+    return updated;
+  },
+
+  /**
+   * Log a set; a pending workout is started by its first logged set
+   */
+  async updateProgress(input: {
+    assignment_id: number;
+    workout_exercise_id: number;
+    set_number: number;
+    completed: boolean;
+    reps_completed?: number;
+    weight_used?: number;
+    notes?: string;
+  }) {
+    const now = new Date().toISOString();
+    const key = progressKey({ workout_assignment_id: input.assignment_id, ...input });
+    const existing = await localDb.get('session_progress', key);
+
+    const row = {
+      ...existing?.data,
+      workout_assignment_id: input.assignment_id,
+      workout_exercise_id: input.workout_exercise_id,
+      set_number: input.set_number,
+      completed: input.completed,
+      completed_at: input.completed ? now : null,
+      reps_completed: input.reps_completed ?? null,
+      weight_used: input.weight_used ?? null,
+      notes: input.notes ?? null,
+    };
+    await localDb.putLocal('session_progress', key, row, { procedure: 'workouts.updateProgress', input });
+
+    const assignment = await localDb.get('workout_assignments', input.assignment_id);
+    if (assignment?.data.status === 'pending') {
+      // The server starts the workout as part of updateProgress
+      await localDb.putLocal('workout_assignments', input.assignment_id, {
+        ...assignment.data,
+        status: 'in_progress',
+        started_at: now,
+      });
+    }
+
+    return row;
+  },
+
+  async finishWorkout(assignmentId: number) {
+    const local = await localDb.get('workout_assignments', assignmentId);
+    if (!local) throw new Error('Workout assignment not found');
+
+    const updated = { ...local.data, status: 'completed', completed_at: new Date().toISOString() };
+    await localDb.putLocal('workout_assignments', assignmentId, updated, {
+      procedure: 'workouts.finishWorkout',
+      input: { assignment_id: assignmentId },
+    });
+    return updated;
+  },
+
+  async skipWorkout(assignmentId: number) {
+    const local = await localDb.get('workout_assignments', assignmentId);
+    if (!local) throw new Error('Workout assignment not found');
+
+    const updated = { ...local.data, status: 'skipped' };
+    await localDb.putLocal('workout_assignments', assignmentId, updated, {
+      procedure: 'workouts.skipWorkout',
+      input: { assignment_id: assignmentId },
+    });
+    return updated;
+  },
+
+  async getMyTestResults() {
+    return data(await localDb.getAll('test_results')).sort(byDateDesc('test_date'));
+  },
+
+  async recordTestResult(input: { test_id: number; result_value: number; test_date: string; notes?: string }) {
+    const id = newLocalId();
+    const row = { id, ...input, created_at: new Date().toISOString() };
+    await localDb.putLocal('test_results', id, row, { procedure: 'testResults.recordTestResult', input });
+    return row;
+  },
+
+  async getMyMetrics() {
+    return data(await localDb.getAll('body_metrics')).sort(byDateDesc('measurement_date'));
+  },
+
+  async recordMetrics(input: {
+    measurement_date: string;
+    weight?: number;
+    height?: number;
+    muscle_mass?: number;
+    body_fat_percentage?: number;
+    bmi?: number;
+    notes?: string;
+  }) {
+    const id = newLocalId();
+    const now = new Date().toISOString();
+    const row = {
+      id,
+      measurement_date: input.measurement_date,
+      weight: input.weight ?? null,
+      height: input.height ?? null,
+      muscle_mass: input.muscle_mass ?? null,
+      body_fat_percentage: input.body_fat_percentage ?? null,
+      bmi: input.bmi ?? null,
+      notes: input.notes ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    await localDb.putLocal('body_metrics', id, row, { procedure: 'bodyMetrics.recordMetrics', input });
+    return row;
+  },
+
+  async updateMetrics(input: {
+    id: number | string;
+    measurement_date?: string;
+    weight?: number;
+    height?: number;
+    muscle_mass?: number;
+    body_fat_percentage?: number;
+    bmi?: number;
+    notes?: string;
+  }) {
+    const local = await localDb.get('body_metrics', input.id);
+    if (!local) throw new Error('Body metrics record not found');
+
+    const { id, ...changes } = input;
+    const updated = { ...local.data, ...changes };
+    await localDb.putLocal('body_metrics', id, updated, { procedure: 'bodyMetrics.updateMetrics', input });
+    return updated;
+  },
+};
@@ -1,5 +1,7 @@
-import { createTRPCClient, httpBatchLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/client';
+import type { inferRouterOutputs } from '@trpc/server';
 import { QueryClient } from '@tanstack/react-query';
+import { EventSourcePolyfill } from 'event-source-polyfill';
 import superjson from 'superjson';
 import type { AppRouter } from '../../../jejakathlete-web/src/server/root';
 import { supabase } from './supabase';
@@ -21,54 +23,76 @@ export const queryClient = new QueryClient({
   },
 });
 
+// Bearer header for the current session, if signed in
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
 // Create tRPC client for mobile
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({
-      url: API_URL,
-      transformer: superjson,
-      async headers() {
-        // Get the current session token
-        const { data: { session } } = await supabase.auth.getSession();
-        
-        console.log('🔵 [tRPC Client] Preparing request:', {
-          url: API_URL,
-          hasToken: !!session?.access_token,
-        });
-        
-        return {
-          'Content-Type': 'application/json',
-          ...(session?.access_token && {
-            Authorization: `Bearer ${session.access_token}`,
-          }),
-        };
-      },
-      fetch(url, options) {
-        console.log('🔵 [tRPC Client] Sending request:', {
-          url: url.toString(),
-          method: options?.method,
-          hasAuth: options?.headers ? 'Authorization' in (options.headers as any) : false,
-        });
-        
-        return fetch(url, options).then(
-          (response) => {
-            console.log('✅ [tRPC Client] Response received:', {
-              status: response.status,
-              ok: response.ok,
-            });
-            return response;
-          },
-          (error) => {
-            console.error('❌ [tRPC Client] Fetch error:', {
-              message: error.message,
-              url: url.toString(),
-            });
-            throw error;
-          }
-        );
-      },
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      // React Native has no EventSource; the polyfill also lets us send the auth header
+      true: httpSubscriptionLink({
+        url: API_URL,
+        transformer: superjson,
+        EventSource: EventSourcePolyfill,
+        // Called on every (re)connect, so a refreshed token is picked up
+        eventSourceOptions: async () => ({
+          headers: await getAuthHeaders(),
+        }),
+      }),
+      false: httpBatchLink({
+        url: API_URL,
+        transformer: superjson,
+        async headers() {
+          // Get the current session token
+          const { data: { session } } = await supabase.auth.getSession();
+      
+          console.log('🔵 [tRPC Client] Preparing request:', {
+            url: API_URL,
+            hasToken: !!session?.access_token,
+          });
+      
+          return {
+            'Content-Type': 'application/json',
+            ...(session?.access_token && {
+              Authorization: `Bearer ${session.access_token}`,
+            }),
+          };
+        },
+        fetch(url, options) {
+          console.log('🔵 [tRPC Client] Sending request:', {
+            url: url.toString(),
+            method: options?.method,
+            hasAuth: new Headers(options?.headers).has('Authorization'),
+          });
+      
+          return fetch(url, options).then(
+            (response) => {
+              console.log('✅ [tRPC Client] Response received:', {
+                status: response.status,
+                ok: response.ok,
+              });
+              return response;
+            },
+            (error) => {
+              console.error('❌ [tRPC Client] Fetch error:', {
+                message: error.message,
+                url: url.toString(),
+              });
+              throw error;
+            }
+          );
+        },
+      }),
     }),
   ],
 });
 
 export type { AppRouter };
+
+// Procedure results, e.g. RouterOutputs['events']['getEventRoster']
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
@@ -14,6 +14,7 @@ import { WorkoutExecutionScreen } from './WorkoutExecutionScreen';
 import { AthleteScheduleScreen } from './AthleteScheduleScreen';
 import { OfflineIndicator } from '../../components/ui/OfflineIndicator';
 import { trpc } from '../../lib/trpc';
+import { AdherenceCard } from '../../components/workout/AdherenceCard';
 
 interface AthleteStats {
   totalWorkouts: number;
@@ -47,6 +48,7 @@ export function AthleteHomeScreen() {
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [adherenceRefreshKey, setAdherenceRefreshKey] = useState(0);
   
   // Responsive design
   const isSmallScreen = width < 380;
@@ -104,6 +106,7 @@ export function AthleteHomeScreen() {
   // Handle refresh
   const onRefresh = () => {
     fetchDashboardData(true);
+    setAdherenceRefreshKey((key) => key + 1);
   };
 
   const handleTabPress = (tab: string) => {
@@ -386,6 +389,15 @@ export function AthleteHomeScreen() {
           </View>
         </View>
 
+        {/* Workout Adherence */}
+        <AdherenceCard
+          refreshKey={adherenceRefreshKey}
+          showDetails={false}
+          fontSize={fontSize}
+          spacing={spacing}
+          cardPadding={cardPadding}
+        />
+
         {/* Current Trainer Card */}
         {stats.currentTrainer && (
           <View style={{
@@ -3,7 +3,9 @@ import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, RefreshC
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
 import { trpc } from '../../lib/trpc';
+import { getErrorMessage } from '../../i18n/errors';
 import { useStableTextInput } from '../../hooks/useStableTextInput';
+import { AchievementsCard } from '../../components/athlete/AchievementsCard';
 
 // Stable EditField component using uncontrolled inputs to prevent keyboard dismissal
 const StableEditField = React.memo(({ 
@@ -177,6 +179,7 @@ export function AthleteProfileScreen({ onBack }: { onBack: () => void }) {
   const [trainerInfo, setTrainerInfo] = useState<TrainerInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [achievementsRefreshKey, setAchievementsRefreshKey] = useState(0);
   
   // Edit profile state
   const [isEditing, setIsEditing] = useState(false);
@@ -244,7 +247,7 @@ export function AthleteProfileScreen({ onBack }: { onBack: () => void }) {
 
     } catch (error: any) {
       console.error('❌ Error fetching profile:', error);
-      Alert.alert('Error', error.message || 'Failed to load profile. Please try again.');
+      Alert.alert('Error', getErrorMessage(error, 'Failed to load profile. Please try again.'));
     } finally {
       setIsLoading(false);
       setIsRefreshing(false);
@@ -258,6 +261,7 @@ export function AthleteProfileScreen({ onBack }: { onBack: () => void }) {
   // Handle refresh
   const onRefresh = () => {
     fetchProfile(true);
+    setAchievementsRefreshKey((key) => key + 1);
   };
 
   // Simple form handlers
@@ -374,7 +378,7 @@ export function AthleteProfileScreen({ onBack }: { onBack: () => void }) {
       Alert.alert('Success', 'Profile updated successfully!');
     } catch (error: any) {
       console.error('Error updating profile:', error);
-      Alert.alert('Error', error.message || 'Failed to update profile. Please try again.');
+      Alert.alert('Error', getErrorMessage(error, 'Failed to update profile. Please try again.'));
     } finally {
       setIsUpdating(false);
     }
@@ -909,6 +913,14 @@ export function AthleteProfileScreen({ onBack }: { onBack: () => void }) {
             </View>
           )}
 
+          {/* Achievements */}
+          <AchievementsCard
+            refreshKey={achievementsRefreshKey}
+            fontSize={fontSize}
+            spacing={spacing}
+            cardPadding={cardPadding}
+          />
+
           {/* Quick Actions */}
           <View style={{
             backgroundColor: 'white',
@@ -3,6 +3,10 @@ import { View, Text, Pressable, useWindowDimensions, ScrollView, RefreshControl
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
 import { trpc } from '../../lib/trpc';
+import { offlineStore } from '../../lib/sync-engine';
+import { useSync } from '../../contexts/SyncContext';
+import { formatRating, getRatingColor } from '../../lib/ratings';
+import type { TestResultRating } from '@jejakathlete/shared';
 import { VictoryChart, VictoryLine, VictoryAxis, VictoryScatter } from 'victory-native';
 import { AthleteBodyMetricsStats } from '../../components/athlete/AthleteBodyMetricsStats';
 
@@ -57,6 +61,7 @@ type TimePeriod = '7d' | '30d' | '90d';
 
 export function AthleteProgressScreen() {
   const { user } = useSession();
+  const { syncNow, lastSyncedAt } = useSync();
   const { width } = useWindowDimensions();
   
   // Responsive design
@@ -81,6 +86,7 @@ export function AthleteProgressScreen() {
   });
   const [recentAchievements, setRecentAchievements] = useState<ProgressData[]>([]);
   const [chartData, setChartData] = useState<TestChartData[]>([]);
+  const [ratings, setRatings] = useState<Map<number, TestResultRating>>(new Map());
   const [selectedTimePeriod, setSelectedTimePeriod] = useState<TimePeriod>('30d');
   const [selectedTab, setSelectedTab] = useState<'stats' | 'bodyMetrics'>('stats');
   const [isLoading, setIsLoading] = useState(true);
@@ -99,8 +105,11 @@ export function AthleteProgressScreen() {
     try {
       console.log('🔵 [AthleteProgressScreen] Fetching test results for athlete:', user.id);
       
-      // Fetch all progress data using tRPC
-      const testResults = await trpc.testResults.getMyTestResults.query();
+      // Pull the latest from the server on refresh; reads come from the local store
+      if (showRefreshing) {
+        await syncNow();
+      }
+      const testResults = await offlineStore.getMyTestResults();
       
       console.log('✅ [AthleteProgressScreen] Received', testResults.length, 'test results');
       
@@ -191,6 +200,17 @@ export function AthleteProgressScreen() {
 
       setComponentProgress(componentProgressArray);
 
+      // Rate each component's latest result against the test norms
+      const latestIds = componentProgressArray
+        .map(comp => comp.latestResult?.id)
+        .filter((id): id is number => id !== undefined);
+      try {
+        const resultRatings = await trpc.testResults.getResultRatings.query({ test_result_ids: latestIds });
+        setRatings(new Map(resultRatings.map(r => [r.test_result_id, r])));
+      } catch (ratingError) {
+        console.error('❌ [AthleteProgressScreen] Error fetching test ratings:', ratingError);
+      }
+
       // Calculate overall stats
       const totalPersonalRecords = (allProgress || []).filter(p => p.is_best_record).length;
       const thirtyDaysAgo = new Date();
@@ -271,7 +291,7 @@ export function AthleteProgressScreen() {
 
   useEffect(() => {
     fetchProgressData();
-  }, [user?.id]);
+  }, [user?.id, lastSyncedAt]);
 
   // Handle refresh
   const onRefresh = () => {
@@ -657,9 +677,20 @@ export function AthleteProgressScreen() {
             Latest Result
           </Text>
           {component.latestResult ? (
-            <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
-              {component.latestResult.result_value} {component.latestResult.unit}
-            </Text>
+            <>
+              <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                {component.latestResult.result_value} {component.latestResult.unit}
+              </Text>
+              {ratings.get(component.latestResult.id)?.rating && (
+                <Text style={{
+                  fontSize: fontSize - 3,
+                  fontWeight: '600',
+                  color: getRatingColor(ratings.get(component.latestResult.id)!.rating!)
+                }}>
+                  {formatRating(ratings.get(component.latestResult.id)!.rating!)} · P{ratings.get(component.latestResult.id)!.percentile}
+                </Text>
+              )}
+            </>
           ) : (
             <Text style={{ fontSize: fontSize, color: '#9ca3af' }}>No data</Text>
           )}
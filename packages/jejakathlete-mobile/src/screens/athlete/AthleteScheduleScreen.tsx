@@ -17,9 +17,11 @@ import {
   CalendarView,
   EventListView,
   EventTypesLegend,
+  RsvpResponseModal,
   ViewMode,
   Event,
-  EventType
+  EventType,
+  RsvpResponse
 } from '../../components/schedule';
 
 export function AthleteScheduleScreen({ onBack }: { onBack: () => void }) {
@@ -43,6 +45,9 @@ export function AthleteScheduleScreen({ onBack }: { onBack: () => void }) {
   const [viewMode, setViewMode] = useState<ViewMode>('calendar');
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [rsvpEvent, setRsvpEvent] = useState<Event | null>(null);
+  const [rsvpResponse, setRsvpResponse] = useState<RsvpResponse>('confirmed');
+  const [isResponding, setIsResponding] = useState(false);
 
   // Fetch data
   useEffect(() => {
@@ -71,7 +76,7 @@ export function AthleteScheduleScreen({ onBack }: { onBack: () => void }) {
       });
 
       // Transform the data to match the expected format
-      const transformedEvents = scheduleData.map((event: any) => ({
+      const transformedEvents = scheduleData.map((event) => ({
         id: event.id,
         title: event.title,
         description: event.description,
@@ -83,6 +88,11 @@ export function AthleteScheduleScreen({ onBack }: { onBack: () => void }) {
         event_type_color: event.event_type?.color,
         event_type_icon: event.event_type?.icon,
         created_by_name: event.created_by?.full_name,
+        occurrence_start: event.occurrence_start,
+        is_recurring: event.is_recurring,
+        is_public: event.is_public,
+        rsvp_status: event.rsvp_status,
+        rsvp_self_registered: event.rsvp_self_registered,
       }));
       setEvents(transformedEvents);
     } catch (error) {
@@ -124,6 +134,83 @@ export function AthleteScheduleScreen({ onBack }: { onBack: () => void }) {
     Alert.alert('Event Details', event.title);
   };
 
+  const handleRespond = (event: Event, response: RsvpResponse) => {
+    setRsvpResponse(response);
+    setRsvpEvent(event);
+  };
+
+  const submitResponse = async (note: string) => {
+    if (!rsvpEvent) return;
+
+    setIsResponding(true);
+    try {
+      const input = { event_id: rsvpEvent.id, note: note || undefined };
+      if (rsvpResponse === 'confirmed') {
+        await trpc.events.acceptInvitation.mutate(input);
+      } else {
+        await trpc.events.declineInvitation.mutate(input);
+      }
+
+      // Responses apply to the whole series, so update every occurrence
+      setEvents(prev => prev.map(event =>
+        event.id === rsvpEvent.id ? { ...event, rsvp_status: rsvpResponse } : event
+      ));
+      setRsvpEvent(null);
+    } catch (error: any) {
+      console.error('❌ Error responding to invitation:', error);
+      Alert.alert('Error', error?.message || 'Failed to send your response. Please try again.');
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const handleRegister = async (event: Event) => {
+    try {
+      const result = await trpc.events.registerForEvent.mutate({ event_id: event.id });
+
+      if (result.status === 'waitlisted') {
+        Alert.alert(
+          'Added to Waitlist',
+          `${event.title} is full. You are number ${result.waitlist_position ?? '-'} on the waitlist and will be registered automatically if a spot opens up.`
+        );
+      } else if (result.status === 'pending') {
+        Alert.alert('Request Sent', 'The organiser will review your registration.');
+      } else {
+        Alert.alert('Registered', `You are registered for ${event.title}.`);
+      }
+
+      fetchEvents(true);
+    } catch (error: any) {
+      console.error('❌ Error registering for event:', error);
+      Alert.alert('Error', error?.message || 'Failed to register for event. Please try again.');
+    }
+  };
+
+  const handleWithdraw = (event: Event) => {
+    Alert.alert(
+      'Leave Event',
+      event.rsvp_status === 'waitlisted'
+        ? `Leave the waitlist for ${event.title}?`
+        : `Withdraw from ${event.title}? Your spot may go to someone on the waitlist.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await trpc.events.withdrawFromEvent.mutate({ event_id: event.id });
+              fetchEvents(true);
+            } catch (error: any) {
+              console.error('❌ Error withdrawing from event:', error);
+              Alert.alert('Error', error?.message || 'Failed to withdraw from event. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Bottom nav height calculation
   const bottomNavHeight = (isSmallScreen ? 70 : isTablet ? 90 : 80) + 32; // nav height + buffer
 
@@ -195,6 +282,9 @@ export function AthleteScheduleScreen({ onBack }: { onBack: () => void }) {
             spacing={spacing}
             cardPadding={cardPadding}
             onEventPress={handleEventPress}
+            onRespond={handleRespond}
+            onRegister={handleRegister}
+            onWithdraw={handleWithdraw}
           />
 
           {/* Event Types Legend */}
@@ -207,6 +297,18 @@ export function AthleteScheduleScreen({ onBack }: { onBack: () => void }) {
 
         </View>
       </ScrollView>
+
+      {/* RSVP Note Modal */}
+      <RsvpResponseModal
+        visible={rsvpEvent !== null}
+        event={rsvpEvent}
+        response={rsvpResponse}
+        isSubmitting={isResponding}
+        onSubmit={submitResponse}
+        onClose={() => setRsvpEvent(null)}
+        fontSize={fontSize}
+        spacing={spacing}
+      />
     </View>
   );
 }
@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, RefreshControl } from 'react-native';
 import { useSession } from '../../contexts/AuthContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { LANGUAGES } from '../../i18n';
 import { Feather } from '@expo/vector-icons';
 import { AthleteProfileScreen } from './AthleteProfileScreen';
+import { GoalsScreen } from './GoalsScreen';
 import { tursoDbHelpers } from '../../lib/turso-database';
 import { ChangelogModal } from '../../components/ui/ChangelogModal';
 import { PrivacyPolicyModal } from '../../components/ui/PrivacyPolicyModal';
 import { PrivacySecurityScreen } from '../shared/PrivacySecurityScreen';
 import { TermsOfServiceScreen } from '../shared/TermsOfServiceScreen';
+import { CalendarSubscriptionScreen } from '../shared/CalendarSubscriptionScreen';
+import { NotificationPreferencesScreen } from '../shared/NotificationPreferencesScreen';
 import { formatTimeAgoShort } from '../../lib/date-utils';
 
 interface Notification {
@@ -23,6 +28,7 @@ interface Notification {
 
 export function AthleteSettingsScreen() {
   const { user, logout } = useSession();
+  const { t, language, setLanguage } = useTranslation();
   const { width } = useWindowDimensions();
   const [showProfile, setShowProfile] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
@@ -30,6 +36,9 @@ export function AthleteSettingsScreen() {
   const [showPrivacyPolicy, setShowPrivacyPolicy] = useState(false);
   const [showPrivacySecurity, setShowPrivacySecurity] = useState(false);
   const [showTermsOfService, setShowTermsOfService] = useState(false);
+  const [showCalendarSubscription, setShowCalendarSubscription] = useState(false);
+  const [showNotificationPreferences, setShowNotificationPreferences] = useState(false);
+  const [showGoals, setShowGoals] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -113,10 +122,10 @@ export function AthleteSettingsScreen() {
       // Update local state
       setNotifications(prev => prev.map(n => ({ ...n, is_read: true, read_at: new Date().toISOString() })));
       setUnreadCount(0);
-      Alert.alert('Success', 'All notifications marked as read');
+      Alert.alert(t('common.success'), t('notifications.allMarkedRead'));
     } catch (error) {
       console.error('❌ Error marking all notifications as read:', error);
-      Alert.alert('Error', 'Failed to mark notifications as read');
+      Alert.alert(t('common.error'), t('notifications.markReadFailed'));
     }
   };
 
@@ -154,21 +163,21 @@ export function AthleteSettingsScreen() {
 
   const handleSignOut = () => {
     Alert.alert(
-      'Sign Out',
-      'Are you sure you want to sign out?',
+      t('settings.signOut'),
+      t('settings.signOutConfirm'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Sign Out',
+          text: t('settings.signOut'),
           style: 'destructive',
           onPress: async () => {
             try {
               await logout();
             } catch (error) {
-              Alert.alert('Error', 'Failed to sign out. Please try again.');
+              Alert.alert(t('common.error'), t('settings.signOutFailed'));
             }
           },
         },
@@ -176,6 +185,23 @@ export function AthleteSettingsScreen() {
     );
   };
 
+  const handleChangeLanguage = () => {
+    Alert.alert(
+      t('language.title'),
+      t('language.choose'),
+      [
+        ...LANGUAGES.map((option) => ({
+          text: option.name,
+          onPress: () => setLanguage(option.code),
+        })),
+        {
+          text: t('common.cancel'),
+          style: 'cancel' as const,
+        },
+      ]
+    );
+  };
+
 
 
   const SettingItem = ({ 
@@ -389,7 +415,7 @@ export function AthleteSettingsScreen() {
                 fontWeight: 'bold',
                 color: '#1f2937'
               }}>
-                Notifications
+                {t('notifications.title')}
               </Text>
               {unreadCount > 0 && (
                 <Text style={{
@@ -397,7 +423,7 @@ export function AthleteSettingsScreen() {
                   color: '#3b82f6',
                   marginTop: 2
                 }}>
-                  {unreadCount} unread
+                  {t('notifications.unread', { count: unreadCount })}
                 </Text>
               )}
             </View>
@@ -417,7 +443,7 @@ export function AthleteSettingsScreen() {
                   color: 'white',
                   fontWeight: '600'
                 }}>
-                  Mark All Read
+                  {t('notifications.markAllRead')}
                 </Text>
               </Pressable>
             )}
@@ -458,7 +484,7 @@ export function AthleteSettingsScreen() {
               marginBottom: 8,
               textAlign: 'center'
             }}>
-              No Notifications
+              {t('notifications.empty')}
             </Text>
             
             <Text style={{
@@ -468,7 +494,7 @@ export function AthleteSettingsScreen() {
               lineHeight: 22,
               maxWidth: 280
             }}>
-              You don't have any notifications yet. We'll notify you about important updates!
+              {t('notifications.emptyMessage')}
             </Text>
           </View>
         )}
@@ -496,6 +522,21 @@ export function AthleteSettingsScreen() {
     return <TermsOfServiceScreen onBack={() => setShowTermsOfService(false)} />;
   }
 
+  // Show CalendarSubscriptionScreen if requested
+  if (showCalendarSubscription) {
+    return <CalendarSubscriptionScreen onBack={() => setShowCalendarSubscription(false)} />;
+  }
+
+  // Show NotificationPreferencesScreen if requested
+  if (showNotificationPreferences) {
+    return <NotificationPreferencesScreen onBack={() => setShowNotificationPreferences(false)} />;
+  }
+
+  // Show GoalsScreen if requested
+  if (showGoals) {
+    return <GoalsScreen onBack={() => setShowGoals(false)} />;
+  }
+
   return (
     <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
       <ScrollView
@@ -523,10 +564,10 @@ export function AthleteSettingsScreen() {
                   color: '#1f2937',
                   marginBottom: 4
                 }}>
-                  Settings
+                  {t('settings.title')}
                 </Text>
                 <Text style={{ color: '#6b7280', fontSize: fontSize - 2 }}>
-                  Manage your account and app preferences
+                  {t('settings.subtitle')}
                 </Text>
               </View>
               
@@ -544,7 +585,7 @@ export function AthleteSettingsScreen() {
           </View>
 
           {/* Account Section */}
-          <SectionHeader title="Account" />
+          <SectionHeader title={t('settings.sections.account')} />
           <View style={{
             backgroundColor: 'white',
             borderRadius: 12,
@@ -553,14 +594,14 @@ export function AthleteSettingsScreen() {
           }}>
             <SettingItem
               icon="user"
-              title="Profile"
+              title={t('settings.profile')}
               subtitle={`${user?.full_name} • ${user?.email}`}
               onPress={() => setShowProfile(true)}
             />
           </View>
 
           {/* Training Section */}
-          <SectionHeader title="Training" />
+          <SectionHeader title={t('settings.sections.training')} />
           <View style={{
             backgroundColor: 'white',
             borderRadius: 12,
@@ -569,32 +610,32 @@ export function AthleteSettingsScreen() {
           }}>
             <SettingItem
               icon="target"
-              title="Goals & Targets"
-              subtitle="Set and track your fitness goals"
-              onPress={() => Alert.alert('Goals', 'Goals & targets coming soon!')}
+              title={t('settings.goals')}
+              subtitle={t('settings.goalsSubtitle')}
+              onPress={() => setShowGoals(true)}
             />
             <SettingItem
               icon="activity"
-              title="Workout Preferences"
-              subtitle="Customize your workout experience"
-              onPress={() => Alert.alert('Workouts', 'Workout preferences coming soon!')}
+              title={t('settings.workoutPreferences')}
+              subtitle={t('settings.workoutPreferencesSubtitle')}
+              onPress={() => Alert.alert(t('settings.workoutPreferences'), t('common.comingSoon', { feature: t('settings.workoutPreferences') }))}
             />
             <SettingItem
               icon="calendar"
-              title="Training Schedule"
-              subtitle="Manage your training schedule"
-              onPress={() => Alert.alert('Schedule', 'Training schedule coming soon!')}
+              title={t('settings.trainingSchedule')}
+              subtitle={t('settings.trainingScheduleSubtitle')}
+              onPress={() => Alert.alert(t('settings.trainingSchedule'), t('common.comingSoon', { feature: t('settings.trainingSchedule') }))}
             />
             <SettingItem
               icon="award"
-              title="Achievements"
-              subtitle="View your fitness achievements"
-              onPress={() => Alert.alert('Achievements', 'Achievements coming soon!')}
+              title={t('settings.achievements')}
+              subtitle={t('settings.achievementsSubtitle')}
+              onPress={() => setShowProfile(true)}
             />
           </View>
 
           {/* Preferences Section */}
-          <SectionHeader title="Preferences" />
+          <SectionHeader title={t('settings.sections.preferences')} />
           <View style={{
             backgroundColor: 'white',
             borderRadius: 12,
@@ -603,14 +644,26 @@ export function AthleteSettingsScreen() {
           }}>
             <SettingItem
               icon="globe"
-              title="Language"
-              subtitle="English (US)"
-              onPress={() => Alert.alert('Language', 'Language settings coming soon!')}
+              title={t('language.title')}
+              subtitle={LANGUAGES.find((option) => option.code === language)?.name}
+              onPress={handleChangeLanguage}
+            />
+            <SettingItem
+              icon="calendar"
+              title={t('settings.calendarSubscription')}
+              subtitle={t('settings.calendarSubscriptionSubtitle')}
+              onPress={() => setShowCalendarSubscription(true)}
+            />
+            <SettingItem
+              icon="bell"
+              title={t('settings.notifications')}
+              subtitle={t('settings.notificationsSubtitle')}
+              onPress={() => setShowNotificationPreferences(true)}
             />
           </View>
 
           {/* Data & Progress Section */}
-          <SectionHeader title="Data & Progress" />
+          <SectionHeader title={t('settings.sections.dataProgress')} />
           
           <View style={{
             backgroundColor: 'white',
@@ -620,20 +673,20 @@ export function AthleteSettingsScreen() {
           }}>
             <SettingItem
               icon="heart"
-              title="Health Integration"
-              subtitle="Connect with health apps"
-              onPress={() => Alert.alert('Health', 'Health integration coming soon!')}
+              title={t('settings.healthIntegration')}
+              subtitle={t('settings.healthIntegrationSubtitle')}
+              onPress={() => Alert.alert(t('settings.healthIntegration'), t('common.comingSoon', { feature: t('settings.healthIntegration') }))}
             />
             <SettingItem
               icon="watch"
-              title="Wearable Devices"
-              subtitle="Connect fitness trackers"
-              onPress={() => Alert.alert('Wearables', 'Wearable integration coming soon!')}
+              title={t('settings.wearables')}
+              subtitle={t('settings.wearablesSubtitle')}
+              onPress={() => Alert.alert(t('settings.wearables'), t('common.comingSoon', { feature: t('settings.wearables') }))}
             />
           </View>
 
           {/* Support Section */}
-          <SectionHeader title="Support" />
+          <SectionHeader title={t('settings.sections.support')} />
           <View style={{
             backgroundColor: 'white',
             borderRadius: 12,
@@ -642,38 +695,38 @@ export function AthleteSettingsScreen() {
           }}>
             <SettingItem
               icon="help-circle"
-              title="Help & Support"
-              subtitle="Get help and contact support"
-              onPress={() => Alert.alert('Support', 'Help & support coming soon!')}
+              title={t('settings.helpSupport')}
+              subtitle={t('settings.helpSupportSubtitle')}
+              onPress={() => Alert.alert(t('settings.helpSupport'), t('common.comingSoon', { feature: t('settings.helpSupport') }))}
             />
             <SettingItem
               icon="message-circle"
-              title="Feedback"
-              subtitle="Share your feedback with us"
-              onPress={() => Alert.alert('Feedback', 'Feedback form coming soon!')}
+              title={t('settings.feedback')}
+              subtitle={t('settings.feedbackSubtitle')}
+              onPress={() => Alert.alert(t('settings.feedback'), t('common.comingSoon', { feature: t('settings.feedback') }))}
             />
             <SettingItem
               icon="star"
-              title="Rate App"
-              subtitle="Help us improve by rating the app"
-              onPress={() => Alert.alert('Rate', 'Rate app coming soon!')}
+              title={t('settings.rateApp')}
+              subtitle={t('settings.rateAppSubtitle')}
+              onPress={() => Alert.alert(t('settings.rateApp'), t('common.comingSoon', { feature: t('settings.rateApp') }))}
             />
             <SettingItem
               icon="info"
-              title="App Version"
+              title={t('settings.appVersion')}
               subtitle="1.3.11"
               onPress={() => setShowChangelog(true)}
             />
             <SettingItem
               icon="file-text"
-              title="Terms of Service"
-              subtitle="Read our terms and conditions"
+              title={t('settings.termsOfService')}
+              subtitle={t('settings.termsOfServiceSubtitle')}
               onPress={() => setShowTermsOfService(true)}
             />
             <SettingItem
               icon="shield-check"
-              title="Privacy Policy"
-              subtitle="Learn how we protect your data"
+              title={t('settings.privacyPolicy')}
+              subtitle={t('settings.privacyPolicySubtitle')}
               onPress={() => setShowPrivacyPolicy(true)}
             />
           </View>
@@ -699,7 +752,7 @@ export function AthleteSettingsScreen() {
               color: '#dc2626',
               marginLeft: 12
             }}>
-              Sign Out
+              {t('settings.signOut')}
             </Text>
           </Pressable>
 
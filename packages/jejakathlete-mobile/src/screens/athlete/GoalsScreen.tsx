@@ -0,0 +1,79 @@
+import React from 'react';
+import { View, Text, Pressable, useWindowDimensions, ScrollView } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { GoalsPanel } from '../../components/athlete/GoalsPanel';
+
+interface GoalsScreenProps {
+  onBack: () => void;
+}
+
+/**
+ * The athlete's goals, including those their trainers set for them
+ */
+export function GoalsScreen({ onBack }: GoalsScreenProps) {
+  const { width } = useWindowDimensions();
+
+  // Responsive design
+  const isSmallScreen = width < 380;
+  const isTablet = width > 600;
+  const containerPadding = isSmallScreen ? 16 : isTablet ? 32 : 24;
+  const titleFontSize = isSmallScreen ? 20 : isTablet ? 28 : 24;
+  const fontSize = isSmallScreen ? 14 : 16;
+  const spacing = isSmallScreen ? 12 : isTablet ? 20 : 16;
+  const cardPadding = isSmallScreen ? 16 : isTablet ? 24 : 20;
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{
+          paddingBottom: containerPadding + 100
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={{
+          backgroundColor: 'white',
+          padding: containerPadding,
+          borderBottomWidth: 1,
+          borderBottomColor: '#f3f4f6',
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Pressable
+              onPress={onBack}
+              style={{
+                padding: 8,
+                borderRadius: 8,
+                backgroundColor: '#f3f4f6',
+                marginRight: 12
+              }}
+            >
+              <Feather name="arrow-left" size={20} color="#6b7280" />
+            </Pressable>
+
+            <View style={{ flex: 1 }}>
+              <Text style={{
+                fontSize: titleFontSize,
+                fontWeight: 'bold',
+                color: '#1f2937'
+              }}>
+                Goals & Targets
+              </Text>
+              <Text style={{
+                fontSize: fontSize - 2,
+                color: '#6b7280',
+                marginTop: 2
+              }}>
+                Track progress towards your targets
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={{ padding: containerPadding }}>
+          <GoalsPanel fontSize={fontSize} spacing={spacing} cardPadding={cardPadding} />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
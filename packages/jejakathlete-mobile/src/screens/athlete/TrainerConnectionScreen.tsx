@@ -5,6 +5,7 @@ import { Feather } from '@expo/vector-icons';
 import { Input } from '../../components/ui/Input';
 import { Button } from '../../components/ui/Button';
 import { trpc } from '../../lib/trpc';
+import { getErrorMessage } from '../../i18n/errors';
 import { useKeyboardAware } from '../../hooks/useKeyboardAware';
 
 interface TrainerInfo {
@@ -213,9 +214,10 @@ export function TrainerConnectionScreen({ onBack }: { onBack: () => void }) {
       console.error('❌ Error processing enrollment request:', error);
       
       // Handle specific error messages from tRPC
-      const errorMessage = error?.message || 'Failed to process enrollment request. Please try again.';
+      const serverMessage: string = error?.message || '';
+      const errorMessage = getErrorMessage(error, 'Failed to process enrollment request. Please try again.');
       
-      if (errorMessage.includes('already enrolled') || errorMessage.includes('pending enrollment')) {
+      if (serverMessage.includes('already enrolled') || serverMessage.includes('pending enrollment')) {
         Alert.alert('Cannot Send Request', errorMessage);
       } else {
         Alert.alert('Error', errorMessage);
@@ -2,11 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, ScrollView, Pressable, useWindowDimensions, Alert } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { useSession } from '../../contexts/AuthContext';
-import { 
-  getWorkoutTemplateById, 
-  updateWorkoutAssignmentStatus
-} from '../../lib/api';
-import { tursoDbHelpers } from '../../lib/turso-database';
+import { offlineStore } from '../../lib/sync-engine';
+import { useSync } from '../../contexts/SyncContext';
 import { useToast } from '../../contexts/ToastContext';
 
 interface WorkoutExercise {
@@ -53,6 +50,7 @@ export function WorkoutDetailScreen({
 }: WorkoutDetailScreenProps) {
   const { user } = useSession();
   const { showSuccess, showError } = useToast();
+  const { syncNow } = useSync();
   const { width } = useWindowDimensions();
   
   // State
@@ -81,15 +79,8 @@ export function WorkoutDetailScreen({
     setIsLoading(true);
 
     try {
-      // Get assignment details
-      const assignmentData = await tursoDbHelpers.get(`
-        SELECT 
-          wa.*,
-          u.full_name as trainer_name
-        FROM workout_assignments wa
-        JOIN users u ON wa.trainer_id = u.id
-        WHERE wa.id = ? AND wa.athlete_id = ?
-      `, [workoutAssignmentId, user.id]);
+      // Get assignment details from the local store
+      const assignmentData = await offlineStore.getWorkout(workoutAssignmentId);
 
       if (!assignmentData) {
         Alert.alert('Error', 'Workout not found');
@@ -98,17 +89,23 @@ export function WorkoutDetailScreen({
       }
 
       setAssignment(assignmentData);
-      setTrainerName(assignmentData.trainer_name);
+      setTrainerName(assignmentData.trainer?.full_name || '');
 
-      // Get workout template with exercises
-      const workoutData = await getWorkoutTemplateById(assignmentData.workout_template_id);
-
-      if (!workoutData) {
+      if (!assignmentData.workout_template) {
         Alert.alert('Error', 'Workout template not found');
         onBack();
         return;
       }
 
+      const workoutData: WorkoutTemplate = {
+        ...assignmentData.workout_template,
+        exercises: (assignmentData.workout_template.exercises || []).map((exercise: any) => ({
+          ...exercise,
+          exercise_name: exercise.exercise?.name || '',
+          muscle_group: exercise.exercise?.muscle_group || '',
+        })),
+      };
+
       setWorkout(workoutData);
     } catch (error) {
       console.error('❌ Error fetching workout details:', error);
@@ -138,21 +135,13 @@ export function WorkoutDetailScreen({
           onPress: async () => {
             setIsSkipping(true);
             try {
-              const result = await updateWorkoutAssignmentStatus(
-                workoutAssignmentId,
-                'skipped',
-                user?.id
-              );
+              await offlineStore.skipWorkout(workoutAssignmentId);
+              syncNow();
 
-              if (result.success) {
-                showSuccess('Workout marked as skipped');
-                Alert.alert('Success', 'Workout marked as skipped', [
-                  { text: 'OK', onPress: onBack }
-                ]);
-              } else {
-                showError(result.message);
-                Alert.alert('Error', result.message);
-              }
+              showSuccess('Workout marked as skipped');
+              Alert.alert('Success', 'Workout marked as skipped', [
+                { text: 'OK', onPress: onBack }
+              ]);
             } catch (error) {
               console.error('❌ Error skipping workout:', error);
               showError('Failed to skip workout');
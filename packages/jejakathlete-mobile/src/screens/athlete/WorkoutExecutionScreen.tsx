@@ -2,16 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, ScrollView, Pressable, useWindowDimensions, Alert } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { useSession } from '../../contexts/AuthContext';
-import { 
-  getWorkoutTemplateById,
-  getSessionProgress,
-  createSessionProgress,
-  completeWorkoutSession,
-  updateWorkoutAssignmentStatus
-} from '../../lib/api';
-import { tursoDbHelpers } from '../../lib/turso-database';
+import { offlineStore } from '../../lib/sync-engine';
 import { RestTimer } from '../../components/workout/RestTimer';
 import { useToast } from '../../contexts/ToastContext';
+import { useSync } from '../../contexts/SyncContext';
 
 interface WorkoutExercise {
   id: number;
@@ -63,6 +57,7 @@ export function WorkoutExecutionScreen({
 }: WorkoutExecutionScreenProps) {
   const { user } = useSession();
   const { showSuccess, showError } = useToast();
+  const { syncNow } = useSync();
   const { width } = useWindowDimensions();
   
   // State
@@ -131,11 +126,8 @@ export function WorkoutExecutionScreen({
     setIsLoading(true);
 
     try {
-      // Get assignment
-      const assignmentData = await tursoDbHelpers.get(`
-        SELECT * FROM workout_assignments
-        WHERE id = ? AND athlete_id = ?
-      `, [workoutAssignmentId, user.id]);
+      // Get assignment with its workout from the local store
+      const assignmentData = await offlineStore.getWorkout(workoutAssignmentId);
 
       if (!assignmentData) {
         Alert.alert('Error', 'Workout not found');
@@ -145,20 +137,26 @@ export function WorkoutExecutionScreen({
 
       setAssignment(assignmentData);
 
-      // Get workout template with exercises
-      const workoutData = await getWorkoutTemplateById(assignmentData.workout_template_id);
-
-      if (!workoutData || !workoutData.exercises) {
+      if (!assignmentData.workout_template?.exercises) {
         Alert.alert('Error', 'Workout template not found');
         onBack();
         return;
       }
 
+      const workoutData: WorkoutTemplate = {
+        ...assignmentData.workout_template,
+        exercises: assignmentData.workout_template.exercises.map((exercise: any) => ({
+          ...exercise,
+          exercise_name: exercise.exercise?.name || '',
+          muscle_group: exercise.exercise?.muscle_group || '',
+        })),
+      };
+
       setWorkout(workoutData);
       setExercises(workoutData.exercises);
 
       // Get existing progress
-      const progressData = await getSessionProgress(workoutAssignmentId, user.id);
+      const progressData = await offlineStore.getSessionProgress(workoutAssignmentId);
       
       const progressMap = new Map<string, boolean>();
       progressData.forEach((p: any) => {
@@ -201,19 +199,14 @@ export function WorkoutExecutionScreen({
     if (!currentExercise || !user?.id) return;
     
     try {
-      // Save progress
-      const result = await createSessionProgress({
-        workout_assignment_id: workoutAssignmentId,
+      // Save progress locally; it syncs when online
+      await offlineStore.updateProgress({
+        assignment_id: workoutAssignmentId,
         workout_exercise_id: currentExercise.id,
         set_number: currentSet,
         completed: true,
-        athlete_id: user.id
       });
-
-      if (!result.success) {
-        Alert.alert('Error', result.message);
-        return;
-      }
+      syncNow();
 
       // Update local progress state
       const key = `${currentExercise.id}-${currentSet}`;
@@ -296,17 +289,13 @@ export function WorkoutExecutionScreen({
           onPress: async () => {
             setIsCompleting(true);
             try {
-              const result = await completeWorkoutSession(workoutAssignmentId, user.id);
-
-              if (result.success) {
-                showSuccess('🎉 Workout completed! Great job!');
-                Alert.alert('Success', 'Workout completed!', [
-                  { text: 'OK', onPress: onComplete }
-                ]);
-              } else {
-                showError(result.message);
-                Alert.alert('Error', result.message);
-              }
+              await offlineStore.finishWorkout(workoutAssignmentId);
+              syncNow();
+
+              showSuccess('🎉 Workout completed! Great job!');
+              Alert.alert('Success', 'Workout completed!', [
+                { text: 'OK', onPress: onComplete }
+              ]);
             } catch (error) {
               console.error('❌ Error finishing workout:', error);
               showError('Failed to complete workout');
@@ -3,6 +3,7 @@ import { View, Text, Pressable, useWindowDimensions, ScrollView, RefreshControl
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
 import { tursoDbHelpers } from '../../lib/turso-database';
+import { AdherenceCard } from '../../components/workout/AdherenceCard';
 
 interface TestResult {
   id: number;
@@ -45,6 +46,7 @@ export function WorkoutHistoryScreen() {
   const [selectedComponent, setSelectedComponent] = useState<FitnessComponent | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [adherenceRefreshKey, setAdherenceRefreshKey] = useState(0);
 
   // Fetch test results and components
   const fetchData = async (showRefreshing = false) => {
@@ -115,6 +117,7 @@ export function WorkoutHistoryScreen() {
   // Handle refresh
   const onRefresh = () => {
     fetchData(true);
+    setAdherenceRefreshKey((key) => key + 1);
   };
 
   // Filter results by selected component
@@ -386,6 +389,14 @@ export function WorkoutHistoryScreen() {
             </View>
           </View>
 
+          {/* Workout Adherence */}
+          <AdherenceCard
+            refreshKey={adherenceRefreshKey}
+            fontSize={fontSize}
+            spacing={spacing}
+            cardPadding={cardPadding}
+          />
+
           {isLoading ? (
             /* Loading State */
             <View style={{
@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, ScrollView, RefreshControl, Pressable, useWindowDimensions } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { useSession } from '../../contexts/AuthContext';
-import { trpc } from '../../lib/trpc';
+import { useSync } from '../../contexts/SyncContext';
+import { offlineStore } from '../../lib/sync-engine';
 import { TabView } from '../../components/ui/TabView';
 
 interface WorkoutAssignment {
@@ -25,6 +26,7 @@ interface WorkoutListScreenProps {
 
 export function WorkoutListScreen({ onWorkoutPress }: WorkoutListScreenProps) {
   const { user } = useSession();
+  const { syncNow, lastSyncedAt } = useSync();
   const { width } = useWindowDimensions();
   
   // State
@@ -58,8 +60,11 @@ export function WorkoutListScreen({ onWorkoutPress }: WorkoutListScreenProps) {
     try {
       console.log('🔵 [WorkoutListScreen] Fetching workouts for tab:', activeTab);
 
-      // Fetch all workouts using tRPC
-      const allWorkouts = await trpc.workouts.getMyWorkouts.query();
+      // Pull the latest from the server on refresh; reads come from the local store
+      if (showRefreshing) {
+        await syncNow();
+      }
+      const allWorkouts = await offlineStore.getMyWorkouts();
 
       console.log('✅ [WorkoutListScreen] Received workouts:', allWorkouts.length);
 
@@ -115,7 +120,7 @@ export function WorkoutListScreen({ onWorkoutPress }: WorkoutListScreenProps) {
 
   useEffect(() => {
     fetchWorkouts();
-  }, [user?.id, activeTab]);
+  }, [user?.id, activeTab, lastSyncedAt]);
 
   // Handle refresh
   const onRefresh = () => {
@@ -8,3 +8,4 @@ export { WorkoutListScreen } from './WorkoutListScreen';
 export { WorkoutDetailScreen } from './WorkoutDetailScreen';
 export { WorkoutExecutionScreen } from './WorkoutExecutionScreen';
 export { AthleteScheduleScreen } from './AthleteScheduleScreen';
+export { GoalsScreen } from './GoalsScreen';
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Pressable, useWindowDimensions, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { AccountDeletion } from '@jejakathlete/shared';
+import { useSession } from '../../contexts/AuthContext';
+import { trpc } from '../../lib/trpc';
+
+/**
+ * Shown instead of the app while the account is deactivated for deletion
+ * The user can cancel the deletion until it is due, or sign out.
+ */
+export function AccountDeletionPendingScreen() {
+  const { width } = useWindowDimensions();
+  const { user, logout, refreshUser } = useSession();
+
+  const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cancelling, setCancelling] = useState(false);
+
+  // Responsive design
+  const isSmallScreen = width < 380;
+  const isTablet = width > 600;
+  const containerPadding = isSmallScreen ? 16 : isTablet ? 32 : 24;
+  const titleFontSize = isSmallScreen ? 20 : isTablet ? 28 : 24;
+  const fontSize = isSmallScreen ? 14 : 16;
+  const spacing = isSmallScreen ? 12 : isTablet ? 20 : 16;
+
+  useEffect(() => {
+    const loadDeletion = async () => {
+      try {
+        setDeletion(await trpc.accountDeletion.getMyDeletion.query());
+      } catch (error) {
+        console.error('Error loading account deletion:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDeletion();
+  }, [user?.id]);
+
+  const handleCancelDeletion = async () => {
+    setCancelling(true);
+    try {
+      await trpc.accountDeletion.cancelDeletion.mutate();
+      await refreshUser();
+      Alert.alert('Welcome Back', 'Your account deletion has been cancelled.');
+    } catch (error: any) {
+      console.error('Error cancelling account deletion:', error);
+      Alert.alert('Error', error?.message || 'Failed to cancel account deletion');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const scheduledFor = deletion ? new Date(deletion.scheduled_for) : null;
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
+      <ScrollView
+        contentContainerStyle={{ padding: containerPadding, flexGrow: 1, justifyContent: 'center' }}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={{ maxWidth: isTablet ? 500 : 400, width: '100%', alignSelf: 'center' }}>
+          <View style={{
+            backgroundColor: 'white',
+            borderRadius: 16,
+            padding: spacing + 8,
+            alignItems: 'center',
+          }}>
+            <View style={{
+              width: 64,
+              height: 64,
+              borderRadius: 32,
+              backgroundColor: '#fef2f2',
+              alignItems: 'center',
+              justifyContent: 'center',
+              marginBottom: spacing,
+            }}>
+              <Feather name="user-x" size={28} color="#dc2626" />
+            </View>
+
+            <Text style={{
+              fontSize: titleFontSize,
+              fontWeight: 'bold',
+              color: '#1f2937',
+              textAlign: 'center',
+              marginBottom: 8,
+            }}>
+              Account Scheduled for Deletion
+            </Text>
+
+            {loading ? (
+              <ActivityIndicator size="small" color="#6b7280" style={{ marginVertical: spacing }} />
+            ) : (
+              <Text style={{
+                fontSize: fontSize,
+                color: '#4b5563',
+                textAlign: 'center',
+                lineHeight: fontSize * 1.5,
+                marginBottom: spacing + 4,
+              }}>
+                {scheduledFor
+                  ? `Your account and all of its data will be permanently deleted on ${scheduledFor.toLocaleDateString()}. Until then you can cancel and keep using the app.`
+                  : 'Your account is being deleted and can no longer be restored.'}
+              </Text>
+            )}
+
+            {deletion && (
+              <Pressable
+                onPress={handleCancelDeletion}
+                disabled={cancelling}
+                style={{
+                  backgroundColor: '#10b981',
+                  borderRadius: 8,
+                  paddingVertical: 12,
+                  alignItems: 'center',
+                  alignSelf: 'stretch',
+                  marginBottom: 12,
+                  opacity: cancelling ? 0.6 : 1,
+                }}
+              >
+                {cancelling ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={{ fontSize: fontSize, fontWeight: '600', color: 'white' }}>
+                    Cancel Deletion
+                  </Text>
+                )}
+              </Pressable>
+            )}
+
+            <Pressable
+              onPress={logout}
+              disabled={cancelling}
+              style={{
+                backgroundColor: '#f3f4f6',
+                borderRadius: 8,
+                paddingVertical: 12,
+                alignItems: 'center',
+                alignSelf: 'stretch',
+              }}
+            >
+              <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#374151' }}>
+                Sign Out
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
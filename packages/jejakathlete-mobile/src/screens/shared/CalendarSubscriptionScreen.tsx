@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  useWindowDimensions,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Share,
+  Linking
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useSession } from '../../contexts/AuthContext';
+import { trpc } from '../../lib/trpc';
+
+interface CalendarFeed {
+  url: string;
+  webcal_url: string;
+  timezone: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CalendarSubscriptionScreenProps {
+  onBack: () => void;
+}
+
+/**
+ * Time zone reported by the device, used when the feed is first created
+ */
+function getDeviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+export function CalendarSubscriptionScreen({ onBack }: CalendarSubscriptionScreenProps) {
+  const { width } = useWindowDimensions();
+  const { user } = useSession();
+
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Responsive design
+  const isSmallScreen = width < 380;
+  const isTablet = width > 600;
+  const containerPadding = isSmallScreen ? 16 : isTablet ? 32 : 24;
+  const titleFontSize = isSmallScreen ? 20 : isTablet ? 28 : 24;
+  const fontSize = isSmallScreen ? 14 : 16;
+  const spacing = isSmallScreen ? 12 : isTablet ? 20 : 16;
+
+  useEffect(() => {
+    loadFeed();
+  }, [user?.id]);
+
+  const loadFeed = async () => {
+    setLoading(true);
+    try {
+      const data = await trpc.calendar.getFeed.query();
+      setFeed(data);
+    } catch (error) {
+      console.error('❌ Error loading calendar feed:', error);
+      Alert.alert('Error', 'Failed to load calendar subscription');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createFeed = async () => {
+    setIsSaving(true);
+    try {
+      const data = await trpc.calendar.regenerateFeedToken.mutate({
+        timezone: getDeviceTimeZone(),
+      });
+      setFeed(data);
+    } catch (error) {
+      console.error('❌ Error creating calendar feed:', error);
+      Alert.alert('Error', 'Failed to create calendar subscription');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerate = () => {
+    Alert.alert(
+      'Regenerate Link',
+      'Calendars subscribed with the current link will stop updating. You will need to subscribe again with the new link. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Regenerate',
+          style: 'destructive',
+          onPress: async () => {
+            setIsSaving(true);
+            try {
+              const data = await trpc.calendar.regenerateFeedToken.mutate();
+              setFeed(data);
+              Alert.alert('Success', 'A new calendar link has been created');
+            } catch (error) {
+              console.error('❌ Error regenerating calendar feed:', error);
+              Alert.alert('Error', 'Failed to regenerate calendar link');
+            } finally {
+              setIsSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleUseDeviceTimeZone = async () => {
+    const timezone = getDeviceTimeZone();
+    if (!timezone || !feed || timezone === feed.timezone) return;
+
+    setIsSaving(true);
+    try {
+      const data = await trpc.calendar.updateFeedTimezone.mutate({ timezone });
+      setFeed(data);
+    } catch (error) {
+      console.error('❌ Error updating calendar time zone:', error);
+      Alert.alert('Error', 'Failed to update time zone');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubscribe = async () => {
+    if (!feed) return;
+    try {
+      await Linking.openURL(feed.webcal_url);
+    } catch (error) {
+      console.error('❌ Error opening calendar app:', error);
+      Alert.alert('Calendar', 'Could not open your calendar app. Share the link and add it manually.');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!feed) return;
+    try {
+      await Share.share({ message: feed.url });
+    } catch (error) {
+      console.error('❌ Error sharing calendar link:', error);
+    }
+  };
+
+  const deviceTimeZone = getDeviceTimeZone();
+
+  const ActionButton = ({
+    icon,
+    label,
+    onPress,
+    color = '#3b82f6',
+    filled = false
+  }: {
+    icon: string;
+    label: string;
+    onPress: () => void;
+    color?: string;
+    filled?: boolean;
+  }) => (
+    <Pressable
+      onPress={onPress}
+      disabled={isSaving}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 12,
+        borderRadius: 10,
+        marginTop: 10,
+        backgroundColor: filled ? color : 'white',
+        borderWidth: 1.5,
+        borderColor: color,
+        opacity: isSaving ? 0.6 : 1
+      }}
+    >
+      <Feather name={icon as any} size={18} color={filled ? 'white' : color} style={{ marginRight: 8 }} />
+      <Text style={{ fontSize: fontSize, fontWeight: '600', color: filled ? 'white' : color }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{
+          paddingBottom: containerPadding + 100
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={{
+          backgroundColor: 'white',
+          padding: containerPadding,
+          borderBottomWidth: 1,
+          borderBottomColor: '#f3f4f6',
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Pressable
+              onPress={onBack}
+              style={{
+                padding: 8,
+                borderRadius: 8,
+                backgroundColor: '#f3f4f6',
+                marginRight: 12
+              }}
+            >
+              <Feather name="arrow-left" size={20} color="#6b7280" />
+            </Pressable>
+
+            <View style={{ flex: 1 }}>
+              <Text style={{
+                fontSize: titleFontSize,
+                fontWeight: 'bold',
+                color: '#1f2937'
+              }}>
+                Calendar Subscription
+              </Text>
+              <Text style={{
+                fontSize: fontSize - 2,
+                color: '#6b7280',
+                marginTop: 2
+              }}>
+                See your schedule in Google or Apple Calendar
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={{ padding: containerPadding }}>
+          {loading ? (
+            <View style={{ paddingVertical: 40, alignItems: 'center' }}>
+              <ActivityIndicator size="large" color="#3b82f6" />
+            </View>
+          ) : !feed ? (
+            <View style={{
+              backgroundColor: 'white',
+              borderRadius: 12,
+              padding: spacing + 4,
+              alignItems: 'center'
+            }}>
+              <Feather name="calendar" size={40} color="#3b82f6" style={{ marginBottom: 12 }} />
+              <Text style={{
+                fontSize: fontSize,
+                fontWeight: '600',
+                color: '#1f2937',
+                textAlign: 'center',
+                marginBottom: 6
+              }}>
+                Subscribe to your schedule
+              </Text>
+              <Text style={{
+                fontSize: fontSize - 2,
+                color: '#6b7280',
+                textAlign: 'center',
+                marginBottom: 8
+              }}>
+                Create a private link that keeps your events and workouts in sync with your calendar app.
+              </Text>
+              <View style={{ alignSelf: 'stretch' }}>
+                <ActionButton icon="link" label={isSaving ? 'Creating...' : 'Create Link'} onPress={createFeed} filled />
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={{
+                backgroundColor: 'white',
+                borderRadius: 12,
+                padding: spacing + 4,
+                marginBottom: spacing
+              }}>
+                <Text style={{
+                  fontSize: fontSize - 1,
+                  fontWeight: '600',
+                  color: '#6b7280',
+                  marginBottom: 8
+                }}>
+                  Your private calendar link
+                </Text>
+                <View style={{
+                  backgroundColor: '#f9fafb',
+                  borderRadius: 8,
+                  padding: 12,
+                  borderWidth: 1,
+                  borderColor: '#e5e7eb'
+                }}>
+                  <Text selectable style={{ fontSize: fontSize - 2, color: '#1f2937' }}>
+                    {feed.url}
+                  </Text>
+                </View>
+                <Text style={{
+                  fontSize: fontSize - 3,
+                  color: '#9ca3af',
+                  marginTop: 8
+                }}>
+                  Anyone with this link can see your schedule. Regenerate it if it has been shared by mistake.
+                </Text>
+
+                <ActionButton icon="calendar" label="Add to Calendar" onPress={handleSubscribe} filled />
+                <ActionButton icon="share-2" label="Share Link" onPress={handleShare} />
+              </View>
+
+              <View style={{
+                backgroundColor: 'white',
+                borderRadius: 12,
+                padding: spacing + 4,
+                marginBottom: spacing
+              }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                  <Feather name="globe" size={18} color="#6b7280" style={{ marginRight: 10 }} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                      Time Zone
+                    </Text>
+                    <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>
+                      {feed.timezone}
+                    </Text>
+                  </View>
+                </View>
+                {deviceTimeZone && deviceTimeZone !== feed.timezone && (
+                  <ActionButton
+                    icon="map-pin"
+                    label={`Use ${deviceTimeZone}`}
+                    onPress={handleUseDeviceTimeZone}
+                  />
+                )}
+              </View>
+
+              <View style={{
+                backgroundColor: 'white',
+                borderRadius: 12,
+                padding: spacing + 4
+              }}>
+                <ActionButton
+                  icon="refresh-cw"
+                  label={isSaving ? 'Working...' : 'Regenerate Link'}
+                  onPress={handleRegenerate}
+                  color="#ef4444"
+                />
+              </View>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
@@ -10,14 +10,18 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { Feather } from '@expo/vector-icons';
+import type { NotificationTarget } from '@jejakathlete/shared';
 import { trpc } from '../../lib/trpc';
+import { useRealtimeChanges } from '../../contexts/RealtimeContext';
 import { formatDistanceToNow } from 'date-fns';
 
 interface NotificationCenterScreenProps {
   onBack: () => void;
+  // Open the screen a notification links to
+  onOpenTarget?: (target: NotificationTarget) => void;
 }
 
-export function NotificationCenterScreen({ onBack }: NotificationCenterScreenProps) {
+export function NotificationCenterScreen({ onBack, onOpenTarget }: NotificationCenterScreenProps) {
   const { width } = useWindowDimensions();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -37,10 +41,33 @@ export function NotificationCenterScreen({ onBack }: NotificationCenterScreenPro
     fetchNotifications();
   }, []);
 
-  const fetchNotifications = async (isRefreshAction = false) => {
+  // Apply live changes; refetch quietly if changes may have been missed
+  useRealtimeChanges(
+    ['notification'],
+    (change) => {
+      setNotifications((current) => {
+        const others = current.filter((n: any) => n.id !== change.entity_id);
+
+        if (change.action === 'deleted') {
+          return others;
+        }
+
+        if (!change.notification) {
+          return current;
+        }
+
+        // Keep the newest-first order when a notification is added or updated
+        return [change.notification, ...others]
+          .sort((a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+      });
+    },
+    () => fetchNotifications(false, true)
+  );
+
+  const fetchNotifications = async (isRefreshAction = false, isSilent = false) => {
     if (isRefreshAction) {
       setIsRefreshing(true);
-    } else {
+    } else if (!isSilent) {
       setIsLoading(true);
     }
 
@@ -73,6 +100,11 @@ export function NotificationCenterScreen({ onBack }: NotificationCenterScreenPro
         console.error('Error marking notification as read:', error);
       }
     }
+
+    const target = notification.data?.target;
+    if (target && onOpenTarget) {
+      onOpenTarget(target);
+    }
   };
 
   const handleDeleteNotification = (notificationId: number) => {
@@ -123,10 +155,32 @@ export function NotificationCenterScreen({ onBack }: NotificationCenterScreenPro
         return 'check-circle';
       case 'workout_assigned':
         return 'activity';
+      case 'workout_rescheduled':
+        return 'repeat';
+      case 'workout_completed':
+        return 'check-square';
       case 'event_assigned':
         return 'calendar';
+      case 'event_updated':
+        return 'edit-3';
+      case 'event_response':
+        return 'user-check';
+      case 'event_reminder':
+        return 'clock';
       case 'test_result':
         return 'trending-up';
+      case 'personal_record':
+        return 'star';
+      case 'trainer_verification':
+        return 'award';
+      case 'data_export':
+        return 'download';
+      case 'goal_achieved':
+        return 'award';
+      case 'goal_at_risk':
+        return 'alert-triangle';
+      case 'achievement_earned':
+        return 'award';
       default:
         return 'bell';
     }
@@ -140,10 +194,32 @@ export function NotificationCenterScreen({ onBack }: NotificationCenterScreenPro
         return '#10b981';
       case 'workout_assigned':
         return '#f59e0b';
+      case 'workout_rescheduled':
+        return '#f59e0b';
+      case 'workout_completed':
+        return '#10b981';
       case 'event_assigned':
         return '#8b5cf6';
+      case 'event_updated':
+        return '#8b5cf6';
+      case 'event_response':
+        return '#8b5cf6';
+      case 'event_reminder':
+        return '#ec4899';
       case 'test_result':
         return '#06b6d4';
+      case 'personal_record':
+        return '#eab308';
+      case 'trainer_verification':
+        return '#10b981';
+      case 'data_export':
+        return '#3b82f6';
+      case 'goal_achieved':
+        return '#10b981';
+      case 'goal_at_risk':
+        return '#f59e0b';
+      case 'achievement_earned':
+        return '#eab308';
       default:
         return '#6b7280';
     }
@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  useWindowDimensions,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  Modal
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { NotificationChannel, NotificationPreferences, NotificationType, QuietHours } from '@jejakathlete/shared';
+import { useSession } from '../../contexts/AuthContext';
+import { trpc } from '../../lib/trpc';
+import { CustomTimePicker } from '../../components/schedule/CustomTimePicker';
+
+const NOTIFICATION_OPTIONS: Array<{ type: NotificationType; title: string; subtitle: string; icon: string; roles?: string[] }> = [
+  { type: 'enrollment_request', title: 'Enrollment Requests', subtitle: 'Athletes asking to join you', icon: 'user-plus', roles: ['trainer'] },
+  { type: 'enrollment_response', title: 'Enrollment Responses', subtitle: 'Trainers accepting or declining you', icon: 'check-circle', roles: ['athlete'] },
+  { type: 'workout_assigned', title: 'Workouts', subtitle: 'New workouts and programs assigned', icon: 'activity', roles: ['athlete'] },
+  { type: 'workout_rescheduled', title: 'Workout Changes', subtitle: 'Upcoming workouts moved to new dates', icon: 'repeat', roles: ['athlete'] },
+  { type: 'workout_completed', title: 'Completed Workouts', subtitle: 'Athletes finishing their workouts', icon: 'check-square', roles: ['trainer'] },
+  { type: 'event_assigned', title: 'Event Invitations', subtitle: 'Events you are added to', icon: 'calendar' },
+  { type: 'event_updated', title: 'Event Changes', subtitle: 'Events moved, renamed or cancelled', icon: 'edit-3' },
+  { type: 'event_response', title: 'Event Responses', subtitle: 'Replies to events you organize', icon: 'user-check' },
+  { type: 'event_reminder', title: 'Event Reminders', subtitle: 'Reminders before events start', icon: 'clock' },
+  { type: 'test_result', title: 'Test Results', subtitle: 'New results recorded for you', icon: 'trending-up' },
+  { type: 'personal_record', title: 'Personal Records', subtitle: 'New personal bests, yours or your athletes\'', icon: 'star' },
+  { type: 'trainer_verification', title: 'Verification', subtitle: 'Decisions on your certification', icon: 'award', roles: ['trainer'] },
+  { type: 'data_export', title: 'Data Exports', subtitle: 'When your data export is ready', icon: 'download' },
+  { type: 'goal_achieved', title: 'Goals Achieved', subtitle: 'Goals reached, yours or your athletes\'', icon: 'award' },
+  { type: 'goal_at_risk', title: 'Goals at Risk', subtitle: 'Goals falling behind before their deadline', icon: 'alert-triangle' },
+  { type: 'achievement_earned', title: 'Achievements', subtitle: 'Badges you earn', icon: 'award', roles: ['athlete'] },
+  { type: 'general', title: 'General', subtitle: 'Announcements and other updates', icon: 'bell' },
+];
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  push: 'Push',
+};
+
+interface NotificationPreferencesScreenProps {
+  onBack: () => void;
+}
+
+/**
+ * Time zone reported by the device, used for quiet hours
+ */
+function getDeviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseTime(time: string) {
+  const [hour, minute] = time.split(':').map(Number);
+  return { hour, minute };
+}
+
+function formatTime({ hour, minute }: { hour: number; minute: number }) {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+export function NotificationPreferencesScreen({ onBack }: NotificationPreferencesScreenProps) {
+  const { width } = useWindowDimensions();
+  const { user } = useSession();
+
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingTime, setEditingTime] = useState<'start' | 'end' | null>(null);
+  const [tempTime, setTempTime] = useState({ hour: 22, minute: 0 });
+
+  // Responsive design
+  const isSmallScreen = width < 380;
+  const isTablet = width > 600;
+  const containerPadding = isSmallScreen ? 16 : isTablet ? 32 : 24;
+  const titleFontSize = isSmallScreen ? 20 : isTablet ? 28 : 24;
+  const fontSize = isSmallScreen ? 14 : 16;
+  const spacing = isSmallScreen ? 12 : isTablet ? 20 : 16;
+
+  useEffect(() => {
+    loadPreferences();
+  }, [user?.id]);
+
+  const loadPreferences = async () => {
+    setLoading(true);
+    try {
+      const data = await trpc.notifications.getPreferences.query();
+      setPreferences(data);
+    } catch (error) {
+      console.error('❌ Error loading notification preferences:', error);
+      Alert.alert('Error', 'Failed to load notification preferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Apply the change right away and roll back if saving fails
+  const savePreferences = async (
+    next: NotificationPreferences,
+    update: Parameters<typeof trpc.notifications.updatePreferences.mutate>[0]
+  ) => {
+    const previous = preferences;
+    setPreferences(next);
+    setIsSaving(true);
+    try {
+      const data = await trpc.notifications.updatePreferences.mutate(update);
+      setPreferences(data);
+    } catch (error) {
+      console.error('❌ Error saving notification preferences:', error);
+      setPreferences(previous);
+      Alert.alert('Error', 'Failed to save notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleChannel = (type: NotificationType, channel: NotificationChannel, value: boolean) => {
+    if (!preferences) return;
+
+    savePreferences(
+      {
+        ...preferences,
+        channels: {
+          ...preferences.channels,
+          [type]: { ...preferences.channels[type], [channel]: value },
+        },
+      },
+      { channels: { [type]: { [channel]: value } } }
+    );
+  };
+
+  const handleQuietHoursChange = (changes: Partial<QuietHours>) => {
+    if (!preferences) return;
+
+    // Quiet hours follow the device's time zone whenever they're edited
+    const timezone = getDeviceTimeZone();
+    const quietHours = { ...changes, ...(timezone ? { timezone } : {}) };
+
+    savePreferences(
+      { ...preferences, quiet_hours: { ...preferences.quiet_hours, ...quietHours } },
+      { quiet_hours: quietHours }
+    );
+  };
+
+  const openTimePicker = (field: 'start' | 'end') => {
+    if (!preferences) return;
+    setTempTime(parseTime(preferences.quiet_hours[field]));
+    setEditingTime(field);
+  };
+
+  const confirmTime = () => {
+    if (editingTime) {
+      handleQuietHoursChange({ [editingTime]: formatTime(tempTime) });
+    }
+    setEditingTime(null);
+  };
+
+  const options = NOTIFICATION_OPTIONS.filter(
+    (option) => !option.roles || (user?.role && option.roles.includes(user.role))
+  );
+
+  const Card = ({ children }: { children: React.ReactNode }) => (
+    <View style={{
+      backgroundColor: 'white',
+      borderRadius: 12,
+      padding: spacing + 4,
+      marginBottom: spacing
+    }}>
+      {children}
+    </View>
+  );
+
+  const SectionTitle = ({ title, subtitle }: { title: string; subtitle: string }) => (
+    <View style={{ marginBottom: 8 }}>
+      <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>{title}</Text>
+      <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginTop: 2 }}>{subtitle}</Text>
+    </View>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{
+          paddingBottom: containerPadding + 100
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={{
+          backgroundColor: 'white',
+          padding: containerPadding,
+          borderBottomWidth: 1,
+          borderBottomColor: '#f3f4f6',
+        }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Pressable
+              onPress={onBack}
+              style={{
+                padding: 8,
+                borderRadius: 8,
+                backgroundColor: '#f3f4f6',
+                marginRight: 12
+              }}
+            >
+              <Feather name="arrow-left" size={20} color="#6b7280" />
+            </Pressable>
+
+            <View style={{ flex: 1 }}>
+              <Text style={{
+                fontSize: titleFontSize,
+                fontWeight: 'bold',
+                color: '#1f2937'
+              }}>
+                Notifications
+              </Text>
+              <Text style={{
+                fontSize: fontSize - 2,
+                color: '#6b7280',
+                marginTop: 2
+              }}>
+                Choose what you're notified about and when
+              </Text>
+            </View>
+
+            {isSaving && <ActivityIndicator size="small" color="#3b82f6" />}
+          </View>
+        </View>
+
+        <View style={{ padding: containerPadding }}>
+          {loading || !preferences ? (
+            <View style={{ paddingVertical: 40, alignItems: 'center' }}>
+              <ActivityIndicator size="large" color="#3b82f6" />
+            </View>
+          ) : (
+            <>
+              {/* Quiet Hours */}
+              <Card>
+                <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                  <Feather name="moon" size={18} color="#6366f1" style={{ marginRight: 10 }} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                      Quiet Hours
+                    </Text>
+                    <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>
+                      No push notifications during these hours
+                    </Text>
+                  </View>
+                  <Switch
+                    value={preferences.quiet_hours.enabled}
+                    onValueChange={(value) => handleQuietHoursChange({ enabled: value })}
+                    trackColor={{ false: '#d1d5db', true: '#6366f1' }}
+                    thumbColor="white"
+                  />
+                </View>
+
+                {preferences.quiet_hours.enabled && (
+                  <>
+                    <View style={{ flexDirection: 'row', gap: 12, marginTop: 12 }}>
+                      {(['start', 'end'] as const).map((field) => (
+                        <Pressable
+                          key={field}
+                          onPress={() => openTimePicker(field)}
+                          style={{
+                            flex: 1,
+                            padding: 12,
+                            borderRadius: 8,
+                            borderWidth: 1,
+                            borderColor: '#e5e7eb',
+                            backgroundColor: '#f9fafb'
+                          }}
+                        >
+                          <Text style={{ fontSize: fontSize - 3, color: '#6b7280' }}>
+                            {field === 'start' ? 'From' : 'Until'}
+                          </Text>
+                          <Text style={{ fontSize: fontSize + 2, fontWeight: '600', color: '#1f2937' }}>
+                            {preferences.quiet_hours[field]}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                    <Text style={{ fontSize: fontSize - 3, color: '#9ca3af', marginTop: 8 }}>
+                      Times are in {preferences.quiet_hours.timezone}. Notifications still appear in the app.
+                    </Text>
+                  </>
+                )}
+              </Card>
+
+              {/* Notification Types */}
+              <Card>
+                <SectionTitle title="Notification Types" subtitle="Turn each type on or off for the app and push" />
+
+                {options.map((option, index) => (
+                  <View
+                    key={option.type}
+                    style={{
+                      paddingVertical: 12,
+                      borderTopWidth: index === 0 ? 0 : 1,
+                      borderTopColor: '#f3f4f6',
+                    }}
+                  >
+                    <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+                      <Feather name={option.icon as any} size={18} color="#6b7280" style={{ marginRight: 10 }} />
+                      <View style={{ flex: 1 }}>
+                        <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                          {option.title}
+                        </Text>
+                        <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>
+                          {option.subtitle}
+                        </Text>
+                      </View>
+                    </View>
+                    <View style={{ flexDirection: 'row', gap: 16, paddingLeft: 28 }}>
+                      {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                        <View key={channel} style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+                          <Switch
+                            value={preferences.channels[option.type][channel]}
+                            onValueChange={(value) => handleToggleChannel(option.type, channel, value)}
+                            trackColor={{ false: '#d1d5db', true: '#10b981' }}
+                            thumbColor="white"
+                          />
+                          <Text style={{ fontSize: fontSize - 2, color: '#374151' }}>
+                            {CHANNEL_LABELS[channel]}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+              </Card>
+            </>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Quiet Hours Time Picker */}
+      {editingTime && (
+        <Modal
+          visible={!!editingTime}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setEditingTime(null)}
+        >
+          <CustomTimePicker
+            selectedTime={tempTime}
+            onTimeChange={setTempTime}
+            onConfirm={confirmTime}
+            onClose={() => setEditingTime(null)}
+          />
+        </Modal>
+      )}
+    </View>
+  );
+}
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, Pressable, useWindowDimensions, ScrollView, Switch, Alert, ActivityIndicator } from 'react-native';
+import { View, Text, Pressable, useWindowDimensions, ScrollView, Switch, Alert, ActivityIndicator, Linking } from 'react-native';
 import { Feather } from '@expo/vector-icons';
+import type { DataExportWithUrl } from '@jejakathlete/shared';
 import { useSession } from '../../contexts/AuthContext';
+import { useRealtimeChanges } from '../../contexts/RealtimeContext';
+import { trpc } from '../../lib/trpc';
+import { DeleteAccountModal, DeleteAccountRequest } from '../../components/ui/DeleteAccountModal';
 
 import { formatTimeAgoShort } from '../../lib/date-utils';
 import * as SecureStore from 'expo-secure-store';
@@ -23,7 +27,7 @@ interface PrivacySecurityScreenProps {
 
 export function PrivacySecurityScreen({ onBack }: PrivacySecurityScreenProps) {
   const { width } = useWindowDimensions();
-  const { user, logout } = useSession();
+  const { user, logout, refreshUser } = useSession();
   
   // State
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -31,6 +35,10 @@ export function PrivacySecurityScreen({ onBack }: PrivacySecurityScreenProps) {
   const [cookiesEnabled, setCookiesEnabled] = useState(true);
   const [analyticsEnabled, setAnalyticsEnabled] = useState(false);
   const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [dataExports, setDataExports] = useState<DataExportWithUrl[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [showDeleteAccount, setShowDeleteAccount] = useState(false);
+  const [deletingAccount, setDeletingAccount] = useState(false);
 
   
   // Responsive design
@@ -45,8 +53,28 @@ export function PrivacySecurityScreen({ onBack }: PrivacySecurityScreenProps) {
   // Load sessions and settings
   useEffect(() => {
     loadSessionsAndSettings();
+    loadDataExports();
   }, [user?.id]);
 
+  // Refresh when a background export finishes
+  useRealtimeChanges(
+    ['notification'],
+    (change) => {
+      if (change.notification?.type === 'data_export') {
+        loadDataExports();
+      }
+    },
+    () => loadDataExports()
+  );
+
+  const loadDataExports = async () => {
+    try {
+      setDataExports(await trpc.dataExports.listMyExports.query());
+    } catch (error) {
+      console.error('Error loading data exports:', error);
+    }
+  };
+
   const loadSessionsAndSettings = async () => {
     setLoading(true);
     try {
@@ -156,6 +184,78 @@ export function PrivacySecurityScreen({ onBack }: PrivacySecurityScreenProps) {
 
 
 
+  const downloadExport = async (dataExport: DataExportWithUrl) => {
+    if (!dataExport.url) {
+      Alert.alert('Download Unavailable', 'This export can no longer be downloaded');
+      return;
+    }
+
+    try {
+      await Linking.openURL(dataExport.url);
+    } catch (error) {
+      console.error('Error opening data export:', error);
+      Alert.alert('Error', 'Could not open the download link');
+    }
+  };
+
+  const exportNow = async () => {
+    setExporting(true);
+    try {
+      const dataExport = await trpc.dataExports.exportNow.mutate();
+      await loadDataExports();
+      await downloadExport(dataExport);
+    } catch (error: any) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Export Failed', error?.message || 'Failed to export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const requestExport = async () => {
+    setExporting(true);
+    try {
+      await trpc.dataExports.requestExport.mutate();
+      await loadDataExports();
+      Alert.alert('Export Requested', 'We\'ll notify you when your data is ready to download.');
+    } catch (error: any) {
+      console.error('Error requesting data export:', error);
+      Alert.alert('Export Failed', error?.message || 'Failed to request your data export');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportData = () => {
+    Alert.alert(
+      'Export My Data',
+      'Get a copy of your profile, training history, events and notifications as JSON and CSV files.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Prepare in Background', onPress: requestExport },
+        { text: 'Download Now', onPress: exportNow },
+      ]
+    );
+  };
+
+  const handleDeleteAccount = async ({ reason, transferToTrainerCode }: DeleteAccountRequest) => {
+    setDeletingAccount(true);
+    try {
+      await trpc.accountDeletion.requestDeletion.mutate({
+        reason: reason || undefined,
+        transfer_to_trainer_code: transferToTrainerCode || undefined,
+      });
+      setShowDeleteAccount(false);
+      // The deactivated account opens the pending deletion screen
+      await refreshUser();
+    } catch (error: any) {
+      console.error('Error requesting account deletion:', error);
+      Alert.alert('Delete Failed', error?.message || 'Failed to delete your account');
+    } finally {
+      setDeletingAccount(false);
+    }
+  };
+
   const toggleCookies = async (value: boolean) => {
     setCookiesEnabled(value);
     await SecureStore.setItemAsync('cookies_enabled', value.toString());
@@ -179,6 +279,46 @@ export function PrivacySecurityScreen({ onBack }: PrivacySecurityScreenProps) {
     }
   };
 
+  const DataExportStatus = ({ dataExport }: { dataExport: DataExportWithUrl }) => {
+    const isReady = dataExport.status === 'ready' && !!dataExport.url;
+    const isPreparing = dataExport.status === 'pending' || dataExport.status === 'processing';
+
+    const message = isReady
+      ? `Export ready until ${new Date(dataExport.expires_at!).toLocaleDateString()}. Tap to download.`
+      : isPreparing
+        ? 'Your data export is being prepared. We\'ll notify you when it\'s ready.'
+        : dataExport.status === 'failed'
+          ? 'Your last data export failed. Please try again.'
+          : 'Your last data export has expired.';
+
+    return (
+      <Pressable
+        onPress={isReady ? () => downloadExport(dataExport) : undefined}
+        disabled={!isReady}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          paddingHorizontal: 4,
+          marginBottom: 12
+        }}
+      >
+        <Feather
+          name={isReady ? 'file' : isPreparing ? 'clock' : 'info'}
+          size={14}
+          color={isReady ? '#3b82f6' : '#6b7280'}
+        />
+        <Text style={{
+          flex: 1,
+          fontSize: fontSize - 2,
+          color: isReady ? '#3b82f6' : '#6b7280',
+          marginLeft: 6
+        }}>
+          {message}
+        </Text>
+      </Pressable>
+    );
+  };
+
   const Section = ({ 
     icon, 
     title, 
@@ -553,30 +693,40 @@ export function PrivacySecurityScreen({ onBack }: PrivacySecurityScreenProps) {
                 {/* Account Actions */}
                 <Section icon="alert-triangle" title="Account Actions">
                   <Pressable
-                    onPress={() => Alert.alert('Export Data', 'Data export coming soon!')}
+                    onPress={handleExportData}
+                    disabled={exporting}
                     style={{
                       backgroundColor: '#f0f9ff',
                       borderRadius: 8,
                       padding: 12,
                       alignItems: 'center',
-                      marginBottom: 12
+                      marginBottom: 12,
+                      opacity: exporting ? 0.6 : 1
                     }}
                   >
                     <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                      <Feather name="download" size={16} color="#3b82f6" />
+                      {exporting ? (
+                        <ActivityIndicator size="small" color="#3b82f6" />
+                      ) : (
+                        <Feather name="download" size={16} color="#3b82f6" />
+                      )}
                       <Text style={{
                         fontSize: fontSize,
                         fontWeight: '600',
                         color: '#3b82f6',
                         marginLeft: 8
                       }}>
-                        Export My Data
+                        {exporting ? 'Preparing Export...' : 'Export My Data'}
                       </Text>
                     </View>
                   </Pressable>
+
+                  {dataExports[0] && (
+                    <DataExportStatus dataExport={dataExports[0]} />
+                  )}
                   
                   <Pressable
-                    onPress={() => Alert.alert('Delete Account', 'Account deletion coming soon!')}
+                    onPress={() => setShowDeleteAccount(true)}
                     style={{
                       backgroundColor: '#fef2f2',
                       borderRadius: 8,
@@ -605,6 +755,16 @@ export function PrivacySecurityScreen({ onBack }: PrivacySecurityScreenProps) {
           </View>
         </View>
       </ScrollView>
+
+      <DeleteAccountModal
+        visible={showDeleteAccount}
+        isTrainer={user?.role === 'trainer'}
+        isSubmitting={deletingAccount}
+        onSubmit={handleDeleteAccount}
+        onClose={() => setShowDeleteAccount(false)}
+        fontSize={fontSize}
+        spacing={spacing}
+      />
     </View>
   );
 }
@@ -1,3 +1,6 @@
 export { PrivacySecurityScreen } from './PrivacySecurityScreen';
 export { TermsOfServiceScreen } from './TermsOfServiceScreen';
 export { NotificationCenterScreen } from './NotificationCenterScreen';
+export { CalendarSubscriptionScreen } from './CalendarSubscriptionScreen';
+export { NotificationPreferencesScreen } from './NotificationPreferencesScreen';
+export { AccountDeletionPendingScreen } from './AccountDeletionPendingScreen';
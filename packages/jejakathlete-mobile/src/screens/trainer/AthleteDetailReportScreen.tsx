@@ -3,12 +3,14 @@ import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, Keyboard
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
 import { VictoryChart, VictoryLine, VictoryBar, VictoryArea, VictoryAxis } from 'victory-native';
-import { tursoDbHelpers } from '../../lib/turso-database';
+import { trpc } from '../../lib/trpc';
+import { formatRating, getRatingColor } from '../../lib/ratings';
+import type { TestResultRating } from '@jejakathlete/shared';
 import { useKeyboardAware } from '../../hooks/useKeyboardAware';
 
 // Types for the athlete detail report
 interface Athlete {
-  id: number;
+  id: string;
   full_name: string;
   email: string;
   sport: string;
@@ -22,7 +24,7 @@ interface TestResult {
   test_name: string;
   fitness_component: string;
   result_value: number | null;
-  result_text: string;
+  result_text: string | null;
   unit: string;
   improvement_direction: 'higher' | 'lower';
   test_date: string;
@@ -48,7 +50,7 @@ interface FitnessComponentProgress {
 }
 
 interface AthleteDetailReportScreenProps {
-  athleteId: number;
+  athleteId: string;
   onBack: () => void;
 }
 
@@ -75,6 +77,7 @@ export function AthleteDetailReportScreen({ athleteId, onBack }: AthleteDetailRe
   const [bestRecords, setBestRecords] = useState<TestResult[]>([]);
   const [fitnessProgress, setFitnessProgress] = useState<FitnessComponentProgress[]>([]);
   const [testHistory, setTestHistory] = useState<TestResult[]>([]);
+  const [ratings, setRatings] = useState<Map<number, TestResultRating>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [selectedTimeRange, setSelectedTimeRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
@@ -94,149 +97,50 @@ export function AthleteDetailReportScreen({ athleteId, onBack }: AthleteDetailRe
     }
 
     try {
-      // Fetch athlete basic info
-      const athleteInfo = await tursoDbHelpers.get(`
-        SELECT 
-          u.id,
-          u.full_name,
-          u.email,
-          a.sport,
-          a.level,
-          e.requested_at as enrollment_date
-        FROM users u
-        JOIN athletes a ON a.user_id = u.id
-        JOIN enrollments e ON e.athlete_id = u.id
-        WHERE u.id = ? AND e.trainer_id = ? AND e.status = 'approved'
-      `, [athleteId, user.id]);
-
-      if (!athleteInfo) {
-        Alert.alert('Error', 'Athlete not found or not enrolled with you.');
-        onBack();
-        return;
-      }
-
-      setAthlete(athleteInfo);
-
-      // Calculate date filter based on selected range
-      const now = new Date();
-      let dateFilter = '';
-      if (selectedTimeRange !== '1y') {
-        const days = selectedTimeRange === '7d' ? 7 : selectedTimeRange === '30d' ? 30 : 90;
-        const startDate = new Date(now.getTime() - (days * 24 * 60 * 60 * 1000));
-        dateFilter = ` AND tr.test_date >= '${startDate.toISOString().split('T')[0]}'`;
-      }
+      // Fetch the report for the selected range; access is checked on the server
+      const report = await trpc.reports.getAthleteReport.query({
+        athlete_id: athleteId,
+        range: selectedTimeRange,
+      });
 
-      // Fetch performance statistics
-      const stats = await tursoDbHelpers.get(`
-        SELECT 
-          COUNT(*) as total_tests,
-          SUM(CASE WHEN tr.is_best_record = 1 THEN 1 ELSE 0 END) as best_records,
-          SUM(CASE WHEN tr.test_date >= date('now', '-7 days') THEN 1 ELSE 0 END) as recent_activity
-        FROM test_results tr
-        WHERE tr.athlete_id = ?${dateFilter}
-      `, [athleteId]);
+      setAthlete({
+        ...report.athlete,
+        level: report.athlete.level as Athlete['level'],
+        enrollment_date: report.athlete.enrollment_date || '',
+      });
 
       setPerformanceStats({
-        total_tests: stats?.total_tests || 0,
-        best_records: stats?.best_records || 0,
+        total_tests: report.summary.total_tests,
+        best_records: report.summary.best_records,
         avg_improvement: 0, // TODO: Calculate actual improvement
         consistency_score: 85, // TODO: Calculate actual consistency
-        recent_activity: stats?.recent_activity || 0
+        recent_activity: report.summary.recent_activity
       });
 
-      // Fetch recent test results
-      const recent = await tursoDbHelpers.all(`
-        SELECT 
-          tr.id,
-          tr.test_id,
-          t.name as test_name,
-          fc.name as fitness_component,
-          tr.result_value,
-          tr.result_text,
-          t.unit,
-          t.improvement_direction,
-          tr.test_date,
-          tr.notes,
-          tr.is_best_record
-        FROM test_results tr
-        JOIN tests t ON tr.test_id = t.id
-        JOIN fitness_components fc ON t.component_id = fc.id
-        WHERE tr.athlete_id = ?${dateFilter}
-        ORDER BY tr.test_date DESC, tr.created_at DESC
-        LIMIT 10
-      `, [athleteId]);
-
-      setRecentTests(recent || []);
-
-      // Fetch best records
-      const records = await tursoDbHelpers.all(`
-        SELECT 
-          tr.id,
-          tr.test_id,
-          t.name as test_name,
-          fc.name as fitness_component,
-          tr.result_value,
-          tr.result_text,
-          t.unit,
-          t.improvement_direction,
-          tr.test_date,
-          tr.notes,
-          tr.is_best_record
-        FROM test_results tr
-        JOIN tests t ON tr.test_id = t.id
-        JOIN fitness_components fc ON t.component_id = fc.id
-        WHERE tr.athlete_id = ? AND tr.is_best_record = 1
-        ORDER BY tr.test_date DESC
-        LIMIT 8
-      `, [athleteId]);
-
-      setBestRecords(records || []);
-
-      // Fetch test history for charts
-      const history = await tursoDbHelpers.all(`
-        SELECT 
-          tr.id,
-          tr.test_id,
-          t.name as test_name,
-          fc.name as fitness_component,
-          tr.result_value,
-          tr.result_text,
-          t.unit,
-          t.improvement_direction,
-          tr.test_date,
-          tr.notes,
-          tr.is_best_record
-        FROM test_results tr
-        JOIN tests t ON tr.test_id = t.id
-        JOIN fitness_components fc ON t.component_id = fc.id
-        WHERE tr.athlete_id = ?${dateFilter}
-        ORDER BY tr.test_date ASC
-      `, [athleteId]);
-
-      setTestHistory(history || []);
-
-      // Fetch fitness component progress
-      const progress = await tursoDbHelpers.all(`
-        SELECT 
-          fc.id as component_id,
-          fc.name as component_name,
-          COUNT(tr.id) as total_tests,
-          MAX(tr.test_date) as last_test_date
-        FROM fitness_components fc
-        JOIN tests t ON fc.id = t.component_id
-        LEFT JOIN test_results tr ON t.id = tr.test_id AND tr.athlete_id = ?${dateFilter}
-        GROUP BY fc.id, fc.name
-        HAVING COUNT(tr.id) > 0
-        ORDER BY total_tests DESC, component_name
-      `, [athleteId]);
+      setRecentTests(report.recent_tests);
+      setBestRecords(report.best_records);
+
+      // Test history for charts, oldest first
+      const history = [...report.history].reverse();
+      setTestHistory(history);
+
+      // Fetch normative ratings for every displayed result
+      const ratedIds = [...new Set([...history, ...report.recent_tests, ...report.best_records].map((r: TestResult) => r.id))];
+      try {
+        const resultRatings = await trpc.testResults.getResultRatings.query({ test_result_ids: ratedIds });
+        setRatings(new Map(resultRatings.map((r) => [r.test_result_id, r])));
+      } catch (ratingError) {
+        console.error('❌ Error fetching test ratings:', ratingError);
+        setRatings(new Map());
+      }
 
-      setFitnessProgress((progress || []).map((p: any) => ({
-        component_name: p.component_name,
-        component_id: p.component_id,
-        total_tests: p.total_tests,
-        best_record: null, // Will be populated separately if needed
-        recent_tests: [],
-        improvement_trend: 'stable' as const
+      setFitnessProgress(report.components.map((component) => ({
+        component_name: component.component_name,
+        component_id: component.component_id,
+        total_tests: component.total_tests,
+        best_record: component.best_record,
+        recent_tests: history.filter((result) => result.component_id === component.component_id).slice(-5),
+        improvement_trend: component.improvement_trend
       })));
 
     } catch (error) {
@@ -289,31 +193,9 @@ export function AthleteDetailReportScreen({ athleteId, onBack }: AthleteDetailRe
     return '#ef4444';
   };
 
-  // Helper function to normalize test results to 0-100 scale for averaging
-  const normalizeTestResult = (result: TestResult): number => {
-    if (result.result_value !== null) {
-      // For numerical results, we'll use a simple normalization
-      // This is a simplified approach - in a real app, you'd have test-specific normalization
-      const value = result.result_value;
-      
-      // Different normalization based on improvement direction
-      if (result.improvement_direction === 'higher') {
-        // For tests where higher is better (e.g., strength, speed)
-        return Math.min(Math.max((value / 100) * 100, 0), 100);
-      } else {
-        // For tests where lower is better (e.g., time-based tests)
-        return Math.min(Math.max((100 - (value / 10)) * 10, 0), 100);
-      }
-    } else {
-      // For text results, assign scores based on common fitness test results
-      const text = result.result_text?.toLowerCase() || '';
-      if (text.includes('excellent') || text.includes('superior')) return 90;
-      if (text.includes('good') || text.includes('above average')) return 75;
-      if (text.includes('average') || text.includes('fair')) return 60;
-      if (text.includes('below') || text.includes('poor')) return 40;
-      if (text.includes('very poor')) return 20;
-      return 50; // Default for unknown text results
-    }
+  // Percentile (0-100) from the test's norm table, or null when no norm matches
+  const normalizeTestResult = (result: TestResult): number | null => {
+    return ratings.get(result.id)?.percentile ?? null;
   };
 
   // Helper function to group tests by time periods and calculate averages
@@ -349,16 +231,21 @@ export function AthleteDetailReportScreen({ athleteId, onBack }: AthleteDetailRe
     // Calculate averages for each group
     const averages = Object.entries(groups)
       .map(([period, periodTests]) => {
-        const normalizedScores = periodTests.map(normalizeTestResult);
+        const normalizedScores = periodTests
+          .map(normalizeTestResult)
+          .filter((score): score is number => score !== null);
+        if (normalizedScores.length === 0) return null;
+
         const average = normalizedScores.reduce((sum, score) => sum + score, 0) / normalizedScores.length;
         
         return {
           period,
           average: Math.round(average * 10) / 10, // Round to 1 decimal place
-          testCount: periodTests.length,
+          testCount: normalizedScores.length,
           date: new Date(periodTests[0].test_date) // Use first test date for sorting
         };
       })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
       .sort((a, b) => a.date.getTime() - b.date.getTime());
 
     return averages;
@@ -695,7 +582,7 @@ export function AthleteDetailReportScreen({ athleteId, onBack }: AthleteDetailRe
                   marginBottom: 12,
                   lineHeight: 18
                 }}>
-                  Shows normalized performance scores (0-100) with 3-period moving average for smoother trend analysis.
+                  Shows percentile scores against test norms (0-100) with 3-period moving average for smoother trend analysis. Tests without norms are excluded.
                 </Text>
                 
                 {/* Line Chart for Performance Averages */}
@@ -927,6 +814,15 @@ export function AthleteDetailReportScreen({ athleteId, onBack }: AthleteDetailRe
                           PERSONAL BEST
                         </Text>
                       )}
+                      {ratings.get(result.id)?.rating && (
+                        <Text style={{
+                          fontSize: fontSize - 3,
+                          color: getRatingColor(ratings.get(result.id)!.rating!),
+                          fontWeight: '600'
+                        }}>
+                          {formatRating(ratings.get(result.id)!.rating!)} · P{ratings.get(result.id)!.percentile}
+                        </Text>
+                      )}
                     </View>
                   </View>
                 ))}
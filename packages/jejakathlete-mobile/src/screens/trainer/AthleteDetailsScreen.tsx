@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, RefreshControl } from 'react-native';
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
-import { tursoDbHelpers } from '../../lib/turso-database';
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from '../../lib/trpc';
 import { BodyMetricsTab } from '../../components/athlete/BodyMetricsTab';
+import { GoalsPanel } from '../../components/athlete/GoalsPanel';
 
 interface AthleteProfile {
-  id: number;
+  id: string;
   full_name: string;
   email: string;
   sport: string;
@@ -37,11 +39,15 @@ interface TrainingStats {
   improvement_percentage: number;
 }
 
+export type AthleteDetailsTab = 'profile' | 'logs' | 'metrics' | 'goals';
+
 export function AthleteDetailsScreen({ 
   athleteId, 
+  initialTab = 'profile',
   onBack 
 }: { 
-  athleteId: number; 
+  athleteId: string; 
+  initialTab?: AthleteDetailsTab;
   onBack: () => void; 
 }) {
   const { user } = useSession();
@@ -66,7 +72,7 @@ export function AthleteDetailsScreen({
   const [trainingStats, setTrainingStats] = useState<TrainingStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [activeTab, setActiveTab] = useState<'profile' | 'logs' | 'metrics'>('profile');
+  const [activeTab, setActiveTab] = useState<AthleteDetailsTab>(initialTab);
   const [sortBy, setSortBy] = useState<'date' | 'test' | 'result'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
@@ -81,50 +87,29 @@ export function AthleteDetailsScreen({
     }
 
     try {
-      // Get athlete profile
-      const profile = await tursoDbHelpers.get(`
-        SELECT 
-          u.id,
-          u.full_name,
-          u.email,
-          u.created_at,
-          u.is_verified,
-          a.sport,
-          a.level,
-          e.requested_at as enrollment_date,
-          e.notes as enrollment_notes
-        FROM users u
-        JOIN athletes a ON u.id = a.user_id
-        LEFT JOIN enrollments e ON e.athlete_id = u.id AND e.trainer_id = ? AND e.status = 'approved'
-        WHERE u.id = ? AND u.role = 'athlete'
-      `, [user.id, athleteId]);
-
-      if (!profile) {
-        Alert.alert('Error', 'Athlete not found or not enrolled with you.');
-        onBack();
-        return;
+      // Get athlete profile and training logs; access is checked on the server
+      let report;
+      try {
+        report = await trpc.reports.getAthleteReport.query({ athlete_id: athleteId, range: 'all' });
+      } catch (error) {
+        if (error instanceof TRPCClientError && ['NOT_FOUND', 'FORBIDDEN'].includes(error.data?.code)) {
+          Alert.alert('Error', 'Athlete not found or not enrolled with you.');
+          onBack();
+          return;
+        }
+        throw error;
       }
 
-      // Get training logs with test and component info
-      const logs = await tursoDbHelpers.all(`
-        SELECT 
-          tr.id,
-          tr.result_value,
-          tr.result_text,
-          tr.test_date,
-          tr.notes,
-          tr.is_best_record,
-          tr.input_unit,
-          t.name as test_name,
-          t.unit,
-          t.improvement_direction,
-          fc.name as component_name
-        FROM test_results tr
-        JOIN tests t ON tr.test_id = t.id
-        JOIN fitness_components fc ON t.component_id = fc.id
-        WHERE tr.athlete_id = ?
-        ORDER BY tr.test_date DESC, tr.created_at DESC
-      `, [athleteId]);
+      const profile: AthleteProfile = {
+        ...report.athlete,
+        enrollment_date: report.athlete.enrollment_date ?? undefined,
+        enrollment_notes: report.athlete.enrollment_notes ?? undefined,
+      };
+
+      const logs: TrainingLog[] = report.history.map((result) => ({
+        ...result,
+        component_name: result.fitness_component,
+      }));
 
       // Calculate training stats
       const totalTests = logs?.length || 0;
@@ -560,6 +545,19 @@ export function AthleteDetailsScreen({
                   onPress={() => setActiveTab('metrics')}
                 />
               </View>
+              <View onLayout={(e) => {
+                if (activeTab === 'goals') {
+                  const x = e.nativeEvent.layout.x - 20;
+                  tabScrollViewRef.current?.scrollTo({ x: Math.max(0, x), animated: true });
+                }
+              }}>
+                <TabButton
+                  id="goals"
+                  label="Goals"
+                  isActive={activeTab === 'goals'}
+                  onPress={() => setActiveTab('goals')}
+                />
+              </View>
             </ScrollView>
           </View>
 
@@ -569,6 +567,13 @@ export function AthleteDetailsScreen({
               athleteId={athleteId} 
               athleteName={athleteProfile.full_name}
             />
+          ) : activeTab === 'goals' ? (
+            <GoalsPanel
+              athleteId={athleteId}
+              fontSize={fontSize}
+              spacing={spacing}
+              cardPadding={cardPadding}
+            />
           ) : activeTab === 'profile' ? (
             <>
               {/* Training Stats */}
@@ -2,10 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, RefreshControl, Modal } from 'react-native';
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
-import { tursoDbHelpers } from '../../lib/turso-database';
+import type { WorkoutAdherence } from '@jejakathlete/shared';
+import { trpc } from '../../lib/trpc';
+import { getAdherenceColor } from '../../components/workout/AdherenceCard';
 
 interface Athlete {
-  id: number;
+  id: string;
   full_name: string;
   email: string;
   sport: string;
@@ -15,7 +17,7 @@ interface Athlete {
 
 interface EnrollmentRequest {
   id: number;
-  athlete_id: number;
+  athlete_id: string;
   athlete_name: string;
   athlete_email: string;
   athlete_sport: string;
@@ -26,7 +28,7 @@ interface EnrollmentRequest {
 }
 
 interface AthleteProfile {
-  id: number;
+  id: string;
   full_name: string;
   email: string;
   sport: string;
@@ -55,7 +57,7 @@ export function ManageAthletesScreen({
   onNavigateToAthleteProfile 
 }: { 
   onBack: () => void;
-  onNavigateToAthleteProfile?: (athleteId: number) => void;
+  onNavigateToAthleteProfile?: (athleteId: string) => void;
 }) {
   const { user } = useSession();
   const { width } = useWindowDimensions();
@@ -73,12 +75,13 @@ export function ManageAthletesScreen({
   const [activeTab, setActiveTab] = useState<'athletes' | 'requests'>('athletes');
   const [athletes, setAthletes] = useState<Athlete[]>([]);
   const [enrollmentRequests, setEnrollmentRequests] = useState<EnrollmentRequest[]>([]);
+  const [adherenceByAthlete, setAdherenceByAthlete] = useState<Record<string, WorkoutAdherence>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   
   // Athlete profile modal state
   const [showAthleteModal, setShowAthleteModal] = useState(false);
-  const [selectedAthleteId, setSelectedAthleteId] = useState<number | null>(null);
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
   const [athleteProfile, setAthleteProfile] = useState<AthleteProfile | null>(null);
   const [isLoadingProfile, setIsLoadingProfile] = useState(false);
 
@@ -93,44 +96,20 @@ export function ManageAthletesScreen({
     }
 
     try {
-      
-      // Fetch approved athletes
-      const approvedAthletes = await tursoDbHelpers.all(`
-        SELECT 
-          u.id,
-          u.full_name,
-          u.email,
-          a.sport,
-          a.level,
-          u.created_at
-        FROM enrollments e
-        JOIN users u ON e.athlete_id = u.id
-        JOIN athletes a ON a.user_id = u.id
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-        ORDER BY u.full_name
-      `, [user.id]);
+      // Fetch approved athletes and pending enrollment requests
+      const [approvedAthletes, pendingRequests, adherence] = await Promise.all([
+        trpc.reports.listAthleteSummaries.query(),
+        trpc.reports.listEnrollmentRequests.query(),
+        // Adherence is extra detail; the list still shows without it
+        trpc.adherence.listAthleteAdherence.query().catch((error) => {
+          console.error('❌ Error fetching workout adherence:', error);
+          return [] as WorkoutAdherence[];
+        }),
+      ]);
 
-      // Fetch pending and viewing enrollment requests
-      const pendingRequests = await tursoDbHelpers.all(`
-        SELECT 
-          e.id,
-          e.athlete_id,
-          u.full_name as athlete_name,
-          u.email as athlete_email,
-          a.sport as athlete_sport,
-          a.level as athlete_level,
-          e.status,
-          e.requested_at,
-          e.viewed_at
-        FROM enrollments e
-        JOIN users u ON e.athlete_id = u.id
-        JOIN athletes a ON a.user_id = u.id
-        WHERE e.trainer_id = ? AND e.status IN ('pending', 'viewing')
-        ORDER BY e.requested_at DESC
-      `, [user.id]);
-
-      setAthletes(approvedAthletes || []);
-      setEnrollmentRequests(pendingRequests || []);
+      setAthletes(approvedAthletes);
+      setEnrollmentRequests(pendingRequests);
+      setAdherenceByAthlete(Object.fromEntries(adherence.map((entry) => [entry.athlete_id, entry])));
     } catch (error) {
       console.error('❌ Error fetching athlete data:', error);
       Alert.alert('Error', 'Failed to load athlete data. Please try again.');
@@ -147,56 +126,10 @@ export function ManageAthletesScreen({
   // Handle enrollment approval/rejection
   const handleEnrollmentAction = async (enrollmentId: number, action: 'approved' | 'rejected') => {
     try {
-      // Get enrollment details for notification
-      const enrollment = await tursoDbHelpers.get(`
-        SELECT e.athlete_id, u.full_name as athlete_name
-        FROM enrollments e
-        JOIN users u ON e.athlete_id = u.id
-        WHERE e.id = ?
-      `, [enrollmentId]);
-
-      // Update enrollment status
-      await tursoDbHelpers.run(`
-        UPDATE enrollments 
-        SET status = ?, responded_at = datetime('now')
-        WHERE id = ?
-      `, [action, enrollmentId]);
-
-      // Create notification for athlete
-      if (enrollment) {
-        const notificationTitle = action === 'approved' 
-          ? '🎉 Enrollment Approved!' 
-          : '❌ Enrollment Request Declined';
-        
-        const notificationMessage = action === 'approved'
-          ? `Congratulations! Your enrollment request has been approved. You can now start training with your trainer!`
-          : `Your enrollment request has been declined. You can search for other trainers or try again later.`;
-
-        await tursoDbHelpers.run(`
-          INSERT INTO notifications (
-            user_id, 
-            type, 
-            title, 
-            message, 
-            data, 
-            created_at
-          ) VALUES (?, ?, ?, ?, ?, datetime('now'))
-        `, [
-          enrollment.athlete_id,
-          action === 'approved' ? 'enrollment_approved' : 'enrollment_rejected',
-          notificationTitle,
-          notificationMessage,
-          JSON.stringify({
-            enrollment_id: enrollmentId,
-            trainer_id: user?.id,
-            trainer_name: user?.full_name,
-            action: action,
-            athlete_name: enrollment.athlete_name
-          })
-        ]);
-
-
-      }
+      await trpc.enrollments.respondToEnrollment.mutate({
+        enrollment_id: enrollmentId,
+        status: action,
+      });
 
       Alert.alert(
         'Success',
@@ -210,107 +143,18 @@ export function ManageAthletesScreen({
   };
 
   // Fetch detailed athlete profile
-  const fetchAthleteProfile = async (athleteId: number) => {
+  const fetchAthleteProfile = async (athleteId: string) => {
     setIsLoadingProfile(true);
     try {
-      // Get comprehensive athlete information
-      const profile = await tursoDbHelpers.get(`
-        SELECT 
-          u.id,
-          u.full_name,
-          u.email,
-          u.created_at,
-          u.is_verified,
-          a.sport,
-          a.level,
-          e.id as enrollment_id,
-          e.requested_at as enrollment_date,
-          e.notes as enrollment_notes,
-          e.status as enrollment_status
-        FROM users u
-        JOIN athletes a ON u.id = a.user_id
-        LEFT JOIN enrollments e ON e.athlete_id = u.id AND e.trainer_id = ?
-        WHERE u.id = ? AND u.role = 'athlete'
-      `, [user?.id, athleteId]);
-
-      if (!profile) {
-        Alert.alert('Error', 'Athlete profile not found.');
-        return;
-      }
-
-      // Update enrollment status to 'viewing' if currently 'pending'
-      if (profile.enrollment_id && profile.enrollment_status === 'pending') {
-        try {
-          await tursoDbHelpers.run(`
-            UPDATE enrollments 
-            SET status = 'viewing', viewed_at = datetime('now')
-            WHERE id = ?
-          `, [profile.enrollment_id]);
-
-          // Create notification for the athlete
-          await tursoDbHelpers.run(`
-            INSERT INTO notifications (
-              user_id, 
-              type, 
-              title, 
-              message, 
-              data, 
-              created_at
-            ) VALUES (?, ?, ?, ?, ?, datetime('now'))
-          `, [
-            athleteId,
-            'enrollment_status_change',
-            'Profile Viewed by Trainer',
-            `Your trainer is now reviewing your enrollment request. You should hear back from them soon!`,
-            JSON.stringify({
-              enrollment_id: profile.enrollment_id,
-              trainer_id: user?.id,
-              trainer_name: user?.full_name,
-              previous_status: 'pending',
-              new_status: 'viewing'
-            })
-          ]);
-
-
-        } catch (statusError) {
-          console.error('⚠️ Error updating status:', statusError);
-          // Continue with profile display even if status update fails
-        }
-      }
-
-      // Get test results count
-      const testCount = await tursoDbHelpers.get(`
-        SELECT COUNT(*) as total_tests
-        FROM test_results tr
-        WHERE tr.athlete_id = ?
-      `, [athleteId]);
-
-      // Get recent test results
-      const recentTests = await tursoDbHelpers.all(`
-        SELECT 
-          tr.id,
-          tr.result_value,
-          tr.result_text,
-          tr.test_date,
-          tr.notes,
-          tr.is_best_record,
-          tr.input_unit,
-          t.name as test_name,
-          t.unit
-        FROM test_results tr
-        JOIN tests t ON tr.test_id = t.id
-        WHERE tr.athlete_id = ?
-        ORDER BY tr.test_date DESC, tr.created_at DESC
-        LIMIT 5
-      `, [athleteId]);
+      // Get athlete information with their latest tests
+      const profile = await trpc.reports.getAthleteProfile.query({ athlete_id: athleteId });
 
       const athleteProfileData: AthleteProfile = {
         ...profile,
-        total_tests: testCount?.total_tests || 0,
-        recent_tests: recentTests || []
+        enrollment_date: profile.enrollment_date ?? undefined,
+        enrollment_notes: profile.enrollment_notes ?? undefined,
       };
 
-
       setAthleteProfile(athleteProfileData);
       setShowAthleteModal(true);
 
@@ -323,7 +167,7 @@ export function ManageAthletesScreen({
   };
 
   // Handle athlete profile view
-  const handleViewAthleteProfile = (athleteId: number) => {
+  const handleViewAthleteProfile = (athleteId: string) => {
     if (onNavigateToAthleteProfile) {
       onNavigateToAthleteProfile(athleteId);
     } else {
@@ -365,94 +209,122 @@ export function ManageAthletesScreen({
     </Pressable>
   );
 
-  const AthleteCard = ({ athlete }: { athlete: Athlete }) => (
-    <Pressable
-      onPress={() => handleViewAthleteProfile(athlete.id)}
-      style={{
-        backgroundColor: 'white',
-        padding: cardPadding,
-        borderRadius: 12,
-        marginBottom: spacing,
-      }}
-    >
-      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-        <View style={{
-          width: 50,
-          height: 50,
-          backgroundColor: '#10b981',
-          borderRadius: 25,
-          alignItems: 'center',
-          justifyContent: 'center',
-          marginRight: 16
-        }}>
-          <Text style={{ fontSize: 18, color: 'white', fontWeight: 'bold' }}>
-            {athlete.full_name.split(' ').map(n => n[0]).join('')}
-          </Text>
-        </View>
-        
-        <View style={{ flex: 1 }}>
-          <Text style={{
-            fontSize: fontSize,
-            fontWeight: '600',
-            color: '#1f2937',
-            marginBottom: 2
-          }}>
-            {athlete.full_name}
-          </Text>
-          <Text style={{
-            fontSize: fontSize - 2,
-            color: '#6b7280',
-            marginBottom: 4
+  const AthleteCard = ({ athlete }: { athlete: Athlete }) => {
+    const adherence = adherenceByAthlete[athlete.id];
+
+    return (
+      <Pressable
+        onPress={() => handleViewAthleteProfile(athlete.id)}
+        style={{
+          backgroundColor: 'white',
+          padding: cardPadding,
+          borderRadius: 12,
+          marginBottom: spacing,
+        }}
+      >
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <View style={{
+            width: 50,
+            height: 50,
+            backgroundColor: '#10b981',
+            borderRadius: 25,
+            alignItems: 'center',
+            justifyContent: 'center',
+            marginRight: 16
           }}>
-            {athlete.email}
-          </Text>
-          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Text style={{ fontSize: 18, color: 'white', fontWeight: 'bold' }}>
+              {athlete.full_name.split(' ').map(n => n[0]).join('')}
+            </Text>
+          </View>
+        
+          <View style={{ flex: 1 }}>
             <Text style={{
-              fontSize: fontSize - 2,
-              color: '#10b981',
+              fontSize: fontSize,
               fontWeight: '600',
-              backgroundColor: '#f0fdf4',
-              paddingHorizontal: 8,
-              paddingVertical: 2,
-              borderRadius: 6,
-              marginRight: 8
+              color: '#1f2937',
+              marginBottom: 2
             }}>
-              {athlete.sport}
+              {athlete.full_name}
             </Text>
             <Text style={{
               fontSize: fontSize - 2,
-              color: '#f59e0b',
-              fontWeight: '600',
-              backgroundColor: '#fefbf2',
-              paddingHorizontal: 8,
-              paddingVertical: 2,
-              borderRadius: 6
+              color: '#6b7280',
+              marginBottom: 4
             }}>
-              {athlete.level}
+              {athlete.email}
             </Text>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <Text style={{
+                fontSize: fontSize - 2,
+                color: '#10b981',
+                fontWeight: '600',
+                backgroundColor: '#f0fdf4',
+                paddingHorizontal: 8,
+                paddingVertical: 2,
+                borderRadius: 6,
+                marginRight: 8
+              }}>
+                {athlete.sport}
+              </Text>
+              <Text style={{
+                fontSize: fontSize - 2,
+                color: '#f59e0b',
+                fontWeight: '600',
+                backgroundColor: '#fefbf2',
+                paddingHorizontal: 8,
+                paddingVertical: 2,
+                borderRadius: 6
+              }}>
+                {athlete.level}
+              </Text>
+            </View>
           </View>
-        </View>
 
-        <View style={{
-          backgroundColor: '#f0fdf4',
-          padding: 8,
-          borderRadius: 8,
-        }}>
-          <Feather name="chevron-right" size={20} color="#10b981" />
+          <View style={{
+            backgroundColor: '#f0fdf4',
+            padding: 8,
+            borderRadius: 8,
+          }}>
+            <Feather name="chevron-right" size={20} color="#10b981" />
+          </View>
         </View>
-      </View>
+
+        {adherence && (
+          <View style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            marginTop: 12,
+            paddingTop: 12,
+            borderTopWidth: 1,
+            borderTopColor: '#f3f4f6'
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <Feather name="check-circle" size={14} color={getAdherenceColor(adherence.adherence_rate)} />
+              <Text style={{ fontSize: fontSize - 2, color: '#4b5563', marginLeft: 4 }}>
+                {adherence.adherence_rate === null ? 'No workouts due' : `${adherence.adherence_rate}% adherence`}
+              </Text>
+            </View>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <Feather name="zap" size={14} color="#f59e0b" />
+              <Text style={{ fontSize: fontSize - 2, color: '#4b5563', marginLeft: 4 }}>
+                {adherence.current_streak_days}-day streak (best {adherence.longest_streak_days})
+              </Text>
+            </View>
+          </View>
+        )}
       
-      <Text style={{
-        fontSize: fontSize - 2,
-        color: '#3b82f6',
-        marginTop: 8,
-        textAlign: 'center',
-        fontWeight: '500'
-      }}>
-        Tap to view athlete profile
-      </Text>
-    </Pressable>
-  );
+        <Text style={{
+          fontSize: fontSize - 2,
+          color: '#3b82f6',
+          marginTop: 8,
+          textAlign: 'center',
+          fontWeight: '500'
+        }}>
+          Tap to view athlete profile
+        </Text>
+      </Pressable>
+    );
+  };
 
   const EnrollmentRequestCard = ({ request }: { request: EnrollmentRequest }) => {
     const getStatusInfo = (status: string) => {
@@ -3,7 +3,9 @@ import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, RefreshC
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
 import { trpc } from '../../lib/trpc';
+import { getErrorMessage } from '../../i18n/errors';
 import { useStableTextInput } from '../../hooks/useStableTextInput';
+import { TrainerVerificationCard } from '../../components/trainer/TrainerVerificationCard';
 
 // Stable EditField component using uncontrolled inputs to prevent keyboard dismissal
 const StableEditField = React.memo(({ 
@@ -222,7 +224,7 @@ export function ProfileScreen({ onBack }: { onBack: () => void }) {
       }
     } catch (error: any) {
       console.error('❌ Error fetching profile:', error);
-      Alert.alert('Error', error.message || 'Failed to load profile. Please try again.');
+      Alert.alert('Error', getErrorMessage(error, 'Failed to load profile. Please try again.'));
     } finally {
       setIsLoading(false);
       setIsRefreshing(false);
@@ -336,7 +338,7 @@ export function ProfileScreen({ onBack }: { onBack: () => void }) {
       Alert.alert('Success', 'Profile updated successfully!');
     } catch (error: any) {
       console.error('Error updating profile:', error);
-      Alert.alert('Error', error.message || 'Failed to update profile. Please try again.');
+      Alert.alert('Error', getErrorMessage(error, 'Failed to update profile. Please try again.'));
     } finally {
       setIsUpdating(false);
     }
@@ -594,6 +596,9 @@ export function ProfileScreen({ onBack }: { onBack: () => void }) {
             </View>
           </View>
 
+          {/* Verification Status */}
+          <TrainerVerificationCard fontSize={fontSize} cardPadding={cardPadding} spacing={spacing} />
+
           {/* Profile Header */}
           <View style={{
             backgroundColor: 'white',
@@ -0,0 +1,468 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, RefreshControl, ActivityIndicator } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import type { ProgramAssignmentStatus } from '@jejakathlete/shared';
+import { trpc, type RouterOutputs } from '../../lib/trpc';
+
+type ProgramProgress = RouterOutputs['programs']['getProgramProgress'];
+type ProgramWeek = ProgramProgress['weeks'][number];
+
+// Longest shift the server accepts, in days either way
+const MAX_SHIFT_DAYS = 90;
+
+export const PROGRAM_STATUS_STYLES: Record<ProgramAssignmentStatus, { label: string; color: string }> = {
+  active: { label: 'Active', color: '#10b981' },
+  paused: { label: 'Paused', color: '#f59e0b' },
+  completed: { label: 'Completed', color: '#3b82f6' },
+  ended: { label: 'Ended early', color: '#6b7280' },
+};
+
+const WORKOUT_STATUS_COLORS: Record<string, string> = {
+  completed: '#10b981',
+  in_progress: '#3b82f6',
+  skipped: '#f59e0b',
+  cancelled: '#9ca3af',
+  pending: '#d1d5db',
+};
+
+interface ProgramProgressScreenProps {
+  assignmentId: number;
+  onBack: () => void;
+}
+
+export function ProgramProgressScreen({ assignmentId, onBack }: ProgramProgressScreenProps) {
+  const { width } = useWindowDimensions();
+
+  // Responsive design
+  const isSmallScreen = width < 380;
+  const isTablet = width > 600;
+  const containerPadding = isSmallScreen ? 16 : isTablet ? 32 : 24;
+  const titleFontSize = isSmallScreen ? 20 : isTablet ? 28 : 24;
+  const cardPadding = isSmallScreen ? 16 : isTablet ? 24 : 20;
+  const fontSize = isSmallScreen ? 14 : 16;
+  const spacing = isSmallScreen ? 12 : isTablet ? 20 : 16;
+
+  const [progress, setProgress] = useState<ProgramProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [shiftDays, setShiftDays] = useState(7);
+  const [expandedWeek, setExpandedWeek] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchProgress();
+  }, [assignmentId]);
+
+  const fetchProgress = async (showRefreshing = false) => {
+    if (showRefreshing) {
+      setIsRefreshing(true);
+    } else if (!progress) {
+      setIsLoading(true);
+    }
+
+    try {
+      const data = await trpc.programs.getProgramProgress.query({ assignment_id: assignmentId });
+      setProgress(data);
+      // Open the current week the first time the program is shown
+      setExpandedWeek((week) => week ?? (data.current_week || 1));
+    } catch (error) {
+      console.error('❌ Error fetching program progress:', error);
+      Alert.alert('Error', 'Failed to load program progress. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  // Run a program change, then reload the progress it affects
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await fetchProgress();
+      Alert.alert('Success', successMessage);
+    } catch (error: any) {
+      console.error('❌ Error updating program:', error);
+      Alert.alert('Error', error?.message || 'Failed to update the program');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleShift = () => {
+    const direction = shiftDays > 0 ? 'later' : 'earlier';
+    const days = Math.abs(shiftDays);
+
+    Alert.alert(
+      'Shift Program',
+      `Move all upcoming workouts ${days} day${days === 1 ? '' : 's'} ${direction}? The athlete will be notified.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Shift',
+          onPress: () => runAction(
+            () => trpc.programs.shiftProgram.mutate({ assignment_id: assignmentId, days: shiftDays }),
+            `Upcoming workouts moved ${days} day${days === 1 ? '' : 's'} ${direction}`
+          ),
+        },
+      ]
+    );
+  };
+
+  const handlePause = () => {
+    Alert.alert(
+      'Pause Program',
+      'Upcoming workouts will be removed until you resume the program.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Pause',
+          onPress: () => runAction(
+            () => trpc.programs.pauseProgram.mutate({ assignment_id: assignmentId }),
+            'Program paused'
+          ),
+        },
+      ]
+    );
+  };
+
+  const handleResume = () => {
+    Alert.alert(
+      'Resume Program',
+      'The rest of the program picks up from today, pushed back by the length of the pause.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Resume',
+          onPress: () => runAction(
+            () => trpc.programs.resumeProgram.mutate({ assignment_id: assignmentId }),
+            'Program resumed'
+          ),
+        },
+      ]
+    );
+  };
+
+  const handleEnd = () => {
+    Alert.alert(
+      'End Program',
+      'Remaining workouts will be cancelled. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'End Program',
+          style: 'destructive',
+          onPress: () => runAction(
+            () => trpc.programs.endProgram.mutate({ assignment_id: assignmentId }),
+            'Program ended'
+          ),
+        },
+      ]
+    );
+  };
+
+  // Step the shift by a day or a week, skipping zero
+  const stepShift = (step: number) => {
+    setShiftDays((days) => {
+      const next = days + step === 0 ? days + 2 * step : days + step;
+      return Math.max(-MAX_SHIFT_DAYS, Math.min(MAX_SHIFT_DAYS, next));
+    });
+  };
+
+  const renderWeek = (week: ProgramWeek) => {
+    const isExpanded = expandedWeek === week.week_number;
+    const isCurrent = progress?.current_week === week.week_number;
+
+    return (
+      <View
+        key={week.week_number}
+        style={{ borderBottomWidth: 1, borderBottomColor: '#f3f4f6' }}
+      >
+        <Pressable
+          onPress={() => setExpandedWeek(isExpanded ? null : week.week_number)}
+          style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 12 }}
+        >
+          <Text style={{
+            width: 72,
+            fontSize: fontSize - 1,
+            fontWeight: isCurrent ? 'bold' : '600',
+            color: isCurrent ? '#8b5cf6' : '#1f2937'
+          }}>
+            Week {week.week_number}
+          </Text>
+          <View style={{ flex: 1, height: 6, backgroundColor: '#f3f4f6', borderRadius: 3, overflow: 'hidden', marginRight: 12 }}>
+            <View style={{ height: 6, width: `${week.completion_rate}%`, backgroundColor: '#8b5cf6' }} />
+          </View>
+          <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginRight: 4 }}>
+            {week.completed}/{week.total}
+            {week.missed > 0 ? ` · ${week.missed} missed` : ''}
+          </Text>
+          <Feather name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color="#9ca3af" />
+        </Pressable>
+
+        {isExpanded && (
+          <View style={{ paddingBottom: 12 }}>
+            {week.workouts.length > 0 ? (
+              week.workouts.map((workout) => (
+                <View key={workout.id} style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 6 }}>
+                  <View style={{
+                    width: 8,
+                    height: 8,
+                    borderRadius: 4,
+                    backgroundColor: WORKOUT_STATUS_COLORS[workout.status] || '#d1d5db',
+                    marginRight: 10
+                  }} />
+                  <Text style={{ flex: 1, fontSize: fontSize - 1, color: '#374151' }}>
+                    {workout.workout_template?.name || 'Workout'}
+                  </Text>
+                  <Text style={{ fontSize: fontSize - 2, color: '#9ca3af' }}>
+                    {format(parseISO(workout.scheduled_date), 'EEE d MMM')} · {workout.status.replace('_', ' ')}
+                  </Text>
+                </View>
+              ))
+            ) : (
+              <Text style={{ fontSize: fontSize - 2, color: '#9ca3af' }}>
+                No workouts scheduled this week
+              </Text>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading || !progress) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#f3f3f3' }}>
+        <Feather name="loader" size={32} color="#6b7280" />
+        <Text style={{ fontSize: fontSize, color: '#6b7280', marginTop: 16 }}>
+          Loading program...
+        </Text>
+      </View>
+    );
+  }
+
+  const { assignment } = progress;
+  const statusStyle = PROGRAM_STATUS_STYLES[assignment.status];
+  const durationWeeks = assignment.program?.duration_weeks ?? 0;
+  const isActive = assignment.status === 'active';
+  const isPaused = assignment.status === 'paused';
+
+  const summaryCards = [
+    { label: 'Completed', value: progress.progress.completed, color: '#10b981' },
+    { label: 'Missed', value: progress.progress.missed, color: '#ef4444' },
+    { label: 'Skipped', value: progress.progress.skipped, color: '#f59e0b' },
+    { label: 'Upcoming', value: progress.progress.upcoming, color: '#3b82f6' },
+  ];
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
+      <ScrollView
+        contentContainerStyle={{ padding: containerPadding, paddingBottom: containerPadding + 100 }}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={() => fetchProgress(true)}
+            tintColor="#8b5cf6"
+            colors={['#8b5cf6']}
+          />
+        }
+      >
+        <View style={{ maxWidth: isTablet ? 800 : 600, alignSelf: 'center', width: '100%' }}>
+
+          {/* Header */}
+          <View style={{
+            backgroundColor: 'white',
+            padding: cardPadding,
+            borderRadius: 16,
+            marginBottom: spacing,
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <Pressable
+                onPress={onBack}
+                style={{
+                  padding: 8,
+                  borderRadius: 8,
+                  backgroundColor: '#f3f4f6',
+                  marginRight: 12
+                }}
+              >
+                <Feather name="arrow-left" size={20} color="#6b7280" />
+              </Pressable>
+
+              <View style={{ flex: 1 }}>
+                <Text style={{
+                  fontSize: titleFontSize,
+                  fontWeight: 'bold',
+                  color: '#1f2937',
+                  marginBottom: 4
+                }}>
+                  {assignment.program?.name || 'Program'}
+                </Text>
+                <Text style={{ color: '#6b7280', fontSize: fontSize - 2 }}>
+                  {progress.current_week > 0 ? `Week ${progress.current_week} of ${durationWeeks}` : 'Not started'}
+                  {' · started '}{format(parseISO(assignment.start_date), 'd MMM yyyy')}
+                </Text>
+              </View>
+
+              <View style={{
+                backgroundColor: `${statusStyle.color}20`,
+                paddingHorizontal: 10,
+                paddingVertical: 4,
+                borderRadius: 12
+              }}>
+                <Text style={{ color: statusStyle.color, fontSize: 12, fontWeight: '600' }}>
+                  {statusStyle.label}
+                </Text>
+              </View>
+            </View>
+          </View>
+
+          {/* Summary */}
+          <View style={{ flexDirection: 'row', gap: 8, marginBottom: spacing }}>
+            {summaryCards.map((card) => (
+              <View
+                key={card.label}
+                style={{ flex: 1, backgroundColor: 'white', padding: 12, borderRadius: 12, alignItems: 'center' }}
+              >
+                <Text style={{ fontSize: fontSize + 4, fontWeight: 'bold', color: card.color }}>
+                  {card.value}
+                </Text>
+                <Text style={{ fontSize: 12, color: '#6b7280', marginTop: 2 }}>
+                  {card.label}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Actions */}
+          {(isActive || isPaused) && (
+            <View style={{
+              backgroundColor: 'white',
+              padding: cardPadding,
+              borderRadius: 16,
+              marginBottom: spacing,
+            }}>
+              <Text style={{ fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937', marginBottom: 12 }}>
+                Manage Program
+              </Text>
+
+              {isActive && (
+                <View style={{ marginBottom: 12 }}>
+                  <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginBottom: 8 }}>
+                    Shift upcoming workouts
+                  </Text>
+                  <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                    {[-7, -1].map((step) => (
+                      <Pressable
+                        key={step}
+                        onPress={() => stepShift(step)}
+                        disabled={isSaving}
+                        style={{ paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, backgroundColor: '#f3f4f6' }}
+                      >
+                        <Text style={{ fontSize: fontSize - 2, fontWeight: '600', color: '#374151' }}>{step}</Text>
+                      </Pressable>
+                    ))}
+                    <Text style={{ flex: 1, textAlign: 'center', fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                      {shiftDays > 0 ? '+' : ''}{shiftDays} day{Math.abs(shiftDays) === 1 ? '' : 's'}
+                    </Text>
+                    {[1, 7].map((step) => (
+                      <Pressable
+                        key={step}
+                        onPress={() => stepShift(step)}
+                        disabled={isSaving}
+                        style={{ paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, backgroundColor: '#f3f4f6' }}
+                      >
+                        <Text style={{ fontSize: fontSize - 2, fontWeight: '600', color: '#374151' }}>+{step}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                  <Pressable
+                    onPress={handleShift}
+                    disabled={isSaving}
+                    style={{
+                      marginTop: 8,
+                      paddingVertical: 12,
+                      borderRadius: 8,
+                      alignItems: 'center',
+                      backgroundColor: '#8b5cf6',
+                      opacity: isSaving ? 0.6 : 1
+                    }}
+                  >
+                    <Text style={{ color: 'white', fontWeight: '600', fontSize: fontSize - 1 }}>Shift Workouts</Text>
+                  </Pressable>
+                </View>
+              )}
+
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <Pressable
+                  onPress={isActive ? handlePause : handleResume}
+                  disabled={isSaving}
+                  style={{
+                    flex: 1,
+                    flexDirection: 'row',
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                    paddingVertical: 12,
+                    borderRadius: 8,
+                    backgroundColor: isActive ? '#fef3c7' : '#d1fae5',
+                    opacity: isSaving ? 0.6 : 1
+                  }}
+                >
+                  <Feather name={isActive ? 'pause' : 'play'} size={16} color={isActive ? '#b45309' : '#047857'} />
+                  <Text style={{ marginLeft: 6, fontWeight: '600', fontSize: fontSize - 1, color: isActive ? '#b45309' : '#047857' }}>
+                    {isActive ? 'Pause' : 'Resume'}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={handleEnd}
+                  disabled={isSaving}
+                  style={{
+                    flex: 1,
+                    flexDirection: 'row',
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                    paddingVertical: 12,
+                    borderRadius: 8,
+                    backgroundColor: '#fee2e2',
+                    opacity: isSaving ? 0.6 : 1
+                  }}
+                >
+                  <Feather name="x-circle" size={16} color="#b91c1c" />
+                  <Text style={{ marginLeft: 6, fontWeight: '600', fontSize: fontSize - 1, color: '#b91c1c' }}>
+                    End
+                  </Text>
+                </Pressable>
+              </View>
+
+              {isSaving && <ActivityIndicator style={{ marginTop: 12 }} color="#8b5cf6" />}
+            </View>
+          )}
+
+          {/* Week by week */}
+          <View style={{
+            backgroundColor: 'white',
+            paddingHorizontal: cardPadding,
+            paddingTop: cardPadding,
+            paddingBottom: 8,
+            borderRadius: 16,
+            marginBottom: spacing,
+          }}>
+            <Text style={{ fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937', marginBottom: 4 }}>
+              Weekly Progress
+            </Text>
+            {progress.weeks.map(renderWeek)}
+            {progress.unlinked_workouts.length > 0 && (
+              <Text style={{ fontSize: fontSize - 2, color: '#9ca3af', paddingVertical: 12 }}>
+                {progress.unlinked_workouts.length} workout{progress.unlinked_workouts.length === 1 ? '' : 's'} from
+                slots since removed from the program
+              </Text>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
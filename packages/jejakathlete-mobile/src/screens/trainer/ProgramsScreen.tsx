@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, RefreshControl } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import { trpc, type RouterOutputs } from '../../lib/trpc';
+import { ProgramProgressScreen, PROGRAM_STATUS_STYLES } from './ProgramProgressScreen';
+
+type ProgramAssignmentSummary = RouterOutputs['programs']['listProgramAssignments'][number];
+
+type StatusFilter = 'current' | 'finished';
+
+export function ProgramsScreen({ onBack }: { onBack: () => void }) {
+  const { width } = useWindowDimensions();
+
+  // Responsive design
+  const isSmallScreen = width < 380;
+  const isTablet = width > 600;
+  const containerPadding = isSmallScreen ? 16 : isTablet ? 32 : 24;
+  const titleFontSize = isSmallScreen ? 20 : isTablet ? 28 : 24;
+  const cardPadding = isSmallScreen ? 16 : isTablet ? 24 : 20;
+  const fontSize = isSmallScreen ? 14 : 16;
+  const spacing = isSmallScreen ? 12 : isTablet ? 20 : 16;
+
+  const [assignments, setAssignments] = useState<ProgramAssignmentSummary[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('current');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [selectedAssignmentId, setSelectedAssignmentId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, []);
+
+  const fetchAssignments = async (showRefreshing = false) => {
+    if (showRefreshing) {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
+
+    try {
+      setAssignments(await trpc.programs.listProgramAssignments.query());
+    } catch (error) {
+      console.error('❌ Error fetching program assignments:', error);
+      Alert.alert('Error', 'Failed to load programs. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  const filteredAssignments = assignments.filter((assignment) =>
+    statusFilter === 'current'
+      ? assignment.status === 'active' || assignment.status === 'paused'
+      : assignment.status === 'completed' || assignment.status === 'ended'
+  );
+
+  // Show an assignment's progress if selected; reload on the way back since
+  // it may have been shifted, paused or ended
+  if (selectedAssignmentId !== null) {
+    return (
+      <ProgramProgressScreen
+        assignmentId={selectedAssignmentId}
+        onBack={() => {
+          setSelectedAssignmentId(null);
+          fetchAssignments(true);
+        }}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#f3f3f3' }}>
+        <Feather name="loader" size={32} color="#6b7280" />
+        <Text style={{ fontSize: fontSize, color: '#6b7280', marginTop: 16 }}>
+          Loading programs...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
+      <ScrollView
+        contentContainerStyle={{ padding: containerPadding, paddingBottom: containerPadding + 100 }}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={() => fetchAssignments(true)}
+            tintColor="#8b5cf6"
+            colors={['#8b5cf6']}
+          />
+        }
+      >
+        <View style={{ maxWidth: isTablet ? 800 : 600, alignSelf: 'center', width: '100%' }}>
+
+          {/* Header */}
+          <View style={{
+            backgroundColor: 'white',
+            padding: cardPadding,
+            borderRadius: 16,
+            marginBottom: spacing,
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 16 }}>
+              <Pressable
+                onPress={onBack}
+                style={{
+                  padding: 8,
+                  borderRadius: 8,
+                  backgroundColor: '#f3f4f6',
+                  marginRight: 12
+                }}
+              >
+                <Feather name="arrow-left" size={20} color="#6b7280" />
+              </Pressable>
+
+              <View style={{ flex: 1 }}>
+                <Text style={{
+                  fontSize: titleFontSize,
+                  fontWeight: 'bold',
+                  color: '#1f2937',
+                  marginBottom: 4
+                }}>
+                  Programs
+                </Text>
+                <Text style={{ color: '#6b7280', fontSize: fontSize - 2 }}>
+                  Track athletes through their assigned programs
+                </Text>
+              </View>
+            </View>
+
+            {/* Status filter */}
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              {([['current', 'Current'], ['finished', 'Finished']] as const).map(([value, label]) => (
+                <Pressable
+                  key={value}
+                  onPress={() => setStatusFilter(value)}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 10,
+                    borderRadius: 8,
+                    alignItems: 'center',
+                    backgroundColor: statusFilter === value ? '#8b5cf6' : '#f3f4f6'
+                  }}
+                >
+                  <Text style={{
+                    fontSize: fontSize - 2,
+                    fontWeight: '600',
+                    color: statusFilter === value ? 'white' : '#6b7280'
+                  }}>
+                    {label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          {/* Assignments */}
+          {filteredAssignments.length > 0 ? (
+            filteredAssignments.map((assignment) => {
+              const statusStyle = PROGRAM_STATUS_STYLES[assignment.status];
+              const durationWeeks = assignment.program?.duration_weeks ?? 0;
+
+              return (
+                <Pressable
+                  key={assignment.id}
+                  onPress={() => setSelectedAssignmentId(assignment.id)}
+                  style={{
+                    backgroundColor: 'white',
+                    padding: cardPadding,
+                    borderRadius: 16,
+                    marginBottom: spacing,
+                  }}
+                >
+                  <View style={{ flexDirection: 'row', alignItems: 'flex-start', marginBottom: 8 }}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ fontSize: fontSize + 1, fontWeight: 'bold', color: '#1f2937' }}>
+                        {assignment.athlete?.full_name || 'Athlete'}
+                      </Text>
+                      <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginTop: 2 }}>
+                        {assignment.program?.name || 'Program'} · started {format(parseISO(assignment.start_date), 'd MMM yyyy')}
+                      </Text>
+                    </View>
+                    <View style={{
+                      backgroundColor: `${statusStyle.color}20`,
+                      paddingHorizontal: 10,
+                      paddingVertical: 4,
+                      borderRadius: 12
+                    }}>
+                      <Text style={{ color: statusStyle.color, fontSize: 12, fontWeight: '600' }}>
+                        {statusStyle.label}
+                      </Text>
+                    </View>
+                  </View>
+
+                  {/* Progress bar */}
+                  <View style={{ height: 8, backgroundColor: '#f3f4f6', borderRadius: 4, overflow: 'hidden', marginVertical: 8 }}>
+                    <View style={{
+                      height: 8,
+                      width: `${assignment.progress.completion_rate}%`,
+                      backgroundColor: '#8b5cf6',
+                      borderRadius: 4
+                    }} />
+                  </View>
+
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                    <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>
+                      {assignment.current_week > 0 ? `Week ${assignment.current_week} of ${durationWeeks}` : 'Not started'}
+                    </Text>
+                    <Text style={{ fontSize: fontSize - 2, color: '#6b7280' }}>
+                      {assignment.progress.completed}/{assignment.progress.total} done
+                      {assignment.progress.missed > 0 ? ` · ${assignment.progress.missed} missed` : ''}
+                    </Text>
+                  </View>
+                </Pressable>
+              );
+            })
+          ) : (
+            <View style={{
+              backgroundColor: 'white',
+              padding: cardPadding,
+              borderRadius: 16,
+              alignItems: 'center',
+              paddingVertical: 32
+            }}>
+              <Feather name="layers" size={32} color="#9ca3af" />
+              <Text style={{ fontSize: fontSize, color: '#6b7280', marginTop: 12, textAlign: 'center' }}>
+                {statusFilter === 'current' ? 'No programs in progress' : 'No finished programs'}
+              </Text>
+              <Text style={{ fontSize: fontSize - 2, color: '#9ca3af', marginTop: 4, textAlign: 'center' }}>
+                Programs appear here once they are assigned to an athlete
+              </Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
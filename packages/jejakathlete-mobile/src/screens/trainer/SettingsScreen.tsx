@@ -1,22 +1,29 @@
 import React, { useState } from 'react';
 import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView } from 'react-native';
 import { useSession } from '../../contexts/AuthContext';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { LANGUAGES } from '../../i18n';
 import { Feather } from '@expo/vector-icons';
 import { ProfileScreen } from './ProfileScreen';
 import { ChangelogModal } from '../../components/ui/ChangelogModal';
 import { PrivacyPolicyModal } from '../../components/ui/PrivacyPolicyModal';
 import { PrivacySecurityScreen } from '../shared/PrivacySecurityScreen';
 import { TermsOfServiceScreen } from '../shared/TermsOfServiceScreen';
+import { CalendarSubscriptionScreen } from '../shared/CalendarSubscriptionScreen';
+import { NotificationPreferencesScreen } from '../shared/NotificationPreferencesScreen';
 
 
 export function SettingsScreen() {
   const { user, logout } = useSession();
+  const { t, language, setLanguage } = useTranslation();
   const { width } = useWindowDimensions();
   const [showProfile, setShowProfile] = useState(false);
   const [showChangelog, setShowChangelog] = useState(false);
   const [showPrivacyPolicy, setShowPrivacyPolicy] = useState(false);
   const [showPrivacySecurity, setShowPrivacySecurity] = useState(false);
   const [showTermsOfService, setShowTermsOfService] = useState(false);
+  const [showCalendarSubscription, setShowCalendarSubscription] = useState(false);
+  const [showNotificationPreferences, setShowNotificationPreferences] = useState(false);
   
   // Responsive design
   const isSmallScreen = width < 380;
@@ -29,21 +36,21 @@ export function SettingsScreen() {
 
   const handleSignOut = () => {
     Alert.alert(
-      'Sign Out',
-      'Are you sure you want to sign out?',
+      t('settings.signOut'),
+      t('settings.signOutConfirm'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Sign Out',
+          text: t('settings.signOut'),
           style: 'destructive',
           onPress: async () => {
             try {
               await logout();
             } catch (error) {
-              Alert.alert('Error', 'Failed to sign out. Please try again.');
+              Alert.alert(t('common.error'), t('settings.signOutFailed'));
             }
           },
         },
@@ -51,6 +58,23 @@ export function SettingsScreen() {
     );
   };
 
+  const handleChangeLanguage = () => {
+    Alert.alert(
+      t('language.title'),
+      t('language.choose'),
+      [
+        ...LANGUAGES.map((option) => ({
+          text: option.name,
+          onPress: () => setLanguage(option.code),
+        })),
+        {
+          text: t('common.cancel'),
+          style: 'cancel' as const,
+        },
+      ]
+    );
+  };
+
 
 
   const SettingItem = ({ 
@@ -148,6 +172,16 @@ export function SettingsScreen() {
     return <TermsOfServiceScreen onBack={() => setShowTermsOfService(false)} />;
   }
 
+  // Show CalendarSubscriptionScreen if requested
+  if (showCalendarSubscription) {
+    return <CalendarSubscriptionScreen onBack={() => setShowCalendarSubscription(false)} />;
+  }
+
+  // Show NotificationPreferencesScreen if requested
+  if (showNotificationPreferences) {
+    return <NotificationPreferencesScreen onBack={() => setShowNotificationPreferences(false)} />;
+  }
+
 
   return (
     <View style={{ flex: 1, backgroundColor: '#f3f3f3' }}>
@@ -176,10 +210,10 @@ export function SettingsScreen() {
                   color: '#1f2937',
                   marginBottom: 4
                 }}>
-                  Settings
+                  {t('settings.title')}
                 </Text>
                 <Text style={{ color: '#6b7280', fontSize: fontSize - 2 }}>
-                  Manage your account and app preferences
+                  {t('settings.subtitle')}
                 </Text>
               </View>
               
@@ -197,7 +231,7 @@ export function SettingsScreen() {
           </View>
 
           {/* Account Section */}
-          <SectionHeader title="Account" />
+          <SectionHeader title={t('settings.sections.account')} />
           <View style={{
             backgroundColor: 'white',
             borderRadius: 12,
@@ -206,14 +240,14 @@ export function SettingsScreen() {
           }}>
             <SettingItem
               icon="user"
-              title="Profile"
-              subtitle={`${user?.full_name || 'Unknown'} • ${user?.email || 'No email'}`}
+              title={t('settings.profile')}
+              subtitle={`${user?.full_name || t('common.unknown')} • ${user?.email || t('common.noEmail')}`}
               onPress={() => setShowProfile(true)}
             />
           </View>
 
           {/* Preferences Section */}
-          <SectionHeader title="Preferences" />
+          <SectionHeader title={t('settings.sections.preferences')} />
           <View style={{
             backgroundColor: 'white',
             borderRadius: 12,
@@ -222,16 +256,28 @@ export function SettingsScreen() {
           }}>
             <SettingItem
               icon="globe"
-              title="Language"
-              subtitle="English (US)"
-              onPress={() => Alert.alert('Language', 'Language settings coming soon!')}
+              title={t('language.title')}
+              subtitle={LANGUAGES.find((option) => option.code === language)?.name}
+              onPress={handleChangeLanguage}
+            />
+            <SettingItem
+              icon="calendar"
+              title={t('settings.calendarSubscription')}
+              subtitle={t('settings.calendarSubscriptionSubtitle')}
+              onPress={() => setShowCalendarSubscription(true)}
+            />
+            <SettingItem
+              icon="bell"
+              title={t('settings.notifications')}
+              subtitle={t('settings.notificationsSubtitle')}
+              onPress={() => setShowNotificationPreferences(true)}
             />
           </View>
 
 
 
           {/* About Section */}
-          <SectionHeader title="About" />
+          <SectionHeader title={t('settings.sections.about')} />
           <View style={{
             backgroundColor: 'white',
             borderRadius: 12,
@@ -240,33 +286,33 @@ export function SettingsScreen() {
           }}>
             <SettingItem
               icon="info"
-              title="App Version"
+              title={t('settings.appVersion')}
               subtitle="1.3.11"
               onPress={() => setShowChangelog(true)}
             />
             <SettingItem
               icon="help-circle"
-              title="Help & Support"
-              subtitle="Get help and contact support"
-              onPress={() => Alert.alert('Support', 'Help & support coming soon!')}
+              title={t('settings.helpSupport')}
+              subtitle={t('settings.helpSupportSubtitle')}
+              onPress={() => Alert.alert(t('settings.helpSupport'), t('common.comingSoon', { feature: t('settings.helpSupport') }))}
             />
             <SettingItem
               icon="file-text"
-              title="Terms of Service"
-              subtitle="Read our terms and conditions"
+              title={t('settings.termsOfService')}
+              subtitle={t('settings.termsOfServiceSubtitle')}
               onPress={() => setShowTermsOfService(true)}
             />
             <SettingItem
               icon="shield"
-              title="Privacy Policy"
-              subtitle="Learn how we protect your data"
+              title={t('settings.privacyPolicy')}
+              subtitle={t('settings.privacyPolicySubtitle')}
               onPress={() => setShowPrivacyPolicy(true)}
             />
             <SettingItem
               icon="star"
-              title="Rate App"
-              subtitle="Help us improve by rating the app"
-              onPress={() => Alert.alert('Rate', 'Rate app coming soon!')}
+              title={t('settings.rateApp')}
+              subtitle={t('settings.rateAppSubtitle')}
+              onPress={() => Alert.alert(t('settings.rateApp'), t('common.comingSoon', { feature: t('settings.rateApp') }))}
             />
           </View>
 
@@ -291,7 +337,7 @@ export function SettingsScreen() {
               color: '#dc2626',
               marginLeft: 12
             }}>
-              Sign Out
+              {t('settings.signOut')}
             </Text>
           </Pressable>
 
@@ -1,17 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, Pressable, useWindowDimensions, ScrollView, Alert, RefreshControl } from 'react-native';
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
+import type { NotificationTarget, TrainerDashboardStats } from '@jejakathlete/shared';
 import { FloatingBottomNav, renderScreenFromRoute, getRoutes } from '../../components/ui/FloatingBottomNav';
 import { ManageAthletesScreen } from './ManageAthletesScreen';
-import { AthleteDetailsScreen } from './AthleteDetailsScreen';
+import { AthleteDetailsScreen, type AthleteDetailsTab } from './AthleteDetailsScreen';
 import { WorkoutBuilderScreen } from './WorkoutBuilderScreen';
 import { WorkoutProgressDashboard } from '../../components/workout/WorkoutProgressDashboard';
 import { TrainerScheduleScreen } from './TrainerScheduleScreen';
+import { ProgramsScreen } from './ProgramsScreen';
 import { OfflineIndicator } from '../../components/ui/OfflineIndicator';
-import { tursoDbHelpers } from '../../lib/turso-database';
+import { TrainerVerificationCard } from '../../components/trainer/TrainerVerificationCard';
+import { NotificationBadge } from '../../components/ui/NotificationBadge';
+import { NotificationCenterScreen } from '../shared/NotificationCenterScreen';
+import { useRealtimeChanges } from '../../contexts/RealtimeContext';
+import { format, parseISO } from 'date-fns';
 import { formatTimeAgo } from '../../lib/date-utils';
-import { getTrainerWorkoutAssignments } from '../../lib/api';
+import { trpc } from '../../lib/trpc';
 
 export function TrainerHomeScreen() {
   const { user, logout } = useSession();
@@ -19,24 +25,20 @@ export function TrainerHomeScreen() {
   const [activeTab, setActiveTab] = useState('home');
   const [showManageAthletes, setShowManageAthletes] = useState(false);
   const [showAthleteProfile, setShowAthleteProfile] = useState(false);
-  const [selectedAthleteId, setSelectedAthleteId] = useState<number | null>(null);
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
+  const [athleteInitialTab, setAthleteInitialTab] = useState<AthleteDetailsTab>('profile');
   const [showWorkoutBuilder, setShowWorkoutBuilder] = useState(false);
   const [showWorkoutProgress, setShowWorkoutProgress] = useState(false);
   const [showSchedule, setShowSchedule] = useState(false);
+  const [showPrograms, setShowPrograms] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
   
   // Dashboard data state
-  const [stats, setStats] = useState({
-    totalAthletes: 0,
-    activeSessions: 0,
-    completedSessions: 0,
-    avgProgress: 0,
-    totalWorkouts: 0,
-    completedWorkouts: 0,
-    workoutCompletionRate: 0
-  });
+  const [stats, setStats] = useState<TrainerDashboardStats | null>(null);
   const [recentActivities, setRecentActivities] = useState<any[]>([]);
   const [isLoadingDashboard, setIsLoadingDashboard] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const liveRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Responsive design
   const isSmallScreen = width < 380;
@@ -57,141 +59,57 @@ export function TrainerHomeScreen() {
     }
   }, [user?.id]);
 
-  const fetchDashboardData = async (isRefreshAction = false) => {
+  // Refresh the dashboard quietly when enrollments or workout assignments change.
+  // Changes often come in bursts (e.g. a program scheduling many workouts), so wait for them to settle.
+  const scheduleLiveRefresh = () => {
+    if (liveRefreshTimer.current) clearTimeout(liveRefreshTimer.current);
+    liveRefreshTimer.current = setTimeout(() => fetchDashboardData(false, true), 1000);
+  };
+
+  useRealtimeChanges(['enrollment', 'workout_assignment'], scheduleLiveRefresh, scheduleLiveRefresh);
+
+  useEffect(() => {
+    return () => {
+      if (liveRefreshTimer.current) clearTimeout(liveRefreshTimer.current);
+    };
+  }, []);
+
+  const fetchDashboardData = async (isRefreshAction = false, isSilent = false) => {
     if (!user?.id) return;
     
     if (isRefreshAction) {
       setIsRefreshing(true);
-    } else {
+    } else if (!isSilent) {
       setIsLoadingDashboard(true);
     }
     try {
-      
-      // Fetch total enrolled athletes
-      const totalAthletesResult = await tursoDbHelpers.get(`
-        SELECT COUNT(*) as count
-        FROM enrollments e
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-      `, [user.id]);
-      
-      // Fetch active sessions (recent tests in last 7 days)
-      const activeSessionsResult = await tursoDbHelpers.get(`
-        SELECT COUNT(DISTINCT tr.athlete_id) as count
-        FROM test_results tr
-        JOIN enrollments e ON tr.athlete_id = e.athlete_id
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-        AND tr.test_date >= date('now', '-7 days')
-      `, [user.id]);
-      
-      // Fetch total completed sessions (total test results)
-      const completedSessionsResult = await tursoDbHelpers.get(`
-        SELECT COUNT(*) as count
-        FROM test_results tr
-        JOIN enrollments e ON tr.athlete_id = e.athlete_id
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-      `, [user.id]);
-      
-      // Calculate average progress (simplified - based on personal best percentage)
-      const progressResult = await tursoDbHelpers.get(`
-        SELECT 
-          CASE 
-            WHEN COUNT(*) > 0 
-            THEN ROUND((SUM(CASE WHEN tr.is_best_record = 1 THEN 1 ELSE 0 END) * 100.0 / COUNT(*)), 0)
-            ELSE 0 
-          END as avg_progress
-        FROM test_results tr
-        JOIN enrollments e ON tr.athlete_id = e.athlete_id
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-        AND tr.test_date >= date('now', '-30 days')
-      `, [user.id]);
-
-      // Fetch workout stats
-      const workoutAssignments = await getTrainerWorkoutAssignments(user.id);
-      const totalWorkouts = workoutAssignments.length;
-      const completedWorkouts = workoutAssignments.filter((w: any) => w.status === 'completed').length;
-      const workoutCompletionRate = totalWorkouts > 0 
-        ? Math.round((completedWorkouts / totalWorkouts) * 100) 
-        : 0;
-
-      // Fetch recent activities (including workout completions)
-      const activities = await tursoDbHelpers.all(`
-        SELECT 
-          u.full_name as athlete_name,
-          t.name as test_name,
-          tr.created_at as activity_time,
-          tr.is_best_record,
-          'test_completed' as activity_type
-        FROM test_results tr
-        JOIN users u ON tr.athlete_id = u.id
-        JOIN tests t ON tr.test_id = t.id
-        JOIN enrollments e ON tr.athlete_id = e.athlete_id
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-        
-        UNION ALL
-        
-        SELECT 
-          u.full_name as athlete_name,
-          'Enrolled with you' as test_name,
-          e.responded_at as activity_time,
-          0 as is_best_record,
-          'enrollment' as activity_type
-        FROM enrollments e
-        JOIN users u ON e.athlete_id = u.id
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-        AND e.responded_at >= date('now', '-7 days')
-        
-        ORDER BY activity_time DESC
-        LIMIT 5
-      `, [user.id, user.id]);
-
-      // Add recent workout completions to activities
-      const recentWorkoutCompletions = workoutAssignments
-        .filter((w: any) => w.status === 'completed' && w.completed_at)
-        .sort((a: any, b: any) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime())
-        .slice(0, 3)
-        .map((w: any) => ({
-          athlete_name: w.athlete_name,
-          test_name: w.workout_name,
-          activity_time: w.completed_at,
-          is_best_record: 0,
-          activity_type: 'workout_completed'
-        }));
-
-      // Merge and sort all activities
-      const allActivities = [...activities, ...recentWorkoutCompletions]
-        .sort((a, b) => new Date(b.activity_time).getTime() - new Date(a.activity_time).getTime())
-        .slice(0, 5);
+      // Dashboard statistics and recent activity come back from the server in one bundle
+      const dashboardStats = await trpc.dashboard.getTrainerStats.query();
 
       // Format activities for display
-      const formattedActivities = allActivities.map((activity: any, index: number) => ({
+      const formattedActivities = dashboardStats.recent_activity.map((activity, index) => ({
         id: index + 1,
         athlete: activity.athlete_name,
-        action: activity.activity_type === 'enrollment' 
+        action: activity.type === 'enrollment'
           ? 'Enrolled with you'
-          : activity.activity_type === 'workout_completed'
-            ? `Completed workout: ${activity.test_name}`
-            : activity.is_best_record 
-              ? `New PR in ${activity.test_name}`
-              : `Completed ${activity.test_name}`,
-        time: formatTimeAgo(activity.activity_time),
-        type: activity.is_best_record || activity.activity_type === 'enrollment' || activity.activity_type === 'workout_completed' ? 'success' : 'info'
+          : activity.type === 'workout_completed'
+            ? `Completed workout: ${activity.subject}`
+            : activity.type === 'personal_record'
+              ? `New PR in ${activity.subject}`
+              : `Completed ${activity.subject}`,
+        time: formatTimeAgo(activity.occurred_at),
+        type: activity.type === 'test_completed' ? 'info' : 'success'
       })).slice(0, 3); // Show only top 3
 
-      setStats({
-        totalAthletes: totalAthletesResult?.count || 0,
-        activeSessions: activeSessionsResult?.count || 0,
-        completedSessions: completedSessionsResult?.count || 0,
-        avgProgress: progressResult?.avg_progress || 0,
-        totalWorkouts,
-        completedWorkouts,
-        workoutCompletionRate
-      });
+      setStats(dashboardStats);
       
       setRecentActivities(formattedActivities);
       
     } catch (error) {
       console.error('❌ Error fetching dashboard data:', error);
-      Alert.alert('Error', 'Failed to load dashboard data. Please try again.');
+      if (!isSilent) {
+        Alert.alert('Error', 'Failed to load dashboard data. Please try again.');
+      }
     } finally {
       setIsLoadingDashboard(false);
       setIsRefreshing(false);
@@ -203,6 +121,50 @@ export function TrainerHomeScreen() {
     { id: 2, title: 'Create Workout', icon: 'plus-circle', color: '#10b981' },
     { id: 3, title: 'Workout Progress', icon: 'activity', color: '#8b5cf6' },
     { id: 4, title: 'Schedule', icon: 'calendar', color: '#f59e0b' },
+    { id: 5, title: 'Programs', icon: 'layers', color: '#06b6d4' },
+  ];
+
+  // White card with a title row, used by the dashboard lists
+  const DashboardSection = ({ title, icon, iconColor, onSeeAll, children }: {
+    title: string;
+    icon: string;
+    iconColor: string;
+    onSeeAll?: () => void;
+    children: React.ReactNode;
+  }) => (
+    <View style={{
+      backgroundColor: 'white',
+      padding: cardPadding,
+      borderRadius: 16,
+      marginBottom: spacing,
+    }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+        <Feather name={icon as any} size={20} color={iconColor} style={{ marginRight: 8 }} />
+        <Text style={{ flex: 1, fontSize: fontSize + 2, fontWeight: 'bold', color: '#1f2937' }}>
+          {title}
+        </Text>
+        {onSeeAll && (
+          <Pressable onPress={onSeeAll}>
+            <Text style={{ fontSize: fontSize - 2, fontWeight: '600', color: '#3b82f6' }}>See all</Text>
+          </Pressable>
+        )}
+      </View>
+      {children}
+    </View>
+  );
+
+  // Headline numbers from the dashboard statistics
+  const statCards = [
+    { label: 'Active Athletes', value: `${stats?.active_athletes ?? 0}`, color: '#3b82f6' },
+    { label: 'Pending Requests', value: `${stats?.pending_requests ?? 0}`, color: '#f59e0b' },
+    { label: 'Due This Week', value: `${stats?.workouts_this_week.due ?? 0}`, color: '#8b5cf6' },
+    { label: 'Overdue', value: `${stats?.workouts_this_week.overdue ?? 0}`, color: '#ef4444' },
+    { label: 'Done This Week', value: `${stats?.workouts_this_week.completed ?? 0}`, color: '#10b981' },
+    {
+      label: `Adherence (${stats?.adherence.weeks ?? 4} wks)`,
+      value: stats?.adherence.rate == null ? '—' : `${stats.adherence.rate}%`,
+      color: '#06b6d4'
+    },
   ];
 
   const handleTabPress = (tab: string) => {
@@ -214,6 +176,8 @@ export function TrainerHomeScreen() {
     setShowWorkoutBuilder(false);
     setShowWorkoutProgress(false);
     setShowSchedule(false);
+    setShowPrograms(false);
+    setShowNotifications(false);
   };
 
   // Handle pull-to-refresh
@@ -222,8 +186,9 @@ export function TrainerHomeScreen() {
   };
 
   // Navigation handlers
-  const handleNavigateToAthleteProfile = (athleteId: number) => {
+  const handleNavigateToAthleteProfile = (athleteId: string, initialTab: AthleteDetailsTab = 'profile') => {
     setSelectedAthleteId(athleteId);
+    setAthleteInitialTab(initialTab);
     setShowAthleteProfile(true);
     setShowManageAthletes(false);
   };
@@ -234,13 +199,52 @@ export function TrainerHomeScreen() {
     setShowManageAthletes(true);
   };
 
+  // Open the screen a notification links to
+  const handleOpenNotificationTarget = (target: NotificationTarget) => {
+    setShowNotifications(false);
+
+    switch (target.screen) {
+      case 'enrollments':
+        setShowManageAthletes(true);
+        break;
+      case 'athlete':
+        handleNavigateToAthleteProfile(target.athlete_id);
+        break;
+      case 'goals':
+        handleNavigateToAthleteProfile(target.athlete_id, 'goals');
+        break;
+      case 'workout':
+      case 'workouts':
+        setShowWorkoutProgress(true);
+        break;
+      case 'event':
+      case 'schedule':
+        setShowSchedule(true);
+        break;
+      default:
+        // Verification decisions show on the dashboard; data exports are
+        // downloaded from Privacy & Security
+        break;
+    }
+  };
+
   // Render different screens based on active tab
   const renderScreen = () => {
+    // Show NotificationCenterScreen if requested
+    if (showNotifications) {
+      return (
+        <NotificationCenterScreen
+          onBack={() => setShowNotifications(false)}
+          onOpenTarget={handleOpenNotificationTarget}
+        />
+      );
+    }
+
     // Show WorkoutProgressDashboard if requested
-    if (showWorkoutProgress) {
+    if (showWorkoutProgress && user) {
       return (
         <WorkoutProgressDashboard 
-          trainerId={user?.id || 0}
+          trainerId={user.id}
           onBack={() => setShowWorkoutProgress(false)}
         />
       );
@@ -260,6 +264,7 @@ export function TrainerHomeScreen() {
       return (
         <AthleteDetailsScreen 
           athleteId={selectedAthleteId} 
+          initialTab={athleteInitialTab}
           onBack={handleBackFromAthleteProfile} 
         />
       );
@@ -275,6 +280,15 @@ export function TrainerHomeScreen() {
       );
     }
 
+    // Show ProgramsScreen if requested
+    if (showPrograms) {
+      return (
+        <ProgramsScreen
+          onBack={() => setShowPrograms(false)}
+        />
+      );
+    }
+
     // Show ScheduleScreen if requested
     if (showSchedule) {
       return (
@@ -400,19 +414,36 @@ export function TrainerHomeScreen() {
                 </View>
               </View>
               
-              <Pressable
-                onPress={logout}
-                style={{
-                  padding: 8,
-                  borderRadius: 8,
-                  backgroundColor: '#f3f4f6'
-                }}
-              >
-                <Feather name="log-out" size={20} color="#6b7280" />
-              </Pressable>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <Pressable
+                  onPress={() => setShowNotifications(true)}
+                  style={{
+                    padding: 8,
+                    borderRadius: 8,
+                    backgroundColor: '#f3f4f6'
+                  }}
+                >
+                  <Feather name="bell" size={20} color="#6b7280" />
+                  <NotificationBadge size="small" />
+                </Pressable>
+
+                <Pressable
+                  onPress={logout}
+                  style={{
+                    padding: 8,
+                    borderRadius: 8,
+                    backgroundColor: '#f3f4f6'
+                  }}
+                >
+                  <Feather name="log-out" size={20} color="#6b7280" />
+                </Pressable>
+              </View>
             </View>
           </View>
 
+          {/* Verification Status */}
+          <TrainerVerificationCard fontSize={fontSize} cardPadding={cardPadding} spacing={spacing} />
+
           {/* Stats Cards - Horizontal Scroll */}
           <ScrollView
             horizontal={true}
@@ -427,143 +458,33 @@ export function TrainerHomeScreen() {
               height: isSmallScreen ? 70 : 75
             }}
           >
-            <View style={{
-              width: isSmallScreen ? 110 : 130,
-              backgroundColor: 'white',
-              padding: isSmallScreen ? 12 : 16,
-              borderRadius: 12,
-            }}>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 20 : 22, 
-                fontWeight: 'bold', 
-                color: '#3b82f6', 
-                marginBottom: 4 
-              }}>
-                {isLoadingDashboard ? '...' : stats.totalAthletes}
-              </Text>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 11 : 12, 
-                color: '#6b7280',
-                lineHeight: 16
-              }}>
-                Total Athletes
-              </Text>
-            </View>
-            
-            <View style={{
-              width: isSmallScreen ? 110 : 130,
-              backgroundColor: 'white',
-              padding: isSmallScreen ? 12 : 16,
-              borderRadius: 12,
-            }}>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 20 : 22, 
-                fontWeight: 'bold', 
-                color: '#10b981', 
-                marginBottom: 4 
-              }}>
-                {isLoadingDashboard ? '...' : stats.activeSessions}
-              </Text>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 11 : 12, 
-                color: '#6b7280',
-                lineHeight: 16
-              }}>
-                Active Sessions
-              </Text>
-            </View>
-            
-            <View style={{
-              width: isSmallScreen ? 110 : 130,
-              backgroundColor: 'white',
-              padding: isSmallScreen ? 12 : 16,
-              borderRadius: 12,
-            }}>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 20 : 22, 
-                fontWeight: 'bold', 
-                color: '#f59e0b', 
-                marginBottom: 4 
-              }}>
-                {isLoadingDashboard ? '...' : stats.completedSessions}
-              </Text>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 11 : 12, 
-                color: '#6b7280',
-                lineHeight: 16
-              }}>
-                Completed
-              </Text>
-            </View>
-            
-            <View style={{
-              width: isSmallScreen ? 110 : 130,
-              backgroundColor: 'white',
-              padding: isSmallScreen ? 12 : 16,
-              borderRadius: 12,
-            }}>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 20 : 22, 
-                fontWeight: 'bold', 
-                color: '#8b5cf6', 
-                marginBottom: 4 
-              }}>
-                {isLoadingDashboard ? '...' : `${stats.avgProgress}%`}
-              </Text>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 11 : 12, 
-                color: '#6b7280',
-                lineHeight: 16
-              }}>
-                Avg Progress
-              </Text>
-            </View>
-
-            <View style={{
-              width: isSmallScreen ? 110 : 130,
-              backgroundColor: 'white',
-              padding: isSmallScreen ? 12 : 16,
-              borderRadius: 12,
-            }}>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 20 : 22, 
-                fontWeight: 'bold', 
-                color: '#ec4899', 
-                marginBottom: 4 
-              }}>
-                {isLoadingDashboard ? '...' : stats.completedWorkouts}
-              </Text>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 11 : 12, 
-                color: '#6b7280',
-                lineHeight: 16
-              }}>
-                Workouts Done
-              </Text>
-            </View>
-
-            <View style={{
-              width: isSmallScreen ? 110 : 130,
-              backgroundColor: 'white',
-              padding: isSmallScreen ? 12 : 16,
-              borderRadius: 12,
-            }}>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 20 : 22, 
-                fontWeight: 'bold', 
-                color: '#06b6d4', 
-                marginBottom: 4 
-              }}>
-                {isLoadingDashboard ? '...' : `${stats.workoutCompletionRate}%`}
-              </Text>
-              <Text style={{ 
-                fontSize: isSmallScreen ? 11 : 12, 
-                color: '#6b7280',
-                lineHeight: 16
-              }}>
-                Workout Rate
-              </Text>
-            </View>
+            {statCards.map((card) => (
+              <View
+                key={card.label}
+                style={{
+                  width: isSmallScreen ? 110 : 130,
+                  backgroundColor: 'white',
+                  padding: isSmallScreen ? 12 : 16,
+                  borderRadius: 12,
+                }}
+              >
+                <Text style={{ 
+                  fontSize: isSmallScreen ? 20 : 22, 
+                  fontWeight: 'bold', 
+                  color: card.color, 
+                  marginBottom: 4 
+                }}>
+                  {isLoadingDashboard || !stats ? '...' : card.value}
+                </Text>
+                <Text style={{ 
+                  fontSize: isSmallScreen ? 11 : 12, 
+                  color: '#6b7280',
+                  lineHeight: 16
+                }}>
+                  {card.label}
+                </Text>
+              </View>
+            ))}
           </ScrollView>
 
           {/* Quick Actions */}
@@ -609,6 +530,8 @@ export function TrainerHomeScreen() {
                       setShowWorkoutBuilder(true);
                     } else if (action.title === 'Workout Progress') {
                       setShowWorkoutProgress(true);
+                    } else if (action.title === 'Programs') {
+                      setShowPrograms(true);
                     }
                   }}
                 >
@@ -636,6 +559,94 @@ export function TrainerHomeScreen() {
             </View>
           </View>
 
+          {/* Needs Attention */}
+          {stats && stats.inactive_athletes.length > 0 && (
+            <DashboardSection title="Needs Attention" icon="alert-circle" iconColor="#ef4444">
+              <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginBottom: 8 }}>
+                No workouts or tests in the last {stats.inactive_days} days
+              </Text>
+              {stats.inactive_athletes.map((athlete, index) => (
+                <Pressable
+                  key={athlete.athlete_id}
+                  onPress={() => handleNavigateToAthleteProfile(athlete.athlete_id)}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    paddingVertical: 10,
+                    borderBottomWidth: index < stats.inactive_athletes.length - 1 ? 1 : 0,
+                    borderBottomColor: '#f3f4f6'
+                  }}
+                >
+                  <Text style={{ flex: 1, fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                    {athlete.full_name || 'Athlete'}
+                  </Text>
+                  <Text style={{ fontSize: fontSize - 2, color: '#9ca3af', marginRight: 4 }}>
+                    {athlete.last_activity_date
+                      ? `Last active ${format(parseISO(athlete.last_activity_date), 'd MMM')}`
+                      : 'No activity yet'}
+                  </Text>
+                  <Feather name="chevron-right" size={18} color="#9ca3af" />
+                </Pressable>
+              ))}
+            </DashboardSection>
+          )}
+
+          {/* Upcoming Events */}
+          {stats && stats.upcoming_events.length > 0 && (
+            <DashboardSection title="Upcoming Events" icon="calendar" iconColor="#f59e0b" onSeeAll={() => setShowSchedule(true)}>
+              {stats.upcoming_events.map((event, index) => (
+                <View
+                  key={`${event.id}-${event.occurrence_start}`}
+                  style={{
+                    paddingVertical: 10,
+                    borderBottomWidth: index < stats.upcoming_events.length - 1 ? 1 : 0,
+                    borderBottomColor: '#f3f4f6'
+                  }}
+                >
+                  <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                    {event.title}
+                  </Text>
+                  <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginTop: 2 }}>
+                    {format(parseISO(event.start_date.replace(' ', 'T')), 'EEE d MMM, HH:mm')}
+                    {event.location ? ` · ${event.location}` : ''}
+                  </Text>
+                </View>
+              ))}
+            </DashboardSection>
+          )}
+
+          {/* Recent Personal Records */}
+          {stats && stats.recent_personal_records.length > 0 && (
+            <DashboardSection title="Recent Personal Records" icon="star" iconColor="#eab308">
+              {stats.recent_personal_records.map((record, index) => (
+                <Pressable
+                  key={record.id}
+                  onPress={() => handleNavigateToAthleteProfile(record.athlete_id)}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    paddingVertical: 10,
+                    borderBottomWidth: index < stats.recent_personal_records.length - 1 ? 1 : 0,
+                    borderBottomColor: '#f3f4f6'
+                  }}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ fontSize: fontSize, fontWeight: '600', color: '#1f2937' }}>
+                      {record.athlete_name}
+                    </Text>
+                    <Text style={{ fontSize: fontSize - 2, color: '#6b7280', marginTop: 2 }}>
+                      {record.test_name}
+                      {record.result_value !== null ? `: ${record.result_value}${record.unit ? ` ${record.unit}` : ''}` : ''}
+                    </Text>
+                  </View>
+                  <Text style={{ fontSize: fontSize - 2, color: '#9ca3af' }}>
+                    {format(parseISO(record.test_date), 'd MMM')}
+                  </Text>
+                </Pressable>
+              ))}
+            </DashboardSection>
+          )}
+
           {/* Recent Activity */}
           <View style={{
             backgroundColor: 'white',
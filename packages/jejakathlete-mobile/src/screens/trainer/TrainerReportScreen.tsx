@@ -3,13 +3,13 @@ import { View, Text, Pressable, useWindowDimensions, Alert, ScrollView, Keyboard
 import { useSession } from '../../contexts/AuthContext';
 import { Feather } from '@expo/vector-icons';
 import { Input } from '../../components/ui/Input';
-import { tursoDbHelpers } from '../../lib/turso-database';
+import { trpc } from '../../lib/trpc';
 import { useKeyboardAware } from '../../hooks/useKeyboardAware';
 import { AthleteDetailReportScreen } from './AthleteDetailReportScreen';
 
 // Types for the athlete listing functionality
 interface Athlete {
-  id: number;
+  id: string;
   full_name: string;
   email: string;
   sport: string;
@@ -49,7 +49,7 @@ export function TrainerReportScreen({ onBack }: { onBack: () => void }) {
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [selectedAthleteId, setSelectedAthleteId] = useState<number | null>(null);
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
 
   // Fetch enrolled athletes with statistics
   useEffect(() => {
@@ -67,30 +67,9 @@ export function TrainerReportScreen({ onBack }: { onBack: () => void }) {
 
     try {
       // Fetch enrolled athletes with test statistics
-      const enrolledAthletes = await tursoDbHelpers.all(`
-        SELECT 
-          u.id,
-          u.full_name,
-          u.email,
-          a.sport,
-          a.level,
-          e.requested_at as enrollment_date,
-          COUNT(tr.id) as total_tests,
-          MAX(tr.test_date) as last_test_date,
-          SUM(CASE WHEN tr.is_best_record = 1 THEN 1 ELSE 0 END) as best_records
-        FROM enrollments e
-        JOIN users u ON e.athlete_id = u.id
-        JOIN athletes a ON a.user_id = u.id
-        LEFT JOIN test_results tr ON tr.athlete_id = u.id
-        WHERE e.trainer_id = ? AND e.status = 'approved'
-        GROUP BY u.id, u.full_name, u.email, a.sport, a.level, e.requested_at
-        ORDER BY u.full_name
-      `, [user.id]);
-
-      const athleteData = (enrolledAthletes || []).map((athlete: any) => ({
+      const athleteData: Athlete[] = (await trpc.reports.listAthleteSummaries.query()).map((athlete) => ({
         ...athlete,
-        total_tests: athlete.total_tests || 0,
-        best_records: athlete.best_records || 0
+        level: athlete.level as Athlete['level'],
       }));
 
       setAthletes(athleteData);
@@ -8,7 +8,7 @@ import {
 } from 'react-native';
 import { useSession } from '../../contexts/AuthContext';
 import { trpc } from '../../lib/trpc';
-import { format, addMonths, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { format, addMonths, subMonths, subMinutes, startOfMonth, endOfMonth } from 'date-fns';
 
 // Import refactored components
 import {
@@ -19,6 +19,7 @@ import {
   EventTypesLegend,
   FloatingActionButton,
   CreateEventModal,
+  EventRosterModal,
   ViewMode,
   Event,
   EventType,
@@ -50,6 +51,7 @@ export function TrainerScheduleScreen({ onBack }: { onBack: () => void }) {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateEventModal, setShowCreateEventModal] = useState(false);
   const [isCreatingEvent, setIsCreatingEvent] = useState(false);
+  const [rosterEvent, setRosterEvent] = useState<Event | null>(null);
 
   // Fetch data
   useEffect(() => {
@@ -91,8 +93,10 @@ export function TrainerScheduleScreen({ onBack }: { onBack: () => void }) {
         event_type_color: event.event_type?.color,
         event_type_icon: event.event_type?.icon,
         created_by_name: user?.full_name || '',
-        total_participants: 0,
-        confirmed_participants: 0,
+        total_participants: event.participants?.length ?? 0,
+        confirmed_participants: (event.participants || []).filter((p: any) => p.status === 'confirmed').length,
+        occurrence_start: event.occurrence_start,
+        is_recurring: event.is_recurring,
       }));
       setEvents(transformedEvents);
     } catch (error) {
@@ -151,6 +155,9 @@ export function TrainerScheduleScreen({ onBack }: { onBack: () => void }) {
     setIsCreatingEvent(true);
 
     try {
+      const maxParticipants = parseInt(newEventData.max_participants, 10);
+      const deadlineOffset = newEventData.registration_deadline_offset;
+
       await trpc.events.createEvent.mutate({
         title: newEventData.title.trim(),
         description: newEventData.description.trim(),
@@ -160,7 +167,14 @@ export function TrainerScheduleScreen({ onBack }: { onBack: () => void }) {
         location: newEventData.location.trim(),
         status: 'upcoming',
         is_public: newEventData.is_public,
+        max_participants: maxParticipants > 0 ? maxParticipants : null,
+        requires_approval: newEventData.is_public && newEventData.requires_approval,
+        registration_deadline: newEventData.is_public && deadlineOffset !== null
+          ? format(subMinutes(new Date(newEventData.start_date), deadlineOffset), "yyyy-MM-dd'T'HH:mm")
+          : null,
         athlete_ids: newEventData.participant_ids.map(String),
+        recurrence: newEventData.recurrence ?? undefined,
+        reminder_offsets: newEventData.reminder_offsets,
       });
 
       Alert.alert('Success', 'Event created successfully!');
@@ -175,8 +189,7 @@ export function TrainerScheduleScreen({ onBack }: { onBack: () => void }) {
   };
 
   const handleEventPress = (event: Event) => {
-    // TODO: Open event details modal
-    Alert.alert('Event Details', event.title);
+    setRosterEvent(event);
   };
 
   // Bottom nav height calculation
@@ -278,6 +291,17 @@ export function TrainerScheduleScreen({ onBack }: { onBack: () => void }) {
         spacing={spacing}
       />
 
+      {/* Event Roster Modal */}
+      <EventRosterModal
+        visible={rosterEvent !== null}
+        event={rosterEvent}
+        onClose={() => setRosterEvent(null)}
+        containerPadding={containerPadding}
+        titleFontSize={titleFontSize}
+        fontSize={fontSize}
+        spacing={spacing}
+      />
+
       {/* Floating Action Button */}
       <FloatingActionButton
         onPress={() => setShowCreateEventModal(true)}
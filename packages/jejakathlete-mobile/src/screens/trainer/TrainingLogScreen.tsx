@@ -5,13 +5,12 @@ import { Feather } from '@expo/vector-icons';
 import { Input } from '../../components/ui/Input';
 import { Button } from '../../components/ui/Button';
 import { Dropdown } from '../../components/ui/Dropdown';
-import { tursoDbHelpers } from '../../lib/turso-database';
-import { createTestResult } from '../../lib/api';
+import { trpc } from '../../lib/trpc';
 import { useKeyboardAware } from '../../hooks/useKeyboardAware';
 
 // Types for the training log functionality
 interface Athlete {
-  id: number;
+  id: string;
   full_name: string;
   email: string;
   sport: string;
@@ -34,7 +33,7 @@ interface Test {
 }
 
 interface FitnessLogEntry {
-  athlete_id: number;
+  athlete_id: string;
   test_id: number;
   result_value: number | null;
   result_text: string;
@@ -74,7 +73,7 @@ export function TrainingLogScreen() {
 
   // Form state for fitness log entry
   const [logEntry, setLogEntry] = useState<FitnessLogEntry>({
-    athlete_id: 0,
+    athlete_id: '',
     test_id: 0,
     result_value: null,
     result_text: '',
@@ -92,39 +91,14 @@ export function TrainingLogScreen() {
       
       setIsLoadingAthletes(true);
       try {
-
-
-        // Query for athletes enrolled with this trainer
-        const enrolledAthletes = await tursoDbHelpers.all(`
-          SELECT 
-            u.id,
-            u.full_name,
-            u.email,
-            a.sport,
-            a.level
-          FROM enrollments e
-          JOIN users u ON e.athlete_id = u.id
-          JOIN athletes a ON a.user_id = u.id
-          WHERE e.trainer_id = ? AND e.status = 'approved'
-          ORDER BY u.full_name
-        `, [user.id]);
-
-        setAthletes(enrolledAthletes || []);
-
-        // Fetch fitness components from database
-        const components = await tursoDbHelpers.all(`
-          SELECT id, name, description 
-          FROM fitness_components 
-          ORDER BY name
-        `);
-
-        // Fetch tests from database
-        const testsData = await tursoDbHelpers.all(`
-          SELECT t.id, t.component_id, t.name, t.unit, t.description, t.improvement_direction
-          FROM tests t
-          ORDER BY t.name
-        `);
-
+        // Enrolled athletes and the test catalogue
+        const [enrolledAthletes, components, testsData] = await Promise.all([
+          trpc.reports.listAthleteSummaries.query(),
+          trpc.testResults.getFitnessComponents.query(),
+          trpc.testResults.getTests.query(),
+        ]);
+
+        setAthletes(enrolledAthletes);
         setFitnessComponents(components || []);
         setTests(testsData || []);
       } catch (error) {
@@ -174,78 +148,47 @@ export function TrainingLogScreen() {
   };
 
   const handleSubmitLog = async () => {
-    if (!logEntry.test_id || (!logEntry.result_value && !logEntry.result_text)) {
+    if (!logEntry.test_id || (logEntry.result_value === null && !logEntry.result_text.trim())) {
       Alert.alert('Error', 'Please select a test and enter a result');
       return;
     }
 
     setIsLoading(true);
     try {
-      // Check if this is a best record for this athlete and test
-      // Check if this is a best record for this athlete and test
-      const existingResults = await tursoDbHelpers.all(`
-        SELECT result_value 
-        FROM test_results 
-        WHERE athlete_id = ? AND test_id = ? 
-        ORDER BY result_value ${logEntry.result_value ? 'DESC' : 'ASC'}
-      `, [logEntry.athlete_id, logEntry.test_id]);
-
-      // Get test info to determine improvement direction
-      const testInfo = tests.find(t => t.id === logEntry.test_id);
-      let isBestRecord = false;
-
-      if (logEntry.result_value && testInfo) {
-        if (existingResults.length === 0) {
-          // First record is always a best record
-          isBestRecord = true;
-        } else {
-          const bestExisting = existingResults[0]?.result_value;
-          if (testInfo.improvement_direction === 'higher') {
-            isBestRecord = logEntry.result_value > bestExisting;
-          } else {
-            isBestRecord = logEntry.result_value < bestExisting;
-          }
-        }
-      }
-
-      // Save using API
-      const result = await createTestResult({
+      // Personal record detection happens on the server
+      const result = await trpc.testResults.recordAthleteTestResult.mutate({
         athlete_id: logEntry.athlete_id,
         test_id: logEntry.test_id,
         result_value: logEntry.result_value,
-        result_text: logEntry.result_text || null,
-        notes: logEntry.notes || null,
+        result_text: logEntry.result_text || undefined,
+        notes: logEntry.notes || undefined,
         test_date: logEntry.test_date,
-        input_unit: logEntry.input_unit || null,
-        is_best_record: isBestRecord
+        input_unit: logEntry.input_unit || undefined,
       });
-
-      if (result.success) {
-        Alert.alert(
-          'Success', 
-          `Fitness log entry saved!${isBestRecord ? ' 🏆 New personal best!' : ''}`, 
-          [
-            {
-              text: 'OK',
-              onPress: () => {
-                // Reset form
-                setLogEntry({
-                  athlete_id: selectedAthlete?.id || 0,
-                  test_id: 0,
-                  result_value: null,
-                  result_text: '',
-                  notes: '',
-                  test_date: new Date().toISOString().split('T')[0],
-                  input_unit: ''
-                });
-                setSelectedComponent(null);
-              }
+      const isBestRecord = !!result.is_best_record;
+
+      Alert.alert(
+        'Success', 
+        `Fitness log entry saved!${isBestRecord ? ' 🏆 New personal best!' : ''}`, 
+        [
+          {
+            text: 'OK',
+            onPress: () => {
+              // Reset form
+              setLogEntry({
+                athlete_id: selectedAthlete?.id || '',
+                test_id: 0,
+                result_value: null,
+                result_text: '',
+                notes: '',
+                test_date: new Date().toISOString().split('T')[0],
+                input_unit: ''
+              });
+              setSelectedComponent(null);
             }
-          ]
-        );
-      } else {
-        Alert.alert('Error', result.message || 'Failed to save fitness log entry');
-      }
+          }
+        ]
+      );
     } catch (error) {
       console.error('❌ Error saving fitness log:', error);
       Alert.alert('Error', 'Failed to save fitness log entry. Please try again.');
@@ -7,8 +7,10 @@ import { Card } from '../../components/ui/Card';
 import { useSession } from '../../contexts/AuthContext';
 import { useToast } from '../../contexts/ToastContext';
 import { trpc } from '../../lib/trpc';
+import { getErrorMessage } from '../../i18n/errors';
+import { offlineStore } from '../../lib/sync-engine';
 import { ExerciseLibraryModal } from '../../components/workout/ExerciseLibraryModal';
-import { ExerciseConfigModal } from '../../components/workout/ExerciseConfigModal';
+import { ExerciseConfigModal, ExerciseConfig } from '../../components/workout/ExerciseConfigModal';
 import { WorkoutAssignmentModal } from '../../components/workout/WorkoutAssignmentModal';
 
 interface WorkoutBuilderScreenProps {
@@ -22,11 +24,8 @@ interface Exercise {
   muscle_group: string;
 }
 
-interface WorkoutExercise {
+interface WorkoutExercise extends ExerciseConfig {
   exercise: Exercise;
-  sets: number;
-  reps: number;
-  rest_time: number;
   order_index: number;
 }
 
@@ -72,19 +71,26 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
     
     setIsLoading(true);
     try {
-      const templates = await trpc.workouts.listMyTemplates.query();
-      const template = templates.find((t: any) => t.id === templateId);
+      // Read from the local store; a template created since the last sync isn't there yet
+      const localTemplates = await offlineStore.getMyTemplates();
+      const template = localTemplates.find((t: any) => t.id === templateId)
+        || (await trpc.workouts.listMyTemplates.query()).find((t: any) => t.id === templateId);
       
       if (template) {
         setWorkoutName(template.name);
         setDescription(template.description || '');
         
         // Load exercises with their details
-        const exerciseDetails = template.exercises.map((we: any) => ({
+        const exerciseDetails: WorkoutExercise[] = template.exercises.map((we: any) => ({
           exercise: we.exercise,
           sets: we.sets,
           reps: we.reps,
           rest_time: we.rest_time,
+          target_weight: we.target_weight,
+          progression_type: we.progression_type,
+          weight_increment: we.weight_increment,
+          rep_range_max: we.rep_range_max,
+          deload_after_misses: we.deload_after_misses,
           order_index: we.order_index
         }));
         
@@ -92,7 +98,7 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
       }
     } catch (error: any) {
       console.error('Error loading template:', error);
-      showError(error.message || 'Failed to load workout template');
+      showError(getErrorMessage(error, 'Failed to load workout template'));
       Alert.alert('Error', 'Failed to load workout template');
     } finally {
       setIsLoading(false);
@@ -105,7 +111,7 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
     setShowExerciseConfig(true);
   };
   
-  const handleSaveExerciseConfig = (config: { sets: number; reps: number; rest_time: number }) => {
+  const handleSaveExerciseConfig = (config: ExerciseConfig) => {
     if (!selectedExercise) return;
     
     if (editingExerciseIndex !== null) {
@@ -120,10 +126,8 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
     } else {
       // Add new exercise
       const newExercise: WorkoutExercise = {
+        ...config,
         exercise: selectedExercise,
-        sets: config.sets,
-        reps: config.reps,
-        rest_time: config.rest_time,
         order_index: exercises.length
       };
       setExercises([...exercises, newExercise]);
@@ -199,7 +203,12 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
         sets: ex.sets,
         reps: ex.reps,
         rest_time: ex.rest_time,
-        notes: undefined
+        notes: undefined,
+        target_weight: ex.target_weight,
+        progression_type: ex.progression_type,
+        weight_increment: ex.weight_increment,
+        rep_range_max: ex.rep_range_max,
+        deload_after_misses: ex.deload_after_misses
       }));
       
       if (savedTemplateId) {
@@ -229,7 +238,7 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
       }
     } catch (error: any) {
       console.error('Error saving template:', error);
-      const errorMessage = error.message || 'Failed to save workout template';
+      const errorMessage = getErrorMessage(error, 'Failed to save workout template');
       showError(errorMessage);
       Alert.alert('Error', errorMessage);
     } finally {
@@ -250,7 +259,12 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
           sets: ex.sets,
           reps: ex.reps,
           rest_time: ex.rest_time,
-          notes: undefined
+          notes: undefined,
+          target_weight: ex.target_weight,
+          progression_type: ex.progression_type,
+          weight_increment: ex.weight_increment,
+          rep_range_max: ex.rep_range_max,
+          deload_after_misses: ex.deload_after_misses
         }));
         
         const result = await trpc.workouts.createTemplate.mutate({
@@ -263,7 +277,7 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
         setShowAssignmentModal(true);
       } catch (error: any) {
         console.error('Error saving template:', error);
-        const errorMessage = error.message || 'Failed to save workout template';
+        const errorMessage = getErrorMessage(error, 'Failed to save workout template');
         showError(errorMessage);
         Alert.alert('Error', errorMessage);
       } finally {
@@ -547,8 +561,12 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
                             fontSize: fontSize - 2,
                             color: '#6b7280'
                           }}>
-                            {exercise.sets} sets × {exercise.reps} reps • {exercise.rest_time}s rest
+                            {exercise.sets} sets × {exercise.reps}{exercise.progression_type === 'double' ? `-${exercise.rep_range_max}` : ''} reps
+                            {exercise.target_weight ? ` @ ${exercise.target_weight} kg` : ''} • {exercise.rest_time}s rest
                           </Text>
+                          {exercise.progression_type && exercise.progression_type !== 'none' && (
+                            <Feather name="trending-up" size={14} color="#10b981" style={{ marginLeft: 6 }} />
+                          )}
                         </View>
                       </View>
                       
@@ -625,11 +643,7 @@ export function WorkoutBuilderScreen({ templateId, onBack }: WorkoutBuilderScree
           exercise={selectedExercise}
           initialConfig={
             editingExerciseIndex !== null
-              ? {
-                  sets: exercises[editingExerciseIndex].sets,
-                  reps: exercises[editingExerciseIndex].reps,
-                  rest_time: exercises[editingExerciseIndex].rest_time
-                }
+              ? exercises[editingExerciseIndex]
               : undefined
           }
           onSave={handleSaveExerciseConfig}
@@ -7,3 +7,5 @@ export { SettingsScreen } from './SettingsScreen';
 export { TrainerReportScreen } from './TrainerReportScreen';
 export { AthleteDetailReportScreen } from './AthleteDetailReportScreen';
 export { WorkoutBuilderScreen } from './WorkoutBuilderScreen';
+export { ProgramsScreen } from './ProgramsScreen';
+export { ProgramProgressScreen } from './ProgramProgressScreen';
@@ -0,0 +1,337 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { createSupabaseBrowserClient } from '@/lib/supabase-browser';
+import { trpc } from '@/lib/trpc-client';
+import type { AuditAction, AuditEntityType, AuditLogEntry } from '@jejakathlete/shared';
+
+type AuthState = 'loading' | 'authenticated' | 'access_denied';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'user.role_changed': 'Role changed',
+  'user.verification_changed': 'Verification changed',
+  'user.deletion_requested': 'Deletion requested',
+  'user.deletion_cancelled': 'Deletion cancelled',
+  'user.deleted': 'Account deleted',
+  'user_profiling.updated': 'Profiling updated',
+  'athlete.updated': 'Athlete updated',
+  'trainer.updated': 'Trainer updated',
+  'trainer.verification_reviewed': 'Trainer verification reviewed',
+  'enrollment.updated': 'Enrollment updated',
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'User',
+  user_profiling: 'User profiling',
+  trainer: 'Trainer',
+  athlete: 'Athlete',
+  enrollment: 'Enrollment',
+};
+
+interface Filters {
+  action: AuditAction | 'all';
+  entity_type: AuditEntityType | 'all';
+  entity_id: string;
+  actor_id: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { action: 'all', entity_type: 'all', entity_id: '', actor_id: '', from: '', to: '' };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default function AdminAuditLogPage() {
+  const router = useRouter();
+  const [authState, setAuthState] = useState<AuthState>('loading');
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const supabase = createSupabaseBrowserClient();
+
+      const { data: { user: authUser } } = await supabase.auth.getUser();
+
+      if (!authUser) {
+        router.push('/admin/login');
+        return;
+      }
+
+      const { data: userData, error } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', authUser.id)
+        .single();
+
+      const isAdmin = userData?.role === 'admin' || userData?.role === 'rekabytes-admin';
+
+      if (error || !isAdmin) {
+        setAuthState('access_denied');
+        return;
+      }
+
+      setAuthState('authenticated');
+    };
+
+    checkAuth();
+  }, [router]);
+
+  // Incomplete actor IDs are ignored until they're a full UUID
+  const actorId = filters.actor_id.trim();
+  const { data, isLoading, error } = trpc.admin.getAuditLog.useQuery(
+    {
+      action: filters.action === 'all' ? undefined : filters.action,
+      entity_type: filters.entity_type === 'all' ? undefined : filters.entity_type,
+      entity_id: filters.entity_id.trim() || undefined,
+      actor_id: UUID_PATTERN.test(actorId) ? actorId : undefined,
+      from: filters.from || undefined,
+      to: filters.to || undefined,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    },
+    { enabled: authState === 'authenticated' }
+  );
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  // User-related entities are keyed by user ID and link to the user's page
+  const getEntityHref = (entry: AuditLogEntry) =>
+    entry.entity_type === 'enrollment' ? null : `/admin/users/${entry.entity_id}`;
+
+  if (authState === 'loading') {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (authState === 'access_denied') {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-bg-secondary border border-border rounded-2xl p-8 text-center">
+          <span className="text-4xl mb-4 block">🚫</span>
+          <h1 className="text-xl font-bold text-text-primary mb-2">Access Denied</h1>
+          <p className="text-text-secondary mb-4">You don't have permission to view this page.</p>
+          <Link href="/admin/login" className="text-accent hover:underline">Go to Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-bg-primary">
+      {/* Header */}
+      <header className="bg-bg-secondary border-b border-border">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <Link href="/admin/dashboard" className="text-text-secondary hover:text-text-primary">
+            ← Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-text-primary mt-2">Audit Log</h1>
+          <p className="text-sm text-text-secondary mt-1">
+            {total} {total === 1 ? 'entry' : 'entries'} · Entries can't be edited or deleted
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Filters */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 mb-6">
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value as Filters['action'])}
+            className="px-4 py-3 bg-bg-secondary border border-border rounded-xl text-text-primary focus:border-accent focus:outline-none cursor-pointer"
+          >
+            <option value="all">All Actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <select
+            value={filters.entity_type}
+            onChange={(e) => updateFilter('entity_type', e.target.value as Filters['entity_type'])}
+            className="px-4 py-3 bg-bg-secondary border border-border rounded-xl text-text-primary focus:border-accent focus:outline-none cursor-pointer"
+          >
+            <option value="all">All Entities</option>
+            {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+              <option key={type} value={type}>{ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Entity ID"
+            value={filters.entity_id}
+            onChange={(e) => updateFilter('entity_id', e.target.value)}
+            className="px-4 py-3 bg-bg-secondary border border-border rounded-xl text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none"
+          />
+          <input
+            type="text"
+            placeholder="Actor ID"
+            value={filters.actor_id}
+            onChange={(e) => updateFilter('actor_id', e.target.value)}
+            className="px-4 py-3 bg-bg-secondary border border-border rounded-xl text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none"
+          />
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="px-4 py-3 bg-bg-secondary border border-border rounded-xl text-text-primary focus:border-accent focus:outline-none"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="px-4 py-3 bg-bg-secondary border border-border rounded-xl text-text-primary focus:border-accent focus:outline-none"
+          />
+        </div>
+
+        {/* Audit Log Table */}
+        <div className="bg-bg-secondary border border-border rounded-xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-bg-elevated">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Time</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Actor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Action</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Target</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Changes</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">IP</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-text-secondary">
+                      <div className="w-6 h-6 border-2 border-accent border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
+                      Loading audit log...
+                    </td>
+                  </tr>
+                ) : error ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-red-400">
+                      {error.message}
+                    </td>
+                  </tr>
+                ) : entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-text-secondary">
+                      No audit entries found
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => {
+                    const href = getEntityHref(entry);
+                    const changedKeys = Object.keys({ ...entry.before_values, ...entry.after_values });
+
+                    return (
+                      <tr key={entry.id} className="align-top hover:bg-bg-elevated transition-colors">
+                        <td className="px-6 py-4 text-sm text-text-secondary whitespace-nowrap">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="text-sm font-medium text-text-primary">{entry.actor_name || 'Unknown'}</p>
+                          <button
+                            onClick={() => entry.actor_id && updateFilter('actor_id', entry.actor_id)}
+                            className="text-xs text-text-muted font-mono hover:text-accent"
+                            title="Show entries by this actor"
+                          >
+                            {entry.actor_id ? `${entry.actor_id.slice(0, 8)}...` : 'system'}
+                            {entry.actor_role ? ` · ${entry.actor_role}` : ''}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-text-primary whitespace-nowrap">
+                          {ACTION_LABELS[entry.action] || entry.action}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <p className="text-text-secondary">{ENTITY_LABELS[entry.entity_type] || entry.entity_type}</p>
+                          {href ? (
+                            <Link href={href} className="text-xs text-accent font-mono hover:underline">
+                              {entry.entity_id.slice(0, 8)}...
+                            </Link>
+                          ) : (
+                            <span className="text-xs text-text-muted font-mono">#{entry.entity_id}</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-xs">
+                          {changedKeys.length === 0 ? (
+                            <span className="text-text-muted">—</span>
+                          ) : (
+                            <ul className="space-y-1">
+                              {changedKeys.map((key) => (
+                                <li key={key}>
+                                  <span className="text-text-secondary">{key}:</span>{' '}
+                                  <span className="text-red-400 line-through">{formatValue(entry.before_values?.[key])}</span>{' '}
+                                  →{' '}
+                                  <span className="text-green-400">{formatValue(entry.after_values?.[key])}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-xs text-text-muted font-mono">
+                          {entry.ip_address || '—'}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={() => {
+              setFilters(EMPTY_FILTERS);
+              setPage(0);
+            }}
+            className="text-sm text-text-secondary hover:text-text-primary"
+          >
+            Clear filters
+          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setPage(p => Math.max(0, p - 1))}
+              disabled={page === 0}
+              className="px-3 py-1.5 bg-accent/10 hover:bg-accent/20 disabled:opacity-50 disabled:cursor-not-allowed text-accent text-sm font-medium rounded-lg transition-colors"
+            >
+              ← Previous
+            </button>
+            <span className="text-sm text-text-secondary">
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page + 1 >= pageCount}
+              className="px-3 py-1.5 bg-accent/10 hover:bg-accent/20 disabled:opacity-50 disabled:cursor-not-allowed text-accent text-sm font-medium rounded-lg transition-colors"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
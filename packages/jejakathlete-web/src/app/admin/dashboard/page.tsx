@@ -208,12 +208,32 @@ export default function AdminDashboard() {
                 Welcome, {user?.full_name || user?.username || 'Admin'}
               </p>
             </div>
-            <button
-              onClick={handleSignOut}
-              className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 rounded-lg transition-colors"
-            >
-              Sign Out
-            </button>
+            <div className="flex items-center gap-3">
+              <a
+                href="/admin/verifications"
+                className="px-4 py-2 bg-accent/10 hover:bg-accent/20 text-accent border border-accent/20 rounded-lg transition-colors"
+              >
+                Verifications
+              </a>
+              <a
+                href="/admin/audit"
+                className="px-4 py-2 bg-accent/10 hover:bg-accent/20 text-accent border border-accent/20 rounded-lg transition-colors"
+              >
+                Audit Log
+              </a>
+              <a
+                href="/admin/deletions"
+                className="px-4 py-2 bg-accent/10 hover:bg-accent/20 text-accent border border-accent/20 rounded-lg transition-colors"
+              >
+                Deletions
+              </a>
+              <button
+                onClick={handleSignOut}
+                className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20 rounded-lg transition-colors"
+              >
+                Sign Out
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { createSupabaseBrowserClient } from '@/lib/supabase-browser';
+import { trpc } from '@/lib/trpc-client';
+import type { AccountDeletionStatus } from '@jejakathlete/shared';
+
+type AuthState = 'loading' | 'authenticated' | 'access_denied';
+
+const STATUS_TABS: { value: AccountDeletionStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'completed', label: 'Deleted' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function AdminDeletionsPage() {
+  const router = useRouter();
+  const [authState, setAuthState] = useState<AuthState>('loading');
+  const [status, setStatus] = useState<AccountDeletionStatus>('pending');
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const supabase = createSupabaseBrowserClient();
+
+      const { data: { user: authUser } } = await supabase.auth.getUser();
+
+      if (!authUser) {
+        router.push('/admin/login');
+        return;
+      }
+
+      const { data: userData, error } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', authUser.id)
+        .single();
+
+      const isAdmin = userData?.role === 'admin' || userData?.role === 'rekabytes-admin';
+
+      if (error || !isAdmin) {
+        setAuthState('access_denied');
+        return;
+      }
+
+      setAuthState('authenticated');
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const { data: deletions = [], isLoading, error } = trpc.admin.getAccountDeletions.useQuery(
+    { status },
+    { enabled: authState === 'authenticated' }
+  );
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '—');
+
+  const daysLeft = (scheduledFor: string) =>
+    Math.max(0, Math.ceil((new Date(scheduledFor).getTime() - Date.now()) / DAY_MS));
+
+  if (authState === 'loading') {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (authState === 'access_denied') {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-bg-secondary border border-border rounded-2xl p-8 text-center">
+          <span className="text-4xl mb-4 block">🚫</span>
+          <h1 className="text-xl font-bold text-text-primary mb-2">Access Denied</h1>
+          <p className="text-text-secondary mb-4">You don't have permission to view this page.</p>
+          <Link href="/admin/login" className="text-accent hover:underline">Go to Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-bg-primary">
+      {/* Header */}
+      <header className="bg-bg-secondary border-b border-border">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <Link href="/admin/dashboard" className="text-text-secondary hover:text-text-primary">
+            ← Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-text-primary mt-2">Account Deletions</h1>
+          <p className="text-sm text-text-secondary mt-1">
+            Deactivated accounts are deleted 30 days after the request unless the user cancels
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Status Tabs */}
+        <div className="flex gap-2 mb-6">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                status === tab.value
+                  ? 'bg-accent text-white'
+                  : 'bg-bg-secondary border border-border text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="bg-bg-secondary border border-border rounded-xl p-8 text-center text-text-secondary">
+            <div className="w-6 h-6 border-2 border-accent border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
+            Loading account deletions...
+          </div>
+        ) : error ? (
+          <div className="bg-bg-secondary border border-border rounded-xl p-8 text-center text-red-400">
+            {error.message}
+          </div>
+        ) : deletions.length === 0 ? (
+          <div className="bg-bg-secondary border border-border rounded-xl p-8 text-center text-text-secondary">
+            {status === 'pending' ? 'No accounts waiting to be deleted' : 'No account deletions found'}
+          </div>
+        ) : (
+          <div className="bg-bg-secondary border border-border rounded-xl overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-bg-elevated">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Requested</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">
+                    {status === 'pending' ? 'Deletes' : status === 'cancelled' ? 'Cancelled' : 'Deleted'}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Trainer content</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {deletions.map((deletion) => (
+                  <tr key={deletion.id} className="align-top hover:bg-bg-elevated transition-colors">
+                    <td className="px-6 py-4">
+                      {deletion.status === 'completed' ? (
+                        <p className="text-sm font-medium text-text-primary">{deletion.user_name || 'Unnamed user'}</p>
+                      ) : (
+                        <Link
+                          href={`/admin/users/${deletion.user_id}`}
+                          className="text-sm font-medium text-text-primary hover:text-accent"
+                        >
+                          {deletion.user_name || 'Unnamed user'}
+                        </Link>
+                      )}
+                      <p className="text-xs text-text-muted capitalize">{deletion.user_role || '—'}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary whitespace-nowrap">
+                      {formatDate(deletion.requested_at)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary whitespace-nowrap">
+                      {deletion.status === 'pending' ? (
+                        <>
+                          {formatDate(deletion.scheduled_for)}
+                          <p className="text-xs text-text-muted">
+                            {daysLeft(deletion.scheduled_for)} days left
+                          </p>
+                          {deletion.error && (
+                            <p className="text-xs text-red-400 mt-1">Last attempt failed: {deletion.error}</p>
+                          )}
+                        </>
+                      ) : (
+                        formatDate(deletion.status === 'cancelled' ? deletion.cancelled_at : deletion.completed_at)
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary">
+                      {deletion.user_role !== 'trainer'
+                        ? '—'
+                        : deletion.transfer_to_user_id
+                          ? `Transfer to ${deletion.transfer_to_name || 'another trainer'}`
+                          : 'Anonymise'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-text-secondary max-w-xs">
+                      {deletion.reason || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
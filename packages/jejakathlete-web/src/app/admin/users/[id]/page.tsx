@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { createSupabaseBrowserClient } from '@/lib/supabase-browser';
+import { trpc } from '@/lib/trpc-client';
 import { exportSingleUserToExcel, UserExportData } from '@/lib/excel-export';
 
 interface UserData {
@@ -12,6 +13,7 @@ interface UserData {
   username: string | null;
   role: string;
   is_verified: boolean;
+  deactivated_at: string | null;
   created_at: string;
   updated_at: string | null;
   avatar_url: string | null;
@@ -62,6 +64,7 @@ type AuthState = 'loading' | 'authenticated' | 'access_denied';
 // Constants for dropdown options
 const ATHLETE_LEVELS = ['beginner', 'intermediate', 'advanced', 'elite'] as const;
 const VERIFICATION_STATUSES = ['pending', 'approved', 'rejected'] as const;
+const USER_ROLES = ['athlete', 'trainer', 'admin', 'rekabytes-admin'] as const;
 
 export default function UserDetailPage() {
   const router = useRouter();
@@ -84,8 +87,17 @@ export default function UserDetailPage() {
   const [savingAthlete, setSavingAthlete] = useState(false);
   const [savingTrainer, setSavingTrainer] = useState(false);
   const [savingProfiling, setSavingProfiling] = useState(false);
+  const [savingRole, setSavingRole] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
+  // Admin mutations are recorded in the audit log
+  const updateUserRole = trpc.admin.updateUserRole.useMutation();
+  const setUserVerified = trpc.admin.setUserVerified.useMutation();
+  const updateUserProfiling = trpc.admin.updateUserProfiling.useMutation();
+  const updateAthlete = trpc.admin.updateAthlete.useMutation();
+  const updateTrainer = trpc.admin.updateTrainer.useMutation();
+  const updateEnrollment = trpc.admin.updateEnrollment.useMutation();
+
   // Form data states
   const [athleteForm, setAthleteForm] = useState<{ sport: string; level: string }>({ sport: '', level: '' });
   const [trainerForm, setTrainerForm] = useState<{
@@ -150,16 +162,11 @@ export default function UserDetailPage() {
     setSaveMessage(null);
 
     try {
-      const supabase = createSupabaseBrowserClient();
-      const { error: updateError } = await supabase
-        .from('athletes')
-        .update({
-          sport: athleteForm.sport.trim(),
-          level: athleteForm.level,
-        })
-        .eq('user_id', userId);
-
-      if (updateError) throw updateError;
+      await updateAthlete.mutateAsync({
+        userId,
+        sport: athleteForm.sport.trim(),
+        level: athleteForm.level as typeof ATHLETE_LEVELS[number],
+      });
 
       // Update local state
       setAthleteData(prev => prev ? { ...prev, sport: athleteForm.sport.trim(), level: athleteForm.level } : null);
@@ -185,18 +192,13 @@ export default function UserDetailPage() {
     setSaveMessage(null);
 
     try {
-      const supabase = createSupabaseBrowserClient();
-      const { error: updateError } = await supabase
-        .from('trainers')
-        .update({
-          trainer_code: trainerForm.trainer_code.trim(),
-          certification_id: trainerForm.certification_id.trim() || null,
-          specialization: trainerForm.specialization.trim() || null,
-          verification_status: trainerForm.verification_status,
-        })
-        .eq('user_id', userId);
-
-      if (updateError) throw updateError;
+      await updateTrainer.mutateAsync({
+        userId,
+        trainer_code: trainerForm.trainer_code.trim(),
+        certification_id: trainerForm.certification_id.trim() || null,
+        specialization: trainerForm.specialization.trim() || null,
+        verification_status: trainerForm.verification_status as typeof VERIFICATION_STATUSES[number],
+      });
 
       // Update local state
       setTrainerData(prev => prev ? {
@@ -217,6 +219,57 @@ export default function UserDetailPage() {
     }
   };
 
+  // Change role (not allowed for the signed-in admin's own account)
+  const handleRoleChange = async (role: typeof USER_ROLES[number]) => {
+    if (!userData || role === userData.role) return;
+    if (!confirm(`Change this user's role from ${userData.role} to ${role}?`)) return;
+
+    setSavingRole(true);
+    setSaveMessage(null);
+
+    try {
+      await updateUserRole.mutateAsync({ userId, role });
+      setUserData(prev => prev ? { ...prev, role } : null);
+      setSaveMessage({ type: 'success', text: 'User role updated successfully!' });
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (err) {
+      console.error('Error updating role:', err);
+      setSaveMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to update user role' });
+    } finally {
+      setSavingRole(false);
+    }
+  };
+
+  const handleToggleVerified = async () => {
+    if (!userData) return;
+
+    setSaveMessage(null);
+
+    try {
+      await setUserVerified.mutateAsync({ userId, is_verified: !userData.is_verified });
+      setUserData(prev => prev ? { ...prev, is_verified: !prev.is_verified } : null);
+      setSaveMessage({ type: 'success', text: 'Verification updated successfully!' });
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (err) {
+      console.error('Error updating verification:', err);
+      setSaveMessage({ type: 'error', text: 'Failed to update verification' });
+    }
+  };
+
+  const handleEnrollmentStatusChange = async (enrollmentId: number, status: typeof VERIFICATION_STATUSES[number]) => {
+    setSaveMessage(null);
+
+    try {
+      await updateEnrollment.mutateAsync({ enrollmentId, status });
+      setEnrollments(prev => prev.map(e => e.id === enrollmentId ? { ...e, status } : e));
+      setSaveMessage({ type: 'success', text: 'Enrollment updated successfully!' });
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (err) {
+      console.error('Error updating enrollment:', err);
+      setSaveMessage({ type: 'error', text: 'Failed to update enrollment' });
+    }
+  };
+
   // Cancel editing
   const handleCancelAthleteEdit = () => {
     if (athleteData) {
@@ -266,8 +319,9 @@ export default function UserDetailPage() {
         avatarUrl = publicUrl;
       }
 
-      const profilingData = {
-        user_id: userId,
+      // Creates the profiling row if the user doesn't have one yet
+      await updateUserProfiling.mutateAsync({
+        userId,
         phone: profilingForm.phone.trim() || null,
         address: profilingForm.address.trim() || null,
         city: profilingForm.city.trim() || null,
@@ -276,15 +330,7 @@ export default function UserDetailPage() {
         gender: profilingForm.gender.trim() || null,
         bio: profilingForm.bio.trim() || null,
         avatar_url: avatarUrl,
-        updated_at: new Date().toISOString(),
-      };
-
-      // Use upsert to handle both insert and update cases
-      const { error: updateError } = await supabase
-        .from('user_profiling')
-        .upsert(profilingData, { onConflict: 'user_id' });
-
-      if (updateError) throw updateError;
+      });
 
       // Update local state
       setProfiling(prev => ({
@@ -647,15 +693,7 @@ export default function UserDetailPage() {
                         .getPublicUrl(fileName);
                       
                       // Update database
-                      const { error: updateError } = await supabase
-                        .from('user_profiling')
-                        .upsert({
-                          user_id: userId,
-                          avatar_url: publicUrl,
-                          updated_at: new Date().toISOString(),
-                        }, { onConflict: 'user_id' });
-                      
-                      if (updateError) throw updateError;
+                      await updateUserProfiling.mutateAsync({ userId, avatar_url: publicUrl });
                       
                       // Update local state
                       setProfiling(prev => prev ? { ...prev, avatar_url: publicUrl } : {
@@ -684,10 +722,37 @@ export default function UserDetailPage() {
               <InfoRow label="User ID" value={userData?.id} mono />
               <InfoRow label="Full Name" value={userData?.full_name} />
               <InfoRow label="Username" value={userData?.username ? `@${userData.username}` : null} />
-              <InfoRow label="Role" value={userData?.role} />
-              <InfoRow label="Verified" value={userData?.is_verified ? '✓ Yes' : '✗ No'} />
+              <div className="flex justify-between items-center py-2 border-b border-border">
+                <span className="text-text-secondary text-sm">Role</span>
+                <select
+                  value={userData?.role}
+                  disabled={savingRole}
+                  onChange={(e) => handleRoleChange(e.target.value as typeof USER_ROLES[number])}
+                  className="px-3 py-1 bg-bg-primary border border-border rounded-lg text-text-primary text-sm focus:outline-none focus:ring-2 focus:ring-accent/50 disabled:opacity-50"
+                >
+                  {USER_ROLES.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-between items-center py-2 border-b border-border">
+                <span className="text-text-secondary text-sm">Verified</span>
+                <button
+                  onClick={handleToggleVerified}
+                  disabled={setUserVerified.isPending}
+                  className="text-sm text-text-primary hover:text-accent transition-colors disabled:opacity-50"
+                >
+                  {userData?.is_verified ? '✓ Yes' : '✗ No'}
+                </button>
+              </div>
               <InfoRow label="Created" value={userData?.created_at ? new Date(userData.created_at).toLocaleString() : null} />
               <InfoRow label="Updated" value={userData?.updated_at ? new Date(userData.updated_at).toLocaleString() : null} />
+              {userData?.deactivated_at && (
+                <InfoRow
+                  label="Deactivated"
+                  value={`${new Date(userData.deactivated_at).toLocaleString()} (pending deletion)`}
+                />
+              )}
             </div>
           </div>
 
@@ -1142,9 +1207,16 @@ export default function UserDetailPage() {
                           {e.athlete_id === userId ? e.trainer_id.slice(0, 8) : e.athlete_id.slice(0, 8)}...
                         </td>
                         <td className="py-3">
-                          <span className={`px-2 py-0.5 text-xs rounded-full ${getStatusBadgeColor(e.status)}`}>
-                            {e.status}
-                          </span>
+                          <select
+                            value={e.status}
+                            disabled={updateEnrollment.isPending}
+                            onChange={(event) => handleEnrollmentStatusChange(e.id, event.target.value as typeof VERIFICATION_STATUSES[number])}
+                            className={`px-2 py-0.5 text-xs rounded-full border-0 cursor-pointer focus:outline-none disabled:opacity-50 ${getStatusBadgeColor(e.status)}`}
+                          >
+                            {VERIFICATION_STATUSES.map((status) => (
+                              <option key={status} value={status}>{status}</option>
+                            ))}
+                          </select>
                         </td>
                         <td className="py-3 text-text-secondary text-sm">
                           {new Date(e.requested_at).toLocaleDateString()}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { createSupabaseBrowserClient } from '@/lib/supabase-browser';
+import { trpc } from '@/lib/trpc-client';
+
+type AuthState = 'loading' | 'authenticated' | 'access_denied';
+type QueueStatus = 'pending' | 'approved' | 'rejected';
+
+const STATUS_TABS: { value: QueueStatus; label: string }[] = [
+  { value: 'pending', label: 'Awaiting Review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+export default function AdminVerificationsPage() {
+  const router = useRouter();
+  const [authState, setAuthState] = useState<AuthState>('loading');
+  const [status, setStatus] = useState<QueueStatus>('pending');
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const supabase = createSupabaseBrowserClient();
+
+      const { data: { user: authUser } } = await supabase.auth.getUser();
+
+      if (!authUser) {
+        router.push('/admin/login');
+        return;
+      }
+
+      const { data: userData, error } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', authUser.id)
+        .single();
+
+      const isAdmin = userData?.role === 'admin' || userData?.role === 'rekabytes-admin';
+
+      if (error || !isAdmin) {
+        setAuthState('access_denied');
+        return;
+      }
+
+      setAuthState('authenticated');
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const { data: trainers = [], isLoading, error, refetch } = trpc.admin.getVerificationQueue.useQuery(
+    { status },
+    { enabled: authState === 'authenticated' }
+  );
+
+  const reviewMutation = trpc.admin.reviewTrainerVerification.useMutation({
+    onSuccess: (_data, variables) => {
+      setReasons(prev => ({ ...prev, [variables.userId]: '' }));
+      refetch();
+    },
+    onError: (err) => setActionError(err.message),
+  });
+
+  const handleReview = (userId: string, decision: 'approved' | 'rejected') => {
+    const reason = reasons[userId]?.trim();
+    setActionError(null);
+
+    if (decision === 'rejected' && !reason) {
+      setActionError('Enter a reason before rejecting');
+      return;
+    }
+
+    reviewMutation.mutate({ userId, decision, reason: reason || undefined });
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '—');
+
+  if (authState === 'loading') {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (authState === 'access_denied') {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-bg-secondary border border-border rounded-2xl p-8 text-center">
+          <span className="text-4xl mb-4 block">🚫</span>
+          <h1 className="text-xl font-bold text-text-primary mb-2">Access Denied</h1>
+          <p className="text-text-secondary mb-4">You don't have permission to view this page.</p>
+          <Link href="/admin/login" className="text-accent hover:underline">Go to Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-bg-primary">
+      {/* Header */}
+      <header className="bg-bg-secondary border-b border-border">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <Link href="/admin/dashboard" className="text-text-secondary hover:text-text-primary">
+            ← Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-text-primary mt-2">Trainer Verifications</h1>
+          <p className="text-sm text-text-secondary mt-1">
+            Review certification documents and approve or reject trainers
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Status Tabs */}
+        <div className="flex gap-2 mb-6">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => {
+                setStatus(tab.value);
+                setActionError(null);
+              }}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                status === tab.value
+                  ? 'bg-accent text-white'
+                  : 'bg-bg-secondary border border-border text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {actionError && (
+          <div className="mb-6 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {actionError}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="bg-bg-secondary border border-border rounded-xl p-8 text-center text-text-secondary">
+            <div className="w-6 h-6 border-2 border-accent border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
+            Loading verifications...
+          </div>
+        ) : error ? (
+          <div className="bg-bg-secondary border border-border rounded-xl p-8 text-center text-red-400">
+            {error.message}
+          </div>
+        ) : trainers.length === 0 ? (
+          <div className="bg-bg-secondary border border-border rounded-xl p-8 text-center text-text-secondary">
+            {status === 'pending' ? 'No submissions awaiting review' : 'No trainers found'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {trainers.map((trainer) => (
+              <div key={trainer.user_id} className="bg-bg-secondary border border-border rounded-xl p-6">
+                <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                  <div>
+                    <Link
+                      href={`/admin/users/${trainer.user_id}`}
+                      className="text-lg font-semibold text-text-primary hover:text-accent"
+                    >
+                      {trainer.full_name || 'Unnamed trainer'}
+                    </Link>
+                    <p className="text-sm text-text-secondary mt-1">
+                      Code <span className="font-mono">{trainer.trainer_code}</span>
+                      {' · '}Certification <span className="font-mono">{trainer.certification_id || '—'}</span>
+                      {trainer.specialization ? ` · ${trainer.specialization}` : ''}
+                    </p>
+                    <p className="text-xs text-text-muted mt-1">
+                      Submitted {formatDate(trainer.verification_submitted_at)}
+                      {trainer.verification_reviewed_at && ` · Reviewed ${formatDate(trainer.verification_reviewed_at)}`}
+                    </p>
+                    {trainer.verification_reason && (
+                      <p className="text-sm text-text-secondary mt-2">
+                        Reason: {trainer.verification_reason}
+                      </p>
+                    )}
+                  </div>
+
+                  {trainer.awaiting_review && (
+                    <div className="w-full lg:w-96 space-y-2">
+                      <textarea
+                        placeholder="Reason (required when rejecting)"
+                        value={reasons[trainer.user_id] || ''}
+                        onChange={(e) => setReasons(prev => ({ ...prev, [trainer.user_id]: e.target.value }))}
+                        rows={2}
+                        maxLength={1000}
+                        className="w-full px-4 py-3 bg-bg-primary border border-border rounded-xl text-text-primary text-sm placeholder:text-text-muted focus:border-accent focus:outline-none"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleReview(trainer.user_id, 'approved')}
+                          disabled={reviewMutation.isPending}
+                          className="flex-1 px-4 py-2 bg-green-500/10 hover:bg-green-500/20 disabled:opacity-50 text-green-400 border border-green-500/20 rounded-lg text-sm font-medium transition-colors"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleReview(trainer.user_id, 'rejected')}
+                          disabled={reviewMutation.isPending}
+                          className="flex-1 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-50 text-red-400 border border-red-500/20 rounded-lg text-sm font-medium transition-colors"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Documents */}
+                <div className="mt-4 pt-4 border-t border-border">
+                  <p className="text-xs font-medium text-text-secondary uppercase mb-2">
+                    Documents ({trainer.documents.length})
+                  </p>
+                  {trainer.documents.length === 0 ? (
+                    <p className="text-sm text-text-muted">No documents uploaded</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {trainer.documents.map((document) => (
+                        <li key={document.id} className="text-sm flex items-center gap-2">
+                          {document.url ? (
+                            <a
+                              href={document.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-accent hover:underline"
+                            >
+                              {document.file_name}
+                            </a>
+                          ) : (
+                            <span className="text-text-primary">{document.file_name}</span>
+                          )}
+                          <span className="text-xs text-text-muted">
+                            {document.certification_id ? `${document.certification_id} · ` : ''}
+                            {formatDate(document.uploaded_at)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
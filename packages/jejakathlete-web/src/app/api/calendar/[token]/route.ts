@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase-admin';
+import { buildScheduleFeed } from '@/server/utils/calendarFeed';
+
+/**
+ * iCalendar subscription feed
+ * GET /api/calendar/{token}.ics - the token is the only credential, so
+ * unknown tokens get a plain 404
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: rawToken } = await params;
+    const token = rawToken.replace(/\.ics$/i, '');
+
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const { data: feed } = await supabase
+      .from('calendar_feeds')
+      .select('user_id, timezone')
+      .eq('token', token)
+      .single();
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const calendar = await buildScheduleFeed(supabase, feed);
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="schedule.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('[Calendar] Feed error:', error);
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase-admin';
+import { processDueAccountDeletions } from '@/server/utils/accountDeletion';
+
+// Deleting a trainer walks all of their content
+export const maxDuration = 300;
+
+/**
+ * Account deletion runner
+ * GET /api/cron/account-deletions - called by the scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const result = await processDueAccountDeletions(supabase);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('[Cron] Account deletion error:', error);
+    return NextResponse.json({ error: 'Account deletion run failed' }, { status: 500 });
+  }
+}
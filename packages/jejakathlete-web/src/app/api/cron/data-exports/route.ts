@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase-admin';
+import { expireDataExports, processPendingDataExports } from '@/server/utils/dataExport';
+
+// Building archives reads all of a user's data
+export const maxDuration = 300;
+
+/**
+ * Data export builder
+ * GET /api/cron/data-exports - called by the scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const result = await processPendingDataExports(supabase);
+    const expired = await expireDataExports(supabase);
+
+    return NextResponse.json({ ...result, expired }, { status: 200 });
+  } catch (error) {
+    console.error('[Cron] Data export error:', error);
+    return NextResponse.json({ error: 'Data export run failed' }, { status: 500 });
+  }
+}
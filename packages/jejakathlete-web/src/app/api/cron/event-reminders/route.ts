@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase-admin';
+import { dispatchDueReminders, refreshRecurringReminders } from '@/server/utils/eventReminders';
+
+/**
+ * Event reminder dispatcher
+ * GET /api/cron/event-reminders - called by the scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    // Send what is due first, then top up reminders for recurring events
+    const { sent, skipped } = await dispatchDueReminders(supabase);
+    const recurringEvents = await refreshRecurringReminders(supabase);
+
+    return NextResponse.json({ sent, skipped, recurring_events_synced: recurringEvents }, { status: 200 });
+  } catch (error) {
+    console.error('[Cron] Event reminder dispatch error:', error);
+    return NextResponse.json({ error: 'Reminder dispatch failed' }, { status: 500 });
+  }
+}
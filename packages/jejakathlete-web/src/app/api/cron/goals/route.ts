@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase-admin';
+import { evaluateAllGoals } from '@/server/utils/goals';
+
+// Every athlete with an active goal is evaluated in one run
+export const maxDuration = 300;
+
+/**
+ * Goal evaluation runner
+ * GET /api/cron/goals - called by the scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const result = await evaluateAllGoals(supabase);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('[Cron] Goal evaluation error:', error);
+    return NextResponse.json({ error: 'Goal evaluation run failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase-admin';
+import { deliverPendingPushes } from '@/server/utils/pushDelivery';
+
+/**
+ * Push notification dispatcher
+ * GET /api/cron/push-notifications - called by the scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await deliverPendingPushes(createSupabaseAdminClient());
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('[Cron] Push notification dispatch error:', error);
+    return NextResponse.json({ error: 'Push dispatch failed' }, { status: 500 });
+  }
+}
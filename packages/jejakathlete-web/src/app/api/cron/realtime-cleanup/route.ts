@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase-admin';
+import { pruneRealtimeEvents } from '@/server/utils/realtime';
+
+/**
+ * Realtime event cleanup
+ * GET /api/cron/realtime-cleanup - called by the scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET not configured');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (request.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const pruned = await pruneRealtimeEvents(createSupabaseAdminClient());
+
+    return NextResponse.json({ pruned }, { status: 200 });
+  } catch (error) {
+    console.error('[Cron] Realtime event cleanup error:', error);
+    return NextResponse.json({ error: 'Realtime cleanup failed' }, { status: 500 });
+  }
+}
@@ -36,4 +36,7 @@ const handler = async (req: Request) => {
   }
 };
 
+// Subscriptions hold the request open; streams are ended at 55s
+export const maxDuration = 60;
+
 export { handler as GET, handler as POST };
@@ -12,6 +12,9 @@ function LoginContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const redirectTo = searchParams.get('redirect_to');
+  // Only same-site paths, so the param can't be used as an open redirect
+  const nextParam = searchParams.get('next');
+  const nextPath = nextParam?.startsWith('/') && !nextParam.startsWith('//') ? nextParam : null;
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -106,6 +109,12 @@ function LoginContent() {
         return;
       }
 
+      if (nextPath) {
+        console.log('[Login] Redirecting to', nextPath);
+        router.push(nextPath);
+        return;
+      }
+
       setDebugInfo('Step 4: Redirecting to web success page...');
       console.log('[Login] Redirecting to web success page');
       router.push('/auth/success');
@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { createSupabaseBrowserClient } from '@/lib/supabase-browser';
+import { trpc } from '@/lib/trpc-client';
+
+type AuthState = 'loading' | 'authenticated' | 'access_denied';
+type DocumentContentType = 'application/pdf' | 'image/jpeg' | 'image/png';
+
+const ACCEPTED_TYPES: DocumentContentType[] = ['application/pdf', 'image/jpeg', 'image/png'];
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const STATUS_STYLES: Record<string, string> = {
+  approved: 'bg-green-500/10 text-green-400 border-green-500/20',
+  rejected: 'bg-red-500/10 text-red-400 border-red-500/20',
+  pending: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+};
+
+/**
+ * Read a file as a base64 data URL
+ */
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function TrainerVerificationPage() {
+  const router = useRouter();
+  const [authState, setAuthState] = useState<AuthState>('loading');
+  const [certificationId, setCertificationId] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const supabase = createSupabaseBrowserClient();
+
+      const { data: { user: authUser } } = await supabase.auth.getUser();
+
+      if (!authUser) {
+        router.push('/auth/login?next=/trainer/verification');
+        return;
+      }
+
+      const { data: userData, error } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', authUser.id)
+        .single();
+
+      if (error || userData?.role !== 'trainer') {
+        setAuthState('access_denied');
+        return;
+      }
+
+      setAuthState('authenticated');
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const { data: verification, isLoading, error, refetch } = trpc.verification.getMyVerification.useQuery(
+    undefined,
+    { enabled: authState === 'authenticated' }
+  );
+
+  useEffect(() => {
+    if (verification?.certification_id) {
+      setCertificationId(prev => prev || verification.certification_id || '');
+    }
+  }, [verification?.certification_id]);
+
+  const uploadDocument = trpc.verification.uploadDocument.useMutation();
+  const deleteDocument = trpc.verification.deleteDocument.useMutation({
+    onSuccess: () => refetch(),
+    onError: (err) => setFormError(err.message),
+  });
+  const submitForVerification = trpc.verification.submitForVerification.useMutation({
+    onSuccess: () => refetch(),
+    onError: (err) => setFormError(err.message),
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFormError(null);
+
+    if (!ACCEPTED_TYPES.includes(file.type as DocumentContentType)) {
+      setFormError('Documents must be a PDF, JPEG or PNG');
+      return;
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      setFormError('Documents must be 10 MB or smaller');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      await uploadDocument.mutateAsync({
+        file: await readFileAsDataUrl(file),
+        filename: file.name,
+        content_type: file.type as DocumentContentType,
+      });
+      await refetch();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to upload document');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    setFormError(null);
+
+    if (!certificationId.trim()) {
+      setFormError('Enter your certification ID');
+      return;
+    }
+
+    submitForVerification.mutate({ certification_id: certificationId.trim() });
+  };
+
+  if (authState === 'loading' || (authState === 'authenticated' && isLoading)) {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (authState === 'access_denied' || error || !verification) {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-bg-secondary border border-border rounded-2xl p-8 text-center">
+          <span className="text-4xl mb-4 block">🚫</span>
+          <h1 className="text-xl font-bold text-text-primary mb-2">Access Denied</h1>
+          <p className="text-text-secondary mb-4">
+            {error?.message || 'Only trainers can manage verification documents.'}
+          </p>
+          <Link href="/" className="text-accent hover:underline">Go Home</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isApproved = verification.verification_status === 'approved';
+  const isLocked = isApproved || verification.awaiting_review;
+
+  const statusLabel = isApproved
+    ? 'Verified'
+    : verification.awaiting_review
+      ? 'Under review'
+      : verification.verification_status === 'rejected'
+        ? 'Rejected'
+        : 'Not submitted';
+
+  return (
+    <div className="min-h-screen bg-bg-primary">
+      {/* Header */}
+      <header className="bg-bg-secondary border-b border-border">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <h1 className="text-2xl font-bold text-text-primary">Trainer Verification</h1>
+          <p className="text-sm text-text-secondary mt-1">
+            Upload your certification documents for an admin to review
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Status */}
+        <div className="bg-bg-secondary border border-border rounded-xl p-6">
+          <div className="flex items-center justify-between">
+            <p className="text-text-secondary">Status</p>
+            <span className={`px-3 py-1 rounded-full border text-sm font-medium ${STATUS_STYLES[verification.verification_status]}`}>
+              {statusLabel}
+            </span>
+          </div>
+          {verification.verification_submitted_at && (
+            <p className="text-xs text-text-muted mt-2">
+              Last submitted {new Date(verification.verification_submitted_at).toLocaleString()}
+            </p>
+          )}
+          {verification.verification_status === 'rejected' && verification.verification_reason && (
+            <div className="mt-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              {verification.verification_reason}
+            </div>
+          )}
+        </div>
+
+        {formError && (
+          <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {formError}
+          </div>
+        )}
+
+        {/* Documents */}
+        <div className="bg-bg-secondary border border-border rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-text-primary">Documents</h2>
+            {!isLocked && (
+              <label className="px-4 py-2 bg-accent/10 hover:bg-accent/20 text-accent border border-accent/20 rounded-lg text-sm font-medium transition-colors cursor-pointer">
+                {isUploading ? 'Uploading...' : 'Upload'}
+                <input
+                  type="file"
+                  accept={ACCEPTED_TYPES.join(',')}
+                  onChange={handleFileChange}
+                  disabled={isUploading}
+                  className="hidden"
+                />
+              </label>
+            )}
+          </div>
+
+          {verification.documents.length === 0 ? (
+            <p className="text-sm text-text-muted">No documents uploaded yet. PDF, JPEG or PNG up to 10 MB.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {verification.documents.map((document) => (
+                <li key={document.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    {document.url ? (
+                      <a
+                        href={document.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-accent hover:underline truncate block"
+                      >
+                        {document.file_name}
+                      </a>
+                    ) : (
+                      <p className="text-sm text-text-primary truncate">{document.file_name}</p>
+                    )}
+                    <p className="text-xs text-text-muted">
+                      Uploaded {new Date(document.uploaded_at).toLocaleString()}
+                    </p>
+                  </div>
+                  {!verification.awaiting_review && (
+                    <button
+                      onClick={() => deleteDocument.mutate({ document_id: document.id })}
+                      disabled={deleteDocument.isPending}
+                      className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Submit */}
+        {!isLocked && (
+          <div className="bg-bg-secondary border border-border rounded-xl p-6 space-y-4">
+            <div>
+              <label className="block text-sm text-text-secondary mb-2">Certification ID</label>
+              <input
+                type="text"
+                value={certificationId}
+                onChange={(e) => setCertificationId(e.target.value)}
+                className="w-full px-4 py-3 bg-bg-primary border border-border rounded-xl text-text-primary focus:border-accent focus:outline-none"
+              />
+            </div>
+            <button
+              onClick={handleSubmit}
+              disabled={submitForVerification.isPending || verification.documents.length === 0}
+              className="w-full px-4 py-3 bg-accent hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-xl transition-colors"
+            >
+              {submitForVerification.isPending
+                ? 'Submitting...'
+                : verification.verification_status === 'rejected' ? 'Resubmit for Review' : 'Submit for Review'}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
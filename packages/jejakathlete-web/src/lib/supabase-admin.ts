@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Service role Supabase client for server routes without a user session
+ * Bypasses RLS, so only use it after authorizing the request yourself
+ */
+export function createSupabaseAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { httpBatchLink } from '@trpc/client';
+import { httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/client';
 import { useState } from 'react';
 import { trpc } from './trpc-client';
 import superjson from 'superjson';
@@ -11,9 +11,17 @@ export function TRPCProvider({ children }: { children: React.ReactNode }) {
   const [trpcClient] = useState(() =>
     trpc.createClient({
       links: [
-        httpBatchLink({
-          url: '/api/trpc',
-          transformer: superjson,
+        // Subscriptions stream over server-sent events; everything else is batched
+        splitLink({
+          condition: (op) => op.type === 'subscription',
+          true: httpSubscriptionLink({
+            url: '/api/trpc',
+            transformer: superjson,
+          }),
+          false: httpBatchLink({
+            url: '/api/trpc',
+            transformer: superjson,
+          }),
         }),
       ],
     })
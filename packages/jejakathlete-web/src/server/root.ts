@@ -3,24 +3,50 @@ import { authRouter } from './routers/auth';
 import { profilesRouter } from './routers/profiles';
 import { enrollmentsRouter } from './routers/enrollments';
 import { bodyMetricsRouter } from './routers/bodyMetrics';
+import { goalsRouter } from './routers/goals';
+import { achievementsRouter } from './routers/achievements';
 import { testResultsRouter } from './routers/testResults';
 import { workoutsRouter } from './routers/workouts';
+import { adherenceRouter } from './routers/adherence';
+import { programsRouter } from './routers/programs';
 import { eventsRouter } from './routers/events';
+import { eventResultsRouter } from './routers/eventResults';
 import { notificationsRouter } from './routers/notifications';
 import { dashboardRouter } from './routers/dashboard';
 import { adminRouter } from './routers/admin';
+import { calendarRouter } from './routers/calendar';
+import { syncRouter } from './routers/sync';
+import { reportsRouter } from './routers/reports';
+import { verificationRouter } from './routers/verification';
+import { devicesRouter } from './routers/devices';
+import { realtimeRouter } from './routers/realtime';
+import { dataExportsRouter } from './routers/dataExports';
+import { accountDeletionRouter } from './routers/accountDeletion';
 
 export const appRouter = router({
   auth: authRouter,
   profiles: profilesRouter,
   enrollments: enrollmentsRouter,
   bodyMetrics: bodyMetricsRouter,
+  goals: goalsRouter,
+  achievements: achievementsRouter,
   testResults: testResultsRouter,
   workouts: workoutsRouter,
+  adherence: adherenceRouter,
+  programs: programsRouter,
   events: eventsRouter,
+  eventResults: eventResultsRouter,
   notifications: notificationsRouter,
   dashboard: dashboardRouter,
   admin: adminRouter,
+  calendar: calendarRouter,
+  sync: syncRouter,
+  reports: reportsRouter,
+  verification: verificationRouter,
+  devices: devicesRouter,
+  realtime: realtimeRouter,
+  dataExports: dataExportsRouter,
+  accountDeletion: accountDeletionRouter,
 });
 
 export type AppRouter = typeof appRouter;
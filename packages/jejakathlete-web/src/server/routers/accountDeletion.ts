@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import { router, protectedProcedure, authenticatedProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { AccountDeletion } from '@jejakathlete/shared';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import { recordAudit } from '../utils/audit';
+import {
+  ACCOUNT_DELETION_GRACE_MS,
+  deactivateAccount,
+  isTransferRecipient,
+  reactivateAccount,
+} from '../utils/accountDeletion';
+
+/**
+ * Account Deletion Router
+ * Self-service account deletion. A request deactivates the account at once;
+ * the user can sign in and cancel it until it is due, after which the
+ * scheduler deletes the account and its data.
+ */
+export const accountDeletionRouter = router({
+  /**
+   * Get the user's pending deletion request, or null
+   * Available to deactivated accounts so the app can offer to cancel.
+   */
+  getMyDeletion: authenticatedProcedure.query(async ({ ctx }) => {
+    try {
+      const { data, error } = await ctx.supabase
+        .from('account_deletions')
+        .select('*')
+        .eq('user_id', ctx.user.id)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch account deletion',
+        });
+      }
+
+      return (data as AccountDeletion | null) ?? null;
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error fetching account deletion:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * Ask for the account to be deleted after the grace period
+   * The account is deactivated straight away. Trainers can name another
+   * trainer by code to take over their athletes and content; without one,
+   * content athletes still use is anonymised.
+   */
+  requestDeletion: protectedProcedure
+    .input(
+      z.object({
+        reason: z.string().max(1000).optional(),
+        transfer_to_trainer_code: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (ctx.role === 'admin' || ctx.role === 'rekabytes-admin') {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Admin accounts must be removed by another admin',
+          });
+        }
+
+        const supabase = createSupabaseAdminClient();
+        let transferToUserId: string | null = null;
+
+        if (input.transfer_to_trainer_code?.trim()) {
+          if (ctx.role !== 'trainer') {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'Only trainers can transfer their athletes',
+            });
+          }
+
+          const { data: recipient } = await supabase
+            .from('trainers')
+            .select('user_id')
+            .eq('trainer_code', input.transfer_to_trainer_code.trim().toUpperCase())
+            .maybeSingle();
+
+          if (!recipient || !(await isTransferRecipient(supabase, ctx.user.id, recipient.user_id))) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'No active trainer found with that code',
+            });
+          }
+
+          transferToUserId = recipient.user_id;
+        }
+
+        const { data: user } = await supabase
+          .from('users')
+          .select('full_name')
+          .eq('id', ctx.user.id)
+          .maybeSingle();
+
+        const now = new Date();
+        const { data: deletion, error } = await supabase
+          .from('account_deletions')
+          .insert({
+            user_id: ctx.user.id,
+            user_name: user?.full_name ?? null,
+            user_role: ctx.role,
+            reason: input.reason?.trim() || null,
+            transfer_to_user_id: transferToUserId,
+            requested_at: now.toISOString(),
+            scheduled_for: new Date(now.getTime() + ACCOUNT_DELETION_GRACE_MS).toISOString(),
+          })
+          .select()
+          .single();
+
+        if (error || !deletion) {
+          throw new TRPCError({
+            code: error?.code === '23505' ? 'CONFLICT' : 'INTERNAL_SERVER_ERROR',
+            message: error?.code === '23505'
+              ? 'Account deletion has already been requested'
+              : 'Failed to request account deletion',
+          });
+        }
+
+        await deactivateAccount(supabase, ctx.user.id, now);
+
+        await recordAudit(ctx, {
+          action: 'user.deletion_requested',
+          entity_type: 'user',
+          entity_id: ctx.user.id,
+          before: null,
+          after: {
+            scheduled_for: deletion.scheduled_for,
+            transfer_to_user_id: transferToUserId,
+          },
+        });
+
+        return deletion as AccountDeletion;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error requesting account deletion:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Cancel a pending deletion and reactivate the account
+   * Only possible until the deletion is due.
+   */
+  cancelDeletion: authenticatedProcedure.mutation(async ({ ctx }) => {
+    try {
+      const supabase = createSupabaseAdminClient();
+      const now = new Date().toISOString();
+
+      const { data: cancelled, error } = await supabase
+        .from('account_deletions')
+        .update({ status: 'cancelled', cancelled_at: now })
+        .eq('user_id', ctx.user.id)
+        .eq('status', 'pending')
+        .gt('scheduled_for', now)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to cancel account deletion',
+        });
+      }
+
+      if (!cancelled) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'No account deletion to cancel',
+        });
+      }
+
+      await reactivateAccount(supabase, ctx.user.id);
+
+      await recordAudit(ctx, {
+        action: 'user.deletion_cancelled',
+        entity_type: 'user',
+        entity_id: ctx.user.id,
+        before: { scheduled_for: cancelled.scheduled_for },
+        after: null,
+      });
+
+      return cancelled as AccountDeletion;
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error cancelling account deletion:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+});
@@ -0,0 +1,28 @@
+import { router, athleteProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { getAchievementProgress } from '../utils/achievements';
+
+/**
+ * Achievements Router
+ * Badges athletes earn for workouts, streaks, personal records and goals
+ */
+export const achievementsRouter = router({
+  /**
+   * Get every badge with the athlete's progress towards it
+   * Earned badges have the date they were awarded
+   */
+  getMyAchievements: athleteProcedure.query(async ({ ctx }) => {
+    try {
+      return await getAchievementProgress(ctx.supabase, ctx.user.id);
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      console.error('Unexpected error in getMyAchievements:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch achievements',
+      });
+    }
+  }),
+});
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { router, athleteProcedure, trainerProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { verifyTrainerAthleteAccess, isAdmin } from '../utils/authorization';
+import { DEFAULT_ADHERENCE_WEEKS, getWorkoutAdherence } from '../utils/adherence';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+const weeksSchema = z.number().int().min(1).max(52).default(DEFAULT_ADHERENCE_WEEKS);
+
+/**
+ * Adherence Router
+ * Adherence rate, streaks, completion delay and weekly completions of
+ * assigned workouts
+ */
+export const adherenceRouter = router({
+  /**
+   * Get the athlete's own workout adherence
+   */
+  getMyAdherence: athleteProcedure
+    .input(
+      z
+        .object({
+          weeks: weeksSchema,
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const adherence = await getWorkoutAdherence(ctx.supabase, [ctx.user.id], input?.weeks);
+        return adherence.get(ctx.user.id)!;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getMyAdherence:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch workout adherence',
+        });
+      }
+    }),
+
+  /**
+   * Get an athlete's workout adherence (trainer access)
+   * Requires approved enrollment between trainer and athlete
+   */
+  getAthleteAdherence: trainerProcedure
+    .input(
+      z.object({
+        athlete_id: z.string().uuid(),
+        weeks: weeksSchema,
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        if (!isAdmin(ctx.role)) {
+          const hasAccess = await verifyTrainerAthleteAccess(ctx.supabase, ctx.user.id, input.athlete_id);
+
+          if (!hasAccess) {
+            throw new TRPCError({
+              code: 'FORBIDDEN',
+              message: 'You do not have access to this athlete\'s data',
+            });
+          }
+        }
+
+        const adherence = await getWorkoutAdherence(ctx.supabase, [input.athlete_id], input.weeks);
+        return adherence.get(input.athlete_id)!;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getAthleteAdherence:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch workout adherence',
+        });
+      }
+    }),
+
+  /**
+   * Get the workout adherence of every athlete enrolled with the trainer
+   */
+  listAthleteAdherence: trainerProcedure
+    .input(
+      z
+        .object({
+          weeks: weeksSchema,
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data: enrollments, error } = await ctx.supabase
+          .from('enrollments')
+          .select('athlete_id')
+          .eq('trainer_id', ctx.user.id)
+          .eq('status', 'approved');
+
+        if (error) {
+          console.error('Error fetching enrolled athletes:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch athletes',
+          });
+        }
+
+        const athleteIds = [...new Set((enrollments || []).map((enrollment) => enrollment.athlete_id as string))];
+        const adherence = await getWorkoutAdherence(ctx.supabase, athleteIds, input?.weeks);
+        return [...adherence.values()];
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in listAthleteAdherence:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch workout adherence',
+        });
+      }
+    }),
+});
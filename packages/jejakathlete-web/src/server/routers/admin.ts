@@ -1,6 +1,11 @@
 import { z } from 'zod';
-import { router, publicProcedure } from '../trpc';
+import { router, adminProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import type { AccountDeletion, AuditLogEntry, TrainerDocument } from '@jejakathlete/shared';
+import { diffValues, recordAudit } from '../utils/audit';
+import { notifyUser } from '../utils/notifications';
+import { isAwaitingReview, withDocumentUrls } from '../utils/trainerVerification';
 
 /**
  * Admin Router
@@ -10,16 +15,8 @@ export const adminRouter = router({
   /**
    * Get admin dashboard statistics
    */
-  getStats: publicProcedure.query(async ({ ctx }) => {
+  getStats: adminProcedure.query(async ({ ctx }) => {
     try {
-      // Verify admin role
-      if (!ctx.user || ctx.user.role !== 'admin') {
-        throw new TRPCError({
-          code: 'UNAUTHORIZED',
-          message: 'Admin access required',
-        });
-      }
-
       // Get total users count
       const { count: totalUsers } = await ctx.supabase
         .from('users')
@@ -46,12 +43,19 @@ export const adminRouter = router({
         .select('*', { count: 'exact', head: true })
         .eq('verification_status', 'pending');
 
+      // Get accounts waiting to be deleted
+      const { count: pendingDeletions } = await ctx.supabase
+        .from('account_deletions')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', 'pending');
+
       return {
         totalUsers: totalUsers || 0,
         totalAthletes: totalAthletes || 0,
         totalTrainers: totalTrainers || 0,
         totalEnrollments: totalEnrollments || 0,
         pendingVerifications: pendingVerifications || 0,
+        pendingDeletions: pendingDeletions || 0,
       };
     } catch (error) {
       if (error instanceof TRPCError) throw error;
@@ -65,7 +69,7 @@ export const adminRouter = router({
   /**
    * Get all users with optional filtering
    */
-  getUsers: publicProcedure
+  getUsers: adminProcedure
     .input(
       z.object({
         role: z.enum(['athlete', 'trainer', 'admin', 'all']).optional().default('all'),
@@ -75,13 +79,6 @@ export const adminRouter = router({
     )
     .query(async ({ ctx, input }) => {
       try {
-        if (!ctx.user || ctx.user.role !== 'admin') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         let query = ctx.supabase
           .from('users')
           .select(`
@@ -91,6 +88,7 @@ export const adminRouter = router({
             role,
             avatar_url,
             is_verified,
+            deactivated_at,
             created_at,
             user_profiling(phone, city, country),
             athletes(sport, level),
@@ -120,17 +118,10 @@ export const adminRouter = router({
   /**
    * Get detailed user profile
    */
-  getUserDetail: publicProcedure
+  getUserDetail: adminProcedure
     .input(z.object({ userId: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
       try {
-        if (!ctx.user || ctx.user.role !== 'admin') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         const { data, error } = await ctx.supabase
           .from('users')
           .select(`
@@ -157,17 +148,10 @@ export const adminRouter = router({
   /**
    * Get athlete workout progress
    */
-  getAthleteWorkouts: publicProcedure
+  getAthleteWorkouts: adminProcedure
     .input(z.object({ athleteId: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
       try {
-        if (!ctx.user || ctx.user.role !== 'admin') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         const { data, error } = await ctx.supabase
           .from('workout_assignments')
           .select(`
@@ -189,4 +173,683 @@ export const adminRouter = router({
         });
       }
     }),
+
+  /**
+   * Change a user's role
+   * Admins can't change their own role, so an admin can't lock themselves out.
+   */
+  updateUserRole: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().uuid(),
+        role: z.enum(['athlete', 'trainer', 'admin', 'rekabytes-admin']),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (input.userId === ctx.user.id) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'You cannot change your own role',
+          });
+        }
+
+        const supabase = createSupabaseAdminClient();
+
+        const { data: user, error: fetchError } = await supabase
+          .from('users')
+          .select('id, role')
+          .eq('id', input.userId)
+          .single();
+
+        if (fetchError || !user) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'User not found',
+          });
+        }
+
+        const changes = diffValues(user, { role: input.role });
+        if (!changes) return user;
+
+        const { data: updatedUser, error: updateError } = await supabase
+          .from('users')
+          .update({ role: input.role, updated_at: new Date().toISOString() })
+          .eq('id', input.userId)
+          .select('id, role')
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update user role',
+          });
+        }
+
+        await recordAudit(ctx, {
+          action: 'user.role_changed',
+          entity_type: 'user',
+          entity_id: input.userId,
+          ...changes,
+        });
+
+        return updatedUser;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update user role',
+        });
+      }
+    }),
+
+  /**
+   * Mark a user as verified or unverified
+   */
+  setUserVerified: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().uuid(),
+        is_verified: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const supabase = createSupabaseAdminClient();
+
+        const { data: user, error: fetchError } = await supabase
+          .from('users')
+          .select('id, is_verified')
+          .eq('id', input.userId)
+          .single();
+
+        if (fetchError || !user) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'User not found',
+          });
+        }
+
+        const changes = diffValues(user, { is_verified: input.is_verified });
+        if (!changes) return user;
+
+        const { data: updatedUser, error: updateError } = await supabase
+          .from('users')
+          .update({ is_verified: input.is_verified, updated_at: new Date().toISOString() })
+          .eq('id', input.userId)
+          .select('id, is_verified')
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update user verification',
+          });
+        }
+
+        await recordAudit(ctx, {
+          action: 'user.verification_changed',
+          entity_type: 'user',
+          entity_id: input.userId,
+          ...changes,
+        });
+
+        return updatedUser;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update user verification',
+        });
+      }
+    }),
+
+  /**
+   * Update a user's profiling details
+   * Only the fields provided are changed; the row is created if missing.
+   */
+  updateUserProfiling: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().uuid(),
+        phone: z.string().nullable().optional(),
+        address: z.string().nullable().optional(),
+        city: z.string().nullable().optional(),
+        country: z.string().nullable().optional(),
+        date_of_birth: z.string().nullable().optional(),
+        gender: z.string().nullable().optional(),
+        bio: z.string().nullable().optional(),
+        avatar_url: z.string().url().nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { userId, ...fields } = input;
+        const supabase = createSupabaseAdminClient();
+
+        const { data: profiling, error: fetchError } = await supabase
+          .from('user_profiling')
+          .select('*')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (fetchError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch user profiling',
+          });
+        }
+
+        const changes = diffValues(profiling, fields);
+        if (!changes) return profiling;
+
+        const { data: updatedProfiling, error: updateError } = await supabase
+          .from('user_profiling')
+          .upsert(
+            { user_id: userId, ...fields, updated_at: new Date().toISOString() },
+            { onConflict: 'user_id' }
+          )
+          .select()
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update user profiling',
+          });
+        }
+
+        await recordAudit(ctx, {
+          action: 'user_profiling.updated',
+          entity_type: 'user_profiling',
+          entity_id: userId,
+          before: profiling ? changes.before : null,
+          after: changes.after,
+        });
+
+        return updatedProfiling;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update user profiling',
+        });
+      }
+    }),
+
+  /**
+   * Update an athlete's sport and level
+   */
+  updateAthlete: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().uuid(),
+        sport: z.string().trim().min(1, 'Sport is required'),
+        level: z.enum(['beginner', 'intermediate', 'advanced', 'elite']),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { userId, ...fields } = input;
+        const supabase = createSupabaseAdminClient();
+
+        const { data: athlete, error: fetchError } = await supabase
+          .from('athletes')
+          .select('user_id, sport, level')
+          .eq('user_id', userId)
+          .single();
+
+        if (fetchError || !athlete) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Athlete not found',
+          });
+        }
+
+        const changes = diffValues(athlete, fields);
+        if (!changes) return athlete;
+
+        const { data: updatedAthlete, error: updateError } = await supabase
+          .from('athletes')
+          .update(fields)
+          .eq('user_id', userId)
+          .select('user_id, sport, level')
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update athlete',
+          });
+        }
+
+        await recordAudit(ctx, {
+          action: 'athlete.updated',
+          entity_type: 'athlete',
+          entity_id: userId,
+          ...changes,
+        });
+
+        return updatedAthlete;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update athlete',
+        });
+      }
+    }),
+
+  /**
+   * Update a trainer's code, certification, specialization and verification status
+   */
+  updateTrainer: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().uuid(),
+        trainer_code: z.string().trim().min(1, 'Trainer code is required'),
+        certification_id: z.string().trim().nullable(),
+        specialization: z.string().trim().nullable(),
+        verification_status: z.enum(['pending', 'approved', 'rejected']),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { userId, ...fields } = input;
+        const supabase = createSupabaseAdminClient();
+
+        const { data: trainer, error: fetchError } = await supabase
+          .from('trainers')
+          .select('user_id, trainer_code, certification_id, specialization, verification_status')
+          .eq('user_id', userId)
+          .single();
+
+        if (fetchError || !trainer) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Trainer not found',
+          });
+        }
+
+        const changes = diffValues(trainer, fields);
+        if (!changes) return trainer;
+
+        const { data: updatedTrainer, error: updateError } = await supabase
+          .from('trainers')
+          .update(fields)
+          .eq('user_id', userId)
+          .select('user_id, trainer_code, certification_id, specialization, verification_status')
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: updateError.code === '23505' ? 'CONFLICT' : 'INTERNAL_SERVER_ERROR',
+            message: updateError.code === '23505' ? 'Trainer code is already in use' : 'Failed to update trainer',
+          });
+        }
+
+        await recordAudit(ctx, {
+          action: 'trainer.updated',
+          entity_type: 'trainer',
+          entity_id: userId,
+          ...changes,
+        });
+
+        return updatedTrainer;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update trainer',
+        });
+      }
+    }),
+
+  /**
+   * Change the status or notes of an enrollment
+   */
+  updateEnrollment: adminProcedure
+    .input(
+      z.object({
+        enrollmentId: z.number(),
+        status: z.enum(['pending', 'approved', 'rejected']),
+        notes: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { enrollmentId, ...fields } = input;
+        const supabase = createSupabaseAdminClient();
+
+        const { data: enrollment, error: fetchError } = await supabase
+          .from('enrollments')
+          .select('id, status, notes')
+          .eq('id', enrollmentId)
+          .single();
+
+        if (fetchError || !enrollment) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Enrollment not found',
+          });
+        }
+
+        const changes = diffValues(enrollment, fields);
+        if (!changes) return enrollment;
+
+        const { data: updatedEnrollment, error: updateError } = await supabase
+          .from('enrollments')
+          .update({
+            ...fields,
+            responded_at: fields.status === 'pending' ? null : new Date().toISOString(),
+          })
+          .eq('id', enrollmentId)
+          .select('id, status, notes')
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update enrollment',
+          });
+        }
+
+        await recordAudit(ctx, {
+          action: 'enrollment.updated',
+          entity_type: 'enrollment',
+          entity_id: enrollmentId,
+          ...changes,
+        });
+
+        return updatedEnrollment;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update enrollment',
+        });
+      }
+    }),
+
+  /**
+   * List trainers for verification review with their documents
+   * The pending queue only includes trainers who have submitted, oldest
+   * submission first. Document URLs are signed and expire after an hour.
+   */
+  getVerificationQueue: adminProcedure
+    .input(
+      z.object({
+        status: z.enum(['pending', 'approved', 'rejected']).optional().default('pending'),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        const supabase = createSupabaseAdminClient();
+
+        const { data: trainers, error } = await supabase
+          .from('trainers')
+          .select(`
+            user_id,
+            trainer_code,
+            certification_id,
+            specialization,
+            verification_status,
+            verification_submitted_at,
+            verification_reviewed_at,
+            verification_reason,
+            users!trainers_user_id_fkey (
+              full_name,
+              avatar_url
+            )
+          `)
+          .eq('verification_status', input.status)
+          .not('verification_submitted_at', 'is', null)
+          .order('verification_submitted_at', { ascending: input.status === 'pending' });
+
+        if (error) throw error;
+
+        const queue = input.status === 'pending' ? (trainers || []).filter(isAwaitingReview) : trainers || [];
+        if (queue.length === 0) return [];
+
+        const { data: documents, error: documentsError } = await supabase
+          .from('trainer_documents')
+          .select('*')
+          .in('trainer_id', queue.map((trainer) => trainer.user_id))
+          .order('uploaded_at', { ascending: false });
+
+        if (documentsError) throw documentsError;
+
+        const signedDocuments = await withDocumentUrls(supabase, (documents || []) as TrainerDocument[]);
+
+        return queue.map(({ users, ...trainer }) => {
+          const user = Array.isArray(users) ? users[0] : users;
+          return {
+            ...trainer,
+            full_name: user?.full_name || '',
+            avatar_url: user?.avatar_url || null,
+            awaiting_review: isAwaitingReview(trainer),
+            documents: signedDocuments.filter((document) => document.trainer_id === trainer.user_id),
+          };
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch verification queue',
+        });
+      }
+    }),
+
+  /**
+   * Approve or reject a trainer's verification submission
+   * A reason is required when rejecting; the trainer is notified either way.
+   */
+  reviewTrainerVerification: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().uuid(),
+        decision: z.enum(['approved', 'rejected']),
+        reason: z.string().trim().max(1000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (input.decision === 'rejected' && !input.reason) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A reason is required when rejecting',
+          });
+        }
+
+        const supabase = createSupabaseAdminClient();
+
+        const { data: trainer, error: fetchError } = await supabase
+          .from('trainers')
+          .select('user_id, verification_status, verification_submitted_at, verification_reviewed_at, verification_reason')
+          .eq('user_id', input.userId)
+          .single();
+
+        if (fetchError || !trainer) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Trainer not found',
+          });
+        }
+
+        if (!isAwaitingReview(trainer)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This trainer has no submission awaiting review',
+          });
+        }
+
+        const fields = {
+          verification_status: input.decision,
+          verification_reason: input.reason || null,
+        };
+
+        const { data: updatedTrainer, error: updateError } = await supabase
+          .from('trainers')
+          .update({
+            ...fields,
+            verification_reviewed_at: new Date().toISOString(),
+            verification_reviewed_by: ctx.user.id,
+          })
+          .eq('user_id', input.userId)
+          .select('user_id, certification_id, verification_status, verification_reviewed_at, verification_reason')
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to review trainer verification',
+          });
+        }
+
+        await recordAudit(ctx, {
+          action: 'trainer.verification_reviewed',
+          entity_type: 'trainer',
+          entity_id: input.userId,
+          before: {
+            verification_status: trainer.verification_status,
+            verification_reason: trainer.verification_reason,
+          },
+          after: fields,
+        });
+
+        await notifyUser({
+          user_id: input.userId,
+          type: 'trainer_verification',
+          title: input.decision === 'approved' ? 'Verification Approved' : 'Verification Rejected',
+          message: input.decision === 'approved'
+            ? 'Your trainer certification has been verified'
+            : `Your trainer certification was not approved: ${input.reason}`,
+          data: {
+            target: { screen: 'verification' },
+            decision: input.decision,
+            reason: input.reason || null,
+          },
+        });
+
+        return updatedTrainer;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to review trainer verification',
+        });
+      }
+    }),
+
+  /**
+   * List account deletion requests with the transfer recipient's name
+   * Pending requests come soonest due first; others most recent first.
+   */
+  getAccountDeletions: adminProcedure
+    .input(
+      z.object({
+        status: z.enum(['pending', 'cancelled', 'completed']).optional().default('pending'),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from('account_deletions')
+          .select('*')
+          .eq('status', input.status)
+          .order(input.status === 'pending' ? 'scheduled_for' : 'requested_at', {
+            ascending: input.status === 'pending',
+          })
+          .limit(200);
+
+        if (error) throw error;
+
+        const deletions = (data || []) as AccountDeletion[];
+        const recipientIds = [
+          ...new Set(deletions.map((deletion) => deletion.transfer_to_user_id).filter((id): id is string => !!id)),
+        ];
+
+        const { data: recipients, error: recipientsError } = recipientIds.length > 0
+          ? await ctx.supabase.from('users').select('id, full_name').in('id', recipientIds)
+          : { data: [], error: null };
+
+        if (recipientsError) throw recipientsError;
+
+        const names = new Map((recipients || []).map((recipient) => [recipient.id as string, recipient.full_name as string | null]));
+
+        return deletions.map((deletion) => ({
+          ...deletion,
+          transfer_to_name: deletion.transfer_to_user_id ? names.get(deletion.transfer_to_user_id) ?? null : null,
+        }));
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch account deletions',
+        });
+      }
+    }),
+
+  /**
+   * List audit log entries, newest first
+   * Filters can be combined; dates are inclusive YYYY-MM-DD bounds.
+   */
+  getAuditLog: adminProcedure
+    .input(
+      z.object({
+        action: z
+          .enum([
+            'user.role_changed',
+            'user.verification_changed',
+            'user.deletion_requested',
+            'user.deletion_cancelled',
+            'user.deleted',
+            'user_profiling.updated',
+            'athlete.updated',
+            'trainer.updated',
+            'trainer.verification_reviewed',
+            'enrollment.updated',
+          ])
+          .optional(),
+        entity_type: z.enum(['user', 'user_profiling', 'trainer', 'athlete', 'enrollment']).optional(),
+        entity_id: z.string().optional(),
+        actor_id: z.string().uuid().optional(),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        limit: z.number().min(1).max(200).optional().default(50),
+        offset: z.number().min(0).optional().default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        let query = ctx.supabase
+          .from('audit_logs')
+          .select('*', { count: 'exact' })
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .range(input.offset, input.offset + input.limit - 1);
+
+        if (input.action) query = query.eq('action', input.action);
+        if (input.entity_type) query = query.eq('entity_type', input.entity_type);
+        if (input.entity_id) query = query.eq('entity_id', input.entity_id);
+        if (input.actor_id) query = query.eq('actor_id', input.actor_id);
+        if (input.from) query = query.gte('created_at', `${input.from}T00:00:00Z`);
+        if (input.to) query = query.lte('created_at', `${input.to}T23:59:59.999Z`);
+
+        const { data, count, error } = await query;
+
+        if (error) throw error;
+
+        return {
+          entries: (data || []) as AuditLogEntry[],
+          total: count ?? 0,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch audit log',
+        });
+      }
+    }),
 });
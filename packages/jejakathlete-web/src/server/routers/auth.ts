@@ -58,6 +58,7 @@ async function fetchUserProfile(
     role: profile.role,
     avatar_url: profile.avatar_url,
     is_verified: profile.is_verified,
+    deactivated_at: profile.deactivated_at ?? null,
     created_at: profile.created_at,
     updated_at: profile.updated_at,
     trainer_data,
@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { router, protectedProcedure, athleteProcedure, trainerProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
 import { verifyTrainerAthleteAccess, isAdmin } from '../utils/authorization';
+import { evaluateGoals } from '../utils/goals';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
 
 /**
  * Body Metrics Router
@@ -49,6 +51,8 @@ export const bodyMetricsRouter = router({
           });
         }
 
+        await evaluateGoals(createSupabaseAdminClient(), ctx.user.id);
+
         return data;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -150,7 +154,7 @@ export const bodyMetricsRouter = router({
         }
 
         // Build update object with only provided fields
-        const updateData: any = {};
+        const updateData: any = { updated_at: new Date().toISOString() };
         if (input.measurement_date !== undefined) updateData.measurement_date = input.measurement_date;
         if (input.weight !== undefined) updateData.weight = input.weight;
         if (input.height !== undefined) updateData.height = input.height;
@@ -174,6 +178,8 @@ export const bodyMetricsRouter = router({
           });
         }
 
+        await evaluateGoals(createSupabaseAdminClient(), existingMetric.athlete_id);
+
         return data;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { CalendarFeed } from '@jejakathlete/shared';
+import { generateFeedToken, getFeedUrls } from '../utils/calendarFeed';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/timezone';
+
+const timezoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: 'Unknown time zone' });
+
+/**
+ * Shape a feed row for the client, exposing the URLs rather than the raw token
+ */
+function toFeedResponse(feed: CalendarFeed) {
+  return {
+    ...getFeedUrls(feed.token),
+    timezone: feed.timezone,
+    created_at: feed.created_at,
+    updated_at: feed.updated_at,
+  };
+}
+
+/**
+ * Calendar Router
+ * Manages the secret iCalendar subscription feed for the user's schedule
+ */
+export const calendarRouter = router({
+  /**
+   * Get the current user's calendar feed
+   * Returns null if the user has not created a feed yet
+   */
+  getFeed: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const { data, error } = await ctx.supabase
+        .from('calendar_feeds')
+        .select('*')
+        .eq('user_id', ctx.user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching calendar feed:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch calendar feed',
+        });
+      }
+
+      return data ? toFeedResponse(data) : null;
+    } catch (error) {
+      if (error instanceof TRPCError) throw error;
+      console.error('Unexpected error in getFeed:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * Create the calendar feed or replace its token
+   * Replacing the token stops the old subscription URL from working
+   */
+  regenerateFeedToken: protectedProcedure
+    .input(
+      z.object({
+        timezone: timezoneSchema.optional(),
+      }).optional()
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data: existing } = await ctx.supabase
+          .from('calendar_feeds')
+          .select('timezone')
+          .eq('user_id', ctx.user.id)
+          .maybeSingle();
+
+        const { data, error } = await ctx.supabase
+          .from('calendar_feeds')
+          .upsert({
+            user_id: ctx.user.id,
+            token: generateFeedToken(),
+            timezone: input?.timezone || existing?.timezone || DEFAULT_TIMEZONE,
+            updated_at: new Date().toISOString(),
+          })
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error regenerating calendar feed token:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to regenerate calendar feed',
+          });
+        }
+
+        return toFeedResponse(data);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Unexpected error in regenerateFeedToken:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Set the time zone the feed's event times are published in
+   */
+  updateFeedTimezone: protectedProcedure
+    .input(
+      z.object({
+        timezone: timezoneSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from('calendar_feeds')
+          .update({
+            timezone: input.timezone,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('user_id', ctx.user.id)
+          .select()
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error updating calendar feed time zone:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update calendar feed',
+          });
+        }
+
+        if (!data) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Calendar feed not found',
+          });
+        }
+
+        return toFeedResponse(data);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Unexpected error in updateFeedTimezone:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+});
@@ -1,10 +1,217 @@
 import { z } from 'zod';
-import { router, athleteProcedure } from '../trpc';
+import { router, athleteProcedure, trainerProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  TrainerDashboardActivity,
+  TrainerDashboardEvent,
+  TrainerDashboardInactiveAthlete,
+  TrainerDashboardRecord,
+  TrainerDashboardStats,
+} from '@jejakathlete/shared';
+import { getWorkoutAdherence, getWeekStart } from '../utils/adherence';
+import { addDays, programToday } from '../utils/programs';
+import { expandEventsInWindow, formatEventTime, shiftEventTime } from '../utils/recurrence';
+import { DEFAULT_TIMEZONE, zonedNow } from '../utils/timezone';
+
+// Rows in the trainer dashboard lists
+const RECENT_RECORDS_LIMIT = 5;
+const UPCOMING_EVENTS_LIMIT = 5;
+const RECENT_ACTIVITY_LIMIT = 5;
+
+// How long a new enrollment shows in the recent activity
+const RECENT_ENROLLMENT_DAYS = 7;
+
+// How far ahead the trainer dashboard looks for events
+const UPCOMING_EVENTS_DAYS = 14;
+
+/**
+ * Count this week's workouts a trainer assigned: completed, still due and overdue
+ */
+async function getWorkoutsThisWeek(
+  supabase: SupabaseClient,
+  trainerId: string,
+  today: string
+): Promise<TrainerDashboardStats['workouts_this_week']> {
+  const weekStart = getWeekStart(today);
+
+  const { data, error } = await supabase
+    .from('workout_assignments')
+    .select('status, scheduled_date')
+    .eq('trainer_id', trainerId)
+    .gte('scheduled_date', weekStart)
+    .lte('scheduled_date', addDays(weekStart, 6))
+    .neq('status', 'cancelled');
+
+  if (error) throw error;
+
+  const open = (data || []).filter((row) => row.status === 'pending' || row.status === 'in_progress');
+
+  return {
+    week_start: weekStart,
+    completed: (data || []).filter((row) => row.status === 'completed').length,
+    due: open.filter((row) => row.scheduled_date >= today).length,
+    overdue: open.filter((row) => row.scheduled_date < today).length,
+  };
+}
+
+/**
+ * The trainer's next events, with recurring series expanded
+ * Event times are wall-clock times in the default time zone.
+ */
+async function getUpcomingEvents(supabase: SupabaseClient, trainerId: string): Promise<TrainerDashboardEvent[]> {
+  const now = formatEventTime(zonedNow(DEFAULT_TIMEZONE));
+  const windowEnd = shiftEventTime(now, UPCOMING_EVENTS_DAYS * 24 * 60 * 60);
+
+  const buildQuery = () =>
+    supabase
+      .from('events')
+      .select('id, title, start_date, end_date, location, recurrence_rule, recurrence_exdates, recurrence_parent_id')
+      .eq('created_by_user_id', trainerId)
+      .in('status', ['upcoming', 'ongoing']);
+
+  const [{ data: oneOff, error }, { data: series, error: seriesError }] = await Promise.all([
+    buildQuery().is('recurrence_rule', null).gte('start_date', now).lte('start_date', windowEnd),
+    buildQuery().not('recurrence_rule', 'is', null).lte('start_date', windowEnd),
+  ]);
+
+  if (error || seriesError) throw error || seriesError;
+
+  return expandEventsInWindow([...(oneOff || []), ...(series || [])], now, windowEnd)
+    .slice(0, UPCOMING_EVENTS_LIMIT)
+    .map((event) => ({
+      id: event.id,
+      title: event.title,
+      start_date: event.start_date,
+      end_date: event.end_date,
+      location: event.location,
+      occurrence_start: event.occurrence_start,
+      is_recurring: event.is_recurring,
+    }));
+}
+
+/**
+ * Latest personal records set by the given athletes
+ */
+async function getRecentRecords(
+  supabase: SupabaseClient,
+  athleteIds: string[]
+): Promise<Omit<TrainerDashboardRecord, 'athlete_name'>[]> {
+  if (athleteIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('test_results')
+    .select('id, athlete_id, result_value, test_date, test:tests(name, unit)')
+    .in('athlete_id', athleteIds)
+    .eq('is_best_record', true)
+    .order('test_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(RECENT_RECORDS_LIMIT);
+
+  if (error) throw error;
+
+  return (data || []).map((row: any) => {
+    const test = Array.isArray(row.test) ? row.test[0] : row.test;
+    return {
+      id: row.id,
+      athlete_id: row.athlete_id,
+      test_name: test?.name || 'Fitness test',
+      result_value: row.result_value,
+      unit: test?.unit ?? null,
+      test_date: row.test_date,
+    };
+  });
+}
+
+/**
+ * Latest test date of each athlete
+ * One single-row query per athlete, so long histories aren't cut off by the
+ * response row limit
+ */
+async function getLastTestDates(supabase: SupabaseClient, athleteIds: string[]): Promise<Map<string, string>> {
+  const latest = await Promise.all(
+    athleteIds.map(async (athleteId) => {
+      const { data, error } = await supabase
+        .from('test_results')
+        .select('test_date')
+        .eq('athlete_id', athleteId)
+        .order('test_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return [athleteId, data?.test_date as string | undefined] as const;
+    })
+  );
+
+  return new Map(latest.filter((entry): entry is readonly [string, string] => !!entry[1]));
+}
+
+/**
+ * Latest test results, completed workouts and new enrollments of a
+ * trainer's athletes, newest first, without athlete names
+ */
+async function getRecentActivity(
+  supabase: SupabaseClient,
+  trainerId: string,
+  athleteIds: string[],
+  enrollments: { athlete_id: string; responded_at: string | null }[]
+): Promise<Omit<TrainerDashboardActivity, 'athlete_name'>[]> {
+  if (athleteIds.length === 0) return [];
+
+  const [{ data: tests, error }, { data: workouts, error: workoutsError }] = await Promise.all([
+    supabase
+      .from('test_results')
+      .select('athlete_id, is_best_record, created_at, test:tests(name)')
+      .in('athlete_id', athleteIds)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_ACTIVITY_LIMIT),
+    supabase
+      .from('workout_assignments')
+      .select('athlete_id, completed_at, workout_template:workout_templates(name)')
+      .eq('trainer_id', trainerId)
+      .eq('status', 'completed')
+      .not('completed_at', 'is', null)
+      .order('completed_at', { ascending: false })
+      .limit(RECENT_ACTIVITY_LIMIT),
+  ]);
+
+  if (error || workoutsError) throw error || workoutsError;
+
+  const enrolledSince = new Date(Date.now() - RECENT_ENROLLMENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const activity: Omit<TrainerDashboardActivity, 'athlete_name'>[] = [
+    ...(tests || []).map((row: any) => ({
+      type: row.is_best_record ? 'personal_record' as const : 'test_completed' as const,
+      athlete_id: row.athlete_id,
+      subject: (Array.isArray(row.test) ? row.test[0] : row.test)?.name || 'Fitness test',
+      occurred_at: row.created_at,
+    })),
+    ...(workouts || []).map((row: any) => ({
+      type: 'workout_completed' as const,
+      athlete_id: row.athlete_id,
+      subject: (Array.isArray(row.workout_template) ? row.workout_template[0] : row.workout_template)?.name || 'Workout',
+      occurred_at: row.completed_at,
+    })),
+    ...enrollments
+      .filter((enrollment) => enrollment.responded_at && enrollment.responded_at >= enrolledSince)
+      .map((enrollment) => ({
+        type: 'enrollment' as const,
+        athlete_id: enrollment.athlete_id,
+        subject: null,
+        occurred_at: enrollment.responded_at as string,
+      })),
+  ];
+
+  return activity
+    .sort((a, b) => Date.parse(b.occurred_at) - Date.parse(a.occurred_at))
+    .slice(0, RECENT_ACTIVITY_LIMIT);
+}
 
 /**
  * Dashboard Router
- * Handles athlete dashboard statistics and recent activities
+ * Handles athlete dashboard statistics and recent activities, and the
+ * trainer dashboard statistics
  */
 export const dashboardRouter = router({
   /**
@@ -157,4 +364,139 @@ export const dashboardRouter = router({
         });
       }
     }),
+
+  /**
+   * Get trainer dashboard statistics in one request
+   * Active athletes, pending requests, this week's workouts, adherence
+   * across the roster, recent personal records, upcoming events, recent
+   * activity and athletes with no activity for `inactive_days`. Queries run
+   * in parallel.
+   */
+  getTrainerStats: trainerProcedure
+    .input(
+      z
+        .object({
+          inactive_days: z.number().int().min(1).max(90).default(7),
+          adherence_weeks: z.number().int().min(1).max(52).default(4),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }): Promise<TrainerDashboardStats> => {
+      try {
+        const trainerId = ctx.user.id;
+        const inactiveDays = input?.inactive_days ?? 7;
+        const adherenceWeeks = input?.adherence_weeks ?? 4;
+        const today = programToday();
+
+        const [
+          { data: enrollments, error: enrollmentError },
+          { count: pendingRequests, error: pendingError },
+          workoutsThisWeek,
+          upcomingEvents,
+        ] = await Promise.all([
+          ctx.supabase
+            .from('enrollments')
+            .select('athlete_id, requested_at, responded_at')
+            .eq('trainer_id', trainerId)
+            .eq('status', 'approved'),
+          ctx.supabase
+            .from('enrollments')
+            .select('id', { count: 'exact', head: true })
+            .eq('trainer_id', trainerId)
+            .eq('status', 'pending'),
+          getWorkoutsThisWeek(ctx.supabase, trainerId, today),
+          getUpcomingEvents(ctx.supabase, trainerId),
+        ]);
+
+        if (enrollmentError || pendingError) {
+          console.error('❌ [getTrainerStats] Error fetching enrollments:', enrollmentError || pendingError);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch athletes',
+          });
+        }
+
+        const athleteIds = [...new Set((enrollments || []).map((enrollment) => enrollment.athlete_id as string))];
+
+        const [
+          { data: users, error: usersError },
+          adherence,
+          lastTestDates,
+          recentRecords,
+          recentActivity,
+        ] = await Promise.all([
+          athleteIds.length > 0
+            ? ctx.supabase.from('users').select('id, full_name').in('id', athleteIds)
+            : Promise.resolve({ data: [] as { id: string; full_name: string | null }[], error: null }),
+          getWorkoutAdherence(ctx.supabase, athleteIds, adherenceWeeks, today),
+          getLastTestDates(ctx.supabase, athleteIds),
+          getRecentRecords(ctx.supabase, athleteIds),
+          getRecentActivity(ctx.supabase, trainerId, athleteIds, enrollments || []),
+        ]);
+
+        if (usersError) throw usersError;
+
+        const names = new Map((users || []).map((user) => [user.id as string, user.full_name || '']));
+
+        const roster = [...adherence.values()];
+        const completed = roster.reduce((sum, entry) => sum + entry.completed, 0);
+        const due = roster.reduce((sum, entry) => sum + entry.completed + entry.skipped + entry.missed, 0);
+
+        // Athletes who enrolled recently count as active until the period passes
+        const cutoff = addDays(today, -inactiveDays);
+        const inactiveAthletes: TrainerDashboardInactiveAthlete[] = [];
+
+        for (const enrollment of enrollments || []) {
+          const lastActivity = [adherence.get(enrollment.athlete_id)?.last_completed_date, lastTestDates.get(enrollment.athlete_id)]
+            .filter((date): date is string => !!date)
+            .sort()
+            .pop() ?? null;
+          const activeSince = lastActivity ?? (enrollment.responded_at || enrollment.requested_at || '').slice(0, 10);
+
+          if (activeSince < cutoff) {
+            inactiveAthletes.push({
+              athlete_id: enrollment.athlete_id,
+              full_name: names.get(enrollment.athlete_id) || '',
+              last_activity_date: lastActivity,
+            });
+          }
+        }
+
+        // Longest without activity first
+        inactiveAthletes.sort((a, b) => (a.last_activity_date ?? '').localeCompare(b.last_activity_date ?? ''));
+
+        return {
+          active_athletes: athleteIds.length,
+          pending_requests: pendingRequests ?? 0,
+          workouts_this_week: workoutsThisWeek,
+          adherence: {
+            weeks: adherenceWeeks,
+            completed,
+            due,
+            rate: due > 0 ? Math.round((completed / due) * 100) : null,
+          },
+          recent_personal_records: recentRecords.map((record) => ({
+            ...record,
+            athlete_name: names.get(record.athlete_id) || 'Athlete',
+          })),
+          upcoming_events: upcomingEvents,
+          inactive_days: inactiveDays,
+          inactive_athletes: inactiveAthletes,
+          recent_activity: recentActivity.map((entry) => ({
+            ...entry,
+            athlete_name: names.get(entry.athlete_id) || 'Athlete',
+          })),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('❌ [getTrainerStats] Unexpected error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch trainer statistics',
+        });
+      }
+    }),
 });
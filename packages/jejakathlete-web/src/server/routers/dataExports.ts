@@ -0,0 +1,162 @@
+import { router, protectedProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DataExport } from '@jejakathlete/shared';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import { runDataExport, withDataExportUrls } from '../utils/dataExport';
+
+// Exports listed on the privacy screen
+const RECENT_EXPORTS_LIMIT = 5;
+
+/**
+ * Throw if the user already has an export waiting or being built
+ */
+async function assertNoExportInProgress(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from('data_exports')
+    .select('id')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'processing'])
+    .limit(1);
+
+  if (error) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to check data exports',
+    });
+  }
+
+  if (data && data.length > 0) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: 'Your data export is already being prepared',
+    });
+  }
+}
+
+/**
+ * Data Exports Router
+ * Personal data exports: a zip of everything stored about the user, as JSON
+ * and CSV. Exports are created and built with the service role.
+ */
+export const dataExportsRouter = router({
+  /**
+   * Build an export now and return it with a download URL
+   * The request waits for the whole archive; requestExport doesn't.
+   */
+  exportNow: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      const supabase = createSupabaseAdminClient();
+      await assertNoExportInProgress(supabase, ctx.user.id);
+
+      const { data: created, error } = await supabase
+        .from('data_exports')
+        .insert({
+          user_id: ctx.user.id,
+          status: 'processing',
+          started_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error || !created) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to start data export',
+        });
+      }
+
+      const dataExport = await runDataExport(supabase, created);
+
+      if (dataExport.status !== 'ready') {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: dataExport.error || 'Failed to export data',
+        });
+      }
+
+      const [withUrl] = await withDataExportUrls(ctx.supabase, [dataExport]);
+      return withUrl;
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error exporting data:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * Queue an export to be built in the background
+   * The user is notified when it is ready to download.
+   */
+  requestExport: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      const supabase = createSupabaseAdminClient();
+      await assertNoExportInProgress(supabase, ctx.user.id);
+
+      const { data, error } = await supabase
+        .from('data_exports')
+        .insert({ user_id: ctx.user.id, status: 'pending' })
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to request data export',
+        });
+      }
+
+      return data as DataExport;
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error requesting data export:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * List the user's recent exports, newest first
+   * Ready exports include a signed download URL.
+   */
+  listMyExports: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const { data, error } = await ctx.supabase
+        .from('data_exports')
+        .select('*')
+        .eq('user_id', ctx.user.id)
+        .order('requested_at', { ascending: false })
+        .limit(RECENT_EXPORTS_LIMIT);
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch data exports',
+        });
+      }
+
+      return withDataExportUrls(ctx.supabase, (data || []) as DataExport[]);
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error fetching data exports:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+});
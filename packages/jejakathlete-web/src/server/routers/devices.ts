@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+
+const pushTokenSchema = z
+  .string()
+  .regex(/^Expo(nent)?PushToken\[.+\]$/, 'Invalid Expo push token');
+
+/**
+ * Devices Router
+ * Registry of the devices each user receives push notifications on
+ */
+export const devicesRouter = router({
+  /**
+   * Register the current device for push notifications
+   * A token moves to the signed-in user if it was registered to someone
+   * else, since only one account is signed in on a device at a time.
+   */
+  registerDevice: protectedProcedure
+    .input(
+      z.object({
+        token: pushTokenSchema,
+        platform: z.enum(['ios', 'android', 'web']),
+        device_name: z.string().max(200).nullable().optional(),
+        app_version: z.string().max(50).nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // Devices are written with the service role; users can only read and remove their own
+        const { data, error } = await createSupabaseAdminClient()
+          .from('push_devices')
+          .upsert(
+            {
+              user_id: ctx.user.id,
+              token: input.token,
+              platform: input.platform,
+              device_name: input.device_name ?? null,
+              app_version: input.app_version ?? null,
+              last_registered_at: new Date().toISOString(),
+            },
+            { onConflict: 'token' }
+          )
+          .select('id, platform, device_name, app_version, last_registered_at, created_at')
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to register device',
+          });
+        }
+
+        return data;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error registering device:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Remove a device from the registry, e.g. when signing out
+   */
+  unregisterDevice: protectedProcedure
+    .input(z.object({ token: pushTokenSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { error } = await ctx.supabase
+        .from('push_devices')
+        .delete()
+        .eq('user_id', ctx.user.id)
+        .eq('token', input.token);
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to unregister device',
+        });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * List the current user's registered devices
+   */
+  getMyDevices: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from('push_devices')
+      .select('id, platform, device_name, app_version, last_registered_at, created_at')
+      .eq('user_id', ctx.user.id)
+      .order('last_registered_at', { ascending: false });
+
+    if (error) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch devices',
+      });
+    }
+
+    return data;
+  }),
+});
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { router, protectedProcedure, athleteProcedure, trainerProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
 import type { EnrollmentWithDetails } from '@jejakathlete/shared';
+import { notifyEnrollmentAnswered, notifyEnrollmentRequested } from '../utils/domainNotifications';
 
 /**
  * Enrollments Router
@@ -10,7 +11,7 @@ import type { EnrollmentWithDetails } from '@jejakathlete/shared';
 export const enrollmentsRouter = router({
   /**
    * Request enrollment with a trainer (athlete only)
-   * Creates a pending enrollment request
+   * Creates a pending enrollment request and notifies the trainer
    */
   requestEnrollment: athleteProcedure
     .input(
@@ -92,6 +93,8 @@ export const enrollmentsRouter = router({
           });
         }
 
+        await notifyEnrollmentRequested(ctx.supabase, enrollment);
+
         return enrollment;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -152,7 +155,7 @@ export const enrollmentsRouter = router({
 
   /**
    * Respond to enrollment request (trainer only)
-   * Approve or reject a pending enrollment
+   * Approve or reject a pending enrollment; the athlete is notified
    */
   respondToEnrollment: trainerProcedure
     .input(
@@ -207,6 +210,8 @@ export const enrollmentsRouter = router({
           });
         }
 
+        await notifyEnrollmentAnswered(ctx.supabase, updatedEnrollment);
+
         return updatedEnrollment;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -397,7 +402,8 @@ export const enrollmentsRouter = router({
               certification_id,
               users!trainers_user_id_fkey(
                 id,
-                full_name
+                full_name,
+                deactivated_at
               )
             `)
             .eq('trainer_code', input.query.trim().toUpperCase())
@@ -410,6 +416,11 @@ export const enrollmentsRouter = router({
 
           const user = Array.isArray(trainer.users) ? trainer.users[0] : trainer.users;
 
+          // Trainers who are deleting their account can't take new athletes
+          if (user?.deactivated_at) {
+            return [];
+          }
+
           return [{
             id: trainer.user_id,
             full_name: user?.full_name || '',
@@ -433,6 +444,7 @@ export const enrollmentsRouter = router({
               )
             `)
             .eq('role', 'trainer')
+            .is('deactivated_at', null)
             .ilike('full_name', `%${input.query.trim()}%`)
             .limit(10);
 
@@ -499,6 +511,7 @@ export const enrollmentsRouter = router({
             )
           `)
           .eq('role', 'trainer')
+          .is('deactivated_at', null)
           .order('full_name', { ascending: true })
           .limit(input.limit);
 
@@ -602,7 +615,7 @@ export const enrollmentsRouter = router({
 
   /**
    * Request enrollment by trainer ID (athlete only)
-   * Creates or updates an enrollment request
+   * Creates or updates an enrollment request and notifies the trainer
    */
   requestEnrollmentById: athleteProcedure
     .input(
@@ -702,6 +715,8 @@ export const enrollmentsRouter = router({
               });
             }
 
+            await notifyEnrollmentRequested(ctx.supabase, updatedEnrollment);
+
             return {
               enrollment: updatedEnrollment,
               trainer: {
@@ -734,6 +749,8 @@ export const enrollmentsRouter = router({
           });
         }
 
+        await notifyEnrollmentRequested(ctx.supabase, newEnrollment);
+
         return {
           enrollment: newEnrollment,
           trainer: {
@@ -0,0 +1,425 @@
+import { z } from 'zod';
+import { router, protectedProcedure, trainerProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserRole } from '@jejakathlete/shared';
+import { isAdmin } from '../utils/authorization';
+import { notifyUser } from '../utils/notifications';
+import { refreshBestRecord } from '../utils/testResults';
+import { evaluateGoals } from '../utils/goals';
+import { evaluateAchievements } from '../utils/achievements';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import {
+  discardCompetitionTestResults,
+  rankEventResults,
+  syncCompetitionTestResult,
+  type CompetitionResult,
+  type CreatedTestResult,
+} from '../utils/eventResults';
+
+// Participant statuses that can have a result
+const RESULT_STATUSES = ['registered', 'confirmed', 'attended'];
+
+const eventResultSchema = z.object({
+  athlete_id: z.string(),
+  result_value: z.number().nullable().optional(),
+  result_text: z.string().max(200).nullable().optional(),
+  score: z.number().nullable().optional(),
+  // Manual placing; replaced when results are auto-ranked
+  rank_position: z.number().int().min(1).nullable().optional(),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+/**
+ * Fetch an event and verify the user created it (admins can manage any event)
+ */
+async function getManagedEvent(
+  ctx: { supabase: SupabaseClient; user: { id: string }; role: UserRole },
+  eventId: number
+) {
+  const { data: event, error } = await ctx.supabase
+    .from('events')
+    .select('id, title, start_date, status, created_by_user_id, results_auto_ranked')
+    .eq('id', eventId)
+    .single();
+
+  if (error || !event) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Event not found',
+    });
+  }
+
+  if (event.created_by_user_id !== ctx.user.id && !isAdmin(ctx.role)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You can only manage results for your own events',
+    });
+  }
+
+  return event;
+}
+
+/**
+ * Remember whether an event's results are ranked automatically, so later
+ * changes keep manual placings
+ */
+async function setResultsAutoRanked(supabase: SupabaseClient, eventId: number, autoRanked: boolean) {
+  const { error } = await supabase
+    .from('events')
+    .update({ results_auto_ranked: autoRanked })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error updating event ranking mode:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to update event',
+    });
+  }
+}
+
+/**
+ * Fetch the ranked results of an event with athlete and test details
+ * Ranked results come first, followed by unranked ones
+ */
+async function fetchLeaderboard(supabase: SupabaseClient, eventId: number) {
+  const { data, error } = await supabase
+    .from('event_results')
+    .select(`
+      *,
+      athlete:users!event_results_athlete_id_fkey(id, full_name, avatar_url),
+      test:tests(id, name, unit, improvement_direction)
+    `)
+    .eq('event_id', eventId)
+    .order('rank_position', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching event leaderboard:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch event results',
+    });
+  }
+
+  return data;
+}
+
+/**
+ * Event Results Router
+ * Handles competition results recorded against events, ranking and leaderboards
+ */
+export const eventResultsRouter = router({
+  /**
+   * Record results for event participants (trainer only)
+   * Results are saved per participant, replacing any earlier result. With a
+   * test_id each result is also added to the athlete's test history with
+   * personal record detection. Results are ranked automatically unless
+   * auto_rank is false, in which case the given rank positions are kept.
+   */
+  recordEventResults: trainerProcedure
+    .input(
+      z.object({
+        event_id: z.number(),
+        test_id: z.number().nullable().optional(),
+        results: z.array(eventResultSchema).min(1, 'At least one result is required').max(200),
+        auto_rank: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const event = await getManagedEvent(ctx, input.event_id);
+
+        // Only athletes taking part in the event can have results
+        const athleteIds = [...new Set(input.results.map((result) => result.athlete_id))];
+        const { data: participants, error: participantError } = await ctx.supabase
+          .from('event_participants')
+          .select('athlete_id')
+          .eq('event_id', input.event_id)
+          .in('athlete_id', athleteIds)
+          .in('status', RESULT_STATUSES);
+
+        if (participantError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch event participants',
+          });
+        }
+
+        const participantIds = new Set((participants || []).map((participant) => participant.athlete_id));
+        const outsider = athleteIds.find((athleteId) => !participantIds.has(athleteId));
+        if (outsider) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Athlete ${outsider} is not taking part in this event`,
+          });
+        }
+
+        const { data: existing, error: existingError } = await ctx.supabase
+          .from('event_results')
+          .select('athlete_id, test_result_id')
+          .eq('event_id', input.event_id)
+          .in('athlete_id', athleteIds);
+
+        if (existingError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch event results',
+          });
+        }
+
+        const linkedTestResults = new Map(
+          (existing || []).map((row) => [row.athlete_id as string, row.test_result_id as number | null])
+        );
+
+        // Flow results into each athlete's test history, then save the event
+        // results with the links. Test results created here are removed again
+        // if either step fails, so a retry doesn't duplicate them.
+        // Self-registered athletes needn't be enrolled with the trainer, so
+        // this uses the service role.
+        const adminSupabase = createSupabaseAdminClient();
+        const personalRecords = new Set<string>();
+        const testResultIds = new Map<string, number>();
+        const created: CreatedTestResult[] = [];
+        try {
+          for (const result of input.results) {
+            const competitionResult: CompetitionResult = {
+              athlete_id: result.athlete_id,
+              test_id: input.test_id ?? null,
+              result_value: result.result_value ?? null,
+              result_text: result.result_text ?? null,
+              notes: result.notes ?? null,
+              test_result_id: linkedTestResults.get(result.athlete_id) ?? null,
+            };
+            const synced = await syncCompetitionTestResult(adminSupabase, competitionResult, event, ctx.user.id);
+            if (synced.test_result_id) testResultIds.set(result.athlete_id, synced.test_result_id);
+            if (synced.created && synced.test_result_id && input.test_id) {
+              created.push({ id: synced.test_result_id, athlete_id: result.athlete_id, test_id: input.test_id });
+            }
+            if (synced.is_best_record) personalRecords.add(result.athlete_id);
+          }
+
+          const { error } = await ctx.supabase
+            .from('event_results')
+            .upsert(
+              input.results.map((result) => ({
+                event_id: input.event_id,
+                athlete_id: result.athlete_id,
+                test_id: input.test_id ?? null,
+                result_value: result.result_value ?? null,
+                result_text: result.result_text ?? null,
+                score: result.score ?? null,
+                rank_position: input.auto_rank ? null : result.rank_position ?? null,
+                notes: result.notes ?? null,
+                test_result_id: testResultIds.get(result.athlete_id) ?? null,
+                recorded_by_user_id: ctx.user.id,
+                updated_at: new Date().toISOString(),
+              })),
+              { onConflict: 'event_id,athlete_id' }
+            );
+
+          if (error) {
+            console.error('Error saving event results:', error);
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: 'Failed to save event results',
+            });
+          }
+        } catch (error) {
+          await discardCompetitionTestResults(adminSupabase, created);
+          throw error;
+        }
+
+        if (event.results_auto_ranked !== input.auto_rank) {
+          await setResultsAutoRanked(ctx.supabase, input.event_id, input.auto_rank);
+        }
+
+        if (input.auto_rank) {
+          await rankEventResults(ctx.supabase, input.event_id);
+        }
+
+        const leaderboard = await fetchLeaderboard(ctx.supabase, input.event_id);
+
+        for (const entry of leaderboard.filter((entry) => athleteIds.includes(entry.athlete_id))) {
+          const isRecord = personalRecords.has(entry.athlete_id);
+          const placing = entry.rank_position ? ` You placed #${entry.rank_position}.` : '';
+
+          const testResultId = testResultIds.get(entry.athlete_id);
+
+          await notifyUser({
+            user_id: entry.athlete_id,
+            type: isRecord ? 'personal_record' : 'test_result',
+            title: isRecord ? 'New Personal Record! 🏆' : 'Competition Result',
+            message: `Your result for "${event.title}" has been recorded.${placing}`,
+            data: {
+              target: { screen: 'event', event_id: input.event_id },
+              athlete_id: entry.athlete_id,
+              test_result_ids: testResultId ? [testResultId] : [],
+              event_id: input.event_id,
+              event_result_id: entry.id,
+              rank_position: entry.rank_position,
+            },
+          });
+
+          if (testResultId) {
+            await evaluateGoals(adminSupabase, entry.athlete_id);
+            await evaluateAchievements(adminSupabase, entry.athlete_id, 'test_result');
+          }
+        }
+
+        return leaderboard;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in recordEventResults:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Rank an event's results automatically (trainer only)
+   * Uses the linked test's improvement direction, or highest score first
+   * when no test is linked. Tied results share a rank. Later changes to the
+   * event's results are ranked automatically too.
+   */
+  rankEventResults: trainerProcedure
+    .input(z.object({ event_id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const event = await getManagedEvent(ctx, input.event_id);
+        if (!event.results_auto_ranked) {
+          await setResultsAutoRanked(ctx.supabase, input.event_id, true);
+        }
+        await rankEventResults(ctx.supabase, input.event_id);
+
+        return await fetchLeaderboard(ctx.supabase, input.event_id);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in rankEventResults:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Delete a participant's event result (trainer only)
+   * Also removes the linked test result and, when the event is auto-ranked,
+   * re-ranks the remaining results
+   */
+  deleteEventResult: trainerProcedure
+    .input(
+      z.object({
+        event_id: z.number(),
+        athlete_id: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const event = await getManagedEvent(ctx, input.event_id);
+
+        const { data: result, error } = await ctx.supabase
+          .from('event_results')
+          .delete()
+          .eq('event_id', input.event_id)
+          .eq('athlete_id', input.athlete_id)
+          .select('test_id, test_result_id, rank_position')
+          .maybeSingle();
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to delete event result',
+          });
+        }
+
+        if (!result) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Event result not found',
+          });
+        }
+
+        // Created with the service role, so removed with it too
+        if (result.test_result_id && result.test_id) {
+          const adminSupabase = createSupabaseAdminClient();
+          const { error: testResultError } = await adminSupabase
+            .from('test_results')
+            .delete()
+            .eq('id', result.test_result_id);
+
+          if (testResultError) {
+            console.error('Error deleting competition test result:', testResultError);
+          } else {
+            await refreshBestRecord(adminSupabase, input.athlete_id, result.test_id);
+          }
+        }
+
+        // Keep placings consecutive when the results were auto-ranked;
+        // manual placings are left as the trainer set them
+        if (event.results_auto_ranked && result.rank_position !== null) {
+          await rankEventResults(ctx.supabase, input.event_id);
+        }
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in deleteEventResult:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Get the results leaderboard of an event
+   * Available to the event creator, its participants and, for public
+   * events, everyone
+   */
+  getEventLeaderboard: protectedProcedure
+    .input(z.object({ event_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        // Row level security hides events the user cannot see
+        const { data: event, error: eventError } = await ctx.supabase
+          .from('events')
+          .select('id, title, start_date, end_date, status, location, event_type:event_types(name, color)')
+          .eq('id', input.event_id)
+          .maybeSingle();
+
+        if (eventError || !event) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Event not found',
+          });
+        }
+
+        const results = await fetchLeaderboard(ctx.supabase, input.event_id);
+
+        return {
+          event,
+          results,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getEventLeaderboard:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+});
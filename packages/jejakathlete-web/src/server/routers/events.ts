@@ -1,7 +1,352 @@
 import { z } from 'zod';
 import { router, protectedProcedure, publicProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EventChange, EventParticipant, EventParticipantStatus, User } from '@jejakathlete/shared';
 import { verifyTrainerAthleteAccess, isAdmin } from '../utils/authorization';
+import { syncEventReminders } from '../utils/eventReminders';
+import { notifyUser } from '../utils/notifications';
+import { getActiveParticipantIds, notifyEventAssigned, notifyEventUpdated } from '../utils/domainNotifications';
+import {
+  SPOT_HOLDING_STATUSES,
+  countTakenSpots,
+  getRegistrationClosedReason,
+  getWaitlistPosition,
+  isEventFullError,
+  promoteWaitlist,
+} from '../utils/eventRegistration';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import {
+  MAX_OCCURRENCES,
+  countOccurrencesBefore,
+  defaultWindowEnd,
+  expandEventsInWindow,
+  expandOccurrences,
+  formatRecurrenceRule,
+  normalizeEventTime,
+  parseRecurrenceRule,
+  shiftEventTime,
+  type Occurrence,
+  type RecurringSeries,
+} from '../utils/recurrence';
+
+const recurrenceSchema = z
+  .object({
+    frequency: z.enum(['daily', 'weekly', 'monthly']),
+    interval: z.number().int().min(1).max(99).default(1),
+    by_weekday: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).optional(),
+    until: z.string().nullable().optional(),
+    count: z.number().int().min(1).max(MAX_OCCURRENCES).nullable().optional(),
+  })
+  .refine((rule) => !(rule.until && rule.count), {
+    message: 'A recurrence can end on a date or after a count, not both',
+  });
+
+const recurrenceScopeSchema = z.enum(['this', 'following', 'all']).default('all');
+
+// Minutes before the event start, up to one week
+const reminderOffsetsSchema = z
+  .array(z.number().int().min(0).max(10080))
+  .max(5)
+  .transform((offsets) => [...new Set(offsets)].sort((a, b) => b - a));
+
+const invitationResponseSchema = z.object({
+  event_id: z.number(),
+  note: z.string().trim().max(500, 'Note must be 500 characters or less').optional(),
+});
+
+// Participant statuses an athlete can still change by responding
+const RESPONDABLE_STATUSES = ['invited', 'registered', 'confirmed', 'declined'];
+
+// Participant statuses an athlete can withdraw from
+const WITHDRAWABLE_STATUSES = ['invited', 'pending', 'registered', 'waitlisted', 'confirmed'];
+
+const registrationSettingsSchema = {
+  max_participants: z.number().int().min(1).nullable().optional(),
+  registration_deadline: z.string().nullable().optional(),
+};
+
+const PARTICIPANT_STATUSES = [
+  'invited',
+  'pending',
+  'registered',
+  'waitlisted',
+  'confirmed',
+  'declined',
+  'attended',
+  'no_show',
+  'withdrawn',
+] as const;
+
+interface RosterParticipant
+  extends Pick<EventParticipant, 'id' | 'athlete_id' | 'status' | 'registration_date' | 'response_date' | 'notes'> {
+  athlete: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+}
+
+/**
+ * Strip identity and recurrence columns from an event row so it can be
+ * copied into an occurrence override or a new series
+ */
+function copyEventFields(event: Record<string, any>) {
+  const {
+    id,
+    created_at,
+    updated_at,
+    recurrence_rule,
+    recurrence_exdates,
+    recurrence_parent_id,
+    recurrence_id,
+    ...fields
+  } = event;
+  return fields;
+}
+
+/**
+ * Copy participants from a series to an override or split-off series
+ */
+async function copyParticipants(supabase: SupabaseClient, fromEventId: number, toEventId: number) {
+  const { data: participants } = await supabase
+    .from('event_participants')
+    .select('athlete_id, assigned_by_user_id, status')
+    .eq('event_id', fromEventId);
+
+  if (!participants || participants.length === 0) return;
+
+  const { error } = await supabase
+    .from('event_participants')
+    .insert(participants.map((participant) => ({ ...participant, event_id: toEventId })));
+
+  if (error) {
+    console.error('Failed to copy event participants:', error);
+  }
+}
+
+/**
+ * Resolve the occurrence of a recurring event addressed by an update or delete
+ */
+function resolveOccurrence(series: RecurringSeries, occurrenceStart: string | undefined): Occurrence {
+  const start = occurrenceStart ? normalizeEventTime(occurrenceStart) : null;
+  const occurrence = start ? expandOccurrences(series, start, start)[0] : undefined;
+
+  if (!occurrence) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'occurrence_start must be the start of an occurrence of this event',
+    });
+  }
+
+  return occurrence;
+}
+
+/**
+ * End a series just before an occurrence, dropping exception dates and
+ * overrides from that occurrence on
+ */
+async function truncateSeries(
+  supabase: SupabaseClient,
+  event: Record<string, any>,
+  occurrenceStart: string
+) {
+  const rule = parseRecurrenceRule(event.recurrence_rule)!;
+  const exdates: string[] = event.recurrence_exdates || [];
+
+  const { error } = await supabase
+    .from('events')
+    .update({
+      recurrence_rule: formatRecurrenceRule({
+        ...rule,
+        count: null,
+        until: shiftEventTime(occurrenceStart, -1),
+      }),
+      recurrence_exdates: exdates.filter((exdate) => (normalizeEventTime(exdate) || '') < occurrenceStart),
+    })
+    .eq('id', event.id);
+
+  if (error) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to update recurring event',
+    });
+  }
+}
+
+/**
+ * Remove a single occurrence from a series by adding an exception date
+ */
+async function excludeOccurrence(
+  supabase: SupabaseClient,
+  event: Record<string, any>,
+  occurrenceStart: string
+) {
+  const exdates: string[] = event.recurrence_exdates || [];
+
+  const { error } = await supabase
+    .from('events')
+    .update({ recurrence_exdates: [...exdates, occurrenceStart] })
+    .eq('id', event.id);
+
+  if (error) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to update recurring event',
+    });
+  }
+}
+
+/**
+ * Record an athlete's response to an event invitation
+ * Writes the response date and optional note, keeps the athlete's reminders
+ * in step and notifies the event creator when the athlete declines. An
+ * athlete who declined gave up their spot, so accepting again while the
+ * event is full puts them on the waitlist.
+ */
+async function respondToInvitation(
+  supabase: SupabaseClient,
+  athleteId: string,
+  eventId: number,
+  status: 'confirmed' | 'declined',
+  note: string | undefined
+) {
+  const { data: participant, error: participantError } = await supabase
+    .from('event_participants')
+    .select('id, status, assigned_by_user_id, event:events(id, title, status, start_date, max_participants, created_by_user_id)')
+    .eq('event_id', eventId)
+    .eq('athlete_id', athleteId)
+    .maybeSingle();
+
+  if (participantError) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch invitation',
+    });
+  }
+
+  const event = participant?.event as Record<string, any> | null | undefined;
+
+  // Self-registrations are managed with registerForEvent and withdrawFromEvent
+  if (!participant || !event || participant.assigned_by_user_id === athleteId) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'You have not been invited to this event',
+    });
+  }
+
+  if (event.status === 'cancelled' || event.status === 'completed') {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `This event has been ${event.status}`,
+    });
+  }
+
+  if (!RESPONDABLE_STATUSES.includes(participant.status)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Your attendance for this event has already been recorded',
+    });
+  }
+
+  // Athletes can't see each other's rows, so spots are counted and the
+  // response written with the service role
+  const adminSupabase = createSupabaseAdminClient();
+  const now = new Date().toISOString();
+
+  const rejoins = status === 'confirmed' && !SPOT_HOLDING_STATUSES.includes(participant.status);
+  const rejoinsFullEvent = rejoins &&
+    event.max_participants !== null &&
+    await countTakenSpots(adminSupabase, eventId) >= event.max_participants;
+
+  const saveResponse = (waitlisted: boolean) => adminSupabase
+    .from('event_participants')
+    .update({
+      status: waitlisted ? 'waitlisted' : status,
+      // Rejoining goes to the back of the waitlist
+      ...(waitlisted && { registration_date: now }),
+      response_date: now,
+      notes: note || null,
+      updated_at: now,
+    })
+    .eq('id', participant.id)
+    .select()
+    .single();
+
+  let { data, error } = await saveResponse(rejoinsFullEvent);
+
+  // Another athlete took the last spot since it was counted
+  if (rejoins && !rejoinsFullEvent && isEventFullError(error)) {
+    ({ data, error } = await saveResponse(true));
+  }
+
+  if (error) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to save your response',
+    });
+  }
+
+  await syncEventReminders(supabase, eventId, athleteId);
+
+  // Declining frees the spot for the waitlist; promotion updates other
+  // athletes' rows, so it runs with the service role
+  if (status === 'declined' && SPOT_HOLDING_STATUSES.includes(participant.status)) {
+    await promoteWaitlist(adminSupabase, eventId);
+  }
+
+  if (status === 'declined' && participant.status !== 'declined') {
+    const { data: athlete } = await supabase
+      .from('users')
+      .select('full_name')
+      .eq('id', athleteId)
+      .single();
+
+    const name = athlete?.full_name || 'An athlete';
+
+    await notifyUser({
+      user_id: event.created_by_user_id,
+      type: 'event_response',
+      title: 'Invitation Declined',
+      message: note
+        ? `${name} declined "${event.title}": ${note}`
+        : `${name} declined "${event.title}"`,
+      data: {
+        target: { screen: 'event', event_id: eventId },
+        event_id: eventId,
+        athlete_id: athleteId,
+        status,
+      },
+    });
+  }
+
+  return data;
+}
+
+/**
+ * What participants should hear about when an event is updated
+ * A cancellation replaces any other changes.
+ */
+function getEventChanges(
+  before: { title: string; start_date: string; end_date: string; location: string | null; status: string },
+  updates: { title?: string; start_date?: string; end_date?: string; location?: string; status?: string }
+): EventChange[] {
+  if (updates.status === 'cancelled' && before.status !== 'cancelled') {
+    return ['cancelled'];
+  }
+
+  const changes: EventChange[] = [];
+  const movedTime = (value: string | undefined, current: string) =>
+    value !== undefined && normalizeEventTime(value) !== normalizeEventTime(current);
+
+  if (updates.title !== undefined && updates.title !== before.title) {
+    changes.push('title');
+  }
+  if (movedTime(updates.start_date, before.start_date) || movedTime(updates.end_date, before.end_date)) {
+    changes.push('time');
+  }
+  if (updates.location !== undefined && (updates.location || null) !== (before.location || null)) {
+    changes.push('location');
+  }
+
+  return changes;
+}
 
 /**
  * Events Router
@@ -31,6 +376,10 @@ export const eventsRouter = router({
   /**
    * Create a new event (trainer only)
    * Creates an event and optionally assigns athletes
+   * Pass a recurrence to create a repeating series starting at start_date
+   * Reminder offsets (minutes before start) create reminders for every participant
+   * Public events accept self-registration up to max_participants until the
+   * registration deadline; requires_approval holds registrations for review
    */
   createEvent: protectedProcedure
     .input(
@@ -43,7 +392,11 @@ export const eventsRouter = router({
         location: z.string().optional(),
         status: z.enum(['draft', 'upcoming', 'ongoing', 'completed', 'cancelled']).default('upcoming'),
         is_public: z.boolean().default(false),
+        ...registrationSettingsSchema,
+        requires_approval: z.boolean().default(false),
         athlete_ids: z.array(z.string()).optional(),
+        recurrence: recurrenceSchema.optional(),
+        reminder_offsets: reminderOffsetsSchema.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -55,13 +408,14 @@ export const eventsRouter = router({
         });
       }
 
-      const { athlete_ids, ...eventData } = input;
+      const { athlete_ids, recurrence, ...eventData } = input;
 
       // Create the event
       const { data: event, error: eventError } = await ctx.supabase
         .from('events')
         .insert({
           ...eventData,
+          recurrence_rule: recurrence ? formatRecurrenceRule(recurrence) : null,
           created_by_user_id: ctx.user.id,
         })
         .select()
@@ -90,15 +444,21 @@ export const eventsRouter = router({
         if (participantsError) {
           // Log error but don't fail the event creation
           console.error('Failed to assign athletes to event:', participantsError);
+        } else {
+          await notifyEventAssigned(ctx.supabase, event, athlete_ids);
         }
       }
 
+      await syncEventReminders(ctx.supabase, event.id);
+
       return event;
     }),
 
   /**
    * List events created by the trainer
-   * Returns all events with their type information
+   * Returns all events with their type information and participant statuses
+   * Recurring events are expanded into one entry per occurrence in the date
+   * window (up to 90 days ahead when no end date is given)
    */
   listMyEvents: protectedProcedure
     .input(
@@ -117,41 +477,65 @@ export const eventsRouter = router({
         });
       }
 
-      let query = ctx.supabase
-        .from('events')
-        .select(`
-          *,
-          event_type:event_types(*)
-        `)
-        .eq('created_by_user_id', ctx.user.id)
-        .order('start_date', { ascending: false });
+      const windowEnd = input?.end_date || defaultWindowEnd();
 
-      // Apply filters
-      if (input?.status) {
-        query = query.eq('status', input.status);
-      }
+      const buildQuery = () => {
+        let query = ctx.supabase
+          .from('events')
+          .select(`
+            *,
+            event_type:event_types(*),
+            participants:event_participants(status)
+          `)
+          .eq('created_by_user_id', ctx.user.id)
+          .order('start_date', { ascending: false });
+
+        if (input?.status) {
+          query = query.eq('status', input.status);
+        }
+
+        return query;
+      };
+
+      // One-off events are filtered by date in the query
+      let oneOffQuery = buildQuery().is('recurrence_rule', null);
       if (input?.start_date) {
-        query = query.gte('start_date', input.start_date);
+        oneOffQuery = oneOffQuery.gte('start_date', input.start_date);
       }
       if (input?.end_date) {
-        query = query.lte('end_date', input.end_date);
+        oneOffQuery = oneOffQuery.lte('end_date', input.end_date);
       }
 
-      const { data, error } = await query;
+      // Recurring series are expanded into the window below
+      const seriesQuery = buildQuery()
+        .not('recurrence_rule', 'is', null)
+        .lte('start_date', windowEnd);
 
-      if (error) {
+      const [{ data, error }, { data: series, error: seriesError }] = await Promise.all([
+        oneOffQuery,
+        seriesQuery,
+      ]);
+
+      if (error || seriesError) {
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch events',
         });
       }
 
-      return data;
+      return expandEventsInWindow([...data, ...series], input?.start_date || null, windowEnd, false);
     }),
 
   /**
    * Update an existing event (trainer only)
    * Only the creator can update their events
+   * For recurring events, scope selects the occurrence at occurrence_start
+   * ('this'), that occurrence and all later ones ('following') or the whole
+   * series ('all'). Editing one occurrence creates an override event.
+   * Reminders follow the new time, status and reminder offsets. Changing
+   * max_participants promotes waitlisted athletes into any new spots.
+   * Participants are notified of a new name, time or location, or of a
+   * cancellation.
    */
   updateEvent: protectedProcedure
     .input(
@@ -165,15 +549,21 @@ export const eventsRouter = router({
         location: z.string().optional(),
         status: z.enum(['draft', 'upcoming', 'ongoing', 'completed', 'cancelled']).optional(),
         is_public: z.boolean().optional(),
+        ...registrationSettingsSchema,
+        requires_approval: z.boolean().optional(),
+        recurrence: recurrenceSchema.nullable().optional(),
+        reminder_offsets: reminderOffsetsSchema.optional(),
+        scope: recurrenceScopeSchema,
+        occurrence_start: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { event_id, ...updates } = input;
+      const { event_id, recurrence, scope, occurrence_start, ...updates } = input;
 
       // Verify ownership
       const { data: event, error: fetchError } = await ctx.supabase
         .from('events')
-        .select('created_by_user_id')
+        .select('*')
         .eq('id', event_id)
         .single();
 
@@ -191,39 +581,151 @@ export const eventsRouter = router({
         });
       }
 
-      // Update the event
-      const { data: updatedEvent, error: updateError } = await ctx.supabase
+      const occurrence = event.recurrence_rule && scope !== 'all'
+        ? resolveOccurrence(event, occurrence_start)
+        : null;
+      const isFirstOccurrence = occurrence?.start_date === normalizeEventTime(event.start_date);
+
+      if (!occurrence || (scope === 'following' && isFirstOccurrence)) {
+        // Update the event or whole series
+        const { data: updatedEvent, error: updateError } = await ctx.supabase
+          .from('events')
+          .update({
+            ...updates,
+            ...(recurrence !== undefined && {
+              recurrence_rule: recurrence ? formatRecurrenceRule(recurrence) : null,
+            }),
+          })
+          .eq('id', event_id)
+          .select()
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update event',
+          });
+        }
+
+        await syncEventReminders(ctx.supabase, event_id);
+
+        // Raising or removing the limit opens spots for the waitlist
+        if (updates.max_participants !== undefined) {
+          await promoteWaitlist(ctx.supabase, event_id);
+        }
+
+        await notifyEventUpdated(ctx.supabase, updatedEvent, getEventChanges(event, updates));
+
+        return updatedEvent;
+      }
+
+      if (scope === 'this') {
+        // Replace the occurrence with a standalone override event
+        const { data: override, error: overrideError } = await ctx.supabase
+          .from('events')
+          .insert({
+            ...copyEventFields(event),
+            start_date: occurrence.start_date,
+            end_date: occurrence.end_date,
+            ...updates,
+            recurrence_parent_id: event.id,
+            recurrence_id: occurrence.start_date,
+          })
+          .select()
+          .single();
+
+        if (overrideError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update event occurrence',
+          });
+        }
+
+        await copyParticipants(ctx.supabase, event.id, override.id);
+        await excludeOccurrence(ctx.supabase, event, occurrence.start_date);
+        await syncEventReminders(ctx.supabase, event.id);
+        await syncEventReminders(ctx.supabase, override.id);
+
+        await notifyEventUpdated(ctx.supabase, override, getEventChanges({ ...event, ...occurrence }, updates));
+
+        return override;
+      }
+
+      // Split the series: the original ends before this occurrence and a new
+      // series with the changes continues from it
+      const rule = parseRecurrenceRule(event.recurrence_rule)!;
+      const nextRule = recurrence !== undefined
+        ? recurrence
+        : {
+            ...rule,
+            count: rule.count ? rule.count - countOccurrencesBefore(event, occurrence.start_date) : null,
+          };
+      const exdates: string[] = event.recurrence_exdates || [];
+
+      const { data: nextSeries, error: seriesError } = await ctx.supabase
         .from('events')
-        .update(updates)
-        .eq('id', event_id)
+        .insert({
+          ...copyEventFields(event),
+          start_date: occurrence.start_date,
+          end_date: occurrence.end_date,
+          ...updates,
+          recurrence_rule: nextRule ? formatRecurrenceRule(nextRule) : null,
+          recurrence_exdates: exdates.filter(
+            (exdate) => (normalizeEventTime(exdate) || '') >= occurrence.start_date
+          ),
+        })
         .select()
         .single();
 
-      if (updateError) {
+      if (seriesError) {
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to update event',
+          message: 'Failed to update following occurrences',
         });
       }
 
-      return updatedEvent;
+      await copyParticipants(ctx.supabase, event.id, nextSeries.id);
+      await truncateSeries(ctx.supabase, event, occurrence.start_date);
+
+      // Overrides of later occurrences now belong to the new series
+      const { error: moveError } = await ctx.supabase
+        .from('events')
+        .update({ recurrence_parent_id: nextSeries.id })
+        .eq('recurrence_parent_id', event.id)
+        .gte('recurrence_id', occurrence.start_date);
+
+      if (moveError) {
+        console.error('Failed to move occurrence overrides to split series:', moveError);
+      }
+
+      await syncEventReminders(ctx.supabase, event.id);
+      await syncEventReminders(ctx.supabase, nextSeries.id);
+
+      await notifyEventUpdated(ctx.supabase, nextSeries, getEventChanges({ ...event, ...occurrence }, updates));
+
+      return nextSeries;
     }),
 
   /**
    * Delete an event (trainer only)
    * Only the creator can delete their events
+   * For recurring events, scope removes the occurrence at occurrence_start
+   * ('this'), that occurrence and all later ones ('following') or the whole
+   * series ('all'). Participants are told which dates were cancelled.
    */
   deleteEvent: protectedProcedure
     .input(
       z.object({
         event_id: z.number(),
+        scope: recurrenceScopeSchema,
+        occurrence_start: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       // Verify ownership
       const { data: event, error: fetchError } = await ctx.supabase
         .from('events')
-        .select('created_by_user_id')
+        .select('*')
         .eq('id', input.event_id)
         .single();
 
@@ -241,7 +743,44 @@ export const eventsRouter = router({
         });
       }
 
-      // Delete the event (cascade will handle participants)
+      const occurrence = event.recurrence_rule && input.scope !== 'all'
+        ? resolveOccurrence(event, input.occurrence_start)
+        : null;
+      const isFirstOccurrence = occurrence?.start_date === normalizeEventTime(event.start_date);
+
+      if (occurrence && input.scope === 'this') {
+        await excludeOccurrence(ctx.supabase, event, occurrence.start_date);
+        await syncEventReminders(ctx.supabase, event.id);
+        await notifyEventUpdated(ctx.supabase, event, ['cancelled'], { occurrenceStart: occurrence.start_date });
+        return { success: true };
+      }
+
+      if (occurrence && !isFirstOccurrence) {
+        await truncateSeries(ctx.supabase, event, occurrence.start_date);
+
+        const { error: overridesError } = await ctx.supabase
+          .from('events')
+          .delete()
+          .eq('recurrence_parent_id', event.id)
+          .gte('recurrence_id', occurrence.start_date);
+
+        if (overridesError) {
+          console.error('Failed to delete occurrence overrides:', overridesError);
+        }
+
+        await syncEventReminders(ctx.supabase, event.id);
+        await notifyEventUpdated(ctx.supabase, event, ['cancelled'], {
+          occurrenceStart: occurrence.start_date,
+          following: true,
+        });
+
+        return { success: true };
+      }
+
+      // Participants are deleted with the event, so collect them first
+      const athleteIds = await getActiveParticipantIds(ctx.supabase, event.id);
+
+      // Delete the event (cascade will handle participants, reminders and overrides)
       const { error: deleteError } = await ctx.supabase
         .from('events')
         .delete()
@@ -254,12 +793,14 @@ export const eventsRouter = router({
         });
       }
 
+      await notifyEventUpdated(ctx.supabase, event, ['cancelled'], { athleteIds, deleted: true });
+
       return { success: true };
     }),
 
   /**
    * Assign athletes to an event (trainer only)
-   * Verifies trainer has access to the athletes
+   * Verifies trainer has access to the athletes, who are then notified
    */
   assignAthletes: protectedProcedure
     .input(
@@ -280,7 +821,7 @@ export const eventsRouter = router({
       // Verify event exists and user owns it
       const { data: event, error: eventError } = await ctx.supabase
         .from('events')
-        .select('created_by_user_id')
+        .select('id, title, start_date, created_by_user_id')
         .eq('id', input.event_id)
         .single();
 
@@ -344,12 +885,17 @@ export const eventsRouter = router({
         });
       }
 
+      await syncEventReminders(ctx.supabase, input.event_id);
+      await notifyEventAssigned(ctx.supabase, event, input.athlete_ids);
+
       return data;
     }),
 
   /**
    * Get athlete's schedule (athlete only)
    * Returns events where athlete is a participant or public events
+   * Recurring events are expanded into one entry per occurrence in the date
+   * window (up to 90 days ahead when no end date is given)
    */
   getMySchedule: protectedProcedure
     .input(
@@ -377,7 +923,7 @@ export const eventsRouter = router({
       // Get events where user is a participant
       let participantQuery = ctx.supabase
         .from('event_participants')
-        .select('event_id')
+        .select('event_id, status, response_date, notes, assigned_by_user_id')
         .eq('athlete_id', ctx.user.id);
 
       const { data: participantEvents, error: participantError } = await participantQuery;
@@ -397,43 +943,60 @@ export const eventsRouter = router({
       console.log('✅ [getMySchedule] Found', participantEvents.length, 'participant events');
 
       const participantEventIds = participantEvents.map((p) => p.event_id);
+      const participations = new Map(participantEvents.map((p) => [p.event_id, p]));
+
+      const windowEnd = input?.end_date || defaultWindowEnd();
 
       // Build query for events
-      let query = ctx.supabase
-        .from('events')
-        .select(`
-          *,
-          event_type:event_types(*),
-          created_by:users!events_created_by_user_id_fkey(id, full_name, avatar_url)
-        `)
-        .order('start_date', { ascending: true });
+      const buildQuery = () => {
+        let query = ctx.supabase
+          .from('events')
+          .select(`
+            *,
+            event_type:event_types(*),
+            created_by:users!events_created_by_user_id_fkey(id, full_name, avatar_url)
+          `)
+          .order('start_date', { ascending: true });
 
-      // Filter by participant events or public events
-      if (participantEventIds.length > 0) {
-        query = query.or(`id.in.(${participantEventIds.join(',')}),is_public.eq.true`);
-      } else {
-        query = query.eq('is_public', true);
-      }
+        // Filter by participant events or public events
+        if (participantEventIds.length > 0) {
+          query = query.or(`id.in.(${participantEventIds.join(',')}),is_public.eq.true`);
+        } else {
+          query = query.eq('is_public', true);
+        }
+
+        if (input?.status) {
+          query = query.eq('status', input.status);
+        }
+
+        return query;
+      };
 
-      // Apply additional filters
+      // Apply date filters to one-off events; recurring series are expanded below
+      let oneOffQuery = buildQuery().is('recurrence_rule', null);
       if (input?.start_date) {
-        query = query.gte('start_date', input.start_date);
+        oneOffQuery = oneOffQuery.gte('start_date', input.start_date);
       }
       if (input?.end_date) {
-        query = query.lte('end_date', input.end_date);
-      }
-      if (input?.status) {
-        query = query.eq('status', input.status);
+        oneOffQuery = oneOffQuery.lte('end_date', input.end_date);
       }
 
-      const { data, error } = await query;
+      const seriesQuery = buildQuery()
+        .not('recurrence_rule', 'is', null)
+        .lte('start_date', windowEnd);
 
-      if (error) {
+      const [{ data: oneOffEvents, error }, { data: series, error: seriesError }] = await Promise.all([
+        oneOffQuery,
+        seriesQuery,
+      ]);
+
+      if (error || seriesError) {
+        const queryError = (error || seriesError)!;
         console.error('❌ [getMySchedule] Supabase error fetching events:', {
-          code: error.code,
-          message: error.message,
-          details: error.details,
-          hint: error.hint,
+          code: queryError.code,
+          message: queryError.message,
+          details: queryError.details,
+          hint: queryError.hint,
         });
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -441,8 +1004,556 @@ export const eventsRouter = router({
         });
       }
 
+      // RSVP state is null for public events the athlete was not invited to
+      const data = expandEventsInWindow(
+        [...oneOffEvents, ...series],
+        input?.start_date || null,
+        windowEnd
+      ).map((event) => {
+        const participation = participations.get(event.id);
+        return {
+          ...event,
+          rsvp_status: participation?.status ?? null,
+          rsvp_response_date: participation?.response_date ?? null,
+          rsvp_note: participation?.notes ?? null,
+          rsvp_self_registered: participation?.assigned_by_user_id === ctx.user.id,
+        };
+      });
+
       console.log('✅ [getMySchedule] Found', data.length, 'events in schedule');
 
       return data;
     }),
+
+  /**
+   * Accept an event invitation (athlete only)
+   * Confirms attendance, optionally with a note for the trainer
+   */
+  acceptInvitation: protectedProcedure
+    .input(invitationResponseSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.role !== 'athlete') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only athletes can respond to event invitations',
+        });
+      }
+
+      return respondToInvitation(ctx.supabase, ctx.user.id, input.event_id, 'confirmed', input.note);
+    }),
+
+  /**
+   * Decline an event invitation (athlete only)
+   * Removes the athlete's pending reminders and notifies the event creator
+   */
+  declineInvitation: protectedProcedure
+    .input(invitationResponseSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.role !== 'athlete') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only athletes can respond to event invitations',
+        });
+      }
+
+      return respondToInvitation(ctx.supabase, ctx.user.id, input.event_id, 'declined', input.note);
+    }),
+
+  /**
+   * Register for a public event (athlete only)
+   * Enforces the registration deadline and capacity. When the event is full
+   * the athlete joins the waitlist; when it requires approval the
+   * registration waits for the organiser.
+   */
+  registerForEvent: protectedProcedure
+    .input(invitationResponseSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.role !== 'athlete') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only athletes can register for events',
+        });
+      }
+
+      const { data: event, error: eventError } = await ctx.supabase
+        .from('events')
+        .select('id, title, start_date, status, is_public, registration_deadline, recurrence_rule, max_participants, requires_approval, created_by_user_id')
+        .eq('id', input.event_id)
+        .maybeSingle();
+
+      if (eventError || !event) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Event not found',
+        });
+      }
+
+      const closedReason = getRegistrationClosedReason(event);
+      if (closedReason) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: closedReason,
+        });
+      }
+
+      const { data: existing } = await ctx.supabase
+        .from('event_participants')
+        .select('id, status')
+        .eq('event_id', input.event_id)
+        .eq('athlete_id', ctx.user.id)
+        .maybeSingle();
+
+      if (existing && existing.status === 'invited') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'You have been invited to this event. Accept the invitation instead',
+        });
+      }
+
+      if (existing && existing.status !== 'declined' && existing.status !== 'withdrawn') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: existing.status === 'waitlisted'
+            ? 'You are already on the waitlist for this event'
+            : existing.status === 'pending'
+              ? 'Your registration is awaiting approval'
+              : 'You are already registered for this event',
+        });
+      }
+
+      // Athletes can't see each other's rows, so spots are counted and the
+      // registration written with the service role
+      const adminSupabase = createSupabaseAdminClient();
+
+      const isFull = event.max_participants !== null &&
+        await countTakenSpots(adminSupabase, input.event_id) >= event.max_participants;
+      let status: EventParticipantStatus = event.requires_approval ? 'pending' : isFull ? 'waitlisted' : 'registered';
+      const now = new Date().toISOString();
+
+      // Re-registering moves the athlete to the back of the waitlist
+      const saveRegistration = (registrationStatus: EventParticipantStatus) => {
+        const registration = {
+          status: registrationStatus,
+          registration_date: now,
+          response_date: now,
+          notes: input.note || null,
+          updated_at: now,
+        };
+
+        return existing
+          ? adminSupabase
+              .from('event_participants')
+              .update(registration)
+              .eq('id', existing.id)
+              .select()
+              .single()
+          : adminSupabase
+              .from('event_participants')
+              .insert({
+                ...registration,
+                event_id: input.event_id,
+                athlete_id: ctx.user.id,
+                assigned_by_user_id: ctx.user.id,
+              })
+              .select()
+              .single();
+      };
+
+      let { data, error } = await saveRegistration(status);
+
+      // Another athlete took the last spot since it was counted
+      if (status === 'registered' && isEventFullError(error)) {
+        status = 'waitlisted';
+        ({ data, error } = await saveRegistration(status));
+      }
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'You are already registered for this event',
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to register for event',
+        });
+      }
+
+      if (status === 'registered') {
+        await syncEventReminders(ctx.supabase, input.event_id, ctx.user.id);
+      }
+
+      if (status === 'pending') {
+        const { data: athlete } = await ctx.supabase
+          .from('users')
+          .select('full_name')
+          .eq('id', ctx.user.id)
+          .single();
+
+        await notifyUser({
+          user_id: event.created_by_user_id,
+          type: 'event_response',
+          title: 'Registration Request',
+          message: `${athlete?.full_name || 'An athlete'} wants to join "${event.title}"`,
+          data: {
+            target: { screen: 'event', event_id: input.event_id },
+            event_id: input.event_id,
+            athlete_id: ctx.user.id,
+            status,
+          },
+        });
+      }
+
+      return {
+        participant: data,
+        status,
+        waitlist_position: status === 'waitlisted'
+          ? await getWaitlistPosition(adminSupabase, input.event_id, ctx.user.id)
+          : null,
+      };
+    }),
+
+  /**
+   * Withdraw from an event (athlete only)
+   * Works for registrations, waitlist places and pending requests; a freed
+   * spot goes to the first athlete on the waitlist
+   */
+  withdrawFromEvent: protectedProcedure
+    .input(invitationResponseSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.role !== 'athlete') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only athletes can withdraw from events',
+        });
+      }
+
+      const { data: participant, error: participantError } = await ctx.supabase
+        .from('event_participants')
+        .select('id, status, event:events(id, title, status, created_by_user_id)')
+        .eq('event_id', input.event_id)
+        .eq('athlete_id', ctx.user.id)
+        .maybeSingle();
+
+      if (participantError) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch registration',
+        });
+      }
+
+      const event = participant?.event as Record<string, any> | null | undefined;
+
+      if (!participant || !event || !WITHDRAWABLE_STATUSES.includes(participant.status)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'You are not registered for this event',
+        });
+      }
+
+      if (event.status === 'completed') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This event has been completed',
+        });
+      }
+
+      // Athletes have no write access to participants; the checks above
+      // limit this update to a withdrawal
+      const adminSupabase = createSupabaseAdminClient();
+      const now = new Date().toISOString();
+      const { data, error } = await adminSupabase
+        .from('event_participants')
+        .update({
+          status: 'withdrawn',
+          response_date: now,
+          notes: input.note || null,
+          updated_at: now,
+        })
+        .eq('id', participant.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to withdraw from event',
+        });
+      }
+
+      await syncEventReminders(ctx.supabase, input.event_id, ctx.user.id);
+
+      if (SPOT_HOLDING_STATUSES.includes(participant.status)) {
+        await promoteWaitlist(adminSupabase, input.event_id);
+
+        const { data: athlete } = await ctx.supabase
+          .from('users')
+          .select('full_name')
+          .eq('id', ctx.user.id)
+          .single();
+
+        const name = athlete?.full_name || 'An athlete';
+
+        await notifyUser({
+          user_id: event.created_by_user_id,
+          type: 'event_response',
+          title: 'Athlete Withdrew',
+          message: input.note
+            ? `${name} withdrew from "${event.title}": ${input.note}`
+            : `${name} withdrew from "${event.title}"`,
+          data: {
+            target: { screen: 'event', event_id: input.event_id },
+            event_id: input.event_id,
+            athlete_id: ctx.user.id,
+            status: 'withdrawn',
+          },
+        });
+      }
+
+      return data;
+    }),
+
+  /**
+   * Approve or reject a pending registration (trainer only)
+   * Approved athletes are registered, or waitlisted when the event is full
+   */
+  reviewRegistration: protectedProcedure
+    .input(
+      z.object({
+        event_id: z.number(),
+        athlete_id: z.string(),
+        approve: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Verify user is trainer or admin
+      if (ctx.role !== 'trainer' && !isAdmin(ctx.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only trainers can review registrations',
+        });
+      }
+
+      const { data: event, error: eventError } = await ctx.supabase
+        .from('events')
+        .select('id, title, max_participants, created_by_user_id')
+        .eq('id', input.event_id)
+        .single();
+
+      if (eventError || !event) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Event not found',
+        });
+      }
+
+      if (event.created_by_user_id !== ctx.user.id && !isAdmin(ctx.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only review registrations for your own events',
+        });
+      }
+
+      const { data: participant } = await ctx.supabase
+        .from('event_participants')
+        .select('id, status')
+        .eq('event_id', input.event_id)
+        .eq('athlete_id', input.athlete_id)
+        .maybeSingle();
+
+      if (!participant || participant.status !== 'pending') {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'No pending registration for this athlete',
+        });
+      }
+
+      const isFull = event.max_participants !== null &&
+        await countTakenSpots(ctx.supabase, input.event_id) >= event.max_participants;
+      let status: EventParticipantStatus = !input.approve ? 'declined' : isFull ? 'waitlisted' : 'registered';
+
+      const saveReview = (reviewStatus: EventParticipantStatus) => ctx.supabase
+        .from('event_participants')
+        .update({ status: reviewStatus, updated_at: new Date().toISOString() })
+        .eq('id', participant.id)
+        .select()
+        .single();
+
+      let { data, error } = await saveReview(status);
+
+      // Another athlete took the last spot since it was counted
+      if (status === 'registered' && isEventFullError(error)) {
+        status = 'waitlisted';
+        ({ data, error } = await saveReview(status));
+      }
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update registration',
+        });
+      }
+
+      if (status === 'registered') {
+        await syncEventReminders(ctx.supabase, input.event_id, input.athlete_id);
+      }
+
+      await notifyUser({
+        user_id: input.athlete_id,
+        type: 'event_response',
+        title: input.approve ? 'Registration Approved' : 'Registration Declined',
+        message: !input.approve
+          ? `Your registration for "${event.title}" was not approved`
+          : status === 'waitlisted'
+            ? `Your registration for "${event.title}" was approved. The event is full, so you are on the waitlist`
+            : `You are registered for "${event.title}"`,
+        data: {
+          target: { screen: 'event', event_id: input.event_id },
+          event_id: input.event_id,
+          status,
+        },
+      });
+
+      return data;
+    }),
+
+  /**
+   * Get registration details of an event
+   * Returns capacity, spots taken, waitlist length and whether registration
+   * is open, plus the current user's status and waitlist position
+   */
+  getRegistrationStatus: protectedProcedure
+    .input(z.object({ event_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      // Row level security hides events the user cannot see
+      const { data: event, error: eventError } = await ctx.supabase
+        .from('events')
+        .select('id, start_date, status, is_public, registration_deadline, recurrence_rule, max_participants, requires_approval')
+        .eq('id', input.event_id)
+        .maybeSingle();
+
+      if (eventError || !event) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Event not found',
+        });
+      }
+
+      // Athletes only see their own participant row, so counts use the
+      // service role
+      const adminSupabase = createSupabaseAdminClient();
+
+      const [spotsTaken, { count: waitlistCount }, { data: participant }] = await Promise.all([
+        countTakenSpots(adminSupabase, input.event_id),
+        adminSupabase
+          .from('event_participants')
+          .select('id', { count: 'exact', head: true })
+          .eq('event_id', input.event_id)
+          .eq('status', 'waitlisted'),
+        ctx.supabase
+          .from('event_participants')
+          .select('status')
+          .eq('event_id', input.event_id)
+          .eq('athlete_id', ctx.user.id)
+          .maybeSingle(),
+      ]);
+
+      const closedReason = getRegistrationClosedReason(event);
+
+      return {
+        event_id: event.id,
+        max_participants: event.max_participants,
+        registration_deadline: event.registration_deadline,
+        requires_approval: event.requires_approval,
+        spots_taken: spotsTaken,
+        spots_left: event.max_participants === null ? null : Math.max(0, event.max_participants - spotsTaken),
+        waitlist_count: waitlistCount || 0,
+        is_open: closedReason === null,
+        closed_reason: closedReason,
+        my_status: participant?.status ?? null,
+        my_waitlist_position: participant?.status === 'waitlisted'
+          ? await getWaitlistPosition(adminSupabase, input.event_id, ctx.user.id)
+          : null,
+      };
+    }),
+
+  /**
+   * Get the participant roster of an event (trainer only)
+   * Only the creator can view the roster; returns each participant with their
+   * response, note and waitlist position, plus counts by status
+   */
+  getEventRoster: protectedProcedure
+    .input(z.object({ event_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      // Verify user is trainer or admin
+      if (ctx.role !== 'trainer' && !isAdmin(ctx.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only trainers can view event rosters',
+        });
+      }
+
+      const { data: event, error: eventError } = await ctx.supabase
+        .from('events')
+        .select('id, title, start_date, end_date, status, max_participants, created_by_user_id')
+        .eq('id', input.event_id)
+        .single();
+
+      if (eventError || !event) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Event not found',
+        });
+      }
+
+      if (event.created_by_user_id !== ctx.user.id && !isAdmin(ctx.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only view the roster of your own events',
+        });
+      }
+
+      const { data: participants, error } = await ctx.supabase
+        .from('event_participants')
+        .select(`
+          id, athlete_id, status, registration_date, response_date, notes,
+          athlete:users!event_participants_athlete_id_fkey(id, full_name, avatar_url)
+        `)
+        .eq('event_id', input.event_id)
+        .order('registration_date', { ascending: true })
+        .order('id', { ascending: true })
+        // Many-to-one embeds come back as single objects, not arrays
+        .overrideTypes<RosterParticipant[], { merge: false }>();
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch event roster',
+        });
+      }
+
+      const counts = Object.fromEntries(PARTICIPANT_STATUSES.map((status) => [status, 0])) as Record<
+        (typeof PARTICIPANT_STATUSES)[number],
+        number
+      >;
+      for (const participant of participants) {
+        counts[participant.status]++;
+      }
+
+      // Participants are in registration order, which is also waitlist order
+      let waitlistPosition = 0;
+      const roster = participants.map((participant) => ({
+        ...participant,
+        waitlist_position: participant.status === 'waitlisted' ? ++waitlistPosition : null,
+      }));
+
+      return {
+        event,
+        participants: roster,
+        counts,
+        total: participants.length,
+      };
+    }),
 });
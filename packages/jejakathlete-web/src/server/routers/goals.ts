@@ -0,0 +1,410 @@
+import { z } from 'zod';
+import { router, protectedProcedure, athleteProcedure, trainerProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AthleteGoal, UserRole } from '@jejakathlete/shared';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import { verifyTrainerAthleteAccess, isAdmin } from '../utils/authorization';
+import { programToday } from '../utils/programs';
+import { evaluateGoals, getGoalBaseline, getGoalsProgress } from '../utils/goals';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const goalStatusSchema = z.enum(['active', 'achieved', 'missed', 'cancelled']);
+
+const createGoalSchema = z.object({
+  // Required for trainers; athletes set goals for themselves
+  athlete_id: z.string().uuid().optional(),
+  goal_type: z.enum(['test', 'body_metric', 'workout_count']),
+  title: z.string().max(100).optional(),
+  test_id: z.number().optional(),
+  metric: z.enum(['weight', 'body_fat_percentage', 'muscle_mass', 'bmi']).optional(),
+  target_value: z.number().positive(),
+  // Defaults to the test's improvement direction, or the way the target lies
+  // from the current body metric
+  direction: z.enum(['higher', 'lower']).optional(),
+  deadline: dateSchema,
+});
+
+const updateGoalSchema = z.object({
+  id: z.number(),
+  title: z.string().max(100).nullable().optional(),
+  target_value: z.number().positive().optional(),
+  deadline: dateSchema.optional(),
+});
+
+interface GoalContext {
+  supabase: SupabaseClient;
+  user: { id: string };
+  role: UserRole;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Verify the user can manage an athlete's goals: the athlete themselves, an
+ * approved trainer or an admin
+ */
+async function assertGoalAccess(ctx: GoalContext, athleteId: string) {
+  if (athleteId === ctx.user.id || isAdmin(ctx.role)) return;
+
+  const hasAccess = ctx.role === 'trainer' &&
+    await verifyTrainerAthleteAccess(ctx.supabase, ctx.user.id, athleteId);
+
+  if (!hasAccess) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have access to this athlete\'s goals',
+    });
+  }
+}
+
+/**
+ * Fetch a goal and verify the user can manage it
+ */
+async function getManagedGoal(ctx: GoalContext, goalId: number): Promise<AthleteGoal> {
+  const { data: goal, error } = await ctx.supabase
+    .from('athlete_goals')
+    .select('*')
+    .eq('id', goalId)
+    .single();
+
+  if (error || !goal) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Goal not found',
+    });
+  }
+
+  await assertGoalAccess(ctx, goal.athlete_id);
+  return goal as AthleteGoal;
+}
+
+/**
+ * Fetch an athlete's goals with their progress, active goals first
+ */
+async function listGoals(ctx: GoalContext, athleteId: string, status?: AthleteGoal['status']) {
+  let query = ctx.supabase
+    .from('athlete_goals')
+    .select('*')
+    .eq('athlete_id', athleteId)
+    .order('deadline', { ascending: true });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching goals:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch goals',
+    });
+  }
+
+  const goals = await getGoalsProgress(ctx.supabase, athleteId, (data || []) as AthleteGoal[]);
+  return [...goals.filter((goal) => goal.status === 'active'), ...goals.filter((goal) => goal.status !== 'active')];
+}
+
+/**
+ * Goals Router
+ * Targets for a fitness test, a body metric or the number of completed
+ * workouts, set by athletes for themselves or by their trainers
+ */
+export const goalsRouter = router({
+  /**
+   * Get the athlete's own goals with progress
+   */
+  getMyGoals: athleteProcedure
+    .input(
+      z
+        .object({
+          status: goalStatusSchema.optional(),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await listGoals(ctx, ctx.user.id, input?.status);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getMyGoals:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Get an athlete's goals with progress (trainer access)
+   * Requires approved enrollment between trainer and athlete
+   */
+  getAthleteGoals: trainerProcedure
+    .input(
+      z.object({
+        athlete_id: z.string().uuid(),
+        status: goalStatusSchema.optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await assertGoalAccess(ctx, input.athlete_id);
+        return await listGoals(ctx, input.athlete_id, input.status);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getAthleteGoals:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Set a goal for an athlete
+   * Athletes set their own goals; trainers set goals for enrolled athletes.
+   * The current value is stored as the baseline progress is measured from.
+   */
+  createGoal: protectedProcedure
+    .input(createGoalSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const athleteId = ctx.role === 'athlete' ? ctx.user.id : input.athlete_id;
+
+        if (!athleteId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Choose the athlete the goal is for',
+          });
+        }
+
+        await assertGoalAccess(ctx, athleteId);
+
+        const today = programToday();
+        if (input.deadline <= today) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The deadline must be in the future',
+          });
+        }
+
+        let direction = input.direction;
+
+        if (input.goal_type === 'test') {
+          if (!input.test_id) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'Choose the test the goal is for',
+            });
+          }
+
+          const { data: test } = await ctx.supabase
+            .from('tests')
+            .select('improvement_direction')
+            .eq('id', input.test_id)
+            .maybeSingle();
+
+          if (!test) {
+            throw new TRPCError({
+              code: 'NOT_FOUND',
+              message: 'Test not found',
+            });
+          }
+
+          direction = direction ?? test.improvement_direction ?? 'higher';
+        } else if (input.goal_type === 'body_metric') {
+          if (!input.metric) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'Choose the body metric the goal is for',
+            });
+          }
+        } else {
+          direction = 'higher';
+        }
+
+        const baseline = await getGoalBaseline(ctx.supabase, athleteId, {
+          goal_type: input.goal_type,
+          test_id: input.test_id,
+          metric: input.metric,
+          direction: direction ?? 'lower',
+        });
+
+        if (input.goal_type === 'body_metric' && !direction) {
+          direction = baseline !== null && input.target_value > baseline ? 'higher' : 'lower';
+        }
+
+        if (baseline !== null && (direction === 'lower' ? baseline <= input.target_value : baseline >= input.target_value)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This target has already been reached',
+          });
+        }
+
+        const { data: goal, error } = await ctx.supabase
+          .from('athlete_goals')
+          .insert({
+            athlete_id: athleteId,
+            set_by_user_id: ctx.user.id,
+            goal_type: input.goal_type,
+            title: input.title?.trim() || null,
+            test_id: input.goal_type === 'test' ? input.test_id : null,
+            metric: input.goal_type === 'body_metric' ? input.metric : null,
+            target_value: input.target_value,
+            baseline_value: baseline,
+            direction,
+            start_date: today,
+            deadline: input.deadline,
+          })
+          .select()
+          .single();
+
+        if (error || !goal) {
+          console.error('Error creating goal:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to create goal',
+          });
+        }
+
+        const [withProgress] = await getGoalsProgress(ctx.supabase, athleteId, [goal as AthleteGoal], today);
+        return withProgress;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in createGoal:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Change an active goal's title, target or deadline
+   * A changed target or deadline can warn about the goal again.
+   */
+  updateGoal: protectedProcedure
+    .input(updateGoalSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const goal = await getManagedGoal(ctx, input.id);
+
+        if (goal.status !== 'active') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only active goals can be changed',
+          });
+        }
+
+        if (input.deadline !== undefined && input.deadline <= programToday()) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The deadline must be in the future',
+          });
+        }
+
+        const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+        if (input.title !== undefined) updateData.title = input.title?.trim() || null;
+        if (input.target_value !== undefined) updateData.target_value = input.target_value;
+        if (input.deadline !== undefined) updateData.deadline = input.deadline;
+        if (input.target_value !== undefined || input.deadline !== undefined) {
+          updateData.at_risk_notified_at = null;
+        }
+
+        const { data: updated, error } = await ctx.supabase
+          .from('athlete_goals')
+          .update(updateData)
+          .eq('id', input.id)
+          .select()
+          .single();
+
+        if (error || !updated) {
+          console.error('Error updating goal:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update goal',
+          });
+        }
+
+        // A lower target may already be met
+        await evaluateGoals(createSupabaseAdminClient(), goal.athlete_id);
+
+        const { data: latest } = await ctx.supabase
+          .from('athlete_goals')
+          .select('*')
+          .eq('id', input.id)
+          .single();
+
+        const [withProgress] = await getGoalsProgress(ctx.supabase, goal.athlete_id, [(latest || updated) as AthleteGoal]);
+        return withProgress;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in updateGoal:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Cancel an active goal
+   */
+  cancelGoal: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const goal = await getManagedGoal(ctx, input.id);
+
+        if (goal.status !== 'active') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only active goals can be cancelled',
+          });
+        }
+
+        const { data: cancelled, error } = await ctx.supabase
+          .from('athlete_goals')
+          .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+          .eq('id', input.id)
+          .select()
+          .single();
+
+        if (error || !cancelled) {
+          console.error('Error cancelling goal:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to cancel goal',
+          });
+        }
+
+        return cancelled as AthleteGoal;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in cancelGoal:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+});
@@ -1,7 +1,19 @@
 import { z } from 'zod';
-import { router, protectedProcedure } from '../trpc';
+import { router, protectedProcedure, adminProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import type { Notification, NotificationType } from '@jejakathlete/shared';
 import { isAdmin } from '../utils/authorization';
+import { isValidTimeZone } from '../utils/timezone';
+import { notifyUser, parseNotificationData } from '../utils/notifications';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  resolveNotificationPreferences,
+} from '../utils/notificationPreferences';
+
+const notificationTypeSchema = z.enum(NOTIFICATION_TYPES as [NotificationType, ...NotificationType[]]);
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
 
 /**
  * Notifications Router
@@ -9,69 +21,41 @@ import { isAdmin } from '../utils/authorization';
  */
 export const notificationsRouter = router({
   /**
-   * Create a notification (system/trainer)
-   * Creates a notification for a specific user
+   * Send an announcement to a user (admin only)
+   * Everything else is notified by the server as a side effect of the
+   * action it's about. Returns null without creating anything if the user
+   * has turned general notifications off.
    */
-  createNotification: protectedProcedure
+  createNotification: adminProcedure
     .input(
       z.object({
-        user_id: z.string(),
-        type: z.enum([
-          'enrollment_request',
-          'enrollment_response',
-          'workout_assigned',
-          'event_assigned',
-          'test_result',
-          'general',
-        ]),
+        user_id: z.string().uuid(),
         title: z.string().min(1, 'Title is required'),
         message: z.string().min(1, 'Message is required'),
-        data: z.record(z.any()).optional(),
+        data: z.record(z.unknown()).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // Only trainers and admins can create notifications
-      // (In production, this would typically be called by system processes)
-      if (ctx.role !== 'trainer' && !isAdmin(ctx.role)) {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'Only trainers and admins can create notifications',
-        });
-      }
-
-      // Validate JSON data if provided
-      if (input.data) {
-        try {
-          JSON.stringify(input.data);
-        } catch (error) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Invalid JSON data in notification',
-          });
-        }
-      }
-
-      const { data, error } = await ctx.supabase
-        .from('notifications')
-        .insert({
-          user_id: input.user_id,
-          type: input.type,
-          title: input.title,
-          message: input.message,
-          data: input.data || null,
-          is_read: false,
-        })
-        .select()
-        .single();
+      const { data: recipient } = await ctx.supabase
+        .from('users')
+        .select('id')
+        .eq('id', input.user_id)
+        .maybeSingle();
 
-      if (error) {
+      if (!recipient) {
         throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to create notification',
+          code: 'NOT_FOUND',
+          message: 'User not found',
         });
       }
 
-      return data;
+      return notifyUser({
+        user_id: input.user_id,
+        type: 'general',
+        title: input.title,
+        message: input.message,
+        data: input.data || {},
+      });
     }),
 
   /**
@@ -117,7 +101,9 @@ export const notificationsRouter = router({
       }
 
       return {
-        notifications: data,
+        notifications: (data || []).map(
+          (notification): Notification => ({ ...notification, data: parseNotificationData(notification.data) })
+        ),
         total: count || 0,
       };
     }),
@@ -271,4 +257,103 @@ export const notificationsRouter = router({
 
       return { success: true };
     }),
+
+  /**
+   * Get the current user's notification preferences
+   * Types and channels that were never set are on; quiet hours are off.
+   */
+  getPreferences: protectedProcedure.query(async ({ ctx }) => {
+    const { data, error } = await ctx.supabase
+      .from('user_profiling')
+      .select('preferences')
+      .eq('user_id', ctx.user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch notification preferences',
+      });
+    }
+
+    return resolveNotificationPreferences(data?.preferences);
+  }),
+
+  /**
+   * Update the current user's notification preferences
+   * Only the types, channels and quiet hours fields given are changed; other
+   * keys in user_profiling.preferences are kept.
+   */
+  updatePreferences: protectedProcedure
+    .input(
+      z.object({
+        channels: z
+          .record(
+            notificationTypeSchema,
+            z.object({
+              in_app: z.boolean().optional(),
+              push: z.boolean().optional(),
+            })
+          )
+          .optional(),
+        quiet_hours: z
+          .object({
+            enabled: z.boolean().optional(),
+            start: timeSchema.optional(),
+            end: timeSchema.optional(),
+            timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+          })
+          .optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { data: profiling, error: fetchError } = await ctx.supabase
+        .from('user_profiling')
+        .select('preferences')
+        .eq('user_id', ctx.user.id)
+        .maybeSingle();
+
+      if (fetchError) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch notification preferences',
+        });
+      }
+
+      const current = resolveNotificationPreferences(profiling?.preferences);
+
+      for (const [type, channels] of Object.entries(input.channels ?? {})) {
+        for (const channel of NOTIFICATION_CHANNELS) {
+          const enabled = channels?.[channel];
+          if (enabled !== undefined) {
+            current.channels[type as NotificationType][channel] = enabled;
+          }
+        }
+      }
+
+      const notificationPreferences = {
+        ...current,
+        quiet_hours: { ...current.quiet_hours, ...input.quiet_hours },
+      };
+
+      const { error: updateError } = await ctx.supabase
+        .from('user_profiling')
+        .upsert(
+          {
+            user_id: ctx.user.id,
+            preferences: { ...profiling?.preferences, notifications: notificationPreferences },
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id' }
+        );
+
+      if (updateError) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update notification preferences',
+        });
+      }
+
+      return notificationPreferences;
+    }),
 });
@@ -0,0 +1,1017 @@
+import { z } from 'zod';
+import { router, trainerProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ProgramAssignment,
+  ProgramWorkout,
+  TrainingProgram,
+  User,
+  WorkoutAssignment,
+  WorkoutTemplate,
+} from '@jejakathlete/shared';
+import { isAdmin, verifyTrainerAthleteAccess } from '../utils/authorization';
+import {
+  clearPendingProgramWorkouts,
+  daysBetween,
+  getProgramWeek,
+  programToday,
+  scheduleProgramWorkouts,
+  summarizeProgramProgress,
+} from '../utils/programs';
+import { notifyWorkoutsAssigned, notifyWorkoutsRescheduled } from '../utils/domainNotifications';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const programWorkoutSchema = z.object({
+  workout_template_id: z.number(),
+  week_number: z.number().int().min(1),
+  // 1 = Monday ... 7 = Sunday
+  day_of_week: z.number().int().min(1).max(7),
+  order_index: z.number().int().min(0).default(0),
+});
+
+const createProgramSchema = z.object({
+  name: z.string().min(1, 'Program name is required'),
+  description: z.string().optional(),
+  duration_weeks: z.number().int().min(1).max(52),
+  workouts: z.array(programWorkoutSchema).min(1, 'At least one workout is required').max(500),
+});
+
+const updateProgramSchema = z.object({
+  program_id: z.number(),
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  duration_weeks: z.number().int().min(1).max(52).optional(),
+  workouts: z.array(programWorkoutSchema).min(1).max(500).optional(),
+});
+
+type ProgramWorkoutInput = z.infer<typeof programWorkoutSchema>;
+
+interface TrainerContext {
+  supabase: SupabaseClient;
+  user: { id: string };
+}
+
+interface ProgramWithWorkouts extends TrainingProgram {
+  workouts: (ProgramWorkout & {
+    workout_template: Pick<WorkoutTemplate, 'id' | 'name' | 'description'> | null;
+  })[];
+}
+
+interface ProgramWithCounts extends TrainingProgram {
+  workouts: Pick<ProgramWorkout, 'id'>[];
+  assignments: Pick<ProgramAssignment, 'status'>[];
+}
+
+interface ProgramAssignmentWithProgram extends ProgramAssignment {
+  program: Pick<TrainingProgram, 'id' | 'name' | 'duration_weeks'> | null;
+}
+
+interface ProgramAssignmentWithWorkouts extends ProgramAssignmentWithProgram {
+  athlete: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+  workouts: Pick<WorkoutAssignment, 'scheduled_date' | 'status'>[];
+}
+
+// Workout generated for an assignment; program_workout is null once its
+// grid slot is removed from the program
+interface GeneratedProgramWorkout
+  extends Pick<WorkoutAssignment, 'id' | 'scheduled_date' | 'status' | 'started_at' | 'completed_at'> {
+  workout_template: Pick<WorkoutTemplate, 'id' | 'name'> | null;
+  program_workout: Pick<ProgramWorkout, 'week_number' | 'day_of_week'> | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const slotKey = (workout: ProgramWorkoutInput) =>
+  `${workout.workout_template_id}|${workout.week_number}|${workout.day_of_week}|${workout.order_index}`;
+
+/**
+ * Fetch a program and verify the trainer owns it
+ */
+async function getOwnedProgram(ctx: TrainerContext, programId: number) {
+  const { data: program, error } = await ctx.supabase
+    .from('training_programs')
+    .select('*')
+    .eq('id', programId)
+    .single();
+
+  if (error || !program) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Training program not found',
+    });
+  }
+
+  if (program.trainer_id !== ctx.user.id) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You can only manage your own programs',
+    });
+  }
+
+  return program;
+}
+
+/**
+ * Fetch a program assignment and verify the trainer made it
+ */
+async function getOwnedAssignment(ctx: TrainerContext, assignmentId: number) {
+  const { data: assignment, error } = await ctx.supabase
+    .from('program_assignments')
+    .select('*, program:training_programs(id, name, duration_weeks)')
+    .eq('id', assignmentId)
+    .single();
+
+  if (error || !assignment) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Program assignment not found',
+    });
+  }
+
+  if (assignment.trainer_id !== ctx.user.id) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You can only manage programs you assigned',
+    });
+  }
+
+  return assignment as ProgramAssignmentWithProgram;
+}
+
+/**
+ * Verify a program grid fits the program length and uses the trainer's templates
+ */
+async function validateProgramWorkouts(
+  ctx: TrainerContext,
+  workouts: ProgramWorkoutInput[],
+  durationWeeks: number
+) {
+  const outside = workouts.find((workout) => workout.week_number > durationWeeks);
+  if (outside) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Week ${outside.week_number} is outside the ${durationWeeks}-week program`,
+    });
+  }
+
+  const templateIds = [...new Set(workouts.map((workout) => workout.workout_template_id))];
+  const { data: templates, error } = await ctx.supabase
+    .from('workout_templates')
+    .select('id')
+    .eq('trainer_id', ctx.user.id)
+    .in('id', templateIds);
+
+  if (error) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch workout templates',
+    });
+  }
+
+  const ownedIds = new Set((templates || []).map((template) => template.id));
+  if (templateIds.some((templateId) => !ownedIds.has(templateId))) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Programs can only use your own workout templates',
+    });
+  }
+}
+
+/**
+ * Fetch a program with its grid ordered by week, weekday and position
+ */
+async function fetchProgramWithWorkouts(supabase: SupabaseClient, programId: number) {
+  const { data: program, error } = await supabase
+    .from('training_programs')
+    .select(`
+      *,
+      workouts:program_workouts(
+        *,
+        workout_template:workout_templates(id, name, description)
+      )
+    `)
+    .eq('id', programId)
+    .single();
+
+  if (error || !program) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch training program',
+    });
+  }
+
+  const { workouts, ...details } = program as ProgramWithWorkouts;
+
+  return {
+    ...details,
+    workouts: workouts.sort(
+      (a, b) => a.week_number - b.week_number || a.day_of_week - b.day_of_week || a.order_index - b.order_index
+    ),
+  };
+}
+
+/**
+ * Fetch the workouts generated for a program assignment
+ */
+async function fetchProgramWorkouts(supabase: SupabaseClient, assignmentId: number) {
+  const { data: workouts, error } = await supabase
+    .from('workout_assignments')
+    .select(`
+      id,
+      scheduled_date,
+      status,
+      started_at,
+      completed_at,
+      workout_template:workout_templates(id, name),
+      program_workout:program_workouts(week_number, day_of_week)
+    `)
+    .eq('program_assignment_id', assignmentId)
+    .order('scheduled_date', { ascending: true })
+    // Many-to-one embeds come back as single objects, not arrays
+    .overrideTypes<GeneratedProgramWorkout[], { merge: false }>();
+
+  if (error) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch program workouts',
+    });
+  }
+
+  return workouts;
+}
+
+// ============================================================================
+// Programs Router
+// ============================================================================
+
+/**
+ * Programs Router
+ * Handles multi-week training programs and their assignment to athletes
+ */
+export const programsRouter = router({
+  /**
+   * Create a training program from a grid of workout templates (trainer only)
+   */
+  createProgram: trainerProcedure
+    .input(createProgramSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await validateProgramWorkouts(ctx, input.workouts, input.duration_weeks);
+
+        const { data: program, error } = await ctx.supabase
+          .from('training_programs')
+          .insert({
+            trainer_id: ctx.user.id,
+            name: input.name,
+            description: input.description || null,
+            duration_weeks: input.duration_weeks,
+          })
+          .select()
+          .single();
+
+        if (error || !program) {
+          console.error('❌ [createProgram] Failed to create program:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to create training program',
+          });
+        }
+
+        const { error: workoutsError } = await ctx.supabase
+          .from('program_workouts')
+          .insert(input.workouts.map((workout) => ({ ...workout, program_id: program.id })));
+
+        if (workoutsError) {
+          console.error('❌ [createProgram] Failed to add program workouts:', workoutsError);
+          // Rollback: delete the program
+          await ctx.supabase.from('training_programs').delete().eq('id', program.id);
+
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to add workouts to program',
+          });
+        }
+
+        return await fetchProgramWithWorkouts(ctx.supabase, program.id);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error creating training program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * List the trainer's programs with workout and active assignment counts
+   */
+  listMyPrograms: trainerProcedure.query(async ({ ctx }) => {
+    try {
+      const { data: programs, error } = await ctx.supabase
+        .from('training_programs')
+        .select(`
+          *,
+          workouts:program_workouts(id),
+          assignments:program_assignments(status)
+        `)
+        .eq('trainer_id', ctx.user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch training programs',
+        });
+      }
+
+      return (programs as ProgramWithCounts[]).map(({ workouts, assignments, ...program }) => ({
+        ...program,
+        workout_count: workouts.length,
+        active_assignments: assignments.filter((assignment) =>
+          assignment.status === 'active' || assignment.status === 'paused'
+        ).length,
+      }));
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error fetching training programs:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * Get a program with its full grid (trainer only)
+   */
+  getProgram: trainerProcedure
+    .input(z.object({ program_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        await getOwnedProgram(ctx, input.program_id);
+        return await fetchProgramWithWorkouts(ctx.supabase, input.program_id);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error fetching training program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Update a program's details or grid (trainer only)
+   * Grid changes apply to the upcoming workouts of active assignments;
+   * workouts already done or missed are kept.
+   */
+  updateProgram: trainerProcedure
+    .input(updateProgramSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const program = await getOwnedProgram(ctx, input.program_id);
+        const durationWeeks = input.duration_weeks ?? program.duration_weeks;
+
+        let workouts = input.workouts;
+        if (!workouts && input.duration_weeks !== undefined) {
+          // A shorter program must still hold its current grid
+          const { data: current } = await ctx.supabase
+            .from('program_workouts')
+            .select('week_number')
+            .eq('program_id', input.program_id)
+            .gt('week_number', durationWeeks)
+            .limit(1);
+
+          if (current && current.length > 0) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Remove workouts after week ${durationWeeks} before shortening the program`,
+            });
+          }
+        }
+
+        if (workouts) {
+          await validateProgramWorkouts(ctx, workouts, durationWeeks);
+        }
+
+        const updateData: Record<string, any> = { updated_at: new Date().toISOString() };
+        if (input.name !== undefined) updateData.name = input.name;
+        if (input.description !== undefined) updateData.description = input.description;
+        if (input.duration_weeks !== undefined) updateData.duration_weeks = input.duration_weeks;
+
+        const { error: updateError } = await ctx.supabase
+          .from('training_programs')
+          .update(updateData)
+          .eq('id', input.program_id);
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update training program',
+          });
+        }
+
+        if (workouts) {
+          // Keep unchanged slots so workouts generated from them stay linked
+          const { data: existing, error: existingError } = await ctx.supabase
+            .from('program_workouts')
+            .select('id, workout_template_id, week_number, day_of_week, order_index')
+            .eq('program_id', input.program_id);
+
+          if (existingError) {
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: 'Failed to fetch program workouts',
+            });
+          }
+
+          const wanted = new Set(workouts.map(slotKey));
+          const kept = new Set(existing.map(slotKey));
+          const removedIds = existing.filter((slot) => !wanted.has(slotKey(slot))).map((slot) => slot.id);
+          const added = workouts.filter((workout) => !kept.has(slotKey(workout)));
+
+          if (removedIds.length > 0) {
+            // Drop pending workouts of removed slots before the slots go
+            const { error: clearError } = await ctx.supabase
+              .from('workout_assignments')
+              .delete()
+              .in('program_workout_id', removedIds)
+              .eq('status', 'pending')
+              .gte('scheduled_date', programToday());
+
+            const { error: deleteError } = clearError
+              ? { error: clearError }
+              : await ctx.supabase.from('program_workouts').delete().in('id', removedIds);
+
+            if (deleteError) {
+              throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to update program workouts',
+              });
+            }
+          }
+
+          if (added.length > 0) {
+            const { error: insertError } = await ctx.supabase
+              .from('program_workouts')
+              .insert(added.map((workout) => ({ ...workout, program_id: input.program_id })));
+
+            if (insertError) {
+              throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to update program workouts',
+              });
+            }
+          }
+
+          const { data: activeAssignments } = await ctx.supabase
+            .from('program_assignments')
+            .select('id, program_id, athlete_id, trainer_id, start_date, offset_days')
+            .eq('program_id', input.program_id)
+            .eq('status', 'active');
+
+          const today = programToday();
+          for (const assignment of activeAssignments || []) {
+            await scheduleProgramWorkouts(ctx.supabase, assignment, today);
+          }
+        }
+
+        return await fetchProgramWithWorkouts(ctx.supabase, input.program_id);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error updating training program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Delete a program (trainer only)
+   * Upcoming workouts of its assignments are removed; past workouts stay in
+   * the athletes' history.
+   */
+  deleteProgram: trainerProcedure
+    .input(z.object({ program_id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getOwnedProgram(ctx, input.program_id);
+
+        const { data: assignments } = await ctx.supabase
+          .from('program_assignments')
+          .select('id')
+          .eq('program_id', input.program_id);
+
+        const today = programToday();
+        for (const assignment of assignments || []) {
+          await clearPendingProgramWorkouts(ctx.supabase, assignment.id, today);
+        }
+
+        const { error } = await ctx.supabase
+          .from('training_programs')
+          .delete()
+          .eq('id', input.program_id);
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to delete training program',
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error deleting training program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Assign a program to an enrolled athlete (trainer only)
+   * Creates a workout assignment for every slot in the grid, with week 1
+   * starting on start_date. The athlete gets one notification for the program.
+   */
+  assignProgram: trainerProcedure
+    .input(
+      z.object({
+        program_id: z.number(),
+        athlete_id: z.string(),
+        start_date: dateSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        console.log('🔵 [assignProgram] Assigning program:', input);
+
+        const program = await getOwnedProgram(ctx, input.program_id);
+
+        if (!isAdmin(ctx.role)) {
+          const hasAccess = await verifyTrainerAthleteAccess(ctx.supabase, ctx.user.id, input.athlete_id);
+          if (!hasAccess) {
+            throw new TRPCError({
+              code: 'FORBIDDEN',
+              message: 'You can only assign programs to your enrolled athletes',
+            });
+          }
+        }
+
+        const { data: assignment, error } = await ctx.supabase
+          .from('program_assignments')
+          .insert({
+            program_id: input.program_id,
+            athlete_id: input.athlete_id,
+            trainer_id: ctx.user.id,
+            start_date: input.start_date,
+            status: 'active',
+          })
+          .select()
+          .single();
+
+        if (error || !assignment) {
+          console.error('❌ [assignProgram] Failed to create assignment:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to assign program',
+          });
+        }
+
+        let workoutCount: number;
+        try {
+          workoutCount = await scheduleProgramWorkouts(ctx.supabase, assignment, input.start_date);
+          console.log('✅ [assignProgram] Program assigned with', workoutCount, 'workouts');
+        } catch (scheduleError) {
+          // Rollback: remove the assignment and anything generated for it
+          await clearPendingProgramWorkouts(ctx.supabase, assignment.id, input.start_date).catch(() => 0);
+          await ctx.supabase.from('program_assignments').delete().eq('id', assignment.id);
+          throw scheduleError;
+        }
+
+        const { data: workouts } = await ctx.supabase
+          .from('workout_assignments')
+          .select('id, scheduled_date')
+          .eq('program_assignment_id', assignment.id);
+
+        await notifyWorkoutsAssigned(ctx.supabase, {
+          athlete_id: input.athlete_id,
+          trainer_id: ctx.user.id,
+          name: program.name,
+          workout_assignment_ids: (workouts || []).map((workout) => workout.id),
+          program_assignment_id: assignment.id,
+          dates: (workouts || []).map((workout) => workout.scheduled_date),
+        });
+
+        return {
+          ...assignment,
+          workout_count: workoutCount,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error assigning training program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * List the trainer's program assignments with progress (trainer only)
+   */
+  listProgramAssignments: trainerProcedure
+    .input(
+      z.object({
+        program_id: z.number().optional(),
+        athlete_id: z.string().optional(),
+        status: z.enum(['active', 'paused', 'completed', 'ended']).optional(),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        let query = ctx.supabase
+          .from('program_assignments')
+          .select(`
+            *,
+            program:training_programs(id, name, duration_weeks),
+            athlete:users!program_assignments_athlete_id_fkey(id, full_name, avatar_url),
+            workouts:workout_assignments(scheduled_date, status)
+          `)
+          .eq('trainer_id', ctx.user.id)
+          .order('start_date', { ascending: false });
+
+        if (input?.program_id) query = query.eq('program_id', input.program_id);
+        if (input?.athlete_id) query = query.eq('athlete_id', input.athlete_id);
+        if (input?.status) query = query.eq('status', input.status);
+
+        const { data: assignments, error } = await query;
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch program assignments',
+          });
+        }
+
+        const today = programToday();
+
+        return (assignments as ProgramAssignmentWithWorkouts[]).map(({ workouts, ...assignment }) => ({
+          ...assignment,
+          current_week: Math.min(
+            getProgramWeek(assignment, assignment.paused_on || today),
+            assignment.program?.duration_weeks ?? 0
+          ),
+          progress: summarizeProgramProgress(workouts, today),
+        }));
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error fetching program assignments:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Get an athlete's progress through an assigned program, week by week
+   * (trainer only)
+   */
+  getProgramProgress: trainerProcedure
+    .input(z.object({ assignment_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const assignment = await getOwnedAssignment(ctx, input.assignment_id);
+        const workouts = await fetchProgramWorkouts(ctx.supabase, input.assignment_id);
+        const today = programToday();
+        const durationWeeks = assignment.program?.duration_weeks ?? 0;
+
+        const weeks = Array.from({ length: durationWeeks }, (_, index) => {
+          const weekWorkouts = workouts.filter((workout) => workout.program_workout?.week_number === index + 1);
+          return {
+            week_number: index + 1,
+            ...summarizeProgramProgress(weekWorkouts, today),
+            workouts: weekWorkouts,
+          };
+        });
+
+        return {
+          assignment,
+          current_week: Math.min(getProgramWeek(assignment, assignment.paused_on || today), durationWeeks),
+          progress: summarizeProgramProgress(workouts, today),
+          weeks,
+          // Workouts whose grid slot was removed from the program
+          unlinked_workouts: workouts.filter((workout) => !workout.program_workout),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error fetching program progress:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Move an active program's upcoming workouts by a number of days
+   * (trainer only)
+   * Workouts from from_date (default today) move; a negative shift drops
+   * workouts that would land before from_date. The athlete is notified.
+   */
+  shiftProgram: trainerProcedure
+    .input(
+      z.object({
+        assignment_id: z.number(),
+        days: z.number().int().min(-90).max(90).refine((days) => days !== 0, 'Shift must not be zero'),
+        from_date: dateSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const assignment = await getOwnedAssignment(ctx, input.assignment_id);
+
+        if (assignment.status !== 'active') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only active programs can be shifted',
+          });
+        }
+
+        const today = programToday();
+        const fromDate = input.from_date && input.from_date > today ? input.from_date : today;
+        const offsetDays = assignment.offset_days + input.days;
+
+        const { error } = await ctx.supabase
+          .from('program_assignments')
+          .update({ offset_days: offsetDays, updated_at: new Date().toISOString() })
+          .eq('id', input.assignment_id);
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to shift program',
+          });
+        }
+
+        const workoutCount = await scheduleProgramWorkouts(
+          ctx.supabase,
+          { ...assignment, offset_days: offsetDays },
+          fromDate
+        );
+
+        await notifyWorkoutsRescheduled(ctx.supabase, {
+          athlete_id: assignment.athlete_id,
+          program_assignment_id: assignment.id,
+          program_id: assignment.program_id,
+          days_moved: input.days,
+          workout_count: workoutCount,
+        });
+
+        return { success: true, offset_days: offsetDays, rescheduled: workoutCount };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error shifting program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Pause an active program (trainer only)
+   * Upcoming workouts are removed until the program is resumed
+   */
+  pauseProgram: trainerProcedure
+    .input(z.object({ assignment_id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const assignment = await getOwnedAssignment(ctx, input.assignment_id);
+
+        if (assignment.status !== 'active') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only active programs can be paused',
+          });
+        }
+
+        const today = programToday();
+
+        const { error } = await ctx.supabase
+          .from('program_assignments')
+          .update({ status: 'paused', paused_on: today, updated_at: new Date().toISOString() })
+          .eq('id', input.assignment_id);
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to pause program',
+          });
+        }
+
+        const removed = await clearPendingProgramWorkouts(ctx.supabase, input.assignment_id, today);
+
+        return { success: true, removed };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error pausing program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Resume a paused program (trainer only)
+   * The rest of the program picks up on resume_date (default today), pushed
+   * back by the length of the pause. The athlete is notified of the move.
+   */
+  resumeProgram: trainerProcedure
+    .input(
+      z.object({
+        assignment_id: z.number(),
+        resume_date: dateSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const assignment = await getOwnedAssignment(ctx, input.assignment_id);
+
+        if (assignment.status !== 'paused') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only paused programs can be resumed',
+          });
+        }
+
+        const today = programToday();
+        const resumeDate = input.resume_date || today;
+
+        if (resumeDate < today) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A program cannot be resumed in the past',
+          });
+        }
+
+        const pausedDays = daysBetween(assignment.paused_on || today, resumeDate);
+        const offsetDays = assignment.offset_days + pausedDays;
+
+        const { error } = await ctx.supabase
+          .from('program_assignments')
+          .update({
+            status: 'active',
+            offset_days: offsetDays,
+            paused_on: null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', input.assignment_id);
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to resume program',
+          });
+        }
+
+        const workoutCount = await scheduleProgramWorkouts(
+          ctx.supabase,
+          { ...assignment, offset_days: offsetDays },
+          resumeDate
+        );
+
+        await notifyWorkoutsRescheduled(ctx.supabase, {
+          athlete_id: assignment.athlete_id,
+          program_assignment_id: assignment.id,
+          program_id: assignment.program_id,
+          days_moved: pausedDays,
+          workout_count: workoutCount,
+        });
+
+        return { success: true, offset_days: offsetDays, rescheduled: workoutCount };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error resuming program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * End a program (trainer only)
+   * Upcoming workouts are cancelled. The program is marked completed when
+   * nothing was left to cancel, otherwise ended early.
+   */
+  endProgram: trainerProcedure
+    .input(z.object({ assignment_id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const assignment = await getOwnedAssignment(ctx, input.assignment_id);
+
+        if (assignment.status !== 'active' && assignment.status !== 'paused') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This program has already finished',
+          });
+        }
+
+        const { data: cancelled, error: cancelError } = await ctx.supabase
+          .from('workout_assignments')
+          .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+          .eq('program_assignment_id', input.assignment_id)
+          .eq('status', 'pending')
+          .gte('scheduled_date', programToday())
+          .select('id');
+
+        if (cancelError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to cancel remaining workouts',
+          });
+        }
+
+        // A paused program always had workouts left
+        const status = cancelled.length > 0 || assignment.status === 'paused' ? 'ended' : 'completed';
+
+        const { data: updated, error } = await ctx.supabase
+          .from('program_assignments')
+          .update({
+            status,
+            paused_on: null,
+            ended_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', input.assignment_id)
+          .select()
+          .single();
+
+        if (error || !updated) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to end program',
+          });
+        }
+
+        return { ...updated, cancelled: cancelled.length };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error ending program:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+});
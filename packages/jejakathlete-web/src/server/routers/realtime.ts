@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { tracked, TRPCError } from '@trpc/server';
+import type { Notification, RealtimeChange } from '@jejakathlete/shared';
+import { router, protectedProcedure } from '../trpc';
+import { streamRealtimeEvents } from '../utils/realtime';
+import { parseNotificationData } from '../utils/notifications';
+
+/**
+ * Realtime Router
+ * Live changes for the signed-in user, streamed over server-sent events
+ */
+export const realtimeRouter = router({
+  /**
+   * Stream notification, enrollment and workout assignment changes
+   * Each change is tracked by its event id; on reconnect the client sends
+   * the last id it saw and receives everything after it. The connection is
+   * closed periodically by the server and reopened by the client.
+   */
+  onChange: protectedProcedure
+    .input(
+      z
+        .object({
+          lastEventId: z.string().regex(/^\d+$/).nullish(),
+        })
+        .optional()
+    )
+    .subscription(async function* ({ ctx, input, signal }) {
+      const cursor = input?.lastEventId ? Number(input.lastEventId) : null;
+
+      try {
+        for await (const events of streamRealtimeEvents(ctx.supabase, ctx.user.id, cursor, signal)) {
+          const notificationIds = events
+            .filter((event) => event.kind === 'notification' && event.action !== 'deleted')
+            .map((event) => event.entity_id);
+
+          const notifications = new Map<number, Notification>();
+
+          if (notificationIds.length > 0) {
+            const { data, error } = await ctx.supabase
+              .from('notifications')
+              .select('*')
+              .in('id', [...new Set(notificationIds)]);
+
+            if (error) {
+              console.error('Error fetching notifications for realtime events:', error);
+            }
+
+            for (const notification of data || []) {
+              notifications.set(notification.id, { ...notification, data: parseNotificationData(notification.data) });
+            }
+          }
+
+          for (const event of events) {
+            const change: RealtimeChange = {
+              kind: event.kind,
+              entity_id: event.entity_id,
+              action: event.action,
+              created_at: event.created_at,
+            };
+
+            const notification = event.kind === 'notification' ? notifications.get(event.entity_id) : undefined;
+            if (notification) {
+              change.notification = notification;
+            }
+
+            yield tracked(String(event.id), change);
+          }
+        }
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error streaming realtime events:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to stream realtime events',
+        });
+      }
+    }),
+});
@@ -0,0 +1,387 @@
+import { z } from 'zod';
+import { router, trainerProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserRole } from '@jejakathlete/shared';
+import { verifyTrainerAthleteAccess, isAdmin } from '../utils/authorization';
+import {
+  REPORT_RESULT_SELECT,
+  buildComponentBreakdown,
+  buildTrendSeries,
+  getRangeStartDate,
+  summarizeResults,
+  toReportResult,
+} from '../utils/reports';
+
+// Rows in the recent tests and best records lists of an athlete report
+const RECENT_TESTS_LIMIT = 10;
+const BEST_RECORDS_LIMIT = 8;
+
+interface AthleteDetails {
+  id: string;
+  full_name: string;
+  email: string;
+  avatar_url: string | null;
+  is_verified: boolean;
+  created_at: string;
+  sport: string;
+  level: string;
+}
+
+/**
+ * Fetch name, verification and sport details of athletes
+ * Email lives in auth.users and is not returned.
+ */
+async function getAthleteDetails(
+  supabase: SupabaseClient,
+  athleteIds: string[]
+): Promise<Map<string, AthleteDetails>> {
+  if (athleteIds.length === 0) return new Map();
+
+  const [{ data: users, error: usersError }, { data: athletes, error: athletesError }] = await Promise.all([
+    supabase
+      .from('users')
+      .select('id, full_name, avatar_url, is_verified, created_at')
+      .in('id', athleteIds),
+    supabase
+      .from('athletes')
+      .select('user_id, sport, level')
+      .in('user_id', athleteIds),
+  ]);
+
+  if (usersError || athletesError) {
+    console.error('❌ [reports] Error fetching athlete details:', usersError || athletesError);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch athlete details',
+    });
+  }
+
+  return new Map(
+    (users || []).map((user): [string, AthleteDetails] => {
+      const athlete = (athletes || []).find((row) => row.user_id === user.id);
+      return [
+        user.id,
+        {
+          id: user.id,
+          full_name: user.full_name || '',
+          email: '', // Email not available in public.users
+          avatar_url: user.avatar_url,
+          is_verified: !!user.is_verified,
+          created_at: user.created_at,
+          sport: athlete?.sport || '',
+          level: athlete?.level || 'beginner',
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Throw unless the trainer has an approved enrollment with the athlete
+ * Admins can report on any athlete.
+ */
+async function assertAthleteAccess(
+  ctx: { supabase: SupabaseClient; user: { id: string }; role: UserRole },
+  athleteId: string
+) {
+  if (isAdmin(ctx.role)) return;
+
+  const hasAccess = await verifyTrainerAthleteAccess(ctx.supabase, ctx.user.id, athleteId);
+
+  if (!hasAccess) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have access to this athlete\'s data',
+    });
+  }
+}
+
+/**
+ * Reports Router
+ * Aggregated fitness test reports on a trainer's athletes
+ */
+export const reportsRouter = router({
+  /**
+   * List the trainer's enrolled athletes with test totals
+   * Each athlete has total tests, best records and the last test date.
+   */
+  listAthleteSummaries: trainerProcedure.query(async ({ ctx }) => {
+    try {
+      const { data: enrollments, error: enrollmentError } = await ctx.supabase
+        .from('enrollments')
+        .select('athlete_id, requested_at')
+        .eq('trainer_id', ctx.user.id)
+        .eq('status', 'approved');
+
+      if (enrollmentError) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch athletes',
+        });
+      }
+
+      const athleteIds = enrollments.map((enrollment) => enrollment.athlete_id);
+      if (athleteIds.length === 0) return [];
+
+      const [details, { data: results, error: resultsError }] = await Promise.all([
+        getAthleteDetails(ctx.supabase, athleteIds),
+        ctx.supabase
+          .from('test_results')
+          .select('athlete_id, test_date, is_best_record')
+          .in('athlete_id', athleteIds),
+      ]);
+
+      if (resultsError) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch test results',
+        });
+      }
+
+      return enrollments
+        .filter((enrollment) => details.has(enrollment.athlete_id))
+        .map((enrollment) => {
+          const athleteResults = (results || []).filter((result) => result.athlete_id === enrollment.athlete_id);
+          const summary = summarizeResults(athleteResults);
+
+          return {
+            ...details.get(enrollment.athlete_id)!,
+            enrollment_date: enrollment.requested_at as string,
+            total_tests: summary.total_tests,
+            best_records: summary.best_records,
+            last_test_date: summary.last_test_date,
+          };
+        })
+        .sort((a, b) => a.full_name.localeCompare(b.full_name));
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error fetching athlete summaries:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * List pending enrollment requests with the athlete's sport and level
+   */
+  listEnrollmentRequests: trainerProcedure.query(async ({ ctx }) => {
+    try {
+      const { data: requests, error } = await ctx.supabase
+        .from('enrollments')
+        .select('id, athlete_id, status, requested_at, viewed_at')
+        .eq('trainer_id', ctx.user.id)
+        .eq('status', 'pending')
+        .order('requested_at', { ascending: false });
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch enrollment requests',
+        });
+      }
+
+      const details = await getAthleteDetails(ctx.supabase, requests.map((request) => request.athlete_id));
+
+      return requests.map((request) => {
+        const athlete = details.get(request.athlete_id);
+        return {
+          ...request,
+          athlete_name: athlete?.full_name || '',
+          athlete_email: '', // Email not available in public.users
+          athlete_sport: athlete?.sport || '',
+          athlete_level: athlete?.level || '',
+        };
+      });
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error fetching enrollment requests:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * Get an athlete's profile with their enrollment and latest tests
+   * Athletes with a pending request can be viewed so the trainer can review
+   * them; test results are only included once the enrollment is approved.
+   */
+  getAthleteProfile: trainerProcedure
+    .input(z.object({ athlete_id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data: enrollment } = await ctx.supabase
+          .from('enrollments')
+          .select('id, status, requested_at, notes')
+          .eq('trainer_id', ctx.user.id)
+          .eq('athlete_id', input.athlete_id)
+          .maybeSingle();
+
+        const hasAccess = isAdmin(ctx.role) ||
+          await verifyTrainerAthleteAccess(ctx.supabase, ctx.user.id, input.athlete_id);
+
+        if (!hasAccess && enrollment?.status !== 'pending') {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have access to this athlete\'s data',
+          });
+        }
+
+        const details = await getAthleteDetails(ctx.supabase, [input.athlete_id]);
+        const athlete = details.get(input.athlete_id);
+
+        if (!athlete) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Athlete not found',
+          });
+        }
+
+        let totalTests = 0;
+        let recentTests: ReturnType<typeof toReportResult>[] = [];
+
+        if (hasAccess) {
+          const { data: results, count, error } = await ctx.supabase
+            .from('test_results')
+            .select(REPORT_RESULT_SELECT, { count: 'exact' })
+            .eq('athlete_id', input.athlete_id)
+            .order('test_date', { ascending: false })
+            .order('created_at', { ascending: false })
+            .limit(5);
+
+          if (error) {
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: 'Failed to fetch test results',
+            });
+          }
+
+          totalTests = count ?? results.length;
+          recentTests = results.map(toReportResult);
+        }
+
+        return {
+          ...athlete,
+          enrollment_id: enrollment?.id ?? null,
+          enrollment_status: enrollment?.status ?? null,
+          enrollment_date: enrollment?.status === 'approved' ? enrollment.requested_at : null,
+          enrollment_notes: enrollment?.notes ?? null,
+          total_tests: totalTests,
+          recent_tests: recentTests,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error fetching athlete profile:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Get a test report for an enrolled athlete
+   * Summary counts, recent tests, the full test history, component breakdown
+   * and trend series cover the chosen range; best records are all time.
+   */
+  getAthleteReport: trainerProcedure
+    .input(
+      z.object({
+        athlete_id: z.string().uuid(),
+        range: z.enum(['7d', '30d', '90d', '1y', 'all']).default('all'),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await assertAthleteAccess(ctx, input.athlete_id);
+
+        const startDate = getRangeStartDate(input.range);
+
+        let historyQuery = ctx.supabase
+          .from('test_results')
+          .select(REPORT_RESULT_SELECT)
+          .eq('athlete_id', input.athlete_id)
+          .order('test_date', { ascending: false })
+          .order('created_at', { ascending: false });
+
+        if (startDate) {
+          historyQuery = historyQuery.gte('test_date', startDate);
+        }
+
+        const [details, { data: enrollment }, historyResult, bestResult] = await Promise.all([
+          getAthleteDetails(ctx.supabase, [input.athlete_id]),
+          ctx.supabase
+            .from('enrollments')
+            .select('requested_at, notes')
+            .eq('trainer_id', ctx.user.id)
+            .eq('athlete_id', input.athlete_id)
+            .maybeSingle(),
+          historyQuery,
+          ctx.supabase
+            .from('test_results')
+            .select(REPORT_RESULT_SELECT)
+            .eq('athlete_id', input.athlete_id)
+            .eq('is_best_record', true)
+            .order('test_date', { ascending: false })
+            .limit(BEST_RECORDS_LIMIT),
+        ]);
+
+        const athlete = details.get(input.athlete_id);
+
+        if (!athlete) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Athlete not found',
+          });
+        }
+
+        if (historyResult.error || bestResult.error) {
+          console.error('❌ [reports.getAthleteReport] Error fetching test results:', historyResult.error || bestResult.error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch test results',
+          });
+        }
+
+        const history = historyResult.data.map(toReportResult);
+
+        return {
+          athlete: {
+            ...athlete,
+            enrollment_date: enrollment?.requested_at ?? null,
+            enrollment_notes: enrollment?.notes ?? null,
+          },
+          range: input.range,
+          summary: summarizeResults(history),
+          recent_tests: history.slice(0, RECENT_TESTS_LIMIT),
+          best_records: bestResult.data.map(toReportResult),
+          history,
+          components: buildComponentBreakdown(history),
+          trends: buildTrendSeries(history),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error fetching athlete report:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+});
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type {
+  BodyMetric,
+  SyncSnapshot,
+  SyncTestResult,
+  SyncWorkoutAssignment,
+  WorkoutSessionProgress,
+  WorkoutTemplateWithExercises,
+} from '@jejakathlete/shared';
+import { applyExerciseTargets } from '../utils/progression';
+import { fetchAllPages, fetchAllPagesByIds } from '../utils/supabase';
+
+// Finished workouts older than this are left out of the offline snapshot
+const SYNC_HISTORY_DAYS = 90;
+
+/**
+ * Sync Router
+ * Snapshot of the signed-in user's data for the mobile app's offline store.
+ * Writes made offline are replayed to the regular procedures; this router
+ * only serves reads.
+ */
+export const syncRouter = router({
+  /**
+   * Get everything the mobile app mirrors locally
+   * Trainers get their workout templates; athletes get their workout
+   * assignments with session progress, test results and body metrics.
+   * server_time lets the client line up its clock with updated_at values
+   * when resolving conflicts.
+   */
+  pull: protectedProcedure
+    .input(
+      z.object({
+        history_days: z.number().int().min(1).max(365).default(SYNC_HISTORY_DAYS),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const serverTime = new Date().toISOString();
+        const snapshot: SyncSnapshot = {
+          server_time: serverTime,
+          workout_templates: [],
+          workout_assignments: [],
+          session_progress: [],
+          test_results: [],
+          body_metrics: [],
+        };
+
+        if (ctx.role === 'trainer') {
+          try {
+            snapshot.workout_templates = await fetchAllPages<WorkoutTemplateWithExercises>((from, to) =>
+              ctx.supabase
+                .from('workout_templates')
+                .select(`
+                  *,
+                  exercises:workout_exercises(
+                    *,
+                    exercise:exercises(*)
+                  )
+                `)
+                .eq('trainer_id', ctx.user.id)
+                .order('id', { ascending: true })
+                .range(from, to)
+            );
+          } catch (error) {
+            console.error('❌ [sync.pull] Failed to fetch workout templates:', error);
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: 'Failed to fetch workout templates',
+            });
+          }
+        }
+
+        if (ctx.role === 'athlete') {
+          const historyStart = new Date(Date.now() - (input?.history_days ?? SYNC_HISTORY_DAYS) * 24 * 60 * 60 * 1000)
+            .toISOString()
+            .slice(0, 10);
+
+          // Every query is paged so long histories aren't cut off by the
+          // response row limit
+          let assignmentRows: SyncWorkoutAssignment[];
+          try {
+            [assignmentRows, snapshot.test_results, snapshot.body_metrics] = await Promise.all([
+              fetchAllPages<SyncWorkoutAssignment>((from, to) =>
+                ctx.supabase
+                  .from('workout_assignments')
+                  .select(`
+                    *,
+                    workout_template:workout_templates(
+                      *,
+                      exercises:workout_exercises(
+                        *,
+                        exercise:exercises(*)
+                      )
+                    ),
+                    trainer:users!workout_assignments_trainer_id_fkey(id, full_name, avatar_url)
+                  `)
+                  .eq('athlete_id', ctx.user.id)
+                  .or(`scheduled_date.gte.${historyStart},status.in.(pending,in_progress)`)
+                  .order('id', { ascending: true })
+                  .range(from, to)
+              ),
+              fetchAllPages<SyncTestResult>((from, to) =>
+                ctx.supabase
+                  .from('test_results')
+                  .select(`
+                    *,
+                    test:tests (
+                      id,
+                      name,
+                      description,
+                      unit,
+                      improvement_direction,
+                      component_id,
+                      fitness_component:fitness_components (
+                        id,
+                        name,
+                        description
+                      )
+                    )
+                  `)
+                  .eq('athlete_id', ctx.user.id)
+                  .order('id', { ascending: true })
+                  .range(from, to)
+              ),
+              fetchAllPages<BodyMetric>((from, to) =>
+                ctx.supabase
+                  .from('athlete_body_metrics')
+                  .select('*')
+                  .eq('athlete_id', ctx.user.id)
+                  .order('id', { ascending: true })
+                  .range(from, to)
+              ),
+            ]);
+          } catch (error) {
+            console.error('❌ [sync.pull] Failed to fetch snapshot:', error);
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: 'Failed to fetch offline data',
+            });
+          }
+
+          snapshot.workout_assignments = await applyExerciseTargets(ctx.supabase, ctx.user.id, assignmentRows);
+
+          try {
+            snapshot.session_progress = await fetchAllPagesByIds<WorkoutSessionProgress, number>(
+              snapshot.workout_assignments.map((assignment) => assignment.id),
+              (assignmentIds, from, to) =>
+                ctx.supabase
+                  .from('workout_session_progress')
+                  .select('*')
+                  .in('workout_assignment_id', assignmentIds)
+                  .order('id', { ascending: true })
+                  .range(from, to)
+            );
+          } catch (error) {
+            console.error('❌ [sync.pull] Failed to fetch workout progress:', error);
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: 'Failed to fetch workout progress',
+            });
+          }
+        }
+
+        console.log('✅ [sync.pull] Snapshot ready:', {
+          templates: snapshot.workout_templates.length,
+          assignments: snapshot.workout_assignments.length,
+          progress: snapshot.session_progress.length,
+          test_results: snapshot.test_results.length,
+          body_metrics: snapshot.body_metrics.length,
+        });
+
+        return snapshot;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Unexpected error in sync.pull:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+});
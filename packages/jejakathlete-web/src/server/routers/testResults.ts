@@ -1,7 +1,87 @@
 import { z } from 'zod';
 import { router, publicProcedure, protectedProcedure, athleteProcedure, trainerProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { verifyTrainerAthleteAccess, isAdmin } from '../utils/authorization';
+import { insertTestResultWithRecordCheck } from '../utils/testResults';
+import { notifyUser } from '../utils/notifications';
+import { notifyTrainersOfPersonalRecords } from '../utils/domainNotifications';
+import { rateTestResults } from '../utils/norms';
+import { evaluateGoals } from '../utils/goals';
+import { evaluateAchievements } from '../utils/achievements';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import type { UserRole } from '@jejakathlete/shared';
+
+// Test result recorded by a trainer on behalf of an athlete
+// Results can be numeric, text only (e.g. a grade) or both
+const athleteTestResultSchema = z
+  .object({
+    athlete_id: z.string().uuid(),
+    test_id: z.number(),
+    result_value: z.number().nullable().optional(),
+    test_date: z.string(),
+    result_text: z.string().optional(),
+    input_unit: z.string().optional(),
+    notes: z.string().optional(),
+  })
+  .refine((result) => result.result_value != null || !!result.result_text?.trim(), {
+    message: 'A numeric or text result is required',
+    path: ['result_value'],
+  });
+
+/**
+ * Fetch test names keyed by test id for notification messages
+ */
+async function fetchTestNames(
+  supabase: SupabaseClient,
+  testIds: number[]
+): Promise<Map<number, string>> {
+  const { data } = await supabase
+    .from('tests')
+    .select('id, name')
+    .in('id', testIds);
+
+  return new Map((data || []).map((test) => [test.id, test.name]));
+}
+
+/**
+ * Rate test results by id after verifying the caller may view them
+ * Athletes can rate their own results, trainers their enrolled athletes' results
+ */
+async function rateResultsForUser(
+  ctx: { supabase: SupabaseClient; user: { id: string }; role: UserRole },
+  testResultIds: number[]
+) {
+  const { data: results, error } = await ctx.supabase
+    .from('test_results')
+    .select('id, athlete_id, test_id, result_value, test_date')
+    .in('id', testResultIds);
+
+  if (error) {
+    console.error('Error fetching test results for rating:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch test results',
+    });
+  }
+
+  if (!isAdmin(ctx.role)) {
+    const athleteIds = [...new Set(results.map((result) => result.athlete_id))];
+    for (const athlete_id of athleteIds) {
+      if (athlete_id === ctx.user.id) continue;
+
+      const hasAccess = await verifyTrainerAthleteAccess(ctx.supabase, ctx.user.id, athlete_id);
+      if (!hasAccess) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have access to this athlete\'s data',
+        });
+      }
+    }
+  }
+
+  return rateTestResults(ctx.supabase, results);
+}
 
 /**
  * Test Results Router
@@ -10,7 +90,8 @@ import { verifyTrainerAthleteAccess, isAdmin } from '../utils/authorization';
 export const testResultsRouter = router({
   /**
    * Record a new test result for an athlete
-   * Automatically detects and updates personal records
+   * Automatically detects and updates personal records; the athlete's
+   * trainers are notified of new ones
    */
   recordTestResult: athleteProcedure
     .input(
@@ -23,95 +104,190 @@ export const testResultsRouter = router({
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        // Get test information to determine improvement direction
-        const { data: test, error: testError } = await ctx.supabase
-          .from('tests')
-          .select('improvement_direction')
-          .eq('id', input.test_id)
-          .single();
+        const data = await insertTestResultWithRecordCheck(ctx.supabase, {
+          athlete_id: ctx.user.id,
+          test_id: input.test_id,
+          result_value: input.result_value,
+          test_date: input.test_date,
+          notes: input.notes,
+          recorded_by_user_id: ctx.user.id,
+        });
 
-        if (testError || !test) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Test not found',
-          });
+        if (data.is_best_record) {
+          await notifyTrainersOfPersonalRecords(ctx.supabase, ctx.user.id, [data]);
         }
 
-        // Get all previous results for this test and athlete
-        const { data: previousResults, error: previousError } = await ctx.supabase
-          .from('test_results')
-          .select('id, result_value, is_best_record')
-          .eq('athlete_id', ctx.user.id)
-          .eq('test_id', input.test_id);
+        await evaluateGoals(createSupabaseAdminClient(), ctx.user.id);
+        await evaluateAchievements(createSupabaseAdminClient(), ctx.user.id, 'test_result');
 
-        if (previousError) {
-          console.error('Error fetching previous test results:', previousError);
-          throw new TRPCError({
-            code: 'INTERNAL_SERVER_ERROR',
-            message: 'Failed to fetch previous test results',
-          });
+        return data;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
         }
+        console.error('Unexpected error in recordTestResult:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
 
-        // Determine if this is a new personal record
-        let isNewRecord = true;
-        if (previousResults && previousResults.length > 0) {
-          const bestPrevious = previousResults.reduce((best, current) => {
-            if (test.improvement_direction === 'higher') {
-              return current.result_value > best.result_value ? current : best;
-            } else {
-              return current.result_value < best.result_value ? current : best;
-            }
-          });
+  /**
+   * Record a test result on behalf of an athlete (trainer access)
+   * Requires approved enrollment between trainer and athlete
+   * Detects personal records and notifies the athlete
+   */
+  recordAthleteTestResult: trainerProcedure
+    .input(athleteTestResultSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // Verify trainer has access to this athlete
+        if (!isAdmin(ctx.role)) {
+          const hasAccess = await verifyTrainerAthleteAccess(
+            ctx.supabase,
+            ctx.user.id,
+            input.athlete_id
+          );
 
-          if (test.improvement_direction === 'higher') {
-            isNewRecord = input.result_value > bestPrevious.result_value;
-          } else {
-            isNewRecord = input.result_value < bestPrevious.result_value;
+          if (!hasAccess) {
+            throw new TRPCError({
+              code: 'FORBIDDEN',
+              message: 'You do not have access to this athlete\'s data',
+            });
           }
+        }
+
+        const data = await insertTestResultWithRecordCheck(ctx.supabase, {
+          ...input,
+          result_value: input.result_value ?? null,
+          recorded_by_user_id: ctx.user.id,
+        });
+
+        const testNames = await fetchTestNames(ctx.supabase, [input.test_id]);
+        const testName = testNames.get(input.test_id) || 'a fitness test';
+
+        await notifyUser({
+          user_id: input.athlete_id,
+          type: data.is_best_record ? 'personal_record' : 'test_result',
+          title: data.is_best_record ? 'New Personal Record! 🏆' : 'New Test Result',
+          message: data.is_best_record
+            ? `Your trainer recorded a new personal best in ${testName}`
+            : `Your trainer recorded a new result in ${testName}`,
+          data: {
+            target: { screen: 'test_results', test_result_ids: [data.id] },
+            athlete_id: input.athlete_id,
+            test_result_ids: [data.id],
+          },
+        });
+
+        await evaluateGoals(createSupabaseAdminClient(), input.athlete_id);
+        await evaluateAchievements(createSupabaseAdminClient(), input.athlete_id, 'test_result');
+
+        return data;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in recordAthleteTestResult:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Record multiple test results in one request (trainer access)
+   * Used for testing days where a trainer logs results for several athletes
+   * Results are recorded in order so personal records within the batch are detected
+   * Each athlete receives a single summary notification
+   */
+  recordAthleteTestResultsBatch: trainerProcedure
+    .input(
+      z.object({
+        results: z.array(athleteTestResultSchema).min(1, 'At least one result is required').max(100),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const athleteIds = [...new Set(input.results.map((result) => result.athlete_id))];
 
-          // If this is a new record, update all previous records to not be best
-          if (isNewRecord) {
-            const { error: updateError } = await ctx.supabase
-              .from('test_results')
-              .update({ is_best_record: false })
-              .eq('athlete_id', ctx.user.id)
-              .eq('test_id', input.test_id);
-
-            if (updateError) {
-              console.error('Error updating previous records:', updateError);
-              // Continue anyway - this is not critical
+        // Verify trainer has access to every athlete before recording anything
+        if (!isAdmin(ctx.role)) {
+          for (const athlete_id of athleteIds) {
+            const hasAccess = await verifyTrainerAthleteAccess(
+              ctx.supabase,
+              ctx.user.id,
+              athlete_id
+            );
+
+            if (!hasAccess) {
+              throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: `You do not have access to athlete ${athlete_id}`,
+              });
             }
           }
         }
 
-        // Insert the new test result
-        const { data, error } = await ctx.supabase
-          .from('test_results')
-          .insert({
-            athlete_id: ctx.user.id,
-            test_id: input.test_id,
-            result_value: input.result_value,
-            test_date: input.test_date,
-            notes: input.notes ?? null,
-            is_best_record: isNewRecord,
-          })
-          .select()
-          .single();
+        const recorded: Awaited<ReturnType<typeof insertTestResultWithRecordCheck>>[] = [];
+        const failed: { index: number; message: string }[] = [];
 
-        if (error) {
-          console.error('Error recording test result:', error);
-          throw new TRPCError({
-            code: 'INTERNAL_SERVER_ERROR',
-            message: 'Failed to record test result',
+        for (const [index, result] of input.results.entries()) {
+          try {
+            const data = await insertTestResultWithRecordCheck(ctx.supabase, {
+              ...result,
+              result_value: result.result_value ?? null,
+              recorded_by_user_id: ctx.user.id,
+            });
+            recorded.push(data);
+          } catch (error) {
+            failed.push({
+              index,
+              message: error instanceof TRPCError ? error.message : 'Failed to record test result',
+            });
+          }
+        }
+
+        // Notify each athlete once with a summary of their recorded results
+        for (const athlete_id of athleteIds) {
+          const athleteResults = recorded.filter((result) => result.athlete_id === athlete_id);
+          if (athleteResults.length === 0) continue;
+
+          const recordCount = athleteResults.filter((result) => result.is_best_record).length;
+
+          const testResultIds = athleteResults.map((result) => result.id);
+
+          await notifyUser({
+            user_id: athlete_id,
+            type: recordCount > 0 ? 'personal_record' : 'test_result',
+            title: recordCount > 0 ? 'New Personal Record! 🏆' : 'New Test Results',
+            message:
+              `Your trainer recorded ${athleteResults.length} test result${athleteResults.length === 1 ? '' : 's'}` +
+              (recordCount > 0
+                ? ` including ${recordCount} personal best${recordCount === 1 ? '' : 's'}`
+                : ''),
+            data: {
+              target: { screen: 'test_results', test_result_ids: testResultIds },
+              athlete_id,
+              test_result_ids: testResultIds,
+            },
           });
+
+          await evaluateGoals(createSupabaseAdminClient(), athlete_id);
+          await evaluateAchievements(createSupabaseAdminClient(), athlete_id, 'test_result');
         }
 
-        return data;
+        return {
+          recorded,
+          failed,
+        };
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
         }
-        console.error('Unexpected error in recordTestResult:', error);
+        console.error('Unexpected error in recordAthleteTestResultsBatch:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'An unexpected error occurred',
@@ -279,6 +455,108 @@ export const testResultsRouter = router({
       }
     }),
 
+  /**
+   * Get the normative rating for a single test result
+   * Returns the percentile and rating category from the best matching norm
+   */
+  getResultRating: protectedProcedure
+    .input(
+      z.object({
+        test_result_id: z.number(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const [rating] = await rateResultsForUser(ctx, [input.test_result_id]);
+
+        if (!rating) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Test result not found',
+          });
+        }
+
+        return rating;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getResultRating:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Get normative ratings for multiple test results
+   * Results without a matching norm are returned with a null rating
+   */
+  getResultRatings: protectedProcedure
+    .input(
+      z.object({
+        test_result_ids: z.array(z.number()).max(500),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        if (input.test_result_ids.length === 0) {
+          return [];
+        }
+
+        return await rateResultsForUser(ctx, input.test_result_ids);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getResultRatings:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Get norm tables for a test (public)
+   * Used to show how results compare to the reference population
+   */
+  getTestNorms: publicProcedure
+    .input(
+      z.object({
+        test_id: z.number(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from('test_norms')
+          .select('*')
+          .eq('test_id', input.test_id)
+          .order('age_min', { ascending: true, nullsFirst: true });
+
+        if (error) {
+          console.error('Error fetching test norms:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch test norms',
+          });
+        }
+
+        return data;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Unexpected error in getTestNorms:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
   /**
    * Get all fitness components (public)
    * Used for categorizing tests
@@ -311,6 +589,38 @@ export const testResultsRouter = router({
     }
   }),
 
+  /**
+   * Get all tests (public)
+   * Used for the test catalogue when recording results
+   */
+  getTests: publicProcedure.query(async ({ ctx }) => {
+    try {
+      const { data, error } = await ctx.supabase
+        .from('tests')
+        .select('*')
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching tests:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch tests',
+        });
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      console.error('Unexpected error in getTests:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
   /**
    * Get all tests for a specific fitness component (public)
    * Used for selecting tests to perform
@@ -326,7 +636,7 @@ export const testResultsRouter = router({
         const { data, error } = await ctx.supabase
           .from('tests')
           .select('*')
-          .eq('fitness_component_id', input.fitness_component_id)
+          .eq('component_id', input.fitness_component_id)
           .order('name');
 
         if (error) {
@@ -0,0 +1,299 @@
+import { z } from 'zod';
+import { router, trainerProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import {
+  DOCUMENT_CONTENT_TYPES,
+  MAX_DOCUMENT_BYTES,
+  TRAINER_DOCUMENTS_BUCKET,
+  getDocumentPath,
+  isAwaitingReview,
+  withDocumentUrls,
+} from '../utils/trainerVerification';
+
+const TRAINER_VERIFICATION_SELECT =
+  'user_id, certification_id, verification_status, verification_submitted_at, verification_reviewed_at, verification_reason';
+
+/**
+ * Fetch the signed-in trainer's verification fields
+ */
+async function getTrainer(supabase: SupabaseClient, userId: string) {
+  const { data: trainer, error } = await supabase
+    .from('trainers')
+    .select(TRAINER_VERIFICATION_SELECT)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !trainer) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Trainer profile not found',
+    });
+  }
+
+  return trainer;
+}
+
+/**
+ * Verification Router
+ * Trainers upload certification documents and submit them for admin review
+ */
+export const verificationRouter = router({
+  /**
+   * Get the trainer's verification status, last decision and documents
+   */
+  getMyVerification: trainerProcedure.query(async ({ ctx }) => {
+    try {
+      const trainer = await getTrainer(ctx.supabase, ctx.user.id);
+
+      const { data: documents, error } = await ctx.supabase
+        .from('trainer_documents')
+        .select('*')
+        .eq('trainer_id', ctx.user.id)
+        .order('uploaded_at', { ascending: false });
+
+      if (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch verification documents',
+        });
+      }
+
+      return {
+        ...trainer,
+        awaiting_review: isAwaitingReview(trainer),
+        documents: await withDocumentUrls(ctx.supabase, documents || []),
+      };
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
+      console.error('Error fetching verification:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    }
+  }),
+
+  /**
+   * Upload a certification document
+   * Accepts a base64 encoded PDF, JPEG or PNG. Documents can't be changed
+   * while a submission is under review or once the trainer is approved.
+   */
+  uploadDocument: trainerProcedure
+    .input(
+      z.object({
+        file: z.string(), // base64 encoded file
+        filename: z.string().min(1),
+        content_type: z.enum(DOCUMENT_CONTENT_TYPES),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const trainer = await getTrainer(ctx.supabase, ctx.user.id);
+
+        if (trainer.verification_status === 'approved' || isAwaitingReview(trainer)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: trainer.verification_status === 'approved'
+              ? 'Your account is already verified'
+              : 'Documents can\'t be changed while your submission is under review',
+          });
+        }
+
+        const base64Data = input.file.replace(/^data:[\w/+.-]+;base64,/, '');
+        const buffer = Buffer.from(base64Data, 'base64');
+
+        if (buffer.length === 0 || buffer.length > MAX_DOCUMENT_BYTES) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Documents must be between 1 byte and ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`,
+          });
+        }
+
+        const filePath = getDocumentPath(ctx.user.id, input.filename);
+
+        const { error: uploadError } = await ctx.supabase.storage
+          .from(TRAINER_DOCUMENTS_BUCKET)
+          .upload(filePath, buffer, { contentType: input.content_type });
+
+        if (uploadError) {
+          console.error('❌ [verification.uploadDocument] Upload failed:', uploadError);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to upload document',
+          });
+        }
+
+        const { data: document, error: insertError } = await ctx.supabase
+          .from('trainer_documents')
+          .insert({
+            trainer_id: ctx.user.id,
+            certification_id: trainer.certification_id,
+            file_path: filePath,
+            file_name: input.filename,
+            content_type: input.content_type,
+          })
+          .select()
+          .single();
+
+        if (insertError) {
+          await ctx.supabase.storage.from(TRAINER_DOCUMENTS_BUCKET).remove([filePath]);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to save document',
+          });
+        }
+
+        return document;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error uploading verification document:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Delete a certification document
+   */
+  deleteDocument: trainerProcedure
+    .input(z.object({ document_id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const trainer = await getTrainer(ctx.supabase, ctx.user.id);
+
+        if (isAwaitingReview(trainer)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Documents can\'t be changed while your submission is under review',
+          });
+        }
+
+        const { data: document, error: fetchError } = await ctx.supabase
+          .from('trainer_documents')
+          .select('id, file_path')
+          .eq('id', input.document_id)
+          .eq('trainer_id', ctx.user.id)
+          .single();
+
+        if (fetchError || !document) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Document not found',
+          });
+        }
+
+        const { error: deleteError } = await ctx.supabase
+          .from('trainer_documents')
+          .delete()
+          .eq('id', document.id);
+
+        if (deleteError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to delete document',
+          });
+        }
+
+        await ctx.supabase.storage.from(TRAINER_DOCUMENTS_BUCKET).remove([document.file_path]);
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error deleting verification document:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Submit documents for review, or resubmit after a rejection
+   * Sets the trainer back to pending and clears the last rejection reason.
+   */
+  submitForVerification: trainerProcedure
+    .input(
+      z.object({
+        certification_id: z.string().trim().min(1, 'Certification ID is required'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const trainer = await getTrainer(ctx.supabase, ctx.user.id);
+
+        if (trainer.verification_status === 'approved') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Your account is already verified',
+          });
+        }
+
+        if (isAwaitingReview(trainer)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Your submission is already under review',
+          });
+        }
+
+        const { count } = await ctx.supabase
+          .from('trainer_documents')
+          .select('id', { count: 'exact', head: true })
+          .eq('trainer_id', ctx.user.id);
+
+        if (!count) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Upload at least one certification document first',
+          });
+        }
+
+        // Verification fields are only writable with the service role
+        const { data: updatedTrainer, error: updateError } = await createSupabaseAdminClient()
+          .from('trainers')
+          .update({
+            certification_id: input.certification_id,
+            verification_status: 'pending',
+            verification_submitted_at: new Date().toISOString(),
+            verification_reason: null,
+          })
+          .eq('user_id', ctx.user.id)
+          .select(TRAINER_VERIFICATION_SELECT)
+          .single();
+
+        if (updateError) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to submit for verification',
+          });
+        }
+
+        return {
+          ...updatedTrainer,
+          awaiting_review: true,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error submitting for verification:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+});
@@ -2,40 +2,47 @@ import { z } from 'zod';
 import { router, trainerProcedure, athleteProcedure, publicProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
 import { verifyTrainerAthleteAccess } from '../utils/authorization';
+import { applyExerciseTargets, runProgressionRules } from '../utils/progression';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import { notifyWorkoutCompleted, notifyWorkoutsAssigned } from '../utils/domainNotifications';
+import { evaluateGoals } from '../utils/goals';
+import { evaluateAchievements } from '../utils/achievements';
 
 // ============================================================================
 // Input Schemas
 // ============================================================================
 
+const templateExerciseSchema = z.object({
+  exercise_id: z.number(),
+  order_index: z.number(),
+  sets: z.number().min(1),
+  // Bottom of the rep range for double progression
+  reps: z.number().min(1),
+  rest_time: z.number().min(0),
+  notes: z.string().optional(),
+  // Progressive overload rule
+  target_weight: z.number().min(0).nullable().optional(),
+  progression_type: z.enum(['none', 'linear', 'double']).default('none'),
+  weight_increment: z.number().positive().nullable().optional(),
+  rep_range_max: z.number().min(1).nullable().optional(),
+  deload_after_misses: z.number().int().min(1).nullable().optional(),
+  deload_percent: z.number().min(1).max(50).nullable().optional(),
+}).refine(
+  (exercise) => exercise.progression_type !== 'double' || (exercise.rep_range_max ?? 0) > exercise.reps,
+  { message: 'Double progression needs a rep range above the starting reps', path: ['rep_range_max'] }
+);
+
 const createTemplateSchema = z.object({
   name: z.string().min(1, 'Template name is required'),
   description: z.string().optional(),
-  exercises: z.array(
-    z.object({
-      exercise_id: z.number(),
-      order_index: z.number(),
-      sets: z.number().min(1),
-      reps: z.number().min(1),
-      rest_time: z.number().min(0),
-      notes: z.string().optional(),
-    })
-  ).min(1, 'At least one exercise is required'),
+  exercises: z.array(templateExerciseSchema).min(1, 'At least one exercise is required'),
 });
 
 const updateTemplateSchema = z.object({
   template_id: z.number(),
   name: z.string().min(1).optional(),
   description: z.string().optional(),
-  exercises: z.array(
-    z.object({
-      exercise_id: z.number(),
-      order_index: z.number(),
-      sets: z.number().min(1),
-      reps: z.number().min(1),
-      rest_time: z.number().min(0),
-      notes: z.string().optional(),
-    })
-  ).optional(),
+  exercises: z.array(templateExerciseSchema).optional(),
 });
 
 const assignWorkoutSchema = z.object({
@@ -85,6 +92,12 @@ export const workoutsRouter = router({
           reps: exercise.reps,
           rest_time: exercise.rest_time,
           notes: exercise.notes || null,
+          target_weight: exercise.target_weight ?? null,
+          progression_type: exercise.progression_type,
+          weight_increment: exercise.weight_increment ?? null,
+          rep_range_max: exercise.rep_range_max ?? null,
+          deload_after_misses: exercise.deload_after_misses ?? null,
+          deload_percent: exercise.deload_percent ?? null,
         }));
 
         const { error: exercisesError } = await ctx.supabase
@@ -255,6 +268,12 @@ export const workoutsRouter = router({
             reps: exercise.reps,
             rest_time: exercise.rest_time,
             notes: exercise.notes || null,
+            target_weight: exercise.target_weight ?? null,
+            progression_type: exercise.progression_type,
+            weight_increment: exercise.weight_increment ?? null,
+            rep_range_max: exercise.rep_range_max ?? null,
+            deload_after_misses: exercise.deload_after_misses ?? null,
+            deload_percent: exercise.deload_percent ?? null,
           }));
 
           const { error: insertError } = await ctx.supabase
@@ -366,6 +385,7 @@ export const workoutsRouter = router({
 
   /**
    * Assign a workout template to an athlete
+   * The athlete is notified of the new workout
    * Requirements: 7.3
    */
   assignWorkout: trainerProcedure
@@ -451,6 +471,16 @@ export const workoutsRouter = router({
         }
 
         console.log('✅ [assignWorkout] Workout assigned successfully:', assignment.id);
+
+        await notifyWorkoutsAssigned(ctx.supabase, {
+          athlete_id: input.athlete_id,
+          trainer_id: ctx.user.id,
+          name: assignment.workout_template?.name || 'a workout',
+          workout_assignment_ids: [assignment.id],
+          program_assignment_id: null,
+          dates: [input.scheduled_date],
+        });
+
         return assignment;
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -564,6 +594,8 @@ export const workoutsRouter = router({
 
         console.log('✅ [getMyWorkouts] Found', assignments.length, 'workout assignments');
 
+        await applyExerciseTargets(ctx.supabase, ctx.user.id, assignments);
+
         // Calculate completion percentage for each assignment
         const assignmentsWithProgress = await Promise.all(
           assignments.map(async (assignment: any) => {
@@ -671,6 +703,8 @@ export const workoutsRouter = router({
           );
         }
 
+        await applyExerciseTargets(ctx.supabase, ctx.user.id, [assignment]);
+
         // Calculate completion percentage
         const totalSets = assignment.workout_template?.exercises?.reduce(
           (sum: number, ex: any) => sum + ex.sets,
@@ -739,6 +773,7 @@ export const workoutsRouter = router({
           .update({
             status: 'in_progress',
             started_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
           })
           .eq('id', input.assignment_id)
           .select()
@@ -825,6 +860,7 @@ export const workoutsRouter = router({
               weight_used: input.weight_used || null,
               notes: input.notes || null,
               completed_at: input.completed ? new Date().toISOString() : null,
+              updated_at: new Date().toISOString(),
             })
             .eq('id', existingProgress.id)
             .select()
@@ -872,6 +908,7 @@ export const workoutsRouter = router({
             .update({
               status: 'in_progress',
               started_at: new Date().toISOString(),
+              updated_at: new Date().toISOString(),
             })
             .eq('id', input.assignment_id);
         }
@@ -892,6 +929,8 @@ export const workoutsRouter = router({
 
   /**
    * Finish a workout (change status to completed)
+   * Runs the template's progression rules against the logged sets and
+   * notifies the trainer
    * Requirements: 8.3
    */
   finishWorkout: athleteProcedure
@@ -901,7 +940,7 @@ export const workoutsRouter = router({
         // Verify ownership and current status
         const { data: assignment, error: fetchError } = await ctx.supabase
           .from('workout_assignments')
-          .select('athlete_id, status')
+          .select('athlete_id, trainer_id, status, workout_template_id')
           .eq('id', input.assignment_id)
           .single();
 
@@ -932,6 +971,7 @@ export const workoutsRouter = router({
           .update({
             status: 'completed',
             completed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
             // Set started_at if it wasn't set (in case they finish without explicitly starting)
             started_at: assignment.status === 'pending' ? new Date().toISOString() : undefined,
           })
@@ -946,7 +986,27 @@ export const workoutsRouter = router({
           });
         }
 
-        return updatedAssignment;
+        // Set the athlete's targets for the next assignment of this template
+        const progression = await runProgressionRules(createSupabaseAdminClient(), {
+          id: input.assignment_id,
+          athlete_id: ctx.user.id,
+          workout_template_id: assignment.workout_template_id,
+        });
+
+        await notifyWorkoutCompleted(ctx.supabase, {
+          id: input.assignment_id,
+          athlete_id: ctx.user.id,
+          trainer_id: assignment.trainer_id,
+          workout_template_id: assignment.workout_template_id,
+        });
+
+        await evaluateGoals(createSupabaseAdminClient(), ctx.user.id);
+        await evaluateAchievements(createSupabaseAdminClient(), ctx.user.id, 'workout_completed');
+
+        return {
+          ...updatedAssignment,
+          progression,
+        };
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
@@ -960,6 +1020,72 @@ export const workoutsRouter = router({
       }
     }),
 
+  /**
+   * Skip a workout the athlete hasn't finished (change status to skipped)
+   */
+  skipWorkout: athleteProcedure
+    .input(z.object({ assignment_id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // Verify ownership and current status
+        const { data: assignment, error: fetchError } = await ctx.supabase
+          .from('workout_assignments')
+          .select('athlete_id, status')
+          .eq('id', input.assignment_id)
+          .single();
+
+        if (fetchError || !assignment) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Workout assignment not found',
+          });
+        }
+
+        if (assignment.athlete_id !== ctx.user.id) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You can only skip your own workouts',
+          });
+        }
+
+        if (assignment.status !== 'pending' && assignment.status !== 'in_progress') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only pending or in-progress workouts can be skipped',
+          });
+        }
+
+        const { data: updatedAssignment, error: updateError } = await ctx.supabase
+          .from('workout_assignments')
+          .update({
+            status: 'skipped',
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', input.assignment_id)
+          .select()
+          .single();
+
+        if (updateError || !updatedAssignment) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to skip workout',
+          });
+        }
+
+        return updatedAssignment;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error skipping workout:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
   /**
    * Get workout assignments for athletes enrolled with the trainer
    * Requirements: 8.5
@@ -1063,4 +1189,155 @@ export const workoutsRouter = router({
         });
       }
     }),
+
+  /**
+   * Get an athlete's progression targets for the trainer's templates
+   */
+  getAthleteTargets: trainerProcedure
+    .input(
+      z.object({
+        athlete_id: z.string(),
+        template_id: z.number().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const hasAccess = await verifyTrainerAthleteAccess(
+          ctx.supabase,
+          ctx.user.id,
+          input.athlete_id
+        );
+
+        if (!hasAccess) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You can only view targets for your enrolled athletes',
+          });
+        }
+
+        let query = ctx.supabase
+          .from('athlete_exercise_targets')
+          .select(`
+            *,
+            exercise:exercises(id, name, muscle_group),
+            workout_template:workout_templates!inner(id, name, trainer_id)
+          `)
+          .eq('athlete_id', input.athlete_id)
+          .eq('workout_template.trainer_id', ctx.user.id)
+          .order('updated_at', { ascending: false });
+
+        if (input.template_id) {
+          query = query.eq('workout_template_id', input.template_id);
+        }
+
+        const { data: targets, error } = await query;
+
+        if (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to fetch exercise targets',
+          });
+        }
+
+        return targets;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error fetching exercise targets:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
+
+  /**
+   * Override an athlete's target for an exercise in one of the trainer's
+   * templates; progression continues from the new target
+   */
+  setAthleteTarget: trainerProcedure
+    .input(
+      z.object({
+        athlete_id: z.string(),
+        template_id: z.number(),
+        exercise_id: z.number(),
+        target_weight: z.number().min(0).nullable(),
+        target_reps: z.number().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data: template, error: templateError } = await ctx.supabase
+          .from('workout_templates')
+          .select('trainer_id')
+          .eq('id', input.template_id)
+          .single();
+
+        if (templateError || !template) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Workout template not found',
+          });
+        }
+
+        if (template.trainer_id !== ctx.user.id) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You can only set targets for your own templates',
+          });
+        }
+
+        const hasAccess = await verifyTrainerAthleteAccess(
+          ctx.supabase,
+          ctx.user.id,
+          input.athlete_id
+        );
+
+        if (!hasAccess) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You can only set targets for your enrolled athletes',
+          });
+        }
+
+        const { data: target, error } = await ctx.supabase
+          .from('athlete_exercise_targets')
+          .upsert(
+            {
+              athlete_id: input.athlete_id,
+              workout_template_id: input.template_id,
+              exercise_id: input.exercise_id,
+              target_weight: input.target_weight,
+              target_reps: input.target_reps,
+              consecutive_misses: 0,
+              last_outcome: 'manual',
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: 'athlete_id,workout_template_id,exercise_id' }
+          )
+          .select()
+          .single();
+
+        if (error || !target) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to save exercise target',
+          });
+        }
+
+        return target;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error('Error setting exercise target:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        });
+      }
+    }),
 });
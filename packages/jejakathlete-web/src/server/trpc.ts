@@ -1,6 +1,6 @@
 import { initTRPC, TRPCError } from '@trpc/server';
 import superjson from 'superjson';
-import { createSupabaseServerClient } from '@/lib/supabase-server';
+import { createSupabaseServerClient } from '../lib/supabase-server';
 import { createClient } from '@supabase/supabase-js';
 import type { SupabaseClient, User } from '@supabase/supabase-js';
 import type { UserRole } from '@jejakathlete/shared';
@@ -10,6 +10,17 @@ export interface Context {
   supabase: SupabaseClient;
   user: User | null;
   role?: UserRole;
+  // When the user asked for their account to be deleted; null if active
+  deactivatedAt?: string | null;
+  // Client IP from proxy headers, recorded in the audit log
+  ip: string | null;
+}
+
+// First address in x-forwarded-for, falling back to x-real-ip
+function getClientIp(req?: Request): string | null {
+  const forwarded = req?.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim() || null;
+  return req?.headers.get('x-real-ip') || null;
 }
 
 // Create context for each request
@@ -51,6 +62,7 @@ export async function createContext(opts?: { req?: Request }): Promise<Context>
     return {
       supabase,
       user,
+      ip: getClientIp(opts?.req),
     };
   }
 
@@ -66,20 +78,35 @@ export async function createContext(opts?: { req?: Request }): Promise<Context>
   return {
     supabase,
     user,
+    ip: getClientIp(opts?.req),
   };
 }
 
 // Initialize tRPC
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Subscriptions stream over server-sent events. Streams end before the
+  // serverless time limit and the client reconnects from its last event id.
+  sse: {
+    maxDurationMs: 55_000,
+    ping: {
+      enabled: true,
+      intervalMs: 15_000,
+    },
+    client: {
+      reconnectAfterInactivityMs: 30_000,
+    },
+  },
 });
 
 // Base procedures
 export const router = t.router;
 export const publicProcedure = t.procedure;
 
-// Protected procedure - requires authenticated user and fetches role
-export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+// Authenticated procedure - requires authenticated user and fetches role
+// Deactivated accounts are let through; only use it for procedures that
+// check or cancel a pending account deletion
+export const authenticatedProcedure = t.procedure.use(async ({ ctx, next }) => {
   if (!ctx.user) {
     throw new TRPCError({
       code: 'UNAUTHORIZED',
@@ -90,7 +117,7 @@ export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
   // Fetch user role from database
   const { data: userData, error } = await ctx.supabase
     .from('users')
-    .select('role')
+    .select('role, deactivated_at')
     .eq('id', ctx.user.id)
     .single();
 
@@ -106,10 +133,24 @@ export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
       ...ctx,
       user: ctx.user,
       role: userData.role as UserRole,
+      deactivatedAt: (userData.deactivated_at as string | null) ?? null,
     },
   });
 });
 
+// Protected procedure - requires an authenticated user whose account isn't
+// pending deletion
+export const protectedProcedure = authenticatedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.deactivatedAt) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'This account is scheduled for deletion',
+    });
+  }
+
+  return next({ ctx });
+});
+
 // Trainer-only procedure - requires trainer or admin role
 export const trainerProcedure = protectedProcedure.use(async ({ ctx, next }) => {
   if (ctx.role !== 'trainer' && ctx.role !== 'admin' && ctx.role !== 'rekabytes-admin') {
@@ -143,3 +184,20 @@ export const athleteProcedure = protectedProcedure.use(async ({ ctx, next }) =>
     },
   });
 });
+
+// Admin-only procedure - requires admin or rekabytes-admin role
+export const adminProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.role !== 'admin' && ctx.role !== 'rekabytes-admin') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'This action requires admin privileges',
+    });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      role: ctx.role,
+    },
+  });
+});
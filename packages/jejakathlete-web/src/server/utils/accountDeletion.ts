@@ -0,0 +1,363 @@
+/**
+ * Account Deletion Utilities for tRPC Server
+ *
+ * Self-service account deletion with a grace period. Requesting deletion
+ * deactivates the account straight away; the user can cancel until the
+ * request is due, after which the scheduler deletes the auth user and the
+ * rest of their data goes with it through the foreign key cascades.
+ *
+ * A trainer's content that athletes still use is handled before the delete:
+ * - Transfer: templates, programs, assignments, events and approved athletes
+ *   move to the trainer chosen when the request was made.
+ * - Anonymise (no recipient): upcoming workouts and events are cancelled;
+ *   workout history and past events with participants are kept without an
+ *   owner, and everything else the trainer created is deleted.
+ *
+ * Deletions run with the service role client, so every query here filters
+ * by the user explicitly.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AccountDeletion } from '@jejakathlete/shared';
+import { recordAudit } from './audit';
+import { DATA_EXPORTS_BUCKET } from './dataExport';
+import { getActiveParticipantIds, notifyEventUpdated } from './domainNotifications';
+import {
+  formatEventTime,
+  formatRecurrenceRule,
+  normalizeEventTime,
+  parseRecurrenceRule,
+} from './recurrence';
+
+// How long a user can cancel a deletion request
+export const ACCOUNT_DELETION_GRACE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Accounts deleted per scheduler run
+const ACCOUNT_DELETION_BATCH_SIZE = 10;
+
+// Buckets holding files under a {user_id}/ folder
+const USER_FILE_BUCKETS = ['avatars', 'trainer-documents', DATA_EXPORTS_BUCKET];
+
+// Rows a trainer owns that move to the recipient on transfer
+const TRAINER_OWNED_TABLES = [
+  { table: 'workout_templates', column: 'trainer_id' },
+  { table: 'training_programs', column: 'trainer_id' },
+  { table: 'program_assignments', column: 'trainer_id' },
+  { table: 'workout_assignments', column: 'trainer_id' },
+  { table: 'events', column: 'created_by_user_id' },
+];
+
+/**
+ * Throw with a message naming the step that failed
+ */
+function assertOk(step: string, error: unknown) {
+  if (error) {
+    console.error(`Error deleting account (${step}):`, error);
+    throw new Error(`Failed to ${step}`);
+  }
+}
+
+/**
+ * Deactivate an account while its deletion is pending
+ * Push devices are removed so nothing is delivered to the account meanwhile;
+ * they're registered again when the app next signs in.
+ */
+export async function deactivateAccount(supabase: SupabaseClient, userId: string, now: Date = new Date()) {
+  const { error } = await supabase
+    .from('users')
+    .update({ deactivated_at: now.toISOString() })
+    .eq('id', userId);
+
+  assertOk('deactivate account', error);
+
+  const { error: devicesError } = await supabase.from('push_devices').delete().eq('user_id', userId);
+
+  if (devicesError) {
+    console.error('Error removing push devices of deactivated account:', devicesError);
+  }
+}
+
+/**
+ * Reactivate an account after its deletion was cancelled
+ */
+export async function reactivateAccount(supabase: SupabaseClient, userId: string) {
+  const { error } = await supabase
+    .from('users')
+    .update({ deactivated_at: null })
+    .eq('id', userId);
+
+  assertOk('reactivate account', error);
+}
+
+/**
+ * Whether a user can receive a deleting trainer's content: an active trainer
+ * other than the one being deleted
+ */
+export async function isTransferRecipient(
+  supabase: SupabaseClient,
+  trainerId: string,
+  recipientId: string
+): Promise<boolean> {
+  if (recipientId === trainerId) return false;
+
+  const { data } = await supabase
+    .from('users')
+    .select('role, deactivated_at')
+    .eq('id', recipientId)
+    .maybeSingle();
+
+  return data?.role === 'trainer' && !data.deactivated_at;
+}
+
+/**
+ * Move a trainer's content and approved athletes to another trainer
+ * Athletes already enrolled with the recipient keep that enrollment.
+ */
+export async function transferTrainerContent(supabase: SupabaseClient, trainerId: string, recipientId: string) {
+  for (const { table, column } of TRAINER_OWNED_TABLES) {
+    const { error } = await supabase
+      .from(table)
+      .update({ [column]: recipientId })
+      .eq(column, trainerId);
+
+    assertOk(`transfer ${table}`, error);
+  }
+
+  const [{ data: enrollments, error }, { data: existing, error: existingError }] = await Promise.all([
+    supabase.from('enrollments').select('id, athlete_id').eq('trainer_id', trainerId).eq('status', 'approved'),
+    supabase.from('enrollments').select('athlete_id').eq('trainer_id', recipientId),
+  ]);
+
+  assertOk('fetch enrollments', error || existingError);
+
+  const enrolled = new Set((existing || []).map((enrollment) => enrollment.athlete_id as string));
+  const moving = (enrollments || []).filter((enrollment) => !enrolled.has(enrollment.athlete_id));
+
+  if (moving.length > 0) {
+    const { error: moveError } = await supabase
+      .from('enrollments')
+      .update({ trainer_id: recipientId })
+      .in('id', moving.map((enrollment) => enrollment.id));
+
+    assertOk('transfer enrollments', moveError);
+  }
+}
+
+/**
+ * Cancel a trainer's upcoming work and drop content no athlete still uses
+ * What's left (workout history, past events with participants and the
+ * templates they use) loses its owner when the account is deleted.
+ */
+export async function anonymiseTrainerContent(supabase: SupabaseClient, trainerId: string, now: Date = new Date()) {
+  // Workouts the athletes haven't done yet
+  const { error: assignmentsError } = await supabase
+    .from('workout_assignments')
+    .delete()
+    .eq('trainer_id', trainerId)
+    .in('status', ['pending', 'in_progress']);
+
+  assertOk('cancel upcoming workouts', assignmentsError);
+
+  const { data: events, error: eventsError } = await supabase
+    .from('events')
+    .select('id, title, start_date, status, recurrence_rule, recurrence_exdates')
+    .eq('created_by_user_id', trainerId);
+
+  assertOk('fetch events', eventsError);
+
+  const eventIds = (events || []).map((event) => event.id as number);
+  const { data: participants, error: participantsError } = eventIds.length > 0
+    ? await supabase.from('event_participants').select('event_id').in('event_id', eventIds)
+    : { data: [], error: null };
+
+  assertOk('fetch event participants', participantsError);
+
+  const withParticipants = new Set((participants || []).map((participant) => participant.event_id as number));
+  // Event times are wall-clock, so this is approximate by up to a time zone
+  const cutoff = formatEventTime(now);
+  const deleting: number[] = [];
+
+  for (const event of events || []) {
+    const started = (normalizeEventTime(event.start_date) || '') < cutoff;
+
+    if (started && withParticipants.has(event.id)) {
+      // Keep the history, but end a series now
+      const rule = event.recurrence_rule ? parseRecurrenceRule(event.recurrence_rule) : null;
+      if (!rule) continue;
+
+      const exdates: string[] = event.recurrence_exdates || [];
+      const { error } = await supabase
+        .from('events')
+        .update({
+          recurrence_rule: formatRecurrenceRule({ ...rule, count: null, until: cutoff }),
+          recurrence_exdates: exdates.filter((exdate) => (normalizeEventTime(exdate) || '') < cutoff),
+        })
+        .eq('id', event.id);
+
+      assertOk('end recurring event', error);
+      continue;
+    }
+
+    if (!started && withParticipants.has(event.id) && !['cancelled', 'completed'].includes(event.status)) {
+      const athleteIds = await getActiveParticipantIds(supabase, event.id);
+      await notifyEventUpdated(supabase, event, ['cancelled'], { athleteIds, deleted: true });
+    }
+
+    deleting.push(event.id);
+  }
+
+  if (deleting.length > 0) {
+    const { error } = await supabase.from('events').delete().in('id', deleting);
+    assertOk('delete events', error);
+  }
+
+  // Templates no remaining workout uses
+  const { data: templates, error: templatesError } = await supabase
+    .from('workout_templates')
+    .select('id')
+    .eq('trainer_id', trainerId);
+
+  assertOk('fetch workout templates', templatesError);
+
+  const templateIds = (templates || []).map((template) => template.id as number);
+  if (templateIds.length === 0) return;
+
+  const { data: used, error: usedError } = await supabase
+    .from('workout_assignments')
+    .select('workout_template_id')
+    .in('workout_template_id', templateIds);
+
+  assertOk('fetch workout template usage', usedError);
+
+  const usedIds = new Set((used || []).map((assignment) => assignment.workout_template_id as number));
+  const unused = templateIds.filter((id) => !usedIds.has(id));
+
+  if (unused.length > 0) {
+    const { error } = await supabase.from('workout_templates').delete().in('id', unused);
+    assertOk('delete workout templates', error);
+  }
+}
+
+/**
+ * Remove a user's files from every bucket that stores them by user ID
+ */
+export async function removeUserFiles(supabase: SupabaseClient, userId: string) {
+  for (const bucket of USER_FILE_BUCKETS) {
+    const { data: files, error } = await supabase.storage.from(bucket).list(userId, { limit: 1000 });
+    assertOk(`list ${bucket} files`, error);
+
+    if (!files || files.length === 0) continue;
+
+    const { error: removeError } = await supabase.storage
+      .from(bucket)
+      .remove(files.map((file) => `${userId}/${file.name}`));
+
+    assertOk(`remove ${bucket} files`, removeError);
+  }
+}
+
+/**
+ * Delete an account whose grace period is over
+ * Applies the trainer content policy, removes the user's files and deletes
+ * the auth user, which cascades to the rest of their data. A transfer
+ * recipient who is no longer an active trainer falls back to anonymising.
+ */
+export async function deleteAccount(
+  supabase: SupabaseClient,
+  deletion: AccountDeletion,
+  now: Date = new Date()
+): Promise<AccountDeletion> {
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', deletion.user_id)
+    .maybeSingle();
+
+  assertOk('fetch user', userError);
+
+  let transferredTo: string | null = null;
+
+  if (user?.role === 'trainer') {
+    const recipientId = deletion.transfer_to_user_id;
+
+    if (recipientId && await isTransferRecipient(supabase, deletion.user_id, recipientId)) {
+      await transferTrainerContent(supabase, deletion.user_id, recipientId);
+      transferredTo = recipientId;
+    } else {
+      await anonymiseTrainerContent(supabase, deletion.user_id, now);
+    }
+  }
+
+  await removeUserFiles(supabase, deletion.user_id);
+
+  const { error: authError } = await supabase.auth.admin.deleteUser(deletion.user_id);
+
+  // Already gone if an earlier attempt got this far
+  if (authError && authError.status !== 404) {
+    assertOk('delete auth user', authError);
+  }
+
+  const { data: completed, error } = await supabase
+    .from('account_deletions')
+    .update({ status: 'completed', completed_at: now.toISOString(), error: null })
+    .eq('id', deletion.id)
+    .select()
+    .single();
+
+  assertOk('complete deletion request', error);
+
+  await recordAudit(null, {
+    action: 'user.deleted',
+    entity_type: 'user',
+    entity_id: deletion.user_id,
+    before: { role: deletion.user_role, full_name: deletion.user_name },
+    after: { transferred_to: transferredTo },
+  });
+
+  return completed as AccountDeletion;
+}
+
+/**
+ * Delete accounts whose deletion is due, oldest first
+ * Failures are recorded on the request and retried on the next run.
+ */
+export async function processDueAccountDeletions(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ deleted: number; failed: number }> {
+  const { data: due, error } = await supabase
+    .from('account_deletions')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('scheduled_for', now.toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(ACCOUNT_DELETION_BATCH_SIZE);
+
+  if (error) {
+    console.error('Error fetching due account deletions:', error);
+    return { deleted: 0, failed: 0 };
+  }
+
+  let deleted = 0;
+  let failed = 0;
+
+  for (const deletion of (due || []) as AccountDeletion[]) {
+    try {
+      await deleteAccount(supabase, deletion, now);
+      deleted++;
+    } catch (deleteError) {
+      failed++;
+
+      const { error: updateError } = await supabase
+        .from('account_deletions')
+        .update({ error: deleteError instanceof Error ? deleteError.message : 'Account deletion failed' })
+        .eq('id', deletion.id);
+
+      if (updateError) {
+        console.error('Error recording failed account deletion:', updateError);
+      }
+    }
+  }
+
+  return { deleted, failed };
+}
@@ -0,0 +1,274 @@
+/**
+ * Achievement Utilities for tRPC Server
+ *
+ * Badges are declarative rules: a metric and the value it must reach. The
+ * metrics are computed from the athlete's data, and each one lists the
+ * domain events that can change it, so an event only re-checks the rules it
+ * affects. A new badge on an existing metric is a new entry in ACHIEVEMENTS;
+ * a new kind of badge needs a metric in ACHIEVEMENT_METRICS.
+ *
+ * Awarded badges are stored in athlete_achievements and never taken away.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  AchievementDefinition,
+  AchievementEvent,
+  AchievementMetric,
+  AchievementProgress,
+} from '@jejakathlete/shared';
+import { notifyAchievementsEarned } from './domainNotifications';
+import { daysBetween } from './programs';
+import { DEFAULT_TIMEZONE, getOffsetMinutes } from './timezone';
+
+interface MetricValue {
+  value: number;
+  // Number of items when a rule can ask for all of them
+  total?: number;
+}
+
+interface AchievementMetricDefinition {
+  // Events after which the metric can have changed
+  events: AchievementEvent[];
+  measure: (supabase: SupabaseClient, athleteId: string) => Promise<MetricValue>;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { key: 'first_workout', title: 'First Workout', description: 'Complete your first workout', icon: 'play-circle', metric: 'completed_workouts', threshold: 1 },
+  { key: 'workouts_10', title: 'Getting Consistent', description: 'Complete 10 workouts', icon: 'activity', metric: 'completed_workouts', threshold: 10 },
+  { key: 'workouts_50', title: 'Dedicated', description: 'Complete 50 workouts', icon: 'zap', metric: 'completed_workouts', threshold: 50 },
+  { key: 'workouts_100', title: 'Century', description: 'Complete 100 workouts', icon: 'award', metric: 'completed_workouts', threshold: 100 },
+  { key: 'streak_3', title: 'On a Roll', description: 'Train 3 days in a row', icon: 'trending-up', metric: 'longest_streak_days', threshold: 3 },
+  { key: 'streak_7', title: 'Week Warrior', description: 'Train 7 days in a row', icon: 'calendar', metric: 'longest_streak_days', threshold: 7 },
+  { key: 'streak_30', title: 'Unstoppable', description: 'Train 30 days in a row', icon: 'sun', metric: 'longest_streak_days', threshold: 30 },
+  { key: 'first_personal_record', title: 'Record Breaker', description: 'Set a personal best', icon: 'star', metric: 'personal_records', threshold: 1 },
+  { key: 'personal_records_10', title: 'Record Collector', description: 'Hold personal bests in 10 tests', icon: 'bookmark', metric: 'personal_records', threshold: 10 },
+  { key: 'all_components_tested', title: 'All-Rounder', description: 'Record a result in every fitness component', icon: 'grid', metric: 'components_tested', threshold: 'all' },
+  { key: 'first_goal', title: 'Goal Getter', description: 'Reach a goal', icon: 'target', metric: 'goals_achieved', threshold: 1 },
+  { key: 'goals_5', title: 'Goal Crusher', description: 'Reach 5 goals', icon: 'flag', metric: 'goals_achieved', threshold: 5 },
+];
+
+/**
+ * Count rows of a query with a head request
+ */
+async function countRows(query: PromiseLike<{ count: number | null; error: unknown }>): Promise<number> {
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * Day (YYYY-MM-DD) a timestamp falls on in the default time zone
+ * Timestamps without a zone are stored in UTC.
+ */
+export function toTrainingDay(timestamp: string): string {
+  const utcMs = Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(timestamp) ? timestamp : `${timestamp}Z`);
+  return new Date(utcMs + getOffsetMinutes(DEFAULT_TIMEZONE, utcMs) * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Most consecutive days in a list of YYYY-MM-DD days
+ */
+export function longestStreak(days: string[]): number {
+  const sorted = [...new Set(days)].sort();
+  let longest = 0;
+  let current = 0;
+
+  sorted.forEach((day, index) => {
+    current = index > 0 && daysBetween(sorted[index - 1], day) === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+
+  return longest;
+}
+
+export const ACHIEVEMENT_METRICS: Record<AchievementMetric, AchievementMetricDefinition> = {
+  completed_workouts: {
+    events: ['workout_completed'],
+    measure: async (supabase, athleteId) => ({
+      value: await countRows(
+        supabase
+          .from('workout_assignments')
+          .select('id', { count: 'exact', head: true })
+          .eq('athlete_id', athleteId)
+          .eq('status', 'completed')
+      ),
+    }),
+  },
+  longest_streak_days: {
+    events: ['workout_completed'],
+    measure: async (supabase, athleteId) => {
+      const { data, error } = await supabase
+        .from('workout_assignments')
+        .select('completed_at')
+        .eq('athlete_id', athleteId)
+        .eq('status', 'completed')
+        .not('completed_at', 'is', null);
+
+      if (error) throw error;
+      return { value: longestStreak((data || []).map((row) => toTrainingDay(row.completed_at))) };
+    },
+  },
+  personal_records: {
+    events: ['test_result'],
+    measure: async (supabase, athleteId) => ({
+      value: await countRows(
+        supabase
+          .from('test_results')
+          .select('id', { count: 'exact', head: true })
+          .eq('athlete_id', athleteId)
+          .eq('is_best_record', true)
+      ),
+    }),
+  },
+  components_tested: {
+    events: ['test_result'],
+    measure: async (supabase, athleteId) => {
+      const [{ data, error }, total] = await Promise.all([
+        supabase.from('test_results').select('test:tests(component_id)').eq('athlete_id', athleteId),
+        countRows(supabase.from('fitness_components').select('id', { count: 'exact', head: true })),
+      ]);
+
+      if (error) throw error;
+
+      const components = new Set(
+        (data || []).map((row: any) => (Array.isArray(row.test) ? row.test[0] : row.test)?.component_id).filter(Boolean)
+      );
+      return { value: components.size, total };
+    },
+  },
+  goals_achieved: {
+    events: ['goal_achieved'],
+    measure: async (supabase, athleteId) => ({
+      value: await countRows(
+        supabase
+          .from('athlete_goals')
+          .select('id', { count: 'exact', head: true })
+          .eq('athlete_id', athleteId)
+          .eq('status', 'achieved')
+      ),
+    }),
+  },
+};
+
+/**
+ * Value a rule needs, or null when it can't be earned (e.g. 'all' of nothing)
+ */
+function getTarget(rule: AchievementDefinition, metric: MetricValue): number | null {
+  const target = rule.threshold === 'all' ? metric.total ?? 0 : rule.threshold;
+  return target > 0 ? target : null;
+}
+
+/**
+ * Measure each metric once
+ */
+async function measureMetrics(
+  supabase: SupabaseClient,
+  athleteId: string,
+  metrics: AchievementMetric[]
+): Promise<Map<AchievementMetric, MetricValue>> {
+  const unique = [...new Set(metrics)];
+  const values = await Promise.all(unique.map((metric) => ACHIEVEMENT_METRICS[metric].measure(supabase, athleteId)));
+  return new Map(unique.map((metric, index) => [metric, values[index]]));
+}
+
+/**
+ * Every badge with the athlete's progress towards it
+ *
+ * @param supabase - Supabase client that can read the athlete's data
+ */
+export async function getAchievementProgress(
+  supabase: SupabaseClient,
+  athleteId: string
+): Promise<AchievementProgress[]> {
+  const [{ data: awarded, error }, metrics] = await Promise.all([
+    supabase.from('athlete_achievements').select('achievement_key, awarded_at').eq('athlete_id', athleteId),
+    measureMetrics(supabase, athleteId, ACHIEVEMENTS.map((rule) => rule.metric)),
+  ]);
+
+  if (error) throw error;
+
+  const awardedAt = new Map((awarded || []).map((row) => [row.achievement_key as string, row.awarded_at as string]));
+
+  return ACHIEVEMENTS.map((rule) => {
+    const metric = metrics.get(rule.metric) as MetricValue;
+    const target = getTarget(rule, metric) ?? 0;
+
+    return {
+      ...rule,
+      awarded_at: awardedAt.get(rule.key) ?? null,
+      current: Math.min(metric.value, target),
+      target,
+    };
+  });
+}
+
+/**
+ * Award the badges an event earned the athlete and notify them
+ * Only rules whose metric the event can change are checked. Failures are
+ * logged and never fail the action that triggered the evaluation.
+ *
+ * @param supabase - Service role client; awards bypass RLS
+ * @param athleteId - Athlete to evaluate
+ * @param event - What just happened
+ * @returns The badges newly awarded
+ */
+export async function evaluateAchievements(
+  supabase: SupabaseClient,
+  athleteId: string,
+  event: AchievementEvent
+): Promise<AchievementDefinition[]> {
+  try {
+    const { data: awarded, error } = await supabase
+      .from('athlete_achievements')
+      .select('achievement_key')
+      .eq('athlete_id', athleteId);
+
+    if (error) {
+      console.error('Error fetching achievements:', error);
+      return [];
+    }
+
+    const awardedKeys = new Set((awarded || []).map((row) => row.achievement_key as string));
+    const candidates = ACHIEVEMENTS.filter(
+      (rule) => !awardedKeys.has(rule.key) && ACHIEVEMENT_METRICS[rule.metric].events.includes(event)
+    );
+    if (candidates.length === 0) return [];
+
+    const metrics = await measureMetrics(supabase, athleteId, candidates.map((rule) => rule.metric));
+
+    const earned = candidates.filter((rule) => {
+      const metric = metrics.get(rule.metric) as MetricValue;
+      const target = getTarget(rule, metric);
+      return target !== null && metric.value >= target;
+    });
+    if (earned.length === 0) return [];
+
+    // Concurrent evaluations may award the same badge; only new rows come back
+    const { data: inserted, error: insertError } = await supabase
+      .from('athlete_achievements')
+      .upsert(
+        earned.map((rule) => ({
+          athlete_id: athleteId,
+          achievement_key: rule.key,
+          value: (metrics.get(rule.metric) as MetricValue).value,
+        })),
+        { onConflict: 'athlete_id,achievement_key', ignoreDuplicates: true }
+      )
+      .select('achievement_key');
+
+    if (insertError) {
+      console.error('Error awarding achievements:', insertError);
+      return [];
+    }
+
+    const insertedKeys = new Set((inserted || []).map((row) => row.achievement_key as string));
+    const newlyEarned = earned.filter((rule) => insertedKeys.has(rule.key));
+
+    await notifyAchievementsEarned(athleteId, newlyEarned);
+    return newlyEarned;
+  } catch (error) {
+    console.error('Error evaluating achievements:', error);
+    return [];
+  }
+}
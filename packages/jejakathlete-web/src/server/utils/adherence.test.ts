@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { longestStreak } from './achievements';
+import { currentStreak, getWeekStart, summarizeAdherence, type AdherenceAssignment } from './adherence';
+
+function assignment(scheduledDate: string, status: string, completedAt: string | null = null): AdherenceAssignment {
+  return { athlete_id: 'athlete-1', scheduled_date: scheduledDate, status, completed_at: completedAt };
+}
+
+describe('getWeekStart', () => {
+  it('returns the Monday of the week', () => {
+    expect(getWeekStart('2026-10-05')).toBe('2026-10-05');
+    expect(getWeekStart('2026-10-11')).toBe('2026-10-05');
+    expect(getWeekStart('2026-10-07T23:30:00')).toBe('2026-10-05');
+  });
+});
+
+describe('currentStreak', () => {
+  it('counts back from today when today has a workout', () => {
+    expect(currentStreak(['2026-10-12', '2026-10-13', '2026-10-14'], '2026-10-14')).toBe(3);
+  });
+
+  it('counts back from yesterday while today is still open', () => {
+    expect(currentStreak(['2026-10-12', '2026-10-13'], '2026-10-14')).toBe(2);
+  });
+
+  it('is zero once a full day has been missed', () => {
+    expect(currentStreak(['2026-10-11', '2026-10-12'], '2026-10-14')).toBe(0);
+  });
+});
+
+describe('longestStreak', () => {
+  it('finds the longest run of consecutive days, ignoring duplicates and order', () => {
+    expect(longestStreak(['2026-10-09', '2026-10-01', '2026-10-02', '2026-10-08', '2026-10-07', '2026-10-08'])).toBe(3);
+    expect(longestStreak([])).toBe(0);
+  });
+});
+
+describe('summarizeAdherence', () => {
+  // Wednesday; a two-week window starts on Monday 2026-10-05
+  const today = '2026-10-14';
+
+  const assignments = [
+    assignment('2026-10-02', 'completed', '2026-10-02T01:00:00Z'),
+    assignment('2026-10-05', 'completed', '2026-10-05T01:00:00Z'),
+    // 01:00 on 2026-10-09 in Kuala Lumpur, two days late
+    assignment('2026-10-07', 'completed', '2026-10-08T17:00:00Z'),
+    assignment('2026-10-09', 'skipped'),
+    assignment('2026-10-12', 'pending'),
+    assignment('2026-10-13', 'completed', '2026-10-13T02:00:00Z'),
+    assignment('2026-10-13', 'cancelled'),
+    assignment('2026-10-14', 'pending'),
+  ];
+  const completedDays = ['2026-10-05', '2026-10-09', '2026-10-11', '2026-10-12', '2026-10-13', '2026-10-13'];
+
+  it('counts workouts due in the window', () => {
+    const summary = summarizeAdherence('athlete-1', assignments, completedDays, 2, today);
+
+    expect(summary).toMatchObject({
+      athlete_id: 'athlete-1',
+      weeks: 2,
+      completed: 3,
+      skipped: 1,
+      missed: 1,
+      adherence_rate: 60,
+      average_delay_days: 0.7,
+    });
+  });
+
+  it('breaks the window down by week', () => {
+    const summary = summarizeAdherence('athlete-1', assignments, completedDays, 2, today);
+
+    expect(summary.weekly).toEqual([
+      { week_start: '2026-10-05', due: 3, completed: 2, rate: 67 },
+      { week_start: '2026-10-12', due: 2, completed: 1, rate: 50 },
+    ]);
+  });
+
+  it('reports streaks and the last completed day', () => {
+    const summary = summarizeAdherence('athlete-1', assignments, completedDays, 2, today);
+
+    expect(summary.current_streak_days).toBe(3);
+    expect(summary.longest_streak_days).toBe(3);
+    expect(summary.last_completed_date).toBe('2026-10-13');
+  });
+
+  it('leaves rates empty when nothing was due', () => {
+    const summary = summarizeAdherence('athlete-1', [assignment('2026-10-14', 'pending')], [], 1, today);
+
+    expect(summary).toMatchObject({ adherence_rate: null, average_delay_days: null, last_completed_date: null });
+    expect(summary.weekly).toEqual([{ week_start: '2026-10-12', due: 0, completed: 0, rate: null }]);
+  });
+});
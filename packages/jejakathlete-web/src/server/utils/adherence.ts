@@ -0,0 +1,183 @@
+/**
+ * Adherence Utilities for tRPC Server
+ *
+ * How well athletes keep to their assigned workouts, computed from
+ * `workout_assignments`:
+ * - A workout is due once its scheduled date has passed, or when it was
+ *   finished or skipped. Cancelled workouts are ignored.
+ * - Pending and in-progress workouts scheduled before today count as missed.
+ * - Streaks count consecutive days with a completed workout, in the default
+ *   time zone, over the athlete's whole history.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WeeklyAdherence, WorkoutAdherence } from '@jejakathlete/shared';
+import { longestStreak, toTrainingDay } from './achievements';
+import { addDays, daysBetween, programToday } from './programs';
+import { fetchAllPages } from './supabase';
+
+export const DEFAULT_ADHERENCE_WEEKS = 12;
+
+export interface AdherenceAssignment {
+  athlete_id: string;
+  scheduled_date: string;
+  status: string;
+  completed_at: string | null;
+}
+
+/**
+ * Monday of the week a date falls in
+ */
+export function getWeekStart(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+/**
+ * Percentage of a total, or null when there is nothing to count
+ */
+function toRate(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 100) : null;
+}
+
+/**
+ * Consecutive training days ending today, or yesterday while today is
+ * still open
+ */
+export function currentStreak(days: string[], today: string): number {
+  const trained = new Set(days);
+  let day = trained.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+
+  while (trained.has(day)) {
+    streak++;
+    day = addDays(day, -1);
+  }
+
+  return streak;
+}
+
+/**
+ * Summarize one athlete's adherence
+ *
+ * @param assignments - The athlete's workouts scheduled in the window
+ * @param completedDays - Days (YYYY-MM-DD) of every workout they completed
+ * @param weeks - Weeks in the window, ending with this week
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function summarizeAdherence(
+  athleteId: string,
+  assignments: AdherenceAssignment[],
+  completedDays: string[],
+  weeks: number,
+  today: string
+): WorkoutAdherence {
+  const windowStart = addDays(getWeekStart(today), -(weeks - 1) * 7);
+
+  const due = assignments.filter(
+    (assignment) =>
+      assignment.scheduled_date >= windowStart &&
+      (assignment.status === 'completed' ||
+        assignment.status === 'skipped' ||
+        ((assignment.status === 'pending' || assignment.status === 'in_progress') && assignment.scheduled_date < today))
+  );
+  const completed = due.filter((assignment) => assignment.status === 'completed');
+  const skipped = due.filter((assignment) => assignment.status === 'skipped').length;
+
+  const delays = completed
+    .filter((assignment) => assignment.completed_at)
+    .map((assignment) => daysBetween(assignment.scheduled_date, toTrainingDay(assignment.completed_at as string)));
+
+  const weekly: WeeklyAdherence[] = Array.from({ length: weeks }, (_, index) => {
+    const weekStart = addDays(windowStart, index * 7);
+    const weekEnd = addDays(weekStart, 6);
+    const inWeek = due.filter((assignment) => assignment.scheduled_date >= weekStart && assignment.scheduled_date <= weekEnd);
+    const weekCompleted = inWeek.filter((assignment) => assignment.status === 'completed').length;
+
+    return {
+      week_start: weekStart,
+      due: inWeek.length,
+      completed: weekCompleted,
+      rate: toRate(weekCompleted, inWeek.length),
+    };
+  });
+
+  const sortedDays = [...new Set(completedDays)].sort();
+
+  return {
+    athlete_id: athleteId,
+    weeks,
+    completed: completed.length,
+    skipped,
+    missed: due.length - completed.length - skipped,
+    adherence_rate: toRate(completed.length, due.length),
+    average_delay_days: delays.length > 0
+      ? Math.round((delays.reduce((sum, delay) => sum + delay, 0) / delays.length) * 10) / 10
+      : null,
+    current_streak_days: currentStreak(sortedDays, today),
+    longest_streak_days: longestStreak(sortedDays),
+    last_completed_date: sortedDays[sortedDays.length - 1] ?? null,
+    weekly,
+  };
+}
+
+/**
+ * Adherence of one or more athletes
+ *
+ * @param supabase - Supabase client that can read the athletes' workouts
+ * @param athleteIds - Athletes to summarize
+ * @param weeks - Weeks the counts, rate and weekly series cover
+ * @param today - Today's date (YYYY-MM-DD)
+ * @returns Adherence by athlete ID, for every athlete asked for
+ */
+export async function getWorkoutAdherence(
+  supabase: SupabaseClient,
+  athleteIds: string[],
+  weeks: number = DEFAULT_ADHERENCE_WEEKS,
+  today: string = programToday()
+): Promise<Map<string, WorkoutAdherence>> {
+  if (athleteIds.length === 0) return new Map();
+
+  const windowStart = addDays(getWeekStart(today), -(weeks - 1) * 7);
+
+  const [assignments, completions] = await Promise.all([
+    fetchAllPages<AdherenceAssignment>((from, to) =>
+      supabase
+        .from('workout_assignments')
+        .select('athlete_id, scheduled_date, status, completed_at')
+        .in('athlete_id', athleteIds)
+        .neq('status', 'cancelled')
+        .gte('scheduled_date', windowStart)
+        .lte('scheduled_date', today)
+        .order('scheduled_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllPages<{ athlete_id: string; completed_at: string }>((from, to) =>
+      supabase
+        .from('workout_assignments')
+        .select('athlete_id, completed_at')
+        .in('athlete_id', athleteIds)
+        .eq('status', 'completed')
+        .not('completed_at', 'is', null)
+        .order('completed_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  return new Map(
+    athleteIds.map((athleteId) => [
+      athleteId,
+      summarizeAdherence(
+        athleteId,
+        assignments.filter((assignment) => assignment.athlete_id === athleteId),
+        completions
+          .filter((completion) => completion.athlete_id === athleteId)
+          .map((completion) => toTrainingDay(completion.completed_at)),
+        weeks,
+        today
+      ),
+    ])
+  );
+}
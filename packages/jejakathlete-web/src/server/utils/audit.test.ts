@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { diffValues } from './audit';
+
+describe('diffValues', () => {
+  it('keeps only the fields that changed', () => {
+    expect(diffValues({ title: 'Sprint test', location: 'Track', status: 'planned' }, { title: 'Sprint test', status: 'completed' }))
+      .toEqual({ before: { status: 'planned' }, after: { status: 'completed' } });
+  });
+
+  it('returns null when nothing changed', () => {
+    expect(diffValues({ title: 'Sprint test', tags: ['speed'] }, { title: 'Sprint test', tags: ['speed'] })).toBeNull();
+  });
+
+  it('treats undefined and missing values as null', () => {
+    expect(diffValues({ notes: null }, { notes: undefined })).toBeNull();
+    expect(diffValues({}, { notes: 'Warm up first' })).toEqual({ before: { notes: null }, after: { notes: 'Warm up first' } });
+  });
+
+  it('records every field as new when there is no previous row', () => {
+    expect(diffValues(null, { name: 'Strength block', weeks: 6 }))
+      .toEqual({ before: { name: null, weeks: null }, after: { name: 'Strength block', weeks: 6 } });
+  });
+
+  it('compares nested values by content', () => {
+    expect(diffValues({ days: ['MO', 'WE'] }, { days: ['MO', 'FR'] }))
+      .toEqual({ before: { days: ['MO', 'WE'] }, after: { days: ['MO', 'FR'] } });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Audit Log Utilities for tRPC Server
+ *
+ * Helpers for recording privileged actions in the append-only `audit_logs`
+ * table. Entries are written with the service role client, since no RLS
+ * policy lets users insert, and the table rejects updates and deletes.
+ * Unlike notifications, a failed write throws: an action that can't be
+ * audited should be reported to the admin rather than pass silently.
+ */
+
+import { TRPCError } from '@trpc/server';
+import type { AuditAction, AuditEntityType, UserRole } from '@jejakathlete/shared';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+
+type AuditValues = Record<string, unknown>;
+
+export interface AuditActor {
+  user: { id: string };
+  role: UserRole;
+  ip: string | null;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | number;
+  before: AuditValues | null;
+  after: AuditValues | null;
+}
+
+/**
+ * Keep only the fields that differ between two versions of a row
+ * Fields missing from `after` are treated as unchanged.
+ *
+ * @returns The changed fields before and after, or null if nothing changed
+ */
+export function diffValues(
+  before: AuditValues | null,
+  after: AuditValues
+): { before: AuditValues; after: AuditValues } | null {
+  const changedBefore: AuditValues = {};
+  const changedAfter: AuditValues = {};
+
+  for (const [key, value] of Object.entries(after)) {
+    const previous = before?.[key] ?? null;
+    if (JSON.stringify(previous) === JSON.stringify(value ?? null)) continue;
+
+    changedBefore[key] = previous;
+    changedAfter[key] = value ?? null;
+  }
+
+  if (Object.keys(changedAfter).length === 0) return null;
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Append an entry to the audit log
+ *
+ * @param actor - Procedure context of the user taking the action, or null for
+ * system actions such as scheduled jobs
+ * @param entry - Action, target entity and the values it changed
+ */
+export async function recordAudit(actor: AuditActor | null, entry: AuditEntry): Promise<void> {
+  const supabase = createSupabaseAdminClient();
+
+  const { data: actorUser } = actor
+    ? await supabase
+      .from('users')
+      .select('full_name')
+      .eq('id', actor.user.id)
+      .maybeSingle()
+    : { data: null };
+
+  const { error } = await supabase.from('audit_logs').insert({
+    actor_id: actor?.user.id ?? null,
+    actor_name: actorUser?.full_name ?? null,
+    actor_role: actor?.role ?? null,
+    action: entry.action,
+    entity_type: entry.entity_type,
+    entity_id: String(entry.entity_id),
+    before_values: entry.before,
+    after_values: entry.after,
+    ip_address: actor?.ip ?? null,
+  });
+
+  if (error) {
+    console.error('❌ [audit] Failed to record audit log entry:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to record audit log entry',
+    });
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Calendar Feed Utilities for tRPC Server
+ *
+ * Builds the iCalendar subscription feed for a user's schedule: events they
+ * created (trainers) or take part in (athletes), plus scheduled workout
+ * assignments. Feeds are addressed by a secret per-user token.
+ *
+ * Event times are stored as wall-clock times in the default time zone; the
+ * feed converts them to the time zone the user picked for display.
+ */
+
+import { randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CalendarFeed } from '@jejakathlete/shared';
+import { buildICalendar, type ICalEvent } from './ical';
+import { expandOccurrences, formatEventTime, parseEventTime, type RecurringSeries } from './recurrence';
+import { convertZonedTime, DEFAULT_TIMEZONE } from './timezone';
+
+// Feed window around today
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UID_DOMAIN = 'jejakathlete';
+
+// Participations the athlete backed out of; shown as cancelled so calendars
+// that already have the entry drop it
+const DROPPED_PARTICIPANT_STATUSES = ['declined', 'withdrawn'];
+
+// Participations that aren't settled yet
+const TENTATIVE_PARTICIPANT_STATUSES = ['invited', 'pending', 'waitlisted'];
+
+const EVENT_SELECT = `
+  id, title, description, location, status, start_date, end_date, updated_at,
+  recurrence_rule, recurrence_exdates, recurrence_parent_id, recurrence_id,
+  event_type:event_types(name)
+`;
+
+interface FeedEventRow extends RecurringSeries {
+  id: number;
+  title: string;
+  description: string | null;
+  location: string | null;
+  status: string;
+  updated_at: string | null;
+  recurrence_parent_id: number | null;
+  recurrence_id: string | null;
+  event_type: { name: string } | { name: string }[] | null;
+}
+
+interface FeedEvents {
+  events: FeedEventRow[];
+  // The athlete's participation status by event id
+  participationStatuses: Map<number, string>;
+}
+
+/**
+ * Generate a new secret feed token
+ */
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * Build the subscription URLs for a feed token
+ */
+export function getFeedUrls(token: string) {
+  const baseUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  const url = `${baseUrl}/api/calendar/${token}.ics`;
+
+  return {
+    url,
+    webcal_url: url.replace(/^https?:\/\//, 'webcal://'),
+  };
+}
+
+/**
+ * Compact "YYYY-MM-DDTHH:mm:ss" for use inside a UID
+ */
+function uidTime(value: string): string {
+  const date = parseEventTime(value);
+  return date ? formatEventTime(date).replace(/[-:]/g, '') : value;
+}
+
+/**
+ * Convert a stored event time to the feed's time zone
+ */
+function toFeedTime(value: string, timeZone: string): string {
+  const date = parseEventTime(value);
+  return date ? formatEventTime(convertZonedTime(date, DEFAULT_TIMEZONE, timeZone)) : value;
+}
+
+/**
+ * Map an event row and one of its occurrences to a feed entry
+ * UIDs are stable across refreshes: one-off events use their id, occurrences
+ * of a series use the series id and original start, and overrides reuse the
+ * UID of the occurrence they replace.
+ *
+ * @param timeZone - Time zone the feed shows times in
+ * @param participationStatus - The athlete's participation; declined and
+ * withdrawn entries are cancelled, unsettled ones tentative
+ */
+function toICalEvent(
+  event: FeedEventRow,
+  start: string,
+  end: string,
+  timeZone: string,
+  participationStatus?: string
+): ICalEvent {
+  let status: ICalEvent['status'] = 'CONFIRMED';
+  if (event.status === 'cancelled' || DROPPED_PARTICIPANT_STATUSES.includes(participationStatus || '')) {
+    status = 'CANCELLED';
+  } else if (event.status === 'draft' || TENTATIVE_PARTICIPANT_STATUSES.includes(participationStatus || '')) {
+    status = 'TENTATIVE';
+  }
+
+  let uid = `event-${event.id}@${UID_DOMAIN}`;
+  if (event.recurrence_rule) {
+    uid = `event-${event.id}-${uidTime(start)}@${UID_DOMAIN}`;
+  } else if (event.recurrence_parent_id && event.recurrence_id) {
+    uid = `event-${event.recurrence_parent_id}-${uidTime(event.recurrence_id)}@${UID_DOMAIN}`;
+  }
+
+  const eventType = Array.isArray(event.event_type) ? event.event_type[0] : event.event_type;
+
+  return {
+    uid,
+    summary: event.title,
+    description: event.description,
+    location: event.location,
+    start: toFeedTime(start, timeZone),
+    end: toFeedTime(end, timeZone),
+    status,
+    categories: eventType?.name ? [eventType.name] : undefined,
+    last_modified: event.updated_at,
+  };
+}
+
+/**
+ * Events a trainer created that fall in the feed window
+ */
+async function getCreatedEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  windowEnd: string,
+  inWindow: string
+): Promise<FeedEvents> {
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_SELECT)
+    .eq('created_by_user_id', userId)
+    .lte('start_date', windowEnd)
+    .or(inWindow);
+
+  if (error) {
+    console.error('Error fetching events for calendar feed:', error);
+  }
+
+  return { events: (data || []) as FeedEventRow[], participationStatuses: new Map() };
+}
+
+/**
+ * Events in the feed window an athlete takes part in, with the overrides of
+ * recurring ones
+ */
+async function getParticipatingEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  windowEnd: string,
+  inWindow: string
+): Promise<FeedEvents> {
+  const { data: participations, error } = await supabase
+    .from('event_participants')
+    .select(`status, event:events!inner(${EVENT_SELECT})`)
+    .eq('athlete_id', userId)
+    .lte('event.start_date', windowEnd)
+    .or(inWindow, { referencedTable: 'event' });
+
+  if (error) {
+    console.error('Error fetching events for calendar feed:', error);
+    return { events: [], participationStatuses: new Map() };
+  }
+
+  const rows = (participations || []) as { status: string; event: FeedEventRow | FeedEventRow[] }[];
+  const events = rows.map((row) => (Array.isArray(row.event) ? row.event[0] : row.event));
+  const participationStatuses = new Map(events.map((event, index): [number, string] => [event.id, rows[index].status]));
+
+  // Edited occurrences are separate events; the athlete's participation is
+  // in their series
+  const seriesIds = events.filter((event) => event.recurrence_rule).map((event) => event.id);
+  if (seriesIds.length === 0) return { events, participationStatuses };
+
+  const { data: overrides, error: overridesError } = await supabase
+    .from('events')
+    .select(EVENT_SELECT)
+    .in('recurrence_parent_id', seriesIds)
+    .lte('start_date', windowEnd)
+    .or(inWindow);
+
+  if (overridesError) {
+    console.error('Error fetching event overrides for calendar feed:', overridesError);
+  }
+
+  const knownIds = new Set(events.map((event) => event.id));
+  return {
+    events: [...events, ...((overrides || []) as FeedEventRow[]).filter((override) => !knownIds.has(override.id))],
+    participationStatuses,
+  };
+}
+
+/**
+ * Build the iCalendar feed for a user
+ *
+ * @param supabase - Supabase client able to read the user's schedule (service role for token requests)
+ * @param feed - The user's calendar feed settings
+ * @returns The iCalendar document, or null if the user no longer exists
+ */
+export async function buildScheduleFeed(
+  supabase: SupabaseClient,
+  feed: Pick<CalendarFeed, 'user_id' | 'timezone'>
+): Promise<string | null> {
+  const { data: user } = await supabase
+    .from('users')
+    .select('id, full_name, role')
+    .eq('id', feed.user_id)
+    .single();
+
+  if (!user) return null;
+
+  const now = Date.now();
+  const windowStart = formatEventTime(new Date(now - FEED_PAST_DAYS * DAY_MS)).slice(0, 10);
+  const windowEnd = formatEventTime(new Date(now + FEED_FUTURE_DAYS * DAY_MS)).slice(0, 10);
+  const isTrainer = user.role === 'trainer';
+  // One-off events ending in the window, and series starting before its end
+  const inWindow = `recurrence_rule.not.is.null,end_date.gte.${windowStart}`;
+
+  const assignmentsQuery = supabase
+    .from('workout_assignments')
+    .select(`
+      id, scheduled_date, status, updated_at,
+      workout_template:workout_templates(name, description),
+      athlete:users!workout_assignments_athlete_id_fkey(full_name)
+    `)
+    .eq(isTrainer ? 'trainer_id' : 'athlete_id', user.id)
+    .gte('scheduled_date', windowStart)
+    .lte('scheduled_date', windowEnd);
+
+  const [{ events, participationStatuses }, { data: assignments, error: assignmentsError }] =
+    await Promise.all([
+      isTrainer
+        ? getCreatedEvents(supabase, user.id, windowEnd, inWindow)
+        : getParticipatingEvents(supabase, user.id, windowEnd, inWindow),
+      assignmentsQuery,
+    ]);
+
+  if (assignmentsError) {
+    console.error('Error fetching workout assignments for calendar feed:', assignmentsError);
+  }
+
+  const entries: ICalEvent[] = [];
+
+  for (const event of events) {
+    // Overrides follow the athlete's participation in their series unless
+    // they have one of their own
+    const participationStatus = participationStatuses.get(event.id)
+      ?? (event.recurrence_parent_id ? participationStatuses.get(event.recurrence_parent_id) : undefined);
+
+    if (event.recurrence_rule) {
+      for (const occurrence of expandOccurrences(event, windowStart, windowEnd)) {
+        entries.push(toICalEvent(event, occurrence.start_date, occurrence.end_date, feed.timezone, participationStatus));
+      }
+    } else if (event.end_date >= windowStart) {
+      entries.push(toICalEvent(event, event.start_date, event.end_date, feed.timezone, participationStatus));
+    }
+  }
+
+  for (const assignment of (assignments || []) as Record<string, any>[]) {
+    const nextDay = formatEventTime(new Date(parseEventTime(assignment.scheduled_date)!.getTime() + DAY_MS));
+    const name = assignment.workout_template?.name || 'Workout';
+
+    entries.push({
+      uid: `workout-${assignment.id}@${UID_DOMAIN}`,
+      summary: isTrainer && assignment.athlete?.full_name
+        ? `${name} - ${assignment.athlete.full_name}`
+        : name,
+      description: assignment.workout_template?.description,
+      start: assignment.scheduled_date,
+      end: nextDay.slice(0, 10),
+      all_day: true,
+      status: assignment.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+      categories: ['Workout'],
+      last_modified: assignment.updated_at,
+    });
+  }
+
+  return buildICalendar({
+    name: `Jejak Athlete - ${user.full_name || 'Schedule'}`,
+    timezone: feed.timezone,
+    events: entries,
+  });
+}
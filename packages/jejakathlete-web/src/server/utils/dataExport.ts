@@ -0,0 +1,543 @@
+/**
+ * Data Export Utilities for tRPC Server
+ *
+ * Builds a personal data export: everything stored about a user, as
+ * `data.json` plus one CSV file per section, zipped into a single archive.
+ * Archives live in the private `data-exports` bucket under the user's ID and
+ * are downloaded through short-lived signed URLs until they expire.
+ *
+ * Exports are built with the service role client, so every query here
+ * filters by the user explicitly.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { strToU8, zipSync } from 'fflate';
+import type {
+  DataExport,
+  DataExportArchive,
+  DataExportSection,
+  DataExportWithUrl,
+  UserRole,
+} from '@jejakathlete/shared';
+import { notifyUser, parseNotificationData } from './notifications';
+
+export const DATA_EXPORTS_BUCKET = 'data-exports';
+
+// How long an archive can be downloaded before it is deleted
+export const DATA_EXPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Exports still processing after this are assumed to have crashed
+export const DATA_EXPORT_TIMEOUT_MS = 30 * 60 * 1000;
+
+// How long signed archive URLs stay valid, in seconds
+const DATA_EXPORT_URL_TTL = 60 * 60;
+
+// Exports built per scheduler run; each reads all of a user's data
+const DATA_EXPORT_BATCH_SIZE = 5;
+
+// IDs per `in` filter, to keep request URLs short
+const ID_CHUNK_SIZE = 200;
+
+type ExportRow = Record<string, unknown>;
+
+type RowsQuery = PromiseLike<{ data: any[] | null; error: unknown }>;
+
+/**
+ * Run a query for a section, throwing if it fails
+ */
+async function fetchRows(section: string, query: RowsQuery): Promise<ExportRow[]> {
+  const { data, error } = await query;
+
+  if (error) {
+    console.error(`Error exporting ${section}:`, error);
+    throw new Error(`Failed to export ${section}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Run a query per chunk of IDs and combine the rows
+ */
+async function fetchRowsByIds<TId>(
+  section: string,
+  ids: TId[],
+  query: (chunk: TId[]) => RowsQuery
+): Promise<ExportRow[]> {
+  const rows: ExportRow[] = [];
+
+  for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+    rows.push(...(await fetchRows(section, query(ids.slice(start, start + ID_CHUNK_SIZE)))));
+  }
+
+  return rows;
+}
+
+/**
+ * Collect everything stored about a user
+ * Trainers' exports also include the templates and programs they authored.
+ */
+export async function buildDataExportArchive(
+  supabase: SupabaseClient,
+  userId: string,
+  role: UserRole,
+  now: Date = new Date()
+): Promise<DataExportArchive> {
+  const isTrainer = role === 'trainer';
+  const asAthleteOrTrainer = `athlete_id.eq.${userId},trainer_id.eq.${userId}`;
+
+  const [
+    profile,
+    profiling,
+    athlete,
+    trainer,
+    enrollments,
+    testResults,
+    bodyMetrics,
+    goals,
+    achievements,
+    workoutAssignments,
+    exerciseTargets,
+    programAssignments,
+    createdEvents,
+    eventParticipations,
+    eventResults,
+    notifications,
+    pushDevices,
+  ] = await Promise.all([
+    fetchRows('profile', supabase.from('users').select('*').eq('id', userId)),
+    fetchRows('profiling', supabase.from('user_profiling').select('*').eq('user_id', userId)),
+    fetchRows('athlete', supabase.from('athletes').select('*').eq('user_id', userId)),
+    fetchRows(
+      'trainer',
+      supabase
+        .from('trainers')
+        .select('user_id, trainer_code, certification_id, specialization, verification_status, verification_submitted_at, verification_reviewed_at, verification_reason')
+        .eq('user_id', userId)
+    ),
+    fetchRows('enrollments', supabase.from('enrollments').select('*').or(asAthleteOrTrainer).order('requested_at')),
+    fetchRows(
+      'test_results',
+      supabase
+        .from('test_results')
+        .select('*, test:tests(name, unit)')
+        .eq('athlete_id', userId)
+        .order('test_date')
+    ),
+    fetchRows(
+      'body_metrics',
+      supabase.from('athlete_body_metrics').select('*').eq('athlete_id', userId).order('measurement_date')
+    ),
+    fetchRows(
+      'goals',
+      supabase
+        .from('athlete_goals')
+        .select('*, test:tests(name, unit)')
+        .eq('athlete_id', userId)
+        .order('created_at')
+    ),
+    fetchRows(
+      'achievements',
+      supabase.from('athlete_achievements').select('*').eq('athlete_id', userId).order('awarded_at')
+    ),
+    fetchRows(
+      'workout_assignments',
+      supabase
+        .from('workout_assignments')
+        .select('*, workout_template:workout_templates(name)')
+        .or(asAthleteOrTrainer)
+        .order('scheduled_date')
+    ),
+    fetchRows('exercise_targets', supabase.from('athlete_exercise_targets').select('*').eq('athlete_id', userId)),
+    fetchRows(
+      'program_assignments',
+      supabase
+        .from('program_assignments')
+        .select('*, program:training_programs(name)')
+        .or(asAthleteOrTrainer)
+        .order('start_date')
+    ),
+    fetchRows('events', supabase.from('events').select('*').eq('created_by_user_id', userId)),
+    fetchRows('event_participations', supabase.from('event_participants').select('*').eq('athlete_id', userId)),
+    fetchRows('event_results', supabase.from('event_results').select('*').eq('athlete_id', userId)),
+    fetchRows(
+      'notifications',
+      supabase
+        .from('notifications')
+        .select('id, type, title, message, data, is_read, read_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at')
+    ),
+    fetchRows(
+      'push_devices',
+      supabase
+        .from('push_devices')
+        .select('platform, device_name, app_version, last_registered_at, created_at')
+        .eq('user_id', userId)
+    ),
+  ]);
+
+  // Email lives in auth.users
+  const { data: authUser } = await supabase.auth.admin.getUserById(userId);
+  if (profile[0] && authUser?.user?.email) {
+    profile[0] = { ...profile[0], email: authUser.user.email };
+  }
+
+  // Sets the athlete logged against their own workouts
+  const ownAssignmentIds = workoutAssignments
+    .filter((assignment) => assignment.athlete_id === userId)
+    .map((assignment) => assignment.id as number);
+
+  const sessionProgress = await fetchRowsByIds('workout_session_progress', ownAssignmentIds, (chunk) =>
+    supabase.from('workout_session_progress').select('*').in('workout_assignment_id', chunk)
+  );
+
+  // Events the user takes part in as well as the ones they created
+  const createdEventIds = new Set(createdEvents.map((event) => event.id as number));
+  const joinedEventIds = [
+    ...new Set(eventParticipations.map((participation) => participation.event_id as number)),
+  ].filter((eventId) => !createdEventIds.has(eventId));
+
+  const joinedEvents = await fetchRowsByIds('events', joinedEventIds, (chunk) =>
+    supabase
+      .from('events')
+      .select('id, title, description, start_date, end_date, location, address, status, recurrence_rule, created_at')
+      .in('id', chunk)
+  );
+
+  const sections: DataExportArchive['sections'] = {
+    profile,
+    profiling,
+    ...(athlete.length > 0 && { athlete }),
+    ...(trainer.length > 0 && { trainer }),
+    enrollments,
+    test_results: testResults,
+    body_metrics: bodyMetrics,
+    goals,
+    achievements,
+    workout_assignments: workoutAssignments,
+    workout_session_progress: sessionProgress,
+    exercise_targets: exerciseTargets,
+    program_assignments: programAssignments,
+    events: [...createdEvents, ...joinedEvents],
+    event_participations: eventParticipations,
+    event_results: eventResults,
+    notifications: notifications.map((notification) => ({
+      ...notification,
+      data: parseNotificationData(notification.data),
+    })),
+    push_devices: pushDevices,
+  };
+
+  if (isTrainer) {
+    const [templates, programs] = await Promise.all([
+      fetchRows('workout_templates', supabase.from('workout_templates').select('*').eq('trainer_id', userId)),
+      fetchRows('training_programs', supabase.from('training_programs').select('*').eq('trainer_id', userId)),
+    ]);
+
+    const [templateExercises, programWorkouts] = await Promise.all([
+      fetchRowsByIds(
+        'workout_template_exercises',
+        templates.map((template) => template.id as number),
+        (chunk) =>
+          supabase
+            .from('workout_exercises')
+            .select('*, exercise:exercises(name, muscle_group)')
+            .in('workout_template_id', chunk)
+            .order('order_index')
+      ),
+      fetchRowsByIds(
+        'program_workouts',
+        programs.map((program) => program.id as number),
+        (chunk) => supabase.from('program_workouts').select('*').in('program_id', chunk)
+      ),
+    ]);
+
+    sections.workout_templates = templates;
+    sections.workout_template_exercises = templateExercises;
+    sections.training_programs = programs;
+    sections.program_workouts = programWorkouts;
+  }
+
+  return {
+    generated_at: now.toISOString(),
+    user_id: userId,
+    role,
+    sections,
+  };
+}
+
+/**
+ * Format a value for a CSV cell
+ * Nested objects and arrays are written as JSON.
+ */
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows as CSV, with a column for every key that appears in any row
+ */
+export function toCsv(rows: ExportRow[]): string {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  if (columns.length === 0) return '';
+
+  const lines = [
+    columns.map(toCsvCell).join(','),
+    ...rows.map((row) => columns.map((column) => toCsvCell(row[column])).join(',')),
+  ];
+
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Zip an archive as data.json plus csv/{section}.csv
+ */
+export function zipDataExport(archive: DataExportArchive): Uint8Array {
+  const files: Record<string, Uint8Array> = {
+    'data.json': strToU8(JSON.stringify(archive, null, 2)),
+  };
+
+  for (const [section, rows] of Object.entries(archive.sections) as [DataExportSection, ExportRow[]][]) {
+    files[`csv/${section}.csv`] = strToU8(toCsv(rows));
+  }
+
+  return zipSync(files);
+}
+
+/**
+ * Storage path of an export archive: {userId}/jejakathlete-export-{date}-{exportId}.zip
+ */
+export function getDataExportPath(dataExport: Pick<DataExport, 'id' | 'user_id'>, now: Date = new Date()): string {
+  return `${dataExport.user_id}/jejakathlete-export-${now.toISOString().slice(0, 10)}-${dataExport.id}.zip`;
+}
+
+/**
+ * Build, upload and finish an export that has been claimed for processing
+ * A failure is recorded on the export rather than thrown.
+ *
+ * @param supabase - Service role client
+ * @param dataExport - Export in the processing state
+ * @param options.notify - Notify the user when it is ready or failed
+ * @returns The updated export
+ */
+export async function runDataExport(
+  supabase: SupabaseClient,
+  dataExport: DataExport,
+  options: { notify?: boolean; now?: Date } = {}
+): Promise<DataExport> {
+  const now = options.now ?? new Date();
+  let fields: Partial<DataExport>;
+
+  try {
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', dataExport.user_id)
+      .single();
+
+    if (userError || !user) {
+      throw new Error('User not found');
+    }
+
+    const archive = await buildDataExportArchive(supabase, dataExport.user_id, user.role, now);
+    const zipped = zipDataExport(archive);
+    const filePath = getDataExportPath(dataExport, now);
+
+    const { error: uploadError } = await supabase.storage
+      .from(DATA_EXPORTS_BUCKET)
+      .upload(filePath, zipped, { contentType: 'application/zip', upsert: true });
+
+    if (uploadError) {
+      console.error('Failed to upload data export:', uploadError);
+      throw new Error('Failed to store the export archive');
+    }
+
+    fields = {
+      status: 'ready',
+      file_path: filePath,
+      file_size: zipped.byteLength,
+      error: null,
+      completed_at: new Date().toISOString(),
+      expires_at: new Date(now.getTime() + DATA_EXPORT_RETENTION_MS).toISOString(),
+    };
+  } catch (error) {
+    console.error(`Data export ${dataExport.id} failed:`, error);
+    fields = {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Export failed',
+      completed_at: new Date().toISOString(),
+    };
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('data_exports')
+    .update(fields)
+    .eq('id', dataExport.id)
+    .select()
+    .single();
+
+  if (updateError || !updated) {
+    console.error('Failed to update data export:', updateError);
+  }
+
+  if (options.notify) {
+    const ready = fields.status === 'ready';
+
+    await notifyUser({
+      user_id: dataExport.user_id,
+      type: 'data_export',
+      title: ready ? 'Your Data Export Is Ready' : 'Data Export Failed',
+      message: ready
+        ? 'Your data is ready to download for the next 7 days'
+        : 'We could not prepare your data export. Please try again.',
+      data: {
+        target: { screen: 'data_export', export_id: dataExport.id },
+        export_id: dataExport.id,
+        status: ready ? 'ready' : 'failed',
+      },
+    });
+  }
+
+  return updated ?? { ...dataExport, ...fields };
+}
+
+/**
+ * Build pending exports, oldest first, and fail ones that stopped processing
+ * Each export is claimed by moving it from pending to processing, so
+ * overlapping runs never build the same export twice.
+ */
+export async function processPendingDataExports(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ ready: number; failed: number; timed_out: number }> {
+  const { data: timedOut, error: timeoutError } = await supabase
+    .from('data_exports')
+    .update({ status: 'failed', error: 'Export timed out', completed_at: now.toISOString() })
+    .eq('status', 'processing')
+    .lt('started_at', new Date(now.getTime() - DATA_EXPORT_TIMEOUT_MS).toISOString())
+    .select('id');
+
+  if (timeoutError) {
+    console.error('Error failing stuck data exports:', timeoutError);
+  }
+
+  const { data: pending, error } = await supabase
+    .from('data_exports')
+    .select('id')
+    .eq('status', 'pending')
+    .order('requested_at', { ascending: true })
+    .limit(DATA_EXPORT_BATCH_SIZE);
+
+  if (error) {
+    console.error('Error fetching pending data exports:', error);
+    return { ready: 0, failed: 0, timed_out: timedOut?.length ?? 0 };
+  }
+
+  let ready = 0;
+  let failed = 0;
+
+  for (const { id } of pending || []) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('data_exports')
+      .update({ status: 'processing', started_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('Error claiming data export:', claimError);
+      continue;
+    }
+    if (!claimed) continue;
+
+    const result = await runDataExport(supabase, claimed, { notify: true, now });
+    if (result.status === 'ready') ready++;
+    else failed++;
+  }
+
+  return { ready, failed, timed_out: timedOut?.length ?? 0 };
+}
+
+/**
+ * Delete the archives of expired exports
+ *
+ * @returns Number of exports expired
+ */
+export async function expireDataExports(supabase: SupabaseClient, now: Date = new Date()): Promise<number> {
+  const { data: expired, error } = await supabase
+    .from('data_exports')
+    .select('id, file_path')
+    .eq('status', 'ready')
+    .lt('expires_at', now.toISOString());
+
+  if (error) {
+    console.error('Error fetching expired data exports:', error);
+    return 0;
+  }
+
+  if (!expired || expired.length === 0) return 0;
+
+  const paths = expired.map((dataExport) => dataExport.file_path).filter((path): path is string => !!path);
+
+  if (paths.length > 0) {
+    const { error: removeError } = await supabase.storage.from(DATA_EXPORTS_BUCKET).remove(paths);
+
+    if (removeError) {
+      // Keep the rows ready so the next run retries
+      console.error('Error deleting expired data export archives:', removeError);
+      return 0;
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('data_exports')
+    .update({ status: 'expired', file_path: null })
+    .in('id', expired.map((dataExport) => dataExport.id));
+
+  if (updateError) {
+    console.error('Error expiring data exports:', updateError);
+    return 0;
+  }
+
+  return expired.length;
+}
+
+/**
+ * Add signed download URLs to ready exports
+ * The client must be able to read the archives: the user's own client, or
+ * the service role client.
+ */
+export async function withDataExportUrls(
+  supabase: SupabaseClient,
+  dataExports: DataExport[]
+): Promise<DataExportWithUrl[]> {
+  const paths = dataExports
+    .filter((dataExport) => dataExport.status === 'ready' && dataExport.file_path)
+    .map((dataExport) => dataExport.file_path as string);
+
+  const urls = new Map<string, string>();
+
+  if (paths.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(DATA_EXPORTS_BUCKET)
+      .createSignedUrls(paths, DATA_EXPORT_URL_TTL, { download: true });
+
+    if (error) {
+      console.error('Failed to sign data export URLs:', error);
+    }
+
+    for (const signed of data || []) {
+      if (signed.path && signed.signedUrl) urls.set(signed.path, signed.signedUrl);
+    }
+  }
+
+  return dataExports.map((dataExport) => ({
+    ...dataExport,
+    url: dataExport.file_path ? urls.get(dataExport.file_path) ?? null : null,
+  }));
+}
@@ -0,0 +1,472 @@
+/**
+ * Domain Notification Utilities for tRPC Server
+ *
+ * The notifications the server sends as a side effect of domain actions:
+ * enrollments, workout assignments, events, personal records, goals and
+ * achievements. Each helper looks up the names it needs, builds the typed
+ * payload with a deep-link target and creates the notifications. Like
+ * `notifyUser`, failures are logged and never fail the action that
+ * triggered them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AchievementDefinition, AthleteGoalWithProgress, EventChange } from '@jejakathlete/shared';
+import { notifyUser, notifyUsers } from './notifications';
+
+// Participants who still expect the event to happen
+const ACTIVE_PARTICIPANT_STATUSES = ['invited', 'pending', 'registered', 'waitlisted', 'confirmed'];
+
+const EVENT_CHANGE_LABELS: Record<Exclude<EventChange, 'cancelled'>, string> = {
+  title: 'name',
+  time: 'time',
+  location: 'location',
+};
+
+/**
+ * Full name of a user, or the fallback if they have none
+ */
+async function getUserName(supabase: SupabaseClient, userId: string, fallback: string): Promise<string> {
+  const { data } = await supabase
+    .from('users')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return data?.full_name || fallback;
+}
+
+/**
+ * Format a YYYY-MM-DD date for messages, e.g. "Mon, 3 Mar"
+ */
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Tell a trainer an athlete asked to enroll with them
+ */
+export async function notifyEnrollmentRequested(
+  supabase: SupabaseClient,
+  enrollment: { id: number; athlete_id: string; trainer_id: string }
+) {
+  try {
+    const athleteName = await getUserName(supabase, enrollment.athlete_id, 'An athlete');
+
+    await notifyUser({
+      user_id: enrollment.trainer_id,
+      type: 'enrollment_request',
+      title: 'New Enrollment Request',
+      message: `${athleteName} wants to train with you`,
+      data: {
+        target: { screen: 'enrollments', enrollment_id: enrollment.id },
+        enrollment_id: enrollment.id,
+        athlete_id: enrollment.athlete_id,
+      },
+    });
+  } catch (error) {
+    console.error('Error sending enrollment request notification:', error);
+  }
+}
+
+/**
+ * Tell an athlete the trainer approved or rejected their request
+ */
+export async function notifyEnrollmentAnswered(
+  supabase: SupabaseClient,
+  enrollment: { id: number; athlete_id: string; trainer_id: string; status: 'approved' | 'rejected' }
+) {
+  try {
+    const trainerName = await getUserName(supabase, enrollment.trainer_id, 'The trainer');
+    const approved = enrollment.status === 'approved';
+
+    await notifyUser({
+      user_id: enrollment.athlete_id,
+      type: 'enrollment_response',
+      title: approved ? 'Enrollment Approved' : 'Enrollment Declined',
+      message: approved
+        ? `${trainerName} accepted your enrollment request`
+        : `${trainerName} declined your enrollment request`,
+      data: {
+        target: { screen: 'enrollments', enrollment_id: enrollment.id },
+        enrollment_id: enrollment.id,
+        trainer_id: enrollment.trainer_id,
+        status: enrollment.status,
+      },
+    });
+  } catch (error) {
+    console.error('Error sending enrollment response notification:', error);
+  }
+}
+
+/**
+ * Tell an athlete they have new workouts, either one workout or a program
+ *
+ * @param assignment.name - Workout template or program name
+ * @param assignment.dates - Scheduled date of each workout
+ */
+export async function notifyWorkoutsAssigned(
+  supabase: SupabaseClient,
+  assignment: {
+    athlete_id: string;
+    trainer_id: string;
+    name: string;
+    workout_assignment_ids: number[];
+    program_assignment_id: number | null;
+    dates: string[];
+  }
+) {
+  if (assignment.workout_assignment_ids.length === 0) return;
+
+  try {
+    const trainerName = await getUserName(supabase, assignment.trainer_id, 'Your trainer');
+    const firstDate = [...assignment.dates].sort()[0] ?? null;
+    const isProgram = assignment.program_assignment_id !== null;
+
+    await notifyUser({
+      user_id: assignment.athlete_id,
+      type: 'workout_assigned',
+      title: isProgram ? 'New Training Program' : 'New Workout Assigned',
+      message: isProgram
+        ? `${trainerName} assigned you "${assignment.name}" (${assignment.workout_assignment_ids.length} workouts${firstDate ? `, starting ${formatDay(firstDate)}` : ''})`
+        : `${trainerName} assigned you "${assignment.name}"${firstDate ? ` for ${formatDay(firstDate)}` : ''}`,
+      data: {
+        target: isProgram
+          ? { screen: 'workouts', program_assignment_id: assignment.program_assignment_id }
+          : { screen: 'workout', workout_assignment_id: assignment.workout_assignment_ids[0] },
+        workout_assignment_ids: assignment.workout_assignment_ids,
+        program_assignment_id: assignment.program_assignment_id,
+        first_date: firstDate,
+      },
+    });
+  } catch (error) {
+    console.error('Error sending workout assignment notification:', error);
+  }
+}
+
+/**
+ * Tell an athlete a program's upcoming workouts moved
+ */
+export async function notifyWorkoutsRescheduled(
+  supabase: SupabaseClient,
+  program: {
+    athlete_id: string;
+    program_assignment_id: number;
+    program_id: number;
+    days_moved: number;
+    workout_count: number;
+  }
+) {
+  if (program.workout_count === 0 || program.days_moved === 0) return;
+
+  try {
+    const { data: programRow } = await supabase
+      .from('training_programs')
+      .select('name')
+      .eq('id', program.program_id)
+      .maybeSingle();
+
+    const days = Math.abs(program.days_moved);
+    const direction = program.days_moved > 0 ? 'later' : 'earlier';
+
+    await notifyUser({
+      user_id: program.athlete_id,
+      type: 'workout_rescheduled',
+      title: 'Workouts Rescheduled',
+      message: `Your upcoming workouts in "${programRow?.name || 'your program'}" moved ${days} day${days === 1 ? '' : 's'} ${direction}`,
+      data: {
+        target: { screen: 'workouts', program_assignment_id: program.program_assignment_id },
+        program_assignment_id: program.program_assignment_id,
+        days_moved: program.days_moved,
+        workout_count: program.workout_count,
+      },
+    });
+  } catch (error) {
+    console.error('Error sending workout reschedule notification:', error);
+  }
+}
+
+/**
+ * Tell a trainer their athlete finished a workout
+ */
+export async function notifyWorkoutCompleted(
+  supabase: SupabaseClient,
+  assignment: { id: number; athlete_id: string; trainer_id: string; workout_template_id: number }
+) {
+  try {
+    const [athleteName, { data: template }] = await Promise.all([
+      getUserName(supabase, assignment.athlete_id, 'An athlete'),
+      supabase.from('workout_templates').select('name').eq('id', assignment.workout_template_id).maybeSingle(),
+    ]);
+
+    await notifyUser({
+      user_id: assignment.trainer_id,
+      type: 'workout_completed',
+      title: 'Workout Completed',
+      message: `${athleteName} completed "${template?.name || 'a workout'}"`,
+      data: {
+        target: { screen: 'workout', workout_assignment_id: assignment.id },
+        workout_assignment_id: assignment.id,
+        athlete_id: assignment.athlete_id,
+      },
+    });
+  } catch (error) {
+    console.error('Error sending workout completion notification:', error);
+  }
+}
+
+/**
+ * Invite athletes who were added to an event
+ */
+export async function notifyEventAssigned(
+  supabase: SupabaseClient,
+  event: { id: number; title: string; start_date: string; created_by_user_id: string },
+  athleteIds: string[]
+) {
+  if (athleteIds.length === 0) return;
+
+  try {
+    const organizerName = await getUserName(supabase, event.created_by_user_id, 'Your trainer');
+
+    await notifyUsers(
+      athleteIds.map((athleteId) => ({
+        user_id: athleteId,
+        type: 'event_assigned' as const,
+        title: 'Event Invitation',
+        message: `${organizerName} added you to "${event.title}" on ${formatDay(event.start_date.slice(0, 10))}`,
+        data: {
+          target: { screen: 'event' as const, event_id: event.id },
+          event_id: event.id,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error('Error sending event invitation notifications:', error);
+  }
+}
+
+/**
+ * Athletes taking part in an event who should hear about changes to it
+ */
+export async function getActiveParticipantIds(supabase: SupabaseClient, eventId: number): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('event_participants')
+    .select('athlete_id')
+    .eq('event_id', eventId)
+    .in('status', ACTIVE_PARTICIPANT_STATUSES);
+
+  if (error) {
+    console.error('Error fetching participants to notify:', error);
+    return [];
+  }
+
+  return [...new Set((data || []).map((participant) => participant.athlete_id as string))];
+}
+
+/**
+ * Tell an event's participants that it changed or was cancelled
+ *
+ * @param changes - What changed; nothing is sent if empty
+ * @param options.athleteIds - Recipients, fetched beforehand when the event is
+ * being deleted (default: the event's active participants)
+ * @param options.deleted - The event no longer exists, so open the schedule
+ * @param options.occurrenceStart - Only the occurrence starting then was
+ * cancelled, or with options.following that occurrence and all later ones
+ */
+export async function notifyEventUpdated(
+  supabase: SupabaseClient,
+  event: { id: number; title: string },
+  changes: EventChange[],
+  options: { athleteIds?: string[]; deleted?: boolean; occurrenceStart?: string; following?: boolean } = {}
+) {
+  if (changes.length === 0) return;
+
+  try {
+    const athleteIds = options.athleteIds ?? await getActiveParticipantIds(supabase, event.id);
+    if (athleteIds.length === 0) return;
+
+    const cancelled = changes.includes('cancelled');
+    const changed = changes
+      .filter((change): change is Exclude<EventChange, 'cancelled'> => change !== 'cancelled')
+      .map((change) => EVENT_CHANGE_LABELS[change]);
+
+    const occurrenceDay = options.occurrenceStart ? formatDay(options.occurrenceStart.slice(0, 10)) : null;
+    const cancelledMessage = !occurrenceDay
+      ? `"${event.title}" has been cancelled`
+      : options.following
+        ? `"${event.title}" has been cancelled from ${occurrenceDay} onwards`
+        : `"${event.title}" on ${occurrenceDay} has been cancelled. Other dates are unchanged.`;
+
+    await notifyUsers(
+      athleteIds.map((athleteId) => ({
+        user_id: athleteId,
+        type: 'event_updated' as const,
+        title: cancelled ? 'Event Cancelled' : 'Event Updated',
+        message: cancelled
+          ? cancelledMessage
+          : `The ${changed.join(' and ')} of "${event.title}" changed`,
+        data: {
+          target: options.deleted
+            ? { screen: 'schedule' as const }
+            : { screen: 'event' as const, event_id: event.id },
+          event_id: event.id,
+          changes,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error('Error sending event update notifications:', error);
+  }
+}
+
+/**
+ * Tell an athlete's trainers about personal records the athlete logged themselves
+ */
+export async function notifyTrainersOfPersonalRecords(
+  supabase: SupabaseClient,
+  athleteId: string,
+  records: { id: number; test_id: number }[]
+) {
+  if (records.length === 0) return;
+
+  try {
+    const [athleteName, { data: enrollments }, { data: tests }] = await Promise.all([
+      getUserName(supabase, athleteId, 'An athlete'),
+      supabase.from('enrollments').select('trainer_id').eq('athlete_id', athleteId).eq('status', 'approved'),
+      supabase.from('tests').select('id, name').in('id', records.map((record) => record.test_id)),
+    ]);
+
+    const trainerIds = [...new Set((enrollments || []).map((enrollment) => enrollment.trainer_id as string))];
+    if (trainerIds.length === 0) return;
+
+    const message = records.length === 1
+      ? `${athleteName} set a new personal best in ${tests?.[0]?.name || 'a fitness test'}`
+      : `${athleteName} set ${records.length} new personal bests`;
+
+    await notifyUsers(
+      trainerIds.map((trainerId) => ({
+        user_id: trainerId,
+        type: 'personal_record' as const,
+        title: 'New Personal Record! 🏆',
+        message,
+        data: {
+          target: { screen: 'athlete' as const, athlete_id: athleteId },
+          athlete_id: athleteId,
+          test_result_ids: records.map((record) => record.id),
+        },
+      }))
+    );
+  } catch (error) {
+    console.error('Error sending personal record notifications:', error);
+  }
+}
+
+/**
+ * The athlete and their approved trainers, who hear about the athlete's goals
+ */
+async function getGoalRecipients(supabase: SupabaseClient, athleteId: string): Promise<string[]> {
+  const { data: enrollments } = await supabase
+    .from('enrollments')
+    .select('trainer_id')
+    .eq('athlete_id', athleteId)
+    .eq('status', 'approved');
+
+  return [athleteId, ...new Set((enrollments || []).map((enrollment) => enrollment.trainer_id as string))];
+}
+
+/**
+ * Describe a goal's target for messages, e.g. "Beep Test of 12 level"
+ */
+function describeGoal(goal: AthleteGoalWithProgress): string {
+  return `${goal.label} of ${goal.target_value}${goal.unit ? ` ${goal.unit}` : ''}`;
+}
+
+/**
+ * Tell an athlete and their trainers the athlete reached a goal
+ */
+export async function notifyGoalAchieved(supabase: SupabaseClient, goal: AthleteGoalWithProgress) {
+  try {
+    const [athleteName, recipients] = await Promise.all([
+      getUserName(supabase, goal.athlete_id, 'An athlete'),
+      getGoalRecipients(supabase, goal.athlete_id),
+    ]);
+
+    await notifyUsers(
+      recipients.map((userId) => ({
+        user_id: userId,
+        type: 'goal_achieved' as const,
+        title: 'Goal Achieved! 🎯',
+        message: userId === goal.athlete_id
+          ? `You reached your goal: ${describeGoal(goal)}`
+          : `${athleteName} reached their goal: ${describeGoal(goal)}`,
+        data: {
+          target: { screen: 'goals' as const, athlete_id: goal.athlete_id, goal_id: goal.id },
+          goal_id: goal.id,
+          athlete_id: goal.athlete_id,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error('Error sending goal achieved notifications:', error);
+  }
+}
+
+/**
+ * Tell an athlete and their trainers a goal is unlikely to be reached in time
+ */
+export async function notifyGoalAtRisk(supabase: SupabaseClient, goal: AthleteGoalWithProgress) {
+  try {
+    const [athleteName, recipients] = await Promise.all([
+      getUserName(supabase, goal.athlete_id, 'An athlete'),
+      getGoalRecipients(supabase, goal.athlete_id),
+    ]);
+
+    const timeLeft = goal.days_left === 1 ? '1 day' : `${goal.days_left} days`;
+
+    await notifyUsers(
+      recipients.map((userId) => ({
+        user_id: userId,
+        type: 'goal_at_risk' as const,
+        title: 'Goal at Risk',
+        message: userId === goal.athlete_id
+          ? `${timeLeft} left to reach your goal: ${describeGoal(goal)}`
+          : `${athleteName} is behind on their goal: ${describeGoal(goal)} (${timeLeft} left)`,
+        data: {
+          target: { screen: 'goals' as const, athlete_id: goal.athlete_id, goal_id: goal.id },
+          goal_id: goal.id,
+          athlete_id: goal.athlete_id,
+          days_left: goal.days_left,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error('Error sending goal at risk notifications:', error);
+  }
+}
+
+/**
+ * Tell an athlete about the badges they just earned, in one notification
+ */
+export async function notifyAchievementsEarned(athleteId: string, achievements: AchievementDefinition[]) {
+  if (achievements.length === 0) return;
+
+  const names = achievements.map((achievement) => achievement.title);
+
+  await notifyUser({
+    user_id: athleteId,
+    type: 'achievement_earned',
+    title: 'Achievement Unlocked! 🏅',
+    message: names.length === 1
+      ? `You earned the "${names[0]}" badge: ${achievements[0].description.toLowerCase()}`
+      : `You earned ${names.length} badges: ${names.join(', ')}`,
+    data: {
+      target: { screen: 'achievements', athlete_id: athleteId },
+      athlete_id: athleteId,
+      achievement_keys: achievements.map((achievement) => achievement.key),
+    },
+  });
+}
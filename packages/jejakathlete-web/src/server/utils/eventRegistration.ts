@@ -0,0 +1,188 @@
+/**
+ * Event Registration Utilities for tRPC Server
+ *
+ * Capacity, registration window and waitlist handling for events athletes
+ * can join themselves. Invited, registered and confirmed participants hold
+ * a spot; waitlisted athletes are promoted in registration order as spots
+ * free up.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TRPCError } from '@trpc/server';
+import { syncEventReminders } from './eventReminders';
+import { notifyUser } from './notifications';
+import { formatEventTime, normalizeEventTime } from './recurrence';
+import { DEFAULT_TIMEZONE, zonedNow } from './timezone';
+
+// Participant statuses that take up one of the event's spots
+export const SPOT_HOLDING_STATUSES = ['invited', 'registered', 'confirmed', 'attended'];
+
+// SQLSTATE raised by the event_participants capacity trigger
+const EVENT_FULL_ERROR_CODE = 'EF001';
+
+export interface RegistrationWindow {
+  start_date: string;
+  status: string;
+  is_public: boolean;
+  registration_deadline: string | null;
+  recurrence_rule: string | null;
+}
+
+/**
+ * Check whether an event currently accepts self-registration
+ * Without a deadline, one-off events close when they start; recurring
+ * series stay open.
+ *
+ * @returns A reason the event is closed, or null when it is open
+ */
+export function getRegistrationClosedReason(event: RegistrationWindow): string | null {
+  if (!event.is_public) return 'This event is invite only';
+  if (event.status !== 'upcoming' && event.status !== 'ongoing') return 'This event is not open for registration';
+
+  const now = formatEventTime(zonedNow(DEFAULT_TIMEZONE));
+  const deadline = event.registration_deadline
+    ? normalizeEventTime(event.registration_deadline)
+    : event.recurrence_rule
+      ? null
+      : normalizeEventTime(event.start_date);
+
+  if (deadline && now > deadline) return 'Registration for this event has closed';
+
+  return null;
+}
+
+/**
+ * Count the spots taken in an event
+ *
+ * @param supabase - Supabase client that can see every participant of the
+ *   event (service role when called on behalf of an athlete)
+ */
+export async function countTakenSpots(supabase: SupabaseClient, eventId: number): Promise<number> {
+  const { count, error } = await supabase
+    .from('event_participants')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', eventId)
+    .in('status', SPOT_HOLDING_STATUSES);
+
+  if (error) {
+    console.error('Error counting event participants:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to count event participants',
+    });
+  }
+
+  return count || 0;
+}
+
+/**
+ * Check whether a participant write was rejected because the event is full
+ * The database enforces capacity, so a spot counted as free can be taken by
+ * a concurrent registration before the write lands.
+ */
+export function isEventFullError(error: { code?: string } | null): boolean {
+  return error?.code === EVENT_FULL_ERROR_CODE;
+}
+
+/**
+ * Waitlist position of an athlete, starting at 1
+ *
+ * @param supabase - Supabase client that can see every participant of the
+ *   event (service role when called on behalf of an athlete)
+ * @returns The position, or null if the athlete is not waitlisted
+ */
+export async function getWaitlistPosition(
+  supabase: SupabaseClient,
+  eventId: number,
+  athleteId: string
+): Promise<number | null> {
+  const { data: waitlist, error } = await supabase
+    .from('event_participants')
+    .select('athlete_id')
+    .eq('event_id', eventId)
+    .eq('status', 'waitlisted')
+    .order('registration_date', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching event waitlist:', error);
+    return null;
+  }
+
+  const index = waitlist.findIndex((entry) => entry.athlete_id === athleteId);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Move waitlisted athletes into free spots, longest waiting first
+ * Promoted athletes are notified and get reminders for the event.
+ *
+ * @param supabase - Supabase client allowed to update any participant of the
+ *   event (service role when called on behalf of an athlete)
+ * @param eventId - Event to fill
+ * @returns Ids of the promoted athletes
+ */
+export async function promoteWaitlist(supabase: SupabaseClient, eventId: number): Promise<string[]> {
+  const { data: event } = await supabase
+    .from('events')
+    .select('id, title, max_participants, status')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (!event || event.status === 'cancelled' || event.status === 'completed') return [];
+
+  const { data: waitlist, error } = await supabase
+    .from('event_participants')
+    .select('id, athlete_id')
+    .eq('event_id', eventId)
+    .eq('status', 'waitlisted')
+    .order('registration_date', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching event waitlist:', error);
+    return [];
+  }
+
+  if (!waitlist || waitlist.length === 0) return [];
+
+  const freeSpots = event.max_participants === null
+    ? waitlist.length
+    : event.max_participants - await countTakenSpots(supabase, eventId);
+
+  const promoted: string[] = [];
+
+  for (const entry of waitlist.slice(0, Math.max(0, freeSpots))) {
+    // Only promote entries still waitlisted, so concurrent runs promote once
+    const { data: updated, error: updateError } = await supabase
+      .from('event_participants')
+      .update({ status: 'registered', updated_at: new Date().toISOString() })
+      .eq('id', entry.id)
+      .eq('status', 'waitlisted')
+      .select('id');
+
+    if (isEventFullError(updateError)) break;
+    if (updateError) {
+      console.error('Error promoting waitlisted athlete:', updateError);
+      continue;
+    }
+    if (!updated || updated.length === 0) continue;
+
+    promoted.push(entry.athlete_id);
+
+    await syncEventReminders(supabase, eventId, entry.athlete_id);
+    await notifyUser({
+      user_id: entry.athlete_id,
+      type: 'event_response',
+      title: 'You\'re In!',
+      message: `A spot opened up and you are now registered for "${event.title}"`,
+      data: {
+        target: { screen: 'event', event_id: eventId },
+        event_id: eventId,
+        status: 'registered',
+      },
+    });
+  }
+
+  return promoted;
+}
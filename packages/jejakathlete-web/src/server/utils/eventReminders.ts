@@ -0,0 +1,315 @@
+/**
+ * Event Reminder Utilities for tRPC Server
+ *
+ * Keeps event_reminders rows in line with events and turns due reminders
+ * into notifications. Reminder times are stored in UTC; event times are
+ * wall-clock times in DEFAULT_TIMEZONE.
+ *
+ * Sync failures are logged rather than thrown so the originating event
+ * change succeeds.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { expandOccurrences, formatEventTime, normalizeEventTime, parseEventTime } from './recurrence';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from './timezone';
+import { filterRecipients } from './notificationPreferences';
+
+// Recurring events get reminders for occurrences this far ahead
+export const REMINDER_HORIZON_DAYS = 14;
+
+// Due reminders handled per dispatch run
+const DISPATCH_BATCH_SIZE = 500;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Participants without a confirmed spot do not get reminders
+const INACTIVE_PARTICIPANT_STATUSES = ['declined', 'withdrawn', 'pending', 'waitlisted'];
+
+interface ReminderRow {
+  id: number;
+  user_id: string;
+  offset_minutes: number | null;
+  occurrence_start: string | null;
+  reminder_time: string;
+  is_sent: boolean;
+}
+
+/**
+ * Describe a reminder offset, e.g. "in 2 hours" or "tomorrow"
+ */
+export function formatReminderOffset(minutes: number): string {
+  if (minutes === 0) return 'now';
+  if (minutes === 1440) return 'tomorrow';
+  if (minutes % 1440 === 0) return `in ${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? 'in 1 hour' : `in ${minutes / 60} hours`;
+  return `in ${minutes} minutes`;
+}
+
+/**
+ * Key identifying a reminder independent of its row
+ */
+function reminderKey(userId: string, offsetMinutes: number, occurrenceStart: string): string {
+  return `${userId}|${offsetMinutes}|${normalizeEventTime(occurrenceStart) || occurrenceStart}`;
+}
+
+/**
+ * Bring an event's unsent reminders in line with the event
+ * Creates reminders for each active participant, reminder offset and
+ * occurrence (upcoming occurrences only for recurring events) and removes
+ * unsent reminders for times that no longer apply, e.g. after a reschedule,
+ * cancellation, offset change or a participant declining. Reminders already
+ * sent are never recreated.
+ *
+ * @param supabase - Supabase client allowed to manage the event's reminders
+ * @param eventId - Event to sync
+ * @param userId - Only sync this participant's reminders, e.g. when an
+ *   athlete responds to an invitation with their own client
+ */
+export async function syncEventReminders(
+  supabase: SupabaseClient,
+  eventId: number,
+  userId?: string
+): Promise<void> {
+  try {
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, title, start_date, end_date, status, recurrence_rule, recurrence_exdates, reminder_offsets')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (eventError) {
+      console.error('Error fetching event for reminders:', eventError);
+      return;
+    }
+
+    let participantsQuery = supabase
+      .from('event_participants')
+      .select('athlete_id, status')
+      .eq('event_id', eventId);
+    let existingQuery = supabase
+      .from('event_reminders')
+      .select('id, user_id, offset_minutes, occurrence_start, reminder_time, is_sent')
+      .eq('event_id', eventId);
+
+    if (userId) {
+      participantsQuery = participantsQuery.eq('athlete_id', userId);
+      existingQuery = existingQuery.eq('user_id', userId);
+    }
+
+    const [{ data: participants }, { data: existing, error: existingError }] = await Promise.all([
+      participantsQuery,
+      existingQuery,
+    ]);
+
+    if (existingError) {
+      console.error('Error fetching event reminders:', existingError);
+      return;
+    }
+
+    const now = Date.now();
+    const offsets: number[] = event?.reminder_offsets || [];
+    const isActive = !!event && event.status !== 'cancelled' && event.status !== 'completed';
+    const userIds = (participants || [])
+      .filter((participant) => !INACTIVE_PARTICIPANT_STATUSES.includes(participant.status))
+      .map((participant) => participant.athlete_id as string);
+
+    // Occurrences still needing reminders; the lower bound keeps reminders
+    // that just became due until the dispatcher has sent them
+    const occurrences = !isActive || offsets.length === 0
+      ? []
+      : event.recurrence_rule
+        ? expandOccurrences(
+            event,
+            formatEventTime(new Date(now - DAY_MS)),
+            formatEventTime(new Date(now + REMINDER_HORIZON_DAYS * DAY_MS))
+          )
+        : [{ start_date: event.start_date, end_date: event.end_date }];
+
+    const desired = new Map<string, { user_id: string; offset_minutes: number; occurrence_start: string; reminder_time: string }>();
+    for (const occurrence of occurrences) {
+      const start = parseEventTime(occurrence.start_date);
+      if (!start) continue;
+      const startsAt = zonedTimeToUtc(start, DEFAULT_TIMEZONE).getTime();
+
+      for (const offset of offsets) {
+        const reminderTime = formatEventTime(new Date(startsAt - offset * MINUTE_MS));
+        for (const userId of userIds) {
+          desired.set(reminderKey(userId, offset, occurrence.start_date), {
+            user_id: userId,
+            offset_minutes: offset,
+            occurrence_start: normalizeEventTime(occurrence.start_date) || occurrence.start_date,
+            reminder_time: reminderTime,
+          });
+        }
+      }
+    }
+
+    const existingKeys = new Set<string>();
+    const staleIds: number[] = [];
+
+    for (const reminder of (existing || []) as ReminderRow[]) {
+      // Reminders created outside this system are left alone
+      if (reminder.offset_minutes === null || !reminder.occurrence_start) continue;
+
+      const key = reminderKey(reminder.user_id, reminder.offset_minutes, reminder.occurrence_start);
+      const wanted = desired.get(key);
+
+      if (!reminder.is_sent && (!wanted || normalizeEventTime(reminder.reminder_time) !== wanted.reminder_time)) {
+        staleIds.push(reminder.id);
+      } else {
+        existingKeys.add(key);
+      }
+    }
+
+    if (staleIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('event_reminders')
+        .delete()
+        .in('id', staleIds)
+        .eq('is_sent', false);
+
+      if (deleteError) {
+        console.error('Error removing outdated event reminders:', deleteError);
+      }
+    }
+
+    const nowIso = formatEventTime(new Date(now));
+    const toInsert = [...desired.entries()]
+      .filter(([key, reminder]) => !existingKeys.has(key) && reminder.reminder_time > nowIso)
+      .map(([, reminder]) => ({
+        ...reminder,
+        event_id: eventId,
+        message: `"${event!.title}" starts ${formatReminderOffset(reminder.offset_minutes)}`,
+        is_sent: false,
+      }));
+
+    if (toInsert.length > 0) {
+      const { error: insertError } = await supabase.from('event_reminders').insert(toInsert);
+
+      if (insertError) {
+        console.error('Error creating event reminders:', insertError);
+      }
+    }
+  } catch (error) {
+    console.error('Unexpected error syncing event reminders:', error);
+  }
+}
+
+/**
+ * Sync reminders for every active recurring event with reminder offsets,
+ * so occurrences entering the reminder horizon get their reminders
+ *
+ * @param supabase - Service role Supabase client
+ * @returns Number of events synced
+ */
+export async function refreshRecurringReminders(supabase: SupabaseClient): Promise<number> {
+  const { data: events, error } = await supabase
+    .from('events')
+    .select('id, reminder_offsets')
+    .not('recurrence_rule', 'is', null)
+    .in('status', ['draft', 'upcoming', 'ongoing']);
+
+  if (error) {
+    console.error('Error fetching recurring events for reminders:', error);
+    return 0;
+  }
+
+  const withReminders = (events || []).filter(
+    (event) => Array.isArray(event.reminder_offsets) && event.reminder_offsets.length > 0
+  );
+
+  for (const event of withReminders) {
+    await syncEventReminders(supabase, event.id);
+  }
+
+  return withReminders.length;
+}
+
+/**
+ * Turn due reminders into notifications
+ * Each reminder is claimed by flipping is_sent with a conditional update, so
+ * overlapping runs never notify twice. If the notifications cannot be
+ * created the claim is released and the reminders are retried next run.
+ *
+ * @param supabase - Service role Supabase client
+ * @returns Counts of reminders sent and skipped (event cancelled or gone, or
+ * the user turned event reminders off)
+ */
+export async function dispatchDueReminders(supabase: SupabaseClient) {
+  const nowIso = formatEventTime(new Date());
+
+  const { data: due, error: dueError } = await supabase
+    .from('event_reminders')
+    .select('id, event_id, user_id, message, occurrence_start, event:events(id, title, status, location)')
+    .eq('is_sent', false)
+    .lte('reminder_time', nowIso)
+    .order('reminder_time', { ascending: true })
+    .limit(DISPATCH_BATCH_SIZE);
+
+  if (dueError) {
+    console.error('Error fetching due reminders:', dueError);
+    return { sent: 0, skipped: 0 };
+  }
+
+  if (!due || due.length === 0) {
+    return { sent: 0, skipped: 0 };
+  }
+
+  // Claim the reminders; only rows still unsent are returned
+  const { data: claimed, error: claimError } = await supabase
+    .from('event_reminders')
+    .update({ is_sent: true, sent_at: nowIso })
+    .in('id', due.map((reminder) => reminder.id))
+    .eq('is_sent', false)
+    .select('id');
+
+  if (claimError) {
+    console.error('Error claiming due reminders:', claimError);
+    return { sent: 0, skipped: 0 };
+  }
+
+  const claimedIds = new Set((claimed || []).map((reminder) => reminder.id));
+  const reminders = (due as Record<string, any>[]).filter((reminder) => claimedIds.has(reminder.id));
+  const active = reminders.filter(
+    (reminder) => reminder.event && reminder.event.status !== 'cancelled'
+  );
+
+  // Reminders for users who turned them off are claimed but not delivered
+  const recipients = new Set(
+    await filterRecipients(supabase, active.map((reminder) => reminder.user_id), 'event_reminder', 'in_app')
+  );
+  const deliverable = active.filter((reminder) => recipients.has(reminder.user_id));
+
+  if (deliverable.length > 0) {
+    const { error: notifyError } = await supabase.from('notifications').insert(
+      deliverable.map((reminder) => ({
+        user_id: reminder.user_id,
+        type: 'event_reminder',
+        title: 'Event Reminder',
+        message: reminder.message || `"${reminder.event.title}" is coming up`,
+        data: {
+          target: { screen: 'event', event_id: reminder.event_id },
+          event_id: reminder.event_id,
+          occurrence_start: reminder.occurrence_start,
+          location: reminder.event.location,
+        },
+        is_read: false,
+      }))
+    );
+
+    if (notifyError) {
+      console.error('Error creating reminder notifications:', notifyError);
+
+      // Release the claim so the next run retries
+      await supabase
+        .from('event_reminders')
+        .update({ is_sent: false, sent_at: null })
+        .in('id', deliverable.map((reminder) => reminder.id));
+
+      return { sent: 0, skipped: reminders.length - deliverable.length };
+    }
+  }
+
+  return { sent: deliverable.length, skipped: reminders.length - deliverable.length };
+}
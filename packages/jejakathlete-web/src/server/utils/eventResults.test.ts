@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { rankResults, type RankableResult } from './eventResults';
+
+function result(id: number, testId: number | null, value: number | null): RankableResult {
+  return testId === null
+    ? { id, test_id: null, result_value: null, score: value }
+    : { id, test_id: testId, result_value: value, score: null };
+}
+
+describe('rankResults', () => {
+  it('ranks by score, highest first, when no test is linked', () => {
+    const ranks = rankResults([result(1, null, 70), result(2, null, 90), result(3, null, 80)], new Map());
+
+    expect(Object.fromEntries(ranks)).toEqual({ 1: 3, 2: 1, 3: 2 });
+  });
+
+  it('gives tied results the same rank and skips the places they share', () => {
+    const ranks = rankResults(
+      [result(1, null, 90), result(2, null, 80), result(3, null, 80), result(4, null, 70)],
+      new Map()
+    );
+
+    expect(Object.fromEntries(ranks)).toEqual({ 1: 1, 2: 2, 3: 2, 4: 4 });
+  });
+
+  it('ranks lower-is-better tests ascending', () => {
+    const ranks = rankResults(
+      [result(1, 7, 12.4), result(2, 7, 11.9), result(3, 7, 12.1)],
+      new Map([[7, 'lower']])
+    );
+
+    expect(Object.fromEntries(ranks)).toEqual({ 1: 3, 2: 1, 3: 2 });
+  });
+
+  it('ranks each test separately', () => {
+    const ranks = rankResults(
+      [result(1, 7, 12.4), result(2, 8, 40), result(3, 7, 11.9), result(4, 8, 55)],
+      new Map<number, 'higher' | 'lower'>([[7, 'lower'], [8, 'higher']])
+    );
+
+    expect(Object.fromEntries(ranks)).toEqual({ 1: 2, 2: 2, 3: 1, 4: 1 });
+  });
+
+  it('leaves results without a value unranked', () => {
+    const ranks = rankResults([result(1, 7, null), result(2, 7, 30), result(3, null, null)], new Map());
+
+    expect(Object.fromEntries(ranks)).toEqual({ 1: null, 2: 1, 3: null });
+  });
+});
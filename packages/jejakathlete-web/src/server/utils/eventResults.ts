@@ -0,0 +1,234 @@
+/**
+ * Event Result Utilities for tRPC Server
+ *
+ * Ranking and test history integration for competition results recorded
+ * against events. Results linked to a fitness test are ranked by the test's
+ * improvement direction; other results are ranked by score, highest first.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TRPCError } from '@trpc/server';
+import { insertTestResultWithRecordCheck, refreshBestRecord } from './testResults';
+
+export interface RankableResult {
+  id: number;
+  test_id: number | null;
+  result_value: number | null;
+  score: number | null;
+}
+
+export interface CreatedTestResult {
+  id: number;
+  athlete_id: string;
+  test_id: number;
+}
+
+export interface CompetitionResult {
+  athlete_id: string;
+  test_id: number | null;
+  result_value: number | null;
+  result_text: string | null;
+  notes: string | null;
+  test_result_id: number | null;
+}
+
+/**
+ * Rank results using standard competition ranking (1, 2, 2, 4)
+ * Results are grouped by test so mixed tests are never compared; results
+ * without a value to rank by are left unranked.
+ *
+ * @param results - Results to rank
+ * @param directions - Improvement direction of each linked test
+ * @returns Map of result id to rank position, or null when unranked
+ */
+export function rankResults(
+  results: RankableResult[],
+  directions: Map<number, 'higher' | 'lower'>
+): Map<number, number | null> {
+  const ranks = new Map<number, number | null>();
+  const groups = new Map<number | null, RankableResult[]>();
+
+  for (const result of results) {
+    const group = groups.get(result.test_id) || [];
+    group.push(result);
+    groups.set(result.test_id, group);
+  }
+
+  for (const [testId, group] of groups) {
+    const lowerIsBetter = testId !== null && directions.get(testId) === 'lower';
+    const valueOf = (result: RankableResult) => (testId !== null ? result.result_value : result.score);
+
+    const ranked = group
+      .filter((result) => valueOf(result) !== null)
+      .sort((a, b) => (lowerIsBetter ? valueOf(a)! - valueOf(b)! : valueOf(b)! - valueOf(a)!));
+
+    ranked.forEach((result, index) => {
+      const previous = ranked[index - 1];
+      const rank = previous && valueOf(previous) === valueOf(result) ? ranks.get(previous.id)! : index + 1;
+      ranks.set(result.id, rank);
+    });
+
+    for (const result of group) {
+      if (!ranks.has(result.id)) ranks.set(result.id, null);
+    }
+  }
+
+  return ranks;
+}
+
+/**
+ * Recalculate and store rank positions for all results of an event
+ *
+ * @param supabase - Supabase client allowed to manage the event's results
+ * @param eventId - Event to rank
+ * @returns Number of results whose rank changed
+ */
+export async function rankEventResults(supabase: SupabaseClient, eventId: number): Promise<number> {
+  const { data: results, error } = await supabase
+    .from('event_results')
+    .select('id, test_id, result_value, score, rank_position')
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error('Error fetching event results for ranking:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch event results',
+    });
+  }
+
+  const testIds = [...new Set(results.map((result) => result.test_id).filter((id): id is number => id !== null))];
+  const { data: tests } = testIds.length > 0
+    ? await supabase.from('tests').select('id, improvement_direction').in('id', testIds)
+    : { data: [] };
+
+  const directions = new Map((tests || []).map((test) => [test.id, test.improvement_direction]));
+  const ranks = rankResults(results, directions);
+  const changed = results.filter((result) => (ranks.get(result.id) ?? null) !== result.rank_position);
+
+  for (const result of changed) {
+    const { error: updateError } = await supabase
+      .from('event_results')
+      .update({ rank_position: ranks.get(result.id) ?? null })
+      .eq('id', result.id);
+
+    if (updateError) {
+      console.error('Error updating event result rank:', updateError);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to rank event results',
+      });
+    }
+  }
+
+  return changed.length;
+}
+
+/**
+ * Keep the athlete's test history in step with a competition result
+ * A result with a test and value creates a test result on the event date
+ * (with personal record detection) or updates the one it created before.
+ * Removing the test or value removes the linked test result. Runs before
+ * the event result is saved, which stores the returned link.
+ *
+ * @param supabase - Service role client; athletes who registered
+ *   themselves needn't be enrolled with the trainer recording the result
+ * @param result - Event result about to be saved, with its current link
+ * @param event - Event the result belongs to
+ * @param recordedBy - User recording the result
+ * @returns The linked test result id, whether it is a personal record and
+ *   whether it was created by this call
+ */
+export async function syncCompetitionTestResult(
+  supabase: SupabaseClient,
+  result: CompetitionResult,
+  event: { title: string; start_date: string },
+  recordedBy: string
+): Promise<{ test_result_id: number | null; is_best_record: boolean; created: boolean }> {
+  const notes = result.notes ? `${event.title}: ${result.notes}` : `Competition: ${event.title}`;
+
+  // Linked test result exists; update it or remove it
+  if (result.test_result_id) {
+    const { data: linked } = await supabase
+      .from('test_results')
+      .select('id, test_id')
+      .eq('id', result.test_result_id)
+      .maybeSingle();
+
+    if (linked && result.test_id === linked.test_id && result.result_value !== null) {
+      const { error } = await supabase
+        .from('test_results')
+        .update({
+          result_value: result.result_value,
+          result_text: result.result_text,
+          notes,
+        })
+        .eq('id', linked.id);
+
+      if (error) {
+        console.error('Error updating competition test result:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update test result',
+        });
+      }
+
+      const bestId = await refreshBestRecord(supabase, result.athlete_id, linked.test_id);
+      return { test_result_id: linked.id, is_best_record: bestId === linked.id, created: false };
+    }
+
+    if (linked) {
+      await supabase.from('test_results').delete().eq('id', linked.id);
+      await refreshBestRecord(supabase, result.athlete_id, linked.test_id);
+    }
+  }
+
+  if (result.test_id === null || result.result_value === null) {
+    return { test_result_id: null, is_best_record: false, created: false };
+  }
+
+  const testResult = await insertTestResultWithRecordCheck(supabase, {
+    athlete_id: result.athlete_id,
+    test_id: result.test_id,
+    result_value: result.result_value,
+    result_text: result.result_text,
+    test_date: event.start_date.slice(0, 10),
+    notes,
+    recorded_by_user_id: recordedBy,
+  });
+
+  return { test_result_id: testResult.id, is_best_record: testResult.is_best_record, created: true };
+}
+
+/**
+ * Remove test results created for competition results that failed to save
+ * Restores the athletes' previous best records. Failures are logged, so the
+ * original error can still be reported.
+ *
+ * @param supabase - Service role client that created the test results
+ * @param created - Test results created while saving the event results
+ */
+export async function discardCompetitionTestResults(
+  supabase: SupabaseClient,
+  created: CreatedTestResult[]
+): Promise<void> {
+  if (created.length === 0) return;
+
+  const { error } = await supabase
+    .from('test_results')
+    .delete()
+    .in('id', created.map((testResult) => testResult.id));
+
+  if (error) {
+    console.error('Error discarding competition test results:', error);
+    return;
+  }
+
+  const seen = new Set<string>();
+  for (const testResult of created) {
+    const key = `${testResult.athlete_id}:${testResult.test_id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    await refreshBestRecord(supabase, testResult.athlete_id, testResult.test_id);
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Goal Utilities for tRPC Server
+ *
+ * Athlete goals are a target for a fitness test result, a body metric or the
+ * number of completed workouts, to reach by a deadline. Progress is computed
+ * when read rather than stored:
+ * - Test goals use the best result since the goal started, in the test's
+ *   improvement direction.
+ * - Body metric goals use the latest measurement of the metric.
+ * - Workout count goals count workouts completed since the goal started.
+ *
+ * `evaluateGoals` runs after new results, metrics or finished workouts and
+ * daily from the scheduler. It marks goals achieved or missed and tells the
+ * athlete and their trainers when a goal is reached or falling behind.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AthleteGoal, AthleteGoalWithProgress, GoalMetric } from '@jejakathlete/shared';
+import { evaluateAchievements } from './achievements';
+import { notifyGoalAchieved, notifyGoalAtRisk } from './domainNotifications';
+import { daysBetween, programToday } from './programs';
+
+// A goal with this many days left that isn't reached is at risk
+const AT_RISK_DAYS_LEFT = 7;
+
+// A goal is also at risk when progress trails the time elapsed by this much
+const AT_RISK_PROGRESS_GAP = 0.25;
+
+export const GOAL_METRICS: Record<GoalMetric, { label: string; unit: string | null }> = {
+  weight: { label: 'Weight', unit: 'kg' },
+  body_fat_percentage: { label: 'Body fat', unit: '%' },
+  muscle_mass: { label: 'Muscle mass', unit: 'kg' },
+  bmi: { label: 'BMI', unit: null },
+};
+
+/**
+ * Whether a value reaches the target in the goal's direction
+ */
+function isReached(goal: Pick<AthleteGoal, 'target_value' | 'direction'>, value: number | null): boolean {
+  if (value === null) return false;
+  return goal.direction === 'lower' ? value <= goal.target_value : value >= goal.target_value;
+}
+
+/**
+ * Share of the way from the baseline to the target, from 0 to 1
+ * Goals without a baseline count up from zero when higher is better; a
+ * lower-is-better goal without one only shows progress once it's reached.
+ */
+function getProgress(goal: AthleteGoal, current: number | null): number | null {
+  if (current === null) return null;
+  if (isReached(goal, current)) return 1;
+
+  const baseline = goal.baseline_value ?? (goal.direction === 'higher' ? 0 : null);
+  if (baseline === null || baseline === goal.target_value) return null;
+
+  const progress = (current - baseline) / (goal.target_value - baseline);
+  return Math.min(1, Math.max(0, progress));
+}
+
+/**
+ * Add progress to an athlete's goals
+ *
+ * @param supabase - Supabase client that can read the athlete's results,
+ *   metrics and workouts
+ * @param athleteId - Athlete the goals belong to
+ * @param goals - The athlete's goals
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export async function getGoalsProgress(
+  supabase: SupabaseClient,
+  athleteId: string,
+  goals: AthleteGoal[],
+  today: string = programToday()
+): Promise<AthleteGoalWithProgress[]> {
+  if (goals.length === 0) return [];
+
+  const testIds = [...new Set(goals.filter((goal) => goal.test_id !== null).map((goal) => goal.test_id as number))];
+  const hasMetricGoals = goals.some((goal) => goal.goal_type === 'body_metric');
+  const earliestWorkoutStart = goals
+    .filter((goal) => goal.goal_type === 'workout_count')
+    .map((goal) => goal.start_date)
+    .sort()[0];
+
+  const [{ data: tests }, { data: results }, { data: metrics }, { data: workouts }] = await Promise.all([
+    testIds.length > 0
+      ? supabase.from('tests').select('id, name, unit').in('id', testIds)
+      : Promise.resolve({ data: [] as { id: number; name: string; unit: string | null }[] }),
+    testIds.length > 0
+      ? supabase
+          .from('test_results')
+          .select('test_id, result_value, test_date')
+          .eq('athlete_id', athleteId)
+          .in('test_id', testIds)
+          .not('result_value', 'is', null)
+      : Promise.resolve({ data: [] as { test_id: number; result_value: number; test_date: string }[] }),
+    hasMetricGoals
+      ? supabase
+          .from('athlete_body_metrics')
+          .select('measurement_date, weight, body_fat_percentage, muscle_mass, bmi')
+          .eq('athlete_id', athleteId)
+          .order('measurement_date', { ascending: false })
+      : Promise.resolve({ data: [] as Record<string, any>[] }),
+    earliestWorkoutStart
+      ? supabase
+          .from('workout_assignments')
+          .select('completed_at')
+          .eq('athlete_id', athleteId)
+          .eq('status', 'completed')
+          .gte('completed_at', earliestWorkoutStart)
+      : Promise.resolve({ data: [] as { completed_at: string }[] }),
+  ]);
+
+  const testsById = new Map((tests || []).map((test) => [test.id, test]));
+
+  return goals.map((goal) => {
+    // Results and workouts count from the start date to the end of the deadline
+    const inWindow = (date: string | null) =>
+      !!date && date.slice(0, 10) >= goal.start_date && date.slice(0, 10) <= goal.deadline;
+
+    let label = goal.title || 'Goal';
+    let unit: string | null = null;
+    let current: number | null = null;
+
+    if (goal.goal_type === 'test') {
+      const test = testsById.get(goal.test_id as number);
+      label = goal.title || test?.name || 'Fitness test';
+      unit = test?.unit ?? null;
+
+      const values = (results || [])
+        .filter((result) => result.test_id === goal.test_id && inWindow(result.test_date))
+        .map((result) => result.result_value as number);
+
+      if (values.length > 0) {
+        current = goal.direction === 'lower' ? Math.min(...values) : Math.max(...values);
+      }
+    } else if (goal.goal_type === 'body_metric') {
+      const metric = GOAL_METRICS[goal.metric as GoalMetric];
+      label = goal.title || metric.label;
+      unit = metric.unit;
+
+      const latest = (metrics || []).find(
+        (row) => row[goal.metric as GoalMetric] !== null && row.measurement_date.slice(0, 10) <= goal.deadline
+      );
+      current = latest ? Number(latest[goal.metric as GoalMetric]) : null;
+    } else {
+      label = goal.title || 'Completed workouts';
+      unit = 'workouts';
+      current = (workouts || []).filter((workout) => inWindow(workout.completed_at)).length;
+    }
+
+    const progress = getProgress(goal, current);
+    const daysLeft = Math.max(0, daysBetween(today, goal.deadline));
+    const totalDays = Math.max(1, daysBetween(goal.start_date, goal.deadline));
+    const elapsed = Math.min(1, Math.max(0, daysBetween(goal.start_date, today) / totalDays));
+
+    const atRisk =
+      goal.status === 'active' &&
+      !isReached(goal, current) &&
+      (daysLeft <= AT_RISK_DAYS_LEFT || (progress !== null && elapsed - progress > AT_RISK_PROGRESS_GAP));
+
+    return {
+      ...goal,
+      label,
+      unit,
+      current_value: current,
+      progress,
+      days_left: daysLeft,
+      at_risk: atRisk,
+    };
+  });
+}
+
+/**
+ * Current value of what a new goal measures, stored as its baseline
+ * Workout count goals start from zero and have no baseline.
+ */
+export async function getGoalBaseline(
+  supabase: SupabaseClient,
+  athleteId: string,
+  goal: { goal_type: AthleteGoal['goal_type']; test_id?: number | null; metric?: GoalMetric | null; direction: 'higher' | 'lower' }
+): Promise<number | null> {
+  if (goal.goal_type === 'test' && goal.test_id) {
+    const { data } = await supabase
+      .from('test_results')
+      .select('result_value')
+      .eq('athlete_id', athleteId)
+      .eq('test_id', goal.test_id)
+      .not('result_value', 'is', null)
+      .order('result_value', { ascending: goal.direction === 'lower' })
+      .limit(1)
+      .maybeSingle();
+
+    return data?.result_value ?? null;
+  }
+
+  if (goal.goal_type === 'body_metric' && goal.metric) {
+    const { data } = await supabase
+      .from('athlete_body_metrics')
+      .select(goal.metric)
+      .eq('athlete_id', athleteId)
+      .not(goal.metric, 'is', null)
+      .order('measurement_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const value = (data as Record<string, any> | null)?.[goal.metric];
+    return value === undefined || value === null ? null : Number(value);
+  }
+
+  return null;
+}
+
+/**
+ * Update the status of an athlete's active goals and send notifications
+ * Reached goals are marked achieved, goals past their deadline are marked
+ * missed, and an at-risk notification is sent once per goal. Failures are
+ * logged and never fail the action that triggered the evaluation.
+ *
+ * @param supabase - Service role client; status changes bypass RLS
+ * @param athleteId - Athlete whose goals to evaluate
+ */
+export async function evaluateGoals(
+  supabase: SupabaseClient,
+  athleteId: string,
+  today: string = programToday()
+): Promise<{ achieved: number; missed: number; atRisk: number }> {
+  const summary = { achieved: 0, missed: 0, atRisk: 0 };
+
+  try {
+    const { data: goals, error } = await supabase
+      .from('athlete_goals')
+      .select('*')
+      .eq('athlete_id', athleteId)
+      .eq('status', 'active');
+
+    if (error) {
+      console.error('Error fetching goals to evaluate:', error);
+      return summary;
+    }
+
+    const withProgress = await getGoalsProgress(supabase, athleteId, (goals || []) as AthleteGoal[], today);
+    const now = new Date().toISOString();
+
+    for (const goal of withProgress) {
+      if (isReached(goal, goal.current_value)) {
+        const { error: updateError } = await supabase
+          .from('athlete_goals')
+          .update({ status: 'achieved', achieved_at: now, updated_at: now })
+          .eq('id', goal.id)
+          .eq('status', 'active');
+
+        if (updateError) {
+          console.error('Error marking goal achieved:', updateError);
+          continue;
+        }
+
+        await notifyGoalAchieved(supabase, goal);
+        summary.achieved++;
+      } else if (today > goal.deadline) {
+        const { error: updateError } = await supabase
+          .from('athlete_goals')
+          .update({ status: 'missed', updated_at: now })
+          .eq('id', goal.id)
+          .eq('status', 'active');
+
+        if (updateError) {
+          console.error('Error marking goal missed:', updateError);
+          continue;
+        }
+
+        summary.missed++;
+      } else if (goal.at_risk && !goal.at_risk_notified_at) {
+        const { error: updateError } = await supabase
+          .from('athlete_goals')
+          .update({ at_risk_notified_at: now })
+          .eq('id', goal.id);
+
+        if (updateError) {
+          console.error('Error marking goal at risk:', updateError);
+          continue;
+        }
+
+        await notifyGoalAtRisk(supabase, goal);
+        summary.atRisk++;
+      }
+    }
+
+    if (summary.achieved > 0) {
+      await evaluateAchievements(supabase, athleteId, 'goal_achieved');
+    }
+  } catch (error) {
+    console.error('Error evaluating goals:', error);
+  }
+
+  return summary;
+}
+
+/**
+ * Evaluate the goals of every athlete with an active goal
+ * Run daily so deadlines pass and at-risk goals are noticed without new data.
+ */
+export async function evaluateAllGoals(
+  supabase: SupabaseClient,
+  today: string = programToday()
+): Promise<{ athletes: number; achieved: number; missed: number; atRisk: number }> {
+  const { data, error } = await supabase
+    .from('athlete_goals')
+    .select('athlete_id')
+    .eq('status', 'active')
+    .lte('start_date', today);
+
+  if (error) {
+    console.error('Error fetching athletes with active goals:', error);
+    return { athletes: 0, achieved: 0, missed: 0, atRisk: 0 };
+  }
+
+  const athleteIds = [...new Set((data || []).map((goal) => goal.athlete_id as string))];
+  const totals = { athletes: athleteIds.length, achieved: 0, missed: 0, atRisk: 0 };
+
+  for (const athleteId of athleteIds) {
+    const result = await evaluateGoals(supabase, athleteId, today);
+    totals.achieved += result.achieved;
+    totals.missed += result.missed;
+    totals.atRisk += result.atRisk;
+  }
+
+  return totals;
+}
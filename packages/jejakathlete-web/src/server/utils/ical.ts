@@ -0,0 +1,256 @@
+/**
+ * iCalendar Utilities for tRPC Server
+ *
+ * Builds RFC 5545 calendars for subscription feeds. Event times are
+ * wall-clock times in the feed's time zone and are written with a TZID
+ * parameter; a matching VTIMEZONE is generated from the runtime's IANA
+ * time zone data.
+ */
+
+import { getOffsetMinutes } from './timezone';
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  // "YYYY-MM-DDTHH:mm:ss" wall-clock times, or "YYYY-MM-DD" for all-day events
+  start: string;
+  end: string;
+  all_day?: boolean;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  categories?: string[];
+  // UTC timestamp of the last change to the source row
+  last_modified?: string | null;
+}
+
+export interface ICalCalendar {
+  name: string;
+  timezone: string;
+  events: ICalEvent[];
+}
+
+interface TimeZoneTransition {
+  // Wall-clock start in the previous offset, "YYYYMMDDTHHMMSS"
+  start: string;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+const PRODUCT_ID = '-//Jejak Athlete//Schedule Feed//EN';
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const vtimezoneCache = new Map<string, string[]>();
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format "YYYY-MM-DD[THH:mm[:ss]]" as an iCalendar local date-time
+ */
+function formatLocalDateTime(value: string): string {
+  const [date, time = '00:00:00'] = value.replace(' ', 'T').split('T');
+  const [hour = '00', minute = '00', second = '00'] = time.slice(0, 8).split(':');
+  return `${date.replace(/-/g, '')}T${hour}${minute}${second}`;
+}
+
+/**
+ * Format "YYYY-MM-DD" as an iCalendar date
+ */
+function formatDate(value: string): string {
+  return value.slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Format a Date as an iCalendar UTC date-time
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a UTC offset in minutes as "+HHMM"
+ */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Find offset transitions of a time zone between two instants
+ * Scans day by day, then narrows each change down to the minute
+ */
+function findTransitions(timeZone: string, fromMs: number, toMs: number): TimeZoneTransition[] {
+  const transitions: TimeZoneTransition[] = [];
+  let previousOffset = getOffsetMinutes(timeZone, fromMs);
+
+  for (let dayStart = fromMs; dayStart < toMs; dayStart += DAY_MS) {
+    const offset = getOffsetMinutes(timeZone, dayStart + DAY_MS);
+    if (offset === previousOffset) continue;
+
+    let low = dayStart;
+    let high = dayStart + DAY_MS;
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (getOffsetMinutes(timeZone, mid) === previousOffset) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    transitions.push({
+      start: formatLocalDateTime(new Date(high + previousOffset * MINUTE_MS).toISOString().slice(0, 19)),
+      offsetFrom: previousOffset,
+      offsetTo: offset,
+    });
+    previousOffset = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Build a VTIMEZONE component covering the given years
+ */
+function buildVTimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const cacheKey = `${timeZone}:${fromYear}:${toYear}`;
+  const cached = vtimezoneCache.get(cacheKey);
+  if (cached) return cached;
+
+  const fromMs = Date.UTC(fromYear, 0, 1);
+  const toMs = Date.UTC(toYear + 1, 0, 1);
+  const initialOffset = getOffsetMinutes(timeZone, fromMs);
+  const transitions = findTransitions(timeZone, fromMs, toMs);
+
+  const observance = (start: string, offsetFrom: number, offsetTo: number, isDaylight: boolean) => [
+    isDaylight ? 'BEGIN:DAYLIGHT' : 'BEGIN:STANDARD',
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(offsetTo)}`,
+    isDaylight ? 'END:DAYLIGHT' : 'END:STANDARD',
+  ];
+
+  // The lowest offset in the range is treated as standard time
+  const standardOffset = Math.min(initialOffset, ...transitions.map((t) => t.offsetTo));
+
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(
+      `${fromYear}0101T000000`,
+      initialOffset,
+      initialOffset,
+      initialOffset > standardOffset
+    ),
+    ...transitions.flatMap((transition) =>
+      observance(
+        transition.start,
+        transition.offsetFrom,
+        transition.offsetTo,
+        transition.offsetTo > standardOffset
+      )
+    ),
+    'END:VTIMEZONE',
+  ];
+
+  vtimezoneCache.set(cacheKey, lines);
+  return lines;
+}
+
+/**
+ * Build an RFC 5545 calendar document
+ *
+ * @param calendar - Calendar name, time zone and events
+ * @returns The iCalendar text with CRLF line endings
+ */
+export function buildICalendar(calendar: ICalCalendar): string {
+  const now = new Date();
+  const dtstamp = formatUtcDateTime(now);
+  const years = calendar.events
+    .map((event) => Number(event.start.slice(0, 4)))
+    .filter((year) => !isNaN(year));
+  const fromYear = years.length > 0 ? Math.min(...years) : now.getUTCFullYear();
+  const toYear = years.length > 0 ? Math.max(...years) + 1 : now.getUTCFullYear() + 1;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${calendar.timezone}`,
+    ...buildVTimezone(calendar.timezone, fromYear, toYear),
+  ];
+
+  for (const event of calendar.events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${dtstamp}`);
+
+    if (event.all_day) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(event.end)}`);
+    } else {
+      lines.push(
+        `DTSTART;TZID=${calendar.timezone}:${formatLocalDateTime(event.start)}`,
+        `DTEND;TZID=${calendar.timezone}:${formatLocalDateTime(event.end)}`
+      );
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+    if (event.last_modified) {
+      const modified = new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(event.last_modified)
+        ? event.last_modified
+        : `${event.last_modified}Z`);
+      if (!isNaN(modified.getTime())) lines.push(`LAST-MODIFIED:${formatUtcDateTime(modified)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { TestNorm } from '@jejakathlete/shared';
+import { calculateAge, percentileFromNorm, ratingFromPercentile, selectBestNorm } from './norms';
+
+function norm(overrides: Partial<TestNorm> = {}): TestNorm {
+  return {
+    id: 1,
+    test_id: 1,
+    gender: null,
+    sport: null,
+    level: null,
+    age_min: null,
+    age_max: null,
+    p10: 10,
+    p25: 20,
+    p50: 30,
+    p75: 40,
+    p90: 50,
+    source: null,
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const profile = { age: 17, gender: 'Lelaki', sport: 'Football', level: 'advanced' };
+
+describe('calculateAge', () => {
+  it('counts a birthday on the day itself', () => {
+    expect(calculateAge('2008-05-10', '2026-05-10')).toBe(18);
+  });
+
+  it('does not count a birthday later in the year', () => {
+    expect(calculateAge('2008-05-10', '2026-05-09')).toBe(17);
+  });
+});
+
+describe('selectBestNorm', () => {
+  it('prefers the norm matching the most columns', () => {
+    const general = norm({ id: 1 });
+    const gendered = norm({ id: 2, gender: 'male' });
+    const specific = norm({ id: 3, gender: 'male', sport: 'football', age_min: 16, age_max: 18 });
+
+    expect(selectBestNorm([general, specific, gendered], profile)?.id).toBe(3);
+  });
+
+  it('skips norms whose set columns do not match', () => {
+    const female = norm({ id: 1, gender: 'female' });
+    const elite = norm({ id: 2, level: 'elite' });
+    const adults = norm({ id: 3, age_min: 18 });
+
+    expect(selectBestNorm([female, elite, adults], profile)).toBeNull();
+  });
+
+  it('skips age-banded norms when the age is unknown', () => {
+    const banded = norm({ id: 1, age_min: 16, age_max: 18 });
+    const general = norm({ id: 2 });
+
+    expect(selectBestNorm([banded, general], { ...profile, age: null })?.id).toBe(2);
+  });
+});
+
+describe('percentileFromNorm', () => {
+  it('interpolates between percentile points', () => {
+    expect(percentileFromNorm(30, norm(), 'higher')).toBe(50);
+    expect(percentileFromNorm(35, norm(), 'higher')).toBe(63);
+  });
+
+  it('extrapolates past the outer points and clamps to 1-99', () => {
+    expect(percentileFromNorm(55, norm(), 'higher')).toBe(98);
+    expect(percentileFromNorm(100, norm(), 'higher')).toBe(99);
+    expect(percentileFromNorm(0, norm(), 'higher')).toBe(1);
+  });
+
+  it('treats smaller values as better for lower-is-better tests', () => {
+    const sprint = norm({ p10: 5.0, p25: 4.8, p50: 4.6, p75: 4.4, p90: 4.2 });
+
+    expect(percentileFromNorm(4.4, sprint, 'lower')).toBe(75);
+    expect(percentileFromNorm(5.0, sprint, 'lower')).toBe(10);
+  });
+});
+
+describe('ratingFromPercentile', () => {
+  it('maps percentiles onto rating bands', () => {
+    expect(ratingFromPercentile(90)).toBe('excellent');
+    expect(ratingFromPercentile(70)).toBe('good');
+    expect(ratingFromPercentile(50)).toBe('average');
+    expect(ratingFromPercentile(10)).toBe('below_average');
+    expect(ratingFromPercentile(9)).toBe('poor');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Normative Scoring Utilities for tRPC Server
+ *
+ * Rates fitness test results against norm tables banded by age, gender,
+ * sport and level. Each norm row stores the result values at the 10th,
+ * 25th, 50th, 75th and 90th percentiles for its population.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TestNorm, RatingCategory, TestResultRating } from '@jejakathlete/shared';
+
+interface AthleteNormProfile {
+  age: number | null;
+  gender: string | null;
+  sport: string | null;
+  level: string | null;
+}
+
+interface RatableTestResult {
+  id: number;
+  athlete_id: string;
+  test_id: number;
+  result_value: number | null;
+  test_date: string;
+}
+
+const PERCENTILE_POINTS = [10, 25, 50, 75, 90] as const;
+
+/**
+ * Calculate age in whole years on a given date
+ */
+export function calculateAge(dateOfBirth: string, onDate: string): number {
+  const birth = new Date(dateOfBirth);
+  const on = new Date(onDate);
+  let age = on.getFullYear() - birth.getFullYear();
+  const monthDiff = on.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && on.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Normalize free-text gender values to the values used in norm tables
+ */
+function normalizeGender(gender: string | null): 'male' | 'female' | null {
+  const value = gender?.trim().toLowerCase();
+  if (value === 'male' || value === 'm' || value === 'lelaki') return 'male';
+  if (value === 'female' || value === 'f' || value === 'perempuan') return 'female';
+  return null;
+}
+
+/**
+ * Select the most specific norm that matches the athlete profile
+ * A norm column left NULL applies to everyone; a set column must match.
+ * Norms matching on more columns win over broader ones.
+ */
+export function selectBestNorm(norms: TestNorm[], profile: AthleteNormProfile): TestNorm | null {
+  const gender = normalizeGender(profile.gender);
+  let best: TestNorm | null = null;
+  let bestScore = -1;
+
+  for (const norm of norms) {
+    let score = 0;
+
+    if (norm.gender) {
+      if (norm.gender !== gender) continue;
+      score++;
+    }
+    if (norm.sport) {
+      if (!profile.sport || norm.sport.toLowerCase() !== profile.sport.toLowerCase()) continue;
+      score++;
+    }
+    if (norm.level) {
+      if (norm.level !== profile.level) continue;
+      score++;
+    }
+    if (norm.age_min !== null || norm.age_max !== null) {
+      if (profile.age === null) continue;
+      if (norm.age_min !== null && profile.age < norm.age_min) continue;
+      if (norm.age_max !== null && profile.age > norm.age_max) continue;
+      score++;
+    }
+
+    if (score > bestScore) {
+      best = norm;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Convert a result value into a percentile (1-99) using linear interpolation
+ * between the norm's percentile points. Values outside the 10th-90th range
+ * are extrapolated from the nearest segment.
+ */
+export function percentileFromNorm(
+  value: number,
+  norm: TestNorm,
+  improvementDirection: 'higher' | 'lower'
+): number {
+  // Flip the axis for lower-is-better tests so better is always larger
+  const sign = improvementDirection === 'lower' ? -1 : 1;
+  const values = [norm.p10, norm.p25, norm.p50, norm.p75, norm.p90].map((v) => v * sign);
+  const v = value * sign;
+
+  const interpolate = (i: number): number => {
+    const span = values[i + 1] - values[i];
+    const percentileSpan = PERCENTILE_POINTS[i + 1] - PERCENTILE_POINTS[i];
+    if (span === 0) return PERCENTILE_POINTS[i];
+    return PERCENTILE_POINTS[i] + ((v - values[i]) / span) * percentileSpan;
+  };
+
+  let percentile: number;
+  if (v <= values[0]) {
+    percentile = interpolate(0);
+  } else if (v >= values[values.length - 1]) {
+    percentile = interpolate(values.length - 2);
+  } else {
+    const segment = values.findIndex((_, i) => v >= values[i] && v <= values[i + 1]);
+    percentile = interpolate(segment);
+  }
+
+  return Math.min(99, Math.max(1, Math.round(percentile)));
+}
+
+/**
+ * Map a percentile to a rating category
+ */
+export function ratingFromPercentile(percentile: number): RatingCategory {
+  if (percentile >= 90) return 'excellent';
+  if (percentile >= 70) return 'good';
+  if (percentile >= 30) return 'average';
+  if (percentile >= 10) return 'below_average';
+  return 'poor';
+}
+
+/**
+ * Rate test results against the matching norm tables
+ * Results without a numeric value or without a matching norm get a null rating
+ *
+ * @param supabase - Supabase client instance
+ * @param results - Test result rows to rate
+ * @returns Ratings in the same order as the input results
+ */
+export async function rateTestResults(
+  supabase: SupabaseClient,
+  results: RatableTestResult[]
+): Promise<TestResultRating[]> {
+  if (results.length === 0) return [];
+
+  const athleteIds = [...new Set(results.map((result) => result.athlete_id))];
+  const testIds = [...new Set(results.map((result) => result.test_id))];
+
+  const [{ data: profilings }, { data: athletes }, { data: tests }, { data: norms, error: normsError }] =
+    await Promise.all([
+      supabase.from('user_profiling').select('user_id, date_of_birth, gender').in('user_id', athleteIds),
+      supabase.from('athletes').select('user_id, sport, level').in('user_id', athleteIds),
+      supabase.from('tests').select('id, improvement_direction').in('id', testIds),
+      supabase.from('test_norms').select('*').in('test_id', testIds),
+    ]);
+
+  if (normsError) {
+    console.error('Error fetching test norms:', normsError);
+  }
+
+  const profilingMap = new Map((profilings || []).map((p) => [p.user_id, p]));
+  const athleteMap = new Map((athletes || []).map((a) => [a.user_id, a]));
+  const directionMap = new Map((tests || []).map((t) => [t.id, t.improvement_direction]));
+
+  return results.map((result) => {
+    const unrated: TestResultRating = {
+      test_result_id: result.id,
+      norm_id: null,
+      percentile: null,
+      rating: null,
+    };
+
+    if (result.result_value === null) return unrated;
+
+    const profiling = profilingMap.get(result.athlete_id);
+    const athlete = athleteMap.get(result.athlete_id);
+    const profile: AthleteNormProfile = {
+      age: profiling?.date_of_birth ? calculateAge(profiling.date_of_birth, result.test_date) : null,
+      gender: profiling?.gender ?? null,
+      sport: athlete?.sport ?? null,
+      level: athlete?.level ?? null,
+    };
+
+    const testNorms = ((norms || []) as TestNorm[]).filter((norm) => norm.test_id === result.test_id);
+    const norm = selectBestNorm(testNorms, profile);
+    if (!norm) return unrated;
+
+    const percentile = percentileFromNorm(
+      result.result_value,
+      norm,
+      directionMap.get(result.test_id) === 'lower' ? 'lower' : 'higher'
+    );
+
+    return {
+      test_result_id: result.id,
+      norm_id: norm.id,
+      percentile,
+      rating: ratingFromPercentile(percentile),
+    };
+  });
+}
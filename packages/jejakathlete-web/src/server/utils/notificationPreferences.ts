@@ -0,0 +1,169 @@
+/**
+ * Notification Preference Utilities for tRPC Server
+ *
+ * Users choose per notification type and channel what they receive, and can
+ * set quiet hours in their own time zone. Preferences live under the
+ * `notifications` key of user_profiling.preferences; anything not set falls
+ * back to the defaults here (everything on, quiet hours off).
+ *
+ * Quiet hours only hold back interrupting channels (push). In-app
+ * notifications are still created so they're waiting when the user looks.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  QuietHours,
+} from '@jejakathlete/shared';
+import { DEFAULT_TIMEZONE, getOffsetMinutes, isValidTimeZone } from './timezone';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'enrollment_request',
+  'enrollment_response',
+  'workout_assigned',
+  'workout_rescheduled',
+  'workout_completed',
+  'event_assigned',
+  'event_updated',
+  'event_response',
+  'event_reminder',
+  'test_result',
+  'personal_record',
+  'trainer_verification',
+  'data_export',
+  'goal_achieved',
+  'goal_at_risk',
+  'achievement_earned',
+  'general',
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'push'];
+
+// Channels that quiet hours hold back
+const INTERRUPTING_CHANNELS: NotificationChannel[] = ['push'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+  timezone: DEFAULT_TIMEZONE,
+};
+
+/**
+ * Fill in defaults for anything missing or invalid in stored preferences
+ *
+ * @param preferences - The user's user_profiling.preferences value
+ */
+export function resolveNotificationPreferences(
+  preferences: Record<string, any> | null | undefined
+): NotificationPreferences {
+  const stored = preferences?.notifications ?? {};
+
+  const channels = Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [
+      type,
+      Object.fromEntries(
+        NOTIFICATION_CHANNELS.map((channel) => [channel, stored.channels?.[type]?.[channel] !== false])
+      ),
+    ])
+  ) as NotificationPreferences['channels'];
+
+  const quietHours = stored.quiet_hours ?? {};
+
+  return {
+    channels,
+    quiet_hours: {
+      enabled: quietHours.enabled === true,
+      start: TIME_PATTERN.test(quietHours.start) ? quietHours.start : DEFAULT_QUIET_HOURS.start,
+      end: TIME_PATTERN.test(quietHours.end) ? quietHours.end : DEFAULT_QUIET_HOURS.end,
+      timezone: typeof quietHours.timezone === 'string' && isValidTimeZone(quietHours.timezone)
+        ? quietHours.timezone
+        : DEFAULT_QUIET_HOURS.timezone,
+    },
+  };
+}
+
+/**
+ * Whether an instant falls within quiet hours
+ * A window whose end is before its start spans midnight.
+ */
+export function isInQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+
+  const wallClock = new Date(now.getTime() + getOffsetMinutes(quietHours.timezone, now.getTime()) * 60 * 1000);
+  const current = wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) return false;
+  if (start < end) return current >= start && current < end;
+  return current >= start || current < end;
+}
+
+/**
+ * Whether a notification should go out on a channel right now
+ */
+export function shouldDeliver(
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  channel: NotificationChannel,
+  now: Date = new Date()
+): boolean {
+  if (!preferences.channels[type]?.[channel]) return false;
+  if (INTERRUPTING_CHANNELS.includes(channel) && isInQuietHours(preferences.quiet_hours, now)) return false;
+  return true;
+}
+
+/**
+ * Load resolved notification preferences for users
+ * Users without a profiling row get the defaults. If preferences can't be
+ * read, everyone gets the defaults so notifications aren't silently lost.
+ */
+export async function getNotificationPreferences(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('user_profiling')
+    .select('user_id, preferences')
+    .in('user_id', uniqueIds);
+
+  if (error) {
+    console.error('Failed to load notification preferences:', error);
+  }
+
+  const stored = new Map((data || []).map((row) => [row.user_id as string, row.preferences]));
+
+  return new Map(
+    uniqueIds.map((userId) => [userId, resolveNotificationPreferences(stored.get(userId))])
+  );
+}
+
+/**
+ * Keep only the users who should get a notification on a channel now
+ */
+export async function filterRecipients(
+  supabase: SupabaseClient,
+  userIds: string[],
+  type: NotificationType,
+  channel: NotificationChannel,
+  now: Date = new Date()
+): Promise<string[]> {
+  const preferences = await getNotificationPreferences(supabase, userIds);
+  return userIds.filter((userId) => {
+    const userPreferences = preferences.get(userId);
+    return !userPreferences || shouldDeliver(userPreferences, type, channel, now);
+  });
+}
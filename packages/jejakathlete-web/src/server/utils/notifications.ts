@@ -0,0 +1,99 @@
+/**
+ * Notification Utilities for tRPC Server
+ *
+ * Helpers for creating notifications as a side effect of other procedures.
+ * Failures are logged rather than thrown so the originating action succeeds.
+ * Recipients who turned off in-app notifications of a type are skipped.
+ *
+ * Notifications are written with the service role client, since no RLS
+ * policy lets users insert them; callers decide who gets notified. Each type
+ * has a typed `data` payload with a `target` the client opens on tap.
+ */
+
+import type { NotificationData, NotificationDataByType, NotificationType } from '@jejakathlete/shared';
+import { createSupabaseAdminClient } from '../../lib/supabase-admin';
+import { filterRecipients } from './notificationPreferences';
+
+export type NotificationInsert<TType extends NotificationType = NotificationType> = {
+  [K in TType]: {
+    user_id: string;
+    type: K;
+    title: string;
+    message: string;
+    data: NotificationDataByType[K];
+  };
+}[TType];
+
+/**
+ * Notification data is stored as JSON text; parse it back into its payload
+ */
+export function parseNotificationData(data: unknown): NotificationData | null {
+  if (!data) return null;
+  if (typeof data !== 'string') return data as NotificationData;
+
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create notifications, skipping recipients who turned their type off in-app
+ *
+ * @param notifications - Notifications to create; may mix types and users
+ * @returns The created notifications (empty if none could be created)
+ */
+export async function notifyUsers(notifications: NotificationInsert[]) {
+  if (notifications.length === 0) return [];
+
+  const supabase = createSupabaseAdminClient();
+
+  // Check preferences once per type
+  const deliverable: NotificationInsert[] = [];
+  const types = [...new Set(notifications.map((notification) => notification.type))];
+
+  for (const type of types) {
+    const ofType = notifications.filter((notification) => notification.type === type);
+    const recipients = new Set(
+      await filterRecipients(supabase, [...new Set(ofType.map((notification) => notification.user_id))], type, 'in_app')
+    );
+    deliverable.push(...ofType.filter((notification) => recipients.has(notification.user_id)));
+  }
+
+  if (deliverable.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .insert(
+      deliverable.map((notification) => ({
+        user_id: notification.user_id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        data: notification.data,
+        is_read: false,
+      }))
+    )
+    .select();
+
+  if (error) {
+    console.error('Failed to create notifications:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a notification for a user
+ *
+ * @param notification - Notification to create
+ * @returns The created notification, or null if it could not be created or
+ * the user has turned this type off
+ */
+export async function notifyUser(notification: NotificationInsert) {
+  const [created] = await notifyUsers([notification]);
+  return created ?? null;
+}
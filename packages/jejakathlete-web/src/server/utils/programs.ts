@@ -0,0 +1,214 @@
+/**
+ * Training Program Utilities for tRPC Server
+ *
+ * Scheduling of multi-week programs into workout assignments. Each program
+ * week is the seven days starting at the athlete's start date, shifted by
+ * the assignment's offset_days; a grid slot lands on the first matching
+ * weekday in its week. Assignments keep the program_workout_id they were
+ * generated from, so rescheduling only creates slots that are missing.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TRPCError } from '@trpc/server';
+import { formatEventTime } from './recurrence';
+import { DEFAULT_TIMEZONE, zonedNow } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ProgramSlot {
+  id: number;
+  workout_template_id: number;
+  week_number: number;
+  day_of_week: number;
+}
+
+export interface ProgramSchedule {
+  id: number;
+  program_id: number;
+  athlete_id: string;
+  trainer_id: string;
+  start_date: string;
+  offset_days: number;
+}
+
+export interface ProgramWorkoutSummary {
+  scheduled_date: string;
+  status: string;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the default time zone
+ */
+export function programToday(): string {
+  return formatEventTime(zonedNow(DEFAULT_TIMEZONE)).slice(0, 10);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  return new Date(time + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / DAY_MS
+  );
+}
+
+/**
+ * Date a program slot is scheduled on for an assignment
+ *
+ * @param schedule - Start date and accumulated offset of the assignment
+ * @param slot - Week number (from 1) and weekday (1 = Monday) of the slot
+ */
+export function getProgramSlotDate(
+  schedule: Pick<ProgramSchedule, 'start_date' | 'offset_days'>,
+  slot: Pick<ProgramSlot, 'week_number' | 'day_of_week'>
+): string {
+  const weekStart = addDays(schedule.start_date, schedule.offset_days + (slot.week_number - 1) * 7);
+  // getUTCDay counts from Sunday; convert to 1 = Monday ... 7 = Sunday
+  const startWeekday = new Date(`${weekStart}T00:00:00Z`).getUTCDay() || 7;
+  return addDays(weekStart, (slot.day_of_week - startWeekday + 7) % 7);
+}
+
+/**
+ * Program week a date falls in, starting at 1
+ * Dates before the program starts give 0.
+ */
+export function getProgramWeek(
+  schedule: Pick<ProgramSchedule, 'start_date' | 'offset_days'>,
+  date: string
+): number {
+  const elapsed = daysBetween(addDays(schedule.start_date, schedule.offset_days), date);
+  return elapsed < 0 ? 0 : Math.floor(elapsed / 7) + 1;
+}
+
+/**
+ * Summarize progress through a program's generated workouts
+ * Pending workouts scheduled before today count as missed.
+ */
+export function summarizeProgramProgress(workouts: ProgramWorkoutSummary[], today: string) {
+  const scheduled = workouts.filter((workout) => workout.status !== 'cancelled');
+  const count = (predicate: (workout: ProgramWorkoutSummary) => boolean) => scheduled.filter(predicate).length;
+
+  const completed = count((workout) => workout.status === 'completed');
+  const total = scheduled.length;
+
+  return {
+    total,
+    completed,
+    skipped: count((workout) => workout.status === 'skipped'),
+    in_progress: count((workout) => workout.status === 'in_progress'),
+    missed: count((workout) => workout.status === 'pending' && workout.scheduled_date < today),
+    upcoming: count((workout) => workout.status === 'pending' && workout.scheduled_date >= today),
+    cancelled: workouts.length - total,
+    completion_rate: total > 0 ? Math.round((completed / total) * 100) : 0,
+  };
+}
+
+/**
+ * Remove pending workouts of a program assignment from a date on
+ * Started, finished and cancelled workouts are kept as history.
+ *
+ * @returns Number of workouts removed
+ */
+export async function clearPendingProgramWorkouts(
+  supabase: SupabaseClient,
+  programAssignmentId: number,
+  fromDate: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('workout_assignments')
+    .delete()
+    .eq('program_assignment_id', programAssignmentId)
+    .eq('status', 'pending')
+    .gte('scheduled_date', fromDate)
+    .select('id');
+
+  if (error) {
+    console.error('Error clearing program workouts:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to reschedule program workouts',
+    });
+  }
+
+  return data.length;
+}
+
+/**
+ * Create the workout assignments of a program assignment from a date on
+ * Pending workouts from fromDate are regenerated from the current grid, so
+ * grid edits and a changed offset take effect. Slots that already have a
+ * workout before fromDate, or one that was started, finished or cancelled,
+ * are left alone; slots falling before fromDate are not created.
+ *
+ * @param supabase - Supabase client allowed to manage the athlete's workouts
+ * @param schedule - Program assignment to schedule
+ * @param fromDate - First date (YYYY-MM-DD) to schedule workouts on
+ * @returns Number of workouts created
+ */
+export async function scheduleProgramWorkouts(
+  supabase: SupabaseClient,
+  schedule: ProgramSchedule,
+  fromDate: string
+): Promise<number> {
+  await clearPendingProgramWorkouts(supabase, schedule.id, fromDate);
+
+  const [{ data: slots, error: slotError }, { data: existing, error: existingError }] = await Promise.all([
+    supabase
+      .from('program_workouts')
+      .select('id, workout_template_id, week_number, day_of_week')
+      .eq('program_id', schedule.program_id)
+      .order('week_number', { ascending: true })
+      .order('day_of_week', { ascending: true })
+      .order('order_index', { ascending: true }),
+    supabase
+      .from('workout_assignments')
+      .select('program_workout_id')
+      .eq('program_assignment_id', schedule.id),
+  ]);
+
+  if (slotError || existingError) {
+    console.error('Error fetching program schedule:', slotError || existingError);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch program workouts',
+    });
+  }
+
+  const scheduledSlots = new Set((existing || []).map((workout) => workout.program_workout_id));
+
+  const rows = (slots as ProgramSlot[])
+    .filter((slot) => !scheduledSlots.has(slot.id))
+    .map((slot) => ({ slot, date: getProgramSlotDate(schedule, slot) }))
+    .filter(({ date }) => date >= fromDate)
+    .map(({ slot, date }) => ({
+      workout_template_id: slot.workout_template_id,
+      athlete_id: schedule.athlete_id,
+      trainer_id: schedule.trainer_id,
+      scheduled_date: date,
+      status: 'pending',
+      program_assignment_id: schedule.id,
+      program_workout_id: slot.id,
+    }));
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('workout_assignments').insert(rows);
+
+  if (error) {
+    console.error('Error creating program workouts:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to schedule program workouts',
+    });
+  }
+
+  return rows.length;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyProgressionRule,
+  initialTarget,
+  roundWeight,
+  type LoggedSet,
+  type ProgressionRule,
+} from './progression';
+
+function rule(overrides: Partial<ProgressionRule> = {}): ProgressionRule {
+  return {
+    sets: 3,
+    reps: 8,
+    target_weight: 60,
+    progression_type: 'linear',
+    weight_increment: 2.5,
+    rep_range_max: null,
+    deload_after_misses: null,
+    deload_percent: null,
+    ...overrides,
+  };
+}
+
+function sets(count: number, reps: number | null, weight: number | null, completed = true): LoggedSet[] {
+  return Array.from({ length: count }, (_, index) => ({
+    set_number: index + 1,
+    completed,
+    reps_completed: reps,
+    weight_used: weight,
+  }));
+}
+
+describe('roundWeight', () => {
+  it('rounds to the nearest step without floating point noise', () => {
+    expect(roundWeight(61.3, 2.5)).toBe(62.5);
+    expect(roundWeight(0.1 + 0.2, 0.1)).toBe(0.3);
+  });
+});
+
+describe('applyProgressionRule', () => {
+  it('adds the increment after a linear success', () => {
+    const linear = rule();
+
+    expect(applyProgressionRule(linear, initialTarget(linear), sets(3, 8, 60))).toEqual({
+      target_weight: 62.5,
+      target_reps: 8,
+      consecutive_misses: 0,
+      outcome: 'increased',
+    });
+  });
+
+  it('treats sets without logged reps or weight as done as prescribed', () => {
+    const linear = rule();
+
+    expect(applyProgressionRule(linear, initialTarget(linear), sets(3, null, null))?.outcome).toBe('increased');
+  });
+
+  it('adds reps up to the top of the range before adding weight for double progression', () => {
+    const double = rule({ progression_type: 'double', reps: 8, rep_range_max: 10 });
+
+    expect(applyProgressionRule(double, { target_weight: 60, target_reps: 9, consecutive_misses: 0 }, sets(3, 9, 60)))
+      .toEqual({ target_weight: 60, target_reps: 10, consecutive_misses: 0, outcome: 'reps_increased' });
+    expect(applyProgressionRule(double, { target_weight: 60, target_reps: 10, consecutive_misses: 0 }, sets(3, 10, 60)))
+      .toEqual({ target_weight: 62.5, target_reps: 8, consecutive_misses: 0, outcome: 'increased' });
+  });
+
+  it('counts a miss when a set falls short or is missing', () => {
+    const linear = rule();
+    const target = initialTarget(linear);
+
+    expect(applyProgressionRule(linear, target, [...sets(2, 8, 60), { set_number: 3, completed: true, reps_completed: 6, weight_used: 60 }]))
+      .toEqual({ target_weight: 60, target_reps: 8, consecutive_misses: 1, outcome: 'held' });
+    expect(applyProgressionRule(linear, target, sets(2, 8, 60))?.consecutive_misses).toBe(1);
+  });
+
+  it('deloads once the misses in a row reach the limit', () => {
+    const deloading = rule({ deload_after_misses: 2, deload_percent: 10 });
+
+    expect(applyProgressionRule(deloading, { target_weight: 60, target_reps: 8, consecutive_misses: 1 }, sets(3, 5, 60)))
+      .toEqual({ target_weight: 55, target_reps: 8, consecutive_misses: 0, outcome: 'deloaded' });
+  });
+
+  it('progresses from the heaviest weight used when there is no target weight', () => {
+    const bodyweightStart = rule({ target_weight: null });
+    const logged = [...sets(2, 8, 40), { set_number: 3, completed: true, reps_completed: 8, weight_used: 42.5 }];
+
+    expect(applyProgressionRule(bodyweightStart, initialTarget(bodyweightStart), logged)?.target_weight).toBe(45);
+  });
+
+  it('does nothing without a rule or logged sets', () => {
+    expect(applyProgressionRule(rule({ progression_type: 'none' }), initialTarget(rule()), sets(3, 8, 60))).toBeNull();
+    expect(applyProgressionRule(rule(), initialTarget(rule()), [])).toBeNull();
+  });
+});
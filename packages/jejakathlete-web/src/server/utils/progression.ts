@@ -0,0 +1,273 @@
+/**
+ * Progression Utilities for tRPC Server
+ *
+ * Progressive overload rules on workout template exercises. When an athlete
+ * finishes a workout, each exercise with a rule is checked against the sets
+ * they logged and their target for the next assignment of the template is
+ * stored in athlete_exercise_targets. Targets are keyed by exercise rather
+ * than workout exercise, so they survive template edits.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProgressionOutcome, ProgressionType } from '@jejakathlete/shared';
+
+// Weight rounding step when a rule has no increment
+const DEFAULT_WEIGHT_STEP = 0.5;
+
+// Assignment statuses that use the athlete's current targets
+const UPCOMING_STATUSES = ['pending', 'in_progress'];
+
+export interface ProgressionRule {
+  sets: number;
+  reps: number;
+  target_weight: number | null;
+  progression_type: ProgressionType | null;
+  weight_increment: number | null;
+  rep_range_max: number | null;
+  deload_after_misses: number | null;
+  deload_percent: number | null;
+}
+
+export interface ExerciseTarget {
+  target_weight: number | null;
+  target_reps: number;
+  consecutive_misses: number;
+}
+
+export interface LoggedSet {
+  set_number: number;
+  completed: boolean;
+  reps_completed: number | null;
+  weight_used: number | null;
+}
+
+export interface ProgressionResult extends ExerciseTarget {
+  exercise_id: number;
+  outcome: ProgressionOutcome;
+}
+
+/**
+ * Round a weight to the nearest step, avoiding floating point noise
+ */
+export function roundWeight(value: number, step: number): number {
+  return Number((Math.round(value / step) * step).toFixed(2));
+}
+
+/**
+ * Target an athlete starts from before any progression has run
+ */
+export function initialTarget(rule: ProgressionRule): ExerciseTarget {
+  return {
+    target_weight: rule.target_weight,
+    target_reps: rule.reps,
+    consecutive_misses: 0,
+  };
+}
+
+/**
+ * Work out the next target for an exercise from the sets logged against it
+ *
+ * A session is a success when every set was completed with at least the
+ * target reps at no less than the target weight. Sets without logged reps or
+ * weight count as done as prescribed.
+ * - linear: success adds weight_increment
+ * - double: success adds a rep until rep_range_max, then adds weight_increment
+ *   and drops back to the bottom of the range
+ * Misses are counted; reaching deload_after_misses in a row cuts the weight
+ * by deload_percent.
+ *
+ * @returns The next target, or null when no rule applies or nothing was logged
+ */
+export function applyProgressionRule(
+  rule: ProgressionRule,
+  target: ExerciseTarget,
+  sets: LoggedSet[]
+): (ExerciseTarget & { outcome: ProgressionOutcome }) | null {
+  if (!rule.progression_type || rule.progression_type === 'none') return null;
+  if (sets.length === 0) return null;
+
+  const step = rule.weight_increment || DEFAULT_WEIGHT_STEP;
+  const weights = sets
+    .filter((set) => set.completed && set.weight_used !== null)
+    .map((set) => set.weight_used!);
+  // Without a target weight, progress from the heaviest weight used
+  const baseWeight = target.target_weight ?? (weights.length > 0 ? Math.max(...weights) : null);
+
+  const hit = Array.from({ length: rule.sets }, (_, index) => sets.find((set) => set.set_number === index + 1))
+    .every((set) =>
+      !!set &&
+      set.completed &&
+      (set.reps_completed ?? target.target_reps) >= target.target_reps &&
+      (target.target_weight === null || (set.weight_used ?? target.target_weight) >= target.target_weight)
+    );
+
+  if (hit) {
+    if (rule.progression_type === 'double' && rule.rep_range_max && target.target_reps < rule.rep_range_max) {
+      return {
+        target_weight: baseWeight,
+        target_reps: target.target_reps + 1,
+        consecutive_misses: 0,
+        outcome: 'reps_increased',
+      };
+    }
+
+    if (baseWeight === null || !rule.weight_increment) {
+      return { target_weight: baseWeight, target_reps: rule.reps, consecutive_misses: 0, outcome: 'held' };
+    }
+
+    return {
+      target_weight: roundWeight(baseWeight + rule.weight_increment, step),
+      target_reps: rule.reps,
+      consecutive_misses: 0,
+      outcome: 'increased',
+    };
+  }
+
+  const misses = target.consecutive_misses + 1;
+
+  if (rule.deload_after_misses && misses >= rule.deload_after_misses && baseWeight !== null) {
+    const percent = rule.deload_percent ?? 10;
+    return {
+      target_weight: roundWeight(baseWeight * (1 - percent / 100), step),
+      target_reps: rule.reps,
+      consecutive_misses: 0,
+      outcome: 'deloaded',
+    };
+  }
+
+  return {
+    target_weight: baseWeight,
+    target_reps: target.target_reps,
+    consecutive_misses: misses,
+    outcome: 'held',
+  };
+}
+
+/**
+ * Run the progression rules of a finished workout and store the new targets
+ *
+ * @param supabase - Supabase client allowed to write the athlete's targets
+ *   (service role when called on behalf of the athlete)
+ * @param assignment - The finished workout assignment
+ * @returns The new target of each exercise a rule applied to
+ */
+export async function runProgressionRules(
+  supabase: SupabaseClient,
+  assignment: { id: number; athlete_id: string; workout_template_id: number }
+): Promise<ProgressionResult[]> {
+  const [{ data: exercises, error: exerciseError }, { data: progress, error: progressError }, { data: targets }] =
+    await Promise.all([
+      supabase
+        .from('workout_exercises')
+        .select('id, exercise_id, sets, reps, target_weight, progression_type, weight_increment, rep_range_max, deload_after_misses, deload_percent')
+        .eq('workout_template_id', assignment.workout_template_id)
+        .neq('progression_type', 'none'),
+      supabase
+        .from('workout_session_progress')
+        .select('workout_exercise_id, set_number, completed, reps_completed, weight_used')
+        .eq('workout_assignment_id', assignment.id),
+      supabase
+        .from('athlete_exercise_targets')
+        .select('exercise_id, target_weight, target_reps, consecutive_misses')
+        .eq('athlete_id', assignment.athlete_id)
+        .eq('workout_template_id', assignment.workout_template_id),
+    ]);
+
+  if (exerciseError || progressError) {
+    console.error('Error fetching workout for progression:', exerciseError || progressError);
+    return [];
+  }
+
+  const currentTargets = new Map((targets || []).map((target) => [target.exercise_id, target as ExerciseTarget]));
+  const results: ProgressionResult[] = [];
+
+  for (const exercise of exercises || []) {
+    // An exercise listed twice in a template progresses once
+    if (results.some((result) => result.exercise_id === exercise.exercise_id)) continue;
+
+    const sets = (progress || []).filter((set) => set.workout_exercise_id === exercise.id);
+    const next = applyProgressionRule(
+      exercise,
+      currentTargets.get(exercise.exercise_id) || initialTarget(exercise),
+      sets
+    );
+    if (!next) continue;
+
+    const { error } = await supabase
+      .from('athlete_exercise_targets')
+      .upsert(
+        {
+          athlete_id: assignment.athlete_id,
+          workout_template_id: assignment.workout_template_id,
+          exercise_id: exercise.exercise_id,
+          target_weight: next.target_weight,
+          target_reps: next.target_reps,
+          consecutive_misses: next.consecutive_misses,
+          last_outcome: next.outcome,
+          last_assignment_id: assignment.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'athlete_id,workout_template_id,exercise_id' }
+      );
+
+    if (error) {
+      console.error('Error saving exercise target:', error);
+      continue;
+    }
+
+    results.push({ exercise_id: exercise.exercise_id, ...next });
+  }
+
+  return results;
+}
+
+/**
+ * Apply an athlete's targets to their upcoming workouts
+ * Adds target_reps to each exercise of pending and in-progress assignments
+ * and sets target_weight to the athlete's current target where one exists.
+ *
+ * @param supabase - Supabase client that can read the athlete's targets
+ * @param athleteId - Athlete the workouts are for
+ * @param assignments - Assignments with nested workout_template.exercises
+ */
+export async function applyExerciseTargets<
+  T extends { workout_template_id: number; status: string; workout_template?: any }
+>(
+  supabase: SupabaseClient,
+  athleteId: string,
+  assignments: T[]
+): Promise<T[]> {
+  const templateIds = [...new Set(assignments.map((assignment) => assignment.workout_template_id))];
+  if (templateIds.length === 0) return assignments;
+
+  const { data: targets, error } = await supabase
+    .from('athlete_exercise_targets')
+    .select('workout_template_id, exercise_id, target_weight, target_reps')
+    .eq('athlete_id', athleteId)
+    .in('workout_template_id', templateIds);
+
+  if (error) {
+    console.error('Error fetching exercise targets:', error);
+    return assignments;
+  }
+
+  const targetFor = (templateId: number, exerciseId: number) =>
+    (targets || []).find((target) => target.workout_template_id === templateId && target.exercise_id === exerciseId);
+
+  for (const assignment of assignments) {
+    const exercises = assignment.workout_template?.exercises;
+    // Finished workouts keep what was prescribed at the time
+    if (!exercises || !UPCOMING_STATUSES.includes(assignment.status)) continue;
+
+    assignment.workout_template.exercises = exercises.map((exercise: any) => {
+      const target = targetFor(assignment.workout_template_id, exercise.exercise_id);
+      return {
+        ...exercise,
+        target_weight: target ? target.target_weight : exercise.target_weight,
+        target_reps: target ? target.target_reps : exercise.reps,
+      };
+    });
+  }
+
+  return assignments;
+}
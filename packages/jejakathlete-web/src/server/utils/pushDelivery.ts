@@ -0,0 +1,237 @@
+/**
+ * Push Delivery Utilities for tRPC Server
+ *
+ * Sends push messages for new notifications to the recipient's registered
+ * devices. Notifications start with push_status 'pending' and are claimed by
+ * a conditional update, so overlapping runs never push twice. Each message
+ * sent is recorded in push_deliveries, and devices whose token the push
+ * service reports as no longer registered are removed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationType, PushDelivery } from '@jejakathlete/shared';
+import { getNotificationPreferences, isInQuietHours } from './notificationPreferences';
+import { parseNotificationData } from './notifications';
+import { PUSH_BATCH_SIZE, getPushTransport } from './pushTransport';
+import type { PushMessage, PushTransport } from './pushTransport';
+
+// Notifications claimed per run
+const DELIVERY_BATCH_SIZE = 200;
+
+// Notifications older than this are not pushed; long enough to outlast quiet hours
+const MAX_PUSH_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Android notification channel the app creates for these messages
+const ANDROID_CHANNEL_ID = 'default';
+
+interface PendingNotification {
+  id: number;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: string | null;
+}
+
+interface DeviceRow {
+  id: number;
+  user_id: string;
+  token: string;
+}
+
+type DeliveryInsert = Pick<PushDelivery, 'notification_id' | 'device_id' | 'status' | 'ticket_id' | 'error'>;
+
+export interface PushDeliveryResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+  deferred: number;
+  pruned: number;
+}
+
+/**
+ * Push pending notifications to their recipients' devices
+ * Notifications of a type the user turned off for push, or for users with
+ * no devices, are skipped. Those in the user's quiet hours are left pending
+ * for a later run. If the push service can't be reached the claim is
+ * released and the notifications are retried next run.
+ *
+ * @param supabase - Service role Supabase client
+ * @param transport - Where messages are sent; defaults to the configured push service
+ */
+export async function deliverPendingPushes(
+  supabase: SupabaseClient,
+  transport: PushTransport = getPushTransport(),
+  now: Date = new Date()
+): Promise<PushDeliveryResult> {
+  const result: PushDeliveryResult = { sent: 0, failed: 0, skipped: 0, deferred: 0, pruned: 0 };
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('notifications')
+    .select('id')
+    .eq('push_status', 'pending')
+    .gte('created_at', new Date(now.getTime() - MAX_PUSH_AGE_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(DELIVERY_BATCH_SIZE);
+
+  if (pendingError) {
+    console.error('Error fetching pending push notifications:', pendingError);
+    return result;
+  }
+
+  if (!pending || pending.length === 0) return result;
+
+  // Claim the notifications; only rows still pending are returned
+  const { data: claimed, error: claimError } = await supabase
+    .from('notifications')
+    .update({ push_status: 'processing' })
+    .in('id', pending.map((notification) => notification.id))
+    .eq('push_status', 'pending')
+    .select('id, user_id, type, title, message, data');
+
+  if (claimError) {
+    console.error('Error claiming push notifications:', claimError);
+    return result;
+  }
+
+  const notifications = (claimed || []) as PendingNotification[];
+  if (notifications.length === 0) return result;
+
+  const userIds = [...new Set(notifications.map((notification) => notification.user_id))];
+
+  const [preferences, { data: devices, error: devicesError }] = await Promise.all([
+    getNotificationPreferences(supabase, userIds),
+    supabase.from('push_devices').select('id, user_id, token').in('user_id', userIds),
+  ]);
+
+  if (devicesError) {
+    console.error('Error fetching push devices:', devicesError);
+    await setPushStatus(supabase, notifications.map((notification) => notification.id), 'pending');
+    return result;
+  }
+
+  const deferredIds: number[] = [];
+  const skippedIds: number[] = [];
+  const outgoing: { notification: PendingNotification; device: DeviceRow; message: PushMessage }[] = [];
+
+  for (const notification of notifications) {
+    const userPreferences = preferences.get(notification.user_id);
+    const userDevices = ((devices || []) as DeviceRow[]).filter((device) => device.user_id === notification.user_id);
+
+    if (!userPreferences?.channels[notification.type]?.push || userDevices.length === 0) {
+      skippedIds.push(notification.id);
+      continue;
+    }
+
+    if (isInQuietHours(userPreferences.quiet_hours, now)) {
+      deferredIds.push(notification.id);
+      continue;
+    }
+
+    for (const device of userDevices) {
+      outgoing.push({
+        notification,
+        device,
+        message: {
+          to: device.token,
+          title: notification.title,
+          body: notification.message,
+          data: { ...parseNotificationData(notification.data), notification_id: notification.id, type: notification.type },
+          sound: 'default',
+          channelId: ANDROID_CHANNEL_ID,
+        },
+      });
+    }
+  }
+
+  const deliveries: DeliveryInsert[] = [];
+  const retryIds = new Set<number>();
+
+  for (let start = 0; start < outgoing.length; start += PUSH_BATCH_SIZE) {
+    const batch = outgoing.slice(start, start + PUSH_BATCH_SIZE);
+
+    try {
+      const tickets = await transport.send(batch.map((item) => item.message));
+
+      batch.forEach((item, index) => {
+        const ticket = tickets[index];
+        deliveries.push({
+          notification_id: item.notification.id,
+          device_id: item.device.id,
+          status: ticket?.status === 'ok' ? 'sent' : ticket?.invalidToken ? 'invalid_token' : 'failed',
+          ticket_id: ticket?.status === 'ok' ? ticket.id : null,
+          error: ticket?.status === 'error' ? ticket.message : ticket ? null : 'No ticket returned',
+        });
+      });
+    } catch (error) {
+      console.error('Error sending push batch:', error);
+      batch.forEach((item) => retryIds.add(item.notification.id));
+    }
+  }
+
+  // A notification split across batches is retried whole if any batch failed
+  const recorded = deliveries.filter((delivery) => !retryIds.has(delivery.notification_id));
+
+  if (recorded.length > 0) {
+    const { error: deliveryError } = await supabase.from('push_deliveries').insert(recorded);
+    if (deliveryError) {
+      console.error('Error recording push deliveries:', deliveryError);
+    }
+  }
+
+  // Remove devices whose token is no longer registered with the push service
+  const invalidDeviceIds = [
+    ...new Set(recorded.filter((delivery) => delivery.status === 'invalid_token').map((delivery) => delivery.device_id!)),
+  ];
+
+  if (invalidDeviceIds.length > 0) {
+    const { error: pruneError } = await supabase.from('push_devices').delete().in('id', invalidDeviceIds);
+    if (pruneError) {
+      console.error('Error pruning invalid push devices:', pruneError);
+    } else {
+      result.pruned = invalidDeviceIds.length;
+    }
+  }
+
+  const sentIds = new Set(recorded.filter((delivery) => delivery.status === 'sent').map((delivery) => delivery.notification_id));
+  const failedIds = [
+    ...new Set(recorded.map((delivery) => delivery.notification_id).filter((id) => !sentIds.has(id))),
+  ];
+
+  await Promise.all([
+    setPushStatus(supabase, [...sentIds], 'sent'),
+    setPushStatus(supabase, failedIds, 'failed'),
+    setPushStatus(supabase, skippedIds, 'skipped'),
+    setPushStatus(supabase, [...deferredIds, ...retryIds], 'pending'),
+  ]);
+
+  result.sent = sentIds.size;
+  result.failed = failedIds.length;
+  result.skipped = skippedIds.length;
+  result.deferred = deferredIds.length + retryIds.size;
+
+  return result;
+}
+
+/**
+ * Move notifications to a push status, stamping pushed_at once delivery is finished
+ */
+async function setPushStatus(
+  supabase: SupabaseClient,
+  notificationIds: number[],
+  status: 'pending' | 'sent' | 'failed' | 'skipped'
+) {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({
+      push_status: status,
+      pushed_at: status === 'pending' ? null : new Date().toISOString(),
+    })
+    .in('id', notificationIds);
+
+  if (error) {
+    console.error(`Error marking notifications as ${status}:`, error);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Push Transport Utilities for tRPC Server
+ *
+ * A push transport sends a batch of messages and returns one ticket per
+ * message, in order. The default speaks the Expo push API; set
+ * PUSH_SERVICE_URL to point it at a local mock server, or pass any object
+ * implementing `PushTransport` to the delivery service.
+ */
+
+export const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Most messages the Expo push API accepts per request
+export const PUSH_BATCH_SIZE = 100;
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  sound?: 'default' | null;
+  channelId?: string;
+}
+
+export type PushTicket =
+  | { status: 'ok'; id: string | null }
+  | { status: 'error'; message: string; invalidToken: boolean };
+
+export interface PushTransport {
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+}
+
+interface ExpoPushTransportOptions {
+  url?: string;
+  accessToken?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport for the Expo push API, or a server that speaks the same protocol
+ * Throws if the request fails as a whole, so the caller can retry the batch.
+ */
+export function createExpoPushTransport(options: ExpoPushTransportOptions = {}): PushTransport {
+  const url = options.url ?? EXPO_PUSH_URL;
+  const fetchImpl = options.fetch ?? fetch;
+
+  return {
+    async send(messages) {
+      if (messages.length === 0) return [];
+
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...(options.accessToken && { Authorization: `Bearer ${options.accessToken}` }),
+        },
+        body: JSON.stringify(messages),
+      });
+
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok || !Array.isArray(body?.data)) {
+        const message = body?.errors?.[0]?.message ?? `Push service responded with ${response.status}`;
+        throw new Error(message);
+      }
+
+      return messages.map((_, index): PushTicket => {
+        const ticket = body.data[index];
+
+        if (ticket?.status === 'ok') {
+          return { status: 'ok', id: ticket.id ?? null };
+        }
+
+        return {
+          status: 'error',
+          message: ticket?.message ?? 'No ticket returned for message',
+          invalidToken: ticket?.details?.error === 'DeviceNotRegistered',
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Transport configured from the environment
+ * PUSH_SERVICE_URL overrides the Expo endpoint; EXPO_ACCESS_TOKEN is sent
+ * when push security is enabled for the Expo project.
+ */
+export function getPushTransport(): PushTransport {
+  return createExpoPushTransport({
+    url: process.env.PUSH_SERVICE_URL || EXPO_PUSH_URL,
+    accessToken: process.env.EXPO_ACCESS_TOKEN || undefined,
+  });
+}
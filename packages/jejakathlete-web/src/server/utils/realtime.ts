@@ -0,0 +1,153 @@
+/**
+ * Real-time Event Utilities for tRPC Server
+ *
+ * Database triggers append a row to realtime_events for every change a user
+ * should see live (notifications, enrollment status, workout assignments).
+ * A subscription polls the user's rows past a cursor and streams them; the
+ * event id doubles as the cursor, so a client that reconnects with its last
+ * id picks up exactly where it left off. Idle subscriptions back off so a
+ * quiet client costs a query every half minute rather than every poll.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RealtimeEvent } from '@jejakathlete/shared';
+
+// How soon an open subscription checks again after seeing events
+export const REALTIME_POLL_INTERVAL_MS = 2000;
+
+// Longest wait between checks once a subscription has gone quiet
+export const REALTIME_MAX_POLL_INTERVAL_MS = 30_000;
+
+// Events kept for clients to resume from; older ones are pruned
+export const REALTIME_EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Events read per poll
+const REALTIME_BATCH_SIZE = 100;
+
+/**
+ * Id of the user's most recent event, or 0 if they have none
+ * A client connecting without a cursor starts here and only sees new changes.
+ */
+export async function getLatestEventId(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('realtime_events')
+    .select('id')
+    .eq('user_id', userId)
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.id ?? 0;
+}
+
+/**
+ * The user's events after a cursor, oldest first
+ */
+export async function getEventsSince(
+  supabase: SupabaseClient,
+  userId: string,
+  cursor: number
+): Promise<RealtimeEvent[]> {
+  const { data, error } = await supabase
+    .from('realtime_events')
+    .select('*')
+    .eq('user_id', userId)
+    .gt('id', cursor)
+    .order('id', { ascending: true })
+    .limit(REALTIME_BATCH_SIZE);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as RealtimeEvent[];
+}
+
+/**
+ * Delay before the next poll: reset after events, doubled (up to the cap) after an empty poll
+ */
+export function nextPollInterval(currentMs: number, hadEvents: boolean): number {
+  if (hadEvents) {
+    return REALTIME_POLL_INTERVAL_MS;
+  }
+
+  return Math.min(currentMs * 2, REALTIME_MAX_POLL_INTERVAL_MS);
+}
+
+/**
+ * Wait between polls, returning early if the subscription is closed
+ */
+function waitForNextPoll(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Stream a user's events in batches until the signal is aborted
+ *
+ * @param supabase - Supabase client authenticated as the user
+ * @param userId - User whose events are streamed
+ * @param cursor - Last event id the client saw; null starts from now
+ * @param signal - Aborted when the client disconnects
+ */
+export async function* streamRealtimeEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  cursor: number | null,
+  signal?: AbortSignal
+): AsyncGenerator<RealtimeEvent[]> {
+  let lastId = cursor ?? (await getLatestEventId(supabase, userId));
+  // The first wait is the base interval; each empty poll after that doubles it
+  let pollInterval = REALTIME_POLL_INTERVAL_MS / 2;
+
+  while (!signal?.aborted) {
+    const events = await getEventsSince(supabase, userId, lastId);
+
+    if (events.length > 0) {
+      lastId = events[events.length - 1].id;
+      yield events;
+    }
+
+    // A full batch means more are waiting; fetch them without pausing
+    if (events.length < REALTIME_BATCH_SIZE) {
+      pollInterval = nextPollInterval(pollInterval, events.length > 0);
+      await waitForNextPoll(pollInterval, signal);
+    }
+  }
+}
+
+/**
+ * Delete events older than the retention window
+ *
+ * @param supabase - Service role Supabase client
+ * @returns Number of events deleted
+ */
+export async function pruneRealtimeEvents(supabase: SupabaseClient, now: Date = new Date()): Promise<number> {
+  const { count, error } = await supabase
+    .from('realtime_events')
+    .delete({ count: 'exact' })
+    .lt('created_at', new Date(now.getTime() - REALTIME_EVENT_RETENTION_MS).toISOString());
+
+  if (error) {
+    console.error('Error pruning realtime events:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
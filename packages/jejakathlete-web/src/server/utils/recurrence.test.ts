@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countOccurrencesBefore,
+  expandEventsInWindow,
+  expandOccurrences,
+  formatRecurrenceRule,
+  parseEventTime,
+  parseRecurrenceRule,
+} from './recurrence';
+
+// 2026-10-05 is a Monday
+function series(recurrenceRule: string | null, overrides: { start_date?: string; end_date?: string; recurrence_exdates?: string[] } = {}) {
+  return {
+    start_date: '2026-10-05T09:00:00',
+    end_date: '2026-10-05T10:30:00',
+    recurrence_rule: recurrenceRule,
+    recurrence_exdates: null,
+    ...overrides,
+  };
+}
+
+const starts = (occurrences: { start_date: string }[]) => occurrences.map((occurrence) => occurrence.start_date);
+
+describe('parseEventTime', () => {
+  it('reads the wall-clock time and ignores any zone suffix', () => {
+    expect(parseEventTime('2026-10-05 09:30')?.toISOString()).toBe('2026-10-05T09:30:00.000Z');
+    expect(parseEventTime('2026-10-05T09:30:00+08:00')?.toISOString()).toBe('2026-10-05T09:30:00.000Z');
+    expect(parseEventTime('next monday')).toBeNull();
+  });
+});
+
+describe('parseRecurrenceRule', () => {
+  it('round-trips through formatRecurrenceRule', () => {
+    const value = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231T235959';
+    const rule = parseRecurrenceRule(value);
+
+    expect(rule).toEqual({
+      frequency: 'weekly',
+      interval: 2,
+      by_weekday: ['MO', 'WE'],
+      until: '2026-12-31T23:59:59',
+    });
+    expect(formatRecurrenceRule(rule!)).toBe(value);
+  });
+
+  it('reads a date-only UNTIL as the end of that day', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=DAILY;UNTIL=20261010')?.until).toBe('2026-10-10T23:59:59');
+  });
+
+  it('rejects rules outside the supported subset', () => {
+    expect(parseRecurrenceRule('FREQ=YEARLY')).toBeNull();
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull();
+    expect(parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toBeNull();
+    expect(parseRecurrenceRule('FREQ=DAILY;COUNT=-1')).toBeNull();
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('expands daily rules up to UNTIL and keeps each occurrence\'s duration', () => {
+    const occurrences = expandOccurrences(series('FREQ=DAILY;INTERVAL=2;UNTIL=20261010T000000'), null, '2026-12-31');
+
+    expect(occurrences).toEqual([
+      { start_date: '2026-10-05T09:00:00', end_date: '2026-10-05T10:30:00' },
+      { start_date: '2026-10-07T09:00:00', end_date: '2026-10-07T10:30:00' },
+      { start_date: '2026-10-09T09:00:00', end_date: '2026-10-09T10:30:00' },
+    ]);
+  });
+
+  it('expands weekly rules on each BYDAY, every INTERVAL weeks', () => {
+    const occurrences = expandOccurrences(series('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4'), null, '2026-12-31');
+
+    expect(starts(occurrences)).toEqual([
+      '2026-10-05T09:00:00',
+      '2026-10-07T09:00:00',
+      '2026-10-19T09:00:00',
+      '2026-10-21T09:00:00',
+    ]);
+  });
+
+  it('skips BYDAY dates earlier in the first week than the series start', () => {
+    const wednesday = series('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3', {
+      start_date: '2026-10-07T09:00:00',
+      end_date: '2026-10-07T10:00:00',
+    });
+
+    expect(starts(expandOccurrences(wednesday, null, '2026-12-31'))).toEqual([
+      '2026-10-07T09:00:00',
+      '2026-10-12T09:00:00',
+      '2026-10-14T09:00:00',
+    ]);
+  });
+
+  it('skips months without the start day for monthly rules', () => {
+    const endOfMonth = series('FREQ=MONTHLY;COUNT=3', {
+      start_date: '2026-01-31T18:00:00',
+      end_date: '2026-01-31T19:00:00',
+    });
+
+    expect(starts(expandOccurrences(endOfMonth, null, '2026-12-31'))).toEqual([
+      '2026-01-31T18:00:00',
+      '2026-03-31T18:00:00',
+      '2026-05-31T18:00:00',
+    ]);
+  });
+
+  it('leaves out exception dates and occurrences outside the window', () => {
+    const weekly = series('FREQ=WEEKLY', { recurrence_exdates: ['2026-10-19 09:00'] });
+
+    expect(starts(expandOccurrences(weekly, '2026-10-12', '2026-11-02'))).toEqual([
+      '2026-10-12T09:00:00',
+      '2026-10-26T09:00:00',
+    ]);
+  });
+
+  it('expands a one-off event to itself when it starts inside the window', () => {
+    expect(starts(expandOccurrences(series(null), '2026-10-01', '2026-10-31'))).toEqual(['2026-10-05T09:00:00']);
+    expect(expandOccurrences(series(null), '2026-10-06', '2026-10-31')).toEqual([]);
+  });
+});
+
+describe('countOccurrencesBefore', () => {
+  it('counts excluded occurrences too', () => {
+    const daily = series('FREQ=DAILY;COUNT=10', { recurrence_exdates: ['2026-10-06T09:00:00'] });
+
+    expect(countOccurrencesBefore(daily, '2026-10-08T09:00:00')).toBe(3);
+    expect(countOccurrencesBefore(series(null), '2026-10-08T09:00:00')).toBe(0);
+  });
+});
+
+describe('expandEventsInWindow', () => {
+  it('merges one-off events with occurrences that end inside the window, sorted by start', () => {
+    const events = [
+      { id: 1, ...series('FREQ=DAILY'), recurrence_parent_id: null },
+      { id: 2, ...series(null, { start_date: '2026-10-06T07:00:00', end_date: '2026-10-06T08:00:00' }), recurrence_parent_id: null },
+    ];
+
+    const expanded = expandEventsInWindow(events, '2026-10-05', '2026-10-07T10:00:00');
+
+    expect(expanded.map((event) => [event.id, event.occurrence_start, event.is_recurring])).toEqual([
+      [1, '2026-10-05T09:00:00', true],
+      [2, '2026-10-06T07:00:00', false],
+      [1, '2026-10-06T09:00:00', true],
+    ]);
+  });
+
+  it('sorts newest first when ascending is false', () => {
+    const expanded = expandEventsInWindow([series('FREQ=DAILY;COUNT=3')], null, '2026-12-31', false);
+
+    expect(starts(expanded)).toEqual(['2026-10-07T09:00:00', '2026-10-06T09:00:00', '2026-10-05T09:00:00']);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Recurrence Utilities for tRPC Server
+ *
+ * Parses, serializes and expands the RRULE subset used by recurring events:
+ * FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, UNTIL and COUNT.
+ *
+ * Event times are stored as TIMESTAMP without time zone, so occurrences are
+ * calculated on wall-clock time. Dates are handled in UTC internally only so
+ * that daylight saving changes never shift an occurrence.
+ */
+
+import type { RecurrenceRule, RecurrenceWeekday } from '@jejakathlete/shared';
+
+export interface RecurringSeries {
+  start_date: string;
+  end_date: string;
+  recurrence_rule: string | null;
+  recurrence_exdates: string[] | null;
+}
+
+export interface Occurrence {
+  start_date: string;
+  end_date: string;
+}
+
+export interface EventOccurrenceFields {
+  occurrence_start: string;
+  is_recurring: boolean;
+}
+
+export const WEEKDAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// Maximum occurrences returned for one series in a single expansion
+export const MAX_OCCURRENCES = 500;
+
+// Default look-ahead when a listing has no end date
+export const DEFAULT_WINDOW_DAYS = 90;
+
+// Safety stop for rules that never produce a matching date
+const MAX_ITERATIONS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an event time into a UTC date holding its wall-clock value
+ * Accepts "YYYY-MM-DD", "YYYY-MM-DDTHH:mm[:ss]" and "YYYY-MM-DD HH:mm[:ss]";
+ * any time zone suffix is ignored, as it is by TIMESTAMP columns
+ */
+export function parseEventTime(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+/**
+ * Format a wall-clock date as "YYYY-MM-DDTHH:mm:ss"
+ */
+export function formatEventTime(date: Date): string {
+  return date.toISOString().slice(0, 19);
+}
+
+/**
+ * Normalize an event time string so occurrence starts can be compared
+ */
+export function normalizeEventTime(value: string): string | null {
+  const date = parseEventTime(value);
+  return date ? formatEventTime(date) : null;
+}
+
+/**
+ * Offset an event time by a number of seconds
+ */
+export function shiftEventTime(value: string, seconds: number): string {
+  const date = parseEventTime(value);
+  if (!date) return value;
+  return formatEventTime(new Date(date.getTime() + seconds * 1000));
+}
+
+/**
+ * Serialize a recurrence rule to an RRULE string
+ * e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;UNTIL=20261231T235959
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval || 1}`];
+
+  if (rule.frequency === 'weekly' && rule.by_weekday && rule.by_weekday.length > 0) {
+    const days = WEEKDAYS.filter((day) => rule.by_weekday!.includes(day));
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+
+  if (rule.until) {
+    const until = parseEventTime(rule.until);
+    if (until) {
+      parts.push(`UNTIL=${formatEventTime(until).replace(/[-:]/g, '')}`);
+    }
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Parse an RRULE string into a recurrence rule
+ * Returns null for rules outside the supported subset
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const fields = new Map(
+    value
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map((part) => {
+        const [key, val = ''] = part.split('=');
+        return [key.trim().toUpperCase(), val.trim().toUpperCase()] as const;
+      })
+  );
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+
+  const rule: RecurrenceRule = {
+    frequency: freq.toLowerCase() as RecurrenceRule['frequency'],
+    interval: 1,
+  };
+
+  const interval = fields.get('INTERVAL');
+  if (interval) {
+    const parsed = parseInt(interval, 10);
+    if (!Number.isInteger(parsed) || parsed < 1) return null;
+    rule.interval = parsed;
+  }
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    const days = byDay.split(',');
+    if (!days.every((day) => WEEKDAYS.includes(day as RecurrenceWeekday))) return null;
+    rule.by_weekday = days as RecurrenceWeekday[];
+  }
+
+  const until = fields.get('UNTIL');
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/.exec(until);
+    if (!match) return null;
+    const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+    rule.until = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  }
+
+  const count = fields.get('COUNT');
+  if (count) {
+    const parsed = parseInt(count, 10);
+    if (!Number.isInteger(parsed) || parsed < 1) return null;
+    rule.count = parsed;
+  }
+
+  return rule;
+}
+
+/**
+ * Generate occurrence start dates for a rule in chronological order,
+ * honouring UNTIL and COUNT but not exception dates
+ */
+function* generateOccurrenceStarts(dtstart: Date, rule: RecurrenceRule): Generator<Date> {
+  const interval = Math.max(1, rule.interval || 1);
+  const until = rule.until ? parseEventTime(rule.until) : null;
+  let emitted = 0;
+
+  // Returns false once the rule has ended
+  const accept = (candidate: Date): boolean => {
+    if (until && candidate > until) return false;
+    if (rule.count && emitted >= rule.count) return false;
+    emitted++;
+    return true;
+  };
+
+  if (rule.frequency === 'daily') {
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      const candidate = new Date(dtstart.getTime() + i * interval * DAY_MS);
+      if (!accept(candidate)) return;
+      yield candidate;
+    }
+    return;
+  }
+
+  if (rule.frequency === 'weekly') {
+    // Weeks start on Monday; getUTCDay() is 0 for Sunday
+    const startWeekday = (dtstart.getUTCDay() + 6) % 7;
+    const weekdays = rule.by_weekday && rule.by_weekday.length > 0
+      ? WEEKDAYS.map((_, index) => index).filter((index) => rule.by_weekday!.includes(WEEKDAYS[index]))
+      : [startWeekday];
+    const weekStart = dtstart.getTime() - startWeekday * DAY_MS;
+
+    for (let week = 0; week < MAX_ITERATIONS; week++) {
+      for (const weekday of weekdays) {
+        const candidate = new Date(weekStart + (week * interval * 7 + weekday) * DAY_MS);
+        if (candidate < dtstart) continue;
+        if (!accept(candidate)) return;
+        yield candidate;
+      }
+    }
+    return;
+  }
+
+  // Monthly on the start day; months without that day are skipped
+  const day = dtstart.getUTCDate();
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const candidate = new Date(Date.UTC(
+      dtstart.getUTCFullYear(),
+      dtstart.getUTCMonth() + i * interval,
+      day,
+      dtstart.getUTCHours(),
+      dtstart.getUTCMinutes(),
+      dtstart.getUTCSeconds()
+    ));
+    if (candidate.getUTCDate() !== day) continue;
+    if (!accept(candidate)) return;
+    yield candidate;
+  }
+}
+
+/**
+ * Expand a recurring series into occurrences starting inside a window
+ * Exception dates are skipped. One-off events expand to themselves.
+ *
+ * @param series - Event with start/end dates and recurrence fields
+ * @param windowStart - Earliest occurrence start, or null for the series start
+ * @param windowEnd - Latest occurrence start
+ * @returns Occurrences in chronological order, at most MAX_OCCURRENCES
+ */
+export function expandOccurrences(
+  series: RecurringSeries,
+  windowStart: string | null,
+  windowEnd: string
+): Occurrence[] {
+  const dtstart = parseEventTime(series.start_date);
+  const dtend = parseEventTime(series.end_date);
+  const from = windowStart ? parseEventTime(windowStart) : null;
+  const to = parseEventTime(windowEnd);
+  if (!dtstart || !dtend || !to) return [];
+
+  const rule = series.recurrence_rule ? parseRecurrenceRule(series.recurrence_rule) : null;
+  if (!rule) {
+    const inWindow = (!from || dtstart >= from) && dtstart <= to;
+    return inWindow ? [{ start_date: formatEventTime(dtstart), end_date: formatEventTime(dtend) }] : [];
+  }
+
+  const duration = dtend.getTime() - dtstart.getTime();
+  const exdates = new Set(
+    (series.recurrence_exdates || []).map(normalizeEventTime).filter(Boolean)
+  );
+  const occurrences: Occurrence[] = [];
+
+  for (const start of generateOccurrenceStarts(dtstart, rule)) {
+    if (start > to || occurrences.length >= MAX_OCCURRENCES) break;
+    if (from && start < from) continue;
+
+    const startDate = formatEventTime(start);
+    if (exdates.has(startDate)) continue;
+
+    occurrences.push({
+      start_date: startDate,
+      end_date: formatEventTime(new Date(start.getTime() + duration)),
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Count the occurrences a rule generates before a given start time,
+ * including excluded ones, so COUNT can be carried over when a series is split
+ */
+export function countOccurrencesBefore(series: RecurringSeries, before: string): number {
+  const dtstart = parseEventTime(series.start_date);
+  const limit = parseEventTime(before);
+  const rule = series.recurrence_rule ? parseRecurrenceRule(series.recurrence_rule) : null;
+  if (!dtstart || !limit || !rule) return 0;
+
+  let count = 0;
+  for (const start of generateOccurrenceStarts(dtstart, rule)) {
+    if (start >= limit) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Expand a listing of events into one entry per occurrence inside a window
+ * Recurring series are expanded, keeping the series id and fields with the
+ * occurrence's dates; occurrences must also end by `windowEnd`, matching the
+ * date filters applied to one-off events. One-off events (already filtered
+ * by the query) pass through. Every entry gets `occurrence_start`, used with
+ * the event id to address an occurrence, and `is_recurring`.
+ *
+ * @param events - One-off events in the window plus recurring series
+ * @param windowStart - Earliest occurrence start, or null for no lower bound
+ * @param windowEnd - Latest occurrence end
+ * @param ascending - Sort order by start date
+ */
+export function expandEventsInWindow<T extends RecurringSeries & { recurrence_parent_id?: number | null }>(
+  events: T[],
+  windowStart: string | null,
+  windowEnd: string,
+  ascending = true
+): Array<T & EventOccurrenceFields> {
+  const end = parseEventTime(windowEnd);
+  if (!end) return [];
+
+  const expanded = events.flatMap((event): Array<T & EventOccurrenceFields> => {
+    if (!event.recurrence_rule) {
+      return [{
+        ...event,
+        occurrence_start: event.start_date,
+        is_recurring: event.recurrence_parent_id != null,
+      }];
+    }
+
+    return expandOccurrences(event, windowStart, windowEnd)
+      .filter((occurrence) => parseEventTime(occurrence.end_date)! <= end)
+      .map((occurrence) => ({
+        ...event,
+        start_date: occurrence.start_date,
+        end_date: occurrence.end_date,
+        occurrence_start: occurrence.start_date,
+        is_recurring: true,
+      }));
+  });
+
+  const time = (value: string) => parseEventTime(value)?.getTime() ?? 0;
+  return expanded.sort((a, b) =>
+    ascending ? time(a.start_date) - time(b.start_date) : time(b.start_date) - time(a.start_date)
+  );
+}
+
+/**
+ * Default end of a listing window when none is requested
+ */
+export function defaultWindowEnd(): string {
+  return formatEventTime(new Date(Date.now() + DEFAULT_WINDOW_DAYS * DAY_MS));
+}
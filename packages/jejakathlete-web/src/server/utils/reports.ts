@@ -0,0 +1,189 @@
+/**
+ * Report Utilities for tRPC Server
+ *
+ * Aggregates of an athlete's fitness test results for trainer reports:
+ * summary counts, per-component breakdowns and per-test trend series.
+ * All helpers work on results already fetched and flattened with
+ * toReportResult, so the router decides what data a report covers.
+ */
+
+import type {
+  ComponentBreakdown,
+  ReportRange,
+  ReportTestResult,
+  ReportTrend,
+  TestTrendSeries,
+} from '@jejakathlete/shared';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_DAYS: Record<Exclude<ReportRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+
+// Days counted as recent activity in summaries
+const RECENT_ACTIVITY_DAYS = 7;
+
+// Change (as a fraction of the first result) below which a trend is stable
+const TREND_THRESHOLD = 0.01;
+
+// Columns selected for test results used in reports
+export const REPORT_RESULT_SELECT = `
+  id,
+  test_id,
+  result_value,
+  result_text,
+  input_unit,
+  test_date,
+  notes,
+  is_best_record,
+  created_at,
+  test:tests (
+    id,
+    name,
+    unit,
+    improvement_direction,
+    component_id,
+    fitness_component:fitness_components (
+      id,
+      name
+    )
+  )
+`;
+
+/**
+ * First date (YYYY-MM-DD) covered by a report range, or null for all time
+ */
+export function getRangeStartDate(range: ReportRange, now: Date = new Date()): string | null {
+  if (range === 'all') return null;
+  return new Date(now.getTime() - RANGE_DAYS[range] * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Flatten a test result row selected with REPORT_RESULT_SELECT
+ */
+export function toReportResult(row: any): ReportTestResult {
+  return {
+    id: row.id,
+    test_id: row.test_id,
+    test_name: row.test?.name || '',
+    component_id: row.test?.component_id ?? row.test?.fitness_component?.id ?? 0,
+    fitness_component: row.test?.fitness_component?.name || '',
+    result_value: row.result_value,
+    result_text: row.result_text ?? null,
+    unit: row.test?.unit || '',
+    input_unit: row.input_unit ?? null,
+    improvement_direction: row.test?.improvement_direction || 'higher',
+    test_date: row.test_date,
+    notes: row.notes ?? null,
+    is_best_record: !!row.is_best_record,
+  };
+}
+
+/**
+ * Direction of change between an earlier and a later result
+ */
+export function getTrend(first: number, last: number, direction: 'higher' | 'lower'): ReportTrend {
+  const change = first === 0 ? last - first : (last - first) / Math.abs(first);
+  if (Math.abs(change) < TREND_THRESHOLD) return 'stable';
+  const improved = direction === 'higher' ? change > 0 : change < 0;
+  return improved ? 'improving' : 'declining';
+}
+
+/**
+ * Count tests, best records and recent activity
+ */
+export function summarizeResults(
+  results: Pick<ReportTestResult, 'test_date' | 'is_best_record'>[],
+  now: Date = new Date()
+) {
+  const recentStart = new Date(now.getTime() - RECENT_ACTIVITY_DAYS * DAY_MS).toISOString().slice(0, 10);
+  const lastTestDate = results.reduce<string | null>(
+    (latest, result) => (!latest || result.test_date > latest ? result.test_date : latest),
+    null
+  );
+
+  return {
+    total_tests: results.length,
+    best_records: results.filter((result) => result.is_best_record).length,
+    recent_activity: results.filter((result) => result.test_date >= recentStart).length,
+    last_test_date: lastTestDate,
+  };
+}
+
+/**
+ * Value-over-time series for each test, oldest result first
+ * Results recorded as text only are left out of the series.
+ */
+export function buildTrendSeries(results: ReportTestResult[]): TestTrendSeries[] {
+  const byTest = new Map<number, TestTrendSeries>();
+
+  const ordered = [...results].sort((a, b) => a.test_date.localeCompare(b.test_date));
+  for (const result of ordered) {
+    if (result.result_value === null) continue;
+
+    let series = byTest.get(result.test_id);
+    if (!series) {
+      series = {
+        test_id: result.test_id,
+        test_name: result.test_name,
+        unit: result.unit,
+        improvement_direction: result.improvement_direction,
+        points: [],
+        trend: 'stable',
+      };
+      byTest.set(result.test_id, series);
+    }
+    series.points.push({ test_date: result.test_date, result_value: result.result_value });
+  }
+
+  for (const series of byTest.values()) {
+    if (series.points.length >= 2) {
+      series.trend = getTrend(
+        series.points[0].result_value,
+        series.points[series.points.length - 1].result_value,
+        series.improvement_direction
+      );
+    }
+  }
+
+  return [...byTest.values()].sort((a, b) => a.test_name.localeCompare(b.test_name));
+}
+
+/**
+ * Tests per fitness component with the latest best record and an overall trend
+ * A component is improving or declining when more of its tests move that way.
+ */
+export function buildComponentBreakdown(results: ReportTestResult[]): ComponentBreakdown[] {
+  const trends = new Map(buildTrendSeries(results).map((series) => [series.test_id, series.trend]));
+  const byComponent = new Map<number, ReportTestResult[]>();
+
+  for (const result of results) {
+    const componentResults = byComponent.get(result.component_id) || [];
+    componentResults.push(result);
+    byComponent.set(result.component_id, componentResults);
+  }
+
+  return [...byComponent.entries()]
+    .map(([componentId, componentResults]) => {
+      const testIds = [...new Set(componentResults.map((result) => result.test_id))];
+      const improving = testIds.filter((id) => trends.get(id) === 'improving').length;
+      const declining = testIds.filter((id) => trends.get(id) === 'declining').length;
+      const bestRecords = componentResults
+        .filter((result) => result.is_best_record)
+        .sort((a, b) => b.test_date.localeCompare(a.test_date));
+
+      return {
+        component_id: componentId,
+        component_name: componentResults[0].fitness_component,
+        total_tests: componentResults.length,
+        last_test_date: summarizeResults(componentResults).last_test_date,
+        best_record: bestRecords[0] || null,
+        improvement_trend: (improving > declining ? 'improving' : declining > improving ? 'declining' : 'stable') as ReportTrend,
+      };
+    })
+    .sort((a, b) => b.total_tests - a.total_tests || a.component_name.localeCompare(b.component_name));
+}
@@ -8,6 +8,54 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { CompleteProfile } from '@jejakathlete/shared';
 
+// Rows fetched per request; matches the API's response row limit
+const PAGE_SIZE = 1000;
+
+// IDs per `in` filter, to keep request URLs short
+const ID_CHUNK_SIZE = 200;
+
+type PageQuery = (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>;
+
+/**
+ * Fetch every row of an ordered query, a page at a time, so long histories
+ * aren't cut off by the response row limit
+ *
+ * @param query - Builds the query for a row range; it must be ordered by a
+ *   unique column so pages don't overlap
+ */
+export async function fetchAllPages<T>(query: PageQuery): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Fetch every row matching a list of IDs, a chunk of IDs at a time, paging
+ * through each chunk with fetchAllPages
+ *
+ * @param ids - IDs for the query's `in` filter
+ * @param query - Builds the query for a chunk of IDs and a row range
+ */
+export async function fetchAllPagesByIds<T, TId>(
+  ids: TId[],
+  query: (chunk: TId[], from: number, to: number) => ReturnType<PageQuery>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(start, start + ID_CHUNK_SIZE);
+    rows.push(...(await fetchAllPages<T>((from, to) => query(chunk, from, to))));
+  }
+
+  return rows;
+}
+
 /**
  * Fetch complete user profile with role-specific data
  * Joins users, user_profiling, and role-specific tables (trainers/athletes)
@@ -0,0 +1,190 @@
+/**
+ * Test Result Utilities for tRPC Server
+ *
+ * Shared helpers for recording fitness test results with personal record
+ * detection, used by both athlete and trainer recording procedures.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TRPCError } from '@trpc/server';
+
+export interface TestResultInsert {
+  athlete_id: string;
+  test_id: number;
+  // Null for results recorded as text only, which never set a record
+  result_value: number | null;
+  test_date: string;
+  notes?: string | null;
+  result_text?: string | null;
+  input_unit?: string | null;
+  recorded_by_user_id?: string | null;
+}
+
+/**
+ * Insert a test result and detect whether it is a new personal record
+ * Compares against the athlete's previous results using the test's
+ * improvement direction and clears the previous best record flag
+ *
+ * @param supabase - Supabase client instance
+ * @param result - Test result to insert
+ * @returns The inserted test result row
+ */
+export async function insertTestResultWithRecordCheck(
+  supabase: SupabaseClient,
+  result: TestResultInsert
+) {
+  // Get test information to determine improvement direction
+  const { data: test, error: testError } = await supabase
+    .from('tests')
+    .select('improvement_direction')
+    .eq('id', result.test_id)
+    .single();
+
+  if (testError || !test) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Test not found',
+    });
+  }
+
+  // Get all previous numeric results for this test and athlete
+  const { data: previousResults, error: previousError } = await supabase
+    .from('test_results')
+    .select('id, result_value, is_best_record')
+    .eq('athlete_id', result.athlete_id)
+    .eq('test_id', result.test_id)
+    .not('result_value', 'is', null);
+
+  if (previousError) {
+    console.error('Error fetching previous test results:', previousError);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to fetch previous test results',
+    });
+  }
+
+  // Determine if this is a new personal record
+  const resultValue = result.result_value;
+  let isNewRecord = resultValue !== null;
+  if (resultValue !== null && previousResults && previousResults.length > 0) {
+    const bestPrevious = previousResults.reduce((best, current) => {
+      if (test.improvement_direction === 'higher') {
+        return current.result_value > best.result_value ? current : best;
+      } else {
+        return current.result_value < best.result_value ? current : best;
+      }
+    });
+
+    if (test.improvement_direction === 'higher') {
+      isNewRecord = resultValue > bestPrevious.result_value;
+    } else {
+      isNewRecord = resultValue < bestPrevious.result_value;
+    }
+
+    // If this is a new record, update all previous records to not be best
+    if (isNewRecord) {
+      const { error: updateError } = await supabase
+        .from('test_results')
+        .update({ is_best_record: false })
+        .eq('athlete_id', result.athlete_id)
+        .eq('test_id', result.test_id);
+
+      if (updateError) {
+        console.error('Error updating previous records:', updateError);
+        // Continue anyway - this is not critical
+      }
+    }
+  }
+
+  // Insert the new test result
+  const { data, error } = await supabase
+    .from('test_results')
+    .insert({
+      athlete_id: result.athlete_id,
+      test_id: result.test_id,
+      result_value: result.result_value,
+      result_text: result.result_text ?? null,
+      input_unit: result.input_unit ?? null,
+      test_date: result.test_date,
+      notes: result.notes ?? null,
+      is_best_record: isNewRecord,
+      recorded_by_user_id: result.recorded_by_user_id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error recording test result:', error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to record test result',
+    });
+  }
+
+  return data;
+}
+
+/**
+ * Recalculate which of an athlete's results for a test is the best record
+ * Used after a result is edited or removed, where the previous best may change
+ *
+ * @param supabase - Supabase client instance
+ * @param athleteId - Athlete whose results to check
+ * @param testId - Test to check
+ * @returns The id of the best result, or null if none remain
+ */
+export async function refreshBestRecord(
+  supabase: SupabaseClient,
+  athleteId: string,
+  testId: number
+): Promise<number | null> {
+  const [{ data: test }, { data: results, error }] = await Promise.all([
+    supabase.from('tests').select('improvement_direction').eq('id', testId).single(),
+    supabase
+      .from('test_results')
+      .select('id, result_value, is_best_record, test_date')
+      .eq('athlete_id', athleteId)
+      .eq('test_id', testId)
+      .not('result_value', 'is', null)
+      .order('test_date', { ascending: true }),
+  ]);
+
+  if (error || !results || results.length === 0) {
+    if (error) console.error('Error fetching test results for best record:', error);
+    return null;
+  }
+
+  // The earliest result wins a tie, as it set the record first
+  const best = results.reduce((best, current) => {
+    if (test?.improvement_direction === 'lower') {
+      return current.result_value < best.result_value ? current : best;
+    }
+    return current.result_value > best.result_value ? current : best;
+  });
+
+  const stale = results.filter((result) => result.is_best_record && result.id !== best.id);
+
+  if (stale.length > 0) {
+    const { error: clearError } = await supabase
+      .from('test_results')
+      .update({ is_best_record: false })
+      .in('id', stale.map((result) => result.id));
+
+    if (clearError) {
+      console.error('Error clearing previous best records:', clearError);
+    }
+  }
+
+  if (!best.is_best_record) {
+    const { error: setError } = await supabase
+      .from('test_results')
+      .update({ is_best_record: true })
+      .eq('id', best.id);
+
+    if (setError) {
+      console.error('Error marking best record:', setError);
+    }
+  }
+
+  return best.id;
+}
@@ -0,0 +1,94 @@
+/**
+ * Time Zone Utilities for tRPC Server
+ *
+ * Event times are stored as wall-clock TIMESTAMP values. These helpers map
+ * them to real instants using IANA time zone data from the runtime.
+ */
+
+// Time zone assumed for event times when no other zone is known
+export const DEFAULT_TIMEZONE = 'Asia/Kuala_Lumpur';
+
+const MINUTE_MS = 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check whether a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * UTC offset of a time zone at an instant, in minutes
+ */
+export function getOffsetMinutes(timeZone: string, utcMs: number): number {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(utcMs));
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((wallClock - Math.floor(utcMs / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the instant it refers to
+ *
+ * @param wallClock - Date holding the wall-clock value in its UTC fields
+ * @param timeZone - IANA time zone the wall-clock time is in
+ */
+export function zonedTimeToUtc(wallClock: Date, timeZone: string): Date {
+  const guess = wallClock.getTime();
+  const offset = getOffsetMinutes(timeZone, guess);
+  let utc = guess - offset * MINUTE_MS;
+
+  // Re-check around offset changes, where the first guess can be an hour out
+  const correctedOffset = getOffsetMinutes(timeZone, utc);
+  if (correctedOffset !== offset) {
+    utc = guess - correctedOffset * MINUTE_MS;
+  }
+
+  return new Date(utc);
+}
+
+/**
+ * Show a wall-clock time in one time zone as the wall-clock time in another
+ *
+ * @param wallClock - Date holding the wall-clock value in its UTC fields
+ * @returns Date holding the converted wall-clock value in its UTC fields
+ */
+export function convertZonedTime(wallClock: Date, fromTimeZone: string, toTimeZone: string): Date {
+  if (fromTimeZone === toTimeZone) return wallClock;
+
+  const utc = zonedTimeToUtc(wallClock, fromTimeZone).getTime();
+  return new Date(utc + getOffsetMinutes(toTimeZone, utc) * MINUTE_MS);
+}
+
+/**
+ * Current wall-clock time in a time zone, for comparing with event times
+ *
+ * @returns Date holding the wall-clock value in its UTC fields
+ */
+export function zonedNow(timeZone: string): Date {
+  const now = Date.now();
+  return new Date(now + getOffsetMinutes(timeZone, now) * MINUTE_MS);
+}
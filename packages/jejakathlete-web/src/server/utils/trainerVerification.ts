@@ -0,0 +1,65 @@
+/**
+ * Trainer Verification Utilities for tRPC Server
+ *
+ * Helpers for certification documents trainers upload for verification.
+ * Files are stored in the private `trainer-documents` bucket under the
+ * trainer's user ID and are only viewed through short-lived signed URLs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Trainer, TrainerDocument, TrainerDocumentWithUrl } from '@jejakathlete/shared';
+
+export const TRAINER_DOCUMENTS_BUCKET = 'trainer-documents';
+
+// Largest document accepted, after base64 decoding
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export const DOCUMENT_CONTENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'] as const;
+
+// How long signed document URLs stay valid, in seconds
+const DOCUMENT_URL_TTL = 60 * 60;
+
+/**
+ * Storage path for a new document: {trainerId}/{timestamp}-{safe file name}
+ */
+export function getDocumentPath(trainerId: string, fileName: string, now: Date = new Date()): string {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_').slice(-100) || 'document';
+  return `${trainerId}/${now.getTime()}-${safeName}`;
+}
+
+/**
+ * Whether a trainer's latest submission is waiting for an admin decision
+ */
+export function isAwaitingReview(
+  trainer: Pick<Trainer, 'verification_status' | 'verification_submitted_at' | 'verification_reviewed_at'>
+): boolean {
+  if (trainer.verification_status !== 'pending' || !trainer.verification_submitted_at) return false;
+  return !trainer.verification_reviewed_at || trainer.verification_reviewed_at < trainer.verification_submitted_at;
+}
+
+/**
+ * Add signed URLs to documents
+ * The client must be able to read the files: the trainer's own client, or
+ * the service role client for admins.
+ */
+export async function withDocumentUrls(
+  supabase: SupabaseClient,
+  documents: TrainerDocument[]
+): Promise<TrainerDocumentWithUrl[]> {
+  if (documents.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from(TRAINER_DOCUMENTS_BUCKET)
+    .createSignedUrls(documents.map((document) => document.file_path), DOCUMENT_URL_TTL);
+
+  if (error) {
+    console.error('Failed to sign trainer document URLs:', error);
+  }
+
+  const urls = new Map((data || []).map((signed) => [signed.path, signed.signedUrl]));
+
+  return documents.map((document) => ({
+    ...document,
+    url: urls.get(document.file_path) ?? null,
+  }));
+}
@@ -15,6 +15,8 @@ export interface User {
   role: UserRole;
   avatar_url: string | null;
   is_verified: boolean;
+  // Set while an account deletion is pending
+  deactivated_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -40,10 +42,29 @@ export interface Trainer {
   certification_id: string | null;
   specialization: string | null;
   verification_status: 'pending' | 'approved' | 'rejected';
+  verification_submitted_at: string | null;
+  verification_reviewed_at: string | null;
+  verification_reviewed_by: string | null;
+  verification_reason: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface TrainerDocument {
+  id: number;
+  trainer_id: string;
+  certification_id: string | null;
+  file_path: string;
+  file_name: string;
+  content_type: string;
+  uploaded_at: string;
+}
+
+// Document with a short-lived signed URL for viewing
+export interface TrainerDocumentWithUrl extends TrainerDocument {
+  url: string | null;
+}
+
 export interface Athlete {
   user_id: string;
   sport: string;
@@ -102,10 +123,10 @@ export interface FitnessComponent {
 
 export interface Test {
   id: number;
-  fitness_component_id: number;
+  component_id: number;
   name: string;
   description: string | null;
-  unit: string;
+  unit: string | null;
   improvement_direction: 'higher' | 'lower';
   created_at: string;
 }
@@ -114,10 +135,13 @@ export interface TestResult {
   id: number;
   athlete_id: string;
   test_id: number;
-  result_value: number;
+  // Null for results recorded as text only
+  result_value: number | null;
+  result_text: string | null;
   test_date: string;
   notes: string | null;
   is_best_record: boolean;
+  recorded_by_user_id: string | null;
   created_at: string;
 }
 
@@ -126,6 +150,161 @@ export interface TestResultWithDetails extends TestResult {
   fitness_component?: FitnessComponent;
 }
 
+export interface TestNorm {
+  id: number;
+  test_id: number;
+  gender: 'male' | 'female' | null;
+  sport: string | null;
+  level: 'beginner' | 'intermediate' | 'advanced' | 'elite' | null;
+  age_min: number | null;
+  age_max: number | null;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  source: string | null;
+  created_at: string;
+}
+
+export type RatingCategory = 'excellent' | 'good' | 'average' | 'below_average' | 'poor';
+
+export interface TestResultRating {
+  test_result_id: number;
+  norm_id: number | null;
+  percentile: number | null;
+  rating: RatingCategory | null;
+}
+
+export type ReportRange = '7d' | '30d' | '90d' | '1y' | 'all';
+
+export type ReportTrend = 'improving' | 'declining' | 'stable';
+
+// Test result flattened with its test and fitness component, as used by reports
+export interface ReportTestResult {
+  id: number;
+  test_id: number;
+  test_name: string;
+  component_id: number;
+  fitness_component: string;
+  result_value: number | null;
+  result_text: string | null;
+  unit: string;
+  input_unit: string | null;
+  improvement_direction: 'higher' | 'lower';
+  test_date: string;
+  notes: string | null;
+  is_best_record: boolean;
+}
+
+export interface ComponentBreakdown {
+  component_id: number;
+  component_name: string;
+  total_tests: number;
+  last_test_date: string | null;
+  best_record: ReportTestResult | null;
+  improvement_trend: ReportTrend;
+}
+
+export interface TestTrendSeries {
+  test_id: number;
+  test_name: string;
+  unit: string;
+  improvement_direction: 'higher' | 'lower';
+  points: { test_date: string; result_value: number }[];
+  trend: ReportTrend;
+}
+
+// ============================================================================
+// Goals
+// ============================================================================
+
+export type GoalType = 'test' | 'body_metric' | 'workout_count';
+
+export type GoalMetric = 'weight' | 'body_fat_percentage' | 'muscle_mass' | 'bmi';
+
+export type GoalStatus = 'active' | 'achieved' | 'missed' | 'cancelled';
+
+// A target for an athlete to reach by a deadline, set by them or their trainer
+export interface AthleteGoal {
+  id: number;
+  athlete_id: string;
+  set_by_user_id: string | null;
+  goal_type: GoalType;
+  title: string | null;
+  // Set for test goals
+  test_id: number | null;
+  // Set for body metric goals
+  metric: GoalMetric | null;
+  // Result value, metric value, or number of completed workouts
+  target_value: number;
+  // Value when the goal was set; null for workout count goals
+  baseline_value: number | null;
+  direction: 'higher' | 'lower';
+  start_date: string;
+  deadline: string;
+  status: GoalStatus;
+  achieved_at: string | null;
+  at_risk_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Progress computed from test results, body metrics or completed workouts
+export interface AthleteGoalWithProgress extends AthleteGoal {
+  // Test name, metric name or the title
+  label: string;
+  unit: string | null;
+  current_value: number | null;
+  // 0 to 1 from the baseline to the target; null without enough data
+  progress: number | null;
+  days_left: number;
+  at_risk: boolean;
+}
+
+// ============================================================================
+// Achievements
+// ============================================================================
+
+// What an achievement rule measures; each is computed by the server
+export type AchievementMetric =
+  | 'completed_workouts'
+  | 'longest_streak_days'
+  | 'personal_records'
+  | 'components_tested'
+  | 'goals_achieved';
+
+// Domain events that can earn achievements
+export type AchievementEvent = 'workout_completed' | 'test_result' | 'goal_achieved';
+
+// A badge, defined by the server's achievement rules
+export interface AchievementDefinition {
+  key: string;
+  title: string;
+  description: string;
+  icon: string; // Feather icon name
+  metric: AchievementMetric;
+  // Value of the metric needed; 'all' means every item the metric counts
+  threshold: number | 'all';
+}
+
+// A badge awarded to an athlete
+export interface AthleteAchievement {
+  id: number;
+  athlete_id: string;
+  achievement_key: string;
+  // Metric value when awarded
+  value: number | null;
+  awarded_at: string;
+}
+
+// Every badge with whether the athlete has it and how close they are
+export interface AchievementProgress extends AchievementDefinition {
+  awarded_at: string | null;
+  current: number;
+  target: number;
+}
+
 // ============================================================================
 // Workouts
 // ============================================================================
@@ -143,7 +322,8 @@ export interface Exercise {
 
 export interface WorkoutTemplate {
   id: number;
-  trainer_id: string;
+  // Null once the trainer's account is deleted and athletes still use the template
+  trainer_id: string | null;
   name: string;
   description: string | null;
   created_at: string;
@@ -159,11 +339,36 @@ export interface WorkoutExercise {
   reps: number;
   rest_time: number;
   notes: string | null;
+  target_weight: number | null;
+  progression_type: ProgressionType;
+  weight_increment: number | null;
+  rep_range_max: number | null;
+  deload_after_misses: number | null;
+  deload_percent: number | null;
   created_at: string;
 }
 
+export type ProgressionType = 'none' | 'linear' | 'double';
+
+export type ProgressionOutcome = 'increased' | 'reps_increased' | 'held' | 'deloaded' | 'manual';
+
+export interface AthleteExerciseTarget {
+  id: number;
+  athlete_id: string;
+  workout_template_id: number;
+  exercise_id: number;
+  target_weight: number | null;
+  target_reps: number;
+  consecutive_misses: number;
+  last_outcome: ProgressionOutcome | null;
+  last_assignment_id: number | null;
+  updated_at: string;
+}
+
 export interface WorkoutExerciseWithDetails extends WorkoutExercise {
   exercise?: Exercise;
+  // The athlete's current target when it differs from the template
+  target_reps?: number;
 }
 
 export interface WorkoutTemplateWithExercises extends WorkoutTemplate {
@@ -174,12 +379,15 @@ export interface WorkoutAssignment {
   id: number;
   workout_template_id: number;
   athlete_id: string;
-  trainer_id: string;
+  // Null once the trainer's account is deleted
+  trainer_id: string | null;
   scheduled_date: string;
   status: 'pending' | 'in_progress' | 'completed' | 'skipped' | 'cancelled';
   started_at: string | null;
   completed_at: string | null;
   notes: string | null;
+  program_assignment_id: number | null;
+  program_workout_id: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -194,7 +402,7 @@ export interface WorkoutAssignmentWithDetails extends WorkoutAssignment {
 export interface WorkoutSessionProgress {
   id: number;
   workout_assignment_id: number;
-  exercise_id: number;
+  workout_exercise_id: number;
   set_number: number;
   reps_completed: number | null;
   weight_used: number | null;
@@ -205,6 +413,141 @@ export interface WorkoutSessionProgress {
   updated_at: string;
 }
 
+export interface TrainingProgram {
+  id: number;
+  trainer_id: string;
+  name: string;
+  description: string | null;
+  duration_weeks: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProgramWorkout {
+  id: number;
+  program_id: number;
+  workout_template_id: number;
+  week_number: number;
+  // 1 = Monday ... 7 = Sunday
+  day_of_week: number;
+  order_index: number;
+  created_at: string;
+}
+
+export type ProgramAssignmentStatus = 'active' | 'paused' | 'completed' | 'ended';
+
+export interface ProgramAssignment {
+  id: number;
+  program_id: number;
+  athlete_id: string;
+  trainer_id: string;
+  start_date: string;
+  offset_days: number;
+  status: ProgramAssignmentStatus;
+  paused_on: string | null;
+  ended_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Workouts due and completed in one week (Monday to Sunday)
+export interface WeeklyAdherence {
+  week_start: string;
+  due: number;
+  completed: number;
+  // Percentage of due workouts completed; null with none due
+  rate: number | null;
+}
+
+// How well an athlete keeps to their assigned workouts
+export interface WorkoutAdherence {
+  athlete_id: string;
+  // Weeks the counts, rate and delay cover, ending this week
+  weeks: number;
+  completed: number;
+  skipped: number;
+  // Not started or finished by their scheduled date
+  missed: number;
+  // Percentage of due workouts completed; null with none due
+  adherence_rate: number | null;
+  // Days between the scheduled date and completion; negative when early
+  average_delay_days: number | null;
+  // Consecutive days with a completed workout, ending today or yesterday
+  current_streak_days: number;
+  longest_streak_days: number;
+  last_completed_date: string | null;
+  weekly: WeeklyAdherence[];
+}
+
+// ============================================================================
+// Trainer Dashboard
+// ============================================================================
+
+export interface TrainerDashboardRecord {
+  id: number;
+  athlete_id: string;
+  athlete_name: string;
+  test_name: string;
+  result_value: number | null;
+  unit: string | null;
+  test_date: string;
+}
+
+export interface TrainerDashboardEvent {
+  id: number;
+  title: string;
+  start_date: string;
+  end_date: string;
+  location: string | null;
+  occurrence_start: string;
+  is_recurring: boolean;
+}
+
+export interface TrainerDashboardInactiveAthlete {
+  athlete_id: string;
+  full_name: string;
+  // Latest completed workout or test result; null with neither
+  last_activity_date: string | null;
+}
+
+export interface TrainerDashboardActivity {
+  type: 'test_completed' | 'personal_record' | 'workout_completed' | 'enrollment';
+  athlete_id: string;
+  athlete_name: string;
+  // Test or workout name; null for enrollments
+  subject: string | null;
+  occurred_at: string;
+}
+
+// Everything the trainer home screen shows, fetched together
+export interface TrainerDashboardStats {
+  active_athletes: number;
+  pending_requests: number;
+  // This week runs Monday to Sunday
+  workouts_this_week: {
+    week_start: string;
+    completed: number;
+    // Still to do today or later this week
+    due: number;
+    // Scheduled earlier this week and not finished or skipped
+    overdue: number;
+  };
+  // Across the roster over the last `weeks` weeks
+  adherence: {
+    weeks: number;
+    completed: number;
+    due: number;
+    rate: number | null;
+  };
+  recent_personal_records: TrainerDashboardRecord[];
+  upcoming_events: TrainerDashboardEvent[];
+  // Athletes without a completed workout or test result in `inactive_days`
+  inactive_days: number;
+  inactive_athletes: TrainerDashboardInactiveAthlete[];
+  // Latest tests, workouts and enrollments across the roster, newest first
+  recent_activity: TrainerDashboardActivity[];
+}
+
 // ============================================================================
 // Calendar Events
 // ============================================================================
@@ -223,29 +566,77 @@ export interface Event {
   title: string;
   description: string | null;
   event_type_id: number;
-  created_by_user_id: string;
+  // Null once the creator's account is deleted
+  created_by_user_id: string | null;
   start_date: string;
   end_date: string;
   location: string | null;
+  max_participants: number | null;
+  registration_deadline: string | null;
   status: 'draft' | 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
   is_public: boolean;
+  requires_approval: boolean;
+  recurrence_rule: string | null;
+  recurrence_exdates: string[] | null;
+  recurrence_parent_id: number | null;
+  recurrence_id: string | null;
+  reminder_offsets: number[] | null;
+  // False when the trainer placed the results by hand
+  results_auto_ranked: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  by_weekday?: RecurrenceWeekday[];
+  until?: string | null;
+  count?: number | null;
+}
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
 export interface EventWithDetails extends Event {
   event_type?: EventType;
   created_by?: User;
   participants?: User[];
 }
 
+export interface CalendarFeed {
+  user_id: string;
+  token: string;
+  timezone: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EventParticipantStatus =
+  | 'invited'
+  | 'pending'
+  | 'registered'
+  | 'waitlisted'
+  | 'confirmed'
+  | 'declined'
+  | 'attended'
+  | 'no_show'
+  | 'withdrawn';
+
 export interface EventParticipant {
   id: number;
   event_id: number;
   athlete_id: string;
-  assigned_by_user_id: string;
-  status: 'invited' | 'confirmed' | 'declined';
+  assigned_by_user_id: string | null;
+  status: EventParticipantStatus;
+  registration_date: string;
+  response_date: string | null;
+  notes: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface EventReminder {
@@ -253,7 +644,11 @@ export interface EventReminder {
   event_id: number;
   user_id: string;
   reminder_time: string;
-  sent: boolean;
+  offset_minutes: number | null;
+  occurrence_start: string | null;
+  message: string | null;
+  is_sent: boolean;
+  sent_at: string | null;
   created_at: string;
 }
 
@@ -261,25 +656,321 @@ export interface EventResult {
   id: number;
   event_id: number;
   athlete_id: string;
-  result_data: Record<string, any>;
+  test_id: number | null;
+  result_value: number | null;
+  result_text: string | null;
+  rank_position: number | null;
+  score: number | null;
   notes: string | null;
+  test_result_id: number | null;
+  recorded_by_user_id: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 // ============================================================================
 // Notifications
 // ============================================================================
 
+// Where a notification leads when opened
+export type NotificationTarget =
+  | { screen: 'enrollments'; enrollment_id: number }
+  | { screen: 'athlete'; athlete_id: string }
+  | { screen: 'workout'; workout_assignment_id: number }
+  | { screen: 'workouts'; program_assignment_id: number | null }
+  | { screen: 'event'; event_id: number }
+  | { screen: 'schedule' }
+  | { screen: 'test_results'; test_result_ids: number[] }
+  | { screen: 'verification' }
+  | { screen: 'data_export'; export_id: number }
+  | { screen: 'goals'; athlete_id: string; goal_id: number }
+  | { screen: 'achievements'; athlete_id: string };
+
+type TargetOf<TScreen extends NotificationTarget['screen']> = Extract<NotificationTarget, { screen: TScreen }>;
+
+// What changed about an event, for event_updated notifications
+export type EventChange = 'title' | 'time' | 'location' | 'cancelled';
+
+interface TestResultNotificationData {
+  target: TargetOf<'test_results' | 'athlete' | 'event'>;
+  athlete_id: string;
+  test_result_ids: number[];
+  // Set for results recorded at a competition
+  event_id?: number;
+  event_result_id?: number;
+  rank_position?: number | null;
+}
+
+// The `data` payload stored with each notification type
+export interface NotificationDataByType {
+  enrollment_request: { target: TargetOf<'enrollments'>; enrollment_id: number; athlete_id: string };
+  enrollment_response: {
+    target: TargetOf<'enrollments'>;
+    enrollment_id: number;
+    trainer_id: string;
+    status: 'approved' | 'rejected';
+  };
+  workout_assigned: {
+    target: TargetOf<'workout' | 'workouts'>;
+    workout_assignment_ids: number[];
+    program_assignment_id: number | null;
+    first_date: string | null;
+  };
+  workout_rescheduled: {
+    target: TargetOf<'workouts'>;
+    program_assignment_id: number;
+    days_moved: number;
+    workout_count: number;
+  };
+  workout_completed: { target: TargetOf<'workout'>; workout_assignment_id: number; athlete_id: string };
+  event_assigned: { target: TargetOf<'event'>; event_id: number };
+  event_updated: { target: TargetOf<'event' | 'schedule'>; event_id: number; changes: EventChange[] };
+  event_response: {
+    target: TargetOf<'event'>;
+    event_id: number;
+    athlete_id?: string;
+    status: EventParticipantStatus;
+  };
+  event_reminder: {
+    target: TargetOf<'event'>;
+    event_id: number;
+    occurrence_start: string | null;
+    location: string | null;
+  };
+  test_result: TestResultNotificationData;
+  personal_record: TestResultNotificationData;
+  trainer_verification: {
+    target: TargetOf<'verification'>;
+    decision: 'approved' | 'rejected';
+    reason: string | null;
+  };
+  data_export: { target: TargetOf<'data_export'>; export_id: number; status: 'ready' | 'failed' };
+  goal_achieved: { target: TargetOf<'goals'>; goal_id: number; athlete_id: string };
+  goal_at_risk: { target: TargetOf<'goals'>; goal_id: number; athlete_id: string; days_left: number };
+  achievement_earned: { target: TargetOf<'achievements'>; athlete_id: string; achievement_keys: string[] };
+  // Sent by admins; the target is optional
+  general: { target?: NotificationTarget } & Record<string, unknown>;
+}
+
+export type NotificationType = keyof NotificationDataByType;
+
+export type NotificationData<TType extends NotificationType = NotificationType> = NotificationDataByType[TType];
+
 export interface Notification {
   id: number;
   user_id: string;
-  type: 'enrollment_request' | 'enrollment_response' | 'workout_assigned' | 'event_assigned' | 'test_result' | 'general';
+  type: NotificationType;
   title: string;
   message: string;
-  data: Record<string, any> | null;
+  // Notifications from before typed payloads may not match their type's shape
+  data: NotificationData | null;
   is_read: boolean;
   read_at: string | null;
   created_at: string;
+  push_status: 'pending' | 'processing' | 'sent' | 'failed' | 'skipped';
+  pushed_at: string | null;
+}
+
+export type PushPlatform = 'ios' | 'android' | 'web';
+
+export interface PushDevice {
+  id: number;
+  user_id: string;
+  token: string; // Expo push token
+  platform: PushPlatform;
+  device_name: string | null;
+  app_version: string | null;
+  last_registered_at: string;
+  created_at: string;
+}
+
+export interface PushDelivery {
+  id: number;
+  notification_id: number;
+  device_id: number | null;
+  status: 'sent' | 'failed' | 'invalid_token';
+  ticket_id: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+// In-app notifications are rows in `notifications`; push goes to devices
+export type NotificationChannel = 'in_app' | 'push';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:MM, wall clock in `timezone`
+  end: string; // HH:MM; before `start` when quiet hours span midnight
+  timezone: string; // IANA time zone
+}
+
+// Stored under `notifications` in user_profiling.preferences
+export interface NotificationPreferences {
+  channels: Record<NotificationType, Record<NotificationChannel, boolean>>;
+  quiet_hours: QuietHours;
+}
+
+// ============================================================================
+// Offline Sync
+// ============================================================================
+
+export interface SyncWorkoutAssignment extends WorkoutAssignment {
+  workout_template: WorkoutTemplateWithExercises | null;
+  trainer: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+}
+
+export interface SyncTestResult extends TestResult {
+  test: (Pick<Test, 'id' | 'name' | 'description' | 'unit' | 'improvement_direction' | 'component_id'> & {
+    fitness_component: Pick<FitnessComponent, 'id' | 'name' | 'description'> | null;
+  }) | null;
+}
+
+// The signed-in user's data as mirrored by the mobile app; trainers get
+// templates only, athletes everything else
+export interface SyncSnapshot {
+  server_time: string;
+  workout_templates: WorkoutTemplateWithExercises[];
+  workout_assignments: SyncWorkoutAssignment[];
+  session_progress: WorkoutSessionProgress[];
+  test_results: SyncTestResult[];
+  body_metrics: BodyMetric[];
+}
+
+// ============================================================================
+// Real-time Events
+// ============================================================================
+
+export type RealtimeEventKind = 'notification' | 'enrollment' | 'workout_assignment';
+
+export type RealtimeEventAction = 'created' | 'updated' | 'deleted';
+
+// Written by database triggers; the id is the cursor a client resumes from
+export interface RealtimeEvent {
+  id: number;
+  user_id: string;
+  kind: RealtimeEventKind;
+  entity_id: number;
+  action: RealtimeEventAction;
+  created_at: string;
+}
+
+// A realtime event as streamed to the client
+export interface RealtimeChange extends Omit<RealtimeEvent, 'id' | 'user_id'> {
+  // Current row for created or updated notifications, so clients can show it without refetching
+  notification?: Notification;
+}
+
+// ============================================================================
+// Data Export
+// ============================================================================
+
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+
+// A requested export; the archive is a zip in storage until expires_at
+export interface DataExport {
+  id: number;
+  user_id: string;
+  status: DataExportStatus;
+  file_path: string | null;
+  file_size: number | null;
+  error: string | null;
+  requested_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+}
+
+export interface DataExportWithUrl extends DataExport {
+  // Signed download URL while the archive is ready
+  url: string | null;
+}
+
+export type DataExportSection =
+  | 'profile'
+  | 'profiling'
+  | 'athlete'
+  | 'trainer'
+  | 'enrollments'
+  | 'test_results'
+  | 'body_metrics'
+  | 'goals'
+  | 'achievements'
+  | 'workout_assignments'
+  | 'workout_session_progress'
+  | 'exercise_targets'
+  | 'program_assignments'
+  | 'events'
+  | 'event_participations'
+  | 'event_results'
+  | 'notifications'
+  | 'push_devices'
+  | 'workout_templates'
+  | 'workout_template_exercises'
+  | 'training_programs'
+  | 'program_workouts';
+
+// data.json in the export archive; each section is also a CSV file
+export interface DataExportArchive {
+  generated_at: string;
+  user_id: string;
+  role: UserRole;
+  sections: Partial<Record<DataExportSection, Record<string, unknown>[]>>;
+}
+
+// ============================================================================
+// Account Deletion
+// ============================================================================
+
+export type AccountDeletionStatus = 'pending' | 'cancelled' | 'completed';
+
+// A self-service deletion request; the account is deactivated while pending
+// and deleted once scheduled_for passes
+export interface AccountDeletion {
+  id: number;
+  user_id: string;
+  user_name: string | null;
+  user_role: UserRole | null;
+  status: AccountDeletionStatus;
+  reason: string | null;
+  // Trainer who receives the content athletes still use; null anonymises it
+  transfer_to_user_id: string | null;
+  error: string | null;
+  requested_at: string;
+  scheduled_for: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export type AuditEntityType = 'user' | 'user_profiling' | 'trainer' | 'athlete' | 'enrollment';
+
+export type AuditAction =
+  | 'user.role_changed'
+  | 'user.verification_changed'
+  | 'user.deletion_requested'
+  | 'user.deletion_cancelled'
+  | 'user.deleted'
+  | 'user_profiling.updated'
+  | 'athlete.updated'
+  | 'trainer.updated'
+  | 'trainer.verification_reviewed'
+  | 'enrollment.updated';
+
+export interface AuditLogEntry {
+  id: number;
+  actor_id: string | null;
+  actor_name: string | null;
+  actor_role: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  before_values: Record<string, unknown> | null;
+  after_values: Record<string, unknown> | null;
+  ip_address: string | null;
+  created_at: string;
 }
 
 // ============================================================================